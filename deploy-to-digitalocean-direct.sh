@@ -47,10 +47,6 @@ services:
     value: ${JOBADDER_CLIENT_SECRET}
     scope: RUN_AND_BUILD_TIME
     type: SECRET
-  - key: JOBADDER_WEBHOOK_SECRET
-    value: ${JOBADDER_WEBHOOK_SECRET}
-    scope: RUN_AND_BUILD_TIME
-    type: SECRET
 databases:
 - name: db
   engine: PG
@@ -42,7 +42,6 @@ DEPLOY_COMMAND="docker pull $REGISTRY_IMAGE && docker stop $IMAGE_NAME || true &
   -e PAYLOAD_SECRET='$PAYLOAD_SECRET' \
   -e JOBADDER_CLIENT_ID='$JOBADDER_CLIENT_ID' \
   -e JOBADDER_CLIENT_SECRET='$JOBADDER_CLIENT_SECRET' \
-  -e JOBADDER_WEBHOOK_SECRET='$JOBADDER_WEBHOOK_SECRET' \
   -e NEXT_PUBLIC_API_URL='$NEXT_PUBLIC_API_URL' \
   -e LOG_LEVEL='$LOG_LEVEL' \
   -e DEBUG='$DEBUG' \
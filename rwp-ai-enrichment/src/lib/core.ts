@@ -0,0 +1,67 @@
+/**
+ * RWP Core Integration Module
+ *
+ * This module tells rwp-core when a candidate's enrichment results change, so tenants that
+ * opted in can have a summary written back to their ATS.
+ */
+
+import axios from 'axios'
+
+// What rwp-core writes back to the ATS
+export interface EnrichmentSummary {
+  overallScore: number
+  tier: string
+  strengths: string[]
+  skills: string[]
+}
+
+/**
+ * Build the summary sent to rwp-core from a candidate_enrichments row
+ * @param row The candidate_enrichments row
+ * @returns The enrichment summary
+ */
+export function summariseEnrichment(row: any): EnrichmentSummary {
+  return {
+    overallScore: Math.round(Number(row.overall_score) || 0),
+    tier: row.tier || '',
+    strengths: row.strengths || [],
+    skills: row.ai_enrichment?.extractedSkills || [],
+  }
+}
+
+/**
+ * Notify rwp-core that a candidate's score or benchmark results changed
+ * Never throws: the results are already saved, and rwp-core only uses them for write-back.
+ * @param candidateId The ID of the candidate
+ * @param tenantId The ID of the tenant
+ * @param trigger What produced the new results
+ * @param summary The candidate's enrichment summary
+ */
+export async function notifyEnrichmentUpdated(
+  candidateId: string,
+  tenantId: string,
+  trigger: 'talent_score' | 'benchmark',
+  summary: EnrichmentSummary,
+): Promise<void> {
+  if (!process.env.RWP_CORE_API_URL || !process.env.RWP_CORE_API_KEY) {
+    return
+  }
+
+  try {
+    await axios.post(
+      `${process.env.RWP_CORE_API_URL}/api/ats/enrichment`,
+      { candidateId, tenantId, trigger, ...summary },
+      {
+        headers: { 'x-api-key': process.env.RWP_CORE_API_KEY },
+        timeout: 10000,
+      },
+    )
+  } catch (error) {
+    console.error('Error notifying rwp-core of enrichment results:', error)
+  }
+}
+
+export default {
+  summariseEnrichment,
+  notifyEnrichmentUpdated,
+}
@@ -8,6 +8,7 @@
 import { compareToBenchmark } from '../lib/openai'
 import { BenchmarkTemplate, EvaluateBenchmarkResponse } from '../lib/types'
 import * as db from '../lib/db'
+import { notifyEnrichmentUpdated, summariseEnrichment } from '../lib/core'
 
 /**
  * Get all benchmark templates for a tenant
@@ -261,6 +262,7 @@ async function saveEvaluationResults(
         development_areas = $8,
         updated_at = NOW()
       WHERE candidate_id = $1 AND tenant_id = $2
+      RETURNING *
     `
 
     // Format the benchmark scores
@@ -276,7 +278,7 @@ async function saveEvaluationResults(
       benchmarkTemplateId: benchmarkId,
     }
 
-    await db.query(query, [
+    const result = await db.query(query, [
       candidateId,
       tenantId,
       benchmarkId,
@@ -289,6 +291,15 @@ async function saveEvaluationResults(
 
     // Log the data access
     await logBenchmarkEvaluation(candidateId, benchmarkId, tenantId)
+
+    if (result.rows[0]) {
+      await notifyEnrichmentUpdated(
+        candidateId,
+        tenantId,
+        'benchmark',
+        summariseEnrichment(result.rows[0]),
+      )
+    }
   } catch (error) {
     console.error('Error saving evaluation results:', error)
     throw error
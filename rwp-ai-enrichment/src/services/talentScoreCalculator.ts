@@ -8,6 +8,7 @@
 import { analyzeCandidateProfile } from '../lib/openai'
 import { CandidateEnrichment } from '../lib/types'
 import * as db from '../lib/db'
+import { notifyEnrichmentUpdated, summariseEnrichment } from '../lib/core'
 
 /**
  * Calculate a TalentScore for a candidate
@@ -324,6 +325,13 @@ export async function saveTalentScore(
         true, // Default to true for data_usage_consent
       ])
 
+      await notifyEnrichmentUpdated(
+        candidateId,
+        tenantId,
+        'talent_score',
+        summariseEnrichment(insertResult.rows[0]),
+      )
+
       return insertResult.rows[0]
     } else {
       // Update the existing enrichment record
@@ -365,6 +373,13 @@ export async function saveTalentScore(
         talentScore.developmentAreas,
       ])
 
+      await notifyEnrichmentUpdated(
+        candidateId,
+        tenantId,
+        'talent_score',
+        summariseEnrichment(updateResult.rows[0]),
+      )
+
       return updateResult.rows[0]
     }
   } catch (error) {
@@ -60,10 +60,6 @@ services:
     value: $JOBADDER_CLIENT_SECRET
     scope: RUN_AND_BUILD_TIME
     type: SECRET
-  - key: JOBADDER_WEBHOOK_SECRET
-    value: $JOBADDER_WEBHOOK_SECRET
-    scope: RUN_AND_BUILD_TIME
-    type: SECRET
   - key: LOG_LEVEL
     value: $LOG_LEVEL
     scope: RUN_AND_BUILD_TIME
@@ -0,0 +1,36 @@
+import React from 'react'
+import { Metadata } from 'next'
+import { JobSeekerLoginForm } from '../../components/JobSeekerLoginForm'
+
+export const metadata: Metadata = {
+  title: 'Sign In',
+  robots: {
+    index: false,
+  },
+}
+
+// Define the props for the page component
+interface LoginPageProps {
+  searchParams: {
+    // Path to go to once signed in
+    redirect?: string
+    // Why a sign-in link didn't work
+    error?: string
+  }
+}
+
+export default function LoginPage({ searchParams }: LoginPageProps) {
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-md">
+      <h1 className="text-3xl font-bold text-gray-900 mb-2">Sign in</h1>
+      <p className="text-gray-600 mb-6">
+        Save jobs, follow your applications and manage your job alerts. We&apos;ll email you a link
+        to sign in, no password needed.
+      </p>
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <JobSeekerLoginForm redirectTo={searchParams.redirect} error={searchParams.error} />
+      </div>
+    </div>
+  )
+}
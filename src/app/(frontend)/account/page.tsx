@@ -0,0 +1,19 @@
+import React from 'react'
+import { Metadata } from 'next'
+import { AccountDashboard } from '../components/AccountDashboard'
+
+export const metadata: Metadata = {
+  title: 'Your Account',
+  robots: {
+    index: false,
+  },
+}
+
+export default function AccountPage() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold text-gray-900 mb-6">Your account</h1>
+      <AccountDashboard />
+    </div>
+  )
+}
@@ -0,0 +1,331 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+
+interface Account {
+  tenantName: string
+  profile: {
+    email: string
+    firstName?: string | null
+    lastName?: string | null
+    phone?: string | null
+    location?: string | null
+    hasResume: boolean
+  }
+  savedJobs: Array<{ id: string; title: string; slug: string; location: string }>
+  applications: Array<{
+    id: string
+    status: string
+    submittedAt?: string
+    job?: { title: string; slug: string } | null
+  }>
+  alerts: Array<{
+    id: string
+    search: string
+    frequency: 'daily' | 'weekly'
+    status: 'pending' | 'active'
+  }>
+}
+
+// How application statuses are shown to job seekers
+const APPLICATION_STATUS_LABELS: Record<string, string> = {
+  submitted: 'Submitted',
+  reviewing: 'Under review',
+  shortlisted: 'Shortlisted',
+  rejected: 'Unsuccessful',
+  hired: 'Hired',
+  withdrawn: 'Withdrawn',
+}
+
+const INPUT_CLASS = 'mt-1 w-full border rounded-md px-3 py-2'
+
+const consentStatement = (tenantName?: string) =>
+  `I agree to ${tenantName} keeping my details to consider me for future roles.`
+
+/**
+ * The signed in job seeker's profile, saved jobs, applications and job alerts
+ * Job seekers who aren't signed in are sent to sign in.
+ */
+export const AccountDashboard: React.FC = () => {
+  const [account, setAccount] = useState<Account | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [profileMessage, setProfileMessage] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const loadAccount = useCallback(async () => {
+    try {
+      const response = await fetch('/api/account')
+
+      if (response.status === 401) {
+        window.location.assign('/account/login?redirect=/account')
+        return
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to fetch account: ${response.statusText}`)
+      }
+
+      setAccount(await response.json())
+      setError(null)
+    } catch (err) {
+      console.error('Error fetching account:', err)
+      setError('Failed to load your account. Please try again later.')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadAccount()
+  }, [loadAccount])
+
+  const handleProfileSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setSaving(true)
+    setProfileMessage(null)
+
+    // Only ticking the box says anything about consent; leaving it unticked changes nothing
+    const form = new FormData(e.currentTarget)
+    if (form.has('dataUsageConsent')) {
+      form.set('dataUsageConsent', 'true')
+      form.set('consentStatement', consentStatement(account?.tenantName))
+    }
+
+    try {
+      const response = await fetch('/api/account/profile', {
+        method: 'PATCH',
+        body: form,
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        setProfileMessage(result.error || 'Failed to save your profile. Please try again.')
+        return
+      }
+
+      setProfileMessage('Your profile has been saved.')
+      await loadAccount()
+    } catch (err) {
+      console.error('Error saving profile:', err)
+      setProfileMessage('Failed to save your profile. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRemoveSavedJob = async (jobId: string) => {
+    await fetch(`/api/account/saved-jobs?job=${encodeURIComponent(jobId)}`, { method: 'DELETE' })
+    await loadAccount()
+  }
+
+  const handleAlertChange = async (
+    alertId: string,
+    changes: { frequency?: string; status?: string },
+  ) => {
+    await fetch('/api/account/alerts', {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ id: alertId, ...changes }),
+    })
+    await loadAccount()
+  }
+
+  const handleSignOut = async () => {
+    await fetch('/api/account/logout', { method: 'POST' })
+    window.location.assign('/')
+  }
+
+  if (error) {
+    return <p className="text-red-600">{error}</p>
+  }
+
+  if (!account) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    )
+  }
+
+  const { profile, savedJobs, applications, alerts } = account
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 space-y-6">
+        {/* Saved jobs */}
+        <section className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-xl font-bold text-gray-900 mb-4">Saved jobs</h2>
+          {savedJobs.length > 0 ? (
+            <ul className="divide-y">
+              {savedJobs.map((job) => (
+                <li key={job.id} className="py-3 flex justify-between items-center">
+                  <div>
+                    <Link href={`/jobs/${job.slug}`} className="text-blue-600 font-semibold">
+                      {job.title}
+                    </Link>
+                    <p className="text-sm text-gray-600">{job.location}</p>
+                  </div>
+                  <button
+                    onClick={() => handleRemoveSavedJob(job.id)}
+                    className="text-sm text-gray-500 hover:text-red-600"
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-gray-600">
+              You haven&apos;t saved any jobs yet. <Link href="/search">Search jobs</Link>
+            </p>
+          )}
+        </section>
+
+        {/* Application history */}
+        <section className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-xl font-bold text-gray-900 mb-4">Your applications</h2>
+          {applications.length > 0 ? (
+            <ul className="divide-y">
+              {applications.map((application) => (
+                <li key={application.id} className="py-3 flex justify-between items-center">
+                  <div>
+                    {application.job ? (
+                      <Link
+                        href={`/jobs/${application.job.slug}`}
+                        className="text-blue-600 font-semibold"
+                      >
+                        {application.job.title}
+                      </Link>
+                    ) : (
+                      <span className="font-semibold">Job no longer listed</span>
+                    )}
+                    {application.submittedAt && (
+                      <p className="text-sm text-gray-600">
+                        Applied {format(new Date(application.submittedAt), 'd MMM yyyy')}
+                      </p>
+                    )}
+                  </div>
+                  <span className="text-sm font-medium text-gray-700">
+                    {APPLICATION_STATUS_LABELS[application.status] || application.status}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-gray-600">You haven&apos;t applied for any jobs yet.</p>
+          )}
+        </section>
+
+        {/* Job alerts */}
+        <section className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-xl font-bold text-gray-900 mb-4">Job alerts</h2>
+          {alerts.length > 0 ? (
+            <ul className="divide-y">
+              {alerts.map((alert) => (
+                <li
+                  key={alert.id}
+                  className="py-3 flex flex-wrap gap-4 justify-between items-center"
+                >
+                  <div>
+                    <p className="font-semibold">{alert.search}</p>
+                    {alert.status === 'pending' && (
+                      <p className="text-sm text-gray-600">Not turned on yet</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <select
+                      value={alert.frequency}
+                      onChange={(e) => handleAlertChange(alert.id, { frequency: e.target.value })}
+                      aria-label="How often"
+                      className="border rounded-md px-2 py-1"
+                    >
+                      <option value="daily">Daily</option>
+                      <option value="weekly">Weekly</option>
+                    </select>
+                    {alert.status === 'pending' && (
+                      <button
+                        onClick={() => handleAlertChange(alert.id, { status: 'active' })}
+                        className="text-sm text-blue-600"
+                      >
+                        Turn on
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleAlertChange(alert.id, { status: 'unsubscribed' })}
+                      className="text-sm text-gray-500 hover:text-red-600"
+                    >
+                      Unsubscribe
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-gray-600">
+              You have no job alerts. Create one from the <Link href="/search">search page</Link>.
+            </p>
+          )}
+        </section>
+      </div>
+
+      {/* Profile */}
+      <section className="bg-white rounded-lg shadow-md p-6 h-fit">
+        <h2 className="text-xl font-bold text-gray-900 mb-1">Your profile</h2>
+        <p className="text-sm text-gray-600 mb-4">{profile.email}</p>
+
+        <form onSubmit={handleProfileSubmit} className="space-y-4">
+          <label className="block">
+            <span className="text-sm font-medium">First name</span>
+            <input
+              name="firstName"
+              defaultValue={profile.firstName || ''}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="block">
+            <span className="text-sm font-medium">Last name</span>
+            <input name="lastName" defaultValue={profile.lastName || ''} className={INPUT_CLASS} />
+          </label>
+          <label className="block">
+            <span className="text-sm font-medium">Phone</span>
+            <input
+              name="phone"
+              type="tel"
+              defaultValue={profile.phone || ''}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="block">
+            <span className="text-sm font-medium">Location</span>
+            <input name="location" defaultValue={profile.location || ''} className={INPUT_CLASS} />
+          </label>
+          <label className="block">
+            <span className="text-sm font-medium">
+              {profile.hasResume ? 'Replace your resume' : 'Resume'} (PDF or Word, up to 10MB)
+            </span>
+            <input name="resume" type="file" accept=".pdf,.doc,.docx" className="mt-1 w-full" />
+          </label>
+          <label className="flex items-start gap-2">
+            <input name="dataUsageConsent" type="checkbox" className="mt-1" />
+            <span className="text-sm text-gray-700">{consentStatement(account.tenantName)}</span>
+          </label>
+
+          {profileMessage && <p className="text-sm">{profileMessage}</p>}
+
+          <button
+            type="submit"
+            disabled={saving}
+            className="w-full bg-blue-500 text-white px-6 py-2 rounded-md font-semibold hover:bg-blue-600 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save profile'}
+          </button>
+        </form>
+
+        <button onClick={handleSignOut} className="mt-6 text-sm text-gray-500 hover:text-gray-700">
+          Sign out
+        </button>
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,233 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import {
+  extractUtmParams,
+  getOrCreateSessionId,
+  trackApplyStarted,
+} from '../../../lib/eventTracking'
+import { trackApplyCompletePixel, trackApplyStartPixel } from '../../../lib/pixelTracking'
+
+export interface ApplyFormQuestion {
+  id: string
+  question: string
+  helpText?: string
+  type: 'yes_no' | 'single_choice' | 'multi_choice' | 'number' | 'text' | 'file'
+  options: string[]
+  required: boolean
+}
+
+interface ApplyFormProps {
+  jobId: string
+  jobTitle: string
+  tenantName: string
+  questions?: ApplyFormQuestion[]
+}
+
+const INPUT_CLASS = 'mt-1 w-full border rounded-md px-3 py-2'
+
+/**
+ * Input for one screening question
+ * Inputs are named `question_<id>`, or `answerFile_<id>` for file questions, which the API reads
+ * directly.
+ */
+const ScreeningQuestionInput: React.FC<{ question: ApplyFormQuestion }> = ({ question }) => {
+  const name = `question_${question.id}`
+
+  switch (question.type) {
+    case 'yes_no':
+      return (
+        <div className="flex gap-4 mt-1">
+          {['yes', 'no'].map((value) => (
+            <label key={value} className="flex items-center gap-1">
+              <input type="radio" name={name} value={value} required={question.required} />
+              <span>{value === 'yes' ? 'Yes' : 'No'}</span>
+            </label>
+          ))}
+        </div>
+      )
+    case 'single_choice':
+      return (
+        <select name={name} required={question.required} className={INPUT_CLASS}>
+          <option value="">Select an option</option>
+          {question.options.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      )
+    case 'multi_choice':
+      return (
+        <div className="mt-1 space-y-1">
+          {question.options.map((option) => (
+            <label key={option} className="flex items-center gap-2">
+              <input type="checkbox" name={name} value={option} />
+              <span>{option}</span>
+            </label>
+          ))}
+        </div>
+      )
+    case 'number':
+      return (
+        <input name={name} type="number" required={question.required} className={INPUT_CLASS} />
+      )
+    case 'file':
+      return (
+        <input
+          name={`answerFile_${question.id}`}
+          type="file"
+          accept=".pdf,.doc,.docx"
+          required={question.required}
+          className="mt-1 w-full"
+        />
+      )
+    default:
+      return <textarea name={name} rows={3} required={question.required} className={INPUT_CLASS} />
+  }
+}
+
+/**
+ * Hosted apply form for a job
+ * Submits to /api/jobs/apply, which records the application and the apply_completed event,
+ * so only apply_started and the marketing pixels are tracked here.
+ */
+export const ApplyForm: React.FC<ApplyFormProps> = ({
+  jobId,
+  jobTitle,
+  tenantName,
+  questions = [],
+}) => {
+  const [submitting, setSubmitting] = useState(false)
+  const [submitted, setSubmitted] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const consentStatement = `I agree to ${tenantName} keeping my details to consider me for this and future roles.`
+
+  // Opening the apply page starts the application
+  useEffect(() => {
+    trackApplyStarted(jobId)
+    trackApplyStartPixel(jobId, jobTitle)
+  }, [jobId, jobTitle])
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+
+    const form = new FormData(e.currentTarget)
+    const utmParams = extractUtmParams()
+    form.set('jobId', jobId)
+    form.set('sessionId', getOrCreateSessionId())
+    form.set('dataUsageConsent', form.get('dataUsageConsent') ? 'true' : 'false')
+    form.set('consentStatement', consentStatement)
+    form.set('referrer', document.referrer)
+
+    // Screening answers go as one JSON field, files stay as they are
+    const answers = questions
+      .filter((question) => question.type !== 'file')
+      .map((question) => {
+        const values = form.getAll(`question_${question.id}`).map(String)
+        form.delete(`question_${question.id}`)
+        return {
+          questionId: question.id,
+          answer: question.type === 'multi_choice' ? values : values[0],
+        }
+      })
+    form.set('answers', JSON.stringify(answers))
+    if (utmParams.source) form.set('utm_source', utmParams.source)
+    if (utmParams.medium) form.set('utm_medium', utmParams.medium)
+    if (utmParams.campaign) form.set('utm_campaign', utmParams.campaign)
+
+    try {
+      const response = await fetch('/api/jobs/apply', {
+        method: 'POST',
+        body: form,
+      })
+
+      if (!response.ok) {
+        const result = await response.json()
+        setError(result.error || 'Failed to submit your application. Please try again.')
+        return
+      }
+
+      trackApplyCompletePixel(jobId, jobTitle)
+      setSubmitted(true)
+    } catch (err) {
+      console.error('Error submitting application:', err)
+      setError('Failed to submit your application. Please try again.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (submitted) {
+    return (
+      <div className="bg-green-50 border border-green-200 rounded-md p-6">
+        <h2 className="text-xl font-semibold">Application submitted</h2>
+        <p className="mt-2">Thanks for applying for {jobTitle}. We'll be in touch soon.</p>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="block">
+          <span className="text-sm font-medium">First name</span>
+          <input name="firstName" required className={INPUT_CLASS} />
+        </label>
+        <label className="block">
+          <span className="text-sm font-medium">Last name</span>
+          <input name="lastName" required className={INPUT_CLASS} />
+        </label>
+      </div>
+
+      <label className="block">
+        <span className="text-sm font-medium">Email</span>
+        <input name="email" type="email" required className={INPUT_CLASS} />
+      </label>
+
+      <label className="block">
+        <span className="text-sm font-medium">Phone</span>
+        <input name="phone" type="tel" className={INPUT_CLASS} />
+      </label>
+
+      <label className="block">
+        <span className="text-sm font-medium">Resume (PDF or Word, up to 10MB)</span>
+        <input name="resume" type="file" accept=".pdf,.doc,.docx" className="mt-1 w-full" />
+      </label>
+
+      <label className="block">
+        <span className="text-sm font-medium">Cover letter</span>
+        <textarea name="coverLetter" rows={6} className={INPUT_CLASS} />
+      </label>
+
+      {questions.map((question) => (
+        <div key={question.id}>
+          <span className="text-sm font-medium">
+            {question.question}
+            {question.required && ' *'}
+          </span>
+          {question.helpText && <p className="text-sm text-gray-500">{question.helpText}</p>}
+          <ScreeningQuestionInput question={question} />
+        </div>
+      ))}
+
+      <label className="flex items-start gap-2">
+        <input name="dataUsageConsent" type="checkbox" className="mt-1" />
+        <span className="text-sm text-gray-700">{consentStatement}</span>
+      </label>
+
+      {error && <p className="text-red-600">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={submitting}
+        className="bg-blue-500 text-white px-6 py-3 rounded-md font-semibold hover:bg-blue-600 transition-colors disabled:opacity-50"
+      >
+        {submitting ? 'Submitting...' : 'Submit application'}
+      </button>
+    </form>
+  )
+}
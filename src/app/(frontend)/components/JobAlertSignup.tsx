@@ -0,0 +1,101 @@
+'use client'
+
+import React, { useState } from 'react'
+
+interface JobAlertSignupProps {
+  // The search being saved, as the search page's params
+  criteria: {
+    query?: string
+    sector?: string
+    location?: string
+    type?: string
+    minSalary?: string
+  }
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 border border-gray-300 rounded-md'
+
+/**
+ * Form for saving the current search as a job alert
+ */
+export const JobAlertSignup: React.FC<JobAlertSignupProps> = ({ criteria }) => {
+  const [email, setEmail] = useState('')
+  const [frequency, setFrequency] = useState<'daily' | 'weekly'>('weekly')
+  const [submitting, setSubmitting] = useState(false)
+  const [submitted, setSubmitted] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/job-alerts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email, frequency, criteria }),
+      })
+
+      if (!response.ok) {
+        const result = await response.json()
+        setError(result.error || 'Failed to create your job alert. Please try again.')
+        return
+      }
+
+      setSubmitted(true)
+    } catch (err) {
+      console.error('Error creating job alert:', err)
+      setError('Failed to create your job alert. Please try again.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (submitted) {
+    return (
+      <div className="bg-green-50 border border-green-200 rounded-lg p-6 mb-8">
+        <p>Check your email and confirm your job alert to start receiving new jobs.</p>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <h2 className="text-lg font-semibold text-gray-800 mb-2">Get new jobs by email</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        We&apos;ll email you when jobs matching this search are posted.
+      </p>
+      <div className="flex flex-col md:flex-row gap-4">
+        <input
+          type="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Your email address"
+          aria-label="Email"
+          className={INPUT_CLASS}
+        />
+        <select
+          value={frequency}
+          onChange={(e) => setFrequency(e.target.value as 'daily' | 'weekly')}
+          aria-label="How often"
+          className={`${INPUT_CLASS} md:w-1/4`}
+        >
+          <option value="daily">Daily</option>
+          <option value="weekly">Weekly</option>
+        </select>
+        <button
+          type="submit"
+          disabled={submitting}
+          className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50 whitespace-nowrap"
+        >
+          {submitting ? 'Saving...' : 'Create alert'}
+        </button>
+      </div>
+      {error && <p className="text-red-600 mt-2">{error}</p>}
+    </form>
+  )
+}
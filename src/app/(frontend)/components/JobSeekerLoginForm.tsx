@@ -0,0 +1,82 @@
+'use client'
+
+import React, { useState } from 'react'
+
+interface JobSeekerLoginFormProps {
+  // Path to go to once signed in
+  redirectTo?: string
+  error?: string
+}
+
+/**
+ * Form asking for a sign-in link to be emailed
+ */
+export const JobSeekerLoginForm: React.FC<JobSeekerLoginFormProps> = ({ redirectTo, error }) => {
+  const [email, setEmail] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [submitted, setSubmitted] = useState(false)
+  const [formError, setFormError] = useState<string | null>(error || null)
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setFormError(null)
+
+    try {
+      const response = await fetch('/api/account/login', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email, redirectTo }),
+      })
+
+      if (!response.ok) {
+        const result = await response.json()
+        setFormError(result.error || 'Failed to send your sign-in link. Please try again.')
+        return
+      }
+
+      setSubmitted(true)
+    } catch (err) {
+      console.error('Error requesting sign-in link:', err)
+      setFormError('Failed to send your sign-in link. Please try again.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (submitted) {
+    return (
+      <p>
+        We&apos;ve emailed a sign-in link to <strong>{email}</strong>. It works once and expires in
+        15 minutes.
+      </p>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <label className="block">
+        <span className="text-sm font-medium">Email</span>
+        <input
+          type="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className="mt-1 w-full border rounded-md px-3 py-2"
+        />
+      </label>
+
+      {formError && <p className="text-red-600">{formError}</p>}
+
+      <button
+        type="submit"
+        disabled={submitting}
+        className="w-full bg-blue-500 text-white px-6 py-3 rounded-md font-semibold hover:bg-blue-600 transition-colors disabled:opacity-50"
+      >
+        {submitting ? 'Sending...' : 'Email me a sign-in link'}
+      </button>
+    </form>
+  )
+}
@@ -0,0 +1,98 @@
+import React from 'react'
+import { Metadata } from 'next'
+import Link from 'next/link'
+import { headers } from 'next/headers'
+import { notFound } from 'next/navigation'
+import payload from 'payload'
+import { ApplyForm, ApplyFormQuestion } from '../../../components/ApplyForm'
+import { getTenantByDomain } from '../../../../../lib/tenants'
+import { getJobScreeningQuestions } from '../../../../../lib/screening'
+import type { Job } from '../../../../../payload-types'
+
+// Define the props for the page component
+interface ApplyPageProps {
+  params: {
+    slug: string
+  }
+}
+
+// Generate metadata for the page
+export async function generateMetadata({ params }: ApplyPageProps): Promise<Metadata> {
+  const job = await getPublishedJob(params.slug)
+
+  return {
+    title: job ? `Apply for ${job.title}` : 'Job Not Found',
+    robots: {
+      index: false,
+    },
+  }
+}
+
+// Helper function to fetch the tenant's published job by slug
+async function getPublishedJob(slug: string) {
+  try {
+    const hostname = headers().get('host') || ''
+    const tenant = await getTenantByDomain(hostname)
+    if (!tenant) {
+      return null
+    }
+
+    const jobs = await payload.find({
+      collection: 'jobs',
+      where: {
+        slug: { equals: slug },
+        tenant: { equals: tenant.id },
+        status: { equals: 'published' },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    const job = jobs.docs[0] as unknown as Job | undefined
+    return job ? { ...job, tenantName: tenant.name } : null
+  } catch (error) {
+    console.error('Error fetching job:', error)
+    return null
+  }
+}
+
+// Main page component
+export default async function ApplyPage({ params }: ApplyPageProps) {
+  const job = await getPublishedJob(params.slug)
+
+  if (!job) {
+    notFound()
+  }
+
+  // Only what the form needs: the knockout rules stay on the server
+  const questions: ApplyFormQuestion[] = (await getJobScreeningQuestions(job as any)).map(
+    (question) => ({
+      id: String(question.id),
+      question: question.question,
+      helpText: question.helpText || undefined,
+      type: question.type,
+      options: (question.options || []).map((option) => option.label),
+      required: Boolean(question.required),
+    }),
+  )
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-2xl">
+      <Link href={`/jobs/${params.slug}`} className="text-blue-600 hover:underline">
+        Back to job
+      </Link>
+
+      <h1 className="text-3xl font-bold mt-4">Apply for {job.title}</h1>
+      <p className="text-gray-600 mt-1">{job.location}</p>
+
+      <div className="mt-8">
+        <ApplyForm
+          jobId={String(job.id)}
+          jobTitle={job.title}
+          tenantName={job.tenantName}
+          questions={questions}
+        />
+      </div>
+    </div>
+  )
+}
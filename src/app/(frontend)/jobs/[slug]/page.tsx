@@ -45,6 +45,7 @@ export default function JobPage() {
   const [job, setJob] = useState<Job | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
 
   // Fetch job data
   useEffect(() => {
@@ -100,7 +101,7 @@ export default function JobPage() {
           logo: '/acme-logo.png',
           companyDescription:
             'Acme Inc. is a leading technology company specializing in innovative software solutions for businesses of all sizes. With over 500 employees worldwide, we are dedicated to creating products that help our customers succeed.',
-          applyLink: '/apply/senior-software-engineer',
+          applyLink: `/jobs/${slug}/apply`,
         }
 
         setJob(mockJob)
@@ -129,7 +130,12 @@ export default function JobPage() {
 
   // Handle apply button click
   const handleApply = () => {
-    if (job?.applyLink) {
+    if (!job?.applyLink) return
+
+    // Our hosted apply page opens in place, external apply links in a new tab
+    if (job.applyLink.startsWith('/')) {
+      window.location.assign(job.applyLink)
+    } else {
       window.open(job.applyLink, '_blank')
     }
   }
@@ -150,9 +156,30 @@ export default function JobPage() {
   }
 
   // Handle save button click
-  const handleSave = () => {
-    // In a real application, you would save the job to the user's saved jobs
-    alert('Job saved!')
+  const handleSave = async () => {
+    try {
+      const response = await fetch('/api/account/saved-jobs', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ slug }),
+      })
+
+      // Saving jobs needs an account, so sign in and come back to the job
+      if (response.status === 401) {
+        window.location.assign(`/account/login?redirect=${encodeURIComponent(`/jobs/${slug}`)}`)
+        return
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to save job: ${response.statusText}`)
+      }
+
+      setSaved(true)
+    } catch (err) {
+      console.error('Error saving job:', err)
+      alert('Failed to save the job. Please try again.')
+    }
   }
 
   if (loading) {
@@ -239,10 +266,11 @@ export default function JobPage() {
 
               <button
                 onClick={handleSave}
+                disabled={saved}
                 className="border border-gray-300 hover:bg-gray-50 text-gray-700 font-semibold py-2 px-4 rounded-md transition-colors flex items-center"
               >
-                <Bookmark className="h-5 w-5 mr-2" />
-                Save
+                <Bookmark className={`h-5 w-5 mr-2 ${saved ? 'fill-current' : ''}`} />
+                {saved ? 'Saved' : 'Save'}
               </button>
 
               <button
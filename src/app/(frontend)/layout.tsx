@@ -66,14 +66,17 @@ export default function FrontendLayout({ children }: { children: React.ReactNode
               </button>
 
               <div className="relative">
-                <button className="flex items-center text-gray-700 hover:text-blue-600">
+                <Link
+                  href="/account"
+                  className="flex items-center text-gray-700 hover:text-blue-600"
+                >
                   <User className="h-5 w-5 mr-1" />
                   <span className="text-sm font-medium">Account</span>
                   <ChevronDown className="h-4 w-4 ml-1" />
-                </button>
+                </Link>
               </div>
 
-              <Link href="/login" className="ml-4 btn btn-primary">
+              <Link href="/account/login" className="ml-4 btn btn-primary">
                 Sign In
               </Link>
             </div>
@@ -128,7 +131,7 @@ export default function FrontendLayout({ children }: { children: React.ReactNode
               </div>
               <div className="mt-3 space-y-1">
                 <Link
-                  href="/profile"
+                  href="/account"
                   className="block px-4 py-2 text-base font-medium text-gray-700 hover:bg-gray-50 hover:text-blue-600"
                   onClick={() => setMobileMenuOpen(false)}
                 >
@@ -142,7 +145,7 @@ export default function FrontendLayout({ children }: { children: React.ReactNode
                   Settings
                 </Link>
                 <Link
-                  href="/login"
+                  href="/account/login"
                   className="block px-4 py-2 text-base font-medium text-gray-700 hover:bg-gray-50 hover:text-blue-600"
                   onClick={() => setMobileMenuOpen(false)}
                 >
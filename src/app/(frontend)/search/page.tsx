@@ -4,6 +4,7 @@ import Link from 'next/link'
 import payload from 'payload'
 import { JobCard } from '../components/JobCard'
 import { Pagination } from '../components/Pagination'
+import { JobAlertSignup } from '../components/JobAlertSignup'
 import { trackSearchPixel } from '../../../lib/pixelTracking'
 
 // Define the page metadata for SEO
@@ -21,12 +22,21 @@ interface SearchPageProps {
     location?: string
     type?: string
     salary?: string
+    // Set by the job alert confirm and unsubscribe links
+    alert?: string
   }
 }
 
 // Number of jobs to display per page
 const JOBS_PER_PAGE = 10
 
+// Messages for the job alert links that end on this page
+const ALERT_MESSAGES: Record<string, string> = {
+  confirmed: 'Your job alert is confirmed. We will email you new jobs matching your search.',
+  unsubscribed: 'You have been unsubscribed from the job alert.',
+  invalid: 'That job alert link is not valid.',
+}
+
 // Main page component
 export default async function SearchPage({ searchParams }: SearchPageProps) {
   // Parse the page number from the search params
@@ -107,6 +117,12 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
         {searchQuery ? `Search Results for "${searchQuery}"` : 'Search Jobs'}
       </h1>
 
+      {searchParams.alert && ALERT_MESSAGES[searchParams.alert] && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-8">
+          {ALERT_MESSAGES[searchParams.alert]}
+        </div>
+      )}
+
       {/* Search Form */}
       <div className="bg-white rounded-lg shadow-md p-6 mb-8">
         <form action="/search" method="GET" className="space-y-4">
@@ -214,6 +230,17 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
         </form>
       </div>
 
+      {/* Save the search as a job alert */}
+      <JobAlertSignup
+        criteria={{
+          query: searchQuery || undefined,
+          sector: searchParams.sector,
+          location: searchParams.location,
+          type: searchParams.type,
+          minSalary: searchParams.salary,
+        }}
+      />
+
       {/* Search Results */}
       <div className="mb-8">
         <div className="flex justify-between items-center mb-4">
@@ -42,6 +42,12 @@ interface AnalyticsData {
       conversions: number
     }[]
   }[]
+  timeToFill: {
+    placements: number
+    averageDays: number | null
+    medianDays: number | null
+    bySourceOfHire: Record<string, number>
+  }
 }
 
 /**
@@ -256,6 +262,50 @@ export default function AnalyticsDashboard() {
         </div>
       </div>
 
+      {/* Placement Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-lg font-semibold text-gray-700 mb-2">Placements</h2>
+          <p className="text-3xl font-bold text-purple-600">
+            {analyticsData.timeToFill.placements}
+          </p>
+          <p className="text-sm text-gray-500 mt-2">Starting in the selected period</p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-lg font-semibold text-gray-700 mb-2">Average Time to Fill</h2>
+          <p className="text-3xl font-bold text-purple-600">
+            {analyticsData.timeToFill.averageDays !== null
+              ? `${analyticsData.timeToFill.averageDays} days`
+              : '-'}
+          </p>
+          <p className="text-sm text-gray-500 mt-2">
+            Median{' '}
+            {analyticsData.timeToFill.medianDays !== null
+              ? `${analyticsData.timeToFill.medianDays} days`
+              : '-'}
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-lg font-semibold text-gray-700 mb-2">Sources of Hire</h2>
+          {Object.keys(analyticsData.timeToFill.bySourceOfHire).length > 0 ? (
+            <ul className="text-sm text-gray-700 space-y-1">
+              {Object.entries(analyticsData.timeToFill.bySourceOfHire)
+                .sort(([, countA], [, countB]) => countB - countA)
+                .map(([source, count]) => (
+                  <li key={source} className="flex justify-between">
+                    <span>{source}</span>
+                    <span className="font-semibold">{count}</span>
+                  </li>
+                ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500">No placements yet</p>
+          )}
+        </div>
+      </div>
+
       {/* Charts */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
         <DailyEventsChart dailyEventCounts={analyticsData.dailyEventCounts} />
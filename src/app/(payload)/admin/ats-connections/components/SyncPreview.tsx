@@ -0,0 +1,101 @@
+'use client'
+
+import React from 'react'
+import type { SyncDiff, SyncDiffItem } from '../../../../../plugins/ats/syncDiff'
+
+interface SyncPreviewProps {
+  title: string
+  diff: SyncDiff
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '(empty)'
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text
+}
+
+const describeItem = (item: SyncDiffItem) => item.label || item.externalId
+
+const ItemList: React.FC<{ heading: string; items: SyncDiffItem[]; className: string }> = ({
+  heading,
+  items,
+  className,
+}) =>
+  items.length === 0 ? null : (
+    <div className="mb-4">
+      <h4 className={`font-medium mb-1 ${className}`}>
+        {heading} ({items.length})
+      </h4>
+      <ul className="list-disc pl-6 text-sm space-y-1">
+        {items.map((item) => (
+          <li key={`${item.externalId}:${item.localId}`}>
+            {describeItem(item)}
+            {item.message && <span className="text-gray-500"> - {item.message}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+
+/**
+ * Sync Preview Component
+ *
+ * This component displays what a dry run sync would create, update, close and fail on.
+ */
+export const SyncPreview: React.FC<SyncPreviewProps> = ({ title, diff }) => {
+  const isEmpty =
+    diff.created.length +
+      diff.updated.length +
+      diff.closed.length +
+      diff.archived.length +
+      diff.failed.length ===
+    0
+
+  return (
+    <div className="border rounded-md p-4 mb-4">
+      <h3 className="text-lg font-semibold mb-3">{title}</h3>
+
+      {isEmpty && (
+        <p className="text-sm text-gray-600">
+          Nothing would change{diff.unchanged ? ` (${diff.unchanged} already up to date)` : ''}.
+        </p>
+      )}
+
+      <ItemList heading="Would fail" items={diff.failed} className="text-red-600" />
+      <ItemList heading="Would create" items={diff.created} className="text-green-700" />
+
+      {diff.updated.length > 0 && (
+        <div className="mb-4">
+          <h4 className="font-medium mb-1 text-blue-700">Would update ({diff.updated.length})</h4>
+          {diff.updated.map((item) => (
+            <div key={`${item.externalId}:${item.localId}`} className="mb-2">
+              <p className="text-sm font-medium">{describeItem(item)}</p>
+              <table className="min-w-full text-sm">
+                <tbody>
+                  {item.changes?.map((change) => (
+                    <tr key={change.field} className="border-t">
+                      <td className="py-1 pr-4 text-gray-600 align-top">{change.field}</td>
+                      <td className="py-1 pr-4 text-red-600 line-through break-all align-top">
+                        {formatValue(change.before)}
+                      </td>
+                      <td className="py-1 text-green-700 break-all align-top">
+                        {formatValue(change.after)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ItemList heading="Would close" items={diff.closed} className="text-yellow-700" />
+      <ItemList heading="Would archive" items={diff.archived} className="text-yellow-700" />
+
+      {!isEmpty && diff.unchanged > 0 && (
+        <p className="text-sm text-gray-600">{diff.unchanged} already up to date</p>
+      )}
+    </div>
+  )
+}
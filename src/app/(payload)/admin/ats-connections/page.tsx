@@ -0,0 +1,306 @@
+'use client'
+
+import React, { useEffect, useState, useCallback } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { format } from 'date-fns'
+import type { SyncPreview as SyncPreviewData } from '../../../../plugins/ats/syncDiff'
+import { SyncPreview } from './components/SyncPreview'
+
+interface ProviderStatus {
+  slug: string
+  name: string
+  description: string
+  authorizeUrl: string
+  capabilities: {
+    disconnect: boolean
+    previewSync: boolean
+  }
+  health?: {
+    enabled: boolean
+    connected: boolean
+    tokenExpiresAt?: string | null
+    scopes?: string[]
+    lastRefreshError?: string | null
+    lastRefreshErrorAt?: string | null
+    lastJobSync?: string | null
+    lastCandidateSync?: string | null
+  }
+}
+
+type SyncMode = 'incremental' | 'full'
+
+interface PendingSync {
+  provider: ProviderStatus
+  mode: SyncMode
+  candidates: boolean
+  preview: SyncPreviewData
+}
+
+const formatDate = (value?: string | null) =>
+  value ? format(new Date(value), 'yyyy-MM-dd HH:mm:ss') : '-'
+
+/**
+ * ATS Connections Page
+ *
+ * This page shows a tenant's connection to each ATS provider and lets admins connect,
+ * reconnect or disconnect them, and preview a sync before applying it. Open it with
+ * `?tenantId=`.
+ */
+export default function AtsConnections() {
+  const tenantId = useSearchParams()?.get('tenantId') ?? null
+  const [providers, setProviders] = useState<ProviderStatus[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [disconnecting, setDisconnecting] = useState<string | null>(null)
+  const [syncMode, setSyncMode] = useState<SyncMode>('incremental')
+  const [includeCandidates, setIncludeCandidates] = useState(false)
+  const [syncing, setSyncing] = useState<string | null>(null)
+  const [pendingSync, setPendingSync] = useState<PendingSync | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  // Fetch provider status for the tenant
+  const fetchProviders = useCallback(async () => {
+    if (!tenantId) {
+      setIsLoading(false)
+      return
+    }
+
+    try {
+      setIsLoading(true)
+
+      const response = await fetch(`/api/ats/providers?tenantId=${encodeURIComponent(tenantId)}`)
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ATS providers: ${response.statusText}`)
+      }
+
+      const data = await response.json()
+      setProviders(data.providers)
+      setError(null)
+    } catch (err) {
+      console.error('Error fetching ATS providers:', err)
+      setError('Failed to fetch ATS connections. Please try again later.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [tenantId])
+
+  useEffect(() => {
+    fetchProviders()
+  }, [fetchProviders])
+
+  const disconnect = useCallback(
+    async (provider: ProviderStatus) => {
+      if (!window.confirm(`Disconnect ${provider.name}? Syncing stops until it is reconnected.`)) {
+        return
+      }
+
+      try {
+        setDisconnecting(provider.slug)
+        setMessage(null)
+
+        const response = await fetch(`/api/oauth/${provider.slug}/disconnect`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ tenantId }),
+        })
+
+        if (!response.ok) {
+          throw new Error(`Failed to disconnect: ${response.statusText}`)
+        }
+
+        setMessage(`${provider.name} disconnected`)
+        await fetchProviders()
+      } catch (err) {
+        console.error(`Error disconnecting ${provider.name}:`, err)
+        setError(`Failed to disconnect ${provider.name}. Please try again later.`)
+      } finally {
+        setDisconnecting(null)
+      }
+    },
+    [tenantId, fetchProviders],
+  )
+
+  // Dry run a sync to show what it would change, or apply the previewed sync
+  const runSync = useCallback(
+    async (provider: ProviderStatus, mode: SyncMode, candidates: boolean, dryRun: boolean) => {
+      try {
+        setSyncing(provider.slug)
+        setMessage(null)
+        setError(null)
+
+        const response = await fetch('/api/jobs/sync', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ tenantId, provider: provider.slug, mode, candidates, dryRun }),
+        })
+
+        const data = await response.json()
+        if (!response.ok || !data.success) {
+          throw new Error(data.message || response.statusText)
+        }
+
+        setMessage(data.message)
+        setPendingSync(dryRun ? { provider, mode, candidates, preview: data.preview } : null)
+        if (!dryRun) {
+          await fetchProviders()
+        }
+      } catch (err) {
+        console.error(`Error syncing ${provider.name}:`, err)
+        setError(
+          `Failed to ${dryRun ? 'preview' : 'run'} the ${provider.name} sync: ${
+            err instanceof Error ? err.message : err
+          }`,
+        )
+      } finally {
+        setSyncing(null)
+      }
+    },
+    [tenantId, fetchProviders],
+  )
+
+  if (!tenantId) {
+    return (
+      <div className="px-6 py-8">
+        <h1 className="text-3xl font-bold mb-6">ATS Connections</h1>
+        <div className="bg-yellow-100 border border-yellow-400 text-yellow-700 px-4 py-3 rounded">
+          <p>Open this page from a tenant, or add ?tenantId= to the URL.</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="px-6 py-8">
+      <h1 className="text-3xl font-bold mb-6">ATS Connections</h1>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded mb-6">
+          <p>{message}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {providers
+            .filter((provider) => provider.health?.enabled)
+            .map((provider) => {
+              const health = provider.health
+              const connectUrl = `${provider.authorizeUrl}?tenantId=${encodeURIComponent(tenantId)}`
+
+              return (
+                <div key={provider.slug} className="bg-white rounded-lg shadow-md p-6">
+                  <div className="flex justify-between items-center mb-4">
+                    <div>
+                      <h2 className="text-xl font-semibold">{provider.name}</h2>
+                      <p className="text-sm text-gray-600">
+                        {health?.connected ? 'Connected' : 'Not connected'}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-4">
+                      <a
+                        href={connectUrl}
+                        className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600"
+                      >
+                        {health?.connected ? 'Reconnect' : 'Connect'}
+                      </a>
+                      {health?.connected && provider.capabilities.disconnect && (
+                        <button
+                          onClick={() => disconnect(provider)}
+                          disabled={disconnecting === provider.slug}
+                          className="px-4 py-2 bg-red-500 text-white rounded-md hover:bg-red-600 disabled:bg-red-300"
+                        >
+                          {disconnecting === provider.slug
+                            ? 'Disconnecting...'
+                            : `Disconnect ${provider.name}`}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {health?.connected && provider.capabilities.previewSync && (
+                    <div className="flex items-center space-x-4 mb-4 text-sm">
+                      <select
+                        value={syncMode}
+                        onChange={(e) => setSyncMode(e.target.value as SyncMode)}
+                        className="border border-gray-300 rounded-md px-2 py-1"
+                      >
+                        <option value="incremental">Changes since last sync</option>
+                        <option value="full">Full sync</option>
+                      </select>
+                      <label className="flex items-center space-x-2">
+                        <input
+                          type="checkbox"
+                          checked={includeCandidates}
+                          onChange={(e) => setIncludeCandidates(e.target.checked)}
+                        />
+                        <span>Include candidates</span>
+                      </label>
+                      <button
+                        onClick={() => runSync(provider, syncMode, includeCandidates, true)}
+                        disabled={syncing === provider.slug}
+                        className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {syncing === provider.slug ? 'Working...' : 'Preview sync'}
+                      </button>
+                    </div>
+                  )}
+
+                  {pendingSync?.provider.slug === provider.slug && (
+                    <div className="mb-4">
+                      <SyncPreview title="Jobs" diff={pendingSync.preview.jobs} />
+                      {pendingSync.preview.candidates && (
+                        <SyncPreview title="Candidates" diff={pendingSync.preview.candidates} />
+                      )}
+                      <div className="flex items-center space-x-4">
+                        <button
+                          onClick={() =>
+                            runSync(provider, pendingSync.mode, pendingSync.candidates, false)
+                          }
+                          disabled={syncing === provider.slug}
+                          className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:bg-blue-300"
+                        >
+                          {syncing === provider.slug ? 'Syncing...' : 'Apply'}
+                        </button>
+                        <button
+                          onClick={() => setPendingSync(null)}
+                          className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  <dl className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm">
+                    <dt className="text-gray-600">Scopes</dt>
+                    <dd>{health?.scopes?.length ? health.scopes.join(', ') : '-'}</dd>
+                    <dt className="text-gray-600">Token expires</dt>
+                    <dd>{formatDate(health?.tokenExpiresAt)}</dd>
+                    <dt className="text-gray-600">Last job sync</dt>
+                    <dd>{formatDate(health?.lastJobSync)}</dd>
+                    <dt className="text-gray-600">Last refresh error</dt>
+                    <dd className={health?.lastRefreshError ? 'text-red-600' : undefined}>
+                      {health?.lastRefreshError
+                        ? `${health.lastRefreshError} (${formatDate(health.lastRefreshErrorAt)})`
+                        : '-'}
+                    </dd>
+                  </dl>
+                </div>
+              )
+            })}
+        </div>
+      )}
+    </div>
+  )
+}
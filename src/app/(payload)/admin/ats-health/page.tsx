@@ -0,0 +1,300 @@
+'use client'
+
+import React, { useEffect, useState, useCallback } from 'react'
+import { format, formatDistanceToNow } from 'date-fns'
+import type { AtsConnectionHealth, TenantAtsHealth } from '../../../../plugins/ats/health'
+
+const formatDate = (value?: string | null) =>
+  value ? format(new Date(value), 'yyyy-MM-dd HH:mm') : '-'
+
+const WEBHOOK_LABELS: Record<AtsConnectionHealth['webhooks']['registration'], string> = {
+  registered: 'Registered',
+  failed: 'Failed',
+  unknown: 'Unknown',
+  not_required: 'Not required',
+}
+
+const ACTION_LABELS = {
+  incremental: 'resync',
+  webhook: 're-register webhooks',
+  rotate: 'rotate the webhook secret',
+} as const
+
+/**
+ * ATS Health Page
+ *
+ * This page shows the health of each ATS connection of the admin's tenant, flags connections
+ * that have been unhealthy for longer than the threshold, and lets admins resync the tenant,
+ * re-register its webhooks or rotate its webhook secret.
+ */
+export default function AtsHealth() {
+  const [tenants, setTenants] = useState<TenantAtsHealth[]>([])
+  const [thresholdHours, setThresholdHours] = useState<number | null>(null)
+  const [flaggedOnly, setFlaggedOnly] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [working, setWorking] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  // Fetch the health report, with the server's default threshold until one is chosen
+  const fetchHealth = useCallback(async (threshold?: number | null) => {
+    try {
+      setIsLoading(true)
+
+      const params = threshold ? `?thresholdHours=${threshold}` : ''
+      const response = await fetch(`/api/ats/health${params}`)
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ATS health: ${response.statusText}`)
+      }
+
+      const data = await response.json()
+      setTenants(data.tenants)
+      setThresholdHours(data.thresholdHours)
+      setError(null)
+    } catch (err) {
+      console.error('Error fetching ATS health:', err)
+      setError('Failed to fetch ATS health. Please try again later.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchHealth()
+  }, [fetchHealth])
+
+  // Resync a tenant (mode `incremental`), re-register its webhooks (mode `webhook`) or rotate
+  // its webhook secret (mode `rotate`)
+  const runAction = useCallback(
+    async (
+      tenant: TenantAtsHealth,
+      connection: AtsConnectionHealth,
+      mode: 'incremental' | 'webhook' | 'rotate',
+    ) => {
+      const key = `${tenant.tenantId}:${connection.provider}:${mode}`
+
+      try {
+        setWorking(key)
+        setMessage(null)
+        setError(null)
+
+        const response = await fetch(
+          mode === 'rotate' ? '/api/ats/webhooks/rotate' : '/api/jobs/sync',
+          {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              tenantId: tenant.tenantId,
+              provider: connection.provider,
+              mode,
+              candidates: mode === 'incremental' && connection.capabilities.pullCandidates,
+            }),
+          },
+        )
+
+        const data = await response.json()
+        if (!response.ok || !data.success) {
+          throw new Error(data.message || response.statusText)
+        }
+
+        setMessage(data.message)
+        await fetchHealth(thresholdHours)
+      } catch (err) {
+        console.error(`Error running ${mode} for tenant ${tenant.tenantId}:`, err)
+        setError(
+          `Failed to ${ACTION_LABELS[mode]} (${connection.name}) for ${tenant.tenantName}: ${
+            err instanceof Error ? err.message : err
+          }`,
+        )
+      } finally {
+        setWorking(null)
+      }
+    },
+    [fetchHealth, thresholdHours],
+  )
+
+  const rows = tenants
+    .filter((tenant) => !flaggedOnly || tenant.flagged)
+    .flatMap((tenant) =>
+      tenant.connections
+        .filter((connection) => !flaggedOnly || connection.flagged)
+        .map((connection) => ({ tenant, connection })),
+    )
+
+  return (
+    <div className="px-6 py-8">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold">ATS Health</h1>
+        <div className="flex items-center space-x-4 text-sm">
+          <label className="flex items-center space-x-2">
+            <span className="font-medium text-gray-700">Flag after</span>
+            <input
+              type="number"
+              min={1}
+              value={thresholdHours ?? ''}
+              onChange={(e) => setThresholdHours(Number(e.target.value) || null)}
+              className="border border-gray-300 rounded-md p-2 w-20"
+            />
+            <span className="text-gray-700">hours</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={flaggedOnly}
+              onChange={(e) => setFlaggedOnly(e.target.checked)}
+            />
+            <span>Flagged only</span>
+          </label>
+          <button
+            onClick={() => fetchHealth(thresholdHours)}
+            disabled={isLoading}
+            className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:bg-blue-300"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded mb-6">
+          <p>{message}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="bg-yellow-100 border border-yellow-400 text-yellow-700 px-4 py-3 rounded">
+          <p>
+            {flaggedOnly ? 'No flagged ATS connections.' : 'No tenants have an ATS integration.'}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-700">
+              <tr>
+                <th className="p-3">Tenant</th>
+                <th className="p-3">ATS</th>
+                <th className="p-3">Connection</th>
+                <th className="p-3">Token Expires</th>
+                <th className="p-3">Last Job Sync</th>
+                <th className="p-3">Last Candidate Sync</th>
+                <th className="p-3">Errors</th>
+                <th className="p-3">Webhooks</th>
+                <th className="p-3">Last Webhook</th>
+                <th className="p-3">Health</th>
+                <th className="p-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ tenant, connection }) => {
+                const key = `${tenant.tenantId}:${connection.provider}`
+
+                return (
+                  <tr
+                    key={key}
+                    className={`border-t border-gray-200 align-top ${connection.flagged ? 'bg-red-50' : ''}`}
+                  >
+                    <td className="p-3">
+                      <a
+                        href={`/admin/ats-connections?tenantId=${tenant.tenantId}`}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {tenant.tenantName}
+                      </a>
+                    </td>
+                    <td className="p-3">{connection.name}</td>
+                    <td className="p-3">{connection.connected ? 'Connected' : 'Not connected'}</td>
+                    <td className="p-3">{formatDate(connection.tokenExpiresAt)}</td>
+                    <td className="p-3">{formatDate(connection.lastJobSync)}</td>
+                    <td className="p-3">
+                      {connection.capabilities.pullCandidates
+                        ? formatDate(connection.lastCandidateSync)
+                        : 'n/a'}
+                    </td>
+                    <td className="p-3">
+                      <div>{connection.errors.syncRuns} sync runs (24h)</div>
+                      <div>{connection.errors.deadLetters} dead letters</div>
+                    </td>
+                    <td className="p-3">
+                      <div
+                        className={
+                          connection.webhooks.registration === 'failed' ? 'text-red-600' : undefined
+                        }
+                      >
+                        {WEBHOOK_LABELS[connection.webhooks.registration]}
+                      </div>
+                      {connection.webhooks.registeredAt && (
+                        <div className="text-gray-500">
+                          {formatDate(connection.webhooks.registeredAt)}
+                        </div>
+                      )}
+                    </td>
+                    <td className="p-3">{formatDate(connection.webhooks.lastReceivedAt)}</td>
+                    <td className="p-3">
+                      {connection.issues.length === 0 ? (
+                        <span className="text-green-700">Healthy</span>
+                      ) : (
+                        <>
+                          <div className={connection.flagged ? 'text-red-600 font-medium' : ''}>
+                            {connection.flagged ? 'Flagged' : 'Degraded'}
+                            {connection.unhealthySince &&
+                              ` for ${formatDistanceToNow(new Date(connection.unhealthySince))}`}
+                          </div>
+                          <ul className="list-disc pl-4 text-gray-700">
+                            {connection.issues.map((issue) => (
+                              <li key={issue.code}>{issue.message}</li>
+                            ))}
+                          </ul>
+                        </>
+                      )}
+                    </td>
+                    <td className="p-3 space-y-1 whitespace-nowrap">
+                      {connection.connected && (
+                        <button
+                          onClick={() => runAction(tenant, connection, 'incremental')}
+                          disabled={working !== null}
+                          className="block text-blue-600 hover:underline disabled:text-blue-300"
+                        >
+                          {working === `${key}:incremental` ? 'Syncing...' : 'Resync now'}
+                        </button>
+                      )}
+                      {connection.connected && connection.capabilities.registerWebhooks && (
+                        <button
+                          onClick={() => runAction(tenant, connection, 'webhook')}
+                          disabled={working !== null}
+                          className="block text-blue-600 hover:underline disabled:text-blue-300"
+                        >
+                          {working === `${key}:webhook` ? 'Registering...' : 'Re-register webhook'}
+                        </button>
+                      )}
+                      {connection.connected && connection.capabilities.rotateWebhookSecret && (
+                        <button
+                          onClick={() => runAction(tenant, connection, 'rotate')}
+                          disabled={working !== null}
+                          className="block text-blue-600 hover:underline disabled:text-blue-300"
+                        >
+                          {working === `${key}:rotate` ? 'Rotating...' : 'Rotate webhook secret'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
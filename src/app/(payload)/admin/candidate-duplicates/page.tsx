@@ -0,0 +1,300 @@
+'use client'
+
+import React, { useEffect, useState, useCallback } from 'react'
+import { useSearchParams } from 'next/navigation'
+
+type MergeSide = 'primary' | 'duplicate'
+
+interface CandidateSummary {
+  id: string | number
+  firstName?: string | null
+  lastName?: string | null
+  email?: string | null
+  phone?: string | null
+  atsData?: {
+    source?: string | null
+    sourceId?: string | null
+  } | null
+}
+
+interface DuplicatePair {
+  score: number
+  reasons: string[]
+  candidates: [CandidateSummary, CandidateSummary]
+}
+
+interface MergeConflict {
+  field: string
+  primary: unknown
+  duplicate: unknown
+  chosen: MergeSide
+}
+
+interface MergePreview {
+  primary: CandidateSummary
+  duplicate: CandidateSummary
+  conflicts: MergeConflict[]
+  data: Record<string, unknown>
+}
+
+const describeCandidate = (candidate: CandidateSummary) =>
+  `${candidate.firstName || ''} ${candidate.lastName || ''}`.trim() || `#${candidate.id}`
+
+const formatValue = (value: unknown) =>
+  typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value ?? '-')
+
+/**
+ * Candidate Duplicates Page
+ *
+ * This page lists likely duplicate candidates for a tenant and lets admins merge them,
+ * choosing which value to keep where the two disagree. Open it with `?tenantId=`.
+ */
+export default function CandidateDuplicates() {
+  const tenantId = useSearchParams()?.get('tenantId') ?? null
+  const [duplicates, setDuplicates] = useState<DuplicatePair[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [preview, setPreview] = useState<MergePreview | null>(null)
+  const [choices, setChoices] = useState<Record<string, MergeSide>>({})
+  const [isMerging, setIsMerging] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  // Fetch likely duplicates for the tenant
+  const fetchDuplicates = useCallback(async () => {
+    if (!tenantId) {
+      setIsLoading(false)
+      return
+    }
+
+    try {
+      setIsLoading(true)
+
+      const response = await fetch(
+        `/api/candidates/duplicates?tenantId=${encodeURIComponent(tenantId)}`,
+      )
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch duplicates: ${response.statusText}`)
+      }
+
+      const data = await response.json()
+      setDuplicates(data.duplicates)
+      setError(null)
+    } catch (err) {
+      console.error('Error fetching duplicate candidates:', err)
+      setError('Failed to fetch duplicate candidates. Please try again later.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [tenantId])
+
+  useEffect(() => {
+    fetchDuplicates()
+  }, [fetchDuplicates])
+
+  const merge = useCallback(
+    async (primary: CandidateSummary, duplicate: CandidateSummary, previewOnly: boolean) => {
+      try {
+        setIsMerging(true)
+        setMessage(null)
+
+        const response = await fetch('/api/candidates/merge', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            tenantId,
+            primaryId: primary.id,
+            duplicateId: duplicate.id,
+            choices,
+            preview: previewOnly,
+          }),
+        })
+
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || response.statusText)
+        }
+
+        if (previewOnly) {
+          setPreview(data)
+          setChoices(
+            Object.fromEntries(
+              (data.conflicts as MergeConflict[]).map((conflict) => [
+                conflict.field,
+                conflict.chosen,
+              ]),
+            ),
+          )
+          return
+        }
+
+        setPreview(null)
+        setChoices({})
+        setMessage(`Merged ${describeCandidate(duplicate)} into ${describeCandidate(primary)}`)
+        await fetchDuplicates()
+      } catch (err) {
+        console.error('Error merging candidates:', err)
+        setError(`Failed to merge candidates: ${err instanceof Error ? err.message : err}`)
+      } finally {
+        setIsMerging(false)
+      }
+    },
+    [tenantId, choices, fetchDuplicates],
+  )
+
+  const startMerge = (primary: CandidateSummary, duplicate: CandidateSummary) => {
+    setChoices({})
+    setError(null)
+    merge(primary, duplicate, true)
+  }
+
+  if (!tenantId) {
+    return (
+      <div className="px-6 py-8">
+        <h1 className="text-3xl font-bold mb-6">Duplicate Candidates</h1>
+        <div className="bg-yellow-100 border border-yellow-400 text-yellow-700 px-4 py-3 rounded">
+          <p>Open this page from a tenant, or add ?tenantId= to the URL.</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="px-6 py-8">
+      <h1 className="text-3xl font-bold mb-6">Duplicate Candidates</h1>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded mb-6">
+          <p>{message}</p>
+        </div>
+      )}
+
+      {preview && (
+        <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+          <h2 className="text-xl font-semibold mb-2">
+            Merge {describeCandidate(preview.duplicate)} into {describeCandidate(preview.primary)}
+          </h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Experiences, education, skills and tags from both candidates are kept.{' '}
+            {preview.conflicts.length > 0
+              ? 'Choose which value to keep where they disagree.'
+              : 'There are no conflicting fields.'}
+          </p>
+
+          {preview.conflicts.length > 0 && (
+            <table className="min-w-full text-sm mb-4">
+              <thead>
+                <tr className="text-left text-gray-600">
+                  <th className="py-2 pr-4">Field</th>
+                  <th className="py-2 pr-4">Keep primary</th>
+                  <th className="py-2">Use duplicate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.conflicts.map((conflict) => (
+                  <tr key={conflict.field} className="border-t">
+                    <td className="py-2 pr-4 font-medium">{conflict.field}</td>
+                    {(['primary', 'duplicate'] as MergeSide[]).map((side) => (
+                      <td key={side} className="py-2 pr-4 align-top">
+                        <label className="flex items-start space-x-2">
+                          <input
+                            type="radio"
+                            name={conflict.field}
+                            checked={choices[conflict.field] === side}
+                            onChange={() =>
+                              setChoices((current) => ({ ...current, [conflict.field]: side }))
+                            }
+                          />
+                          <span className="break-all">{formatValue(conflict[side])}</span>
+                        </label>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => merge(preview.primary, preview.duplicate, false)}
+              disabled={isMerging}
+              className="px-4 py-2 bg-red-500 text-white rounded-md hover:bg-red-600 disabled:bg-red-300"
+            >
+              {isMerging ? 'Merging...' : 'Merge candidates'}
+            </button>
+            <button
+              onClick={() => setPreview(null)}
+              className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      ) : duplicates.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <p>No likely duplicates found.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {duplicates.map((pair) => {
+            const [first, second] = pair.candidates
+
+            return (
+              <div
+                key={`${first.id}:${second.id}`}
+                className="bg-white rounded-lg shadow-md p-6 flex justify-between items-center"
+              >
+                <div className="grid grid-cols-2 gap-6 text-sm flex-1">
+                  {pair.candidates.map((candidate) => (
+                    <div key={candidate.id}>
+                      <p className="font-semibold">{describeCandidate(candidate)}</p>
+                      <p className="text-gray-600">{candidate.email || '-'}</p>
+                      <p className="text-gray-600">{candidate.phone || '-'}</p>
+                      <p className="text-gray-500">
+                        {candidate.atsData?.source
+                          ? `${candidate.atsData.source} ${candidate.atsData.sourceId}`
+                          : 'Not from an ATS'}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+                <div className="text-right space-y-2 ml-6">
+                  <p className="text-sm text-gray-600">
+                    {Math.round(pair.score * 100)}% match ({pair.reasons.join(', ')})
+                  </p>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => startMerge(first, second)}
+                      className="px-3 py-1 bg-blue-500 text-white rounded-md hover:bg-blue-600"
+                    >
+                      Keep {describeCandidate(first)}
+                    </button>
+                    <button
+                      onClick={() => startMerge(second, first)}
+                      className="px-3 py-1 bg-blue-500 text-white rounded-md hover:bg-blue-600"
+                    >
+                      Keep {describeCandidate(second)}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
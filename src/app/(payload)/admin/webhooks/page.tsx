@@ -0,0 +1,213 @@
+'use client'
+
+import React, { useEffect, useState, useCallback } from 'react'
+import { format } from 'date-fns'
+
+interface WebhookDelivery {
+  id: string | number
+  deliveryId: string
+  event?: string
+  tenantId?: string
+  status: 'received' | 'processing' | 'processed' | 'retrying' | 'dead_letter' | 'rejected'
+  attempts: number
+  nextAttemptAt?: string | null
+  duplicateCount: number
+  receivedAt: string
+  error?: string
+}
+
+/**
+ * Webhook Inbox Page
+ *
+ * This page lists stored JobAdder webhook deliveries and lets admins replay them.
+ */
+export default function WebhookInbox() {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [status, setStatus] = useState<string>('dead_letter')
+  const [selected, setSelected] = useState<(string | number)[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isReplaying, setIsReplaying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  // Fetch deliveries for the selected status
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      setIsLoading(true)
+
+      const params = new URLSearchParams({ sort: '-receivedAt', limit: '50' })
+      if (status !== 'all') {
+        params.set('where[status][equals]', status)
+      }
+
+      const response = await fetch(`/api/webhook-deliveries?${params.toString()}`)
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch webhook deliveries: ${response.statusText}`)
+      }
+
+      const data = await response.json()
+      setDeliveries(data.docs)
+      setSelected([])
+      setError(null)
+    } catch (err) {
+      console.error('Error fetching webhook deliveries:', err)
+      setError('Failed to fetch webhook deliveries. Please try again later.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [status])
+
+  useEffect(() => {
+    fetchDeliveries()
+  }, [fetchDeliveries])
+
+  // Replay the given deliveries
+  const replay = useCallback(
+    async (deliveryIds: (string | number)[]) => {
+      try {
+        setIsReplaying(true)
+        setMessage(null)
+
+        const response = await fetch('/api/webhooks/jobadder/replay', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ deliveryIds }),
+        })
+
+        if (!response.ok) {
+          throw new Error(`Failed to replay deliveries: ${response.statusText}`)
+        }
+
+        const data: { results: { status: string }[] } = await response.json()
+        const processed = data.results.filter((result) => result.status === 'processed').length
+        setMessage(
+          `Replayed ${data.results.length} deliveries, ${processed} processed successfully`,
+        )
+
+        await fetchDeliveries()
+      } catch (err) {
+        console.error('Error replaying webhook deliveries:', err)
+        setError('Failed to replay webhook deliveries. Please try again later.')
+      } finally {
+        setIsReplaying(false)
+      }
+    },
+    [fetchDeliveries],
+  )
+
+  const toggleSelected = (id: string | number) => {
+    setSelected((current) =>
+      current.includes(id) ? current.filter((item) => item !== id) : [...current, id],
+    )
+  }
+
+  return (
+    <div className="px-6 py-8">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold">Webhook Inbox</h1>
+        <div className="flex items-center space-x-4">
+          <div className="flex items-center space-x-2">
+            <label htmlFor="status" className="text-sm font-medium text-gray-700">
+              Status:
+            </label>
+            <select
+              id="status"
+              value={status}
+              onChange={(e) => setStatus(e.target.value)}
+              className="border border-gray-300 rounded-md shadow-sm p-2"
+            >
+              <option value="dead_letter">Dead Letter</option>
+              <option value="retrying">Retrying</option>
+              <option value="rejected">Rejected</option>
+              <option value="processed">Processed</option>
+              <option value="all">All</option>
+            </select>
+          </div>
+          <button
+            onClick={() => replay(selected)}
+            disabled={isReplaying || selected.length === 0}
+            className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:bg-blue-300"
+          >
+            {isReplaying ? 'Replaying...' : `Replay Selected (${selected.length})`}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded mb-6">
+          <p>{message}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      ) : deliveries.length === 0 ? (
+        <div className="bg-yellow-100 border border-yellow-400 text-yellow-700 px-4 py-3 rounded">
+          <p>No webhook deliveries found.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-700">
+              <tr>
+                <th className="p-3"></th>
+                <th className="p-3">Received</th>
+                <th className="p-3">Event</th>
+                <th className="p-3">Tenant</th>
+                <th className="p-3">Status</th>
+                <th className="p-3">Attempts</th>
+                <th className="p-3">Next Attempt</th>
+                <th className="p-3">Error</th>
+                <th className="p-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {deliveries.map((delivery) => (
+                <tr key={delivery.id} className="border-t border-gray-200">
+                  <td className="p-3">
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(delivery.id)}
+                      onChange={() => toggleSelected(delivery.id)}
+                    />
+                  </td>
+                  <td className="p-3">
+                    {format(new Date(delivery.receivedAt), 'yyyy-MM-dd HH:mm:ss')}
+                  </td>
+                  <td className="p-3">{delivery.event}</td>
+                  <td className="p-3">{delivery.tenantId}</td>
+                  <td className="p-3">{delivery.status}</td>
+                  <td className="p-3">{delivery.attempts}</td>
+                  <td className="p-3">
+                    {delivery.nextAttemptAt
+                      ? format(new Date(delivery.nextAttemptAt), 'yyyy-MM-dd HH:mm:ss')
+                      : '-'}
+                  </td>
+                  <td className="p-3 text-red-600">{delivery.error}</td>
+                  <td className="p-3">
+                    <button
+                      onClick={() => replay([delivery.id])}
+                      disabled={isReplaying}
+                      className="text-blue-600 hover:underline disabled:text-blue-300"
+                    >
+                      Replay
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  JOB_SEEKER_SESSION_COOKIE,
+  JobSeekerError,
+  getSignedInJobSeeker,
+  updateJobSeekerAlert,
+} from '../../../../lib/jobSeekers'
+
+/**
+ * API route for the signed in job seeker managing their job alerts
+ *
+ * Takes JSON: id of the alert, and frequency ('daily' or 'weekly') and/or status ('active' or
+ * 'unsubscribed').
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const account = await getSignedInJobSeeker(
+      req.cookies.get(JOB_SEEKER_SESSION_COOKIE)?.value,
+      req.headers.get('host') || '',
+    )
+    if (!account) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+    }
+
+    const { id, frequency, status } = await req.json()
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 })
+    }
+    if (frequency !== undefined && frequency !== 'daily' && frequency !== 'weekly') {
+      return NextResponse.json({ error: "frequency must be 'daily' or 'weekly'" }, { status: 400 })
+    }
+    if (status !== undefined && status !== 'active' && status !== 'unsubscribed') {
+      return NextResponse.json(
+        { error: "status must be 'active' or 'unsubscribed'" },
+        { status: 400 },
+      )
+    }
+
+    const alert = await updateJobSeekerAlert(account.seeker, id, { frequency, status })
+
+    return NextResponse.json({
+      success: true,
+      alert: { id: alert.id, frequency: alert.frequency, status: alert.status },
+    })
+  } catch (error) {
+    if (error instanceof JobSeekerError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    console.error('Error updating job alert:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
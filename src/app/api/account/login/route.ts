@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTenantByDomain } from '../../../../lib/tenants'
+import { requestJobSeekerLogin } from '../../../../lib/jobSeekers'
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * API route for a job seeker asking for a sign-in link
+ *
+ * Takes JSON: email, and redirectTo, the path on the site to go to once signed in. The same
+ * response is returned whether or not the email already has an account.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Get the tenant from the request hostname
+    const hostname = req.headers.get('host') || ''
+    const tenant = await getTenantByDomain(hostname)
+    if (!tenant) {
+      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
+    }
+
+    const body = await req.json()
+    const email = typeof body.email === 'string' ? body.email.trim() : ''
+    if (!EMAIL_PATTERN.test(email)) {
+      return NextResponse.json({ error: 'A valid email is required' }, { status: 400 })
+    }
+
+    await requestJobSeekerLogin({
+      tenant,
+      email,
+      redirectTo: typeof body.redirectTo === 'string' ? body.redirectTo : undefined,
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Check your email for a link to sign in',
+    })
+  } catch (error) {
+    console.error('Error sending job seeker sign-in link:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  JOB_SEEKER_SESSION_COOKIE,
+  JOB_SEEKER_SESSION_TTL_MS,
+  JobSeekerError,
+  completeJobSeekerLogin,
+  createJobSeekerSession,
+  safeRedirectPath,
+} from '../../../../../lib/jobSeekers'
+
+/**
+ * API route for the sign-in link emailed to a job seeker
+ *
+ * Signs them in with a session cookie and sends them on to where they were going.
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = req.nextUrl
+
+  try {
+    const seeker = await completeJobSeekerLogin(searchParams.get('token') || '')
+
+    const response = NextResponse.redirect(
+      new URL(safeRedirectPath(searchParams.get('redirect')), req.url),
+    )
+    response.cookies.set(JOB_SEEKER_SESSION_COOKIE, createJobSeekerSession(seeker), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      maxAge: JOB_SEEKER_SESSION_TTL_MS / 1000,
+    })
+
+    return response
+  } catch (error) {
+    if (error instanceof JobSeekerError) {
+      const loginUrl = new URL('/account/login', req.url)
+      loginUrl.searchParams.set('error', error.message)
+      return NextResponse.redirect(loginUrl)
+    }
+
+    console.error('Error signing in job seeker:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server'
+import { JOB_SEEKER_SESSION_COOKIE } from '../../../../lib/jobSeekers'
+
+/**
+ * API route for signing a job seeker out
+ */
+export async function POST() {
+  const response = NextResponse.json({ success: true })
+  response.cookies.delete(JOB_SEEKER_SESSION_COOKIE)
+
+  return response
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  JOB_SEEKER_SESSION_COOKIE,
+  getSignedInJobSeeker,
+  updateJobSeekerProfile,
+} from '../../../../lib/jobSeekers'
+import { saveUpload, validateUpload } from '../../../../lib/applications'
+
+/**
+ * API route for the signed in job seeker updating their profile
+ *
+ * Takes the profile form as multipart form data: firstName, lastName, phone, location, resume
+ * (file), and dataUsageConsent ('true' or 'false') with consentStatement when the form asked
+ * for consent. Changes are copied to the tenant's candidate record.
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const account = await getSignedInJobSeeker(
+      req.cookies.get(JOB_SEEKER_SESSION_COOKIE)?.value,
+      req.headers.get('host') || '',
+    )
+    if (!account) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+    }
+    const { seeker, tenant } = account
+
+    const form = await req.formData()
+    const field = (name: string) => {
+      const value = form.get(name)
+      return typeof value === 'string' ? value.trim() : undefined
+    }
+
+    const resume = form.get('resume')
+    const resumeFile = resume instanceof File && resume.size > 0 ? resume : null
+    if (resumeFile) {
+      const uploadError = validateUpload(resumeFile, 'Resume')
+      if (uploadError) {
+        return NextResponse.json({ error: uploadError }, { status: 400 })
+      }
+    }
+
+    const consent = field('dataUsageConsent')
+    const updated = await updateJobSeekerProfile(seeker, {
+      firstName: field('firstName'),
+      lastName: field('lastName'),
+      phone: field('phone'),
+      location: field('location'),
+      resumeId: resumeFile ? await saveUpload(resumeFile, tenant.id, 'Resume') : undefined,
+      dataUsageConsent: consent === undefined ? undefined : consent === 'true',
+      consentStatement: field('consentStatement'),
+    })
+
+    return NextResponse.json({
+      success: true,
+      profile: {
+        email: updated.email,
+        firstName: updated.firstName,
+        lastName: updated.lastName,
+        phone: updated.phone,
+        location: updated.location,
+        hasResume: Boolean(updated.resume),
+      },
+    })
+  } catch (error) {
+    console.error('Error updating job seeker profile:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
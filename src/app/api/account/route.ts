@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  JOB_SEEKER_SESSION_COOKIE,
+  getApplicationHistory,
+  getJobSeekerAlerts,
+  getSavedJobs,
+  getSignedInJobSeeker,
+} from '../../../lib/jobSeekers'
+import { describeJobAlertCriteria } from '../../../lib/jobAlerts'
+
+/**
+ * API route for the signed in job seeker's account page
+ *
+ * Returns their profile, saved jobs, application history and job alerts.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const account = await getSignedInJobSeeker(
+      req.cookies.get(JOB_SEEKER_SESSION_COOKIE)?.value,
+      req.headers.get('host') || '',
+    )
+    if (!account) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+    }
+    const { seeker, tenant } = account
+
+    const [savedJobs, applications, alerts] = await Promise.all([
+      getSavedJobs(seeker),
+      getApplicationHistory(seeker),
+      getJobSeekerAlerts(seeker),
+    ])
+
+    return NextResponse.json({
+      tenantName: tenant.name,
+      profile: {
+        email: seeker.email,
+        firstName: seeker.firstName,
+        lastName: seeker.lastName,
+        phone: seeker.phone,
+        location: seeker.location,
+        hasResume: Boolean(seeker.resume),
+      },
+      savedJobs: savedJobs.map((job) => ({
+        id: job.id,
+        title: job.title,
+        slug: job.slug,
+        location: job.location,
+      })),
+      applications,
+      alerts: alerts.map((alert) => ({
+        id: alert.id,
+        search: describeJobAlertCriteria(alert.criteria),
+        frequency: alert.frequency,
+        status: alert.status,
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching job seeker account:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
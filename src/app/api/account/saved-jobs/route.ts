@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  JOB_SEEKER_SESSION_COOKIE,
+  JobSeekerError,
+  getSignedInJobSeeker,
+  removeSavedJob,
+  saveJob,
+} from '../../../../lib/jobSeekers'
+
+/**
+ * API route for the signed in job seeker's saved jobs
+ *
+ * POST saves a job, given as JSON { jobId } or { slug }. DELETE removes the job in the `job`
+ * query parameter.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const account = await getSignedInJobSeeker(
+      req.cookies.get(JOB_SEEKER_SESSION_COOKIE)?.value,
+      req.headers.get('host') || '',
+    )
+    if (!account) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+    }
+
+    const body = await req.json()
+    const job = await saveJob(account.seeker, {
+      id: body.jobId || undefined,
+      slug: typeof body.slug === 'string' ? body.slug : undefined,
+    })
+
+    return NextResponse.json({ success: true, jobId: job.id })
+  } catch (error) {
+    if (error instanceof JobSeekerError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    console.error('Error saving job:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const account = await getSignedInJobSeeker(
+      req.cookies.get(JOB_SEEKER_SESSION_COOKIE)?.value,
+      req.headers.get('host') || '',
+    )
+    if (!account) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+    }
+
+    const jobId = req.nextUrl.searchParams.get('job')
+    if (!jobId) {
+      return NextResponse.json({ error: 'job is required' }, { status: 400 })
+    }
+
+    await removeSavedJob(account.seeker, jobId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error removing saved job:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
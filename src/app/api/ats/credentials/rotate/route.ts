@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '../../../../../payload.config'
+import { rotateTenantCredentials } from '../../../../../plugins/ats/credentials'
+import { isTenantAdmin } from '../../../../../lib/tenants'
+
+/**
+ * API route re-encrypting tenants' ATS credentials with the current key
+ * Run after rotating ATS_ENCRYPTION_KEY, with the old key still listed in
+ * ATS_ENCRYPTION_PREVIOUS_KEYS. Also encrypts any credentials still stored in plaintext.
+ *
+ * With a `tenantId`, an admin of that tenant re-encrypts its credentials. Without one, every
+ * tenant's credentials are re-encrypted, which needs the cron API key in the `x-api-key` header.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const payload = await getPayload({ config: await config })
+    const { tenantId } = (await req.json().catch(() => ({}))) as { tenantId?: string | number }
+
+    if (tenantId) {
+      // Check if the request is authenticated by an admin of the tenant
+      const { user } = await payload.auth({
+        headers: req.headers,
+      } as any)
+
+      if (!user) {
+        return new NextResponse('Unauthorized', { status: 401 })
+      }
+
+      if (!isTenantAdmin(user, tenantId)) {
+        return new NextResponse('Forbidden', { status: 403 })
+      }
+    } else {
+      // No tenant's admin may rotate the others' credentials, so rotating every tenant is
+      // left to deployment scripts and cron jobs
+      const apiKey = req.headers.get('x-api-key')
+      if (!apiKey || apiKey !== process.env.CRON_API_KEY) {
+        return new NextResponse('Unauthorized', { status: 401 })
+      }
+    }
+
+    const result = await rotateTenantCredentials(payload, { tenantId })
+
+    return NextResponse.json({ success: result.errors === 0, ...result })
+  } catch (error) {
+    console.error('Error rotating ATS credentials:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '../../../../payload.config'
+import { Tenant } from '../../../../payload-types'
+import {
+  EnrichedCandidate,
+  queueEnrichmentWriteBack,
+} from '../../../../plugins/ats/integrations/jobAdder/enrichment'
+
+interface EnrichmentResultsRequest {
+  candidateId: string
+  tenantId: string
+  trigger?: 'talent_score' | 'benchmark'
+  overallScore: number
+  tier?: string
+  strengths?: string[]
+  skills?: string[]
+}
+
+/**
+ * API route the AI enrichment service calls when a candidate's talent score is saved or a
+ * benchmark evaluation finishes
+ *
+ * The results are saved on the candidate and, for tenants that opted in, queued to be
+ * written back to JobAdder by the ATS worker.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Check for API key authentication
+    const apiKey = req.headers.get('x-api-key')
+    if (!apiKey || apiKey !== process.env.ENRICHMENT_API_KEY) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = (await req.json()) as EnrichmentResultsRequest
+    const { candidateId, tenantId, overallScore, tier, strengths, skills } = body
+
+    if (!candidateId || !tenantId || typeof overallScore !== 'number') {
+      return NextResponse.json(
+        { error: 'Missing required fields: candidateId, tenantId and overallScore are required' },
+        { status: 400 },
+      )
+    }
+
+    const payload = await getPayload({ config: await config })
+
+    const candidate = (await payload.findByID({
+      collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+      id: candidateId,
+      depth: 0,
+    })) as unknown as EnrichedCandidate | null
+
+    if (!candidate || String(candidate.tenant) !== String(tenantId)) {
+      return NextResponse.json({ error: 'Candidate not found' }, { status: 404 })
+    }
+
+    const updated = (await payload.update({
+      collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+      id: candidateId,
+      data: {
+        overallScore,
+        ...(tier && { tier }),
+        ...(strengths && { strengths: strengths.map((strength) => ({ strength })) }),
+        ...(skills && { aiEnrichment: { extractedSkills: skills.map((skill) => ({ skill })) } }),
+      } as any,
+      depth: 0,
+    })) as unknown as EnrichedCandidate
+
+    const tenant = (await payload.findByID({
+      collection: 'tenants',
+      id: tenantId,
+    })) as unknown as Tenant
+
+    const queued = await queueEnrichmentWriteBack(updated, tenant)
+
+    return NextResponse.json({ success: true, queued })
+  } catch (error) {
+    console.error('Error saving enrichment results:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '../../../../payload.config'
+import { getAtsHealthReport } from '../../../../plugins/ats'
+import { getUnhealthyThresholdHours } from '../../../../plugins/ats/health'
+import { isTenantAdmin } from '../../../../lib/tenants'
+
+/**
+ * API route reporting the health of the ATS connections of the admin's own tenant
+ * `thresholdHours` overrides how long a connection may be unhealthy before it is flagged.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // Check if the request is authenticated
+    const payload = await getPayload({ config: await config })
+    const { user } = await payload.auth({
+      headers: req.headers,
+    } as any)
+
+    if (!user) {
+      return new NextResponse('Unauthorized', { status: 401 })
+    }
+
+    const typedUser = user as { tenant?: string | number | { id: string | number } }
+    const tenantId =
+      typeof typedUser.tenant === 'object' && typedUser.tenant !== null
+        ? typedUser.tenant.id
+        : typedUser.tenant
+
+    if (!isTenantAdmin(user, tenantId)) {
+      return new NextResponse('Forbidden', { status: 403 })
+    }
+
+    const requested = Number(new URL(req.url).searchParams.get('thresholdHours'))
+    const thresholdHours = requested > 0 ? requested : getUnhealthyThresholdHours()
+
+    const tenants = await getAtsHealthReport({ thresholdHours, tenantId })
+
+    return NextResponse.json({ thresholdHours, generatedAt: new Date().toISOString(), tenants })
+  } catch (error) {
+    console.error('Error building ATS health report:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
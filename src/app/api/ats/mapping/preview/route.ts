@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '../../../../../payload.config'
+import { Tenant } from '../../../../../payload-types'
+import { FieldMappingRule, getValueAtPath } from '../../../../../plugins/ats/fieldMapping'
+import { getAccessToken } from '../../../../../plugins/ats/integrations/jobAdder/oauth'
+import { JobAdderClient } from '../../../../../plugins/ats/integrations/jobAdder/client'
+import {
+  transformJob,
+  transformCandidate,
+} from '../../../../../plugins/ats/integrations/jobAdder/transform'
+import {
+  JobAdderCandidate,
+  JobAdderJob,
+} from '../../../../../plugins/ats/integrations/jobAdder/types'
+import { isTenantAdmin } from '../../../../../lib/tenants'
+
+/**
+ * API route previewing a tenant's JobAdder field mapping in the admin UI
+ *
+ * Body:
+ * - tenantId: tenant whose mapping (and JobAdder account) to use, which must be the admin's own
+ * - type: `job` or `candidate`
+ * - record: optional JobAdder record; defaults to the first one in the tenant's account
+ * - fieldMapping: optional rules to try instead of the saved ones
+ *
+ * Responds with the record before mapping, our record with and without the rules applied,
+ * and the target paths the rules changed.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Check if the request is authenticated
+    const payload = await getPayload({ config: await config })
+    const { user } = await payload.auth({
+      headers: req.headers,
+    } as any)
+
+    if (!user) {
+      return new NextResponse('Unauthorized', { status: 401 })
+    }
+
+    const body = await req.json()
+    const { tenantId, type = 'job', record, fieldMapping } = body
+
+    if (!tenantId || (type !== 'job' && type !== 'candidate')) {
+      return NextResponse.json(
+        { error: 'tenantId and a type of job or candidate are required' },
+        { status: 400 },
+      )
+    }
+
+    if (!isTenantAdmin(user, tenantId)) {
+      return new NextResponse('Forbidden', { status: 403 })
+    }
+
+    const tenant = (await payload.findByID({ collection: 'tenants', id: tenantId })) as Tenant
+    if (!tenant) {
+      return NextResponse.json({ error: `Tenant ${tenantId} not found` }, { status: 404 })
+    }
+
+    const savedMapping = tenant.atsConfig?.jobAdder?.fieldMapping
+    const rules: FieldMappingRule[] =
+      fieldMapping ?? (type === 'job' ? savedMapping?.jobs : savedMapping?.candidates) ?? []
+
+    let before = record
+    if (!before) {
+      const accessToken = await getAccessToken(String(tenantId))
+      if (!accessToken) {
+        return NextResponse.json(
+          { error: 'Tenant is not connected to JobAdder; pass a record to preview' },
+          { status: 400 },
+        )
+      }
+
+      const client = new JobAdderClient({
+        clientId: '', // Not needed for token-based operations
+        clientSecret: '', // Not needed for token-based operations
+        accessToken,
+        refreshToken: '', // Not needed for this operation
+        tenantId: String(tenantId),
+      })
+
+      const samples =
+        type === 'job'
+          ? await client.getJobs({ limit: 1 })
+          : await client.getCandidates({ limit: 1 })
+      before = samples[0]
+
+      if (!before) {
+        return NextResponse.json(
+          { error: `No ${type}s found in JobAdder to preview` },
+          { status: 404 },
+        )
+      }
+    }
+
+    const numericTenantId = Number(tenantId)
+    const [unmapped, after] =
+      type === 'job'
+        ? await Promise.all([
+            transformJob(before as JobAdderJob, numericTenantId),
+            transformJob(before as JobAdderJob, numericTenantId, rules),
+          ])
+        : await Promise.all([
+            transformCandidate(before as JobAdderCandidate, numericTenantId),
+            transformCandidate(
+              before as JobAdderCandidate,
+              numericTenantId,
+              undefined,
+              [],
+              [],
+              [],
+              rules,
+            ),
+          ])
+
+    const changes = [...new Set(rules.map((rule) => rule.target).filter(Boolean))].filter(
+      (target) =>
+        JSON.stringify(getValueAtPath(unmapped, target)) !==
+        JSON.stringify(getValueAtPath(after, target)),
+    )
+
+    return NextResponse.json({ before, unmapped, after, changes })
+  } catch (error) {
+    console.error('Error previewing ATS field mapping:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
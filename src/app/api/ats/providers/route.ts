@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAtsProviders } from '../../../../plugins/ats'
+import { getPayload } from 'payload'
+import config from '../../../../payload.config'
+import { Tenant } from '../../../../payload-types'
+import { isTenantAdmin } from '../../../../lib/tenants'
+
+/**
+ * API route listing the registered ATS providers for the admin UI
+ * With a tenant, each provider also reports whether it is enabled and connected for that tenant
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // Check if the request is authenticated
+    const payload = await getPayload({ config: await config })
+    const { user } = await payload.auth({
+      headers: req.headers,
+    } as any)
+
+    if (!user) {
+      return new NextResponse('Unauthorized', { status: 401 })
+    }
+
+    const typedUser = user as { tenant?: string | number | { id: string | number } }
+    const userTenantId =
+      typeof typedUser.tenant === 'object' && typedUser.tenant !== null
+        ? typedUser.tenant.id
+        : typedUser.tenant
+
+    // A tenant's provider health and connection details are only shown to its admins
+    const tenantId = new URL(req.url).searchParams.get('tenantId') || userTenantId
+    if (tenantId && !isTenantAdmin(user, tenantId)) {
+      return new NextResponse('Forbidden', { status: 403 })
+    }
+
+    const tenant = tenantId
+      ? ((await payload.findByID({ collection: 'tenants', id: tenantId })) as Tenant)
+      : null
+
+    const providers = getAtsProviders().map((provider) => ({
+      slug: provider.slug,
+      name: provider.name,
+      description: provider.description,
+      icon: provider.icon,
+      authorizeUrl: `/api/oauth/${provider.slug}/authorize`,
+      capabilities: {
+        pushJob: Boolean(provider.pushJob),
+        pullCandidates: Boolean(provider.pullCandidates),
+        pushApplications: Boolean(provider.pushApplications),
+        webhooks: Boolean(provider.webhooks),
+        disconnect: Boolean(provider.auth.disconnect),
+        previewSync: Boolean(provider.previewSync),
+      },
+      health: tenant ? provider.getHealth(tenant) : undefined,
+    }))
+
+    return NextResponse.json({ providers })
+  } catch (error) {
+    console.error('Error listing ATS providers:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '../../../../../payload.config'
+import { Job } from '../../../../../payload-types'
+import { getAtsProvider } from '../../../../../plugins/ats'
+import { isTenantAdmin } from '../../../../../lib/tenants'
+
+/**
+ * API route importing a synced job's screening questions from its ATS
+ * The questions are added to the tenant's question bank and to the job's apply form.
+ * `provider` is the ATS provider slug and defaults to `jobadder`.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Check if the request is authenticated
+    const payload = await getPayload({ config: await config })
+    const { user } = await payload.auth({
+      headers: req.headers,
+    } as any)
+
+    if (!user) {
+      return new NextResponse('Unauthorized', { status: 401 })
+    }
+
+    const { jobId, provider: providerSlug = 'jobadder' } = await req.json()
+
+    if (!jobId) {
+      return NextResponse.json({ success: false, message: 'jobId is required' }, { status: 400 })
+    }
+
+    const provider = getAtsProvider(providerSlug)
+    if (!provider) {
+      return NextResponse.json(
+        { success: false, message: `Unknown ATS provider: ${providerSlug}` },
+        { status: 400 },
+      )
+    }
+
+    if (!provider.importScreeningQuestions) {
+      return NextResponse.json(
+        { success: false, message: `${provider.name} does not support screening questions` },
+        { status: 400 },
+      )
+    }
+
+    const job = (await payload.findByID({
+      collection: 'jobs',
+      id: jobId,
+      depth: 0,
+    })) as unknown as Job | null
+
+    if (!job) {
+      return NextResponse.json({ success: false, message: 'Job not found' }, { status: 404 })
+    }
+
+    // Only admins of the job's tenant can import onto it
+    const jobTenantId =
+      typeof job.tenant === 'object' && job.tenant !== null ? job.tenant.id : job.tenant
+    if (!isTenantAdmin(user, jobTenantId)) {
+      return new NextResponse('Forbidden', { status: 403 })
+    }
+
+    const count = await provider.importScreeningQuestions(job, String(jobTenantId))
+
+    return NextResponse.json({
+      success: true,
+      count,
+      message: `Imported ${count} screening questions from ${provider.name}`,
+    })
+  } catch (error) {
+    console.error('Error importing screening questions:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        message: `Error importing screening questions: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '../../../../../payload.config'
+import { getAtsProvider } from '../../../../../plugins/ats'
+import { rotateTenantWebhookSecret } from '../../../../../plugins/ats/webhookRegistrations'
+import { isTenantAdmin } from '../../../../../lib/tenants'
+
+/**
+ * API route rotating the secret an ATS signs a tenant's webhooks with, for the tenant's admins
+ * The previous secret is still accepted for a grace period while the ATS switches over.
+ * `provider` is the ATS provider slug and defaults to `jobadder`.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Check if the request is authenticated
+    const payload = await getPayload({ config: await config })
+    const { user } = await payload.auth({
+      headers: req.headers,
+    } as any)
+
+    if (!user) {
+      return new NextResponse('Unauthorized', { status: 401 })
+    }
+
+    const { tenantId, provider: providerSlug = 'jobadder' } = await req.json()
+
+    if (!tenantId) {
+      return NextResponse.json({ success: false, message: 'tenantId is required' }, { status: 400 })
+    }
+
+    if (!isTenantAdmin(user, tenantId)) {
+      return new NextResponse('Forbidden', { status: 403 })
+    }
+
+    const provider = getAtsProvider(providerSlug)
+    if (!provider) {
+      return NextResponse.json(
+        { success: false, message: `Unknown ATS provider: ${providerSlug}` },
+        { status: 400 },
+      )
+    }
+
+    if (!provider.webhooks?.rotateSecret) {
+      return NextResponse.json(
+        { success: false, message: `${provider.name} does not support webhook secret rotation` },
+        { status: 400 },
+      )
+    }
+
+    await rotateTenantWebhookSecret(provider, String(tenantId))
+
+    return NextResponse.json({
+      success: true,
+      message: `${provider.name} webhook secret rotated for tenant ${tenantId}`,
+    })
+  } catch (error) {
+    console.error('Error rotating webhook secret:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        message: `Error rotating webhook secret: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      },
+      { status: 500 },
+    )
+  }
+}
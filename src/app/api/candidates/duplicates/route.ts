@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '../../../../payload.config'
+import {
+  DEFAULT_DUPLICATE_THRESHOLD,
+  findDuplicateCandidates,
+} from '../../../../plugins/ats/candidateIdentity'
+import { isTenantAdmin } from '../../../../lib/tenants'
+
+/**
+ * API route listing likely duplicate candidates in a tenant for the admin merge tool
+ *
+ * Query:
+ * - tenantId: tenant to check, which must be the admin's own
+ * - threshold: minimum match score between 0 and 1 (default 0.6)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // Check if the request is authenticated
+    const payload = await getPayload({ config: await config })
+    const { user } = await payload.auth({
+      headers: req.headers,
+    } as any)
+
+    if (!user) {
+      return new NextResponse('Unauthorized', { status: 401 })
+    }
+
+    const searchParams = new URL(req.url).searchParams
+    const tenantId = searchParams.get('tenantId')
+    const threshold = parseFloat(
+      searchParams.get('threshold') || String(DEFAULT_DUPLICATE_THRESHOLD),
+    )
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'tenantId is required' }, { status: 400 })
+    }
+
+    if (!isTenantAdmin(user, tenantId)) {
+      return new NextResponse('Forbidden', { status: 403 })
+    }
+
+    if (!Number.isFinite(threshold) || threshold < 0 || threshold > 1) {
+      return NextResponse.json({ error: 'threshold must be between 0 and 1' }, { status: 400 })
+    }
+
+    const duplicates = await findDuplicateCandidates(tenantId, threshold)
+
+    return NextResponse.json({ duplicates })
+  } catch (error) {
+    console.error('Error finding duplicate candidates:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
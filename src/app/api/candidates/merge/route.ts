@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '../../../../payload.config'
+import {
+  CandidateMergeError,
+  mergeCandidates,
+  previewCandidateMerge,
+} from '../../../../plugins/ats/candidateMerge'
+import { isTenantAdmin } from '../../../../lib/tenants'
+
+/**
+ * API route merging a duplicate candidate into another in the admin merge tool
+ *
+ * Body:
+ * - tenantId: tenant both candidates belong to, which must be the admin's own
+ * - primaryId: candidate to keep
+ * - duplicateId: candidate to merge into it and remove
+ * - choices: optional side (`primary` or `duplicate`) to keep for each conflicting field
+ * - preview: when true, respond with the conflicts and merged fields without saving
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Check if the request is authenticated
+    const payload = await getPayload({ config: await config })
+    const { user } = await payload.auth({
+      headers: req.headers,
+    } as any)
+
+    if (!user) {
+      return new NextResponse('Unauthorized', { status: 401 })
+    }
+
+    const body = await req.json()
+    const { tenantId, primaryId, duplicateId, choices, preview = false } = body
+
+    if (!tenantId || !primaryId || !duplicateId) {
+      return NextResponse.json(
+        { error: 'tenantId, primaryId and duplicateId are required' },
+        { status: 400 },
+      )
+    }
+
+    if (!isTenantAdmin(user, tenantId)) {
+      return new NextResponse('Forbidden', { status: 403 })
+    }
+
+    if (preview) {
+      const plan = await previewCandidateMerge({ tenantId, primaryId, duplicateId, choices })
+      return NextResponse.json(plan)
+    }
+
+    const result = await mergeCandidates({
+      tenantId,
+      primaryId,
+      duplicateId,
+      choices,
+      mergedBy: user.id,
+    })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    if (error instanceof CandidateMergeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error merging candidates:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pushProviderApplications, pushProviderEnrichment } from '../../../../plugins/ats'
+
+/**
+ * API route for writing completed applications and candidate enrichment summaries back to
+ * every ATS provider
+ *
+ * This endpoint is designed to be called by a cron job every minute on deployments
+ * where the ATS plugin's in-process worker doesn't run.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // Check for API key authentication
+    const apiKey = req.headers.get('x-api-key')
+    if (!apiKey || apiKey !== process.env.CRON_API_KEY) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const results = await pushProviderApplications()
+    const enrichment = await pushProviderEnrichment()
+
+    return NextResponse.json({
+      success: true,
+      results,
+      enrichment,
+    })
+  } catch (error) {
+    console.error('Error writing back to ATS providers:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -5,6 +5,8 @@ import {
   abandonedApplicationTemplate,
   abandonedApplicationTextTemplate,
 } from '../../../../lib/emailTemplates'
+import { getApplyUrl } from '../../../../lib/applications'
+import type { Job } from '../../../../payload-types'
 
 // Define the time window for abandoned applications (in milliseconds)
 const ABANDONED_APPLICATION_WINDOW = 60 * 60 * 1000 // 1 hour
@@ -116,8 +118,10 @@ export async function GET(req: NextRequest) {
             const emailTemplate = retargetingConfig.emailTemplate || ''
 
             // Generate the application URL
-            const applicationUrl =
-              job.apply_link || `${process.env.NEXT_PUBLIC_SERVER_URL}/jobs/${job.slug}`
+            const applyUrl = getApplyUrl(job as unknown as Job)
+            const applicationUrl = applyUrl.startsWith('/')
+              ? `${process.env.NEXT_PUBLIC_SERVER_URL}${applyUrl}`
+              : applyUrl
 
             // Get the tenant's logo URL if available
             const logoUrl = tenant.brandingConfig?.logo?.url || ''
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sendDueJobAlerts } from '../../../../lib/jobAlerts'
+
+/**
+ * API route for sending job alert digests
+ *
+ * This endpoint is designed to be called by a cron job every hour. Each active alert is sent
+ * the jobs posted since its last digest once a day or once a week, depending on its frequency.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // Check for API key authentication
+    const apiKey = req.headers.get('x-api-key')
+    if (!apiKey || apiKey !== process.env.CRON_API_KEY) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const results = await sendDueJobAlerts()
+
+    return NextResponse.json({
+      success: true,
+      results,
+    })
+  } catch (error) {
+    console.error('Error sending job alerts:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { processProviderWebhooks } from '../../../../plugins/ats'
+
+/**
+ * API route for processing queued webhook deliveries and polled events for every ATS provider
+ *
+ * This endpoint is designed to be called by a cron job every minute on deployments
+ * where the ATS plugin's in-process worker doesn't run.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // Check for API key authentication
+    const apiKey = req.headers.get('x-api-key')
+    if (!apiKey || apiKey !== process.env.CRON_API_KEY) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const results = await processProviderWebhooks()
+
+    return NextResponse.json({
+      success: true,
+      results,
+    })
+  } catch (error) {
+    console.error('Error processing webhook queue:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import payload from 'payload'
+import type { Job } from '../../../../payload-types'
 import { getTenantByDomain } from '../../../../lib/tenants'
+import { JobEventType, recordJobEvent } from '../../../../lib/jobEvents'
 
 // Define the expected request body structure
 interface TrackEventRequest {
-  eventType: 'job_viewed' | 'apply_started' | 'apply_completed' | 'retarget_triggered'
+  eventType: JobEventType
   jobId: string
   sessionId: string
   utmParams?: {
@@ -38,11 +40,11 @@ export async function POST(req: NextRequest) {
     }
 
     // Verify that the job exists and belongs to the tenant
-    const job = await payload.findByID({
+    const job = (await payload.findByID({
       collection: 'jobs',
       id: jobId,
       depth: 0,
-    })
+    })) as unknown as Job | null
 
     if (!job) {
       return NextResponse.json({ error: 'Job not found' }, { status: 404 })
@@ -55,23 +57,14 @@ export async function POST(req: NextRequest) {
       )
     }
 
-    // Create the event
-    // We need to cast 'events' as any to bypass TypeScript's type checking
-    // since it doesn't recognize 'events' as a valid collection slug yet
-    const event = await payload.create({
-      collection: 'events' as any,
-      data: {
-        type: eventType,
-        job: jobId,
-        sessionId,
-        source: utmParams?.source,
-        medium: utmParams?.medium,
-        campaign: utmParams?.campaign,
-        referrer,
-        tenant: tenant.id,
-        timestamp: new Date(),
-        metadata,
-      },
+    const event = await recordJobEvent({
+      type: eventType,
+      job,
+      tenantId: tenant.id,
+      sessionId,
+      utmParams,
+      referrer,
+      metadata,
     })
 
     // If this is an apply_started event, schedule a check for abandoned applications
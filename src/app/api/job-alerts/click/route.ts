@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { JobAlertError, recordJobAlertEvent } from '../../../../lib/jobAlerts'
+
+/**
+ * API route for the job links in job alert digests
+ *
+ * Records a job_alert_clicked event and sends the job seeker on to the job, tagged as coming
+ * from the alert so the job's own events are attributed to it.
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = req.nextUrl
+
+  try {
+    const job = await recordJobAlertEvent({
+      type: 'job_alert_clicked',
+      token: searchParams.get('token') || '',
+      jobId: searchParams.get('job') || undefined,
+      sentAt: searchParams.get('sent') || undefined,
+    })
+
+    const jobUrl = new URL(`/jobs/${job?.slug}`, req.url)
+    jobUrl.searchParams.set('utm_source', 'job_alert')
+    jobUrl.searchParams.set('utm_medium', 'email')
+
+    return NextResponse.redirect(jobUrl)
+  } catch (error) {
+    // Links to jobs that have since been removed go to the search page
+    if (!(error instanceof JobAlertError)) {
+      console.error('Error recording job alert click:', error)
+    }
+
+    return NextResponse.redirect(new URL('/search', req.url))
+  }
+}
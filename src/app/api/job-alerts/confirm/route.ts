@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { JobAlertError, confirmJobAlert } from '../../../../lib/jobAlerts'
+
+/**
+ * API route for the link in a job alert's confirmation email
+ *
+ * Activates the alert and sends the job seeker on to the search page.
+ */
+export async function GET(req: NextRequest) {
+  const token = req.nextUrl.searchParams.get('token') || ''
+
+  try {
+    await confirmJobAlert(token)
+
+    return NextResponse.redirect(new URL('/search?alert=confirmed', req.url))
+  } catch (error) {
+    if (error instanceof JobAlertError) {
+      return NextResponse.redirect(new URL('/search?alert=invalid', req.url))
+    }
+
+    console.error('Error confirming job alert:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
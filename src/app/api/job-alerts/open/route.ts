@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { recordJobAlertEvent } from '../../../../lib/jobAlerts'
+
+// 1x1 transparent GIF
+const PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64')
+
+/**
+ * API route for the tracking pixel in job alert digests
+ *
+ * Records a job_alert_opened event. The pixel is returned whatever happens, so a broken link
+ * never shows in the email.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    await recordJobAlertEvent({
+      type: 'job_alert_opened',
+      token: req.nextUrl.searchParams.get('token') || '',
+      sentAt: req.nextUrl.searchParams.get('sent') || undefined,
+    })
+  } catch (error) {
+    console.error('Error recording job alert open:', error)
+  }
+
+  return new NextResponse(PIXEL, {
+    headers: {
+      'Content-Type': 'image/gif',
+      'Cache-Control': 'no-store, max-age=0',
+    },
+  })
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTenantByDomain } from '../../../lib/tenants'
+import { createJobAlert } from '../../../lib/jobAlerts'
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * API route for saving a search as a job alert
+ *
+ * Takes JSON: email, frequency ('daily' or 'weekly', default 'weekly') and criteria, the search
+ * as { query, sector, location, type, minSalary }. The alert only starts sending once the
+ * job seeker confirms it from the email we send them.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Get the tenant from the request hostname
+    const hostname = req.headers.get('host') || ''
+    const tenant = await getTenantByDomain(hostname)
+    if (!tenant) {
+      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
+    }
+
+    const body = await req.json()
+    const email = typeof body.email === 'string' ? body.email.trim() : ''
+    const frequency = body.frequency || 'weekly'
+    const criteria = body.criteria || {}
+
+    // Validate the request
+    if (!EMAIL_PATTERN.test(email)) {
+      return NextResponse.json({ error: 'A valid email is required' }, { status: 400 })
+    }
+    if (frequency !== 'daily' && frequency !== 'weekly') {
+      return NextResponse.json({ error: "frequency must be 'daily' or 'weekly'" }, { status: 400 })
+    }
+
+    const minSalary =
+      criteria.minSalary !== undefined && criteria.minSalary !== ''
+        ? Number(criteria.minSalary)
+        : undefined
+    if (minSalary !== undefined && !Number.isFinite(minSalary)) {
+      return NextResponse.json({ error: 'minSalary must be a number' }, { status: 400 })
+    }
+
+    await createJobAlert({
+      tenant,
+      email,
+      frequency,
+      criteria: {
+        query: criteria.query || undefined,
+        sector: criteria.sector || undefined,
+        location: criteria.location || undefined,
+        type: criteria.type || undefined,
+        minSalary,
+      },
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Check your email to confirm your job alert',
+    })
+  } catch (error) {
+    console.error('Error creating job alert:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { JobAlertError, unsubscribeJobAlert } from '../../../../lib/jobAlerts'
+
+/**
+ * API route for unsubscribing from a job alert
+ *
+ * GET is the unsubscribe link in the email, which sends the job seeker on to the search page.
+ * POST is the one-click unsubscribe mail clients make from the List-Unsubscribe header.
+ */
+export async function GET(req: NextRequest) {
+  const token = req.nextUrl.searchParams.get('token') || ''
+
+  try {
+    await unsubscribeJobAlert(token)
+
+    return NextResponse.redirect(new URL('/search?alert=unsubscribed', req.url))
+  } catch (error) {
+    if (error instanceof JobAlertError) {
+      return NextResponse.redirect(new URL('/search?alert=invalid', req.url))
+    }
+
+    console.error('Error unsubscribing from job alert:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const token = req.nextUrl.searchParams.get('token') || ''
+
+  try {
+    await unsubscribeJobAlert(token)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof JobAlertError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error unsubscribing from job alert:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server'
+import payload from 'payload'
+import type { Job } from '../../../../payload-types'
+import { getTenantByDomain } from '../../../../lib/tenants'
+import { saveUpload, submitApplication, validateUpload } from '../../../../lib/applications'
+import {
+  ScreeningAnswer,
+  getJobScreeningQuestions,
+  validateScreeningAnswers,
+} from '../../../../lib/screening'
+
+/**
+ * API route for applying to a job through the hosted apply page
+ *
+ * Takes the apply form as multipart form data: jobId, firstName, lastName, email, phone,
+ * coverLetter, resume (file), dataUsageConsent ('true' or 'false'), consentStatement, sessionId,
+ * utm_source, utm_medium, utm_campaign and referrer.
+ *
+ * Answers to the job's screening questions come as `answers`, a JSON array of
+ * { questionId, answer }, with the file answering a file question as `answerFile_<questionId>`.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Get the tenant from the request hostname
+    const hostname = req.headers.get('host') || ''
+    const tenant = await getTenantByDomain(hostname)
+    if (!tenant) {
+      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
+    }
+
+    const form = await req.formData()
+    const field = (name: string) => {
+      const value = form.get(name)
+      return typeof value === 'string' && value.trim() ? value.trim() : undefined
+    }
+
+    const jobId = field('jobId')
+    const firstName = field('firstName')
+    const lastName = field('lastName')
+    const email = field('email')
+    const sessionId = field('sessionId')
+
+    // Validate required fields
+    if (!jobId || !firstName || !lastName || !email || !sessionId) {
+      return NextResponse.json(
+        {
+          error:
+            'Missing required fields: jobId, firstName, lastName, email and sessionId are required',
+        },
+        { status: 400 },
+      )
+    }
+
+    let answers: ScreeningAnswer[] | undefined
+    try {
+      answers = field('answers') ? JSON.parse(field('answers') as string) : undefined
+    } catch {
+      return NextResponse.json({ error: 'answers must be a JSON array' }, { status: 400 })
+    }
+    if (answers !== undefined && !Array.isArray(answers)) {
+      return NextResponse.json({ error: 'answers must be a JSON array' }, { status: 400 })
+    }
+
+    const resume = form.get('resume')
+    const resumeFile = resume instanceof File && resume.size > 0 ? resume : null
+    if (resumeFile) {
+      const resumeError = validateUpload(resumeFile, 'Resume')
+      if (resumeError) {
+        return NextResponse.json({ error: resumeError }, { status: 400 })
+      }
+    }
+
+    // Verify that the job exists, belongs to the tenant and is open
+    const job = (await payload.findByID({
+      collection: 'jobs',
+      id: jobId,
+      depth: 0,
+    })) as unknown as Job | null
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    if (job.tenant !== tenant.id) {
+      return NextResponse.json(
+        { error: 'Job does not belong to the current tenant' },
+        { status: 403 },
+      )
+    }
+
+    if (job.status !== 'published') {
+      return NextResponse.json(
+        { error: 'This job is no longer accepting applications' },
+        { status: 409 },
+      )
+    }
+
+    // Answer the job's screening questions, with the files answering file questions
+    const questions = await getJobScreeningQuestions(job as any)
+    const fileAnswers = new Map<string, File>()
+    for (const question of questions.filter(({ type }) => type === 'file')) {
+      const file = form.get(`answerFile_${question.id}`)
+      if (file instanceof File && file.size > 0) {
+        const fileError = validateUpload(file, question.question)
+        if (fileError) {
+          return NextResponse.json({ error: fileError }, { status: 400 })
+        }
+        fileAnswers.set(String(question.id), file)
+      }
+    }
+    const screeningAnswers = (answers || []).filter(
+      ({ questionId }) => !fileAnswers.has(String(questionId)),
+    )
+    // Files are only saved once every answer is valid, so check file answers by their question
+    const answersError = validateScreeningAnswers(questions, [
+      ...screeningAnswers,
+      ...Array.from(fileAnswers.keys()).map((questionId) => ({ questionId, fileId: questionId })),
+    ])
+    if (answersError) {
+      return NextResponse.json({ error: answersError }, { status: 400 })
+    }
+
+    const resumeId = resumeFile ? await saveUpload(resumeFile, tenant.id, 'Resume') : undefined
+    for (const question of questions) {
+      const file = fileAnswers.get(String(question.id))
+      if (file) {
+        screeningAnswers.push({
+          questionId: question.id,
+          fileId: await saveUpload(file, tenant.id, question.question),
+        })
+      }
+    }
+
+    const application = await submitApplication({
+      job,
+      tenantId: tenant.id,
+      applicant: {
+        firstName,
+        lastName,
+        email,
+        phone: field('phone'),
+      },
+      coverLetter: field('coverLetter'),
+      questions,
+      answers: screeningAnswers,
+      resumeId,
+      dataUsageConsent: field('dataUsageConsent') === 'true',
+      consentStatement: field('consentStatement'),
+      sessionId,
+      utmParams: {
+        source: field('utm_source'),
+        medium: field('utm_medium'),
+        campaign: field('utm_campaign'),
+      },
+      referrer: field('referrer'),
+    })
+
+    return NextResponse.json({ success: true, applicationId: application.id }, { status: 201 })
+  } catch (error) {
+    console.error('Error submitting application:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import payload from 'payload'
 import { getTenantByDomain } from '../../../../lib/tenants'
+import { buildJobSearchWhere } from '../../../../lib/jobSearch'
 
 /**
  * API route for searching jobs
@@ -40,87 +41,16 @@ export async function GET(req: NextRequest) {
     const sortField = searchParams.get('sortField') || 'created_at'
     const sortOrder = searchParams.get('sortOrder') || 'desc'
 
-    // Build the query conditions
-    const where: any = {
-      tenant: { equals: tenant.id },
-      status: { equals: 'published' },
-      expiry_date: { greater_than: new Date().toISOString() },
-    }
-
-    // Add search query if provided
-    if (query) {
-      where.or = [
-        { title: { like: query } },
-        { description: { like: query } },
-        { location: { like: query } },
-      ]
-    }
-
-    // Add sector filter if provided
-    if (sector) {
-      where.sector = { equals: sector }
-    }
-
-    // Add location filter if provided
-    if (location) {
-      where.location = { like: location }
-    }
-
-    // Add job type filter if provided
-    if (jobType) {
-      where.type = { equals: jobType }
-    }
-
-    // Add salary filters if provided
-    if (minSalary !== null || maxSalary !== null) {
-      const salaryConditions = []
-
-      if (minSalary !== null) {
-        // Jobs with min salary >= specified min
-        salaryConditions.push({
-          'salary.min': { greater_than_equal: minSalary },
-        })
-
-        // Jobs with max salary >= specified min
-        salaryConditions.push({
-          'salary.max': { greater_than_equal: minSalary },
-        })
-      }
-
-      if (maxSalary !== null) {
-        // Jobs with max salary <= specified max
-        salaryConditions.push({
-          'salary.max': { less_than_equal: maxSalary },
-        })
-
-        // Jobs with min salary <= specified max
-        salaryConditions.push({
-          'salary.min': { less_than_equal: maxSalary },
-        })
-      }
-
-      // Add salary period filter if provided
-      if (salaryPeriod) {
-        // Create a new array with the period condition added to each condition
-        const conditionsWithPeriod = salaryConditions.map((condition) => ({
-          ...condition,
-          'salary.period': { equals: salaryPeriod },
-        }))
-
-        // Replace the original conditions with the new ones
-        salaryConditions.length = 0
-        salaryConditions.push(...conditionsWithPeriod)
-      }
-
-      // Add the salary conditions to the where clause
-      where.or = where.or || []
-      where.or.push(...salaryConditions)
-    }
-
-    // Add featured filter if requested
-    if (featured) {
-      where.featured = { equals: true }
-    }
+    const where = buildJobSearchWhere(tenant.id, {
+      query,
+      sector,
+      location,
+      type: jobType,
+      minSalary,
+      maxSalary,
+      salaryPeriod,
+      featured,
+    })
 
     // Build the sort parameter
     const sort = `${sortOrder === 'asc' ? '' : '-'}${sortField}`
@@ -1,36 +1,138 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { jobAdderIntegration } from '../../../../plugins/ats/integrations/jobAdder'
+import { getAtsProvider, runScheduledSync } from '../../../../plugins/ats'
 import { getPayload } from 'payload'
 import config from '../../../../payload.config'
+import { describeSyncDiff } from '../../../../plugins/ats/syncDiff'
+import { registerTenantWebhooks } from '../../../../plugins/ats/webhookRegistrations'
+import { isTenantAdmin } from '../../../../lib/tenants'
 
 /**
  * API route to manually trigger job synchronization
- * This endpoint can be used to manually sync jobs from JobAdder for a specific tenant
+ * This endpoint can be used to manually sync jobs from an ATS provider for a specific tenant
  * or to run the scheduled sync for all tenants
+ *
+ * Syncing a tenant needs an admin of that tenant. Syncing all tenants needs the cron API key
+ * in the `x-api-key` header.
+ *
+ * `provider` is the ATS provider slug and defaults to `jobadder`.
+ *
+ * Modes:
+ * - initial: full sync for a newly connected tenant
+ * - incremental: sync jobs changed since the tenant's last successful sync
+ * - full: force a full resync, ignoring the tenant's watermark
+ * - any other value: (re)register the tenant's webhook
+ *
+ * With `candidates`, the tenant's candidates are synced after its jobs. With `dryRun`, an
+ * initial, incremental or full sync of one tenant writes nothing and responds with a
+ * `preview` of what it would create, update, close and fail to transform; sending the same
+ * request without `dryRun` applies it.
  */
 export async function POST(req: NextRequest) {
   try {
-    // Check if the request is authenticated
     const payload = await getPayload({ config: await config })
-    const { user } = await payload.auth({
-      headers: req.headers,
-    } as any)
+    const body = await req.json()
+    const {
+      tenantId,
+      mode = 'initial',
+      provider: providerSlug = 'jobadder',
+      candidates = false,
+      dryRun = false,
+    } = body
+
+    if (tenantId) {
+      // Check if the request is authenticated by an admin of the tenant
+      const { user } = await payload.auth({
+        headers: req.headers,
+      } as any)
+
+      if (!user) {
+        return new NextResponse('Unauthorized', { status: 401 })
+      }
 
-    if (!user) {
-      return new NextResponse('Unauthorized', { status: 401 })
+      if (!isTenantAdmin(user, tenantId)) {
+        return new NextResponse('Forbidden', { status: 403 })
+      }
+    } else {
+      // No tenant's admin may sync the others, so syncing every tenant is left to cron jobs
+      const apiKey = req.headers.get('x-api-key')
+      if (!apiKey || apiKey !== process.env.CRON_API_KEY) {
+        return new NextResponse('Unauthorized', { status: 401 })
+      }
     }
 
-    const body = await req.json()
-    const { tenantId, mode = 'initial' } = body
+    const provider = getAtsProvider(providerSlug)
+    if (!provider) {
+      return new NextResponse(
+        JSON.stringify({
+          success: false,
+          message: `Unknown ATS provider ${providerSlug}`,
+        }),
+        { status: 400 },
+      )
+    }
+
+    const isSync = mode === 'initial' || mode === 'incremental' || mode === 'full'
+
+    if (dryRun && !(tenantId && isSync)) {
+      return new NextResponse(
+        JSON.stringify({
+          success: false,
+          message: 'Dry runs need a tenantId and an initial, incremental or full mode',
+        }),
+        { status: 400 },
+      )
+    }
 
     if (tenantId) {
       // Sync jobs for a specific tenant
-      if (mode === 'initial') {
-        await jobAdderIntegration.initialJobSync(tenantId)
+      if (isSync) {
+        const label = mode === 'initial' ? 'Initial' : mode === 'full' ? 'Full' : 'Incremental'
+
+        if (dryRun) {
+          if (!provider.previewSync) {
+            return new NextResponse(
+              JSON.stringify({
+                success: false,
+                message: `${provider.name} does not support dry runs`,
+              }),
+              { status: 400 },
+            )
+          }
+
+          const preview = await provider.previewSync(String(tenantId), {
+            fullResync: mode !== 'incremental',
+            candidates: Boolean(candidates),
+          })
+          const summaries = [describeSyncDiff(preview.jobs, 'job')]
+          if (preview.candidates) {
+            summaries.push(describeSyncDiff(preview.candidates, 'candidate'))
+          }
+
+          return new NextResponse(
+            JSON.stringify({
+              success: true,
+              message: `${label} ${provider.name} sync dry run for tenant ${tenantId}: ${summaries.join('. ')}`,
+              preview,
+            }),
+          )
+        }
+
+        const syncOptions = {
+          fullResync: mode !== 'incremental',
+          trigger: mode === 'initial' ? ('initial' as const) : ('manual' as const),
+        }
+        const stats = await provider.pullJobs(String(tenantId), syncOptions)
+        const candidateStats =
+          candidates && provider.pullCandidates
+            ? await provider.pullCandidates(String(tenantId), syncOptions)
+            : undefined
+
         return new NextResponse(
           JSON.stringify({
             success: true,
-            message: `Initial job sync completed for tenant ${tenantId}`,
+            message: `${label} ${provider.name} ${candidateStats ? 'job and candidate' : 'job'} sync completed for tenant ${tenantId}`,
+            stats,
+            candidateStats,
           }),
         )
       } else {
@@ -50,34 +152,29 @@ export async function POST(req: NextRequest) {
           )
         }
 
-        // Check if JobAdder is enabled for this tenant
-        if (!tenant.features?.jobAdder) {
+        // Check if the provider is enabled for this tenant
+        if (!tenant.features?.[provider.feature]) {
           return new NextResponse(
             JSON.stringify({
               success: false,
-              message: `JobAdder is not enabled for tenant ${tenantId}`,
+              message: `${provider.name} is not enabled for tenant ${tenantId}`,
             }),
             { status: 400 },
           )
         }
 
-        // Get access token
-        console.log('Attempting to get access token using jobAdderIntegration.getAccessToken')
-        console.log('Available methods on jobAdderIntegration:', Object.keys(jobAdderIntegration))
-        const accessToken = await jobAdderIntegration.getAccessToken(String(tenantId))
-
-        if (!accessToken) {
+        if (!provider.webhooks?.register) {
           return new NextResponse(
             JSON.stringify({
               success: false,
-              message: `No access token available for tenant ${tenantId}`,
+              message: `${provider.name} does not support webhook registration`,
             }),
             { status: 400 },
           )
         }
 
-        // Register webhook if it doesn't exist
-        await jobAdderIntegration.registerWebhook(accessToken, String(tenantId))
+        // Register webhook if it doesn't exist, recording the outcome for the health dashboard
+        await registerTenantWebhooks(provider, String(tenantId))
 
         return new NextResponse(
           JSON.stringify({
@@ -88,11 +185,11 @@ export async function POST(req: NextRequest) {
       }
     } else {
       // Run scheduled sync for all tenants
-      await jobAdderIntegration.scheduledJobSync()
+      await runScheduledSync({ provider: provider.slug, fullResync: mode === 'full' })
       return new NextResponse(
         JSON.stringify({
           success: true,
-          message: 'Scheduled job sync completed for all tenants',
+          message: `Scheduled ${provider.name} sync completed for all tenants`,
         }),
       )
     }
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '../../../../../payload.config'
+import { getAtsProvider } from '../../../../../plugins/ats'
+import { createOAuthState } from '../../../../../plugins/ats/oauthState'
+import { isTenantAdmin } from '../../../../../lib/tenants'
+
+/**
+ * API route to initiate an ATS provider's OAuth flow
+ * This endpoint generates an authorization URL and redirects the user to the provider's authorization page
+ *
+ * Only the tenant's admins can connect it. The `state` sent to the provider is signed, expires and is
+ * tied to the signed-in admin, so the callback can't be used to bind an account to another tenant.
+ */
+export async function GET(req: NextRequest, { params }: { params: { provider: string } }) {
+  const provider = getAtsProvider(params.provider)
+
+  if (!provider) {
+    return new NextResponse('Unknown ATS provider', { status: 404 })
+  }
+
+  try {
+    // Get the tenant ID from the query parameters
+    const url = new URL(req.url)
+    const tenantId = url.searchParams.get('tenantId')
+
+    if (!tenantId) {
+      return new NextResponse('Missing tenant ID', { status: 400 })
+    }
+
+    // Check if the request is authenticated
+    const payload = await getPayload({ config: await config })
+    const { user } = await payload.auth({
+      headers: req.headers,
+    } as any)
+
+    if (!user) {
+      return new NextResponse('Unauthorized', { status: 401 })
+    }
+
+    if (!isTenantAdmin(user, tenantId)) {
+      return new NextResponse('Forbidden', { status: 403 })
+    }
+
+    const state = await createOAuthState({ tenantId, userId: user.id, provider: provider.slug })
+
+    // Generate the authorization URL
+    const authUrl = await provider.auth.getAuthorizationUrl(tenantId, state)
+
+    // Redirect to the provider's authorization page
+    return NextResponse.redirect(authUrl)
+  } catch (error) {
+    console.error(`Error initiating ${provider.name} OAuth flow:`, error)
+
+    // Redirect to the admin dashboard with an error message
+    const tenantId = new URL(req.url).searchParams.get('tenantId')
+    const message = encodeURIComponent(`Failed to initiate ${provider.name} OAuth flow`)
+    const redirectUrl = tenantId
+      ? `/admin/collections/tenants/${tenantId}?error=${message}`
+      : `/admin/collections/tenants?error=${message}`
+
+    return NextResponse.redirect(new URL(redirectUrl, req.url))
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '../../../../../payload.config'
+import { getAtsProvider } from '../../../../../plugins/ats'
+import { OAuthStateError, consumeOAuthState } from '../../../../../plugins/ats/oauthState'
+import { isTenantAdmin } from '../../../../../lib/tenants'
+
+/**
+ * API route to handle an ATS provider's OAuth callback
+ * This endpoint receives the authorization code from the provider after a user authorizes the application
+ *
+ * The tenant comes from the signed `state` created by the authorize route, which must be
+ * unused, unexpired and issued to the admin signed in on this request, who must still be an
+ * admin of the tenant.
+ */
+export async function GET(req: NextRequest, { params }: { params: { provider: string } }) {
+  const provider = getAtsProvider(params.provider)
+
+  if (!provider) {
+    return new NextResponse('Unknown ATS provider', { status: 404 })
+  }
+
+  let tenantId: string | null = null
+
+  try {
+    // Get the authorization code and signed state from the query parameters
+    const url = new URL(req.url)
+    const code = url.searchParams.get('code')
+    const state = url.searchParams.get('state')
+
+    if (!code) {
+      return new NextResponse('Missing authorization code', { status: 400 })
+    }
+
+    if (!state) {
+      return new NextResponse('Missing state parameter', { status: 400 })
+    }
+
+    // Check if the request is authenticated
+    const payload = await getPayload({ config: await config })
+    const { user } = await payload.auth({
+      headers: req.headers,
+    } as any)
+
+    if (!user) {
+      return new NextResponse('Unauthorized', { status: 401 })
+    }
+
+    try {
+      tenantId = await consumeOAuthState(state, { provider: provider.slug, userId: user.id })
+    } catch (error) {
+      if (error instanceof OAuthStateError) {
+        console.warn(`Rejected ${provider.name} OAuth callback: ${error.message}`)
+        return new NextResponse('Invalid or expired OAuth state', { status: 400 })
+      }
+      throw error
+    }
+
+    if (!isTenantAdmin(user, tenantId)) {
+      return new NextResponse('Forbidden', { status: 403 })
+    }
+
+    // Exchange the code for tokens
+    await provider.auth.handleCallback(code, tenantId)
+
+    // Redirect to the admin dashboard with a success message
+    const message = encodeURIComponent(`${provider.name} connected successfully`)
+    const redirectUrl = `/admin/collections/tenants/${tenantId}?message=${message}`
+    return NextResponse.redirect(new URL(redirectUrl, req.url))
+  } catch (error) {
+    console.error(`Error processing ${provider.name} OAuth callback:`, error)
+
+    // Redirect to the admin dashboard with an error message
+    const message = encodeURIComponent(`Failed to connect ${provider.name}`)
+    const redirectUrl = tenantId
+      ? `/admin/collections/tenants/${tenantId}?error=${message}`
+      : `/admin/collections/tenants?error=${message}`
+
+    return NextResponse.redirect(new URL(redirectUrl, req.url))
+  }
+}
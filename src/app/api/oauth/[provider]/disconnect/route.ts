@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '../../../../../payload.config'
+import { getAtsProvider } from '../../../../../plugins/ats'
+import { isTenantAdmin } from '../../../../../lib/tenants'
+
+/**
+ * API route to disconnect a tenant from an ATS provider, for the tenant's admins
+ * Revokes the tenant's tokens, removes webhooks and clears the stored connection. The tenant
+ * can reconnect through the authorize route.
+ */
+export async function POST(req: NextRequest, { params }: { params: { provider: string } }) {
+  const provider = getAtsProvider(params.provider)
+
+  if (!provider) {
+    return NextResponse.json({ error: 'Unknown ATS provider' }, { status: 404 })
+  }
+
+  try {
+    // Check if the request is authenticated
+    const payload = await getPayload({ config: await config })
+    const { user } = await payload.auth({
+      headers: req.headers,
+    } as any)
+
+    if (!user) {
+      return new NextResponse('Unauthorized', { status: 401 })
+    }
+
+    const { tenantId } = await req.json()
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Missing tenant ID' }, { status: 400 })
+    }
+
+    if (!isTenantAdmin(user, tenantId)) {
+      return new NextResponse('Forbidden', { status: 403 })
+    }
+
+    if (!provider.auth.disconnect) {
+      return NextResponse.json(
+        { error: `${provider.name} does not support disconnecting` },
+        { status: 400 },
+      )
+    }
+
+    await provider.auth.disconnect(String(tenantId))
+
+    return NextResponse.json({
+      success: true,
+      message: `${provider.name} disconnected for tenant ${tenantId}`,
+    })
+  } catch (error) {
+    console.error(`Error disconnecting ${provider.name}:`, error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -139,7 +139,7 @@ describe('JobAdder Webhook Route', () => {
       expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*')
       expect(response.headers.get('Access-Control-Allow-Methods')).toBe('POST, OPTIONS')
       expect(response.headers.get('Access-Control-Allow-Headers')).toBe(
-        'Content-Type, Authorization, X-JobAdder-Signature',
+        'Content-Type, Authorization, X-JobAdder-Signature, X-JobAdder-Timestamp',
       )
     })
   })
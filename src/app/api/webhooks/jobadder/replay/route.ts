@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { jobAdderIntegration } from '../../../../../plugins/ats/integrations/jobAdder'
+import { getAtsProvider } from '../../../../../plugins/ats'
+import { apiLogger as logger } from '@/lib/logger'
+import { getPayload } from 'payload'
+import config from '../../../../../payload.config'
+import { isTenantAdmin } from '../../../../../lib/tenants'
+
+/**
+ * API route to re-process stored webhook deliveries
+ * Admins can replay dead-lettered deliveries, or any delivery they choose, from the webhook inbox.
+ * Only their own tenant's deliveries are replayed; others are reported as not found. Deliveries
+ * that weren't signed are never replayed, as their tenant and contents can't be trusted. Each
+ * delivery is replayed by the ATS provider that sent it.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Check if the request is authenticated as an admin
+    const payload = await getPayload({ config: await config })
+    const { user } = await payload.auth({
+      headers: req.headers,
+    } as any)
+
+    if (!user) {
+      return new NextResponse('Unauthorized', { status: 401 })
+    }
+
+    const typedUser = user as { tenant?: string | number | { id: string | number } }
+    const tenantId =
+      typeof typedUser.tenant === 'object' && typedUser.tenant !== null
+        ? typedUser.tenant.id
+        : typedUser.tenant
+
+    if (!isTenantAdmin(user, tenantId)) {
+      return new NextResponse('Forbidden', { status: 403 })
+    }
+
+    const body = await req.json()
+    const { deliveryIds } = body as { deliveryIds?: (string | number)[] }
+
+    if (!Array.isArray(deliveryIds) || deliveryIds.length === 0) {
+      return NextResponse.json(
+        { success: false, message: 'deliveryIds must be a non-empty array' },
+        { status: 400 },
+      )
+    }
+
+    const results: {
+      id: string | number
+      status: 'processed' | 'retrying' | 'dead_letter' | 'not_found' | 'unsigned' | 'unsupported'
+    }[] = []
+
+    for (const id of deliveryIds) {
+      const delivery = await jobAdderIntegration.getDelivery(id)
+
+      if (!delivery || String(delivery.tenantId) !== String(tenantId)) {
+        results.push({ id, status: 'not_found' })
+        continue
+      }
+
+      if (!delivery.signatureValid) {
+        results.push({ id, status: 'unsigned' })
+        continue
+      }
+
+      const replay = getAtsProvider(delivery.provider)?.webhooks?.replay
+      if (!replay) {
+        results.push({ id, status: 'unsupported' })
+        continue
+      }
+
+      const status = await replay(delivery)
+      results.push({ id, status })
+    }
+
+    logger.info('Replayed webhook deliveries', {
+      userId: user.id,
+      results,
+    })
+
+    return NextResponse.json({
+      success: results.every((result) => result.status === 'processed'),
+      results,
+    })
+  } catch (error) {
+    logger.error('Error replaying webhook deliveries', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
+  }
+}
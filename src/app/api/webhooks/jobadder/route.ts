@@ -7,6 +7,7 @@ import crypto from 'crypto'
 /**
  * API route to handle JobAdder webhooks
  * This endpoint receives webhook events from JobAdder when jobs are created, updated, or deleted
+ * Events are queued and acknowledged with a 202; the webhook worker processes them
  */
 export async function POST(req: NextRequest) {
   const requestId = crypto.randomUUID()
@@ -51,8 +52,8 @@ export async function POST(req: NextRequest) {
       ip: clientIp,
     }
 
-    let statusCode = 200
-    let responseText = 'Webhook processed successfully'
+    let statusCode = 202
+    let responseText = 'Webhook accepted'
 
     const expressRes = {
       status: (code: number) => {
@@ -69,7 +70,7 @@ export async function POST(req: NextRequest) {
     await jobAdderIntegration.handleWebhook(expressReq as any, expressRes as any)
 
     const duration = Date.now() - startTime
-    logger.info('Webhook processed successfully', {
+    logger.info('Webhook request handled', {
       requestId,
       duration,
       statusCode,
@@ -101,7 +102,8 @@ export async function OPTIONS() {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-JobAdder-Signature',
+      'Access-Control-Allow-Headers':
+        'Content-Type, Authorization, X-JobAdder-Signature, X-JobAdder-Timestamp',
       'Access-Control-Max-Age': '86400',
     },
   })
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { vincereIntegration } from '../../../../plugins/ats/integrations/vincere'
+import { apiLogger as logger } from '@/lib/logger'
+import crypto from 'crypto'
+
+/**
+ * API route to handle Vincere webhooks
+ * This endpoint receives webhook events from Vincere when positions or candidates change.
+ * The tenant and its token are carried in the query string of the registered URL.
+ * Events are queued and acknowledged with a 202; the webhook worker processes them
+ */
+export async function POST(req: NextRequest) {
+  const requestId = crypto.randomUUID()
+  const startTime = Date.now()
+
+  try {
+    const { searchParams } = new URL(req.url)
+    const tenantId = searchParams.get('tenantId')
+
+    logger.info('Received Vincere webhook request', {
+      requestId,
+      tenantId,
+    })
+
+    // Parse request body
+    let body
+    try {
+      body = await req.json()
+    } catch (error) {
+      logger.warn('Failed to parse webhook request body', {
+        requestId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+      return new NextResponse('Invalid JSON payload', { status: 400 })
+    }
+
+    const { status, message } = await vincereIntegration.handleWebhook({
+      tenantId,
+      token: searchParams.get('token'),
+      body,
+    })
+
+    logger.info('Webhook request handled', {
+      requestId,
+      duration: Date.now() - startTime,
+      statusCode: status,
+      tenantId,
+    })
+
+    return new NextResponse(message, { status })
+  } catch (error) {
+    logger.error('Error processing Vincere webhook', {
+      requestId,
+      duration: Date.now() - startTime,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    })
+
+    // Not stored, so let Vincere send it again. Don't expose internal errors to the client
+    return new NextResponse('Internal Server Error', { status: 500 })
+  }
+}
@@ -0,0 +1,84 @@
+import path from 'path'
+import { CollectionConfig } from 'payload'
+
+// Define a custom type for authenticated users with tenant and role
+type AuthUser = {
+  id: number
+  role?: string
+  tenant?: string | number
+}
+
+// Where uploaded files are stored, outside the public media folder
+export const APPLICANT_FILES_DIR = path.resolve(process.cwd(), 'applicant-files')
+
+/**
+ * Files applicants and job seekers upload: resumes and file answers to screening questions
+ * Unlike Media, files are only served to users of the tenant they were uploaded to. They are
+ * created by the apply and account APIs via the local API, see lib/applications.ts.
+ */
+const ApplicantFiles: CollectionConfig = {
+  slug: 'applicant-files',
+  admin: {
+    useAsTitle: 'filename',
+    defaultColumns: ['filename', 'description', 'tenant', 'createdAt'],
+    description: 'Resumes and other files uploaded by applicants',
+  },
+  access: {
+    read: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // All users (including admins) can only read files uploaded to their tenant
+      if (typedUser.tenant) {
+        return {
+          tenant: {
+            equals: typedUser.tenant,
+          },
+        }
+      }
+
+      return false
+    },
+    create: () => false,
+    update: () => false,
+    delete: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // Only admins can delete files, but still only from their tenant
+      if (typedUser.role === 'admin' && typedUser.tenant) {
+        return {
+          tenant: {
+            equals: typedUser.tenant,
+          },
+        }
+      }
+
+      return false
+    },
+  },
+  fields: [
+    {
+      name: 'description',
+      type: 'text',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'tenant',
+      type: 'relationship',
+      relationTo: 'tenants',
+      required: true,
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+  ],
+  upload: {
+    staticDir: APPLICANT_FILES_DIR,
+  },
+}
+
+export default ApplicantFiles
@@ -0,0 +1,337 @@
+import { CollectionConfig } from 'payload'
+
+// Define a custom type for authenticated users with tenant and role
+type AuthUser = {
+  id: number
+  role?: string
+  tenant?: string | number
+}
+
+/**
+ * Applications made through our hosted apply page
+ * Each application keeps what the applicant submitted, even when they refused consent and
+ * no candidate record was created for them, see lib/applications.ts. Applications for ATS
+ * jobs are written back to the ATS from their apply_completed event.
+ */
+const Applications: CollectionConfig = {
+  slug: 'applications',
+  admin: {
+    useAsTitle: 'email',
+    defaultColumns: ['email', 'job', 'status', 'screeningResult', 'source', 'submittedAt'],
+    description: 'Applications made on the tenant site',
+  },
+  access: {
+    read: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // All users (including admins) can only read applications for their tenant
+      if (typedUser.tenant) {
+        return {
+          tenant: {
+            equals: typedUser.tenant,
+          },
+        }
+      }
+
+      return false
+    },
+    // Applications are created by the apply API via the local API
+    create: () => false,
+    update: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // Recruiters move their own tenant's applications through the pipeline
+      if (typedUser.tenant) {
+        return {
+          tenant: {
+            equals: typedUser.tenant,
+          },
+        }
+      }
+
+      return false
+    },
+    delete: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // Only admins can delete applications, but still only from their tenant
+      if (typedUser.role === 'admin' && typedUser.tenant) {
+        return {
+          tenant: {
+            equals: typedUser.tenant,
+          },
+        }
+      }
+
+      return false
+    },
+  },
+  fields: [
+    {
+      name: 'job',
+      type: 'relationship',
+      relationTo: 'jobs',
+      required: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'candidate',
+      type: 'relationship',
+      relationTo: 'candidates',
+      admin: {
+        description: 'Empty when the applicant refused consent to keep their details',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'tenant',
+      type: 'relationship',
+      relationTo: 'tenants',
+      required: true,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'status',
+      type: 'select',
+      options: [
+        {
+          label: 'Submitted',
+          value: 'submitted',
+        },
+        {
+          label: 'Reviewing',
+          value: 'reviewing',
+        },
+        {
+          label: 'Shortlisted',
+          value: 'shortlisted',
+        },
+        {
+          label: 'Rejected',
+          value: 'rejected',
+        },
+        {
+          label: 'Hired',
+          value: 'hired',
+        },
+        {
+          label: 'Withdrawn',
+          value: 'withdrawn',
+        },
+      ],
+      defaultValue: 'submitted',
+      required: true,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'firstName',
+      type: 'text',
+      required: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'lastName',
+      type: 'text',
+      required: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'email',
+      type: 'email',
+      required: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'phone',
+      type: 'text',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'resume',
+      type: 'upload',
+      relationTo: 'applicant-files' as any, // Type assertion to bypass TypeScript check
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'coverLetter',
+      type: 'textarea',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'screeningResult',
+      type: 'select',
+      options: [
+        {
+          label: 'Passed',
+          value: 'passed',
+        },
+        {
+          label: 'Flagged',
+          value: 'flagged',
+        },
+        {
+          label: 'Knocked out',
+          value: 'rejected',
+        },
+      ],
+      admin: {
+        description: 'Outcome of the knockout rules on the screening questions',
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'answers',
+      type: 'array',
+      admin: {
+        description: 'Answers to the screening questions on the apply form',
+        readOnly: true,
+      },
+      fields: [
+        {
+          name: 'question',
+          type: 'text',
+          required: true,
+        },
+        {
+          name: 'screeningQuestion',
+          type: 'relationship',
+          relationTo: 'screening-questions' as any, // Use type assertion to bypass TypeScript check
+        },
+        {
+          name: 'answer',
+          type: 'textarea',
+        },
+        {
+          name: 'file',
+          type: 'upload',
+          relationTo: 'applicant-files' as any, // Type assertion to bypass TypeScript check
+        },
+        {
+          name: 'outcome',
+          type: 'select',
+          options: [
+            {
+              label: 'Passed',
+              value: 'passed',
+            },
+            {
+              label: 'Flagged',
+              value: 'flagged',
+            },
+            {
+              label: 'Knocked out',
+              value: 'rejected',
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'dataUsageConsent',
+      type: 'checkbox',
+      defaultValue: false,
+      admin: {
+        description: 'Whether the applicant consented to us keeping their details',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'sessionId',
+      type: 'text',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'source',
+      type: 'text',
+      // UTM source
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'medium',
+      type: 'text',
+      // UTM medium
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'campaign',
+      type: 'text',
+      // UTM campaign
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'referrer',
+      type: 'text',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'event',
+      type: 'relationship',
+      relationTo: 'events',
+      admin: {
+        description: 'apply_completed event, which carries the ATS write-back',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'submittedAt',
+      type: 'date',
+      required: true,
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+  ],
+  timestamps: true,
+  indexes: [
+    {
+      fields: ['tenant', 'status'],
+    },
+    {
+      fields: ['job'],
+    },
+    {
+      fields: ['candidate'],
+    },
+    {
+      fields: ['tenant', 'email'],
+    },
+  ],
+}
+
+export default Applications
@@ -0,0 +1,156 @@
+import { CollectionConfig } from 'payload'
+
+// Define a custom type for authenticated users with tenant and role
+type AuthUser = {
+  id: number
+  role?: string
+  tenant?: string | number
+}
+
+/**
+ * Audit trail of candidate merges
+ * Each record keeps a snapshot of the candidate that was merged away and the field
+ * choices that were made. Syncs also use it to send updates for a merged ATS record to
+ * the candidate it was merged into.
+ */
+const CandidateMerges: CollectionConfig = {
+  slug: 'candidate-merges',
+  admin: {
+    useAsTitle: 'mergedEmail',
+    defaultColumns: ['mergedEmail', 'primary', 'mergedBy', 'createdAt'],
+    description: 'Candidates merged into another candidate, and what was kept',
+  },
+  access: {
+    // Merges are written by the merge tool via the local API and are never edited
+    read: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // Only admins can read merges, but still only from their tenant
+      if (typedUser.role === 'admin' && typedUser.tenant) {
+        return {
+          tenant: {
+            equals: typedUser.tenant,
+          },
+        }
+      }
+
+      return false
+    },
+    create: () => false,
+    update: () => false,
+    delete: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // Only admins can delete merges, but still only from their tenant
+      if (typedUser.role === 'admin' && typedUser.tenant) {
+        return {
+          tenant: {
+            equals: typedUser.tenant,
+          },
+        }
+      }
+
+      return false
+    },
+  },
+  fields: [
+    {
+      name: 'tenant',
+      type: 'relationship',
+      relationTo: 'tenants',
+      required: true,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'primary',
+      type: 'relationship',
+      relationTo: 'candidates',
+      required: true,
+      admin: {
+        description: 'Candidate that was kept',
+      },
+    },
+    {
+      name: 'mergedCandidateId',
+      type: 'text',
+      required: true,
+      admin: {
+        description: 'ID of the candidate that was merged away',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'mergedEmail',
+      type: 'email',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'mergedSource',
+      type: 'group',
+      fields: [
+        {
+          name: 'source',
+          type: 'text',
+        },
+        {
+          name: 'sourceId',
+          type: 'text',
+        },
+      ],
+      admin: {
+        description: 'ATS record of the merged candidate',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'choices',
+      type: 'json',
+      admin: {
+        description: 'Side kept for each conflicting field',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'conflicts',
+      type: 'json',
+      admin: {
+        description: 'Fields where the candidates disagreed, with both values',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'snapshot',
+      type: 'json',
+      admin: {
+        description: 'The merged candidate as it was before the merge',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'mergedBy',
+      type: 'relationship',
+      relationTo: 'users',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+  ],
+  timestamps: true,
+  indexes: [
+    {
+      fields: ['tenant'],
+    },
+    {
+      fields: ['mergedSource.sourceId'],
+    },
+  ],
+}
+
+export default CandidateMerges
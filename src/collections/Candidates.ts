@@ -1,4 +1,5 @@
 import { CollectionConfig } from 'payload'
+import { normalizeEmail } from '../plugins/ats/candidateIdentity'
 
 // Define a custom type for authenticated users with tenant and role
 type AuthUser = {
@@ -22,6 +23,13 @@ const Candidates: CollectionConfig = {
         }
         return data
       },
+      // Store emails in one form so the per-tenant unique index catches case differences
+      async ({ data }) => {
+        if (data && typeof data.email === 'string') {
+          data.email = normalizeEmail(data.email)
+        }
+        return data
+      },
     ],
   },
   access: {
@@ -93,7 +101,10 @@ const Candidates: CollectionConfig = {
       name: 'email',
       type: 'email',
       required: true,
-      unique: true,
+      admin: {
+        description:
+          'Unique within the tenant; the same person can be a candidate at other tenants',
+      },
     },
     {
       name: 'phone',
@@ -123,6 +134,14 @@ const Candidates: CollectionConfig = {
       name: 'resume',
       type: 'richText',
     },
+    {
+      name: 'resumeFile',
+      type: 'upload',
+      relationTo: 'applicant-files' as any, // Type assertion to bypass TypeScript check
+      admin: {
+        description: 'Latest resume the candidate uploaded to their account on the site',
+      },
+    },
     {
       name: 'skills',
       type: 'array',
@@ -423,7 +442,7 @@ const Candidates: CollectionConfig = {
           name: 'source',
           type: 'text',
           admin: {
-            description: 'ATS source identifier (e.g., "jobadder", "bullhorn")',
+            description: 'ATS source identifier (e.g., "jobadder", "bullhorn", "vincere")',
             readOnly: true,
           },
         },
@@ -468,6 +487,14 @@ const Candidates: CollectionConfig = {
             description: 'Bullhorn-specific data',
           },
         },
+        {
+          name: 'vincere',
+          type: 'json',
+          admin: {
+            readOnly: true,
+            description: 'Vincere-specific data',
+          },
+        },
       ],
       admin: {
         description: 'Data from the Applicant Tracking System',
@@ -789,17 +816,109 @@ const Candidates: CollectionConfig = {
         },
       ],
     },
+    {
+      name: 'atsEnrichmentWriteBack',
+      type: 'group',
+      admin: {
+        description:
+          'Progress of writing the enrichment summary back to JobAdder, for tenants that opted in',
+      },
+      fields: [
+        {
+          name: 'status',
+          type: 'select',
+          options: [
+            {
+              label: 'Pending',
+              value: 'pending',
+            },
+            {
+              label: 'Retrying',
+              value: 'retrying',
+            },
+            {
+              label: 'Synced',
+              value: 'synced',
+            },
+            {
+              label: 'Failed',
+              value: 'failed',
+            },
+          ],
+        },
+        {
+          name: 'attempts',
+          type: 'number',
+          defaultValue: 0,
+        },
+        {
+          name: 'nextAttemptAt',
+          type: 'date',
+          admin: {
+            date: {
+              pickerAppearance: 'dayAndTime',
+              timeFormat: 'HH:mm:ss',
+            },
+          },
+        },
+        {
+          name: 'syncedHash',
+          type: 'text',
+          admin: {
+            description:
+              'Fingerprint of the last summary written back, so unchanged ones are skipped',
+            readOnly: true,
+          },
+        },
+        {
+          name: 'noteHash',
+          type: 'text',
+          admin: {
+            description: 'Fingerprint of the summary last added as a note',
+            readOnly: true,
+          },
+        },
+        {
+          name: 'noteId',
+          type: 'text',
+          admin: {
+            readOnly: true,
+          },
+        },
+        {
+          name: 'syncedAt',
+          type: 'date',
+          admin: {
+            readOnly: true,
+          },
+        },
+        {
+          name: 'error',
+          type: 'text',
+          admin: {
+            readOnly: true,
+          },
+        },
+      ],
+    },
   ],
   indexes: [
     {
       fields: ['email'],
     },
+    {
+      fields: ['tenant', 'email'],
+      unique: true,
+    },
     {
       fields: ['atsData.sourceId'],
     },
     {
       fields: ['tenant'],
     },
+    {
+      fields: ['atsEnrichmentWriteBack.status'],
+    },
   ],
 }
 
@@ -0,0 +1,159 @@
+import { CollectionConfig } from 'payload'
+
+// Define a custom type for authenticated users with tenant and role
+type AuthUser = {
+  id: number
+  role?: string
+  tenant?: string | number
+}
+
+/**
+ * Consent to process their data that people gave, or refused, on our own forms
+ * Records are written when an application is tracked and are never edited, so a later
+ * answer is a new record. The ATS syncs use the latest verified record for a person when
+ * deciding whether they have consented, see plugins/ats/consent.ts.
+ */
+const ConsentRecords: CollectionConfig = {
+  slug: 'consent-records',
+  admin: {
+    useAsTitle: 'email',
+    defaultColumns: ['email', 'granted', 'verified', 'source', 'capturedAt'],
+    description: 'Consent captured on our apply forms',
+  },
+  access: {
+    read: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // All users (including admins) can only read consent records for their tenant
+      if (typedUser.tenant) {
+        return {
+          tenant: {
+            equals: typedUser.tenant,
+          },
+        }
+      }
+
+      return false
+    },
+    // Consent records are written via the local API and are never edited
+    create: () => false,
+    update: () => false,
+    delete: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // Only admins can delete consent records, but still only for their tenant
+      if (typedUser.role === 'admin' && typedUser.tenant) {
+        return {
+          tenant: {
+            equals: typedUser.tenant,
+          },
+        }
+      }
+
+      return false
+    },
+  },
+  fields: [
+    {
+      name: 'tenant',
+      type: 'relationship',
+      relationTo: 'tenants',
+      required: true,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'email',
+      type: 'email',
+      required: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'granted',
+      type: 'checkbox',
+      defaultValue: false,
+      admin: {
+        description: 'Whether the person consented to us processing their data',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'source',
+      type: 'select',
+      options: [
+        {
+          label: 'Apply form',
+          value: 'apply_form',
+        },
+        {
+          label: 'Job seeker account',
+          value: 'account',
+        },
+      ],
+      defaultValue: 'apply_form',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'verified',
+      type: 'checkbox',
+      defaultValue: false,
+      admin: {
+        description:
+          'Whether the person proved they own the email by signing in. Unverified answers, from the public apply form, are kept but never decide consent',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'statement',
+      type: 'textarea',
+      admin: {
+        description: 'Consent wording the person was shown',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'job',
+      type: 'relationship',
+      relationTo: 'jobs',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'event',
+      type: 'relationship',
+      relationTo: 'events',
+      admin: {
+        description: 'Tracked event the consent came with',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'capturedAt',
+      type: 'date',
+      required: true,
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+  ],
+  timestamps: true,
+  indexes: [
+    {
+      fields: ['tenant', 'email'],
+    },
+  ],
+}
+
+export default ConsentRecords
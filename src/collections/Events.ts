@@ -83,6 +83,14 @@ const Events: CollectionConfig = {
           label: 'Retarget Triggered',
           value: 'retarget_triggered',
         },
+        {
+          label: 'Job Alert Opened',
+          value: 'job_alert_opened',
+        },
+        {
+          label: 'Job Alert Clicked',
+          value: 'job_alert_clicked',
+        },
       ],
       required: true,
     },
@@ -96,7 +104,9 @@ const Events: CollectionConfig = {
       name: 'job',
       type: 'relationship',
       relationTo: 'jobs',
-      required: true,
+      // Not required as job alert opens are not about one job
+      validate: (value: unknown, { data }: { data?: { type?: string } }) =>
+        Boolean(value) || data?.type === 'job_alert_opened' || 'A job is required',
     },
     {
       name: 'user',
@@ -141,6 +151,133 @@ const Events: CollectionConfig = {
         description: 'Additional event-specific data',
       },
     },
+    {
+      name: 'application',
+      type: 'relationship',
+      relationTo: 'applications' as any, // Type assertion to bypass TypeScript check
+      admin: {
+        description: 'Application made through our apply flow, which is written back to the ATS',
+        condition: (data: { type?: string }) => data?.type === 'apply_completed',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'atsWriteBack',
+      type: 'group',
+      admin: {
+        description: 'Progress of writing this application back to the ATS',
+        condition: (data: { type?: string }) => data?.type === 'apply_completed',
+      },
+      fields: [
+        {
+          name: 'status',
+          type: 'select',
+          options: [
+            {
+              label: 'Pending',
+              value: 'pending',
+            },
+            {
+              label: 'Retrying',
+              value: 'retrying',
+            },
+            {
+              label: 'Synced',
+              value: 'synced',
+            },
+            {
+              label: 'Failed',
+              value: 'failed',
+            },
+          ],
+          admin: {
+            description: 'Empty when the job did not come from an ATS',
+          },
+        },
+        {
+          name: 'provider',
+          type: 'select',
+          options: [
+            {
+              label: 'JobAdder',
+              value: 'jobadder',
+            },
+            {
+              label: 'Vincere',
+              value: 'vincere',
+            },
+          ],
+          admin: {
+            description: 'ATS the application is written back to',
+          },
+        },
+        {
+          name: 'attempts',
+          type: 'number',
+          defaultValue: 0,
+        },
+        {
+          name: 'nextAttemptAt',
+          type: 'date',
+          admin: {
+            date: {
+              pickerAppearance: 'dayAndTime',
+              timeFormat: 'HH:mm:ss',
+            },
+          },
+        },
+        {
+          name: 'jobAdderCandidateId',
+          type: 'text',
+          admin: {
+            readOnly: true,
+          },
+        },
+        {
+          name: 'resumeUploaded',
+          type: 'checkbox',
+          defaultValue: false,
+          admin: {
+            readOnly: true,
+          },
+        },
+        {
+          name: 'jobAdderApplicationId',
+          type: 'text',
+          admin: {
+            readOnly: true,
+          },
+        },
+        {
+          name: 'vincereCandidateId',
+          type: 'text',
+          admin: {
+            readOnly: true,
+          },
+        },
+        {
+          name: 'vincereApplicationId',
+          type: 'text',
+          admin: {
+            readOnly: true,
+          },
+        },
+        {
+          name: 'syncedAt',
+          type: 'date',
+          admin: {
+            readOnly: true,
+          },
+        },
+        {
+          name: 'error',
+          type: 'textarea',
+          admin: {
+            readOnly: true,
+          },
+        },
+      ],
+    },
   ],
   indexes: [
     {
@@ -158,6 +295,9 @@ const Events: CollectionConfig = {
     {
       fields: ['tenant'],
     },
+    {
+      fields: ['atsWriteBack.status'],
+    },
   ],
 }
 
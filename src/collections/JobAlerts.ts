@@ -0,0 +1,210 @@
+import { CollectionConfig } from 'payload'
+
+// Define a custom type for authenticated users with tenant and role
+type AuthUser = {
+  id: number
+  role?: string
+  tenant?: string | number
+}
+
+/**
+ * Job seekers' saved searches, emailed to them as digests of new matching jobs
+ * Alerts are created by the job alerts API and only start sending once the email address
+ * is confirmed, see lib/jobAlerts.ts.
+ */
+const JobAlerts: CollectionConfig = {
+  slug: 'job-alerts',
+  admin: {
+    useAsTitle: 'email',
+    defaultColumns: ['email', 'frequency', 'status', 'lastSentAt', 'tenant'],
+    description: 'Saved searches job seekers get new jobs emailed for',
+  },
+  access: {
+    read: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // All users (including admins) can only read alerts for their tenant
+      if (typedUser.tenant) {
+        return {
+          tenant: {
+            equals: typedUser.tenant,
+          },
+        }
+      }
+
+      return false
+    },
+    // Alerts are created by the job alerts API via the local API
+    create: () => false,
+    update: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // Only admins can update alerts, but still only for their tenant
+      if (typedUser.role === 'admin' && typedUser.tenant) {
+        return {
+          tenant: {
+            equals: typedUser.tenant,
+          },
+        }
+      }
+
+      return false
+    },
+    delete: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // Only admins can delete alerts, but still only for their tenant
+      if (typedUser.role === 'admin' && typedUser.tenant) {
+        return {
+          tenant: {
+            equals: typedUser.tenant,
+          },
+        }
+      }
+
+      return false
+    },
+  },
+  fields: [
+    {
+      name: 'email',
+      type: 'email',
+      required: true,
+    },
+    {
+      name: 'criteria',
+      type: 'group',
+      admin: {
+        description: 'The saved search',
+      },
+      fields: [
+        {
+          name: 'query',
+          type: 'text',
+        },
+        {
+          name: 'sector',
+          type: 'relationship',
+          relationTo: 'sectors' as any, // Use type assertion to bypass TypeScript check
+        },
+        {
+          name: 'location',
+          type: 'text',
+        },
+        {
+          name: 'type',
+          type: 'select',
+          options: [
+            {
+              label: 'Full-time',
+              value: 'full-time',
+            },
+            {
+              label: 'Part-time',
+              value: 'part-time',
+            },
+            {
+              label: 'Contract',
+              value: 'contract',
+            },
+            {
+              label: 'Temporary',
+              value: 'temporary',
+            },
+          ],
+        },
+        {
+          name: 'minSalary',
+          type: 'number',
+        },
+      ],
+    },
+    {
+      name: 'frequency',
+      type: 'select',
+      options: [
+        {
+          label: 'Daily',
+          value: 'daily',
+        },
+        {
+          label: 'Weekly',
+          value: 'weekly',
+        },
+      ],
+      defaultValue: 'weekly',
+      required: true,
+    },
+    {
+      name: 'status',
+      type: 'select',
+      options: [
+        {
+          label: 'Awaiting confirmation',
+          value: 'pending',
+        },
+        {
+          label: 'Active',
+          value: 'active',
+        },
+        {
+          label: 'Unsubscribed',
+          value: 'unsubscribed',
+        },
+      ],
+      defaultValue: 'pending',
+      required: true,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'confirmedAt',
+      type: 'date',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'unsubscribedAt',
+      type: 'date',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'lastSentAt',
+      type: 'date',
+      admin: {
+        description: 'When the last digest was sent; the next one has jobs posted since',
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'tenant',
+      type: 'relationship',
+      relationTo: 'tenants',
+      required: true,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+  ],
+  timestamps: true,
+  indexes: [
+    {
+      fields: ['status', 'frequency'],
+    },
+    {
+      fields: ['tenant', 'email'],
+    },
+  ],
+}
+
+export default JobAlerts
@@ -0,0 +1,158 @@
+import { CollectionConfig } from 'payload'
+
+// Define a custom type for authenticated users with tenant and role
+type AuthUser = {
+  id: number
+  role?: string
+  tenant?: string | number
+}
+
+/**
+ * Job seekers' accounts on tenant sites, separate from the staff `users` who sign in to Payload
+ * Job seekers sign in with a link emailed to them rather than a password, see
+ * lib/jobSeekers.ts. Their profile is kept in step with the tenant's candidate record.
+ */
+const JobSeekers: CollectionConfig = {
+  slug: 'job-seekers',
+  admin: {
+    useAsTitle: 'email',
+    defaultColumns: ['email', 'firstName', 'lastName', 'candidate', 'lastLoginAt', 'tenant'],
+    description: 'Job seeker accounts on tenant sites',
+  },
+  access: {
+    read: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // All users (including admins) can only read job seekers for their tenant
+      if (typedUser.tenant) {
+        return {
+          tenant: {
+            equals: typedUser.tenant,
+          },
+        }
+      }
+
+      return false
+    },
+    // Accounts are created by the account API via the local API when a job seeker first signs in
+    create: () => false,
+    update: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // Only admins can update job seekers, but still only for their tenant
+      if (typedUser.role === 'admin' && typedUser.tenant) {
+        return {
+          tenant: {
+            equals: typedUser.tenant,
+          },
+        }
+      }
+
+      return false
+    },
+    delete: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // Only admins can delete job seekers, but still only for their tenant
+      if (typedUser.role === 'admin' && typedUser.tenant) {
+        return {
+          tenant: {
+            equals: typedUser.tenant,
+          },
+        }
+      }
+
+      return false
+    },
+  },
+  fields: [
+    {
+      name: 'email',
+      type: 'email',
+      required: true,
+    },
+    {
+      name: 'firstName',
+      type: 'text',
+    },
+    {
+      name: 'lastName',
+      type: 'text',
+    },
+    {
+      name: 'phone',
+      type: 'text',
+    },
+    {
+      name: 'location',
+      type: 'text',
+    },
+    {
+      name: 'resume',
+      type: 'upload',
+      relationTo: 'applicant-files' as any, // Type assertion to bypass TypeScript check
+    },
+    {
+      name: 'savedJobs',
+      type: 'relationship',
+      relationTo: 'jobs',
+      hasMany: true,
+    },
+    {
+      name: 'candidate',
+      type: 'relationship',
+      relationTo: 'candidates' as any, // Use type assertion to bypass TypeScript check
+      admin: {
+        description: "The tenant's candidate record profile changes are copied to",
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'loginLink',
+      type: 'group',
+      admin: {
+        hidden: true,
+      },
+      fields: [
+        {
+          name: 'tokenHash',
+          type: 'text',
+        },
+        {
+          name: 'expiresAt',
+          type: 'date',
+        },
+      ],
+    },
+    {
+      name: 'lastLoginAt',
+      type: 'date',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'tenant',
+      type: 'relationship',
+      relationTo: 'tenants',
+      required: true,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+  ],
+  timestamps: true,
+  indexes: [
+    {
+      fields: ['tenant', 'email'],
+      unique: true,
+    },
+  ],
+}
+
+export default JobSeekers
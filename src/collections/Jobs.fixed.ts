@@ -6,8 +6,7 @@ type AuthUser = {
   role?: string
   tenant?: string | number
 }
-import { jobAdderIntegration } from '../plugins/ats/integrations/jobAdder'
-import { bullhornIntegration } from '../plugins/ats/integrations/bullhorn'
+import { isAtsPushSkipped, pushJobToProviders } from '../plugins/ats'
 
 // Simple slugify function to avoid dependency
 const createSlug = (text: string): string => {
@@ -48,8 +47,8 @@ const Jobs: CollectionConfig = {
     ],
     afterChange: [
       async ({ doc, req }) => {
-        // Only sync published jobs
-        if (doc.status !== 'published') {
+        // Only sync published jobs, and never push back changes that came from an ATS sync
+        if (doc.status !== 'published' || isAtsPushSkipped(req.context)) {
           return
         }
 
@@ -63,22 +62,8 @@ const Jobs: CollectionConfig = {
           return
         }
 
-        // Sync with JobAdder if enabled
-        if (tenant.features?.jobAdder && tenant.atsConfig?.jobAdder) {
-          await jobAdderIntegration.syncJob(doc, {
-            clientId: tenant.atsConfig.jobAdder.clientId || '',
-            clientSecret: tenant.atsConfig.jobAdder.clientSecret || '',
-          })
-        }
-
-        // Sync with Bullhorn if enabled
-        if (tenant.features?.bullhorn && tenant.atsConfig?.bullhorn) {
-          await bullhornIntegration.syncJob(doc, {
-            apiKey: tenant.atsConfig.bullhorn.apiKey || '',
-            clientId: tenant.atsConfig.bullhorn.clientId || '',
-            clientSecret: tenant.atsConfig.bullhorn.clientSecret || '',
-          })
-        }
+        // Push to every ATS the tenant has connected
+        await pushJobToProviders(doc, tenant)
       },
     ],
   },
@@ -329,7 +314,7 @@ const Jobs: CollectionConfig = {
           name: 'source',
           type: 'text',
           admin: {
-            description: 'ATS source identifier (e.g., "jobadder", "bullhorn")',
+            description: 'ATS source identifier (e.g., "jobadder", "bullhorn", "vincere")',
             readOnly: true,
           },
         },
@@ -389,6 +374,14 @@ const Jobs: CollectionConfig = {
             description: 'Bullhorn-specific data',
           },
         },
+        {
+          name: 'vincere',
+          type: 'json',
+          admin: {
+            readOnly: true,
+            description: 'Vincere-specific data',
+          },
+        },
       ],
       admin: {
         description: 'Data from the Applicant Tracking System',
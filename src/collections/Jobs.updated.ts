@@ -6,8 +6,7 @@ type AuthUser = {
   role?: string
   tenant?: string | number
 }
-import { jobAdderIntegration } from '../plugins/ats/integrations/jobAdder'
-import { bullhornIntegration } from '../plugins/ats/integrations/bullhorn'
+import { isAtsPushSkipped, pushJobToProviders } from '../plugins/ats'
 
 const Jobs: CollectionConfig = {
   slug: 'jobs',
@@ -36,8 +35,8 @@ const Jobs: CollectionConfig = {
     ],
     afterChange: [
       async ({ doc, req }) => {
-        // Only sync published jobs
-        if (doc.status !== 'published') {
+        // Only sync published jobs, and never push back changes that came from an ATS sync
+        if (doc.status !== 'published' || isAtsPushSkipped(req.context)) {
           return
         }
 
@@ -51,22 +50,8 @@ const Jobs: CollectionConfig = {
           return
         }
 
-        // Sync with JobAdder if enabled
-        if (tenant.features?.jobAdder && tenant.atsConfig?.jobAdder) {
-          await jobAdderIntegration.syncJob(doc, {
-            clientId: tenant.atsConfig.jobAdder.clientId,
-            clientSecret: tenant.atsConfig.jobAdder.clientSecret,
-          })
-        }
-
-        // Sync with Bullhorn if enabled
-        if (tenant.features?.bullhorn && tenant.atsConfig?.bullhorn) {
-          await bullhornIntegration.syncJob(doc, {
-            apiKey: tenant.atsConfig.bullhorn.apiKey,
-            clientId: tenant.atsConfig.bullhorn.clientId,
-            clientSecret: tenant.atsConfig.bullhorn.clientSecret,
-          })
-        }
+        // Push to every ATS the tenant has connected
+        await pushJobToProviders(doc, tenant)
       },
     ],
   },
@@ -314,7 +299,7 @@ const Jobs: CollectionConfig = {
           name: 'source',
           type: 'text',
           admin: {
-            description: 'ATS source identifier (e.g., "jobadder", "bullhorn")',
+            description: 'ATS source identifier (e.g., "jobadder", "bullhorn", "vincere")',
             readOnly: true,
           },
         },
@@ -374,6 +359,14 @@ const Jobs: CollectionConfig = {
             description: 'Bullhorn-specific data',
           },
         },
+        {
+          name: 'vincere',
+          type: 'json',
+          admin: {
+            readOnly: true,
+            description: 'Vincere-specific data',
+          },
+        },
       ],
       admin: {
         description: 'Data from the Applicant Tracking System',
@@ -0,0 +1,303 @@
+import { CollectionConfig } from 'payload'
+
+// Define a custom type for authenticated users with tenant and role
+type AuthUser = {
+  id: number
+  role?: string
+  tenant?: string | number
+}
+
+/**
+ * Candidates placed into jobs, as recorded in the ATS
+ * Placements are written by the ATS syncs and webhooks and are the source for
+ * time-to-fill and source-of-hire analytics.
+ */
+const Placements: CollectionConfig = {
+  slug: 'placements',
+  admin: {
+    useAsTitle: 'jobTitle',
+    defaultColumns: ['jobTitle', 'employer', 'candidate', 'startDate', 'status', 'timeToFillDays'],
+    description: 'Candidates placed into jobs, synced from the ATS',
+  },
+  access: {
+    read: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // All users (including admins) can only read placements for their tenant
+      if (typedUser.tenant) {
+        return {
+          tenant: {
+            equals: typedUser.tenant,
+          },
+        }
+      }
+
+      return false
+    },
+    // Placements are written by the ATS integrations via the local API
+    create: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // Only admins can create placements, and only for their tenant
+      return typedUser.role === 'admin' && Boolean(typedUser.tenant)
+    },
+    update: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // Only admins can update placements, but still only for their tenant
+      if (typedUser.role === 'admin' && typedUser.tenant) {
+        return {
+          tenant: {
+            equals: typedUser.tenant,
+          },
+        }
+      }
+
+      return false
+    },
+    delete: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // Only admins can delete placements, but still only for their tenant
+      if (typedUser.role === 'admin' && typedUser.tenant) {
+        return {
+          tenant: {
+            equals: typedUser.tenant,
+          },
+        }
+      }
+
+      return false
+    },
+  },
+  fields: [
+    {
+      name: 'jobTitle',
+      type: 'text',
+      required: true,
+    },
+    {
+      name: 'employer',
+      type: 'text',
+    },
+    {
+      name: 'tenant',
+      type: 'relationship',
+      relationTo: 'tenants',
+      required: true,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'job',
+      type: 'relationship',
+      relationTo: 'jobs',
+      admin: {
+        description: 'Our job, when the placement is for a job synced from the ATS',
+      },
+    },
+    {
+      name: 'candidate',
+      type: 'relationship',
+      relationTo: 'candidates',
+      admin: {
+        description: 'Our candidate, when the placed candidate has been synced from the ATS',
+      },
+    },
+    {
+      name: 'status',
+      type: 'select',
+      options: [
+        {
+          label: 'Active',
+          value: 'active',
+        },
+        {
+          label: 'Completed',
+          value: 'completed',
+        },
+        {
+          label: 'Cancelled',
+          value: 'cancelled',
+        },
+      ],
+      defaultValue: 'active',
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'placedAt',
+      type: 'date',
+      admin: {
+        description: 'When the placement was made in the ATS',
+        date: {
+          pickerAppearance: 'dayAndTime',
+          timeFormat: 'HH:mm',
+        },
+      },
+    },
+    {
+      name: 'startDate',
+      type: 'date',
+      required: true,
+    },
+    {
+      name: 'endDate',
+      type: 'date',
+    },
+    {
+      name: 'salary',
+      type: 'group',
+      fields: [
+        {
+          name: 'amount',
+          type: 'number',
+        },
+        {
+          name: 'currency',
+          type: 'text',
+        },
+        {
+          name: 'period',
+          type: 'select',
+          options: [
+            {
+              label: 'Annual',
+              value: 'annual',
+            },
+            {
+              label: 'Hourly',
+              value: 'hourly',
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'fee',
+      type: 'group',
+      fields: [
+        {
+          name: 'amount',
+          type: 'number',
+        },
+        {
+          name: 'currency',
+          type: 'text',
+        },
+      ],
+      admin: {
+        description: 'Placement fee charged to the client',
+      },
+    },
+    {
+      name: 'sourceOfHire',
+      type: 'text',
+      admin: {
+        description: 'Where the placed candidate came from, as recorded in the ATS',
+      },
+    },
+    {
+      name: 'consultant',
+      type: 'group',
+      fields: [
+        {
+          name: 'name',
+          type: 'text',
+        },
+        {
+          name: 'email',
+          type: 'email',
+        },
+        {
+          name: 'atsId',
+          type: 'text',
+          admin: {
+            description: 'User ID in the ATS',
+          },
+        },
+      ],
+      admin: {
+        description: 'Consultant who made the placement',
+      },
+    },
+    {
+      name: 'timeToFillDays',
+      type: 'number',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        description: 'Days from the job opening to the placement',
+      },
+    },
+    {
+      name: 'atsData',
+      type: 'group',
+      fields: [
+        {
+          name: 'source',
+          type: 'text',
+          admin: {
+            description: 'ATS source identifier (e.g., "jobadder", "bullhorn", "vincere")',
+            readOnly: true,
+          },
+        },
+        {
+          name: 'sourceId',
+          type: 'text',
+          admin: {
+            description: 'ID in the source ATS system',
+            readOnly: true,
+          },
+        },
+        {
+          name: 'jobId',
+          type: 'text',
+          admin: {
+            description: 'Job ID in the source ATS system',
+            readOnly: true,
+          },
+        },
+        {
+          name: 'candidateId',
+          type: 'text',
+          admin: {
+            description: 'Candidate ID in the source ATS system',
+            readOnly: true,
+          },
+        },
+        {
+          name: 'lastSynced',
+          type: 'date',
+          admin: {
+            description: 'When this placement was last synced with the ATS',
+            readOnly: true,
+          },
+        },
+      ],
+      admin: {
+        description: 'Data from the Applicant Tracking System',
+      },
+    },
+  ],
+  timestamps: true,
+  indexes: [
+    {
+      fields: ['tenant'],
+    },
+    {
+      fields: ['atsData.sourceId'],
+    },
+    {
+      fields: ['placedAt'],
+    },
+  ],
+}
+
+export default Placements
@@ -0,0 +1,257 @@
+import { CollectionConfig } from 'payload'
+
+// Define a custom type for authenticated users with tenant and role
+type AuthUser = {
+  id: number
+  role?: string
+  tenant?: string | number
+}
+
+const CHOICE_TYPES = ['single_choice', 'multi_choice']
+
+/**
+ * Tenant's bank of screening questions, asked on the apply form of the jobs they're added to
+ * Knockout rules reject or flag applicants on their answer, see lib/screening.ts. Questions
+ * imported from an ATS keep its ID in `atsData`, so importing again updates them.
+ */
+const ScreeningQuestions: CollectionConfig = {
+  slug: 'screening-questions',
+  admin: {
+    useAsTitle: 'question',
+    defaultColumns: ['question', 'type', 'tenant'],
+    description: 'Questions applicants answer when applying for a job',
+  },
+  access: {
+    read: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // All users (including admins) can only read their tenant's questions
+      if (typedUser.tenant) {
+        return {
+          tenant: {
+            equals: typedUser.tenant,
+          },
+        }
+      }
+
+      return false
+    },
+    create: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // All users can only create questions for their tenant
+      return Boolean(typedUser.tenant)
+    },
+    update: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // All users (including admins) can only update their tenant's questions
+      if (typedUser.tenant) {
+        return {
+          tenant: {
+            equals: typedUser.tenant,
+          },
+        }
+      }
+
+      return false
+    },
+    delete: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // All users (including admins) can only delete their tenant's questions
+      if (typedUser.tenant) {
+        return {
+          tenant: {
+            equals: typedUser.tenant,
+          },
+        }
+      }
+
+      return false
+    },
+  },
+  fields: [
+    {
+      name: 'question',
+      type: 'text',
+      required: true,
+    },
+    {
+      name: 'helpText',
+      type: 'textarea',
+      admin: {
+        description: 'Shown under the question on the apply form',
+      },
+    },
+    {
+      name: 'type',
+      type: 'select',
+      options: [
+        {
+          label: 'Yes / No',
+          value: 'yes_no',
+        },
+        {
+          label: 'Single choice',
+          value: 'single_choice',
+        },
+        {
+          label: 'Multiple choice',
+          value: 'multi_choice',
+        },
+        {
+          label: 'Number',
+          value: 'number',
+        },
+        {
+          label: 'Text',
+          value: 'text',
+        },
+        {
+          label: 'File',
+          value: 'file',
+        },
+      ],
+      defaultValue: 'yes_no',
+      required: true,
+    },
+    {
+      name: 'options',
+      type: 'array',
+      admin: {
+        condition: (data) => CHOICE_TYPES.includes(data?.type),
+      },
+      fields: [
+        {
+          name: 'label',
+          type: 'text',
+          required: true,
+        },
+        {
+          name: 'knockout',
+          type: 'checkbox',
+          defaultValue: false,
+          admin: {
+            description: 'Knock out applicants who choose this option',
+          },
+        },
+      ],
+    },
+    {
+      name: 'knockout',
+      type: 'group',
+      admin: {
+        description: 'What happens to applicants whose answer fails the rule below',
+      },
+      fields: [
+        {
+          name: 'enabled',
+          type: 'checkbox',
+          defaultValue: false,
+        },
+        {
+          name: 'action',
+          type: 'select',
+          options: [
+            {
+              label: 'Flag for review',
+              value: 'flag',
+            },
+            {
+              label: 'Reject automatically',
+              value: 'reject',
+            },
+          ],
+          defaultValue: 'flag',
+          required: true,
+          admin: {
+            condition: (_, siblingData) => Boolean(siblingData?.enabled),
+          },
+        },
+        {
+          name: 'yesNoAnswer',
+          type: 'select',
+          options: [
+            {
+              label: 'Yes',
+              value: 'yes',
+            },
+            {
+              label: 'No',
+              value: 'no',
+            },
+          ],
+          admin: {
+            description: 'Knock out applicants who answer',
+            condition: (data, siblingData) => siblingData?.enabled && data?.type === 'yes_no',
+          },
+        },
+        {
+          name: 'min',
+          type: 'number',
+          admin: {
+            description: 'Knock out applicants who answer less than this',
+            condition: (data, siblingData) => siblingData?.enabled && data?.type === 'number',
+          },
+        },
+        {
+          name: 'max',
+          type: 'number',
+          admin: {
+            description: 'Knock out applicants who answer more than this',
+            condition: (data, siblingData) => siblingData?.enabled && data?.type === 'number',
+          },
+        },
+      ],
+    },
+    {
+      name: 'tenant',
+      type: 'relationship',
+      relationTo: 'tenants',
+      required: true,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'atsData',
+      type: 'group',
+      admin: {
+        description: 'The ATS question this was imported from',
+        position: 'sidebar',
+      },
+      fields: [
+        {
+          name: 'source',
+          type: 'text',
+          admin: {
+            readOnly: true,
+          },
+        },
+        {
+          name: 'sourceId',
+          type: 'text',
+          admin: {
+            readOnly: true,
+          },
+        },
+      ],
+    },
+  ],
+  timestamps: true,
+  indexes: [
+    {
+      fields: ['tenant'],
+    },
+    {
+      fields: ['tenant', 'atsData.source', 'atsData.sourceId'],
+    },
+  ],
+}
+
+export default ScreeningQuestions
@@ -0,0 +1,313 @@
+import { CollectionConfig } from 'payload'
+
+// Define a custom type for authenticated users with tenant and role
+type AuthUser = {
+  id: number
+  role?: string
+  tenant?: string | number
+}
+
+/**
+ * Ledger of ATS sync runs
+ * Each document records one job or candidate sync for a tenant, its totals and
+ * the outcome of every item processed. Runs are written by the sync code via the
+ * local API, so staff only ever read them.
+ */
+const SyncRuns: CollectionConfig = {
+  slug: 'sync-runs',
+  admin: {
+    useAsTitle: 'type',
+    defaultColumns: ['type', 'tenant', 'provider', 'mode', 'status', 'startedAt'],
+    description: 'History of ATS sync runs and their per-item outcomes',
+  },
+  access: {
+    read: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // All users (including admins) can only read sync runs for their tenant
+      if (typedUser.tenant) {
+        return {
+          tenant: {
+            equals: typedUser.tenant,
+          },
+        }
+      }
+
+      return false
+    },
+    create: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // Only admins can create sync runs, and only for their tenant
+      return typedUser.role === 'admin' && Boolean(typedUser.tenant)
+    },
+    update: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // Only admins can update sync runs, but still only for their tenant
+      if (typedUser.role === 'admin' && typedUser.tenant) {
+        return {
+          tenant: {
+            equals: typedUser.tenant,
+          },
+        }
+      }
+
+      return false
+    },
+    delete: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // Only admins can delete sync runs, but still only for their tenant
+      if (typedUser.role === 'admin' && typedUser.tenant) {
+        return {
+          tenant: {
+            equals: typedUser.tenant,
+          },
+        }
+      }
+
+      return false
+    },
+  },
+  fields: [
+    {
+      name: 'tenant',
+      type: 'relationship',
+      relationTo: 'tenants',
+      required: true,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'provider',
+      type: 'select',
+      options: [
+        {
+          label: 'JobAdder',
+          value: 'jobadder',
+        },
+        {
+          label: 'Bullhorn',
+          value: 'bullhorn',
+        },
+        {
+          label: 'Vincere',
+          value: 'vincere',
+        },
+        {
+          label: 'Sandbox',
+          value: 'sandbox',
+        },
+      ],
+      required: true,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'type',
+      type: 'select',
+      options: [
+        {
+          label: 'Jobs',
+          value: 'jobs',
+        },
+        {
+          label: 'Candidates',
+          value: 'candidates',
+        },
+      ],
+      required: true,
+    },
+    {
+      name: 'mode',
+      type: 'select',
+      options: [
+        {
+          label: 'Full',
+          value: 'full',
+        },
+        {
+          label: 'Incremental',
+          value: 'incremental',
+        },
+      ],
+      required: true,
+      admin: {
+        description:
+          'Full runs fetch every record, incremental runs only changes since a watermark',
+      },
+    },
+    {
+      name: 'trigger',
+      type: 'select',
+      options: [
+        {
+          label: 'Initial',
+          value: 'initial',
+        },
+        {
+          label: 'Scheduled',
+          value: 'scheduled',
+        },
+        {
+          label: 'Manual',
+          value: 'manual',
+        },
+      ],
+      defaultValue: 'manual',
+    },
+    {
+      name: 'status',
+      type: 'select',
+      options: [
+        {
+          label: 'Running',
+          value: 'running',
+        },
+        {
+          label: 'Succeeded',
+          value: 'succeeded',
+        },
+        {
+          label: 'Partially Failed',
+          value: 'partial',
+        },
+        {
+          label: 'Failed',
+          value: 'failed',
+        },
+      ],
+      defaultValue: 'running',
+      required: true,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'startedAt',
+      type: 'date',
+      required: true,
+      admin: {
+        position: 'sidebar',
+        date: {
+          pickerAppearance: 'dayAndTime',
+          timeFormat: 'HH:mm:ss',
+        },
+      },
+    },
+    {
+      name: 'finishedAt',
+      type: 'date',
+      admin: {
+        position: 'sidebar',
+        date: {
+          pickerAppearance: 'dayAndTime',
+          timeFormat: 'HH:mm:ss',
+        },
+      },
+    },
+    {
+      name: 'options',
+      type: 'json',
+      admin: {
+        description: 'Options the sync was run with (e.g. updatedSince)',
+      },
+    },
+    {
+      name: 'stats',
+      type: 'json',
+      admin: {
+        description: 'Totals reported by the sync (SyncStats / CandidateSyncStats)',
+      },
+    },
+    {
+      name: 'error',
+      type: 'textarea',
+      admin: {
+        description: 'Why the run failed, if it did not complete',
+      },
+    },
+    {
+      name: 'items',
+      type: 'array',
+      admin: {
+        description: 'Outcome of each record processed in this run',
+      },
+      fields: [
+        {
+          name: 'externalId',
+          type: 'text',
+          required: true,
+          admin: {
+            description: 'ID in the source ATS system',
+          },
+        },
+        {
+          name: 'localId',
+          type: 'text',
+          admin: {
+            description: 'ID of the created or updated record',
+          },
+        },
+        {
+          name: 'outcome',
+          type: 'select',
+          options: [
+            {
+              label: 'Created',
+              value: 'created',
+            },
+            {
+              label: 'Updated',
+              value: 'updated',
+            },
+            {
+              label: 'Skipped',
+              value: 'skipped',
+            },
+            {
+              label: 'Closed',
+              value: 'closed',
+            },
+            {
+              label: 'Archived',
+              value: 'archived',
+            },
+            {
+              label: 'Errored',
+              value: 'errored',
+            },
+          ],
+          required: true,
+        },
+        {
+          name: 'message',
+          type: 'text',
+          admin: {
+            description: 'Error message or reason the item was skipped',
+          },
+        },
+      ],
+    },
+  ],
+  indexes: [
+    {
+      fields: ['tenant'],
+    },
+    {
+      fields: ['status'],
+    },
+    {
+      fields: ['startedAt'],
+    },
+  ],
+}
+
+export default SyncRuns
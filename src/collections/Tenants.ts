@@ -1,12 +1,125 @@
-import { CollectionConfig } from 'payload'
+import { CollectionConfig, Field } from 'payload'
 import { User } from '../payload-types'
 import Stripe from 'stripe'
+import { encryptedFieldHooks } from '../plugins/ats/credentials'
+import {
+  FIELD_MAPPING_TARGETS,
+  FieldMappingRecordType,
+  isFieldMappingTarget,
+} from '../plugins/ats/fieldMapping'
 
 const stripeSecretKey = process.env.STRIPE_SECRET_KEY
 const stripe = stripeSecretKey
   ? new Stripe(stripeSecretKey, { apiVersion: '2025-04-30.basil' })
   : undefined
 
+// Rules applied on top of an ATS integration's default mapping, see plugins/ats/fieldMapping.ts
+const fieldMappingRules = (name: FieldMappingRecordType, description: string): Field => ({
+  name,
+  type: 'array',
+  admin: {
+    description,
+  },
+  fields: [
+    {
+      name: 'target',
+      type: 'text',
+      required: true,
+      validate: (value: string | null | undefined) =>
+        (value && isFieldMappingTarget(name, value)) ||
+        `Target must be one of ${FIELD_MAPPING_TARGETS[name].join(', ')}`,
+      admin: {
+        description: 'Field on our record, e.g. "sector" or "salary.min"',
+      },
+    },
+    {
+      name: 'source',
+      type: 'text',
+      admin: {
+        description: 'Field on the ATS record, e.g. "category.name" or "customFields.Sector"',
+      },
+    },
+    {
+      name: 'expression',
+      type: 'text',
+      admin: {
+        description:
+          'Template used instead of the source field, e.g. "{{location.city}} ({{location.state}})"',
+      },
+    },
+    {
+      name: 'pattern',
+      type: 'text',
+      validate: (value: string | null | undefined) => {
+        if (!value) return true
+        try {
+          new RegExp(value)
+          return true
+        } catch {
+          return 'Pattern must be a valid regular expression'
+        }
+      },
+      admin: {
+        description:
+          'Regular expression applied to the value; the first capture group is kept, e.g. "\\$([\\d,]+)"',
+      },
+    },
+    {
+      name: 'valueMap',
+      type: 'array',
+      fields: [
+        {
+          name: 'from',
+          type: 'text',
+          required: true,
+        },
+        {
+          name: 'to',
+          type: 'text',
+          required: true,
+        },
+      ],
+      admin: {
+        description: 'Translate ATS values to ours; values not listed are kept as they are',
+      },
+    },
+    {
+      name: 'defaultValue',
+      type: 'text',
+      admin: {
+        description: 'Used when the ATS record has no value',
+      },
+    },
+    {
+      name: 'valueType',
+      type: 'select',
+      options: [
+        {
+          label: 'Text',
+          value: 'text',
+        },
+        {
+          label: 'Number',
+          value: 'number',
+        },
+        {
+          label: 'Yes/No',
+          value: 'boolean',
+        },
+        {
+          label: 'List',
+          value: 'list',
+        },
+        {
+          label: 'Sector (by name)',
+          value: 'sector',
+        },
+      ],
+      defaultValue: 'text',
+    },
+  ],
+})
+
 const Tenants: CollectionConfig = {
   slug: 'tenants',
   admin: {
@@ -211,6 +324,22 @@ const Tenants: CollectionConfig = {
           label: 'Bullhorn Integration',
           defaultValue: false,
         },
+        {
+          name: 'vincere',
+          type: 'checkbox',
+          label: 'Vincere Integration',
+          defaultValue: false,
+        },
+        {
+          name: 'atsSandbox',
+          type: 'checkbox',
+          label: 'Sandbox ATS (demo data)',
+          defaultValue: false,
+          admin: {
+            description:
+              'Fill the board from a built-in ATS with synthetic jobs and candidates, for demo and trial tenants',
+          },
+        },
         {
           name: 'advancedAnalytics',
           type: 'checkbox',
@@ -241,6 +370,32 @@ const Tenants: CollectionConfig = {
       name: 'atsConfig',
       type: 'group',
       fields: [
+        {
+          // Pending OAuth flow, see plugins/ats/oauthState.ts
+          name: 'oauthState',
+          type: 'group',
+          access: {
+            read: () => false,
+            update: () => false,
+          },
+          admin: {
+            hidden: true,
+          },
+          fields: [
+            {
+              name: 'provider',
+              type: 'text',
+            },
+            {
+              name: 'nonceHash',
+              type: 'text',
+            },
+            {
+              name: 'expiresAt',
+              type: 'date',
+            },
+          ],
+        },
         {
           name: 'jobAdder',
           type: 'group',
@@ -256,10 +411,15 @@ const Tenants: CollectionConfig = {
             {
               name: 'clientSecret',
               type: 'text',
+              hooks: encryptedFieldHooks('atsConfig.jobAdder.clientSecret'),
+              admin: {
+                description: 'Stored encrypted. Enter a new value to replace it',
+              },
             },
             {
               name: 'accessToken',
               type: 'text',
+              hooks: encryptedFieldHooks('atsConfig.jobAdder.accessToken'),
               admin: {
                 readOnly: true,
                 description: 'OAuth access token (managed automatically)',
@@ -268,6 +428,7 @@ const Tenants: CollectionConfig = {
             {
               name: 'refreshToken',
               type: 'text',
+              hooks: encryptedFieldHooks('atsConfig.jobAdder.refreshToken'),
               admin: {
                 readOnly: true,
                 description: 'OAuth refresh token (managed automatically)',
@@ -281,6 +442,209 @@ const Tenants: CollectionConfig = {
                 description: 'OAuth token expiry date (managed automatically)',
               },
             },
+            {
+              name: 'scopes',
+              type: 'text',
+              admin: {
+                readOnly: true,
+                description:
+                  'OAuth scopes granted when the tenant connected (managed automatically)',
+              },
+            },
+            {
+              name: 'lastRefreshError',
+              type: 'text',
+              admin: {
+                readOnly: true,
+                description:
+                  'Why the last token refresh failed, cleared by the next successful refresh (managed automatically)',
+              },
+            },
+            {
+              name: 'lastRefreshErrorAt',
+              type: 'date',
+              admin: {
+                readOnly: true,
+              },
+            },
+            {
+              // Webhook signing secrets, see plugins/ats/integrations/jobAdder/webhookSecrets.ts
+              name: 'webhookSecret',
+              type: 'text',
+              hooks: encryptedFieldHooks('atsConfig.jobAdder.webhookSecret'),
+              admin: {
+                readOnly: true,
+                description:
+                  'Secret JobAdder signs webhooks for this tenant with. Rotate it from the ATS health dashboard (managed automatically)',
+              },
+            },
+            {
+              name: 'previousWebhookSecret',
+              type: 'text',
+              hooks: encryptedFieldHooks('atsConfig.jobAdder.previousWebhookSecret'),
+              admin: {
+                readOnly: true,
+                description:
+                  'Secret replaced by the last rotation, still accepted until the grace period ends (managed automatically)',
+              },
+            },
+            {
+              name: 'previousWebhookSecretExpiresAt',
+              type: 'date',
+              admin: {
+                readOnly: true,
+              },
+            },
+            {
+              name: 'webhookSecretRotatedAt',
+              type: 'date',
+              admin: {
+                readOnly: true,
+              },
+            },
+            {
+              name: 'lastJobSync',
+              type: 'date',
+              admin: {
+                readOnly: true,
+                description:
+                  'Start time of the last successful job sync, used as the incremental sync watermark (managed automatically)',
+              },
+            },
+            {
+              name: 'removedJobPolicy',
+              type: 'select',
+              options: [
+                {
+                  label: 'Close',
+                  value: 'close',
+                },
+                {
+                  label: 'Archive',
+                  value: 'archive',
+                },
+                {
+                  label: 'Ignore',
+                  value: 'ignore',
+                },
+              ],
+              defaultValue: 'close',
+              admin: {
+                description:
+                  'What a full sync does with published jobs that are no longer open in JobAdder',
+              },
+            },
+            {
+              name: 'fieldMapping',
+              type: 'group',
+              admin: {
+                description:
+                  'Adjust how JobAdder records map onto ours. Preview changes with /api/ats/mapping/preview',
+              },
+              fields: [
+                fieldMappingRules('jobs', 'Rules applied to synced jobs, in order'),
+                fieldMappingRules('candidates', 'Rules applied to synced candidates, in order'),
+              ],
+            },
+            {
+              name: 'consent',
+              type: 'group',
+              admin: {
+                description:
+                  'Where JobAdder records candidate consent. Candidates who refused are not synced, and only those who consented are enriched',
+              },
+              fields: [
+                {
+                  name: 'customField',
+                  type: 'text',
+                  admin: {
+                    description:
+                      'JobAdder custom field holding consent, e.g. "GDPR Consent". Yes/No, True/False and Opted in/Opted out are understood',
+                  },
+                },
+                {
+                  name: 'withdrawnStatuses',
+                  type: 'select',
+                  hasMany: true,
+                  options: [
+                    {
+                      label: 'Active',
+                      value: 'active',
+                    },
+                    {
+                      label: 'Inactive',
+                      value: 'inactive',
+                    },
+                    {
+                      label: 'Placed',
+                      value: 'placed',
+                    },
+                  ],
+                  admin: {
+                    description: 'JobAdder candidate statuses that mean consent was withdrawn',
+                  },
+                },
+              ],
+            },
+            {
+              name: 'enrichmentWriteBack',
+              type: 'group',
+              admin: {
+                description:
+                  "Write each candidate's talent score, tier, top skills and a link to their profile back to JobAdder when enrichment finishes",
+              },
+              fields: [
+                {
+                  name: 'enabled',
+                  type: 'checkbox',
+                  defaultValue: false,
+                },
+                {
+                  name: 'addNote',
+                  type: 'checkbox',
+                  defaultValue: true,
+                  admin: {
+                    description: 'Add the summary to the candidate as a note whenever it changes',
+                  },
+                },
+                {
+                  name: 'noteType',
+                  type: 'text',
+                  defaultValue: 'General',
+                  admin: {
+                    description: 'JobAdder note type used for the summary',
+                    condition: (_: unknown, siblingData: { addNote?: boolean }) =>
+                      Boolean(siblingData?.addNote),
+                  },
+                },
+                {
+                  name: 'customFields',
+                  type: 'group',
+                  admin: {
+                    description:
+                      'JobAdder candidate custom field IDs to write the summary to; leave blank to skip a field',
+                  },
+                  fields: [
+                    {
+                      name: 'score',
+                      type: 'number',
+                    },
+                    {
+                      name: 'tier',
+                      type: 'number',
+                    },
+                    {
+                      name: 'topSkills',
+                      type: 'number',
+                    },
+                    {
+                      name: 'profileUrl',
+                      type: 'number',
+                    },
+                  ],
+                },
+              ],
+            },
           ],
         },
         {
@@ -292,15 +656,247 @@ const Tenants: CollectionConfig = {
           },
           fields: [
             {
-              name: 'apiKey',
+              name: 'clientId',
               type: 'text',
             },
             {
-              name: 'clientId',
+              name: 'clientSecret',
               type: 'text',
+              hooks: encryptedFieldHooks('atsConfig.bullhorn.clientSecret'),
+              admin: {
+                description: 'Stored encrypted. Enter a new value to replace it',
+              },
             },
             {
-              name: 'clientSecret',
+              name: 'accessToken',
+              type: 'text',
+              hooks: encryptedFieldHooks('atsConfig.bullhorn.accessToken'),
+              admin: {
+                readOnly: true,
+                description: 'OAuth access token (managed automatically)',
+              },
+            },
+            {
+              name: 'refreshToken',
+              type: 'text',
+              hooks: encryptedFieldHooks('atsConfig.bullhorn.refreshToken'),
+              admin: {
+                readOnly: true,
+                description: 'OAuth refresh token (managed automatically)',
+              },
+            },
+            {
+              name: 'tokenExpiry',
+              type: 'date',
+              admin: {
+                readOnly: true,
+                description: 'OAuth token expiry date (managed automatically)',
+              },
+            },
+            {
+              name: 'restUrl',
+              type: 'text',
+              admin: {
+                readOnly: true,
+                description:
+                  "REST API URL for the tenant's Bullhorn data centre (managed automatically)",
+              },
+            },
+            {
+              name: 'restToken',
+              type: 'text',
+              hooks: encryptedFieldHooks('atsConfig.bullhorn.restToken'),
+              admin: {
+                readOnly: true,
+                description: 'REST session token (managed automatically)',
+              },
+            },
+            {
+              name: 'subscriptionId',
+              type: 'text',
+              admin: {
+                readOnly: true,
+                description: 'Event subscription polled for job order and candidate changes',
+              },
+            },
+            {
+              name: 'lastJobSync',
+              type: 'date',
+              admin: {
+                readOnly: true,
+                description:
+                  'Start time of the last successful job order sync, used as the incremental sync watermark (managed automatically)',
+              },
+            },
+            {
+              name: 'lastCandidateSync',
+              type: 'date',
+              admin: {
+                readOnly: true,
+                description:
+                  'Start time of the last successful candidate sync, used as the incremental sync watermark (managed automatically)',
+              },
+            },
+          ],
+        },
+        {
+          name: 'vincere',
+          type: 'group',
+          admin: {
+            condition: (data: { features?: { vincere?: boolean } }) =>
+              Boolean(data?.features?.vincere),
+          },
+          fields: [
+            {
+              name: 'domain',
+              type: 'text',
+              admin: {
+                description: "The tenant's Vincere domain, e.g. acme.vincere.io",
+              },
+            },
+            {
+              name: 'idToken',
+              type: 'text',
+              hooks: encryptedFieldHooks('atsConfig.vincere.idToken'),
+              admin: {
+                readOnly: true,
+                description: 'OAuth ID token (managed automatically)',
+              },
+            },
+            {
+              name: 'refreshToken',
+              type: 'text',
+              hooks: encryptedFieldHooks('atsConfig.vincere.refreshToken'),
+              admin: {
+                readOnly: true,
+                description: 'OAuth refresh token (managed automatically)',
+              },
+            },
+            {
+              name: 'tokenExpiry',
+              type: 'date',
+              admin: {
+                readOnly: true,
+                description: 'OAuth token expiry date (managed automatically)',
+              },
+            },
+            {
+              name: 'lastJobSync',
+              type: 'date',
+              admin: {
+                readOnly: true,
+                description:
+                  'Start time of the last successful position sync, used as the incremental sync watermark (managed automatically)',
+              },
+            },
+            {
+              name: 'lastCandidateSync',
+              type: 'date',
+              admin: {
+                readOnly: true,
+                description:
+                  'Start time of the last successful candidate sync, used as the incremental sync watermark (managed automatically)',
+              },
+            },
+          ],
+        },
+        {
+          name: 'sandbox',
+          type: 'group',
+          admin: {
+            condition: (data: { features?: { atsSandbox?: boolean } }) =>
+              Boolean(data?.features?.atsSandbox),
+          },
+          fields: [
+            {
+              name: 'connectedAt',
+              type: 'date',
+              admin: {
+                readOnly: true,
+                description: 'When the sandbox ATS was connected (managed automatically)',
+              },
+            },
+            {
+              name: 'lastJobSync',
+              type: 'date',
+              admin: {
+                readOnly: true,
+                description: 'Start time of the last successful job sync (managed automatically)',
+              },
+            },
+            {
+              name: 'lastCandidateSync',
+              type: 'date',
+              admin: {
+                readOnly: true,
+                description:
+                  'Start time of the last successful candidate sync (managed automatically)',
+              },
+            },
+          ],
+        },
+        {
+          // Outcome of the last webhook registration with each ATS, see plugins/ats/webhookRegistrations.ts
+          name: 'webhookRegistrations',
+          type: 'array',
+          admin: {
+            readOnly: true,
+            description: 'Webhook registration status for each ATS (managed automatically)',
+          },
+          fields: [
+            {
+              name: 'provider',
+              type: 'select',
+              options: [
+                {
+                  label: 'JobAdder',
+                  value: 'jobadder',
+                },
+                {
+                  label: 'Bullhorn',
+                  value: 'bullhorn',
+                },
+                {
+                  label: 'Vincere',
+                  value: 'vincere',
+                },
+                {
+                  label: 'Sandbox',
+                  value: 'sandbox',
+                },
+              ],
+              required: true,
+            },
+            {
+              name: 'status',
+              type: 'select',
+              options: [
+                {
+                  label: 'Registered',
+                  value: 'registered',
+                },
+                {
+                  label: 'Failed',
+                  value: 'failed',
+                },
+              ],
+              required: true,
+            },
+            {
+              name: 'attemptedAt',
+              type: 'date',
+            },
+            {
+              name: 'registeredAt',
+              type: 'date',
+            },
+            {
+              // First failure since the last successful registration
+              name: 'failingSince',
+              type: 'date',
+            },
+            {
+              name: 'error',
               type: 'text',
             },
           ],
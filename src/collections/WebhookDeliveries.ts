@@ -0,0 +1,269 @@
+import { CollectionConfig } from 'payload'
+
+// Define a custom type for authenticated users with tenant and role
+type AuthUser = {
+  id: number
+  role?: string
+  tenant?: string | number
+}
+
+/**
+ * Inbox of raw ATS webhook deliveries
+ * Every signed delivery is stored before it is processed so duplicates can be ignored
+ * and failed deliveries can be replayed from the admin.
+ */
+const WebhookDeliveries: CollectionConfig = {
+  slug: 'webhook-deliveries',
+  admin: {
+    useAsTitle: 'deliveryId',
+    defaultColumns: ['deliveryId', 'event', 'tenantId', 'status', 'attempts', 'receivedAt'],
+    description: 'Raw ATS webhook deliveries and their processing status',
+  },
+  access: {
+    // Deliveries are written by the webhook route via the local API. They carry the
+    // tenant ID from the signed webhook metadata rather than a tenant relationship.
+    read: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // Only admins can read deliveries, but still only for their tenant
+      if (typedUser.role === 'admin' && typedUser.tenant) {
+        return {
+          tenantId: {
+            equals: String(typedUser.tenant),
+          },
+        }
+      }
+
+      return false
+    },
+    create: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // Only admins can create deliveries, and only for their tenant
+      return typedUser.role === 'admin' && Boolean(typedUser.tenant)
+    },
+    update: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // Only admins can update deliveries, but still only for their tenant
+      if (typedUser.role === 'admin' && typedUser.tenant) {
+        return {
+          tenantId: {
+            equals: String(typedUser.tenant),
+          },
+        }
+      }
+
+      return false
+    },
+    delete: ({ req: { user } }) => {
+      if (!user) return false
+      const typedUser = user as AuthUser
+
+      // Only admins can delete deliveries, but still only for their tenant
+      if (typedUser.role === 'admin' && typedUser.tenant) {
+        return {
+          tenantId: {
+            equals: String(typedUser.tenant),
+          },
+        }
+      }
+
+      return false
+    },
+  },
+  fields: [
+    {
+      name: 'deliveryId',
+      type: 'text',
+      required: true,
+      admin: {
+        description: 'Delivery ID from the ATS, or a hash of the payload when none is sent',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'provider',
+      type: 'select',
+      options: [
+        {
+          label: 'JobAdder',
+          value: 'jobadder',
+        },
+        {
+          label: 'Bullhorn',
+          value: 'bullhorn',
+        },
+        {
+          label: 'Vincere',
+          value: 'vincere',
+        },
+        {
+          label: 'Sandbox',
+          value: 'sandbox',
+        },
+      ],
+      required: true,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'event',
+      type: 'text',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'tenantId',
+      type: 'text',
+      admin: {
+        description: 'Tenant ID claimed by the webhook metadata',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'signatureValid',
+      type: 'checkbox',
+      defaultValue: false,
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'status',
+      type: 'select',
+      options: [
+        {
+          label: 'Received',
+          value: 'received',
+        },
+        {
+          label: 'Processing',
+          value: 'processing',
+        },
+        {
+          label: 'Processed',
+          value: 'processed',
+        },
+        {
+          label: 'Retrying',
+          value: 'retrying',
+        },
+        {
+          label: 'Dead Letter',
+          value: 'dead_letter',
+        },
+        {
+          label: 'Rejected',
+          value: 'rejected',
+        },
+      ],
+      defaultValue: 'received',
+      required: true,
+      admin: {
+        position: 'sidebar',
+        description: 'Dead-lettered deliveries have used up their retries and need an operator',
+      },
+    },
+    {
+      name: 'attempts',
+      type: 'number',
+      defaultValue: 0,
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'duplicateCount',
+      type: 'number',
+      defaultValue: 0,
+      admin: {
+        position: 'sidebar',
+        description: 'How many duplicate deliveries were ignored',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'receivedAt',
+      type: 'date',
+      required: true,
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        date: {
+          pickerAppearance: 'dayAndTime',
+          timeFormat: 'HH:mm:ss',
+        },
+      },
+    },
+    {
+      name: 'nextAttemptAt',
+      type: 'date',
+      admin: {
+        position: 'sidebar',
+        description: 'When the webhook worker will next try to process this delivery',
+        readOnly: true,
+        date: {
+          pickerAppearance: 'dayAndTime',
+          timeFormat: 'HH:mm:ss',
+        },
+      },
+    },
+    {
+      name: 'processedAt',
+      type: 'date',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        date: {
+          pickerAppearance: 'dayAndTime',
+          timeFormat: 'HH:mm:ss',
+        },
+      },
+    },
+    {
+      name: 'error',
+      type: 'textarea',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'payload',
+      type: 'json',
+      required: true,
+      admin: {
+        description: 'Raw webhook body as received',
+        readOnly: true,
+      },
+    },
+  ],
+  indexes: [
+    {
+      // Delivery IDs are only unique within the ATS that sent them
+      fields: ['provider', 'deliveryId'],
+      unique: true,
+    },
+    {
+      fields: ['status'],
+    },
+    {
+      fields: ['tenantId'],
+    },
+    {
+      fields: ['receivedAt'],
+    },
+    {
+      fields: ['nextAttemptAt'],
+    },
+  ],
+}
+
+export default WebhookDeliveries
@@ -0,0 +1,190 @@
+import payload from 'payload'
+import { ApplicationSubmission, submitApplication, validateUpload } from '../applications'
+import { Job } from '../../payload-types'
+
+// Mock dependencies
+jest.mock('payload', () => ({
+  find: jest.fn(),
+  create: jest.fn(),
+  update: jest.fn(),
+}))
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  syncLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+describe('applications', () => {
+  let submission: ApplicationSubmission
+
+  const created = (collection: string) =>
+    (payload.create as jest.Mock).mock.calls.find(([args]) => args.collection === collection)?.[0]
+      .data
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+
+    submission = {
+      job: {
+        id: 3,
+        tenant: 5,
+        atsData: { jobAdder: { id: 'ja-job-1' } },
+      } as unknown as Job,
+      tenantId: 5,
+      applicant: {
+        firstName: 'Jane',
+        lastName: 'Doe',
+        email: ' Jane.Doe@Example.com ',
+        phone: '0400 000 000',
+      },
+      questions: [
+        {
+          id: 1,
+          question: 'Do you have working rights?',
+          type: 'yes_no',
+          knockout: { enabled: true, action: 'reject', yesNoAnswer: 'no' },
+          required: true,
+        },
+      ],
+      answers: [{ questionId: 1, answer: 'yes' }],
+      resumeId: 21,
+      dataUsageConsent: true,
+      consentStatement: 'I agree',
+      sessionId: 'session-1',
+      utmParams: { source: 'linkedin' },
+    }
+
+    ;(payload.find as jest.Mock).mockResolvedValue({ docs: [] })
+    ;(payload.create as jest.Mock).mockImplementation(async ({ collection }) => ({
+      id: `${collection}-1`,
+    }))
+    ;(payload.update as jest.Mock).mockImplementation(async ({ id }) => ({ id }))
+  })
+
+  describe('submitApplication', () => {
+    it('should create a candidate for a consenting applicant and link the application', async () => {
+      await submitApplication(submission)
+
+      expect(created('candidates')).toEqual(
+        expect.objectContaining({
+          email: 'jane.doe@example.com',
+          source: 'website',
+          dataUsageConsent: true,
+          tenant: 5,
+        }),
+      )
+      expect(created('applications')).toEqual(
+        expect.objectContaining({
+          job: 3,
+          candidate: 'candidates-1',
+          tenant: 5,
+          status: 'submitted',
+          resume: 21,
+          source: 'linkedin',
+        }),
+      )
+      expect(payload.update).toHaveBeenCalledWith({
+        collection: 'applications',
+        id: 'applications-1',
+        data: { event: 'events-1' },
+      })
+    })
+
+    it('should link an existing candidate of the tenant without changing their consent', async () => {
+      ;(payload.find as jest.Mock).mockResolvedValue({
+        docs: [{ id: 9, phone: null, dataUsageConsent: false }],
+      })
+
+      await submitApplication(submission)
+
+      expect(created('candidates')).toBeUndefined()
+      expect(payload.update).not.toHaveBeenCalledWith(
+        expect.objectContaining({ collection: 'candidates' }),
+      )
+      expect(created('applications').candidate).toBe(9)
+      expect(created('consent-records')).toEqual(
+        expect.objectContaining({ granted: true, verified: false }),
+      )
+    })
+
+    it('should not keep a candidate for an applicant who refused consent', async () => {
+      submission.dataUsageConsent = false
+
+      await submitApplication(submission)
+
+      expect(payload.find).not.toHaveBeenCalled()
+      expect(created('candidates')).toBeUndefined()
+      expect(created('applications').candidate).toBeUndefined()
+      expect(created('consent-records')).toEqual(
+        expect.objectContaining({ email: 'jane.doe@example.com', granted: false }),
+      )
+    })
+
+    it('should keep the screening answers and reject applicants who are knocked out', async () => {
+      await submitApplication(submission)
+
+      expect(created('applications')).toEqual(
+        expect.objectContaining({
+          status: 'submitted',
+          screeningResult: 'passed',
+          answers: [
+            expect.objectContaining({
+              question: 'Do you have working rights?',
+              screeningQuestion: 1,
+              answer: 'yes',
+              outcome: 'passed',
+            }),
+          ],
+        }),
+      )
+
+      jest.clearAllMocks()
+      submission.answers = [{ questionId: 1, answer: 'no' }]
+      await submitApplication(submission)
+
+      expect(created('applications')).toEqual(
+        expect.objectContaining({ status: 'rejected', screeningResult: 'rejected' }),
+      )
+    })
+
+    it('should queue the application for ATS write-back', async () => {
+      await submitApplication(submission)
+
+      expect(created('events')).toEqual(
+        expect.objectContaining({
+          type: 'apply_completed',
+          job: 3,
+          sessionId: 'session-1',
+          metadata: expect.objectContaining({
+            email: 'jane.doe@example.com',
+            firstName: 'Jane',
+            resumeId: 21,
+          }),
+          application: 'applications-1',
+          atsWriteBack: expect.objectContaining({ status: 'pending', provider: 'jobadder' }),
+        }),
+      )
+    })
+  })
+
+  describe('validateUpload', () => {
+    it('should only accept PDF and Word documents up to 10MB', () => {
+      expect(validateUpload({ type: 'application/pdf', size: 1024 }, 'Resume')).toBeNull()
+      expect(validateUpload({ type: 'image/png', size: 1024 }, 'Resume')).toBe(
+        'Resume must be a PDF or Word document',
+      )
+      expect(validateUpload({ type: 'application/pdf', size: 11 * 1024 * 1024 }, 'Resume')).toBe(
+        'Resume must be 10MB or smaller',
+      )
+    })
+  })
+})
@@ -0,0 +1,292 @@
+import payload from 'payload'
+import { emailService } from '../emailService'
+import {
+  JobAlert,
+  confirmJobAlert,
+  createJobAlert,
+  createJobAlertToken,
+  describeJobAlertCriteria,
+  isJobAlertDue,
+  recordJobAlertEvent,
+  sendJobAlertDigest,
+  unsubscribeJobAlert,
+  verifyJobAlertToken,
+} from '../jobAlerts'
+import { Tenant } from '../../payload-types'
+
+// Mock dependencies
+jest.mock('payload', () => ({
+  find: jest.fn(),
+  findByID: jest.fn(),
+  create: jest.fn(),
+  update: jest.fn(),
+}))
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+jest.mock('../emailService', () => ({
+  emailService: {
+    sendEmail: jest.fn(),
+  },
+}))
+
+describe('job alerts', () => {
+  const originalEnv = process.env
+  const tenant = {
+    id: 5,
+    name: 'Acme',
+    customDomain: 'jobs.acme.com',
+    brandingConfig: { logo: { id: 1, url: '/media/logo.png' }, primaryColor: '#ff0000' },
+  } as unknown as Tenant
+
+  let alert: JobAlert
+
+  const sentEmail = () => (emailService.sendEmail as jest.Mock).mock.calls[0][0]
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    process.env = { ...originalEnv, JOB_ALERT_SECRET: 'test-secret' }
+
+    alert = {
+      id: 7,
+      email: 'jane@example.com',
+      criteria: { query: 'nurse', location: 'Sydney' },
+      frequency: 'weekly',
+      status: 'active',
+      confirmedAt: '2026-10-01T00:00:00.000Z',
+      lastSentAt: '2026-10-08T00:00:00.000Z',
+      tenant: 5,
+    }
+
+    ;(payload.find as jest.Mock).mockResolvedValue({ docs: [] })
+    ;(payload.findByID as jest.Mock).mockImplementation(async ({ collection }) =>
+      collection === 'tenants' ? tenant : alert,
+    )
+    ;(payload.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: 7, ...data }))
+    ;(payload.update as jest.Mock).mockImplementation(async ({ id, data }) => ({
+      ...alert,
+      id,
+      ...data,
+    }))
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  describe('tokens', () => {
+    it('should only accept a token for the action it was created for', () => {
+      const token = createJobAlertToken(7, 'unsubscribe')
+
+      expect(verifyJobAlertToken(token, 'unsubscribe')).toBe('7')
+      expect(() => verifyJobAlertToken(token, 'confirm')).toThrow('Invalid job alert link')
+      expect(() => verifyJobAlertToken(token.replace(/^7/, '8'), 'unsubscribe')).toThrow(
+        'Invalid job alert link',
+      )
+      expect(() => verifyJobAlertToken('nonsense', 'unsubscribe')).toThrow(
+        'Malformed job alert link',
+      )
+    })
+  })
+
+  describe('createJobAlert', () => {
+    it('should save the search pending and email a confirmation link', async () => {
+      await createJobAlert({
+        tenant,
+        email: ' Jane@Example.com ',
+        frequency: 'daily',
+        criteria: { query: 'nurse', location: 'Sydney', minSalary: 75000 },
+      })
+
+      expect((payload.create as jest.Mock).mock.calls[0][0].data).toEqual({
+        email: 'jane@example.com',
+        criteria: {
+          query: 'nurse',
+          sector: undefined,
+          location: 'Sydney',
+          type: undefined,
+          minSalary: 75000,
+        },
+        frequency: 'daily',
+        status: 'pending',
+        tenant: 5,
+      })
+      expect(sentEmail()).toEqual(
+        expect.objectContaining({
+          to: 'jane@example.com',
+          from: expect.stringContaining('Acme Recruitment'),
+        }),
+      )
+      expect(sentEmail().html).toContain(
+        `https://jobs.acme.com/api/job-alerts/confirm?token=${encodeURIComponent(
+          createJobAlertToken(7, 'confirm'),
+        )}`,
+      )
+      expect(sentEmail().html).toContain('https://jobs.acme.com/media/logo.png')
+    })
+
+    it('should not create the same search twice for an email', async () => {
+      ;(payload.find as jest.Mock).mockResolvedValue({ docs: [alert] })
+
+      await expect(
+        createJobAlert({
+          tenant,
+          email: 'jane@example.com',
+          frequency: 'weekly',
+          criteria: { query: 'nurse', location: 'Sydney' },
+        }),
+      ).resolves.toBe(alert)
+
+      expect(payload.create).not.toHaveBeenCalled()
+      expect(emailService.sendEmail).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('confirmJobAlert and unsubscribeJobAlert', () => {
+    it('should activate a pending alert', async () => {
+      alert.status = 'pending'
+
+      await confirmJobAlert(createJobAlertToken(7, 'confirm'))
+
+      expect(payload.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          collection: 'job-alerts',
+          id: 7,
+          data: { status: 'active', confirmedAt: expect.any(String) },
+        }),
+      )
+    })
+
+    it('should not reactivate an alert that was unsubscribed', async () => {
+      alert.status = 'unsubscribed'
+
+      await confirmJobAlert(createJobAlertToken(7, 'confirm'))
+
+      expect(payload.update).not.toHaveBeenCalled()
+    })
+
+    it('should unsubscribe an alert', async () => {
+      await unsubscribeJobAlert(createJobAlertToken(7, 'unsubscribe'))
+
+      expect(payload.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { status: 'unsubscribed', unsubscribedAt: expect.any(String) },
+        }),
+      )
+    })
+  })
+
+  describe('isJobAlertDue', () => {
+    it('should be due once a day or once a week after the last digest', () => {
+      expect(isJobAlertDue(alert, new Date('2026-10-14T00:00:00.000Z'))).toBe(false)
+      expect(isJobAlertDue(alert, new Date('2026-10-15T00:00:00.000Z'))).toBe(true)
+      expect(
+        isJobAlertDue({ ...alert, frequency: 'daily' }, new Date('2026-10-09T00:00:00.000Z')),
+      ).toBe(true)
+      expect(
+        isJobAlertDue({ ...alert, status: 'pending' }, new Date('2026-10-15T00:00:00.000Z')),
+      ).toBe(false)
+    })
+  })
+
+  describe('sendJobAlertDigest', () => {
+    const now = new Date('2026-10-15T00:00:00.000Z')
+
+    it('should email the jobs posted since the last digest with one-click unsubscribe', async () => {
+      ;(payload.find as jest.Mock).mockResolvedValue({
+        docs: [
+          { id: 1, title: 'Nurse', location: 'Sydney', slug: 'nurse' },
+          { id: 2, title: 'Senior Nurse', location: 'Sydney', slug: 'senior-nurse' },
+        ],
+      })
+
+      await expect(sendJobAlertDigest(alert, now)).resolves.toBe(2)
+
+      expect((payload.find as jest.Mock).mock.calls[0][0].where).toEqual(
+        expect.objectContaining({
+          tenant: { equals: 5 },
+          location: { like: 'Sydney' },
+          created_at: { greater_than: '2026-10-08T00:00:00.000Z' },
+        }),
+      )
+      expect(sentEmail().subject).toBe('2 new jobs matching "nurse" in Sydney')
+      expect(sentEmail().headers).toEqual({
+        'List-Unsubscribe': `<https://jobs.acme.com/api/job-alerts/unsubscribe?token=${encodeURIComponent(
+          createJobAlertToken(7, 'unsubscribe'),
+        )}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      })
+      expect(sentEmail().html).toContain('/api/job-alerts/click?token=')
+      expect(sentEmail().html).toContain('/api/job-alerts/open?token=')
+      expect(payload.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 7, data: { lastSentAt: now.toISOString() } }),
+      )
+    })
+
+    it('should not send an empty digest', async () => {
+      await expect(sendJobAlertDigest(alert, now)).resolves.toBe(0)
+
+      expect(emailService.sendEmail).not.toHaveBeenCalled()
+      expect(payload.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('recordJobAlertEvent', () => {
+    it("should record a click on one of the tenant's jobs", async () => {
+      ;(payload.find as jest.Mock).mockResolvedValue({ docs: [{ id: 1, slug: 'nurse' }] })
+
+      await expect(
+        recordJobAlertEvent({
+          type: 'job_alert_clicked',
+          token: createJobAlertToken(7, 'track'),
+          jobId: '1',
+        }),
+      ).resolves.toEqual({ id: 1, slug: 'nurse' })
+
+      expect((payload.find as jest.Mock).mock.calls[0][0].where).toEqual({
+        id: { equals: '1' },
+        tenant: { equals: 5 },
+      })
+      expect((payload.create as jest.Mock).mock.calls[0][0].data).toEqual(
+        expect.objectContaining({
+          type: 'job_alert_clicked',
+          job: 1,
+          sessionId: 'job-alert-7',
+          source: 'job_alert',
+          medium: 'email',
+          tenant: 5,
+        }),
+      )
+    })
+
+    it('should not record events for an unsubscribe token', async () => {
+      await expect(
+        recordJobAlertEvent({
+          type: 'job_alert_opened',
+          token: createJobAlertToken(7, 'unsubscribe'),
+        }),
+      ).rejects.toThrow('Invalid job alert link')
+      expect(payload.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('describeJobAlertCriteria', () => {
+    it('should describe the search', () => {
+      expect(
+        describeJobAlertCriteria({
+          query: 'nurse',
+          sector: { id: 1, name: 'Healthcare' },
+          type: 'full-time',
+          minSalary: 75000,
+          location: 'Sydney',
+        }),
+      ).toBe('"nurse", Healthcare, Full-time, $75,000+ in Sydney')
+      expect(describeJobAlertCriteria({})).toBe('all jobs')
+    })
+  })
+})
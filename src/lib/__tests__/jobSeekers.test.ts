@@ -0,0 +1,267 @@
+import payload from 'payload'
+import { emailService } from '../emailService'
+import { getTenantByDomain } from '../tenants'
+import { recordApplyFormConsent } from '../../plugins/ats/consent'
+import {
+  JobSeeker,
+  completeJobSeekerLogin,
+  createJobSeekerSession,
+  getSignedInJobSeeker,
+  readJobSeekerSession,
+  requestJobSeekerLogin,
+  safeRedirectPath,
+  saveJob,
+  updateJobSeekerAlert,
+  updateJobSeekerProfile,
+} from '../jobSeekers'
+import { Tenant } from '../../payload-types'
+
+// Mock dependencies
+jest.mock('payload', () => ({
+  find: jest.fn(),
+  findByID: jest.fn(),
+  create: jest.fn(),
+  update: jest.fn(),
+}))
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+jest.mock('../emailService', () => ({
+  emailService: {
+    sendEmail: jest.fn(),
+  },
+}))
+jest.mock('../tenants', () => ({
+  getTenantByDomain: jest.fn(),
+}))
+jest.mock('../../plugins/ats/consent', () => ({
+  recordApplyFormConsent: jest.fn(),
+}))
+
+describe('job seekers', () => {
+  const originalEnv = process.env
+  const tenant = { id: 5, name: 'Acme', customDomain: 'jobs.acme.com' } as unknown as Tenant
+
+  let seeker: JobSeeker
+
+  const updated = (collection: string) =>
+    (payload.update as jest.Mock).mock.calls
+      .filter(([args]) => args.collection === collection)
+      .map(([args]) => args.data)
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    process.env = { ...originalEnv, JOB_SEEKER_SESSION_SECRET: 'test-secret' }
+
+    seeker = {
+      id: 3,
+      email: 'jane@example.com',
+      firstName: 'Jane',
+      lastName: 'Doe',
+      savedJobs: [10],
+      tenant: 5,
+    }
+
+    ;(getTenantByDomain as jest.Mock).mockResolvedValue(tenant)
+    ;(payload.find as jest.Mock).mockResolvedValue({ docs: [] })
+    ;(payload.findByID as jest.Mock).mockImplementation(async () => seeker)
+    ;(payload.create as jest.Mock).mockImplementation(async ({ collection, data }) => ({
+      id: `${collection}-1`,
+      ...data,
+    }))
+    ;(payload.update as jest.Mock).mockImplementation(async ({ id, data }) => ({
+      ...seeker,
+      id,
+      ...data,
+    }))
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  describe('sign-in links', () => {
+    const emailedToken = () => {
+      const html = (emailService.sendEmail as jest.Mock).mock.calls[0][0].html as string
+      const url = new URL(html.match(/href="([^"]+\/api\/account\/login\/verify[^"]+)"/)![1])
+      return { token: url.searchParams.get('token')!, redirect: url.searchParams.get('redirect') }
+    }
+
+    it('should create an account on first sign-in and email a single-use link', async () => {
+      await requestJobSeekerLogin({ tenant, email: ' Jane@Example.com ', redirectTo: '/jobs/a' })
+
+      expect((payload.create as jest.Mock).mock.calls[0][0].data).toEqual({
+        email: 'jane@example.com',
+        tenant: 5,
+      })
+      const { token, redirect } = emailedToken()
+      expect(token.startsWith('job-seekers-1.')).toBe(true)
+      expect(redirect).toBe('/jobs/a')
+
+      // Only a hash of the link is kept
+      const { loginLink } = updated('job-seekers')[0]
+      expect(loginLink.tokenHash).not.toContain(token.split('.')[1])
+
+      seeker = { ...seeker, loginLink }
+      ;(payload.find as jest.Mock).mockResolvedValue({ docs: [{ id: 8 }] })
+
+      await completeJobSeekerLogin(token)
+
+      expect(updated('job-seekers')[1]).toEqual({
+        loginLink: { tokenHash: null, expiresAt: null },
+        lastLoginAt: expect.any(String),
+        candidate: 8,
+      })
+
+      seeker = { ...seeker, loginLink: { tokenHash: null, expiresAt: null } }
+      await expect(completeJobSeekerLogin(token)).rejects.toThrow(
+        'Sign-in link has already been used',
+      )
+    })
+
+    it('should refuse expired links', async () => {
+      await requestJobSeekerLogin({ tenant, email: 'jane@example.com' })
+      const { token } = emailedToken()
+      seeker = {
+        ...seeker,
+        loginLink: {
+          tokenHash: updated('job-seekers')[0].loginLink.tokenHash,
+          expiresAt: new Date(Date.now() - 1000).toISOString(),
+        },
+      }
+
+      await expect(completeJobSeekerLogin(token)).rejects.toThrow('Sign-in link has expired')
+    })
+
+    it('should only redirect within the site', () => {
+      expect(safeRedirectPath('/jobs/a')).toBe('/jobs/a')
+      expect(safeRedirectPath('//evil.example.com')).toBe('/account')
+      expect(safeRedirectPath('https://evil.example.com')).toBe('/account')
+    })
+  })
+
+  describe('sessions', () => {
+    it('should only accept sessions signed by us for the tenant of the site', async () => {
+      const session = createJobSeekerSession(seeker)
+
+      expect(readJobSeekerSession(session)).toEqual(
+        expect.objectContaining({ seekerId: '3', tenantId: '5' }),
+      )
+      expect(readJobSeekerSession(session.replace(/^./, 'x'))).toBeNull()
+      await expect(getSignedInJobSeeker(session, 'jobs.acme.com')).resolves.toEqual({
+        seeker,
+        tenant,
+      })
+
+      ;(getTenantByDomain as jest.Mock).mockResolvedValue({ ...tenant, id: 6 })
+      await expect(getSignedInJobSeeker(session, 'jobs.other.com')).resolves.toBeNull()
+    })
+  })
+
+  describe('saveJob', () => {
+    it("should save one of the tenant's published jobs once", async () => {
+      ;(payload.find as jest.Mock).mockResolvedValue({ docs: [{ id: 11, slug: 'nurse' }] })
+
+      await saveJob(seeker, { slug: 'nurse' })
+
+      expect((payload.find as jest.Mock).mock.calls[0][0].where).toEqual({
+        slug: { equals: 'nurse' },
+        tenant: { equals: 5 },
+        status: { equals: 'published' },
+      })
+      expect(updated('job-seekers')).toEqual([{ savedJobs: [10, 11] }])
+
+      jest.clearAllMocks()
+      ;(payload.find as jest.Mock).mockResolvedValue({ docs: [{ id: 10 }] })
+      await saveJob(seeker, { id: 10 })
+      expect(payload.update).not.toHaveBeenCalled()
+    })
+
+    it('should refuse jobs of other tenants', async () => {
+      await expect(saveJob(seeker, { id: 99 })).rejects.toThrow('Job not found')
+    })
+  })
+
+  describe('updateJobSeekerAlert', () => {
+    it("should turn on a pending alert, but only the job seeker's own", async () => {
+      ;(payload.find as jest.Mock).mockResolvedValue({
+        docs: [{ id: 7, status: 'pending', frequency: 'weekly' }],
+      })
+
+      await updateJobSeekerAlert(seeker, '7', { status: 'active' })
+
+      expect((payload.find as jest.Mock).mock.calls[0][0].where).toEqual(
+        expect.objectContaining({ email: { equals: 'jane@example.com' }, tenant: { equals: 5 } }),
+      )
+      expect(updated('job-alerts')).toEqual([{ status: 'active', confirmedAt: expect.any(String) }])
+
+      await expect(updateJobSeekerAlert(seeker, 8, { frequency: 'daily' })).rejects.toThrow(
+        'Job alert not found',
+      )
+    })
+  })
+
+  describe('updateJobSeekerProfile', () => {
+    it("should copy the profile to the tenant's candidate", async () => {
+      seeker.candidate = 8
+
+      await updateJobSeekerProfile(seeker, { phone: '0400 000 000', resumeId: 21 })
+
+      expect(updated('job-seekers')[0]).toEqual({ phone: '0400 000 000', resume: 21 })
+      expect(payload.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          collection: 'candidates',
+          id: 8,
+          data: expect.objectContaining({
+            firstName: 'Jane',
+            phone: '0400 000 000',
+            resumeFile: 21,
+          }),
+        }),
+      )
+      expect(recordApplyFormConsent).not.toHaveBeenCalled()
+    })
+
+    it('should only make a job seeker a candidate when they consent', async () => {
+      await updateJobSeekerProfile(seeker, { location: 'Sydney' })
+      expect(payload.create).not.toHaveBeenCalled()
+
+      await updateJobSeekerProfile(seeker, {
+        dataUsageConsent: true,
+        consentStatement: 'I agree',
+      })
+
+      expect((payload.create as jest.Mock).mock.calls[0][0]).toEqual(
+        expect.objectContaining({
+          collection: 'candidates',
+          data: expect.objectContaining({
+            email: 'jane@example.com',
+            source: 'website',
+            dataUsageConsent: true,
+            tenant: 5,
+          }),
+        }),
+      )
+      expect(recordApplyFormConsent).toHaveBeenCalledWith(
+        expect.objectContaining({ granted: true, source: 'account', verified: true }),
+      )
+      expect(updated('job-seekers').pop()).toEqual({ candidate: 'candidates-1' })
+    })
+
+    it('should leave the candidate alone when the job seeker refuses consent', async () => {
+      seeker.candidate = 8
+
+      await updateJobSeekerProfile(seeker, { phone: '0400 000 000', dataUsageConsent: false })
+
+      expect(updated('candidates')).toEqual([])
+      expect(recordApplyFormConsent).toHaveBeenCalledWith(
+        expect.objectContaining({ granted: false, source: 'account' }),
+      )
+    })
+  })
+})
@@ -0,0 +1,143 @@
+import payload from 'payload'
+import {
+  ScreeningQuestion,
+  evaluateAnswer,
+  getJobScreeningQuestions,
+  screenAnswers,
+  validateScreeningAnswers,
+} from '../screening'
+
+// Mock dependencies
+jest.mock('payload', () => ({
+  find: jest.fn(),
+}))
+
+describe('screening', () => {
+  const workRights: ScreeningQuestion = {
+    id: 1,
+    question: 'Do you need sponsorship to work here?',
+    type: 'yes_no',
+    knockout: { enabled: true, action: 'reject', yesNoAnswer: 'yes' },
+    required: true,
+  }
+  const licences: ScreeningQuestion = {
+    id: 2,
+    question: 'Which licences do you hold?',
+    type: 'multi_choice',
+    options: [{ label: 'Forklift' }, { label: 'Car' }, { label: 'None', knockout: true }],
+    knockout: { enabled: true, action: 'flag' },
+    required: false,
+  }
+  const noticePeriod: ScreeningQuestion = {
+    id: 3,
+    question: 'Notice period in weeks',
+    type: 'number',
+    knockout: { enabled: true, action: 'flag', max: 4 },
+    required: true,
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('evaluateAnswer', () => {
+    it('should knock out on the rule for each question type', () => {
+      expect(evaluateAnswer(workRights, { questionId: 1, answer: 'yes' })).toBe('rejected')
+      expect(evaluateAnswer(workRights, { questionId: 1, answer: 'no' })).toBe('passed')
+      expect(evaluateAnswer(licences, { questionId: 2, answer: ['Car', 'None'] })).toBe('flagged')
+      expect(evaluateAnswer(licences, { questionId: 2, answer: ['Forklift'] })).toBe('passed')
+      expect(evaluateAnswer(noticePeriod, { questionId: 3, answer: 6 })).toBe('flagged')
+      expect(evaluateAnswer(noticePeriod, { questionId: 3, answer: '2' })).toBe('passed')
+    })
+
+    it('should not knock out when the rule is off or the question was skipped', () => {
+      expect(
+        evaluateAnswer(
+          { ...workRights, knockout: { ...workRights.knockout, enabled: false } },
+          { questionId: 1, answer: 'yes' },
+        ),
+      ).toBe('passed')
+      expect(evaluateAnswer(licences, undefined)).toBe('passed')
+    })
+  })
+
+  describe('validateScreeningAnswers', () => {
+    it('should require answers to required questions', () => {
+      expect(validateScreeningAnswers([workRights, licences], [])).toBe(
+        'Please answer: Do you need sponsorship to work here?',
+      )
+      expect(validateScreeningAnswers([licences], [])).toBeNull()
+    })
+
+    it('should reject answers that are not one of the options', () => {
+      expect(validateScreeningAnswers([licences], [{ questionId: 2, answer: ['Truck'] }])).toBe(
+        'Choose from the options for: Which licences do you hold?',
+      )
+      expect(validateScreeningAnswers([noticePeriod], [{ questionId: 3, answer: 'soon' }])).toBe(
+        'Enter a number for: Notice period in weeks',
+      )
+    })
+  })
+
+  describe('screenAnswers', () => {
+    it('should take the worst outcome and keep every answer', () => {
+      const { result, answers } = screenAnswers(
+        [workRights, licences, noticePeriod],
+        [
+          { questionId: 1, answer: 'no' },
+          { questionId: 2, answer: ['Car', 'None'] },
+          { questionId: 3, answer: 2 },
+        ],
+      )
+
+      expect(result).toBe('flagged')
+      expect(answers).toEqual([
+        {
+          question: workRights.question,
+          screeningQuestion: 1,
+          answer: 'no',
+          file: undefined,
+          outcome: 'passed',
+        },
+        {
+          question: licences.question,
+          screeningQuestion: 2,
+          answer: 'Car, None',
+          file: undefined,
+          outcome: 'flagged',
+        },
+        {
+          question: noticePeriod.question,
+          screeningQuestion: 3,
+          answer: '2',
+          file: undefined,
+          outcome: 'passed',
+        },
+      ])
+    })
+  })
+
+  describe('getJobScreeningQuestions', () => {
+    it("should load the job's questions in order with the job's required setting", async () => {
+      ;(payload.find as jest.Mock).mockResolvedValue({ docs: [licences, workRights] })
+
+      const questions = await getJobScreeningQuestions({
+        tenant: 5,
+        screeningQuestions: [
+          { question: 1, required: false },
+          { question: { id: 2 }, required: true },
+          { question: 99 },
+        ],
+      })
+
+      expect(questions.map(({ id, required }) => ({ id, required }))).toEqual([
+        { id: 1, required: false },
+        { id: 2, required: true },
+      ])
+      expect((payload.find as jest.Mock).mock.calls[0][0].where).toEqual({
+        id: { in: [1, 2, 99] },
+        tenant: { equals: 5 },
+      })
+    })
+  })
+})
@@ -3,10 +3,12 @@
  *
  * This module provides functions for querying analytics data from the PostgreSQL database.
  * It includes functions for getting event counts, daily event counts, top jobs, and traffic sources.
+ * Time to fill comes from the placements collection, which the ATS syncs keep up to date.
  */
 
 import { Pool } from 'pg'
 import { format, subDays } from 'date-fns'
+import { getTenantTimeToFill, TimeToFillSummary } from '../plugins/ats/placements'
 
 // Create a PostgreSQL connection pool
 const pool = new Pool({
@@ -47,6 +49,7 @@ export interface AnalyticsData {
       conversions: number
     }[]
   }[]
+  timeToFill: TimeToFillSummary
 }
 
 /**
@@ -79,12 +82,16 @@ export async function getAnalyticsData(
     // Get A/B test results
     const abTests = await getABTestResults(tenantId, startDateStr)
 
+    // Get time to fill from placements starting in the period
+    const timeToFill = await getTenantTimeToFill(tenantId, startDate)
+
     return {
       eventCounts,
       dailyEventCounts,
       topJobs,
       trafficSources,
       abTests,
+      timeToFill,
     }
   } catch (error) {
     console.error('Error getting analytics data:', error)
@@ -0,0 +1,213 @@
+import payload from 'payload'
+import type { Job } from '../payload-types'
+import { normalizeEmail } from '../plugins/ats/candidateIdentity'
+import { recordApplyFormConsent } from '../plugins/ats/consent'
+import { recordJobEvent } from './jobEvents'
+import { ScreeningAnswer, ScreeningQuestion, screenAnswers } from './screening'
+
+/**
+ * Applications made through the hosted apply page, see collections/Applications.ts
+ *
+ * Applicants who consent to us keeping their details become candidates of the tenant, or are
+ * linked to the candidate they already are. Applicants who refuse are still sent to the job as
+ * an application, but no candidate is created or linked for them.
+ *
+ * Answers to the job's screening questions are kept on the application, and applicants knocked
+ * out by a rejecting answer are rejected straight away.
+ */
+
+export const UPLOAD_MAX_BYTES = 10 * 1024 * 1024
+
+export const UPLOAD_MIME_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+]
+
+export interface ApplicationSubmission {
+  job: Job
+  tenantId: string | number
+  applicant: {
+    firstName: string
+    lastName: string
+    email: string
+    phone?: string
+  }
+  coverLetter?: string
+  // The job's screening questions and the applicant's answers to them
+  questions?: ScreeningQuestion[]
+  answers?: ScreeningAnswer[]
+  resumeId?: string | number
+  dataUsageConsent: boolean
+  consentStatement?: string
+  sessionId: string
+  utmParams?: {
+    source?: string
+    medium?: string
+    campaign?: string
+  }
+  referrer?: string
+}
+
+/**
+ * Hosted apply page for a job
+ * Jobs pointing at an apply page of their own keep it.
+ */
+export function getApplyUrl(job: Pick<Job, 'slug' | 'apply_link'>): string {
+  return job.apply_link || `/jobs/${job.slug}/apply`
+}
+
+/**
+ * Check a file uploaded on the apply form, a resume or a file answer, before it's saved
+ * @param label What the file is, for the error message
+ * @returns Error message, or null when the file can be saved
+ */
+export function validateUpload(file: { type: string; size: number }, label: string): string | null {
+  if (!UPLOAD_MIME_TYPES.includes(file.type)) {
+    return `${label} must be a PDF or Word document`
+  }
+  if (file.size > UPLOAD_MAX_BYTES) {
+    return `${label} must be 10MB or smaller`
+  }
+  return null
+}
+
+/**
+ * Save a file uploaded on the apply form or an account to the tenant's applicant files
+ * @param description What the file is, e.g. "Resume"
+ * @returns ID of the applicant file
+ */
+export async function saveUpload(
+  file: File,
+  tenantId: string | number,
+  description: string,
+): Promise<string | number> {
+  const upload = await payload.create({
+    collection: 'applicant-files' as any, // Type assertion to bypass TypeScript check
+    data: {
+      description,
+      tenant: tenantId,
+    },
+    file: {
+      data: Buffer.from(await file.arrayBuffer()),
+      mimetype: file.type,
+      name: file.name,
+      size: file.size,
+    },
+  } as any)
+
+  return upload.id
+}
+
+/**
+ * Find the tenant's candidate for a consenting applicant, creating one for new applicants
+ * Nobody has checked the applicant owns the email, so an existing candidate is linked but
+ * left as it is; their consent only changes once they confirm it from their account.
+ */
+async function findOrCreateCandidate(submission: ApplicationSubmission): Promise<any> {
+  const { applicant, tenantId } = submission
+  const email = normalizeEmail(applicant.email)
+
+  const existing = await payload.find({
+    collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+    where: {
+      email: { equals: email },
+      tenant: { equals: tenantId },
+    },
+    limit: 1,
+    depth: 0,
+  })
+
+  if (existing.docs[0]) {
+    return existing.docs[0]
+  }
+
+  return payload.create({
+    collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+    data: {
+      firstName: applicant.firstName,
+      lastName: applicant.lastName,
+      email,
+      phone: applicant.phone,
+      source: 'website',
+      dataUsageConsent: true,
+      tenant: tenantId,
+    },
+  })
+}
+
+/**
+ * Submit an application made through the hosted apply page
+ * Creates the application, then records the apply_completed event for it, which queues the
+ * application for ATS write-back, and keeps the consent the applicant gave, or refused, as
+ * unverified.
+ * @returns The created application
+ */
+export async function submitApplication(submission: ApplicationSubmission): Promise<any> {
+  const { job, tenantId, applicant, dataUsageConsent } = submission
+  const email = normalizeEmail(applicant.email)
+
+  const candidate = dataUsageConsent ? await findOrCreateCandidate(submission) : null
+  const screening = screenAnswers(submission.questions || [], submission.answers || [])
+
+  const application = await payload.create({
+    collection: 'applications' as any, // Type assertion to bypass TypeScript check
+    data: {
+      job: job.id,
+      candidate: candidate?.id,
+      tenant: tenantId,
+      status: screening.result === 'rejected' ? 'rejected' : 'submitted',
+      firstName: applicant.firstName,
+      lastName: applicant.lastName,
+      email,
+      phone: applicant.phone,
+      resume: submission.resumeId,
+      coverLetter: submission.coverLetter,
+      screeningResult: screening.result,
+      answers: screening.answers,
+      dataUsageConsent,
+      sessionId: submission.sessionId,
+      source: submission.utmParams?.source,
+      medium: submission.utmParams?.medium,
+      campaign: submission.utmParams?.campaign,
+      referrer: submission.referrer,
+      submittedAt: new Date().toISOString(),
+    },
+  })
+
+  const event = await recordJobEvent({
+    type: 'apply_completed',
+    job,
+    tenantId,
+    sessionId: submission.sessionId,
+    utmParams: submission.utmParams,
+    referrer: submission.referrer,
+    metadata: {
+      email,
+      firstName: applicant.firstName,
+      lastName: applicant.lastName,
+      phone: applicant.phone,
+      resumeId: submission.resumeId,
+      dataUsageConsent,
+      consentStatement: submission.consentStatement,
+    },
+    application: application.id,
+  })
+
+  await recordApplyFormConsent({
+    tenantId,
+    email,
+    granted: dataUsageConsent,
+    statement: submission.consentStatement,
+    jobId: job.id,
+    eventId: event.id,
+  })
+
+  return payload.update({
+    collection: 'applications' as any, // Type assertion to bypass TypeScript check
+    id: application.id,
+    data: {
+      event: event.id,
+    },
+  })
+}
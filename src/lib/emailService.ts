@@ -23,6 +23,8 @@ export interface EmailOptions {
   text?: string
   from?: string
   replyTo?: string
+  // Extra headers, e.g. List-Unsubscribe
+  headers?: Record<string, string>
   attachments?: Array<{
     filename: string
     content: Buffer | string
@@ -157,6 +159,7 @@ class EmailService {
         html: options.html,
         text: options.text || this.stripHtml(options.html),
         replyTo,
+        headers: options.headers,
         attachments: options.attachments,
       })
     } catch (error) {
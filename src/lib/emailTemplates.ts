@@ -141,3 +141,392 @@ The ${companyName} Recruitment Team
 If you believe you received this email in error, please disregard it.
   `.trim()
 }
+
+/**
+ * Generate the email asking a job seeker to confirm their job alert
+ * @param params The template parameters
+ * @returns The HTML email template
+ */
+export const jobAlertConfirmationTemplate = (params: {
+  companyName: string
+  searchSummary: string
+  frequency: 'daily' | 'weekly'
+  confirmUrl: string
+  logoUrl?: string
+  primaryColor?: string
+}): string => {
+  const { companyName, searchSummary, frequency, confirmUrl, logoUrl } = params
+  const primaryColor = params.primaryColor || '#3498db'
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Confirm Your Job Alert</title>
+  <style>
+    body {
+      font-family: Arial, sans-serif;
+      line-height: 1.6;
+      color: #333;
+      margin: 0;
+      padding: 0;
+    }
+    .container {
+      max-width: 600px;
+      margin: 0 auto;
+      padding: 20px;
+    }
+    .header {
+      text-align: center;
+      margin-bottom: 20px;
+    }
+    .logo {
+      max-width: 150px;
+      margin-bottom: 20px;
+    }
+    .content {
+      background-color: #f9f9f9;
+      padding: 30px;
+      border-radius: 5px;
+    }
+    .button {
+      display: inline-block;
+      background-color: ${primaryColor};
+      color: #ffffff;
+      text-decoration: none;
+      padding: 12px 25px;
+      border-radius: 4px;
+      margin-top: 20px;
+      font-weight: bold;
+    }
+    .footer {
+      margin-top: 30px;
+      text-align: center;
+      font-size: 12px;
+      color: #999;
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      ${logoUrl ? `<img src="${logoUrl}" alt="${companyName}" class="logo">` : ''}
+      <h1>Confirm Your Job Alert</h1>
+    </div>
+
+    <div class="content">
+      <p>Hello,</p>
+
+      <p>You asked to be emailed ${frequency} when new jobs matching <strong>${searchSummary}</strong> are posted.</p>
+
+      <p>Please confirm your email address to start receiving your job alert:</p>
+
+      <div style="text-align: center;">
+        <a href="${confirmUrl}" class="button">Confirm Job Alert</a>
+      </div>
+
+      <p>Best regards,<br>
+      The ${companyName} Recruitment Team</p>
+    </div>
+
+    <div class="footer">
+      <p>© ${new Date().getFullYear()} ${companyName}. All rights reserved.</p>
+      <p>If you didn't ask for this job alert, you can ignore this email and you won't hear from us again.</p>
+    </div>
+  </div>
+</body>
+</html>
+  `.trim()
+}
+
+/**
+ * Generate a plain text version of the job alert confirmation email
+ * @param params The template parameters
+ * @returns The plain text email
+ */
+export const jobAlertConfirmationTextTemplate = (params: {
+  companyName: string
+  searchSummary: string
+  frequency: 'daily' | 'weekly'
+  confirmUrl: string
+}): string => {
+  const { companyName, searchSummary, frequency, confirmUrl } = params
+
+  return `
+Confirm Your Job Alert
+
+Hello,
+
+You asked to be emailed ${frequency} when new jobs matching ${searchSummary} are posted.
+
+Please confirm your email address to start receiving your job alert:
+${confirmUrl}
+
+Best regards,
+The ${companyName} Recruitment Team
+
+© ${new Date().getFullYear()} ${companyName}. All rights reserved.
+If you didn't ask for this job alert, you can ignore this email and you won't hear from us again.
+  `.trim()
+}
+
+/**
+ * Generate a job alert digest of new matching jobs
+ * @param params The template parameters; job and open URLs are tracked links
+ * @returns The HTML email template
+ */
+export const jobAlertDigestTemplate = (params: {
+  companyName: string
+  searchSummary: string
+  jobs: Array<{ title: string; location: string; url: string }>
+  unsubscribeUrl: string
+  openPixelUrl: string
+  logoUrl?: string
+  primaryColor?: string
+}): string => {
+  const { companyName, searchSummary, jobs, unsubscribeUrl, openPixelUrl, logoUrl } = params
+  const primaryColor = params.primaryColor || '#3498db'
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>New Jobs For You</title>
+  <style>
+    body {
+      font-family: Arial, sans-serif;
+      line-height: 1.6;
+      color: #333;
+      margin: 0;
+      padding: 0;
+    }
+    .container {
+      max-width: 600px;
+      margin: 0 auto;
+      padding: 20px;
+    }
+    .header {
+      text-align: center;
+      margin-bottom: 20px;
+    }
+    .logo {
+      max-width: 150px;
+      margin-bottom: 20px;
+    }
+    .content {
+      background-color: #f9f9f9;
+      padding: 30px;
+      border-radius: 5px;
+    }
+    .job {
+      padding: 15px 0;
+      border-bottom: 1px solid #e5e5e5;
+    }
+    .job a {
+      color: ${primaryColor};
+      font-weight: bold;
+      text-decoration: none;
+    }
+    .footer {
+      margin-top: 30px;
+      text-align: center;
+      font-size: 12px;
+      color: #999;
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      ${logoUrl ? `<img src="${logoUrl}" alt="${companyName}" class="logo">` : ''}
+      <h1>New Jobs For You</h1>
+    </div>
+
+    <div class="content">
+      <p>Hello,</p>
+
+      <p>${jobs.length === 1 ? 'A new job matching' : `${jobs.length} new jobs matching`} <strong>${searchSummary}</strong> ${jobs.length === 1 ? 'has' : 'have'} been posted:</p>
+
+      ${jobs
+        .map(
+          (job) => `<div class="job">
+        <a href="${job.url}">${job.title}</a><br>
+        ${job.location}
+      </div>`,
+        )
+        .join('\n      ')}
+
+      <p>Best regards,<br>
+      The ${companyName} Recruitment Team</p>
+    </div>
+
+    <div class="footer">
+      <p>© ${new Date().getFullYear()} ${companyName}. All rights reserved.</p>
+      <p>You're receiving this because you created a job alert. <a href="${unsubscribeUrl}">Unsubscribe</a></p>
+    </div>
+  </div>
+  <img src="${openPixelUrl}" width="1" height="1" alt="" style="display: none;">
+</body>
+</html>
+  `.trim()
+}
+
+/**
+ * Generate a plain text version of the job alert digest
+ * @param params The template parameters
+ * @returns The plain text email
+ */
+export const jobAlertDigestTextTemplate = (params: {
+  companyName: string
+  searchSummary: string
+  jobs: Array<{ title: string; location: string; url: string }>
+  unsubscribeUrl: string
+}): string => {
+  const { companyName, searchSummary, jobs, unsubscribeUrl } = params
+
+  return `
+New Jobs For You
+
+Hello,
+
+New jobs matching ${searchSummary} have been posted:
+
+${jobs.map((job) => `${job.title} - ${job.location}\n${job.url}`).join('\n\n')}
+
+Best regards,
+The ${companyName} Recruitment Team
+
+© ${new Date().getFullYear()} ${companyName}. All rights reserved.
+You're receiving this because you created a job alert. To unsubscribe, visit:
+${unsubscribeUrl}
+  `.trim()
+}
+
+/**
+ * Generate the email with a job seeker's sign-in link
+ * @param params The template parameters
+ * @returns The HTML email template
+ */
+export const jobSeekerLoginTemplate = (params: {
+  companyName: string
+  loginUrl: string
+  expiresInMinutes: number
+  logoUrl?: string
+  primaryColor?: string
+}): string => {
+  const { companyName, loginUrl, expiresInMinutes, logoUrl } = params
+  const primaryColor = params.primaryColor || '#3498db'
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Sign In to ${companyName}</title>
+  <style>
+    body {
+      font-family: Arial, sans-serif;
+      line-height: 1.6;
+      color: #333;
+      margin: 0;
+      padding: 0;
+    }
+    .container {
+      max-width: 600px;
+      margin: 0 auto;
+      padding: 20px;
+    }
+    .header {
+      text-align: center;
+      margin-bottom: 20px;
+    }
+    .logo {
+      max-width: 150px;
+      margin-bottom: 20px;
+    }
+    .content {
+      background-color: #f9f9f9;
+      padding: 30px;
+      border-radius: 5px;
+    }
+    .button {
+      display: inline-block;
+      background-color: ${primaryColor};
+      color: #ffffff;
+      text-decoration: none;
+      padding: 12px 25px;
+      border-radius: 4px;
+      margin-top: 20px;
+      font-weight: bold;
+    }
+    .footer {
+      margin-top: 30px;
+      text-align: center;
+      font-size: 12px;
+      color: #999;
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      ${logoUrl ? `<img src="${logoUrl}" alt="${companyName}" class="logo">` : ''}
+      <h1>Sign In</h1>
+    </div>
+
+    <div class="content">
+      <p>Hello,</p>
+
+      <p>Use the button below to sign in to your ${companyName} account. The link works once and expires in ${expiresInMinutes} minutes.</p>
+
+      <div style="text-align: center;">
+        <a href="${loginUrl}" class="button">Sign In</a>
+      </div>
+
+      <p>Best regards,<br>
+      The ${companyName} Recruitment Team</p>
+    </div>
+
+    <div class="footer">
+      <p>© ${new Date().getFullYear()} ${companyName}. All rights reserved.</p>
+      <p>If you didn't ask to sign in, you can ignore this email.</p>
+    </div>
+  </div>
+</body>
+</html>
+  `.trim()
+}
+
+/**
+ * Generate a plain text version of the job seeker sign-in email
+ * @param params The template parameters
+ * @returns The plain text email
+ */
+export const jobSeekerLoginTextTemplate = (params: {
+  companyName: string
+  loginUrl: string
+  expiresInMinutes: number
+}): string => {
+  const { companyName, loginUrl, expiresInMinutes } = params
+
+  return `
+Sign In
+
+Hello,
+
+Use the link below to sign in to your ${companyName} account. The link works once and expires in ${expiresInMinutes} minutes.
+
+${loginUrl}
+
+Best regards,
+The ${companyName} Recruitment Team
+
+© ${new Date().getFullYear()} ${companyName}. All rights reserved.
+If you didn't ask to sign in, you can ignore this email.
+  `.trim()
+}
@@ -5,11 +5,7 @@
 
 // Define the event types
 export type EventType =
-  | 'job_viewed'
-  | 'apply_started'
-  | 'apply_completed'
-  | 'ab_test_assignment'
-  | 'ab_test_conversion'
+  'job_viewed' | 'apply_started' | 'apply_completed' | 'ab_test_assignment' | 'ab_test_conversion'
 
 // Define the UTM parameters
 interface UTMParams {
@@ -121,10 +117,20 @@ export function trackApplyStarted(jobId: string): Promise<void> {
 /**
  * Track an apply completed event
  * @param jobId ID of the job
+ * @param applicant Applicant details, written back to the ATS for ATS-sourced jobs
  * @returns Promise that resolves when the event is tracked
  */
-export function trackApplyCompleted(jobId: string): Promise<void> {
-  return trackEvent('apply_completed', jobId)
+export function trackApplyCompleted(
+  jobId: string,
+  applicant?: {
+    email: string
+    firstName?: string
+    lastName?: string
+    phone?: string
+    resumeId?: string | number
+  },
+): Promise<void> {
+  return trackEvent('apply_completed', jobId, applicant)
 }
 
 /**
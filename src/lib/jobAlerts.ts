@@ -0,0 +1,522 @@
+import crypto from 'crypto'
+import payload from 'payload'
+import type { Job, Media, Tenant } from '../payload-types'
+import { logger } from './logger'
+import { emailService } from './emailService'
+import {
+  jobAlertConfirmationTemplate,
+  jobAlertConfirmationTextTemplate,
+  jobAlertDigestTemplate,
+  jobAlertDigestTextTemplate,
+} from './emailTemplates'
+import { buildJobSearchWhere } from './jobSearch'
+
+/**
+ * Job alerts, saved searches emailed to job seekers, see collections/JobAlerts.ts
+ *
+ * An alert is created pending and only becomes active once the job seeker follows the link in
+ * the confirmation email. Active alerts are sent a digest of the jobs posted since their last
+ * one, daily or weekly. Links in our emails carry a signed token for the alert, so they work
+ * without an account and can't be guessed from an alert ID.
+ */
+
+export type JobAlertFrequency = 'daily' | 'weekly'
+
+export type JobAlertTokenAction = 'confirm' | 'unsubscribe' | 'track'
+
+export interface JobAlertCriteria {
+  query?: string | null
+  sector?: string | number | { id: string | number; name?: string } | null
+  location?: string | null
+  type?: string | null
+  minSalary?: number | null
+}
+
+export interface JobAlert {
+  id: string | number
+  email: string
+  criteria?: JobAlertCriteria | null
+  frequency: JobAlertFrequency
+  status: 'pending' | 'active' | 'unsubscribed'
+  confirmedAt?: string | null
+  unsubscribedAt?: string | null
+  lastSentAt?: string | null
+  tenant: string | number | Tenant
+  createdAt?: string
+}
+
+const FREQUENCY_MS: Record<JobAlertFrequency, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+}
+
+// Alerts due within this long are sent now, so a digest doesn't slip a whole cron run later
+// each time
+const DUE_SLACK_MS = 60 * 60 * 1000
+
+// Most jobs listed in one digest
+const DIGEST_MAX_JOBS = 10
+
+export class JobAlertError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'JobAlertError'
+  }
+}
+
+function getSecret(): string {
+  const secret = process.env.JOB_ALERT_SECRET || process.env.PAYLOAD_SECRET
+  if (!secret) {
+    throw new Error('JOB_ALERT_SECRET or PAYLOAD_SECRET must be set to sign job alert links')
+  }
+  return secret
+}
+
+function sign(alertId: string, action: JobAlertTokenAction): string {
+  return crypto
+    .createHmac('sha256', getSecret())
+    .update(`job-alert:${action}:${alertId}`)
+    .digest('base64url')
+}
+
+/**
+ * Create the token for a link in a job alert email
+ * Tokens don't expire, as unsubscribe links have to keep working in old emails.
+ */
+export function createJobAlertToken(alertId: string | number, action: JobAlertTokenAction): string {
+  return `${alertId}.${sign(String(alertId), action)}`
+}
+
+/**
+ * Check the token from a job alert link
+ * @returns ID of the alert the token was created for
+ * @throws JobAlertError when the token is malformed or was created for another action
+ */
+export function verifyJobAlertToken(token: string, action: JobAlertTokenAction): string {
+  const separator = token.lastIndexOf('.')
+  const alertId = token.slice(0, separator)
+  const signature = token.slice(separator + 1)
+  if (separator <= 0 || !signature) {
+    throw new JobAlertError('Malformed job alert link')
+  }
+
+  const expectedSignature = Buffer.from(sign(alertId, action))
+  const actualSignature = Buffer.from(signature)
+  if (
+    expectedSignature.length !== actualSignature.length ||
+    !crypto.timingSafeEqual(expectedSignature, actualSignature)
+  ) {
+    throw new JobAlertError('Invalid job alert link')
+  }
+
+  return alertId
+}
+
+function getTenantId(alert: Pick<JobAlert, 'tenant'>): string | number {
+  return typeof alert.tenant === 'object' ? alert.tenant.id : alert.tenant
+}
+
+/**
+ * Site the tenant's job seekers use, which links in emails point at
+ */
+export function getTenantSiteUrl(tenant: Pick<Tenant, 'customDomain'>): string {
+  return tenant.customDomain
+    ? `https://${tenant.customDomain}`
+    : process.env.NEXT_PUBLIC_SERVER_URL || 'http://localhost:3000'
+}
+
+/**
+ * The tenant's logo and colour for the emails we send their job seekers
+ */
+export function getTenantBranding(tenant: Tenant): { logoUrl?: string; primaryColor?: string } {
+  const logo = tenant.brandingConfig?.logo as Media | number | null | undefined
+  const logoUrl = logo && typeof logo === 'object' && logo.url ? logo.url : undefined
+
+  return {
+    logoUrl: logoUrl && logoUrl.startsWith('/') ? `${getTenantSiteUrl(tenant)}${logoUrl}` : logoUrl,
+    primaryColor: tenant.brandingConfig?.primaryColor || undefined,
+  }
+}
+
+/**
+ * Describe an alert's search for job seekers, e.g. "nurse", Full-time, $75,000+ in Sydney
+ */
+export function describeJobAlertCriteria(criteria: JobAlertCriteria | null | undefined): string {
+  const parts: string[] = []
+
+  if (criteria?.query) parts.push(`"${criteria.query}"`)
+  if (criteria?.sector && typeof criteria.sector === 'object' && criteria.sector.name) {
+    parts.push(criteria.sector.name)
+  }
+  if (criteria?.type) {
+    parts.push(criteria.type.charAt(0).toUpperCase() + criteria.type.slice(1))
+  }
+  if (criteria?.minSalary) parts.push(`$${criteria.minSalary.toLocaleString('en-AU')}+`)
+
+  const summary = parts.length > 0 ? parts.join(', ') : 'all jobs'
+
+  return criteria?.location ? `${summary} in ${criteria.location}` : summary
+}
+
+async function loadTenant(alert: Pick<JobAlert, 'tenant'>): Promise<Tenant> {
+  return (await payload.findByID({
+    collection: 'tenants',
+    id: getTenantId(alert),
+    depth: 1,
+  })) as unknown as Tenant
+}
+
+async function findAlert(alertId: string | number): Promise<JobAlert | null> {
+  try {
+    return (await payload.findByID({
+      collection: 'job-alerts' as any, // Type assertion to bypass TypeScript check
+      id: alertId,
+      depth: 1,
+    })) as unknown as JobAlert | null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Save a job seeker's search and send them the email to confirm it
+ * Saving the same search for the same email again sends a new confirmation email for the
+ * alert that's still pending, rather than creating another.
+ * @returns The pending, or already active, alert
+ */
+export async function createJobAlert(params: {
+  tenant: Tenant
+  email: string
+  frequency: JobAlertFrequency
+  criteria: JobAlertCriteria
+}): Promise<JobAlert> {
+  const { tenant, frequency } = params
+  const email = params.email.trim().toLowerCase()
+  const criteria: JobAlertCriteria = {
+    query: params.criteria.query || undefined,
+    sector: params.criteria.sector || undefined,
+    location: params.criteria.location || undefined,
+    type: params.criteria.type || undefined,
+    minSalary: params.criteria.minSalary || undefined,
+  }
+
+  const existing = await payload.find({
+    collection: 'job-alerts' as any, // Type assertion to bypass TypeScript check
+    where: {
+      tenant: { equals: tenant.id },
+      email: { equals: email },
+      status: { in: ['pending', 'active'] },
+    },
+    depth: 0,
+    limit: 100,
+  })
+  const sameSearch = (existing.docs as unknown as JobAlert[]).find(
+    (alert) =>
+      (alert.criteria?.query || undefined) === criteria.query &&
+      String(alert.criteria?.sector || '') === String(criteria.sector || '') &&
+      (alert.criteria?.location || undefined) === criteria.location &&
+      (alert.criteria?.type || undefined) === criteria.type &&
+      (alert.criteria?.minSalary || undefined) === criteria.minSalary,
+  )
+
+  if (sameSearch?.status === 'active') {
+    return sameSearch
+  }
+
+  const alert = sameSearch
+    ? ((await payload.update({
+        collection: 'job-alerts' as any, // Type assertion to bypass TypeScript check
+        id: sameSearch.id,
+        data: { frequency },
+      })) as unknown as JobAlert)
+    : ((await payload.create({
+        collection: 'job-alerts' as any, // Type assertion to bypass TypeScript check
+        data: {
+          email,
+          criteria,
+          frequency,
+          status: 'pending',
+          tenant: tenant.id,
+        },
+      })) as unknown as JobAlert)
+
+  const siteUrl = getTenantSiteUrl(tenant)
+  const confirmUrl = `${siteUrl}/api/job-alerts/confirm?token=${encodeURIComponent(
+    createJobAlertToken(alert.id, 'confirm'),
+  )}`
+  const searchSummary = describeJobAlertCriteria(alert.criteria)
+
+  await emailService.sendEmail({
+    to: email,
+    subject: `Confirm your job alert for ${searchSummary}`,
+    html: jobAlertConfirmationTemplate({
+      companyName: tenant.name,
+      searchSummary,
+      frequency,
+      confirmUrl,
+      ...getTenantBranding(tenant),
+    }),
+    text: jobAlertConfirmationTextTemplate({
+      companyName: tenant.name,
+      searchSummary,
+      frequency,
+      confirmUrl,
+    }),
+    from: `${tenant.name} Recruitment <${process.env.EMAIL_DEFAULT_FROM || 'noreply@example.com'}>`,
+  })
+
+  logger.info('Job alert created', { alertId: alert.id, tenantId: tenant.id })
+
+  return alert
+}
+
+/**
+ * Activate the alert a confirmation link was sent for
+ * Following the link again is harmless, and so is following it after unsubscribing.
+ * @throws JobAlertError when the link is invalid or the alert no longer exists
+ */
+export async function confirmJobAlert(token: string): Promise<JobAlert> {
+  const alert = await findAlert(verifyJobAlertToken(token, 'confirm'))
+  if (!alert) {
+    throw new JobAlertError('Job alert not found')
+  }
+
+  if (alert.status !== 'pending') {
+    return alert
+  }
+
+  return (await payload.update({
+    collection: 'job-alerts' as any, // Type assertion to bypass TypeScript check
+    id: alert.id,
+    data: { status: 'active', confirmedAt: new Date().toISOString() },
+  })) as unknown as JobAlert
+}
+
+/**
+ * Stop sending the alert an unsubscribe link was sent for
+ * @throws JobAlertError when the link is invalid or the alert no longer exists
+ */
+export async function unsubscribeJobAlert(token: string): Promise<JobAlert> {
+  const alert = await findAlert(verifyJobAlertToken(token, 'unsubscribe'))
+  if (!alert) {
+    throw new JobAlertError('Job alert not found')
+  }
+
+  if (alert.status === 'unsubscribed') {
+    return alert
+  }
+
+  logger.info('Job alert unsubscribed', { alertId: alert.id })
+
+  return (await payload.update({
+    collection: 'job-alerts' as any, // Type assertion to bypass TypeScript check
+    id: alert.id,
+    data: { status: 'unsubscribed', unsubscribedAt: new Date().toISOString() },
+  })) as unknown as JobAlert
+}
+
+/**
+ * Whether an active alert's next digest is due
+ */
+export function isJobAlertDue(alert: JobAlert, now: Date = new Date()): boolean {
+  if (alert.status !== 'active') {
+    return false
+  }
+
+  const since = alert.lastSentAt || alert.confirmedAt
+  if (!since) {
+    return true
+  }
+
+  return now.getTime() - new Date(since).getTime() >= FREQUENCY_MS[alert.frequency] - DUE_SLACK_MS
+}
+
+/**
+ * Find the jobs matching an alert that were posted since its last digest
+ */
+export async function findNewJobsForAlert(alert: JobAlert): Promise<Job[]> {
+  const since = alert.lastSentAt || alert.confirmedAt || alert.createdAt
+  const sector = alert.criteria?.sector
+  const where = buildJobSearchWhere(getTenantId(alert), {
+    query: alert.criteria?.query || undefined,
+    sector: sector && typeof sector === 'object' ? sector.id : sector || undefined,
+    location: alert.criteria?.location || undefined,
+    type: alert.criteria?.type || undefined,
+    minSalary: alert.criteria?.minSalary ?? null,
+  })
+
+  if (since) {
+    where.created_at = { greater_than: since }
+  }
+
+  const { docs } = await payload.find({
+    collection: 'jobs',
+    where,
+    sort: '-created_at',
+    limit: DIGEST_MAX_JOBS,
+    depth: 0,
+  })
+
+  return docs as unknown as Job[]
+}
+
+/**
+ * Email an alert the jobs posted since its last digest
+ * Nothing is sent when there are no new jobs, and the alert is checked again next time.
+ * @returns Number of jobs sent
+ */
+export async function sendJobAlertDigest(alert: JobAlert, now: Date = new Date()): Promise<number> {
+  const jobs = await findNewJobsForAlert(alert)
+  if (jobs.length === 0) {
+    return 0
+  }
+
+  const tenant = await loadTenant(alert)
+  const siteUrl = getTenantSiteUrl(tenant)
+  const sentAt = now.toISOString()
+  const trackToken = encodeURIComponent(createJobAlertToken(alert.id, 'track'))
+  const unsubscribeUrl = `${siteUrl}/api/job-alerts/unsubscribe?token=${encodeURIComponent(
+    createJobAlertToken(alert.id, 'unsubscribe'),
+  )}`
+  const searchSummary = describeJobAlertCriteria(alert.criteria)
+  const digestJobs = jobs.map((job) => ({
+    title: job.title,
+    location: job.location,
+    url: `${siteUrl}/api/job-alerts/click?token=${trackToken}&job=${job.id}&sent=${encodeURIComponent(sentAt)}`,
+  }))
+
+  await emailService.sendEmail({
+    to: alert.email,
+    subject:
+      jobs.length === 1
+        ? `New job: ${jobs[0].title}`
+        : `${jobs.length} new jobs matching ${searchSummary}`,
+    html: jobAlertDigestTemplate({
+      companyName: tenant.name,
+      searchSummary,
+      jobs: digestJobs,
+      unsubscribeUrl,
+      openPixelUrl: `${siteUrl}/api/job-alerts/open?token=${trackToken}&sent=${encodeURIComponent(sentAt)}`,
+      ...getTenantBranding(tenant),
+    }),
+    text: jobAlertDigestTextTemplate({
+      companyName: tenant.name,
+      searchSummary,
+      jobs: digestJobs,
+      unsubscribeUrl,
+    }),
+    from: `${tenant.name} Recruitment <${process.env.EMAIL_DEFAULT_FROM || 'noreply@example.com'}>`,
+    // One-click unsubscribe from the mail client, see RFC 8058
+    headers: {
+      'List-Unsubscribe': `<${unsubscribeUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  })
+
+  await payload.update({
+    collection: 'job-alerts' as any, // Type assertion to bypass TypeScript check
+    id: alert.id,
+    data: { lastSentAt: sentAt },
+  })
+
+  return jobs.length
+}
+
+/**
+ * Send the digest of every active alert that's due
+ * An alert that fails is logged and tried again on the next run.
+ */
+export async function sendDueJobAlerts(now: Date = new Date()): Promise<{
+  due: number
+  sent: number
+  failed: number
+}> {
+  const results = { due: 0, sent: 0, failed: 0 }
+  let page = 1
+  let hasNextPage = true
+
+  while (hasNextPage) {
+    const response = await payload.find({
+      collection: 'job-alerts' as any, // Type assertion to bypass TypeScript check
+      where: { status: { equals: 'active' } },
+      depth: 1,
+      limit: 100,
+      page,
+    })
+
+    for (const alert of response.docs as unknown as JobAlert[]) {
+      if (!isJobAlertDue(alert, now)) continue
+      results.due++
+
+      try {
+        if ((await sendJobAlertDigest(alert, now)) > 0) {
+          results.sent++
+        }
+      } catch (error) {
+        results.failed++
+        logger.error('Error sending job alert digest', {
+          alertId: alert.id,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+
+    hasNextPage = response.hasNextPage
+    page++
+  }
+
+  return results
+}
+
+/**
+ * Record a job seeker opening a job alert digest, or clicking a job in it
+ * @param params.token Track token from the email's link
+ * @param params.jobId Job clicked, which must belong to the alert's tenant
+ * @param params.sentAt When the digest was sent
+ * @returns The job clicked, to send the job seeker on to
+ * @throws JobAlertError when the link is invalid, or the alert or job no longer exist
+ */
+export async function recordJobAlertEvent(params: {
+  type: 'job_alert_opened' | 'job_alert_clicked'
+  token: string
+  jobId?: string | number
+  sentAt?: string
+}): Promise<Job | null> {
+  const alert = await findAlert(verifyJobAlertToken(params.token, 'track'))
+  if (!alert) {
+    throw new JobAlertError('Job alert not found')
+  }
+  const tenantId = getTenantId(alert)
+
+  let job: Job | null = null
+  if (params.type === 'job_alert_clicked') {
+    const { docs } = await payload.find({
+      collection: 'jobs',
+      where: { id: { equals: params.jobId }, tenant: { equals: tenantId } },
+      limit: 1,
+      depth: 0,
+    })
+    job = (docs[0] as unknown as Job) || null
+    if (!job) {
+      throw new JobAlertError('Job not found')
+    }
+  }
+
+  // We need to cast 'events' as any to bypass TypeScript's type checking
+  // since it doesn't recognize 'events' as a valid collection slug yet
+  await payload.create({
+    collection: 'events' as any,
+    data: {
+      type: params.type,
+      job: job?.id,
+      sessionId: `job-alert-${alert.id}`,
+      source: 'job_alert',
+      medium: 'email',
+      tenant: tenantId,
+      timestamp: new Date(),
+      metadata: { alertId: alert.id, sentAt: params.sentAt },
+    },
+  })
+
+  return job
+}
@@ -0,0 +1,68 @@
+import payload from 'payload'
+import type { Job } from '../payload-types'
+import { isSandboxId } from '../plugins/ats/integrations/sandbox/data'
+
+export type JobEventType = 'job_viewed' | 'apply_started' | 'apply_completed' | 'retarget_triggered'
+
+/**
+ * Record an event on a job, from the tracking API or our own apply flow
+ *
+ * Applications made through our apply flow are passed as `application`, and when they are to
+ * JobAdder jobs or Vincere positions are queued for write-back. The write-back reads the
+ * applicant from the application, never from the event metadata, which the tracking API takes
+ * from the browser.
+ * @param event.job The job, which must already belong to the tenant
+ * @param event.application ID of the application, set only by our apply flow
+ * @returns The created event
+ */
+export async function recordJobEvent(event: {
+  type: JobEventType
+  job: Job
+  tenantId: string | number
+  sessionId: string
+  utmParams?: {
+    source?: string
+    medium?: string
+    campaign?: string
+  }
+  referrer?: string
+  metadata?: Record<string, any>
+  application?: string | number
+}): Promise<any> {
+  const { type, job, tenantId, sessionId, utmParams, referrer, metadata, application } = event
+
+  // Sandbox jobs have nowhere to write back to
+  const jobAdderJobId = (job.atsData?.jobAdder as { id?: string } | null)?.id
+  const writeBackProvider =
+    jobAdderJobId && !isSandboxId(jobAdderJobId)
+      ? 'jobadder'
+      : job.atsData?.source === 'vincere' && job.atsData.sourceId
+        ? 'vincere'
+        : undefined
+  const atsWriteBack =
+    type === 'apply_completed' && application && writeBackProvider
+      ? { status: 'pending', provider: writeBackProvider, attempts: 0, nextAttemptAt: new Date() }
+      : undefined
+
+  // We need to cast 'events' as any to bypass TypeScript's type checking
+  // since it doesn't recognize 'events' as a valid collection slug yet
+  const created = await payload.create({
+    collection: 'events' as any,
+    data: {
+      type,
+      job: job.id,
+      sessionId,
+      source: utmParams?.source,
+      medium: utmParams?.medium,
+      campaign: utmParams?.campaign,
+      referrer,
+      tenant: tenantId,
+      timestamp: new Date(),
+      metadata,
+      application,
+      atsWriteBack,
+    },
+  })
+
+  return created
+}
@@ -0,0 +1,106 @@
+/**
+ * Job search criteria, shared by the search API and job alerts
+ */
+export interface JobSearchCriteria {
+  query?: string
+  sector?: string | number
+  location?: string
+  type?: string
+  minSalary?: number | null
+  maxSalary?: number | null
+  salaryPeriod?: string
+  featured?: boolean
+}
+
+/**
+ * Build the where clause finding a tenant's open jobs that match a search
+ */
+export function buildJobSearchWhere(tenantId: string | number, criteria: JobSearchCriteria): any {
+  const { query, sector, location, type, salaryPeriod, featured } = criteria
+  const minSalary = criteria.minSalary ?? null
+  const maxSalary = criteria.maxSalary ?? null
+
+  // Build the query conditions
+  const where: any = {
+    tenant: { equals: tenantId },
+    status: { equals: 'published' },
+    expiry_date: { greater_than: new Date().toISOString() },
+  }
+
+  // Add search query if provided
+  if (query) {
+    where.or = [
+      { title: { like: query } },
+      { description: { like: query } },
+      { location: { like: query } },
+    ]
+  }
+
+  // Add sector filter if provided
+  if (sector) {
+    where.sector = { equals: sector }
+  }
+
+  // Add location filter if provided
+  if (location) {
+    where.location = { like: location }
+  }
+
+  // Add job type filter if provided
+  if (type) {
+    where.type = { equals: type }
+  }
+
+  // Add salary filters if provided
+  if (minSalary !== null || maxSalary !== null) {
+    const salaryConditions = []
+
+    if (minSalary !== null) {
+      // Jobs with min salary >= specified min
+      salaryConditions.push({
+        'salary.min': { greater_than_equal: minSalary },
+      })
+
+      // Jobs with max salary >= specified min
+      salaryConditions.push({
+        'salary.max': { greater_than_equal: minSalary },
+      })
+    }
+
+    if (maxSalary !== null) {
+      // Jobs with max salary <= specified max
+      salaryConditions.push({
+        'salary.max': { less_than_equal: maxSalary },
+      })
+
+      // Jobs with min salary <= specified max
+      salaryConditions.push({
+        'salary.min': { less_than_equal: maxSalary },
+      })
+    }
+
+    // Add salary period filter if provided
+    if (salaryPeriod) {
+      // Create a new array with the period condition added to each condition
+      const conditionsWithPeriod = salaryConditions.map((condition) => ({
+        ...condition,
+        'salary.period': { equals: salaryPeriod },
+      }))
+
+      // Replace the original conditions with the new ones
+      salaryConditions.length = 0
+      salaryConditions.push(...conditionsWithPeriod)
+    }
+
+    // Add the salary conditions to the where clause
+    where.or = where.or || []
+    where.or.push(...salaryConditions)
+  }
+
+  // Add featured filter if requested
+  if (featured) {
+    where.featured = { equals: true }
+  }
+
+  return where
+}
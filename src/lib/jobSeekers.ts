@@ -0,0 +1,578 @@
+import crypto from 'crypto'
+import payload from 'payload'
+import type { Job, Tenant } from '../payload-types'
+import { logger } from './logger'
+import { emailService } from './emailService'
+import { jobSeekerLoginTemplate, jobSeekerLoginTextTemplate } from './emailTemplates'
+import { JobAlert, JobAlertFrequency, getTenantBranding, getTenantSiteUrl } from './jobAlerts'
+import { getTenantByDomain } from './tenants'
+import { normalizeEmail } from '../plugins/ats/candidateIdentity'
+import { recordApplyFormConsent } from '../plugins/ats/consent'
+
+/**
+ * Job seeker accounts on tenant sites, see collections/JobSeekers.ts
+ *
+ * Job seekers sign in with a single-use link emailed to them, and an account is created the
+ * first time they do. Being signed in is a signed session cookie for one tenant's site.
+ *
+ * Profile changes are copied to the tenant's candidate with the same email. A job seeker who
+ * isn't a candidate yet becomes one when they consent to the tenant keeping their details,
+ * the same as applicants on the apply form.
+ */
+
+export const JOB_SEEKER_SESSION_COOKIE = 'job_seeker_session'
+
+export const JOB_SEEKER_SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+// How long a sign-in link works for
+const LOGIN_LINK_TTL_MS = 15 * 60 * 1000
+
+export interface JobSeeker {
+  id: string | number
+  email: string
+  firstName?: string | null
+  lastName?: string | null
+  phone?: string | null
+  location?: string | null
+  resume?: string | number | { id: string | number; filename?: string; url?: string } | null
+  savedJobs?: Array<string | number | { id: string | number }> | null
+  candidate?: string | number | { id: string | number } | null
+  loginLink?: { tokenHash?: string | null; expiresAt?: string | null } | null
+  lastLoginAt?: string | null
+  tenant: string | number | Tenant
+}
+
+interface JobSeekerSessionPayload {
+  seekerId: string
+  tenantId: string
+  expiresAt: number
+}
+
+export interface JobSeekerProfileUpdate {
+  firstName?: string
+  lastName?: string
+  phone?: string
+  location?: string
+  resumeId?: string | number
+  // Consent to the tenant keeping the job seeker's details, when the profile form asked
+  dataUsageConsent?: boolean
+  consentStatement?: string
+}
+
+export class JobSeekerError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'JobSeekerError'
+  }
+}
+
+function getSecret(): string {
+  const secret = process.env.JOB_SEEKER_SESSION_SECRET || process.env.PAYLOAD_SECRET
+  if (!secret) {
+    throw new Error(
+      'JOB_SEEKER_SESSION_SECRET or PAYLOAD_SECRET must be set to sign job seeker sessions',
+    )
+  }
+  return secret
+}
+
+function sign(value: string): string {
+  return crypto.createHmac('sha256', getSecret()).update(value).digest('base64url')
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+function idOf(value: string | number | { id: string | number }): string | number {
+  return typeof value === 'object' ? value.id : value
+}
+
+function getTenantId(seeker: Pick<JobSeeker, 'tenant'>): string | number {
+  return idOf(seeker.tenant)
+}
+
+function getSavedJobIds(seeker: JobSeeker): Array<string | number> {
+  return (seeker.savedJobs || []).map(idOf)
+}
+
+/**
+ * Only follow redirects to a path on the same site after signing in
+ */
+export function safeRedirectPath(path: string | null | undefined): string {
+  return path && path.startsWith('/') && !path.startsWith('//') ? path : '/account'
+}
+
+async function findJobSeeker(seekerId: string | number): Promise<JobSeeker | null> {
+  try {
+    return (await payload.findByID({
+      collection: 'job-seekers' as any, // Type assertion to bypass TypeScript check
+      id: seekerId,
+      depth: 0,
+    })) as unknown as JobSeeker | null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Email a job seeker a link to sign in, creating their account if they don't have one
+ * @param params.redirectTo Path on the site to go to once signed in
+ */
+export async function requestJobSeekerLogin(params: {
+  tenant: Tenant
+  email: string
+  redirectTo?: string
+}): Promise<void> {
+  const { tenant } = params
+  const email = normalizeEmail(params.email)
+
+  const existing = await payload.find({
+    collection: 'job-seekers' as any, // Type assertion to bypass TypeScript check
+    where: {
+      tenant: { equals: tenant.id },
+      email: { equals: email },
+    },
+    limit: 1,
+    depth: 0,
+  })
+
+  const seeker =
+    (existing.docs[0] as unknown as JobSeeker | undefined) ||
+    ((await payload.create({
+      collection: 'job-seekers' as any, // Type assertion to bypass TypeScript check
+      data: {
+        email,
+        tenant: tenant.id,
+      },
+    })) as unknown as JobSeeker)
+
+  // A new link replaces any earlier one
+  const secret = crypto.randomBytes(32).toString('base64url')
+  await payload.update({
+    collection: 'job-seekers' as any, // Type assertion to bypass TypeScript check
+    id: seeker.id,
+    data: {
+      loginLink: {
+        tokenHash: hashToken(secret),
+        expiresAt: new Date(Date.now() + LOGIN_LINK_TTL_MS).toISOString(),
+      },
+    },
+  })
+
+  const loginUrl = new URL('/api/account/login/verify', getTenantSiteUrl(tenant))
+  loginUrl.searchParams.set('token', `${seeker.id}.${secret}`)
+  loginUrl.searchParams.set('redirect', safeRedirectPath(params.redirectTo))
+  const expiresInMinutes = LOGIN_LINK_TTL_MS / 60000
+
+  await emailService.sendEmail({
+    to: email,
+    subject: `Sign in to ${tenant.name}`,
+    html: jobSeekerLoginTemplate({
+      companyName: tenant.name,
+      loginUrl: loginUrl.toString(),
+      expiresInMinutes,
+      ...getTenantBranding(tenant),
+    }),
+    text: jobSeekerLoginTextTemplate({
+      companyName: tenant.name,
+      loginUrl: loginUrl.toString(),
+      expiresInMinutes,
+    }),
+    from: `${tenant.name} Recruitment <${process.env.EMAIL_DEFAULT_FROM || 'noreply@example.com'}>`,
+  })
+}
+
+/**
+ * Sign a job seeker in with the link emailed to them
+ * The link is used up, and the account is linked to the tenant's candidate with the same email
+ * if it isn't already.
+ * @returns The signed in job seeker
+ * @throws JobSeekerError when the link is invalid, expired or already used
+ */
+export async function completeJobSeekerLogin(token: string): Promise<JobSeeker> {
+  const separator = token.indexOf('.')
+  const seekerId = token.slice(0, separator)
+  const secret = token.slice(separator + 1)
+  if (separator <= 0 || !secret) {
+    throw new JobSeekerError('Malformed sign-in link')
+  }
+
+  const seeker = await findJobSeeker(seekerId)
+  const stored = seeker?.loginLink
+  if (!seeker || !stored?.tokenHash) {
+    throw new JobSeekerError('Sign-in link has already been used')
+  }
+
+  const expectedHash = Buffer.from(stored.tokenHash)
+  const actualHash = Buffer.from(hashToken(secret))
+  if (
+    expectedHash.length !== actualHash.length ||
+    !crypto.timingSafeEqual(expectedHash, actualHash)
+  ) {
+    throw new JobSeekerError('Sign-in link has already been used')
+  }
+  if (!stored.expiresAt || new Date(stored.expiresAt).getTime() < Date.now()) {
+    throw new JobSeekerError('Sign-in link has expired')
+  }
+
+  const candidate = seeker.candidate ? null : await findCandidate(seeker)
+
+  return (await payload.update({
+    collection: 'job-seekers' as any, // Type assertion to bypass TypeScript check
+    id: seeker.id,
+    data: {
+      loginLink: { tokenHash: null, expiresAt: null },
+      lastLoginAt: new Date().toISOString(),
+      ...(candidate ? { candidate: candidate.id } : {}),
+    },
+  })) as unknown as JobSeeker
+}
+
+/**
+ * Create the session cookie value for a signed in job seeker
+ */
+export function createJobSeekerSession(seeker: JobSeeker): string {
+  const body: JobSeekerSessionPayload = {
+    seekerId: String(seeker.id),
+    tenantId: String(getTenantId(seeker)),
+    expiresAt: Date.now() + JOB_SEEKER_SESSION_TTL_MS,
+  }
+  const encoded = Buffer.from(JSON.stringify(body)).toString('base64url')
+
+  return `${encoded}.${sign(encoded)}`
+}
+
+/**
+ * Check a session cookie value
+ * @returns The session, or null when it's forged or has expired
+ */
+export function readJobSeekerSession(
+  session: string | null | undefined,
+): JobSeekerSessionPayload | null {
+  const [encoded, signature] = (session || '').split('.')
+  if (!encoded || !signature) {
+    return null
+  }
+
+  const expectedSignature = Buffer.from(sign(encoded))
+  const actualSignature = Buffer.from(signature)
+  if (
+    expectedSignature.length !== actualSignature.length ||
+    !crypto.timingSafeEqual(expectedSignature, actualSignature)
+  ) {
+    return null
+  }
+
+  try {
+    const body = JSON.parse(
+      Buffer.from(encoded, 'base64url').toString('utf8'),
+    ) as JobSeekerSessionPayload
+    return body.expiresAt > Date.now() ? body : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * The job seeker signed in on a request to a tenant's site
+ * Sessions only work on the site of the tenant they were created for.
+ * @param session The session cookie value
+ * @param host The request's host, which identifies the tenant
+ */
+export async function getSignedInJobSeeker(
+  session: string | null | undefined,
+  host: string,
+): Promise<{ seeker: JobSeeker; tenant: Tenant } | null> {
+  const body = readJobSeekerSession(session)
+  if (!body) return null
+
+  const tenant = await getTenantByDomain(host)
+  if (!tenant || String(tenant.id) !== body.tenantId) return null
+
+  const seeker = await findJobSeeker(body.seekerId)
+  if (!seeker || String(getTenantId(seeker)) !== body.tenantId) return null
+
+  return { seeker, tenant }
+}
+
+/**
+ * Save one of the tenant's published jobs to the job seeker's account
+ * @param job The job's ID, or its slug from the job page
+ * @returns The saved job
+ * @throws JobSeekerError when the tenant has no such job
+ */
+export async function saveJob(
+  seeker: JobSeeker,
+  job: { id?: string | number; slug?: string },
+): Promise<Job> {
+  if (job.id === undefined && !job.slug) {
+    throw new JobSeekerError('Job not found')
+  }
+
+  const { docs } = await payload.find({
+    collection: 'jobs',
+    where: {
+      ...(job.id !== undefined ? { id: { equals: job.id } } : { slug: { equals: job.slug } }),
+      tenant: { equals: getTenantId(seeker) },
+      status: { equals: 'published' },
+    },
+    limit: 1,
+    depth: 0,
+  })
+  const found = docs[0] as unknown as Job | undefined
+  if (!found) {
+    throw new JobSeekerError('Job not found')
+  }
+
+  const savedJobIds = getSavedJobIds(seeker)
+  if (!savedJobIds.some((id) => String(id) === String(found.id))) {
+    await payload.update({
+      collection: 'job-seekers' as any, // Type assertion to bypass TypeScript check
+      id: seeker.id,
+      data: { savedJobs: [...savedJobIds, found.id] },
+    })
+  }
+
+  return found
+}
+
+/**
+ * Remove a job from the job seeker's saved jobs
+ */
+export async function removeSavedJob(seeker: JobSeeker, jobId: string | number): Promise<void> {
+  const savedJobIds = getSavedJobIds(seeker)
+  const remaining = savedJobIds.filter((id) => String(id) !== String(jobId))
+  if (remaining.length === savedJobIds.length) return
+
+  await payload.update({
+    collection: 'job-seekers' as any, // Type assertion to bypass TypeScript check
+    id: seeker.id,
+    data: { savedJobs: remaining },
+  })
+}
+
+/**
+ * The job seeker's saved jobs that are still published
+ */
+export async function getSavedJobs(seeker: JobSeeker): Promise<Job[]> {
+  const savedJobIds = getSavedJobIds(seeker)
+  if (savedJobIds.length === 0) return []
+
+  const { docs } = await payload.find({
+    collection: 'jobs',
+    where: {
+      id: { in: savedJobIds },
+      tenant: { equals: getTenantId(seeker) },
+      status: { equals: 'published' },
+    },
+    limit: savedJobIds.length,
+    depth: 0,
+  })
+
+  return docs as unknown as Job[]
+}
+
+/**
+ * Applications the job seeker made to the tenant's jobs, newest first
+ */
+export async function getApplicationHistory(seeker: JobSeeker): Promise<
+  Array<{
+    id: string | number
+    status: string
+    submittedAt?: string
+    job?: { title: string; slug: string } | null
+  }>
+> {
+  const { docs } = await payload.find({
+    collection: 'applications' as any, // Type assertion to bypass TypeScript check
+    where: {
+      email: { equals: normalizeEmail(seeker.email) },
+      tenant: { equals: getTenantId(seeker) },
+    },
+    sort: '-submittedAt',
+    limit: 100,
+    depth: 1,
+  })
+
+  return (docs as any[]).map((application) => ({
+    id: application.id,
+    status: application.status,
+    submittedAt: application.submittedAt,
+    job:
+      application.job && typeof application.job === 'object'
+        ? { title: application.job.title, slug: application.job.slug }
+        : null,
+  }))
+}
+
+/**
+ * The job seeker's job alerts, other than those they've unsubscribed from
+ */
+export async function getJobSeekerAlerts(seeker: JobSeeker): Promise<JobAlert[]> {
+  const { docs } = await payload.find({
+    collection: 'job-alerts' as any, // Type assertion to bypass TypeScript check
+    where: {
+      email: { equals: normalizeEmail(seeker.email) },
+      tenant: { equals: getTenantId(seeker) },
+      status: { not_equals: 'unsubscribed' },
+    },
+    sort: '-createdAt',
+    limit: 100,
+    depth: 1,
+  })
+
+  return docs as unknown as JobAlert[]
+}
+
+/**
+ * Change how often one of the job seeker's alerts is sent, or turn it on or off
+ * Signing in confirms the job seeker's email, so a pending alert can be turned on here without
+ * the confirmation email.
+ * @throws JobSeekerError when the alert isn't the job seeker's
+ */
+export async function updateJobSeekerAlert(
+  seeker: JobSeeker,
+  alertId: string | number,
+  changes: { frequency?: JobAlertFrequency; status?: 'active' | 'unsubscribed' },
+): Promise<JobAlert> {
+  const alerts = await getJobSeekerAlerts(seeker)
+  const alert = alerts.find((candidate) => String(candidate.id) === String(alertId))
+  if (!alert) {
+    throw new JobSeekerError('Job alert not found')
+  }
+
+  const now = new Date().toISOString()
+  const data: Record<string, unknown> = {}
+  if (changes.frequency) data.frequency = changes.frequency
+  if (changes.status === 'active' && alert.status === 'pending') {
+    data.status = 'active'
+    data.confirmedAt = now
+  }
+  if (changes.status === 'unsubscribed') {
+    data.status = 'unsubscribed'
+    data.unsubscribedAt = now
+  }
+
+  return (await payload.update({
+    collection: 'job-alerts' as any, // Type assertion to bypass TypeScript check
+    id: alert.id,
+    data,
+  })) as unknown as JobAlert
+}
+
+async function findCandidate(seeker: JobSeeker): Promise<any> {
+  const { docs } = await payload.find({
+    collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+    where: {
+      email: { equals: normalizeEmail(seeker.email) },
+      tenant: { equals: getTenantId(seeker) },
+    },
+    limit: 1,
+    depth: 0,
+  })
+
+  return docs[0] || null
+}
+
+/**
+ * Copy the job seeker's profile to the tenant's candidate
+ * A job seeker who refused consent is left out of the candidates; one who isn't a candidate
+ * yet only becomes one by consenting.
+ * @returns ID of the candidate, or null when there's none
+ */
+async function syncCandidate(
+  seeker: JobSeeker,
+  update: JobSeekerProfileUpdate,
+): Promise<string | number | null> {
+  const tenantId = getTenantId(seeker)
+
+  if (typeof update.dataUsageConsent === 'boolean') {
+    await recordApplyFormConsent({
+      tenantId,
+      email: seeker.email,
+      granted: update.dataUsageConsent,
+      statement: update.consentStatement,
+      source: 'account',
+      verified: true,
+    })
+  }
+  if (update.dataUsageConsent === false) {
+    return null
+  }
+
+  const profile = {
+    firstName: seeker.firstName || undefined,
+    lastName: seeker.lastName || undefined,
+    phone: seeker.phone || undefined,
+    location: seeker.location || undefined,
+    resumeFile: seeker.resume ? idOf(seeker.resume) : undefined,
+    ...(update.dataUsageConsent ? { dataUsageConsent: true } : {}),
+  }
+
+  const candidate = seeker.candidate
+    ? { id: idOf(seeker.candidate) }
+    : ((await findCandidate(seeker)) as { id: string | number } | null)
+
+  if (candidate) {
+    await payload.update({
+      collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+      id: candidate.id,
+      data: profile,
+    })
+    return candidate.id
+  }
+
+  // Candidates need a name
+  if (!update.dataUsageConsent || !profile.firstName || !profile.lastName) {
+    return null
+  }
+
+  const created = await payload.create({
+    collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+    data: {
+      ...profile,
+      email: normalizeEmail(seeker.email),
+      source: 'website',
+      tenant: tenantId,
+    },
+  })
+  logger.info('Created candidate from job seeker account', {
+    seekerId: seeker.id,
+    candidateId: created.id,
+  })
+
+  return created.id
+}
+
+/**
+ * Update the job seeker's profile and copy it to the tenant's candidate
+ * @returns The updated job seeker
+ */
+export async function updateJobSeekerProfile(
+  seeker: JobSeeker,
+  update: JobSeekerProfileUpdate,
+): Promise<JobSeeker> {
+  const data: Record<string, unknown> = {}
+  for (const field of ['firstName', 'lastName', 'phone', 'location'] as const) {
+    if (update[field] !== undefined) data[field] = update[field]
+  }
+  if (update.resumeId !== undefined) data.resume = update.resumeId
+
+  const updated = (await payload.update({
+    collection: 'job-seekers' as any, // Type assertion to bypass TypeScript check
+    id: seeker.id,
+    data,
+  })) as unknown as JobSeeker
+
+  const candidateId = await syncCandidate(updated, update)
+  if (candidateId && String(idOf(updated.candidate || '')) !== String(candidateId)) {
+    return (await payload.update({
+      collection: 'job-seekers' as any, // Type assertion to bypass TypeScript check
+      id: seeker.id,
+      data: { candidate: candidateId },
+    })) as unknown as JobSeeker
+  }
+
+  return updated
+}
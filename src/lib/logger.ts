@@ -30,6 +30,8 @@ export const logger = pino({
     '*.accessToken',
     '*.refreshToken',
     '*.clientSecret',
+    '*.restToken',
+    '*.idToken',
   ],
   // Customize the log format
   formatters: {
@@ -49,6 +51,9 @@ export const logger = pino({
 
 // Create namespaced loggers for different components
 export const jobAdderLogger = logger.child({ component: 'JobAdder' })
+export const bullhornLogger = logger.child({ component: 'Bullhorn' })
+export const vincereLogger = logger.child({ component: 'Vincere' })
+export const sandboxLogger = logger.child({ component: 'Sandbox' })
 export const syncLogger = logger.child({ component: 'Sync' })
 export const webhookLogger = logger.child({ component: 'Webhook' })
 export const oauthLogger = logger.child({ component: 'OAuth' })
@@ -36,6 +36,11 @@ export async function generateAnalyticsSummary(
       .map((source) => `${source.source}: ${source.count}`)
       .join('\n')
 
+    const { timeToFill } = analyticsData
+    const sourcesOfHire = Object.entries(timeToFill.bySourceOfHire)
+      .map(([source, count]) => `${source}: ${count}`)
+      .join('\n')
+
     // Calculate conversion rates
     const viewToApplyRate = parseFloat(
       (
@@ -70,12 +75,21 @@ export async function generateAnalyticsSummary(
       Traffic Sources:
       ${trafficSources}
       
+      Placements:
+      - Placements: ${timeToFill.placements}
+      - Average Time to Fill: ${timeToFill.averageDays ?? 'n/a'} days
+      - Median Time to Fill: ${timeToFill.medianDays ?? 'n/a'} days
+      
+      Sources of Hire:
+      ${sourcesOfHire}
+      
       Please include:
       1. A brief overview of overall performance
       2. Key insights about the conversion funnel
       3. Observations about top-performing jobs
       4. Recommendations for improving performance
       5. Notable traffic source patterns
+      6. Observations about time to fill and sources of hire
       
       Format the summary in markdown with clear headings and bullet points.
     `
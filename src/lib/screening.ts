@@ -0,0 +1,209 @@
+import payload from 'payload'
+
+/**
+ * Screening questions on the apply form, and the knockout rules that reject or flag applicants
+ * on their answers, see collections/ScreeningQuestions.ts
+ *
+ * An applicant is knocked out by their worst answer: one rejecting answer rejects the
+ * application, otherwise one flagging answer flags it for review. Optional questions left
+ * unanswered never knock anyone out.
+ */
+
+export type ScreeningQuestionType =
+  'yes_no' | 'single_choice' | 'multi_choice' | 'number' | 'text' | 'file'
+
+export type ScreeningOutcome = 'passed' | 'flagged' | 'rejected'
+
+export interface ScreeningQuestion {
+  id: string | number
+  question: string
+  helpText?: string | null
+  type: ScreeningQuestionType
+  options?: { label: string; knockout?: boolean | null }[] | null
+  knockout?: {
+    enabled?: boolean | null
+    action?: 'flag' | 'reject' | null
+    yesNoAnswer?: 'yes' | 'no' | null
+    min?: number | null
+    max?: number | null
+  } | null
+  // Whether the job requires an answer
+  required?: boolean
+}
+
+export interface ScreeningAnswer {
+  questionId: string | number
+  // 'yes' or 'no', an option label, a list of option labels, a number or text
+  answer?: string | string[] | number | null
+  // Media ID of the file answering a file question
+  fileId?: string | number
+}
+
+// An answer as saved on the application
+export interface ScreenedAnswer {
+  question: string
+  screeningQuestion: string | number
+  answer?: string
+  file?: string | number
+  outcome: ScreeningOutcome
+}
+
+const OUTCOME_RANK: Record<ScreeningOutcome, number> = { passed: 0, flagged: 1, rejected: 2 }
+
+/**
+ * The screening questions on a job's apply form, in order
+ * Questions removed from the bank since they were added to the job are skipped.
+ */
+export async function getJobScreeningQuestions(job: {
+  tenant?: unknown
+  screeningQuestions?: { question: unknown; required?: boolean | null }[] | null
+}): Promise<ScreeningQuestion[]> {
+  const rows = job.screeningQuestions || []
+  if (!rows.length) return []
+
+  const ids = rows.map((row) =>
+    typeof row.question === 'object' && row.question
+      ? (row.question as { id: string | number }).id
+      : (row.question as string | number),
+  )
+  const tenantId =
+    typeof job.tenant === 'object' && job.tenant ? (job.tenant as { id: unknown }).id : job.tenant
+
+  const { docs } = await payload.find({
+    collection: 'screening-questions' as any, // Type assertion to bypass TypeScript check
+    where: {
+      id: { in: ids },
+      tenant: { equals: tenantId },
+    },
+    limit: ids.length,
+    depth: 0,
+  })
+  const byId = new Map(docs.map((doc: any) => [String(doc.id), doc as ScreeningQuestion]))
+
+  return rows.flatMap((row, index) => {
+    const question = byId.get(String(ids[index]))
+    return question ? [{ ...question, required: row.required !== false }] : []
+  })
+}
+
+function isAnswered(question: ScreeningQuestion, answer: ScreeningAnswer | undefined): boolean {
+  if (!answer) return false
+  if (question.type === 'file') return Boolean(answer.fileId)
+  if (Array.isArray(answer.answer)) return answer.answer.length > 0
+  return answer.answer !== undefined && answer.answer !== null && answer.answer !== ''
+}
+
+/**
+ * Check the answers to a job's screening questions before the application is saved
+ * @returns Error message, or null when the answers can be saved
+ */
+export function validateScreeningAnswers(
+  questions: ScreeningQuestion[],
+  answers: ScreeningAnswer[],
+): string | null {
+  const byQuestion = new Map(answers.map((answer) => [String(answer.questionId), answer]))
+
+  for (const question of questions) {
+    const answer = byQuestion.get(String(question.id))
+
+    if (!isAnswered(question, answer)) {
+      if (question.required) return `Please answer: ${question.question}`
+      continue
+    }
+
+    const value = answer?.answer
+    const labels = (question.options || []).map((option) => option.label)
+    switch (question.type) {
+      case 'yes_no':
+        if (value !== 'yes' && value !== 'no') return `Answer yes or no to: ${question.question}`
+        break
+      case 'single_choice':
+        if (typeof value !== 'string' || !labels.includes(value)) {
+          return `Choose one of the options for: ${question.question}`
+        }
+        break
+      case 'multi_choice':
+        if (!Array.isArray(value) || !value.every((label) => labels.includes(label))) {
+          return `Choose from the options for: ${question.question}`
+        }
+        break
+      case 'number':
+        if (!Number.isFinite(Number(value))) return `Enter a number for: ${question.question}`
+        break
+    }
+  }
+
+  return null
+}
+
+/**
+ * Outcome of a question's knockout rule for an answer
+ */
+export function evaluateAnswer(
+  question: ScreeningQuestion,
+  answer: ScreeningAnswer | undefined,
+): ScreeningOutcome {
+  const rule = question.knockout
+  if (!rule?.enabled || !isAnswered(question, answer)) return 'passed'
+
+  const value = answer?.answer
+  let knockedOut = false
+  switch (question.type) {
+    case 'yes_no':
+      knockedOut = Boolean(rule.yesNoAnswer) && value === rule.yesNoAnswer
+      break
+    case 'single_choice':
+    case 'multi_choice': {
+      const chosen = Array.isArray(value) ? value : [value]
+      knockedOut = (question.options || []).some(
+        (option) => option.knockout && chosen.includes(option.label),
+      )
+      break
+    }
+    case 'number': {
+      const number = Number(value)
+      knockedOut =
+        (typeof rule.min === 'number' && number < rule.min) ||
+        (typeof rule.max === 'number' && number > rule.max)
+      break
+    }
+  }
+
+  if (!knockedOut) return 'passed'
+  return rule.action === 'reject' ? 'rejected' : 'flagged'
+}
+
+/**
+ * Apply the knockout rules to an applicant's answers
+ * @returns The application's screening result and its answers as saved on the application
+ */
+export function screenAnswers(
+  questions: ScreeningQuestion[],
+  answers: ScreeningAnswer[],
+): { result: ScreeningOutcome; answers: ScreenedAnswer[] } {
+  const byQuestion = new Map(answers.map((answer) => [String(answer.questionId), answer]))
+  let result: ScreeningOutcome = 'passed'
+
+  const screened = questions.flatMap((question) => {
+    const answer = byQuestion.get(String(question.id))
+    if (!isAnswered(question, answer)) return []
+
+    const outcome = evaluateAnswer(question, answer)
+    if (OUTCOME_RANK[outcome] > OUTCOME_RANK[result]) {
+      result = outcome
+    }
+
+    const value = answer?.answer
+    return [
+      {
+        question: question.question,
+        screeningQuestion: question.id,
+        answer: Array.isArray(value) ? value.join(', ') : value != null ? String(value) : undefined,
+        file: answer?.fileId,
+        outcome,
+      },
+    ]
+  })
+
+  return { result, answers: screened }
+}
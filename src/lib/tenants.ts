@@ -44,4 +44,20 @@ export async function getTenantByDomain(domain: string): Promise<Tenant | null>
     console.error('Error in getTenantByDomain:', err);
     return null;
   }
-}
\ No newline at end of file
+}
+/**
+ * Whether a signed-in user is an admin of a tenant.
+ * Admins only manage their own tenant, so a tenant ID taken from a request must match theirs.
+ * @param tenantId The tenant the request is about
+ */
+export function isTenantAdmin(
+  user: { role?: string | null; tenant?: string | number | { id: string | number } | null } | null,
+  tenantId: string | number | null | undefined,
+): boolean {
+  if (user?.role !== 'admin' || !user.tenant || !tenantId) {
+    return false;
+  }
+
+  const userTenantId = typeof user.tenant === 'object' ? user.tenant.id : user.tenant;
+  return String(userTenantId) === String(tenantId);
+}
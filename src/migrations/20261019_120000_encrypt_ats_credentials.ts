@@ -0,0 +1,21 @@
+import { MigrateDownArgs, MigrateUpArgs } from '@payloadcms/db-postgres'
+import { rotateTenantCredentials } from '../plugins/ats/credentials'
+
+/**
+ * Encrypt ATS credentials stored in plaintext on existing tenants
+ * Requires ATS_ENCRYPTION_KEY to be set.
+ */
+export async function up({ payload }: MigrateUpArgs): Promise<void> {
+  if (!process.env.ATS_ENCRYPTION_KEY) {
+    throw new Error('ATS_ENCRYPTION_KEY must be set to encrypt tenant credentials')
+  }
+
+  const result = await rotateTenantCredentials(payload)
+  if (result.errors > 0) {
+    throw new Error(`Failed to encrypt credentials for ${result.errors} tenant(s)`)
+  }
+}
+
+export async function down(_args: MigrateDownArgs): Promise<void> {
+  // Credentials stay encrypted; writing them back to the database in plaintext is not supported
+}
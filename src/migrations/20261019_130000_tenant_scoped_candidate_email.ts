@@ -0,0 +1,24 @@
+import { MigrateDownArgs, MigrateUpArgs, sql } from '@payloadcms/db-postgres'
+
+/**
+ * Make candidate emails unique per tenant instead of across the platform
+ * Existing emails are lower-cased first so the new index also catches case differences. If
+ * a tenant has candidates whose emails differ only by case, merge them before running this.
+ */
+export async function up({ db }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+    DROP INDEX IF EXISTS "candidates_email_idx";
+    UPDATE "candidates" SET "email" = lower(trim("email")) WHERE "email" <> lower(trim("email"));
+    CREATE INDEX IF NOT EXISTS "candidates_email_idx" ON "candidates" USING btree ("email");
+    CREATE UNIQUE INDEX IF NOT EXISTS "candidates_tenant_email_idx" ON "candidates" USING btree ("tenant_id", "email");
+  `)
+}
+
+export async function down({ db }: MigrateDownArgs): Promise<void> {
+  // Fails if the same email is now used at more than one tenant
+  await db.execute(sql`
+    DROP INDEX IF EXISTS "candidates_tenant_email_idx";
+    DROP INDEX IF EXISTS "candidates_email_idx";
+    CREATE UNIQUE INDEX "candidates_email_idx" ON "candidates" USING btree ("email");
+  `)
+}
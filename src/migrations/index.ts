@@ -0,0 +1,15 @@
+import * as migration_20261019_120000_encrypt_ats_credentials from './20261019_120000_encrypt_ats_credentials'
+import * as migration_20261019_130000_tenant_scoped_candidate_email from './20261019_130000_tenant_scoped_candidate_email'
+
+export const migrations = [
+  {
+    up: migration_20261019_120000_encrypt_ats_credentials.up,
+    down: migration_20261019_120000_encrypt_ats_credentials.down,
+    name: '20261019_120000_encrypt_ats_credentials',
+  },
+  {
+    up: migration_20261019_130000_tenant_scoped_candidate_email.up,
+    down: migration_20261019_130000_tenant_scoped_candidate_email.down,
+    name: '20261019_130000_tenant_scoped_candidate_email',
+  },
+]
@@ -172,12 +172,19 @@ export interface Tenant {
   features?: {
     jobAdder?: boolean | null;
     bullhorn?: boolean | null;
+    vincere?: boolean | null;
+    atsSandbox?: boolean | null;
     advancedAnalytics?: boolean | null;
     customBranding?: boolean | null;
     marketingPixels?: boolean | null;
     retargeting?: boolean | null;
   };
   atsConfig?: {
+    oauthState?: {
+      provider?: string | null;
+      nonceHash?: string | null;
+      expiresAt?: string | null;
+    };
     jobAdder?: {
       clientId?: string | null;
       clientSecret?: string | null;
@@ -193,12 +200,243 @@ export interface Tenant {
        * OAuth token expiry date (managed automatically)
        */
       tokenExpiry?: string | null;
+      /**
+       * OAuth scopes granted when the tenant connected (managed automatically)
+       */
+      scopes?: string | null;
+      /**
+       * Why the last token refresh failed, cleared by the next successful refresh (managed automatically)
+       */
+      lastRefreshError?: string | null;
+      lastRefreshErrorAt?: string | null;
+      /**
+       * Secret JobAdder signs webhooks for this tenant with. Rotate it from the ATS health dashboard (managed automatically)
+       */
+      webhookSecret?: string | null;
+      /**
+       * Secret replaced by the last rotation, still accepted until the grace period ends (managed automatically)
+       */
+      previousWebhookSecret?: string | null;
+      previousWebhookSecretExpiresAt?: string | null;
+      webhookSecretRotatedAt?: string | null;
+      /**
+       * Start time of the last successful job sync, used as the incremental sync watermark (managed automatically)
+       */
+      lastJobSync?: string | null;
+      /**
+       * What a full sync does with published jobs that are no longer open in JobAdder
+       */
+      removedJobPolicy?: ('close' | 'archive' | 'ignore') | null;
+      /**
+       * Adjust how JobAdder records map onto ours. Preview changes with /api/ats/mapping/preview
+       */
+      fieldMapping?: {
+        /**
+         * Rules applied to synced jobs, in order
+         */
+        jobs?:
+          | {
+              /**
+               * Field on our record, e.g. "sector" or "salary.min"
+               */
+              target: string;
+              /**
+               * Field on the ATS record, e.g. "category.name" or "customFields.Sector"
+               */
+              source?: string | null;
+              /**
+               * Template used instead of the source field, e.g. "{{location.city}} ({{location.state}})"
+               */
+              expression?: string | null;
+              /**
+               * Regular expression applied to the value; the first capture group is kept, e.g. "\\$([\\d,]+)"
+               */
+              pattern?: string | null;
+              /**
+               * Translate ATS values to ours; values not listed are kept as they are
+               */
+              valueMap?:
+                | {
+                    from: string;
+                    to: string;
+                    id?: string | null;
+                  }[]
+                | null;
+              /**
+               * Used when the ATS record has no value
+               */
+              defaultValue?: string | null;
+              valueType?: ('text' | 'number' | 'boolean' | 'list' | 'sector') | null;
+              id?: string | null;
+            }[]
+          | null;
+        /**
+         * Rules applied to synced candidates, in order
+         */
+        candidates?:
+          | {
+              /**
+               * Field on our record, e.g. "sector" or "salary.min"
+               */
+              target: string;
+              /**
+               * Field on the ATS record, e.g. "category.name" or "customFields.Sector"
+               */
+              source?: string | null;
+              /**
+               * Template used instead of the source field, e.g. "{{location.city}} ({{location.state}})"
+               */
+              expression?: string | null;
+              /**
+               * Regular expression applied to the value; the first capture group is kept, e.g. "\\$([\\d,]+)"
+               */
+              pattern?: string | null;
+              /**
+               * Translate ATS values to ours; values not listed are kept as they are
+               */
+              valueMap?:
+                | {
+                    from: string;
+                    to: string;
+                    id?: string | null;
+                  }[]
+                | null;
+              /**
+               * Used when the ATS record has no value
+               */
+              defaultValue?: string | null;
+              valueType?: ('text' | 'number' | 'boolean' | 'list' | 'sector') | null;
+              id?: string | null;
+            }[]
+          | null;
+      };
+      /**
+       * Where JobAdder records candidate consent. Candidates who refused are not synced, and only those who consented are enriched
+       */
+      consent?: {
+        /**
+         * JobAdder custom field holding consent, e.g. "GDPR Consent". Yes/No, True/False and Opted in/Opted out are understood
+         */
+        customField?: string | null;
+        /**
+         * JobAdder candidate statuses that mean consent was withdrawn
+         */
+        withdrawnStatuses?: ('active' | 'inactive' | 'placed')[] | null;
+      };
+      /**
+       * Write each candidate's talent score, tier, top skills and a link to their profile back to JobAdder when enrichment finishes
+       */
+      enrichmentWriteBack?: {
+        enabled?: boolean | null;
+        /**
+         * Add the summary to the candidate as a note whenever it changes
+         */
+        addNote?: boolean | null;
+        /**
+         * JobAdder note type used for the summary
+         */
+        noteType?: string | null;
+        /**
+         * JobAdder candidate custom field IDs to write the summary to; leave blank to skip a field
+         */
+        customFields?: {
+          score?: number | null;
+          tier?: number | null;
+          topSkills?: number | null;
+          profileUrl?: number | null;
+        };
+      };
     };
     bullhorn?: {
-      apiKey?: string | null;
       clientId?: string | null;
       clientSecret?: string | null;
+      /**
+       * OAuth access token (managed automatically)
+       */
+      accessToken?: string | null;
+      /**
+       * OAuth refresh token (managed automatically)
+       */
+      refreshToken?: string | null;
+      /**
+       * OAuth token expiry date (managed automatically)
+       */
+      tokenExpiry?: string | null;
+      /**
+       * REST API URL for the tenant's Bullhorn data centre (managed automatically)
+       */
+      restUrl?: string | null;
+      /**
+       * REST session token (managed automatically)
+       */
+      restToken?: string | null;
+      /**
+       * Event subscription polled for job order and candidate changes
+       */
+      subscriptionId?: string | null;
+      /**
+       * Start time of the last successful job order sync, used as the incremental sync watermark (managed automatically)
+       */
+      lastJobSync?: string | null;
+      /**
+       * Start time of the last successful candidate sync, used as the incremental sync watermark (managed automatically)
+       */
+      lastCandidateSync?: string | null;
+    };
+    vincere?: {
+      /**
+       * The tenant's Vincere domain, e.g. acme.vincere.io
+       */
+      domain?: string | null;
+      /**
+       * OAuth ID token (managed automatically)
+       */
+      idToken?: string | null;
+      /**
+       * OAuth refresh token (managed automatically)
+       */
+      refreshToken?: string | null;
+      /**
+       * OAuth token expiry date (managed automatically)
+       */
+      tokenExpiry?: string | null;
+      /**
+       * Start time of the last successful position sync, used as the incremental sync watermark (managed automatically)
+       */
+      lastJobSync?: string | null;
+      /**
+       * Start time of the last successful candidate sync, used as the incremental sync watermark (managed automatically)
+       */
+      lastCandidateSync?: string | null;
     };
+    sandbox?: {
+      /**
+       * When the sandbox ATS was connected (managed automatically)
+       */
+      connectedAt?: string | null;
+      /**
+       * Start time of the last successful job sync (managed automatically)
+       */
+      lastJobSync?: string | null;
+      /**
+       * Start time of the last successful candidate sync (managed automatically)
+       */
+      lastCandidateSync?: string | null;
+    };
+    /**
+     * Webhook registration status for each ATS (managed automatically)
+     */
+    webhookRegistrations?:
+      | {
+          provider: 'jobadder' | 'bullhorn' | 'vincere' | 'sandbox';
+          status: 'registered' | 'failed';
+          attemptedAt?: string | null;
+          registeredAt?: string | null;
+          failingSince?: string | null;
+          error?: string | null;
+          id?: string | null;
+        }[]
+      | null;
   };
   /**
    * Configure marketing pixels and tracking for this tenant
@@ -331,7 +569,7 @@ export interface Job {
    * When this job was created
    */
   created_at?: string | null;
-  status: 'draft' | 'published' | 'closed';
+  status: 'draft' | 'published' | 'closed' | 'archived';
   tenant: number | Tenant;
   /**
    * Data from the Applicant Tracking System
@@ -379,6 +617,18 @@ export interface Job {
       | number
       | boolean
       | null;
+    /**
+     * Vincere-specific data
+     */
+    vincere?:
+      | {
+          [k: string]: unknown;
+        }
+      | unknown[]
+      | string
+      | number
+      | boolean
+      | null;
   };
   /**
    * SEO metadata for this job
@@ -461,6 +711,28 @@ export interface Event {
     | number
     | boolean
     | null;
+  /**
+   * Progress of writing this application back to the ATS
+   */
+  atsWriteBack?: {
+    /**
+     * Empty when the job did not come from an ATS
+     */
+    status?: ('pending' | 'retrying' | 'synced' | 'failed') | null;
+    /**
+     * ATS the application is written back to
+     */
+    provider?: ('jobadder' | 'vincere') | null;
+    attempts?: number | null;
+    nextAttemptAt?: string | null;
+    jobAdderCandidateId?: string | null;
+    resumeUploaded?: boolean | null;
+    jobAdderApplicationId?: string | null;
+    vincereCandidateId?: string | null;
+    vincereApplicationId?: string | null;
+    syncedAt?: string | null;
+    error?: string | null;
+  };
   updatedAt: string;
   createdAt: string;
 }
@@ -600,6 +872,7 @@ export interface TenantsSelect<T extends boolean = true> {
     | {
         jobAdder?: T;
         bullhorn?: T;
+        vincere?: T;
         advancedAnalytics?: T;
         customBranding?: T;
         marketingPixels?: T;
@@ -608,6 +881,13 @@ export interface TenantsSelect<T extends boolean = true> {
   atsConfig?:
     | T
     | {
+        oauthState?:
+          | T
+          | {
+              provider?: T;
+              nonceHash?: T;
+              expiresAt?: T;
+            };
         jobAdder?:
           | T
           | {
@@ -616,13 +896,100 @@ export interface TenantsSelect<T extends boolean = true> {
               accessToken?: T;
               refreshToken?: T;
               tokenExpiry?: T;
+              scopes?: T;
+              lastRefreshError?: T;
+              lastRefreshErrorAt?: T;
+              webhookSecret?: T;
+              previousWebhookSecret?: T;
+              previousWebhookSecretExpiresAt?: T;
+              webhookSecretRotatedAt?: T;
+              lastJobSync?: T;
+              removedJobPolicy?: T;
+              fieldMapping?:
+                | T
+                | {
+                    jobs?:
+                    | T
+                    | {
+                        target?: T;
+                        source?: T;
+                        expression?: T;
+                        pattern?: T;
+                        valueMap?:
+                          | T
+                          | {
+                              from?: T;
+                              to?: T;
+                              id?: T;
+                            };
+                        defaultValue?: T;
+                        valueType?: T;
+                        id?: T;
+                      };
+                    candidates?:
+                    | T
+                    | {
+                        target?: T;
+                        source?: T;
+                        expression?: T;
+                        pattern?: T;
+                        valueMap?:
+                          | T
+                          | {
+                              from?: T;
+                              to?: T;
+                              id?: T;
+                            };
+                        defaultValue?: T;
+                        valueType?: T;
+                        id?: T;
+                      };
+                  };
+              consent?:
+                | T
+                | {
+                    customField?: T;
+                    withdrawnStatuses?: T;
+                  };
+              enrichmentWriteBack?:
+                | T
+                | {
+                    enabled?: T;
+                    addNote?: T;
+                    noteType?: T;
+                    customFields?:
+                      | T
+                      | {
+                          score?: T;
+                          tier?: T;
+                          topSkills?: T;
+                          profileUrl?: T;
+                        };
+                  };
             };
         bullhorn?:
           | T
           | {
-              apiKey?: T;
               clientId?: T;
               clientSecret?: T;
+              accessToken?: T;
+              refreshToken?: T;
+              tokenExpiry?: T;
+              restUrl?: T;
+              restToken?: T;
+              subscriptionId?: T;
+              lastJobSync?: T;
+              lastCandidateSync?: T;
+            };
+        vincere?:
+          | T
+          | {
+              domain?: T;
+              idToken?: T;
+              refreshToken?: T;
+              tokenExpiry?: T;
+              lastJobSync?: T;
+              lastCandidateSync?: T;
             };
       };
   marketingConfig?:
@@ -701,6 +1068,7 @@ export interface JobsSelect<T extends boolean = true> {
         bullhornId?: T;
         jobAdder?: T;
         bullhorn?: T;
+        vincere?: T;
       };
   seo?:
     | T
@@ -748,6 +1116,21 @@ export interface EventsSelect<T extends boolean = true> {
   referrer?: T;
   tenant?: T;
   metadata?: T;
+  atsWriteBack?:
+    | T
+    | {
+        status?: T;
+        provider?: T;
+        attempts?: T;
+        nextAttemptAt?: T;
+        jobAdderCandidateId?: T;
+        resumeUploaded?: T;
+        jobAdderApplicationId?: T;
+        vincereCandidateId?: T;
+        vincereApplicationId?: T;
+        syncedAt?: T;
+        error?: T;
+      };
   updatedAt?: T;
   createdAt?: T;
 }
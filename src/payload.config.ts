@@ -7,18 +7,47 @@ import sharp from 'sharp'
 
 import { Users } from './collections/Users'
 import { Media } from './collections/Media'
+import ApplicantFiles from './collections/ApplicantFiles'
 import Tenants from './collections/Tenants'
 import Jobs from './collections/Jobs'
 import Sectors from './collections/Sectors'
 import Events from './collections/Events'
 import Analytics from './collections/Analytics'
 import Candidates from './collections/Candidates'
+import SyncRuns from './collections/SyncRuns'
+import WebhookDeliveries from './collections/WebhookDeliveries'
+import Placements from './collections/Placements'
+import CandidateMerges from './collections/CandidateMerges'
+import ConsentRecords from './collections/ConsentRecords'
+import Applications from './collections/Applications'
+import ScreeningQuestions from './collections/ScreeningQuestions'
+import JobAlerts from './collections/JobAlerts'
+import JobSeekers from './collections/JobSeekers'
 
 const filename = fileURLToPath(import.meta.url)
 const dirname = path.dirname(filename)
 
 // Initialize collections array first
-const collections = [Users, Media, Tenants, Jobs, Sectors, Events, Analytics, Candidates]
+const collections = [
+  Users,
+  Media,
+  ApplicantFiles,
+  Tenants,
+  Jobs,
+  Sectors,
+  Events,
+  Analytics,
+  Candidates,
+  SyncRuns,
+  WebhookDeliveries,
+  Placements,
+  CandidateMerges,
+  ConsentRecords,
+  Applications,
+  ScreeningQuestions,
+  JobAlerts,
+  JobSeekers,
+]
 
 // Use the same database configuration that worked in our test script
 const dbConfig = {
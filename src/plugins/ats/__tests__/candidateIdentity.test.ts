@@ -0,0 +1,224 @@
+import payload from 'payload'
+import {
+  canonicalEmail,
+  detectDuplicates,
+  findTenantCandidate,
+  mergeAtsData,
+  normalizeEmail,
+  normalizePhone,
+  scoreCandidateMatch,
+} from '../candidateIdentity'
+
+// Mock dependencies
+jest.mock('payload', () => ({
+  find: jest.fn(),
+}))
+jest.mock('@/lib/logger', () => ({
+  syncLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+describe('candidateIdentity', () => {
+  describe('normalisation', () => {
+    it('should trim and lowercase emails', () => {
+      expect(normalizeEmail('  Jane.Doe@Example.COM ')).toBe('jane.doe@example.com')
+      expect(normalizeEmail(null)).toBe('')
+    })
+
+    it('should drop tags, and dots for gmail, from canonical emails', () => {
+      expect(canonicalEmail('Jane.Doe+jobs@gmail.com')).toBe('janedoe@gmail.com')
+      expect(canonicalEmail('jane.doe@googlemail.com')).toBe('janedoe@gmail.com')
+      expect(canonicalEmail('jane.doe+jobs@example.com')).toBe('jane.doe@example.com')
+    })
+
+    it('should match national and international phone formats', () => {
+      expect(normalizePhone('0412 345 678')).toBe(normalizePhone('+61 412 345 678'))
+      expect(normalizePhone('123')).toBe('')
+    })
+  })
+
+  describe('scoreCandidateMatch', () => {
+    it('should score the same email, phone and name as a certain match', () => {
+      const match = scoreCandidateMatch(
+        {
+          id: 1,
+          firstName: 'Jane',
+          lastName: 'Doe',
+          email: 'jane@example.com',
+          phone: '0412345678',
+        },
+        {
+          id: 2,
+          firstName: 'jane',
+          lastName: 'DOE',
+          email: 'Jane@Example.com',
+          phone: '+61412345678',
+        },
+      )
+
+      expect(match).toEqual({ score: 1, reasons: ['email', 'phone', 'name'] })
+    })
+
+    it('should match names with first and last swapped', () => {
+      const match = scoreCandidateMatch(
+        { id: 1, firstName: 'Jane', lastName: 'Doe', phone: '0412345678' },
+        { id: 2, firstName: 'Doe', lastName: 'Jane', phone: '0412345678' },
+      )
+
+      expect(match.reasons).toEqual(['phone', 'name'])
+      expect(match.score).toBe(0.65)
+    })
+
+    it('should not match different people with common details', () => {
+      const match = scoreCandidateMatch(
+        { id: 1, firstName: 'Jane', lastName: 'Doe', email: 'jane@example.com' },
+        { id: 2, firstName: 'Michael', lastName: 'Smith', email: 'msmith@example.com' },
+      )
+
+      expect(match).toEqual({ score: 0, reasons: [] })
+    })
+  })
+
+  describe('detectDuplicates', () => {
+    it('should report each likely duplicate pair once, most likely first', () => {
+      const pairs = detectDuplicates([
+        { id: 1, firstName: 'Jane', lastName: 'Doe', email: 'jane.doe@gmail.com' },
+        {
+          id: 2,
+          firstName: 'Jane',
+          lastName: 'Doe',
+          email: 'janedoe+work@gmail.com',
+          phone: '0412345678',
+        },
+        { id: 3, firstName: 'Jayne', lastName: 'Doe', phone: '+61 412 345 678' },
+        { id: 4, firstName: 'Michael', lastName: 'Smith', email: 'michael@example.com' },
+      ])
+
+      expect(pairs.map((pair) => pair.candidates.map((candidate) => candidate.id))).toEqual([
+        [1, 2],
+        [2, 3],
+      ])
+      expect(pairs[0].reasons).toEqual(['email', 'name'])
+    })
+
+    it('should respect the threshold', () => {
+      const candidates = [
+        { id: 1, firstName: 'Jane', lastName: 'Doe' },
+        { id: 2, firstName: 'Jane', lastName: 'Doe' },
+      ]
+
+      expect(detectDuplicates(candidates)).toEqual([])
+      expect(detectDuplicates(candidates, 0.3)).toHaveLength(1)
+    })
+  })
+
+  describe('findTenantCandidate', () => {
+    const identity = {
+      source: 'jobadder',
+      sourceId: '123',
+      email: 'Jane@Example.com',
+      idPath: 'atsData.jobAdder.id',
+    }
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+    })
+
+    it('should match the ATS record within the tenant first', async () => {
+      ;(payload.find as jest.Mock).mockResolvedValueOnce({ docs: [{ id: 1 }] })
+
+      const result = await findTenantCandidate(7, identity)
+
+      expect(result).toEqual({ candidate: { id: 1 }, matchedBy: 'ats' })
+      expect(payload.find).toHaveBeenCalledTimes(1)
+      expect(payload.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          collection: 'candidates',
+          where: {
+            or: [
+              { 'atsData.source': { equals: 'jobadder' }, 'atsData.sourceId': { equals: '123' } },
+              { 'atsData.jobAdder.id': { equals: '123' } },
+            ],
+            tenant: { equals: 7 },
+          },
+        }),
+      )
+    })
+
+    it('should follow a merge to the candidate it was merged into', async () => {
+      ;(payload.find as jest.Mock)
+        .mockResolvedValueOnce({ docs: [] })
+        .mockResolvedValueOnce({ docs: [{ id: 50, primary: 2 }] })
+        .mockResolvedValueOnce({ docs: [{ id: 2 }] })
+
+      const result = await findTenantCandidate(7, identity)
+
+      expect(result).toEqual({ candidate: { id: 2 }, matchedBy: 'merged' })
+      expect(payload.find).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          collection: 'candidate-merges',
+          where: {
+            'mergedSource.source': { equals: 'jobadder' },
+            'mergedSource.sourceId': { equals: '123' },
+            tenant: { equals: 7 },
+          },
+        }),
+      )
+    })
+
+    it('should fall back to the normalised email within the tenant', async () => {
+      ;(payload.find as jest.Mock)
+        .mockResolvedValueOnce({ docs: [] })
+        .mockResolvedValueOnce({ docs: [] })
+        .mockResolvedValueOnce({ docs: [{ id: 3 }] })
+
+      const result = await findTenantCandidate(7, identity)
+
+      expect(result).toEqual({ candidate: { id: 3 }, matchedBy: 'email' })
+      expect(payload.find).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          collection: 'candidates',
+          where: {
+            email: { equals: 'jane@example.com' },
+            tenant: { equals: 7 },
+          },
+        }),
+      )
+    })
+
+    it('should return null for a new person', async () => {
+      ;(payload.find as jest.Mock).mockResolvedValue({ docs: [] })
+
+      expect(await findTenantCandidate(7, { source: 'vincere', sourceId: '9' })).toBeNull()
+      expect(payload.find).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('mergeAtsData', () => {
+    const existing = { source: 'jobadder', sourceId: '1', vincereId: 'v-1' }
+    const incoming = { source: 'jobadder', sourceId: '2', lastSynced: 'now' }
+
+    it('should take the incoming identity and keep other providers IDs', () => {
+      expect(mergeAtsData(existing, incoming, 'ats')).toEqual({
+        source: 'jobadder',
+        sourceId: '2',
+        vincereId: 'v-1',
+        lastSynced: 'now',
+      })
+    })
+
+    it('should keep the identity of the candidate a record was merged into', () => {
+      expect(mergeAtsData(existing, incoming, 'merged')).toEqual({
+        source: 'jobadder',
+        sourceId: '1',
+        vincereId: 'v-1',
+        lastSynced: 'now',
+      })
+    })
+  })
+})
@@ -0,0 +1,202 @@
+import payload from 'payload'
+import {
+  CandidateMergeError,
+  combineEntries,
+  mergeCandidates,
+  planCandidateMerge,
+} from '../candidateMerge'
+
+// Mock dependencies
+jest.mock('payload', () => ({
+  findByID: jest.fn(),
+  create: jest.fn(),
+  update: jest.fn(),
+  delete: jest.fn(),
+}))
+jest.mock('@/lib/logger', () => ({
+  syncLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+describe('candidateMerge', () => {
+  const primary = {
+    id: 1,
+    tenant: 7,
+    firstName: 'Jane',
+    lastName: 'Doe',
+    email: 'jane@example.com',
+    phone: null,
+    currentJobTitle: 'Developer',
+    skills: [{ id: 'a', skill: 'React' }],
+    workTypes: ['fullTime'],
+    aiEnrichment: {
+      status: 'completed',
+      lastProcessed: '2025-01-01T00:00:00Z',
+      extractedSkills: [{ id: 'x', skill: 'React' }],
+    },
+    atsData: { source: 'jobadder', sourceId: 'ja-1' },
+  }
+
+  const duplicate = {
+    id: 2,
+    tenant: 7,
+    firstName: 'Jane',
+    lastName: 'Doe',
+    email: 'jane.doe@work.com',
+    phone: '0412345678',
+    currentJobTitle: 'Senior Developer',
+    skills: [
+      { id: 'b', skill: 'react' },
+      { id: 'c', skill: 'Node.js' },
+    ],
+    workTypes: ['contract'],
+    aiEnrichment: {
+      status: 'completed',
+      lastProcessed: '2025-03-01T00:00:00Z',
+      extractedSkills: [{ id: 'y', skill: 'TypeScript' }],
+    },
+    overallScore: 80,
+    atsData: { source: 'vincere', sourceId: 'v-1' },
+  }
+
+  describe('combineEntries', () => {
+    it('should add only new entries from the duplicate, without their IDs', () => {
+      expect(combineEntries(primary.skills, duplicate.skills, ['skill'])).toEqual([
+        { id: 'a', skill: 'React' },
+        { skill: 'Node.js' },
+      ])
+    })
+  })
+
+  describe('planCandidateMerge', () => {
+    it('should keep the primary for conflicts and fill gaps from the duplicate', () => {
+      const plan = planCandidateMerge(primary, duplicate)
+
+      expect(plan.conflicts.map((conflict) => [conflict.field, conflict.chosen])).toEqual([
+        ['email', 'primary'],
+        ['currentJobTitle', 'primary'],
+        ['enrichment', 'duplicate'],
+      ])
+      expect(plan.data.email).toBeUndefined()
+      expect(plan.data.phone).toBe('0412345678')
+      expect(plan.data.workTypes).toEqual(['fullTime', 'contract'])
+      expect(plan.data.skills).toHaveLength(2)
+    })
+
+    it('should apply the admin choices', () => {
+      const plan = planCandidateMerge(primary, duplicate, {
+        email: 'duplicate',
+        enrichment: 'primary',
+      })
+
+      expect(plan.data.email).toBe('jane.doe@work.com')
+      expect(plan.data.overallScore).toBeUndefined()
+      expect(plan.data.aiEnrichment).toEqual({
+        status: 'completed',
+        lastProcessed: '2025-01-01T00:00:00Z',
+        extractedSkills: [{ skill: 'React' }, { skill: 'TypeScript' }],
+      })
+    })
+
+    it('should take the more recent enrichment and keep skills from both', () => {
+      const plan = planCandidateMerge(primary, duplicate)
+
+      expect(plan.data.overallScore).toBe(80)
+      expect(plan.data.aiEnrichment).toEqual({
+        status: 'completed',
+        lastProcessed: '2025-03-01T00:00:00Z',
+        extractedSkills: [{ skill: 'TypeScript' }, { skill: 'React' }],
+      })
+    })
+  })
+
+  describe('mergeCandidates', () => {
+    const mockCandidates = (candidates: Record<string, any>[]) =>
+      (payload.findByID as jest.Mock).mockImplementation(({ id }) => {
+        const candidate = candidates.find((item) => item.id === id)
+        return candidate ? Promise.resolve(candidate) : Promise.reject(new Error('Not Found'))
+      })
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+      ;(payload.create as jest.Mock).mockResolvedValue({ id: 50 })
+      ;(payload.update as jest.Mock).mockResolvedValue({ id: 1 })
+      ;(payload.delete as jest.Mock).mockResolvedValue({ id: 2 })
+    })
+
+    it('should record the merge, move its records and delete the duplicate before saving', async () => {
+      mockCandidates([primary, duplicate])
+
+      const result = await mergeCandidates({
+        tenantId: 7,
+        primaryId: 1,
+        duplicateId: 2,
+        choices: { email: 'duplicate' },
+        mergedBy: 3,
+      })
+
+      expect(result.mergeId).toBe(50)
+      expect(payload.create).toHaveBeenCalledWith({
+        collection: 'candidate-merges',
+        data: expect.objectContaining({
+          tenant: 7,
+          primary: 1,
+          mergedCandidateId: '2',
+          mergedSource: { source: 'vincere', sourceId: 'v-1' },
+          snapshot: duplicate,
+          mergedBy: 3,
+        }),
+      })
+      expect(payload.update).toHaveBeenNthCalledWith(1, {
+        collection: 'placements',
+        where: { candidate: { equals: 2 } },
+        data: { candidate: 1 },
+      })
+      expect(payload.update).toHaveBeenNthCalledWith(2, {
+        collection: 'applications',
+        where: { candidate: { equals: 2 } },
+        data: { candidate: 1 },
+      })
+      expect(payload.update).toHaveBeenNthCalledWith(3, {
+        collection: 'job-seekers',
+        where: { candidate: { equals: 2 } },
+        data: { candidate: 1 },
+      })
+      expect(payload.update).toHaveBeenNthCalledWith(4, {
+        collection: 'candidates',
+        id: 1,
+        data: expect.objectContaining({ email: 'jane.doe@work.com' }),
+      })
+
+      const deleteOrder = (payload.delete as jest.Mock).mock.invocationCallOrder[0]
+      const updateOrders = (payload.update as jest.Mock).mock.invocationCallOrder
+      expect(deleteOrder).toBeGreaterThan(updateOrders[2])
+      expect(deleteOrder).toBeLessThan(updateOrders[3])
+    })
+
+    it('should refuse candidates from another tenant', async () => {
+      mockCandidates([primary, { ...duplicate, tenant: 8 }])
+
+      await expect(mergeCandidates({ tenantId: 7, primaryId: 1, duplicateId: 2 })).rejects.toThrow(
+        CandidateMergeError,
+      )
+      expect(payload.create).not.toHaveBeenCalled()
+    })
+
+    it('should refuse missing candidates and merging a candidate into itself', async () => {
+      mockCandidates([primary])
+
+      await expect(mergeCandidates({ tenantId: 7, primaryId: 1, duplicateId: 2 })).rejects.toThrow(
+        'Candidate not found',
+      )
+      await expect(mergeCandidates({ tenantId: 7, primaryId: 1, duplicateId: 1 })).rejects.toThrow(
+        CandidateMergeError,
+      )
+      expect(payload.delete).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,167 @@
+import payload from 'payload'
+import { findApplyFormConsent, parseConsentValue, resolveConsent } from '../consent'
+
+// Mock dependencies
+jest.mock('payload', () => ({
+  find: jest.fn(),
+  create: jest.fn(),
+}))
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+describe('candidate consent', () => {
+  describe('parseConsentValue', () => {
+    it('should understand common answers and ignore anything else', () => {
+      expect(parseConsentValue(true)).toBe(true)
+      expect(parseConsentValue('Yes')).toBe(true)
+      expect(parseConsentValue(' Opted-In ')).toBe(true)
+      expect(parseConsentValue(1)).toBe(true)
+      expect(parseConsentValue('No')).toBe(false)
+      expect(parseConsentValue('opt_out')).toBe(false)
+      expect(parseConsentValue(0)).toBe(false)
+      expect(parseConsentValue('Maybe')).toBeUndefined()
+      expect(parseConsentValue('')).toBeUndefined()
+      expect(parseConsentValue(undefined)).toBeUndefined()
+    })
+  })
+
+  describe('resolveConsent', () => {
+    const applyForm = { granted: true, capturedAt: '2025-05-01T00:00:00.000Z' }
+
+    it('should refuse candidates who opted out of internal use, whatever else says', () => {
+      expect(
+        resolveConsent({
+          candidate: {
+            dataUsageConsent: true,
+            dataSharingPreferences: { allowInternalUse: false },
+          },
+          applyForm,
+          atsField: { name: 'GDPR Consent', value: 'Yes' },
+        }),
+      ).toEqual({
+        status: 'refused',
+        source: 'candidate_preferences',
+        reason: 'Candidate opted out of internal use of their data',
+      })
+    })
+
+    it('should prefer the apply form answer over the ATS', () => {
+      expect(
+        resolveConsent({
+          applyForm: { ...applyForm, granted: false },
+          atsField: { name: 'GDPR Consent', value: 'Yes' },
+        }),
+      ).toEqual(expect.objectContaining({ status: 'refused', source: 'apply_form' }))
+      expect(
+        resolveConsent({
+          applyForm,
+          atsField: { name: 'GDPR Consent', value: 'No' },
+          atsUpdatedAt: '2025-04-01T00:00:00.000Z',
+        }),
+      ).toEqual(expect.objectContaining({ status: 'granted', source: 'apply_form' }))
+    })
+
+    it('should let the ATS decide when its record changed after the apply form', () => {
+      expect(
+        resolveConsent({
+          applyForm,
+          atsField: { name: 'GDPR Consent', value: 'No' },
+          atsUpdatedAt: '2025-06-01T00:00:00.000Z',
+        }),
+      ).toEqual(expect.objectContaining({ status: 'refused', source: 'ats_field' }))
+      expect(
+        resolveConsent({
+          applyForm,
+          atsStatus: { status: 'inactive', withdrawn: true },
+          atsUpdatedAt: '2025-06-01T00:00:00.000Z',
+        }),
+      ).toEqual(expect.objectContaining({ status: 'refused', source: 'ats_status' }))
+    })
+
+    it('should let an ATS refusal win when the ATS does not say when it changed', () => {
+      expect(
+        resolveConsent({ applyForm, atsStatus: { status: 'inactive', withdrawn: true } }),
+      ).toEqual(expect.objectContaining({ status: 'refused', source: 'ats_status' }))
+      expect(
+        resolveConsent({
+          applyForm: { ...applyForm, granted: false },
+          atsField: { name: 'GDPR Consent', value: 'Yes' },
+        }),
+      ).toEqual(expect.objectContaining({ status: 'refused', source: 'apply_form' }))
+    })
+
+    it('should use the ATS field before the ATS status', () => {
+      const atsStatus = { status: 'inactive', withdrawn: true }
+
+      expect(
+        resolveConsent({ atsField: { name: 'GDPR Consent', value: 'Yes' }, atsStatus }),
+      ).toEqual({
+        status: 'granted',
+        source: 'ats_field',
+        reason: 'ATS field "GDPR Consent" is "Yes"',
+      })
+      expect(
+        resolveConsent({
+          candidate: { dataUsageConsent: true },
+          atsField: { name: 'GDPR Consent', value: 'Unsure' },
+          atsStatus,
+        }),
+      ).toEqual({
+        status: 'refused',
+        source: 'ats_status',
+        reason: 'ATS status "inactive" withdraws consent',
+      })
+    })
+
+    it('should fall back to consent recorded on the candidate, then unknown', () => {
+      expect(resolveConsent({ candidate: { dataUsageConsent: true } })).toEqual(
+        expect.objectContaining({ status: 'granted', source: 'candidate_record' }),
+      )
+      expect(
+        resolveConsent({
+          candidate: { dataUsageConsent: false },
+          atsStatus: { status: 'active', withdrawn: false },
+        }),
+      ).toEqual({ status: 'unknown', source: 'none', reason: 'No consent recorded' })
+    })
+  })
+
+  describe('findApplyFormConsent', () => {
+    beforeEach(() => {
+      jest.clearAllMocks()
+    })
+
+    it('should look up the latest verified record for the normalised email', async () => {
+      ;(payload.find as jest.Mock).mockResolvedValue({
+        docs: [{ granted: true, capturedAt: '2025-05-01T00:00:00.000Z' }],
+      })
+
+      await expect(findApplyFormConsent(7, ' Jane@Example.com ')).resolves.toEqual({
+        granted: true,
+        capturedAt: '2025-05-01T00:00:00.000Z',
+      })
+      expect(payload.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          collection: 'consent-records',
+          where: {
+            email: { equals: 'jane@example.com' },
+            tenant: { equals: 7 },
+            verified: { equals: true },
+          },
+          sort: '-capturedAt',
+        }),
+      )
+    })
+
+    it('should not look up candidates without an email', async () => {
+      await expect(findApplyFormConsent(7, null)).resolves.toBeNull()
+      expect(payload.find).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,226 @@
+import crypto from 'crypto'
+import { afterRead } from 'payload/dist/fields/hooks/afterRead'
+import { beforeChange as beforeChangeFields } from 'payload/dist/fields/hooks/beforeChange'
+import {
+  MASKED_SECRET,
+  decryptSecret,
+  encryptSecret,
+  encryptedFieldHooks,
+  isEncrypted,
+  rotateSecret,
+  rotateTenantCredentials,
+} from '../credentials'
+
+jest.mock('@/lib/logger', () => ({
+  oauthLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+describe('credentials', () => {
+  const originalEnv = process.env
+  const oldKey = crypto.randomBytes(32).toString('base64')
+  const newKey = crypto.randomBytes(32).toString('base64')
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      ATS_ENCRYPTION_KEY: oldKey,
+      ATS_ENCRYPTION_KEY_ID: 'k1',
+    }
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  const rotateKeys = () => {
+    process.env.ATS_ENCRYPTION_KEY = newKey
+    process.env.ATS_ENCRYPTION_KEY_ID = 'k2'
+    process.env.ATS_ENCRYPTION_PREVIOUS_KEYS = `k1:${oldKey}`
+  }
+
+  it('should encrypt and decrypt a credential', () => {
+    const encrypted = encryptSecret('refresh-token')
+
+    expect(isEncrypted(encrypted)).toBe(true)
+    expect(encrypted).not.toContain('refresh-token')
+    expect(encrypted.startsWith('enc:k1:')).toBe(true)
+    expect(decryptSecret(encrypted)).toBe('refresh-token')
+  })
+
+  it('should use a fresh data key for every value', () => {
+    expect(encryptSecret('same')).not.toBe(encryptSecret('same'))
+  })
+
+  it('should pass through values stored before encryption', () => {
+    expect(decryptSecret('plain-token')).toBe('plain-token')
+    expect(decryptSecret(null)).toBeNull()
+  })
+
+  it('should reject tampered values', () => {
+    const parts = encryptSecret('refresh-token').split(':')
+    parts[5] = Buffer.from('tampered').toString('base64')
+
+    expect(() => decryptSecret(parts.join(':'))).toThrow()
+  })
+
+  it('should refuse to store plaintext in production without a key', () => {
+    delete process.env.ATS_ENCRYPTION_KEY
+    ;(process.env as Record<string, string>).NODE_ENV = 'production'
+
+    expect(() => encryptSecret('refresh-token')).toThrow('ATS_ENCRYPTION_KEY is not configured')
+  })
+
+  describe('rotateSecret', () => {
+    it('should re-wrap values under an old key', () => {
+      const encrypted = encryptSecret('refresh-token')
+      rotateKeys()
+
+      const rotated = rotateSecret(encrypted) as string
+
+      expect(rotated.startsWith('enc:k2:')).toBe(true)
+      expect(decryptSecret(rotated)).toBe('refresh-token')
+
+      delete process.env.ATS_ENCRYPTION_PREVIOUS_KEYS
+      expect(decryptSecret(rotated)).toBe('refresh-token')
+      expect(() => decryptSecret(encrypted)).toThrow('Encryption key k1 is not configured')
+    })
+
+    it('should leave current values alone and encrypt plaintext', () => {
+      expect(rotateSecret(encryptSecret('refresh-token'))).toBeNull()
+      expect(decryptSecret(rotateSecret('plain-token') as string)).toBe('plain-token')
+    })
+  })
+
+  describe('encryptedFieldHooks', () => {
+    const {
+      beforeChange: [beforeChange],
+      afterRead: [maskOnRead],
+    } = encryptedFieldHooks('atsConfig.jobAdder.refreshToken')
+
+    it('should encrypt new values and keep encrypted ones', async () => {
+      const encrypted = await beforeChange({ value: 'token' } as any)
+      expect(decryptSecret(encrypted)).toBe('token')
+      expect(await beforeChange({ value: encrypted } as any)).toBe(encrypted)
+    })
+
+    it('should mask values for signed-in users only', () => {
+      expect(maskOnRead({ value: 'enc:stored', req: { user: { id: 1 } } } as any)).toBe(
+        MASKED_SECRET,
+      )
+      expect(maskOnRead({ value: 'enc:stored', req: {} } as any)).toBe('enc:stored')
+    })
+
+    it('should keep the stored value when an admin saves the masked form', async () => {
+      const stored = {
+        id: 7,
+        name: 'Acme',
+        atsConfig: { jobAdder: { refreshToken: encryptSecret('refresh-token') } },
+      }
+      const collection = {
+        slug: 'tenants',
+        fields: [
+          { name: 'name', type: 'text' },
+          {
+            name: 'atsConfig',
+            type: 'group',
+            fields: [
+              {
+                name: 'jobAdder',
+                type: 'group',
+                fields: [
+                  {
+                    name: 'refreshToken',
+                    type: 'text',
+                    hooks: encryptedFieldHooks('atsConfig.jobAdder.refreshToken'),
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      } as any
+      const findOne = jest.fn().mockResolvedValue(structuredClone(stored))
+      const req = {
+        user: { id: 1, role: 'admin' },
+        context: {},
+        payload: { config: { defaultDepth: 0, maxDepth: 0 }, db: { findOne } },
+      } as any
+
+      // updateByID reads the original document with the admin's request, so it is masked too
+      const originalDoc = await afterRead({
+        collection,
+        context: req.context,
+        depth: 0,
+        doc: structuredClone(stored),
+        global: null,
+        overrideAccess: true,
+        req,
+        showHiddenFields: false,
+      } as any)
+      expect(originalDoc.atsConfig.jobAdder.refreshToken).toBe(MASKED_SECRET)
+
+      const saved: any = await beforeChangeFields({
+        id: 7,
+        collection,
+        context: req.context,
+        data: { ...originalDoc, name: 'Acme Recruitment' },
+        doc: originalDoc,
+        docWithLocales: originalDoc,
+        global: null,
+        operation: 'update',
+        req,
+        skipValidation: true,
+      } as any)
+
+      expect(saved.atsConfig.jobAdder.refreshToken).toBe(stored.atsConfig.jobAdder.refreshToken)
+      expect(decryptSecret(saved.atsConfig.jobAdder.refreshToken)).toBe('refresh-token')
+      expect(findOne).toHaveBeenCalledWith(
+        expect.objectContaining({ collection: 'tenants', where: { id: { equals: 7 } } }),
+      )
+    })
+  })
+
+  describe('rotateTenantCredentials', () => {
+    it('should update only tenants with outdated credentials', async () => {
+      const current = encryptSecret('current')
+      const payload = {
+        find: jest.fn().mockResolvedValue({
+          docs: [
+            { id: 1, atsConfig: { jobAdder: { accessToken: 'plain', refreshToken: current } } },
+            { id: 2, atsConfig: { vincere: { refreshToken: current } } },
+            { id: 3 },
+          ],
+        }),
+        update: jest.fn().mockResolvedValue({}),
+      }
+
+      const result = await rotateTenantCredentials(payload as any)
+
+      expect(result).toEqual({ tenants: 3, updated: 1, errors: 0 })
+      expect(payload.update).toHaveBeenCalledTimes(1)
+
+      const { id, data } = payload.update.mock.calls[0][0]
+      expect(id).toBe(1)
+      expect(decryptSecret(data.atsConfig.jobAdder.accessToken)).toBe('plain')
+      expect(data.atsConfig.jobAdder.refreshToken).toBeUndefined()
+    })
+
+    it('should only look at the given tenant', async () => {
+      const payload = {
+        find: jest.fn().mockResolvedValue({ docs: [] }),
+        update: jest.fn(),
+      }
+
+      await rotateTenantCredentials(payload as any, { tenantId: 2 })
+
+      expect(payload.find).toHaveBeenCalledWith(
+        expect.objectContaining({ collection: 'tenants', where: { id: { equals: 2 } } }),
+      )
+    })
+  })
+})
@@ -0,0 +1,225 @@
+import {
+  applyFieldMapping,
+  getValueAtPath,
+  resolveRuleValue,
+  setValueAtPath,
+} from '../fieldMapping'
+import payload from 'payload'
+import { syncLogger } from '@/lib/logger'
+
+// Mock dependencies
+jest.mock('payload', () => ({
+  find: jest.fn(),
+}))
+jest.mock('@/lib/logger', () => ({
+  syncLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+describe('fieldMapping', () => {
+  const jobAdderJob = {
+    id: 'job-123',
+    title: 'Senior Developer',
+    workType: 'Contract',
+    salary: { description: '$95,000 - $110,000 per annum' },
+    location: { city: 'Sydney', state: 'NSW' },
+    category: { name: 'Information Technology' },
+    customFields: [
+      { fieldId: 1, fieldName: 'Sector', value: 'Technology' },
+      { fieldId: 2, fieldName: 'Remote', value: 'Yes' },
+    ],
+  }
+
+  const transformed = {
+    title: 'Senior Developer',
+    type: 'contract',
+    location: 'Sydney',
+    salary: { min: 0, max: 0 },
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('getValueAtPath', () => {
+    it('should read nested paths', () => {
+      expect(getValueAtPath(jobAdderJob, 'category.name')).toBe('Information Technology')
+      expect(getValueAtPath(jobAdderJob, 'location.missing.city')).toBeUndefined()
+    })
+
+    it('should read custom fields by name', () => {
+      expect(getValueAtPath(jobAdderJob, 'customFields.Sector')).toBe('Technology')
+      expect(getValueAtPath(jobAdderJob, 'customFields.0.fieldName')).toBe('Sector')
+    })
+  })
+
+  describe('resolveRuleValue', () => {
+    it('should translate values through the value map ignoring case', async () => {
+      const value = await resolveRuleValue(
+        {
+          target: 'type',
+          source: 'workType',
+          valueMap: [{ from: 'contract', to: 'temporary' }],
+        },
+        jobAdderJob,
+      )
+
+      expect(value).toBe('temporary')
+    })
+
+    it('should keep the first capture group of a pattern and convert to a number', async () => {
+      const value = await resolveRuleValue(
+        {
+          target: 'salary.min',
+          source: 'salary.description',
+          pattern: '\\$([\\d,]+)',
+          valueType: 'number',
+        },
+        jobAdderJob,
+      )
+
+      expect(value).toBe(95000)
+    })
+
+    it('should render expressions', async () => {
+      const value = await resolveRuleValue(
+        { target: 'location', expression: '{{location.city}}, {{ location.state }}' },
+        jobAdderJob,
+      )
+
+      expect(value).toBe('Sydney, NSW')
+    })
+
+    it('should fall back to the default value', async () => {
+      expect(
+        await resolveRuleValue(
+          { target: 'type', source: 'missing', defaultValue: 'full-time' },
+          {},
+        ),
+      ).toBe('full-time')
+      expect(await resolveRuleValue({ target: 'type', source: 'missing' }, {})).toBeUndefined()
+    })
+
+    it('should convert booleans and lists', async () => {
+      expect(
+        await resolveRuleValue(
+          { target: 'remote', source: 'customFields.Remote', valueType: 'boolean' },
+          jobAdderJob,
+        ),
+      ).toBe(true)
+      expect(
+        await resolveRuleValue(
+          { target: 'tags', source: 'tags', valueType: 'list' },
+          { tags: 'React; Node.js,,TypeScript' },
+        ),
+      ).toEqual(['React', 'Node.js', 'TypeScript'])
+    })
+
+    it('should look up sectors by name', async () => {
+      ;(payload.find as jest.Mock).mockResolvedValue({ docs: [{ id: 7 }] })
+
+      const value = await resolveRuleValue(
+        { target: 'sector', source: 'customFields.Sector', valueType: 'sector' },
+        jobAdderJob,
+      )
+
+      expect(value).toBe(7)
+      expect(payload.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          collection: 'sectors',
+          where: {
+            or: [{ name: { equals: 'Technology' } }, { slug: { equals: 'technology' } }],
+          },
+        }),
+      )
+    })
+  })
+
+  describe('applyFieldMapping', () => {
+    it('should return the transformed record untouched without rules', async () => {
+      expect(await applyFieldMapping(jobAdderJob, transformed, [], 'jobs')).toBe(transformed)
+    })
+
+    it('should apply rules to a copy of the transformed record', async () => {
+      const mapped = await applyFieldMapping(
+        jobAdderJob,
+        transformed,
+        [
+          {
+            target: 'salary.min',
+            source: 'salary.description',
+            pattern: '\\$([\\d,]+)',
+            valueType: 'number',
+          },
+          { target: 'location', expression: '{{location.city}} ({{location.state}})' },
+          { target: 'status', source: 'missing' },
+        ],
+        'jobs',
+      )
+
+      expect(mapped).toEqual({
+        ...transformed,
+        location: 'Sydney (NSW)',
+        salary: { min: 95000, max: 0 },
+      })
+      expect(transformed.salary.min).toBe(0)
+    })
+
+    it('should skip rules that fail and keep applying the rest', async () => {
+      const mapped = await applyFieldMapping(
+        jobAdderJob,
+        transformed,
+        [
+          { target: 'title', source: 'title', pattern: '(unclosed' },
+          { target: 'location', source: 'location.state' },
+        ],
+        'jobs',
+      )
+
+      expect(mapped.title).toBe('Senior Developer')
+      expect(mapped.location).toBe('NSW')
+      expect(syncLogger.warn).toHaveBeenCalledWith(
+        'Skipping field mapping rule',
+        expect.objectContaining({ target: 'title' }),
+      )
+    })
+
+    it('should only write the allowed fields of the record type', async () => {
+      const mapped = await applyFieldMapping(
+        jobAdderJob,
+        transformed,
+        [
+          { target: 'tenant', source: 'id' },
+          { target: 'atsData.source', defaultValue: 'sandbox' },
+          { target: '__proto__.isAdmin', defaultValue: 'true', valueType: 'boolean' },
+          { target: 'firstName', source: 'title' },
+          { target: 'sector', source: 'category.name', valueType: 'text' },
+        ],
+        'jobs',
+      )
+
+      expect(mapped).toEqual({ ...transformed, sector: 'Information Technology' })
+      expect(({} as Record<string, unknown>).isAdmin).toBeUndefined()
+      expect(syncLogger.warn).toHaveBeenCalledTimes(4)
+    })
+  })
+
+  describe('setValueAtPath', () => {
+    it('should refuse paths that reach the prototype', () => {
+      const record: Record<string, unknown> = {}
+
+      expect(() => setValueAtPath(record, '__proto__.isAdmin', true)).toThrow('Invalid path')
+      expect(() => setValueAtPath(record, 'constructor.prototype.isAdmin', true)).toThrow(
+        'Invalid path',
+      )
+      expect(({} as Record<string, unknown>).isAdmin).toBeUndefined()
+
+      setValueAtPath(record, 'salary.min', 1)
+      expect(record).toEqual({ salary: { min: 1 } })
+    })
+  })
+})
@@ -0,0 +1,194 @@
+import payload from 'payload'
+import {
+  assessIssues,
+  findHealthIssues,
+  getConnectionHealth,
+  summariseSyncRuns,
+  ConnectionSignals,
+  SyncRunRecord,
+} from '../health'
+import { AtsProvider } from '../types'
+import { Tenant } from '../../../payload-types'
+
+// Mock dependencies
+jest.mock('payload', () => ({
+  find: jest.fn(),
+}))
+jest.mock('../registry', () => ({
+  getAtsProviders: jest.fn(() => []),
+}))
+
+const NOW = Date.parse('2025-06-01T12:00:00Z')
+const hoursAgo = (hours: number) => new Date(NOW - hours * 60 * 60 * 1000).toISOString()
+
+const healthySignals = (): ConnectionSignals => ({
+  health: { enabled: true, connected: true },
+  jobs: { lastSuccessAt: hoursAgo(1), failingSince: null, lastError: null },
+  deadLetters: { count: 0, oldestAt: null },
+})
+
+describe('ATS health', () => {
+  describe('summariseSyncRuns', () => {
+    it('should report when a sync started failing after its last success', () => {
+      const runs: SyncRunRecord[] = [
+        { type: 'jobs', status: 'running', startedAt: hoursAgo(0) },
+        { type: 'jobs', status: 'failed', startedAt: hoursAgo(1), error: 'Unauthorized' },
+        { type: 'candidates', status: 'succeeded', startedAt: hoursAgo(2) },
+        { type: 'jobs', status: 'partial', startedAt: hoursAgo(3) },
+        { type: 'jobs', status: 'succeeded', startedAt: hoursAgo(4) },
+        { type: 'jobs', status: 'failed', startedAt: hoursAgo(5) },
+      ]
+
+      expect(summariseSyncRuns(runs, 'jobs')).toEqual({
+        lastSuccessAt: hoursAgo(4),
+        failingSince: hoursAgo(3),
+        lastError: 'Unauthorized',
+      })
+      expect(summariseSyncRuns(runs, 'candidates')).toEqual({
+        lastSuccessAt: hoursAgo(2),
+        failingSince: null,
+        lastError: null,
+      })
+    })
+  })
+
+  describe('findHealthIssues', () => {
+    it('should find nothing wrong with a healthy connection', () => {
+      expect(findHealthIssues(healthySignals())).toEqual([])
+    })
+
+    it('should only report the connection for disconnected tenants', () => {
+      const signals = {
+        ...healthySignals(),
+        health: {
+          enabled: true,
+          connected: false,
+          lastRefreshError: 'invalid_grant',
+          lastRefreshErrorAt: hoursAgo(10),
+        },
+        deadLetters: { count: 2, oldestAt: hoursAgo(20) },
+      }
+
+      expect(findHealthIssues(signals).map((issue) => issue.code)).toEqual([
+        'token_refresh_failed',
+        'not_connected',
+      ])
+    })
+
+    it('should report failing syncs, webhook registration and dead letters', () => {
+      const issues = findHealthIssues({
+        ...healthySignals(),
+        candidates: { lastSuccessAt: null, failingSince: hoursAgo(8), lastError: 'Timeout' },
+        registration: {
+          provider: 'jobadder',
+          status: 'failed',
+          failingSince: hoursAgo(30),
+          error: 'Forbidden',
+        },
+        deadLetters: { count: 1, oldestAt: hoursAgo(2) },
+      })
+
+      expect(issues).toEqual([
+        {
+          code: 'candidate_sync_failing',
+          message: 'Candidate sync failing: Timeout',
+          since: hoursAgo(8),
+        },
+        {
+          code: 'webhook_registration_failed',
+          message: 'Webhook registration failed: Forbidden',
+          since: hoursAgo(30),
+        },
+        {
+          code: 'webhook_dead_letters',
+          message: '1 webhook delivery dead-lettered',
+          since: hoursAgo(2),
+        },
+      ])
+    })
+  })
+
+  describe('assessIssues', () => {
+    it('should flag connections once a problem outlasts the threshold', () => {
+      const issue = { code: 'job_sync_failing' as const, message: 'Job sync failing' }
+
+      expect(assessIssues([{ ...issue, since: hoursAgo(2) }], 6, NOW)).toEqual({
+        unhealthySince: hoursAgo(2),
+        flagged: false,
+      })
+      expect(
+        assessIssues(
+          [
+            { ...issue, since: hoursAgo(2) },
+            { ...issue, since: hoursAgo(7) },
+          ],
+          6,
+          NOW,
+        ),
+      ).toEqual({ unhealthySince: hoursAgo(7), flagged: true })
+      expect(assessIssues([{ ...issue, since: null }], 6, NOW).flagged).toBe(true)
+      expect(assessIssues([], 6, NOW)).toEqual({ unhealthySince: null, flagged: false })
+    })
+  })
+
+  describe('getConnectionHealth', () => {
+    it('should combine the provider, sync run ledger and webhook inbox', async () => {
+      const provider = {
+        slug: 'jobadder',
+        name: 'JobAdder',
+        feature: 'jobAdder',
+        auth: {},
+        pullJobs: jest.fn(),
+        webhooks: { register: jest.fn(), process: jest.fn() },
+        getHealth: jest.fn(() => ({
+          enabled: true,
+          connected: true,
+          tokenExpiresAt: hoursAgo(-1),
+          lastJobSync: hoursAgo(48),
+        })),
+      } as unknown as AtsProvider
+      const tenant = {
+        id: 7,
+        name: 'Acme',
+        atsConfig: {
+          webhookRegistrations: [
+            { provider: 'jobadder', status: 'registered', registeredAt: hoursAgo(100) },
+          ],
+        },
+      } as unknown as Tenant
+
+      ;(payload.find as jest.Mock)
+        .mockResolvedValueOnce({
+          docs: [
+            { type: 'jobs', status: 'failed', startedAt: hoursAgo(9), error: 'Unauthorized' },
+            { type: 'jobs', status: 'failed', startedAt: hoursAgo(30) },
+          ],
+        })
+        .mockResolvedValueOnce({ docs: [{ receivedAt: hoursAgo(12) }], totalDocs: 3 })
+        .mockResolvedValueOnce({ docs: [{ receivedAt: hoursAgo(1) }], totalDocs: 40 })
+
+      const health = await getConnectionHealth(provider, tenant, { thresholdHours: 24, now: NOW })
+
+      expect(health).toEqual(
+        expect.objectContaining({
+          connected: true,
+          lastJobSync: hoursAgo(48),
+          lastCandidateSync: null,
+          errors: { syncRuns: 1, deadLetters: 3 },
+          webhooks: {
+            registration: 'registered',
+            registeredAt: hoursAgo(100),
+            error: null,
+            lastReceivedAt: hoursAgo(1),
+          },
+          unhealthySince: hoursAgo(30),
+          flagged: true,
+        }),
+      )
+      expect(health.issues.map((issue) => issue.code)).toEqual([
+        'job_sync_failing',
+        'webhook_dead_letters',
+      ])
+    })
+  })
+})
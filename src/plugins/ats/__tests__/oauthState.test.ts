@@ -0,0 +1,110 @@
+import payload from 'payload'
+import { OAuthStateError, consumeOAuthState, createOAuthState } from '../oauthState'
+
+jest.mock('payload', () => ({
+  findByID: jest.fn(),
+  update: jest.fn(),
+}))
+jest.mock('@/lib/logger', () => ({
+  oauthLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+describe('oauthState', () => {
+  const originalEnv = process.env
+  let storedState: Record<string, unknown> | undefined
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    process.env = { ...originalEnv, OAUTH_STATE_SECRET: 'test-secret' }
+
+    // Keep the tenant's pending state in memory, as the tenants collection would
+    storedState = undefined
+    ;(payload.update as jest.Mock).mockImplementation(async ({ data }) => {
+      storedState = data.atsConfig.oauthState
+      return {}
+    })
+    ;(payload.findByID as jest.Mock).mockImplementation(async () => ({
+      id: 42,
+      atsConfig: { oauthState: storedState },
+    }))
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  const start = () => createOAuthState({ tenantId: '42', userId: 7, provider: 'jobadder' })
+
+  it('should return the tenant for a valid state and consume it', async () => {
+    const state = await start()
+
+    await expect(consumeOAuthState(state, { provider: 'jobadder', userId: 7 })).resolves.toBe('42')
+    expect(storedState).toEqual({ provider: null, nonceHash: null, expiresAt: null })
+  })
+
+  it('should reject a state that has already been used', async () => {
+    const state = await start()
+    await consumeOAuthState(state, { provider: 'jobadder', userId: 7 })
+
+    await expect(consumeOAuthState(state, { provider: 'jobadder', userId: 7 })).rejects.toThrow(
+      'OAuth state has already been used',
+    )
+  })
+
+  it('should reject a state superseded by a newer flow', async () => {
+    const first = await start()
+    await start()
+
+    await expect(consumeOAuthState(first, { provider: 'jobadder', userId: 7 })).rejects.toThrow(
+      OAuthStateError,
+    )
+  })
+
+  it('should reject a raw tenant ID or a tampered state', async () => {
+    const state = await start()
+    const [encoded, signature] = state.split('.')
+    const tampered = Buffer.from(
+      JSON.stringify({
+        ...JSON.parse(Buffer.from(encoded, 'base64url').toString()),
+        tenantId: '1',
+      }),
+    ).toString('base64url')
+
+    await expect(consumeOAuthState('42', { provider: 'jobadder', userId: 7 })).rejects.toThrow(
+      'Malformed OAuth state',
+    )
+    await expect(
+      consumeOAuthState(`${tampered}.${signature}`, { provider: 'jobadder', userId: 7 }),
+    ).rejects.toThrow('Invalid OAuth state signature')
+  })
+
+  it('should reject a state issued to another user or provider', async () => {
+    const state = await start()
+
+    await expect(consumeOAuthState(state, { provider: 'jobadder', userId: 8 })).rejects.toThrow(
+      'OAuth state was issued to another user',
+    )
+    await expect(consumeOAuthState(state, { provider: 'bullhorn', userId: 7 })).rejects.toThrow(
+      'OAuth state was issued for another provider',
+    )
+  })
+
+  it('should reject an expired state', async () => {
+    jest.useFakeTimers()
+    try {
+      const state = await start()
+      jest.advanceTimersByTime(11 * 60 * 1000)
+
+      await expect(consumeOAuthState(state, { provider: 'jobadder', userId: 7 })).rejects.toThrow(
+        'OAuth state has expired',
+      )
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+})
@@ -0,0 +1,155 @@
+import payload from 'payload'
+import {
+  PlacementRecord,
+  getTimeToFillDays,
+  summarizeTimeToFill,
+  upsertPlacement,
+} from '../placements'
+
+// Mock dependencies
+jest.mock('payload', () => ({
+  find: jest.fn(),
+  create: jest.fn(),
+  update: jest.fn(),
+}))
+jest.mock('@/lib/logger', () => ({
+  syncLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+describe('placements', () => {
+  describe('getTimeToFillDays', () => {
+    it('should count whole days from the job opening to the placement', () => {
+      expect(getTimeToFillDays('2025-05-01T00:00:00Z', '2025-05-31T09:00:00Z')).toBe(30)
+    })
+
+    it('should return null for missing dates or placements before the job opened', () => {
+      expect(getTimeToFillDays(null, '2025-05-31T00:00:00Z')).toBeNull()
+      expect(getTimeToFillDays('2025-05-01T00:00:00Z', undefined)).toBeNull()
+      expect(getTimeToFillDays('2025-05-31T00:00:00Z', '2025-05-01T00:00:00Z')).toBeNull()
+    })
+  })
+
+  describe('summarizeTimeToFill', () => {
+    it('should average time to fill and count sources of hire, ignoring cancellations', () => {
+      const summary = summarizeTimeToFill([
+        { status: 'active', timeToFillDays: 10, sourceOfHire: 'Job Board' },
+        { status: 'completed', timeToFillDays: 30, sourceOfHire: 'Referral' },
+        { status: 'active', timeToFillDays: 21, sourceOfHire: 'Job Board' },
+        { status: 'active', timeToFillDays: null },
+        { status: 'cancelled', timeToFillDays: 200, sourceOfHire: 'Job Board' },
+      ])
+
+      expect(summary).toEqual({
+        placements: 4,
+        averageDays: 20.3,
+        medianDays: 21,
+        bySourceOfHire: { 'Job Board': 2, Referral: 1, Unknown: 1 },
+      })
+    })
+
+    it('should report no time to fill without placements', () => {
+      expect(summarizeTimeToFill([])).toEqual({
+        placements: 0,
+        averageDays: null,
+        medianDays: null,
+        bySourceOfHire: {},
+      })
+    })
+  })
+
+  describe('upsertPlacement', () => {
+    const record: PlacementRecord = {
+      tenant: 123,
+      jobTitle: 'Frontend Developer',
+      employer: 'Acme',
+      status: 'active',
+      placedAt: '2025-05-21T00:00:00Z',
+      startDate: '2025-06-02T00:00:00Z',
+      sourceOfHire: 'Job Board',
+      atsData: {
+        source: 'jobadder',
+        sourceId: 'placement-1',
+        jobId: 'ja-job-1',
+        candidateId: 'ja-candidate-1',
+        lastSynced: '2025-05-21T00:00:00Z',
+      },
+    }
+
+    const mockFind = (existing: unknown[]) =>
+      (payload.find as jest.Mock).mockImplementation(({ collection }) =>
+        Promise.resolve({
+          docs:
+            collection === 'jobs'
+              ? [{ id: 7, created_at: '2025-05-01T00:00:00Z' }]
+              : collection === 'candidates'
+                ? [{ id: 9 }]
+                : existing,
+        }),
+      )
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+      ;(payload.create as jest.Mock).mockResolvedValue({ id: 1 })
+      ;(payload.update as jest.Mock).mockResolvedValue({ id: 2 })
+    })
+
+    it('should create a placement linked to our job and candidate', async () => {
+      mockFind([])
+
+      const result = await upsertPlacement(record)
+
+      expect(result).toEqual({ id: 1, created: true })
+      expect(payload.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          collection: 'jobs',
+          where: {
+            'atsData.source': { equals: 'jobadder' },
+            'atsData.sourceId': { equals: 'ja-job-1' },
+            tenant: { equals: 123 },
+          },
+        }),
+      )
+      expect(payload.create).toHaveBeenCalledWith({
+        collection: 'placements',
+        data: expect.objectContaining({
+          job: 7,
+          candidate: 9,
+          timeToFillDays: 20,
+          sourceOfHire: 'Job Board',
+        }),
+      })
+    })
+
+    it('should update an existing placement and use the given candidate', async () => {
+      mockFind([{ id: 2 }])
+
+      const result = await upsertPlacement(record, { candidateId: 42 })
+
+      expect(result).toEqual({ id: 2, created: false })
+      expect(payload.find).not.toHaveBeenCalledWith(
+        expect.objectContaining({ collection: 'candidates' }),
+      )
+      expect(payload.update).toHaveBeenCalledWith({
+        collection: 'placements',
+        id: 2,
+        data: expect.objectContaining({ job: 7, candidate: 42 }),
+      })
+    })
+
+    it('should save placements for jobs we have not synced without a time to fill', async () => {
+      ;(payload.find as jest.Mock).mockResolvedValue({ docs: [] })
+
+      await upsertPlacement(record)
+
+      expect(payload.create).toHaveBeenCalledWith({
+        collection: 'placements',
+        data: expect.objectContaining({ job: null, candidate: null, timeToFillDays: null }),
+      })
+    })
+  })
+})
@@ -0,0 +1,119 @@
+import payload from 'payload'
+import {
+  registerAtsProvider,
+  getAtsProvider,
+  getConnectedProviders,
+  pushJobToProviders,
+  runScheduledSync,
+  processProviderWebhooks,
+} from '../registry'
+import { AtsProvider } from '../types'
+import { Job, Tenant } from '../../../payload-types'
+
+// Mock dependencies
+jest.mock('payload', () => ({
+  find: jest.fn(),
+}))
+jest.mock('@/lib/logger', () => ({
+  syncLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+function createProvider(slug: 'jobadder' | 'bullhorn'): jest.Mocked<AtsProvider> {
+  const feature = slug === 'jobadder' ? 'jobAdder' : 'bullhorn'
+
+  return {
+    slug,
+    name: slug,
+    description: `${slug} provider`,
+    feature,
+    auth: {
+      getAuthorizationUrl: jest.fn(),
+      handleCallback: jest.fn(),
+      isConnected: jest.fn((tenant: Tenant) =>
+        Boolean((tenant.atsConfig as any)?.[feature]?.refreshToken),
+      ),
+    },
+    pullJobs: jest.fn().mockResolvedValue({ errors: 0 }),
+    pushJob: jest.fn().mockResolvedValue(undefined),
+    webhooks: {
+      process: jest.fn().mockResolvedValue({ processed: 1 }),
+    },
+    getHealth: jest.fn(),
+  } as unknown as jest.Mocked<AtsProvider>
+}
+
+describe('ATS provider registry', () => {
+  let jobAdder: jest.Mocked<AtsProvider>
+  let bullhorn: jest.Mocked<AtsProvider>
+
+  const tenant = {
+    id: 7,
+    features: { jobAdder: true, bullhorn: true },
+    atsConfig: {
+      jobAdder: { refreshToken: 'ja-refresh' },
+      bullhorn: {},
+    },
+  } as unknown as Tenant
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jobAdder = createProvider('jobadder')
+    bullhorn = createProvider('bullhorn')
+    registerAtsProvider(jobAdder)
+    registerAtsProvider(bullhorn)
+  })
+
+  it('should look providers up by slug', () => {
+    expect(getAtsProvider('jobadder')).toBe(jobAdder)
+    expect(getAtsProvider('unknown')).toBeUndefined()
+  })
+
+  it('should only return providers the tenant has enabled and connected', () => {
+    expect(getConnectedProviders(tenant)).toEqual([jobAdder])
+    expect(
+      getConnectedProviders({ ...tenant, features: { jobAdder: false } } as unknown as Tenant),
+    ).toEqual([])
+  })
+
+  it('should push jobs to connected providers and skip failures', async () => {
+    const job = { id: 'job-1' } as unknown as Job
+    const connected = {
+      ...tenant,
+      atsConfig: { jobAdder: { refreshToken: 'a' }, bullhorn: { refreshToken: 'b' } },
+    } as unknown as Tenant
+    ;(jobAdder.pushJob as jest.Mock).mockRejectedValue(new Error('JobAdder is down'))
+
+    await expect(pushJobToProviders(job, connected)).resolves.toBeUndefined()
+
+    expect(jobAdder.pushJob).toHaveBeenCalledWith(job, '7')
+    expect(bullhorn.pushJob).toHaveBeenCalledWith(job, '7')
+  })
+
+  it('should pull jobs for each connected tenant on the scheduled sync', async () => {
+    ;(payload.find as jest.Mock).mockResolvedValue({ docs: [tenant] })
+
+    await runScheduledSync({ provider: 'jobadder' })
+
+    expect(payload.find).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { 'features.jobAdder': { equals: true } } }),
+    )
+    expect(jobAdder.pullJobs).toHaveBeenCalledWith('7', { trigger: 'scheduled' })
+    expect(bullhorn.pullJobs).not.toHaveBeenCalled()
+  })
+
+  it('should keep processing webhooks when one provider fails', async () => {
+    ;(jobAdder.webhooks!.process as jest.Mock).mockRejectedValue(new Error('Database down'))
+
+    const results = await processProviderWebhooks()
+
+    expect(results).toEqual({
+      jobadder: { error: 'Processing failed' },
+      bullhorn: { processed: 1 },
+    })
+  })
+})
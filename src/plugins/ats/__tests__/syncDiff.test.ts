@@ -0,0 +1,90 @@
+import { createSyncDiff, describeSyncDiff, diffRecord, recordUpdate } from '../syncDiff'
+
+describe('syncDiff', () => {
+  describe('diffRecord', () => {
+    it('should list changed fields by dotted path', () => {
+      const changes = diffRecord(
+        { title: 'Developer', salary: { min: 100000, max: 120000, currency: 'AUD' } },
+        { title: 'Senior Developer', salary: { min: 100000, max: 140000, currency: 'AUD' } },
+      )
+
+      expect(changes).toEqual([
+        { field: 'title', before: 'Developer', after: 'Senior Developer' },
+        { field: 'salary.max', before: 120000, after: 140000 },
+      ])
+    })
+
+    it('should ignore sync timestamps and fields the update would not set', () => {
+      const changes = diffRecord(
+        { title: 'Developer', featured: true, atsData: { lastSynced: '2025-01-01T00:00:00Z' } },
+        { title: 'Developer', atsData: { lastSynced: '2025-06-01T00:00:00Z' }, expiry: undefined },
+      )
+
+      expect(changes).toEqual([])
+    })
+
+    it('should compare stored values in the shape they were written', () => {
+      const changes = diffRecord(
+        {
+          tenant: { id: 7, name: 'Acme' },
+          created_at: '2025-05-18T00:00:00.000Z',
+          skills: [
+            { id: 'a', skill: 'React' },
+            { id: 'b', skill: 'Node.js' },
+          ],
+        },
+        { tenant: 7, created_at: '2025-05-18T00:00:00Z', skills: ['React', 'Node.js'] },
+      )
+
+      expect(changes).toEqual([])
+    })
+
+    it('should compare rich text whole', () => {
+      const before = { root: { children: [{ text: 'Old' }] } }
+      const after = { root: { children: [{ text: 'New' }] } }
+
+      expect(diffRecord({ description: before }, { description: after })).toEqual([
+        { field: 'description', before, after },
+      ])
+    })
+  })
+
+  describe('recordUpdate', () => {
+    it('should count updates that change nothing as unchanged', () => {
+      const diff = createSyncDiff()
+
+      recordUpdate(diff, { externalId: '1' }, { title: 'Same' }, { title: 'Same' })
+      recordUpdate(diff, { externalId: '2' }, { title: 'Old' }, { title: 'New' })
+
+      expect(diff.unchanged).toBe(1)
+      expect(diff.updated).toEqual([
+        { externalId: '2', changes: [{ field: 'title', before: 'Old', after: 'New' }] },
+      ])
+    })
+  })
+
+  describe('describeSyncDiff', () => {
+    it('should summarise what would change', () => {
+      const diff = {
+        ...createSyncDiff(),
+        created: [{ externalId: '1' }, { externalId: '2' }],
+        updated: [
+          {
+            externalId: '3',
+            changes: [
+              { field: 'title', before: 'a', after: 'b' },
+              { field: 'location', before: 'c', after: 'd' },
+            ],
+          },
+        ],
+        closed: [{ externalId: '4' }],
+        failed: [{ externalId: '5' }],
+      }
+
+      expect(describeSyncDiff(diff, 'job')).toBe(
+        'Would create 2 jobs, update 1 job (2 field changes) and close 1 job; 1 job would fail',
+      )
+      expect(describeSyncDiff(createSyncDiff(), 'candidate')).toBe('No candidate changes')
+    })
+  })
+})
@@ -0,0 +1,110 @@
+import { SyncRunRecorder } from '../syncRuns'
+import payload from 'payload'
+import { syncLogger } from '@/lib/logger'
+
+// Mock dependencies
+jest.mock('payload', () => ({
+  create: jest.fn(),
+  update: jest.fn(),
+}))
+jest.mock('@/lib/logger', () => ({
+  syncLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+describe('SyncRunRecorder', () => {
+  const params = {
+    tenantId: 123,
+    provider: 'jobadder' as const,
+    type: 'jobs' as const,
+    mode: 'incremental' as const,
+    trigger: 'scheduled' as const,
+    options: { updatedSince: '2025-05-18T00:00:00.000Z' },
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(payload.create as jest.Mock).mockResolvedValue({ id: 'run-1' })
+    ;(payload.update as jest.Mock).mockResolvedValue({})
+  })
+
+  it('should create a running sync run on start', async () => {
+    const run = await SyncRunRecorder.start(params)
+
+    expect(run.id).toBe('run-1')
+    expect(payload.create).toHaveBeenCalledWith({
+      collection: 'sync-runs',
+      data: expect.objectContaining({
+        tenant: 123,
+        provider: 'jobadder',
+        type: 'jobs',
+        mode: 'incremental',
+        trigger: 'scheduled',
+        status: 'running',
+        startedAt: expect.any(String),
+        options: params.options,
+      }),
+    })
+  })
+
+  it('should write the totals and item outcomes when the run completes', async () => {
+    const run = await SyncRunRecorder.start(params)
+    run.recordItem({ externalId: 'ja-1', localId: '1', outcome: 'created' })
+    run.recordItem({ externalId: 'ja-2', outcome: 'errored', message: 'Validation failed' })
+
+    const stats = { total: 2, created: 1, updated: 0, deleted: 0, errors: 1 }
+    await run.complete(stats)
+
+    expect(payload.update).toHaveBeenCalledWith({
+      collection: 'sync-runs',
+      id: 'run-1',
+      data: expect.objectContaining({
+        status: 'partial',
+        finishedAt: expect.any(String),
+        stats,
+        items: [
+          { externalId: 'ja-1', localId: '1', outcome: 'created' },
+          { externalId: 'ja-2', outcome: 'errored', message: 'Validation failed' },
+        ],
+      }),
+    })
+  })
+
+  it('should mark a run without item errors as succeeded', async () => {
+    const run = await SyncRunRecorder.start(params)
+    await run.complete({ errors: 0 })
+
+    expect(payload.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: 'succeeded' }) }),
+    )
+  })
+
+  it('should record the error message when the run fails', async () => {
+    const run = await SyncRunRecorder.start(params)
+    await run.fail(new Error('Network error'))
+
+    expect(payload.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ status: 'failed', error: 'Network error' }),
+      }),
+    )
+  })
+
+  it('should not throw when the ledger cannot be written', async () => {
+    ;(payload.create as jest.Mock).mockRejectedValue(new Error('DB error'))
+
+    const run = await SyncRunRecorder.start(params)
+    await run.complete({ errors: 0 })
+
+    expect(run.id).toBeNull()
+    expect(payload.update).not.toHaveBeenCalled()
+    expect(syncLogger.error).toHaveBeenCalledWith(
+      'Failed to create sync run record',
+      expect.any(Object),
+    )
+  })
+})
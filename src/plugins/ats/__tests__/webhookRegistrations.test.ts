@@ -0,0 +1,104 @@
+import payload from 'payload'
+import { registerTenantWebhooks, rotateTenantWebhookSecret } from '../webhookRegistrations'
+import { AtsProvider } from '../types'
+
+// Mock dependencies
+jest.mock('payload', () => ({
+  findByID: jest.fn(),
+  update: jest.fn(),
+}))
+jest.mock('@/lib/logger', () => ({
+  webhookLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+describe('registerTenantWebhooks', () => {
+  let provider: AtsProvider
+  let register: jest.Mock
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    register = jest.fn()
+    provider = {
+      slug: 'jobadder',
+      name: 'JobAdder',
+      webhooks: { register, process: jest.fn() },
+    } as unknown as AtsProvider
+    ;(payload.findByID as jest.Mock).mockResolvedValue({
+      id: 7,
+      atsConfig: {
+        webhookRegistrations: [
+          { id: 'row-1', provider: 'vincere', status: 'registered', registeredAt: '2025-01-01' },
+          {
+            id: 'row-2',
+            provider: 'jobadder',
+            status: 'failed',
+            registeredAt: '2025-01-01',
+            failingSince: '2025-05-01T00:00:00.000Z',
+          },
+        ],
+      },
+    })
+  })
+
+  const savedRegistrations = () =>
+    (payload.update as jest.Mock).mock.calls[0][0].data.atsConfig.webhookRegistrations
+
+  it('should record a successful registration', async () => {
+    await registerTenantWebhooks(provider, '7')
+
+    expect(register).toHaveBeenCalledWith('7')
+    expect(savedRegistrations()).toEqual([
+      { provider: 'vincere', status: 'registered', registeredAt: '2025-01-01' },
+      expect.objectContaining({ provider: 'jobadder', status: 'registered' }),
+    ])
+  })
+
+  it('should record a failure, keeping when failures started', async () => {
+    register.mockRejectedValue(new Error('Forbidden'))
+
+    await expect(registerTenantWebhooks(provider, '7')).rejects.toThrow('Forbidden')
+
+    expect(savedRegistrations()[1]).toEqual(
+      expect.objectContaining({
+        provider: 'jobadder',
+        status: 'failed',
+        registeredAt: '2025-01-01',
+        failingSince: '2025-05-01T00:00:00.000Z',
+        error: 'Forbidden',
+      }),
+    )
+  })
+
+  it('should reject providers that do not register webhooks', async () => {
+    await expect(registerTenantWebhooks({ ...provider, webhooks: undefined }, '7')).rejects.toThrow(
+      'JobAdder does not support webhook registration',
+    )
+    expect(payload.update).not.toHaveBeenCalled()
+  })
+
+  it('should record the re-registration when rotating a webhook secret', async () => {
+    const rotateSecret = jest.fn()
+
+    await rotateTenantWebhookSecret(
+      { ...provider, webhooks: { register, rotateSecret, process: jest.fn() } },
+      '7',
+    )
+
+    expect(rotateSecret).toHaveBeenCalledWith('7')
+    expect(savedRegistrations()[1]).toEqual(
+      expect.objectContaining({ provider: 'jobadder', status: 'registered' }),
+    )
+  })
+
+  it('should reject providers that do not rotate webhook secrets', async () => {
+    await expect(rotateTenantWebhookSecret(provider, '7')).rejects.toThrow(
+      'JobAdder does not support webhook secret rotation',
+    )
+    expect(payload.update).not.toHaveBeenCalled()
+  })
+})
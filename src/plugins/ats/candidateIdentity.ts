@@ -0,0 +1,366 @@
+import payload from 'payload'
+import { syncLogger as logger } from '@/lib/logger'
+
+/**
+ * Candidate identity within a tenant
+ *
+ * A person is one candidate per tenant: emails are unique per tenant, not across the
+ * platform. The same person can still end up as several records when ATS records or job
+ * board applications use different emails, so duplicates are detected with fuzzy name,
+ * phone and email matching and merged by an admin (see candidateMerge.ts).
+ */
+
+// Score at or above which two candidates are reported as likely duplicates
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.6
+
+// Mailbox providers that ignore dots and `+tags` in the local part
+const DOT_INSENSITIVE_DOMAINS = ['gmail.com', 'googlemail.com']
+
+// The parts of a candidate identity matching looks at
+export interface CandidateIdentity {
+  id: string | number
+  firstName?: string | null
+  lastName?: string | null
+  email?: string | null
+  phone?: string | null
+  atsData?: {
+    source?: string | null
+    sourceId?: string | null
+  } | null
+}
+
+export interface DuplicateMatch {
+  score: number
+  reasons: string[]
+}
+
+export interface DuplicatePair extends DuplicateMatch {
+  candidates: [CandidateIdentity, CandidateIdentity]
+}
+
+export type CandidateMatchType = 'ats' | 'merged' | 'email'
+
+/**
+ * Normalise an email for storage and lookups
+ */
+export function normalizeEmail(email: string | null | undefined): string {
+  return (email || '').trim().toLowerCase()
+}
+
+/**
+ * Canonical form of an email for duplicate matching
+ * Drops `+tags`, and dots for providers that ignore them, so jane.doe+jobs@gmail.com and
+ * janedoe@gmail.com compare equal.
+ */
+export function canonicalEmail(email: string | null | undefined): string {
+  const normalized = normalizeEmail(email)
+  const [localPart, domain] = normalized.split('@')
+  if (!localPart || !domain) return normalized
+
+  let local = localPart.split('+')[0]
+  if (DOT_INSENSITIVE_DOMAINS.includes(domain)) {
+    local = local.replace(/\./g, '')
+  }
+  return `${local}@${domain === 'googlemail.com' ? 'gmail.com' : domain}`
+}
+
+/**
+ * Normalise a phone number for matching
+ * Only the last nine digits are kept so national and international formats of the same
+ * number (0412 345 678, +61 412 345 678) compare equal.
+ */
+export function normalizePhone(phone: string | null | undefined): string {
+  const digits = (phone || '').replace(/\D/g, '')
+  return digits.length >= 6 ? digits.slice(-9) : ''
+}
+
+function normalizeName(value: string | null | undefined): string {
+  return (value || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z ]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Jaro-Winkler similarity between two strings, from 0 (nothing in common) to 1 (equal)
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0
+  if (a === b) return 1
+
+  const matchWindow = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1)
+  const aMatches = new Array<boolean>(a.length).fill(false)
+  const bMatches = new Array<boolean>(b.length).fill(false)
+
+  let matches = 0
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - matchWindow)
+    const end = Math.min(i + matchWindow + 1, b.length)
+    for (let j = start; j < end; j++) {
+      if (bMatches[j] || a[i] !== b[j]) continue
+      aMatches[i] = true
+      bMatches[j] = true
+      matches++
+      break
+    }
+  }
+
+  if (matches === 0) return 0
+
+  let transpositions = 0
+  let k = 0
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue
+    while (!bMatches[k]) k++
+    if (a[i] !== b[k]) transpositions++
+    k++
+  }
+
+  const jaro =
+    (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3
+
+  let prefix = 0
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++
+
+  return jaro + prefix * 0.1 * (1 - jaro)
+}
+
+function fullName(candidate: CandidateIdentity): string {
+  return normalizeName(`${candidate.firstName || ''} ${candidate.lastName || ''}`)
+}
+
+/**
+ * Score how likely two candidates are the same person
+ * Email and phone are strong signals; names only count when they are close, and also
+ * match with first and last names swapped.
+ */
+export function scoreCandidateMatch(a: CandidateIdentity, b: CandidateIdentity): DuplicateMatch {
+  const reasons: string[] = []
+  let score = 0
+
+  const emailA = canonicalEmail(a.email)
+  const emailB = canonicalEmail(b.email)
+  if (emailA && emailA === emailB) {
+    score += 0.5
+    reasons.push('email')
+  } else if (emailA && emailB) {
+    const [localA, domainA] = emailA.split('@')
+    const [localB, domainB] = emailB.split('@')
+    if (domainA === domainB && nameSimilarity(localA, localB) >= 0.92) {
+      score += 0.25
+      reasons.push('similar email')
+    }
+  }
+
+  const phoneA = normalizePhone(a.phone)
+  if (phoneA && phoneA === normalizePhone(b.phone)) {
+    score += 0.3
+    reasons.push('phone')
+  }
+
+  const nameA = fullName(a)
+  const swappedA = normalizeName(`${a.lastName || ''} ${a.firstName || ''}`)
+  const nameB = fullName(b)
+  const similarity = Math.max(nameSimilarity(nameA, nameB), nameSimilarity(swappedA, nameB))
+  if (similarity >= 0.85) {
+    score += 0.35 * similarity
+    reasons.push(similarity === 1 ? 'name' : 'similar name')
+  }
+
+  return { score: Math.min(1, Math.round(score * 100) / 100), reasons }
+}
+
+// Keys that put candidates worth comparing in the same bucket
+function blockingKeys(candidate: CandidateIdentity): string[] {
+  const keys: string[] = []
+  const email = canonicalEmail(candidate.email)
+  const phone = normalizePhone(candidate.phone)
+  const first = normalizeName(candidate.firstName)
+  const last = normalizeName(candidate.lastName)
+
+  if (email) {
+    keys.push(`email:${email}`, `local:${email.split('@')[0].slice(0, 4)}`)
+  }
+  if (phone) keys.push(`phone:${phone}`)
+  if (first && last) {
+    keys.push(`name:${last.slice(0, 3)}:${first[0]}`, `name:${first.slice(0, 3)}:${last[0]}`)
+  }
+  return keys
+}
+
+/**
+ * Find likely duplicate pairs among a set of candidates
+ * Candidates are only compared when they share an email, phone or name prefix, so this
+ * stays fast for large tenants.
+ * @param threshold Minimum match score to report
+ * @returns Pairs ordered from most to least likely
+ */
+export function detectDuplicates(
+  candidates: CandidateIdentity[],
+  threshold: number = DEFAULT_DUPLICATE_THRESHOLD,
+): DuplicatePair[] {
+  const buckets = new Map<string, CandidateIdentity[]>()
+  for (const candidate of candidates) {
+    for (const key of blockingKeys(candidate)) {
+      const bucket = buckets.get(key) || []
+      bucket.push(candidate)
+      buckets.set(key, bucket)
+    }
+  }
+
+  const compared = new Set<string>()
+  const pairs: DuplicatePair[] = []
+
+  for (const bucket of buckets.values()) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const [a, b] = [bucket[i], bucket[j]]
+        if (a.id === b.id) continue
+
+        const pairKey = [String(a.id), String(b.id)].sort().join(':')
+        if (compared.has(pairKey)) continue
+        compared.add(pairKey)
+
+        const match = scoreCandidateMatch(a, b)
+        if (match.score >= threshold) {
+          pairs.push({ ...match, candidates: [a, b] })
+        }
+      }
+    }
+  }
+
+  return pairs.sort((a, b) => b.score - a.score)
+}
+
+/**
+ * Find likely duplicate candidates in a tenant
+ * @param tenantId Tenant to check
+ * @param threshold Minimum match score to report
+ */
+export async function findDuplicateCandidates(
+  tenantId: string | number,
+  threshold: number = DEFAULT_DUPLICATE_THRESHOLD,
+): Promise<DuplicatePair[]> {
+  const candidates = await payload.find({
+    collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+    where: {
+      tenant: { equals: tenantId },
+    },
+    pagination: false,
+    depth: 0,
+  })
+
+  const identities = (candidates.docs as any[]).map((candidate): CandidateIdentity => ({
+    id: candidate.id,
+    firstName: candidate.firstName,
+    lastName: candidate.lastName,
+    email: candidate.email,
+    phone: candidate.phone,
+    atsData: {
+      source: candidate.atsData?.source,
+      sourceId: candidate.atsData?.sourceId,
+    },
+  }))
+
+  const pairs = detectDuplicates(identities, threshold)
+  logger.info('Checked tenant for duplicate candidates', {
+    tenantId,
+    candidates: identities.length,
+    duplicates: pairs.length,
+  })
+  return pairs
+}
+
+/**
+ * Find a tenant's candidate for a record from an ATS
+ * Looks up the ATS record first, then a candidate it was merged into, then the email.
+ * @param identity.idPath Provider-specific ID field that also identifies the record, for
+ * candidates whose `atsData.source` has since been taken by another provider
+ * @returns The candidate and how it was matched, or null when the person is new
+ */
+export async function findTenantCandidate(
+  tenantId: string | number,
+  identity: { source: string; sourceId: string; email?: string | null; idPath?: string },
+): Promise<{ candidate: any; matchedBy: CandidateMatchType } | null> {
+  const bySource = await payload.find({
+    collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+    where: {
+      or: [
+        {
+          'atsData.source': { equals: identity.source },
+          'atsData.sourceId': { equals: identity.sourceId },
+        },
+        ...(identity.idPath ? [{ [identity.idPath]: { equals: identity.sourceId } }] : []),
+      ],
+      tenant: { equals: tenantId },
+    },
+    limit: 1,
+    depth: 0,
+  })
+  if (bySource.docs[0]) {
+    return { candidate: bySource.docs[0], matchedBy: 'ats' }
+  }
+
+  // The record was merged into another candidate by an admin
+  const merges = await payload.find({
+    collection: 'candidate-merges' as any, // Type assertion to bypass TypeScript check
+    where: {
+      'mergedSource.source': { equals: identity.source },
+      'mergedSource.sourceId': { equals: identity.sourceId },
+      tenant: { equals: tenantId },
+    },
+    sort: '-createdAt',
+    limit: 1,
+    depth: 0,
+  })
+  const primaryId = (merges.docs[0] as { primary?: string | number } | undefined)?.primary
+  if (primaryId) {
+    const primary = await payload.find({
+      collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+      where: {
+        id: { equals: primaryId },
+        tenant: { equals: tenantId },
+      },
+      limit: 1,
+      depth: 0,
+    })
+    if (primary.docs[0]) {
+      return { candidate: primary.docs[0], matchedBy: 'merged' }
+    }
+  }
+
+  // Candidates who applied through the site, or came from another ATS, before this record
+  const email = normalizeEmail(identity.email)
+  if (email) {
+    const byEmail = await payload.find({
+      collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+      where: {
+        email: { equals: email },
+        tenant: { equals: tenantId },
+      },
+      limit: 1,
+      depth: 0,
+    })
+    if (byEmail.docs[0]) {
+      return { candidate: byEmail.docs[0], matchedBy: 'email' }
+    }
+  }
+
+  return null
+}
+
+/**
+ * ATS data to save when updating a matched candidate
+ * A candidate matched through a merge keeps the identity of the record it was merged into;
+ * otherwise the incoming record's identity is taken, keeping other providers' IDs.
+ */
+export function mergeAtsData<T extends Record<string, unknown>>(
+  existing: Record<string, unknown> | null | undefined,
+  incoming: T,
+  matchedBy: CandidateMatchType,
+): T {
+  return (matchedBy === 'merged' ? { ...incoming, ...existing } : { ...existing, ...incoming }) as T
+}
@@ -0,0 +1,359 @@
+import payload from 'payload'
+import { syncLogger as logger } from '@/lib/logger'
+
+/**
+ * Merging duplicate candidates
+ *
+ * One candidate (the primary) is kept. Experiences, education, skills, tags and other
+ * lists are combined; single-value fields where the two candidates disagree are conflicts
+ * that the admin resolves field by field, keeping the primary's value by default.
+ */
+
+export type MergeSide = 'primary' | 'duplicate'
+
+// Single-value fields an admin chooses between
+export const MERGE_CHOICE_FIELDS = [
+  'firstName',
+  'lastName',
+  'email',
+  'phone',
+  'status',
+  'resume',
+  'currentJobTitle',
+  'currentEmployer',
+  'location',
+  'workRights',
+  'availability',
+  'salaryExpectation',
+  'source',
+] as const
+
+// AI enrichment results, taken together from one side as the `enrichment` choice
+export const ENRICHMENT_FIELDS = [
+  'aiEnrichment',
+  'benchmarkScores',
+  'overallScore',
+  'tier',
+  'strengths',
+  'developmentAreas',
+  'matchingMetrics',
+] as const
+
+// List fields that are combined, with the sub-fields that identify the same entry
+const COMBINED_ARRAYS: Record<string, string[]> = {
+  experiences: ['jobTitle', 'employer', 'startDate'],
+  education: ['institution', 'qualification'],
+  skills: ['skill'],
+  tags: ['tag'],
+  preferredLocations: ['location'],
+  placements: ['jobTitle', 'employer', 'startDate'],
+}
+
+export type MergeChoiceField = (typeof MERGE_CHOICE_FIELDS)[number] | 'enrichment'
+
+export type MergeChoices = Partial<Record<MergeChoiceField, MergeSide>>
+
+export interface MergeConflict {
+  field: MergeChoiceField
+  primary: unknown
+  duplicate: unknown
+  chosen: MergeSide
+}
+
+export interface MergePlan {
+  // Fields to save on the primary candidate
+  data: Record<string, unknown>
+  conflicts: MergeConflict[]
+}
+
+export class CandidateMergeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CandidateMergeError'
+  }
+}
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  )
+}
+
+// Array rows and their nested arrays get new IDs when saved on the primary
+function withoutIds<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => withoutIds(item)) as T
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => key !== 'id')
+        .map(([key, item]) => [key, withoutIds(item)]),
+    ) as T
+  }
+  return value
+}
+
+function entryKey(entry: Record<string, unknown>, keyFields: string[]): string {
+  return keyFields
+    .map((field) => {
+      const value = entry?.[field]
+      // Dates are compared by day so the same role with different timestamps matches
+      return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)
+        ? value.slice(0, 10)
+        : String(value ?? '')
+            .trim()
+            .toLowerCase()
+    })
+    .join('|')
+}
+
+/**
+ * Combine two lists, keeping the primary's entries and adding the duplicate's new ones
+ */
+export function combineEntries(
+  primary: Record<string, unknown>[] | null | undefined,
+  duplicate: Record<string, unknown>[] | null | undefined,
+  keyFields: string[],
+): Record<string, unknown>[] {
+  const combined = [...(primary || [])]
+  const seen = new Set(combined.map((entry) => entryKey(entry, keyFields)))
+
+  for (const entry of duplicate || []) {
+    const key = entryKey(entry, keyFields)
+    if (seen.has(key)) continue
+    seen.add(key)
+    combined.push(withoutIds(entry))
+  }
+
+  return combined
+}
+
+function lastProcessed(candidate: Record<string, any>): number {
+  const value = candidate.aiEnrichment?.lastProcessed
+  return value ? new Date(value).getTime() : 0
+}
+
+/**
+ * Work out the merged candidate without saving anything
+ * @param primary Candidate that is kept
+ * @param duplicate Candidate that is merged into it
+ * @param choices Side to keep for conflicting fields; the primary's by default, and the
+ * most recently processed enrichment
+ */
+export function planCandidateMerge(
+  primary: Record<string, any>,
+  duplicate: Record<string, any>,
+  choices: MergeChoices = {},
+): MergePlan {
+  const data: Record<string, unknown> = {}
+  const conflicts: MergeConflict[] = []
+
+  for (const field of MERGE_CHOICE_FIELDS) {
+    const primaryValue = primary[field]
+    const duplicateValue = duplicate[field]
+
+    if (isEmpty(primaryValue)) {
+      if (!isEmpty(duplicateValue)) data[field] = withoutIds(duplicateValue)
+      continue
+    }
+    if (
+      isEmpty(duplicateValue) ||
+      JSON.stringify(primaryValue) === JSON.stringify(duplicateValue)
+    ) {
+      continue
+    }
+
+    const chosen = choices[field] || 'primary'
+    conflicts.push({ field, primary: primaryValue, duplicate: duplicateValue, chosen })
+    if (chosen === 'duplicate') {
+      data[field] = withoutIds(duplicateValue)
+    }
+  }
+
+  for (const [field, keyFields] of Object.entries(COMBINED_ARRAYS)) {
+    if (isEmpty(duplicate[field])) continue
+    data[field] = combineEntries(primary[field], duplicate[field], keyFields)
+  }
+
+  const workTypes = [...new Set([...(primary.workTypes || []), ...(duplicate.workTypes || [])])]
+  if (workTypes.length > 0) {
+    data.workTypes = workTypes
+  }
+
+  // Enrichment comes from one side, but skills either side extracted are kept
+  const hasPrimaryEnrichment = !isEmpty(primary.aiEnrichment?.status)
+  const hasDuplicateEnrichment = !isEmpty(duplicate.aiEnrichment?.status)
+  if (hasDuplicateEnrichment) {
+    const defaultSide: MergeSide =
+      !hasPrimaryEnrichment || lastProcessed(duplicate) > lastProcessed(primary)
+        ? 'duplicate'
+        : 'primary'
+    const chosen = choices.enrichment || defaultSide
+
+    if (hasPrimaryEnrichment) {
+      conflicts.push({
+        field: 'enrichment',
+        primary: primary.aiEnrichment,
+        duplicate: duplicate.aiEnrichment,
+        chosen,
+      })
+    }
+
+    const [kept, other] = chosen === 'duplicate' ? [duplicate, primary] : [primary, duplicate]
+    if (chosen === 'duplicate') {
+      for (const field of ENRICHMENT_FIELDS) {
+        if (field in duplicate) data[field] = withoutIds(duplicate[field])
+      }
+    }
+
+    data.aiEnrichment = {
+      ...((data.aiEnrichment as Record<string, unknown>) || primary.aiEnrichment),
+      extractedSkills: combineEntries(
+        withoutIds(kept.aiEnrichment?.extractedSkills),
+        other.aiEnrichment?.extractedSkills,
+        ['skill'],
+      ),
+    }
+  }
+
+  return { data, conflicts }
+}
+
+interface MergeParams {
+  tenantId: string | number
+  primaryId: string | number
+  duplicateId: string | number
+  choices?: MergeChoices
+}
+
+async function loadCandidates(params: MergeParams): Promise<[any, any]> {
+  const { tenantId, primaryId, duplicateId } = params
+
+  if (String(primaryId) === String(duplicateId)) {
+    throw new CandidateMergeError('A candidate cannot be merged into itself')
+  }
+
+  const [primary, duplicate] = await Promise.all(
+    [primaryId, duplicateId].map((id) =>
+      payload
+        .findByID({
+          collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+          id,
+          depth: 0,
+        })
+        .catch(() => null),
+    ),
+  )
+
+  if (!primary || !duplicate) {
+    throw new CandidateMergeError('Candidate not found')
+  }
+
+  for (const candidate of [primary, duplicate] as any[]) {
+    const candidateTenant =
+      typeof candidate.tenant === 'object' ? candidate.tenant?.id : candidate.tenant
+    if (String(candidateTenant) !== String(tenantId)) {
+      throw new CandidateMergeError('Both candidates must belong to the tenant')
+    }
+  }
+
+  return [primary, duplicate]
+}
+
+/**
+ * Show what merging two candidates would do, for the admin to choose between conflicts
+ * @throws CandidateMergeError when the candidates can't be merged
+ */
+export async function previewCandidateMerge(
+  params: MergeParams,
+): Promise<MergePlan & { primary: any; duplicate: any }> {
+  const [primary, duplicate] = await loadCandidates(params)
+  return { primary, duplicate, ...planCandidateMerge(primary, duplicate, params.choices) }
+}
+
+/**
+ * Merge a duplicate candidate into a primary one
+ * The audit record, with a snapshot of the duplicate, is written first so nothing is lost
+ * if a later step fails. Placements, applications and job seeker accounts are moved to the
+ * primary, the duplicate is deleted (its email may be the one kept, and emails are unique per
+ * tenant) and the primary is updated.
+ * @param params.tenantId Tenant both candidates must belong to
+ * @param params.mergedBy Admin performing the merge
+ * @returns The updated primary candidate and the conflicts that were resolved
+ * @throws CandidateMergeError when the candidates can't be merged
+ */
+export async function mergeCandidates(
+  params: MergeParams & { mergedBy?: string | number },
+): Promise<{ candidate: any; conflicts: MergeConflict[]; mergeId: string | number }> {
+  const { tenantId, choices = {}, mergedBy } = params
+  const [primary, duplicate] = await loadCandidates(params)
+
+  const plan = planCandidateMerge(primary, duplicate, choices)
+
+  const merge = await payload.create({
+    collection: 'candidate-merges' as any, // Type assertion to bypass TypeScript check
+    data: {
+      tenant: Number(tenantId),
+      primary: primary.id,
+      mergedCandidateId: String(duplicate.id),
+      mergedEmail: duplicate.email,
+      mergedSource: {
+        source: duplicate.atsData?.source,
+        sourceId: duplicate.atsData?.sourceId,
+      },
+      choices,
+      conflicts: plan.conflicts,
+      snapshot: duplicate,
+      mergedBy,
+    } as any,
+  })
+
+  await payload.update({
+    collection: 'placements' as any, // Type assertion to bypass TypeScript check
+    where: {
+      candidate: { equals: duplicate.id },
+    },
+    data: { candidate: primary.id } as any,
+  })
+
+  await payload.update({
+    collection: 'applications' as any, // Type assertion to bypass TypeScript check
+    where: {
+      candidate: { equals: duplicate.id },
+    },
+    data: { candidate: primary.id } as any,
+  })
+
+  await payload.update({
+    collection: 'job-seekers' as any, // Type assertion to bypass TypeScript check
+    where: {
+      candidate: { equals: duplicate.id },
+    },
+    data: { candidate: primary.id } as any,
+  })
+
+  await payload.delete({
+    collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+    id: duplicate.id,
+  })
+
+  const candidate = await payload.update({
+    collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+    id: primary.id,
+    data: plan.data as any,
+  })
+
+  logger.info('Merged candidates', {
+    tenantId,
+    primaryId: primary.id,
+    duplicateId: duplicate.id,
+    mergeId: merge.id,
+    conflicts: plan.conflicts.map((conflict) => `${conflict.field}:${conflict.chosen}`),
+  })
+
+  return { candidate, conflicts: plan.conflicts, mergeId: merge.id }
+}
@@ -0,0 +1,216 @@
+import payload from 'payload'
+import { logger } from '@/lib/logger'
+import { normalizeEmail } from './candidateIdentity'
+
+/**
+ * Candidate consent to process their data, resolved from every source we know about
+ *
+ * Sources are checked in order and the first with an answer decides:
+ * 1. The candidate's own sharing preferences with us: opting out of internal use refuses
+ * 2. Their latest verified answer on one of our forms, unless the ATS record changed since
+ * 3. The tenant's consent custom field on the ATS record
+ * 4. An ATS status the tenant treats as withdrawn consent, which refuses
+ * 5. Consent already recorded on our candidate
+ *
+ * When the ATS doesn't say when its record changed, a refusal by the ATS beats an apply form.
+ *
+ * Answers on the public apply form are kept unverified, as anyone can type in any email. Only
+ * answers given while signed in to a job seeker account, which proves the email, decide.
+ *
+ * Candidates with no answer anywhere are still synced, but are not enriched.
+ */
+
+export type ConsentStatus = 'granted' | 'refused' | 'unknown'
+
+export type ConsentSource =
+  'candidate_preferences' | 'apply_form' | 'ats_field' | 'ats_status' | 'candidate_record' | 'none'
+
+export interface ConsentDecision {
+  status: ConsentStatus
+  source: ConsentSource
+  // Why the decision was made, for the data access log
+  reason: string
+}
+
+export interface ConsentSignals {
+  // Our candidate, when the person already exists in the tenant
+  candidate?: {
+    dataUsageConsent?: boolean | null
+    dataSharingPreferences?: { allowInternalUse?: boolean | null } | null
+  } | null
+  // Latest consent the person gave on one of our apply forms
+  applyForm?: ApplyFormConsent | null
+  // The tenant's consent field on the ATS record
+  atsField?: { name: string; value: unknown } | null
+  // The ATS status, when the tenant treats it as withdrawn consent
+  atsStatus?: { status: string; withdrawn: boolean } | null
+  // When the ATS record was last changed
+  atsUpdatedAt?: string | null
+}
+
+export interface ApplyFormConsent {
+  granted: boolean
+  capturedAt: string
+}
+
+const CONSENT_YES = ['true', 'yes', 'y', '1', 'granted', 'given', 'opted in', 'opt in', 'consented']
+const CONSENT_NO = [
+  'false',
+  'no',
+  'n',
+  '0',
+  'refused',
+  'withdrawn',
+  'opted out',
+  'opt out',
+  'declined',
+]
+
+/**
+ * Read a consent answer from an ATS field
+ * @returns Whether consent was given, or undefined when the value isn't a recognisable answer
+ */
+export function parseConsentValue(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') return value
+  if (typeof value === 'number') return value === 1 ? true : value === 0 ? false : undefined
+  if (typeof value !== 'string') return undefined
+
+  const answer = value.trim().toLowerCase().replace(/[-_]/g, ' ')
+  if (CONSENT_YES.includes(answer)) return true
+  if (CONSENT_NO.includes(answer)) return false
+  return undefined
+}
+
+/**
+ * Decide whether a candidate has consented, by the precedence described above
+ */
+export function resolveConsent(signals: ConsentSignals): ConsentDecision {
+  const { candidate, applyForm, atsField, atsStatus, atsUpdatedAt } = signals
+
+  if (candidate?.dataSharingPreferences?.allowInternalUse === false) {
+    return {
+      status: 'refused',
+      source: 'candidate_preferences',
+      reason: 'Candidate opted out of internal use of their data',
+    }
+  }
+
+  // What the ATS record says, its consent field before its status
+  const atsAnswer = atsField ? parseConsentValue(atsField.value) : undefined
+  let atsDecision: ConsentDecision | null = null
+  if (atsField && atsAnswer !== undefined) {
+    atsDecision = {
+      status: atsAnswer ? 'granted' : 'refused',
+      source: 'ats_field',
+      reason: `ATS field "${atsField.name}" is "${String(atsField.value)}"`,
+    }
+  } else if (atsStatus?.withdrawn) {
+    atsDecision = {
+      status: 'refused',
+      source: 'ats_status',
+      reason: `ATS status "${atsStatus.status}" withdraws consent`,
+    }
+  }
+
+  if (applyForm) {
+    const atsIsNewer =
+      atsDecision &&
+      (atsUpdatedAt
+        ? new Date(atsUpdatedAt).getTime() > new Date(applyForm.capturedAt).getTime()
+        : atsDecision.status === 'refused')
+
+    if (!atsIsNewer) {
+      return {
+        status: applyForm.granted ? 'granted' : 'refused',
+        source: 'apply_form',
+        reason: `Candidate ${applyForm.granted ? 'gave' : 'refused'} consent on an apply form at ${applyForm.capturedAt}`,
+      }
+    }
+  }
+
+  if (atsDecision) {
+    return atsDecision
+  }
+
+  if (candidate?.dataUsageConsent === true) {
+    return {
+      status: 'granted',
+      source: 'candidate_record',
+      reason: 'Consent previously recorded on the candidate',
+    }
+  }
+
+  return {
+    status: 'unknown',
+    source: 'none',
+    reason: atsField
+      ? `No consent recorded; ATS field "${atsField.name}" is empty or unrecognised`
+      : 'No consent recorded',
+  }
+}
+
+/**
+ * The latest verified consent a person gave on the tenant's forms, if any
+ */
+export async function findApplyFormConsent(
+  tenantId: string | number,
+  email: string | null | undefined,
+): Promise<ApplyFormConsent | null> {
+  const normalized = normalizeEmail(email)
+  if (!normalized) return null
+
+  const records = await payload.find({
+    collection: 'consent-records' as any, // Type assertion to bypass TypeScript check
+    where: {
+      email: { equals: normalized },
+      tenant: { equals: tenantId },
+      verified: { equals: true },
+    },
+    sort: '-capturedAt',
+    limit: 1,
+    depth: 0,
+  })
+
+  const record = records.docs[0] as { granted?: boolean; capturedAt?: string } | undefined
+  return record ? { granted: Boolean(record.granted), capturedAt: String(record.capturedAt) } : null
+}
+
+/**
+ * Keep the consent an applicant gave, or refused, on one of our apply forms
+ * Never throws: the application itself has already been recorded.
+ * @param consent.statement The consent wording the applicant was shown
+ * @param consent.source The form, an apply form unless it was the job seeker's account
+ * @param consent.verified Whether the person proved they own the email, by signing in
+ */
+export async function recordApplyFormConsent(consent: {
+  tenantId: string | number
+  email: string
+  granted: boolean
+  statement?: string
+  source?: 'apply_form' | 'account'
+  verified?: boolean
+  jobId?: string | number
+  eventId?: string | number
+}): Promise<void> {
+  try {
+    await payload.create({
+      collection: 'consent-records' as any, // Type assertion to bypass TypeScript check
+      data: {
+        tenant: consent.tenantId,
+        email: normalizeEmail(consent.email),
+        granted: consent.granted,
+        source: consent.source || 'apply_form',
+        verified: Boolean(consent.verified),
+        statement: consent.statement,
+        job: consent.jobId,
+        event: consent.eventId,
+        capturedAt: new Date().toISOString(),
+      },
+    })
+  } catch (error) {
+    logger.error('Failed to record apply form consent', {
+      tenantId: consent.tenantId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+}
@@ -0,0 +1,330 @@
+import crypto from 'crypto'
+import type { FieldHook, Payload, PayloadRequest } from 'payload'
+import { oauthLogger as logger } from '@/lib/logger'
+
+/**
+ * Envelope encryption for ATS credentials stored on tenants
+ *
+ * Each value is encrypted with its own data key, and the data key is wrapped with a key
+ * encryption key held in the environment, never in the database. Rotating the key
+ * encryption key only re-wraps data keys.
+ *
+ * Stored format: `enc:<keyId>:<wrapped data key>:<iv>:<auth tag>:<ciphertext>`, all base64.
+ *
+ * Keys:
+ * - ATS_ENCRYPTION_KEY: current key, 32 bytes base64
+ * - ATS_ENCRYPTION_KEY_ID: name stored with values encrypted under the current key
+ * - ATS_ENCRYPTION_PREVIOUS_KEYS: `keyId:base64key` pairs, comma separated, still accepted
+ *   for decryption until rotation has run
+ */
+
+const PREFIX = 'enc'
+const ALGORITHM = 'aes-256-gcm'
+
+// Shown to admin users in place of a stored credential
+export const MASKED_SECRET = '••••••••'
+
+// Credential fields on tenants, as dotted paths
+export const ATS_SECRET_FIELDS = [
+  'atsConfig.jobAdder.clientSecret',
+  'atsConfig.jobAdder.accessToken',
+  'atsConfig.jobAdder.refreshToken',
+  'atsConfig.jobAdder.webhookSecret',
+  'atsConfig.jobAdder.previousWebhookSecret',
+  'atsConfig.bullhorn.clientSecret',
+  'atsConfig.bullhorn.accessToken',
+  'atsConfig.bullhorn.refreshToken',
+  'atsConfig.bullhorn.restToken',
+  'atsConfig.vincere.idToken',
+  'atsConfig.vincere.refreshToken',
+] as const
+
+export class CredentialEncryptionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CredentialEncryptionError'
+  }
+}
+
+interface KeyRing {
+  currentId: string | null
+  keys: Map<string, Buffer>
+}
+
+function parseKey(keyId: string, value: string): Buffer {
+  const key = Buffer.from(value, 'base64')
+  if (key.length !== 32) {
+    throw new CredentialEncryptionError(`Encryption key ${keyId} must be 32 bytes, base64 encoded`)
+  }
+  return key
+}
+
+function getKeyRing(): KeyRing {
+  const keys = new Map<string, Buffer>()
+  const currentKey = process.env.ATS_ENCRYPTION_KEY
+  const currentId = currentKey ? process.env.ATS_ENCRYPTION_KEY_ID || 'default' : null
+
+  for (const entry of (process.env.ATS_ENCRYPTION_PREVIOUS_KEYS || '').split(',')) {
+    const [keyId, value] = entry.trim().split(':')
+    if (keyId && value) {
+      keys.set(keyId, parseKey(keyId, value))
+    }
+  }
+
+  if (currentKey && currentId) {
+    keys.set(currentId, parseKey(currentId, currentKey))
+  }
+
+  return { currentId, keys }
+}
+
+function seal(key: Buffer, plaintext: Buffer): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  return { iv, tag: cipher.getAuthTag(), ciphertext }
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv)
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()])
+}
+
+function wrapKey(kek: Buffer, dataKey: Buffer): string {
+  const { iv, tag, ciphertext } = seal(kek, dataKey)
+  return Buffer.concat([iv, tag, ciphertext]).toString('base64')
+}
+
+function unwrapKey(kek: Buffer, wrapped: string): Buffer {
+  const buffer = Buffer.from(wrapped, 'base64')
+  return open(kek, buffer.subarray(0, 12), buffer.subarray(12, 28), buffer.subarray(28))
+}
+
+function parseEncrypted(value: string) {
+  const [prefix, keyId, wrappedKey, iv, tag, ciphertext] = value.split(':')
+  if (prefix !== PREFIX || !ciphertext) {
+    throw new CredentialEncryptionError('Value is not an encrypted credential')
+  }
+  return { keyId, wrappedKey, iv, tag, ciphertext }
+}
+
+function getKey(keyRing: KeyRing, keyId: string): Buffer {
+  const key = keyRing.keys.get(keyId)
+  if (!key) {
+    throw new CredentialEncryptionError(`Encryption key ${keyId} is not configured`)
+  }
+  return key
+}
+
+export function isEncrypted(value: unknown): value is string {
+  return (
+    typeof value === 'string' && value.startsWith(`${PREFIX}:`) && value.split(':').length === 6
+  )
+}
+
+/**
+ * Encrypt a credential with a fresh data key
+ * Without a configured key, values are stored as they are outside production so local
+ * development works without setup.
+ */
+export function encryptSecret(plaintext: string): string {
+  const keyRing = getKeyRing()
+  if (!keyRing.currentId) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new CredentialEncryptionError('ATS_ENCRYPTION_KEY is not configured')
+    }
+    logger.warn('ATS_ENCRYPTION_KEY is not configured, storing credential unencrypted')
+    return plaintext
+  }
+
+  const dataKey = crypto.randomBytes(32)
+  const { iv, tag, ciphertext } = seal(dataKey, Buffer.from(plaintext, 'utf8'))
+
+  return [
+    PREFIX,
+    keyRing.currentId,
+    wrapKey(getKey(keyRing, keyRing.currentId), dataKey),
+    iv.toString('base64'),
+    tag.toString('base64'),
+    ciphertext.toString('base64'),
+  ].join(':')
+}
+
+/**
+ * Decrypt a stored credential
+ * Values written before encryption was introduced are returned as they are, so tenants keep
+ * working until the migration has run.
+ */
+export function decryptSecret(value: string): string
+export function decryptSecret(value: string | null | undefined): string | null | undefined
+export function decryptSecret(value: string | null | undefined): string | null | undefined {
+  if (!isEncrypted(value)) {
+    return value
+  }
+
+  const { keyId, wrappedKey, iv, tag, ciphertext } = parseEncrypted(value)
+  const dataKey = unwrapKey(getKey(getKeyRing(), keyId), wrappedKey)
+
+  return open(
+    dataKey,
+    Buffer.from(iv, 'base64'),
+    Buffer.from(tag, 'base64'),
+    Buffer.from(ciphertext, 'base64'),
+  ).toString('utf8')
+}
+
+/**
+ * Bring a stored credential up to date with the current key
+ * Plaintext values are encrypted; values under an older key have their data key re-wrapped.
+ * @returns The new stored value, or null when it is already current
+ */
+export function rotateSecret(value: string): string | null {
+  if (!isEncrypted(value)) {
+    return encryptSecret(value)
+  }
+
+  const keyRing = getKeyRing()
+  const parsed = parseEncrypted(value)
+  if (!keyRing.currentId || parsed.keyId === keyRing.currentId) {
+    return null
+  }
+
+  const dataKey = unwrapKey(getKey(keyRing, parsed.keyId), parsed.wrappedKey)
+  return [
+    PREFIX,
+    keyRing.currentId,
+    wrapKey(getKey(keyRing, keyRing.currentId), dataKey),
+    parsed.iv,
+    parsed.tag,
+    parsed.ciphertext,
+  ].join(':')
+}
+
+/**
+ * Field hooks for a credential field
+ * Values are encrypted on write and masked for signed-in users on read. The local API, used by
+ * the integrations, gets the stored value and decrypts it with `decryptSecret`.
+ * @param path Dotted path of the field, one of `ATS_SECRET_FIELDS`
+ */
+export function encryptedFieldHooks(path: (typeof ATS_SECRET_FIELDS)[number]): {
+  beforeChange: FieldHook[]
+  afterRead: FieldHook[]
+} {
+  return {
+    beforeChange: [
+      async ({ value, collection, originalDoc, req }) => {
+        // The admin form sends back the mask for credentials it was never shown. The original
+        // document was read with the same request, so it is masked too: keep the stored value.
+        if (value === MASKED_SECRET) {
+          return getStoredValue(req, collection?.slug, originalDoc?.id, path)
+        }
+        if (typeof value !== 'string' || !value || isEncrypted(value)) {
+          return value
+        }
+        return encryptSecret(value)
+      },
+    ],
+    afterRead: [
+      ({ value, req }) => {
+        if (req?.user && value) {
+          return MASKED_SECRET
+        }
+        return value
+      },
+    ],
+  }
+}
+
+/**
+ * Stored value of a field, read from the database without any hooks
+ * @returns The value, or null for a document that hasn't been saved yet
+ */
+async function getStoredValue(
+  req: PayloadRequest,
+  collection: string | undefined,
+  id: string | number | undefined,
+  path: string,
+): Promise<unknown> {
+  if (!collection || id === undefined) {
+    return null
+  }
+
+  const doc = await req.payload.db.findOne({
+    collection,
+    req,
+    where: { id: { equals: id } },
+  })
+  return getValueAtPath(doc, path) ?? null
+}
+
+function getValueAtPath(record: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>((current, key) => (current as Record<string, unknown>)?.[key], record)
+}
+
+function setValueAtPath(record: Record<string, any>, path: string, value: unknown) {
+  const keys = path.split('.')
+  const last = keys.pop() as string
+  const parent = keys.reduce((current, key) => (current[key] ??= {}), record)
+  parent[last] = value
+}
+
+/**
+ * Encrypt plaintext credentials and re-wrap credentials under older keys for every tenant
+ * Run after setting a new ATS_ENCRYPTION_KEY (moving the old one to
+ * ATS_ENCRYPTION_PREVIOUS_KEYS); the old key can be removed once this has completed.
+ * @param options.tenantId Only rotate this tenant's credentials
+ * @returns Counts of tenants checked and updated
+ */
+export async function rotateTenantCredentials(
+  payload: Payload,
+  options: { tenantId?: string | number } = {},
+): Promise<{ tenants: number; updated: number; errors: number }> {
+  const result = { tenants: 0, updated: 0, errors: 0 }
+
+  const tenants = await payload.find({
+    collection: 'tenants',
+    ...(options.tenantId !== undefined && { where: { id: { equals: options.tenantId } } }),
+    pagination: false,
+    depth: 0,
+  })
+
+  for (const tenant of tenants.docs) {
+    result.tenants++
+
+    try {
+      const data: Record<string, any> = {}
+
+      for (const path of ATS_SECRET_FIELDS) {
+        const value = getValueAtPath(tenant, path)
+        if (typeof value !== 'string' || !value) continue
+
+        const rotated = rotateSecret(value)
+        if (rotated) {
+          setValueAtPath(data, path, rotated)
+        }
+      }
+
+      if (Object.keys(data).length === 0) continue
+
+      await payload.update({
+        collection: 'tenants',
+        id: tenant.id,
+        data,
+        depth: 0,
+      })
+      result.updated++
+    } catch (error) {
+      result.errors++
+      logger.error('Error rotating tenant credentials', {
+        tenantId: tenant.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  logger.info('Rotated tenant credentials', result)
+  return result
+}
@@ -0,0 +1,282 @@
+import payload from 'payload'
+import slugify from 'slugify'
+import { syncLogger as logger } from '@/lib/logger'
+
+export type FieldMappingValueType = 'text' | 'number' | 'boolean' | 'list' | 'sector'
+
+/**
+ * One tenant-configured rule, as stored in `atsConfig.<provider>.fieldMapping`.
+ *
+ * The value is read from `source` (or rendered from `expression`), narrowed by `pattern`,
+ * translated through `valueMap`, replaced by `defaultValue` when empty, converted to
+ * `valueType` and written to `target` on the transformed record.
+ */
+export interface FieldMappingRule {
+  id?: string | null
+  // Dotted path on our record, e.g. `sector` or `salary.min`
+  target: string
+  // Dotted path on the ATS record, e.g. `category.name` or `customFields.Sector`
+  source?: string | null
+  // Template with `{{path}}` placeholders, used instead of `source`
+  expression?: string | null
+  // Regular expression applied to the value; the first capture group (or the whole match) is kept
+  pattern?: string | null
+  valueMap?:
+    | {
+        id?: string | null
+        from: string
+        to: string
+      }[]
+    | null
+  defaultValue?: string | null
+  valueType?: FieldMappingValueType | null
+}
+
+export interface FieldMapping {
+  jobs?: FieldMappingRule[] | null
+  candidates?: FieldMappingRule[] | null
+}
+
+export type FieldMappingRecordType = keyof FieldMapping
+
+/**
+ * Fields a rule may write, per record type
+ * Ownership, identity, consent and sync bookkeeping (`tenant`, `email`, `atsData`, ...) are
+ * left out so a rule can't move records between tenants or change what a candidate agreed to.
+ */
+export const FIELD_MAPPING_TARGETS: Record<FieldMappingRecordType, readonly string[]> = {
+  jobs: [
+    'title',
+    'location',
+    'sector',
+    'type',
+    'salary.min',
+    'salary.max',
+    'salary.currency',
+    'salary.period',
+    'featured',
+    'apply_link',
+    'expiry_date',
+    'status',
+    'seo.title',
+    'seo.description',
+    'seo.keywords',
+  ],
+  candidates: [
+    'firstName',
+    'lastName',
+    'phone',
+    'status',
+    'currentJobTitle',
+    'currentEmployer',
+    'location',
+    'workRights',
+    'availability',
+    'salaryExpectation.min',
+    'salaryExpectation.max',
+    'salaryExpectation.currency',
+    'salaryExpectation.period',
+    'workTypes',
+  ],
+}
+
+// Path segments that would reach an object's prototype instead of one of its fields
+const UNSAFE_PATH_SEGMENTS = ['__proto__', 'constructor', 'prototype']
+
+export function isFieldMappingTarget(type: FieldMappingRecordType, target: string): boolean {
+  return FIELD_MAPPING_TARGETS[type].includes(target)
+}
+
+/**
+ * Read a dotted path from a record
+ * Array segments that aren't indexes pick the entry whose `fieldName` or `name` matches,
+ * and use its `value` when it has one, so `customFields.Sector` reads ATS custom fields.
+ */
+export function getValueAtPath(record: unknown, path: string): unknown {
+  let current: unknown = record
+
+  for (const key of path.split('.')) {
+    if (current === null || current === undefined) {
+      return undefined
+    }
+
+    if (Array.isArray(current) && !/^\d+$/.test(key)) {
+      const entry = current.find(
+        (item) =>
+          typeof item === 'object' &&
+          item !== null &&
+          (item.fieldName === key || item.name === key),
+      )
+      current = entry && 'value' in entry ? entry.value : entry
+      continue
+    }
+
+    current = (current as Record<string, unknown>)[key]
+  }
+
+  return current
+}
+
+/**
+ * Write a dotted path on a record, creating intermediate objects as needed
+ */
+export function setValueAtPath(record: Record<string, unknown>, path: string, value: unknown) {
+  const keys = path.split('.')
+  if (keys.some((key) => UNSAFE_PATH_SEGMENTS.includes(key))) {
+    throw new Error(`Invalid path ${path}`)
+  }
+  let current = record
+
+  for (const key of keys.slice(0, -1)) {
+    if (typeof current[key] !== 'object' || current[key] === null) {
+      current[key] = {}
+    }
+    current = current[key] as Record<string, unknown>
+  }
+
+  current[keys[keys.length - 1]] = value
+}
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  )
+}
+
+function renderExpression(expression: string, record: unknown): string {
+  return expression.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => {
+    const value = getValueAtPath(record, path)
+    return isEmpty(value) ? '' : String(value)
+  })
+}
+
+function mapValue(value: unknown, valueMap: NonNullable<FieldMappingRule['valueMap']>): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => mapValue(item, valueMap))
+  }
+
+  const key = String(value).trim().toLowerCase()
+  const entry = valueMap.find((item) => item.from.trim().toLowerCase() === key)
+  return entry ? entry.to : value
+}
+
+async function findSectorId(name: string): Promise<number | undefined> {
+  const sectors = await payload.find({
+    collection: 'sectors',
+    where: {
+      or: [
+        { name: { equals: name } },
+        { slug: { equals: slugify(name, { lower: true, strict: true }) } },
+      ],
+    },
+    limit: 1,
+    depth: 0,
+  })
+  return sectors.docs[0]?.id as number | undefined
+}
+
+async function convertValue(
+  value: unknown,
+  valueType: FieldMappingValueType,
+): Promise<unknown | undefined> {
+  switch (valueType) {
+    case 'number': {
+      // Tolerate currency symbols and thousands separators, e.g. "$95,000"
+      const number = parseFloat(String(value).replace(/[^\d.-]/g, ''))
+      return Number.isNaN(number) ? undefined : number
+    }
+    case 'boolean':
+      return ['true', 'yes', 'y', '1'].includes(String(value).trim().toLowerCase())
+    case 'list':
+      return (Array.isArray(value) ? value.map(String) : String(value).split(/[,;\n]/))
+        .map((item) => item.trim())
+        .filter(Boolean)
+    case 'sector':
+      return findSectorId(String(value).trim())
+    default:
+      return Array.isArray(value) ? value.join(', ') : String(value)
+  }
+}
+
+/**
+ * Work out the value a rule produces for an ATS record
+ * @returns The value, or undefined when the rule leaves the target untouched
+ */
+export async function resolveRuleValue(
+  rule: FieldMappingRule,
+  record: unknown,
+): Promise<unknown | undefined> {
+  let value: unknown = rule.expression
+    ? renderExpression(rule.expression, record)
+    : rule.source
+      ? getValueAtPath(record, rule.source)
+      : undefined
+
+  if (rule.pattern && !isEmpty(value)) {
+    const match = new RegExp(rule.pattern, 'i').exec(String(value))
+    value = match ? (match[1] ?? match[0]) : undefined
+  }
+
+  if (rule.valueMap?.length && !isEmpty(value)) {
+    value = mapValue(value, rule.valueMap)
+  }
+
+  if (isEmpty(value)) {
+    if (isEmpty(rule.defaultValue)) {
+      return undefined
+    }
+    value = rule.defaultValue
+  }
+
+  return convertValue(value, rule.valueType || 'text')
+}
+
+/**
+ * Apply a tenant's mapping rules on top of a transformed record
+ * Rules run in order, so a later rule for the same target wins. A rule that fails, e.g.
+ * because of an invalid pattern or a target not in `FIELD_MAPPING_TARGETS`, is logged and
+ * skipped so one bad rule can't stop a sync.
+ * @param source Record as received from the ATS
+ * @param transformed Record produced by the provider's default transform
+ * @param rules Tenant's mapping rules for this record type
+ * @param type Record type the rules are for
+ * @returns A copy of the transformed record with the rules applied
+ */
+export async function applyFieldMapping<T extends object>(
+  source: unknown,
+  transformed: T,
+  rules: FieldMappingRule[] | null | undefined,
+  type: FieldMappingRecordType,
+): Promise<T> {
+  if (!rules?.length) {
+    return transformed
+  }
+
+  const mapped = structuredClone(transformed) as T & Record<string, unknown>
+
+  for (const rule of rules) {
+    if (!rule.target) continue
+
+    try {
+      if (!isFieldMappingTarget(type, rule.target)) {
+        throw new Error(`${rule.target} can't be mapped on ${type}`)
+      }
+
+      const value = await resolveRuleValue(rule, source)
+      if (value !== undefined) {
+        setValueAtPath(mapped, rule.target, value)
+      }
+    } catch (error) {
+      logger.warn('Skipping field mapping rule', {
+        target: rule.target,
+        source: rule.source,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  return mapped
+}
@@ -0,0 +1,361 @@
+import payload from 'payload'
+import { Tenant } from '../../payload-types'
+import { getAtsProviders } from './registry'
+import { AtsHealth, AtsProvider, AtsProviderSlug } from './types'
+import { SyncRunStatus, SyncRunType } from './syncRuns'
+import { getWebhookRegistration, WebhookRegistration } from './webhookRegistrations'
+
+/**
+ * Health of every tenant's ATS connections, for the ATS health dashboard
+ *
+ * Combines what each provider reports about its connection with the sync run ledger and
+ * the webhook inbox. A connection with problems is only flagged once its oldest problem
+ * has lasted longer than a threshold, so a single failed run doesn't page anyone.
+ */
+
+export type AtsHealthIssueCode =
+  | 'not_connected'
+  | 'token_refresh_failed'
+  | 'job_sync_failing'
+  | 'candidate_sync_failing'
+  | 'webhook_registration_failed'
+  | 'webhook_dead_letters'
+
+export interface AtsHealthIssue {
+  code: AtsHealthIssueCode
+  message: string
+  // When the problem started, or null when we can't tell
+  since: string | null
+}
+
+// A tenant's sync runs of one type, reduced to what the dashboard shows
+export interface SyncRunSummary {
+  lastSuccessAt: string | null
+  // Oldest unsuccessful run since the last successful one; set while the sync is failing
+  failingSince: string | null
+  lastError: string | null
+}
+
+export interface ConnectionSignals {
+  health: AtsHealth
+  jobs: SyncRunSummary
+  // Only for providers that pull candidates
+  candidates?: SyncRunSummary
+  // Only for providers that register webhooks
+  registration?: WebhookRegistration
+  deadLetters: { count: number; oldestAt: string | null }
+}
+
+export interface AtsConnectionHealth {
+  provider: AtsProviderSlug
+  name: string
+  connected: boolean
+  tokenExpiresAt: string | null
+  lastJobSync: string | null
+  lastCandidateSync: string | null
+  errors: {
+    // Failed or partial sync runs in the last day
+    syncRuns: number
+    deadLetters: number
+  }
+  webhooks: {
+    registration: 'registered' | 'failed' | 'unknown' | 'not_required'
+    registeredAt: string | null
+    error: string | null
+    lastReceivedAt: string | null
+  }
+  capabilities: {
+    pullCandidates: boolean
+    registerWebhooks: boolean
+    rotateWebhookSecret: boolean
+  }
+  issues: AtsHealthIssue[]
+  unhealthySince: string | null
+  flagged: boolean
+}
+
+export interface TenantAtsHealth {
+  tenantId: string | number
+  tenantName: string
+  connections: AtsConnectionHealth[]
+  flagged: boolean
+}
+
+export interface SyncRunRecord {
+  type: SyncRunType
+  status: SyncRunStatus
+  startedAt: string
+  error?: string | null
+}
+
+const DEFAULT_UNHEALTHY_THRESHOLD_HOURS = 6
+
+// Sync runs looked at for each connection
+const RUN_HISTORY_DAYS = 7
+const RUN_HISTORY_LIMIT = 500
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+/**
+ * Hours a connection may be unhealthy before it is flagged, from
+ * `ATS_UNHEALTHY_THRESHOLD_HOURS`
+ */
+export function getUnhealthyThresholdHours(): number {
+  const hours = Number(process.env.ATS_UNHEALTHY_THRESHOLD_HOURS)
+  return hours > 0 ? hours : DEFAULT_UNHEALTHY_THRESHOLD_HOURS
+}
+
+/**
+ * Reduce sync runs of one type, newest first, to the last success and any failure since
+ */
+export function summariseSyncRuns(runs: SyncRunRecord[], type: SyncRunType): SyncRunSummary {
+  const summary: SyncRunSummary = { lastSuccessAt: null, failingSince: null, lastError: null }
+
+  for (const run of runs) {
+    if (run.type !== type || run.status === 'running') continue
+
+    if (run.status === 'succeeded') {
+      summary.lastSuccessAt = run.startedAt
+      break
+    }
+
+    summary.failingSince = run.startedAt
+    summary.lastError ??= run.error || `Sync run ${run.status}`
+  }
+
+  return summary
+}
+
+/**
+ * Problems with a connection, from what we know about it
+ */
+export function findHealthIssues(signals: ConnectionSignals): AtsHealthIssue[] {
+  const { health, jobs, candidates, registration, deadLetters } = signals
+  const issues: AtsHealthIssue[] = []
+
+  if (health.lastRefreshError) {
+    issues.push({
+      code: 'token_refresh_failed',
+      message: `Token refresh failed: ${health.lastRefreshError}`,
+      since: health.lastRefreshErrorAt || null,
+    })
+  }
+
+  // Nothing else can work until the tenant reconnects
+  if (!health.connected) {
+    issues.push({ code: 'not_connected', message: 'Not connected', since: null })
+    return issues
+  }
+
+  if (jobs.failingSince) {
+    issues.push({
+      code: 'job_sync_failing',
+      message: `Job sync failing: ${jobs.lastError}`,
+      since: jobs.failingSince,
+    })
+  }
+
+  if (candidates?.failingSince) {
+    issues.push({
+      code: 'candidate_sync_failing',
+      message: `Candidate sync failing: ${candidates.lastError}`,
+      since: candidates.failingSince,
+    })
+  }
+
+  if (registration?.status === 'failed') {
+    issues.push({
+      code: 'webhook_registration_failed',
+      message: `Webhook registration failed: ${registration.error || 'Unknown error'}`,
+      since: registration.failingSince || registration.attemptedAt || null,
+    })
+  }
+
+  if (deadLetters.count > 0) {
+    issues.push({
+      code: 'webhook_dead_letters',
+      message: `${deadLetters.count} webhook ${deadLetters.count === 1 ? 'delivery' : 'deliveries'} dead-lettered`,
+      since: deadLetters.oldestAt,
+    })
+  }
+
+  return issues
+}
+
+/**
+ * When a connection's oldest problem started, and whether it has lasted past the threshold
+ * Problems with no known start are flagged straight away.
+ */
+export function assessIssues(
+  issues: AtsHealthIssue[],
+  thresholdHours: number,
+  now: number = Date.now(),
+): { unhealthySince: string | null; flagged: boolean } {
+  const starts = issues
+    .map((issue) => issue.since)
+    .filter((since): since is string => Boolean(since))
+    .sort((a, b) => Date.parse(a) - Date.parse(b))
+
+  return {
+    unhealthySince: starts[0] || null,
+    flagged: issues.some(
+      (issue) => !issue.since || now - Date.parse(issue.since) >= thresholdHours * HOUR_MS,
+    ),
+  }
+}
+
+async function getRecentSyncRuns(
+  tenantId: string | number,
+  provider: AtsProviderSlug,
+  now: number,
+): Promise<SyncRunRecord[]> {
+  const runs = await payload.find({
+    collection: 'sync-runs' as any, // Type assertion to bypass TypeScript check
+    where: {
+      tenant: { equals: tenantId },
+      provider: { equals: provider },
+      startedAt: { greater_than: new Date(now - RUN_HISTORY_DAYS * DAY_MS).toISOString() },
+    },
+    sort: '-startedAt',
+    limit: RUN_HISTORY_LIMIT,
+    depth: 0,
+  })
+
+  return runs.docs as unknown as SyncRunRecord[]
+}
+
+async function getDeliveryStats(tenantId: string | number, provider: AtsProviderSlug) {
+  const [deadLetters, latest] = await Promise.all([
+    payload.find({
+      collection: 'webhook-deliveries' as any, // Type assertion to bypass TypeScript check
+      where: {
+        tenantId: { equals: String(tenantId) },
+        provider: { equals: provider },
+        status: { equals: 'dead_letter' },
+      },
+      sort: 'receivedAt',
+      limit: 1,
+    }),
+    payload.find({
+      collection: 'webhook-deliveries' as any, // Type assertion to bypass TypeScript check
+      where: {
+        tenantId: { equals: String(tenantId) },
+        provider: { equals: provider },
+      },
+      sort: '-receivedAt',
+      limit: 1,
+    }),
+  ])
+
+  const oldest = deadLetters.docs[0] as { receivedAt?: string } | undefined
+  const last = latest.docs[0] as { receivedAt?: string } | undefined
+
+  return {
+    deadLetters: { count: deadLetters.totalDocs, oldestAt: oldest?.receivedAt || null },
+    lastReceivedAt: last?.receivedAt || null,
+  }
+}
+
+/**
+ * Health of a tenant's connection to one provider
+ */
+export async function getConnectionHealth(
+  provider: AtsProvider,
+  tenant: Tenant,
+  options: { thresholdHours?: number; now?: number } = {},
+): Promise<AtsConnectionHealth> {
+  const { thresholdHours = getUnhealthyThresholdHours(), now = Date.now() } = options
+  const health = provider.getHealth(tenant)
+
+  const [runs, deliveries] = await Promise.all([
+    getRecentSyncRuns(tenant.id, provider.slug, now),
+    getDeliveryStats(tenant.id, provider.slug),
+  ])
+
+  const canRegister = Boolean(provider.webhooks?.register)
+  const registration = canRegister ? getWebhookRegistration(tenant, provider.slug) : undefined
+  const signals: ConnectionSignals = {
+    health,
+    jobs: summariseSyncRuns(runs, 'jobs'),
+    candidates: provider.pullCandidates ? summariseSyncRuns(runs, 'candidates') : undefined,
+    registration,
+    deadLetters: deliveries.deadLetters,
+  }
+
+  const issues = findHealthIssues(signals)
+
+  return {
+    provider: provider.slug,
+    name: provider.name,
+    connected: health.connected,
+    tokenExpiresAt: health.tokenExpiresAt || null,
+    // The ledger only covers recent runs, so fall back to the provider's own watermark
+    lastJobSync: signals.jobs.lastSuccessAt || health.lastJobSync || null,
+    lastCandidateSync: signals.candidates?.lastSuccessAt || health.lastCandidateSync || null,
+    errors: {
+      syncRuns: runs.filter(
+        (run) =>
+          (run.status === 'failed' || run.status === 'partial') &&
+          now - Date.parse(run.startedAt) < DAY_MS,
+      ).length,
+      deadLetters: deliveries.deadLetters.count,
+    },
+    webhooks: {
+      registration: !canRegister ? 'not_required' : registration?.status || 'unknown',
+      registeredAt: registration?.registeredAt || null,
+      error: registration?.status === 'failed' ? registration.error || null : null,
+      lastReceivedAt: deliveries.lastReceivedAt,
+    },
+    capabilities: {
+      pullCandidates: Boolean(provider.pullCandidates),
+      registerWebhooks: canRegister,
+      rotateWebhookSecret: Boolean(provider.webhooks?.rotateSecret),
+    },
+    issues,
+    ...assessIssues(issues, thresholdHours, now),
+  }
+}
+
+/**
+ * Health of every tenant with at least one ATS integration switched on
+ * @param options.thresholdHours Hours a connection may be unhealthy before it is flagged
+ * @param options.tenantId Only report this tenant
+ */
+export async function getAtsHealthReport(
+  options: { thresholdHours?: number; now?: number; tenantId?: string | number } = {},
+): Promise<TenantAtsHealth[]> {
+  const providers = getAtsProviders()
+  if (providers.length === 0) return []
+
+  const tenants = await payload.find({
+    collection: 'tenants',
+    where: {
+      or: providers.map((provider) => ({
+        [`features.${provider.feature}`]: { equals: true },
+      })),
+      ...(options.tenantId !== undefined && { id: { equals: options.tenantId } }),
+    },
+    pagination: false,
+  })
+
+  const report: TenantAtsHealth[] = []
+
+  for (const tenant of tenants.docs as unknown as Tenant[]) {
+    const connections: AtsConnectionHealth[] = []
+
+    for (const provider of providers) {
+      if (!tenant.features?.[provider.feature]) continue
+      connections.push(await getConnectionHealth(provider, tenant, options))
+    }
+
+    report.push({
+      tenantId: tenant.id,
+      tenantName: tenant.name,
+      connections,
+      flagged: connections.some((connection) => connection.flagged),
+    })
+  }
+
+  return report
+}
@@ -1,66 +1,119 @@
 import { Plugin } from 'payload'
-import { jobAdderIntegration } from './integrations/jobAdder'
-import { bullhornIntegration } from './integrations/bullhorn'
-import { Job, Tenant } from '../../payload-types'
+import { jobAdder } from './integrations/jobAdder'
+import { bullhorn } from './integrations/bullhorn'
+import { vincere } from './integrations/vincere'
+import { sandbox } from './integrations/sandbox'
+import {
+  registerAtsProvider,
+  getAtsProvider,
+  getAtsProviders,
+  getConnectedProviders,
+  pushJobToProviders,
+  SKIP_ATS_PUSH_CONTEXT,
+  isAtsPushSkipped,
+  runScheduledSync,
+  processProviderWebhooks,
+  pushProviderApplications,
+  pushProviderEnrichment,
+} from './registry'
+import { getAtsHealthReport } from './health'
+import { AtsProvider } from './types'
 
-interface JobWithTenant extends Omit<Job, 'tenant'> {
-  tenant: {
-    id: string
-    atsConfig?: Tenant['atsConfig']
-  }
+export type { AtsProvider, AtsProviderSlug, AtsSyncOptions, AtsSyncStats, AtsHealth } from './types'
+export {
+  registerAtsProvider,
+  getAtsProvider,
+  getAtsProviders,
+  getConnectedProviders,
+  pushJobToProviders,
+  SKIP_ATS_PUSH_CONTEXT,
+  isAtsPushSkipped,
+  runScheduledSync,
+  processProviderWebhooks,
+  pushProviderApplications,
+  pushProviderEnrichment,
+  getAtsHealthReport,
+}
+
+// Built-in providers are available wherever the ATS plugin is imported
+registerAtsProvider(jobAdder)
+registerAtsProvider(bullhorn)
+registerAtsProvider(vincere)
+registerAtsProvider(sandbox)
+
+export interface AtsPluginOptions {
+  // Additional providers to register alongside the built-in ones
+  providers?: AtsProvider[]
 }
 
 /**
  * ATS Plugin for Payload CMS
- * Provides integration with Applicant Tracking Systems like JobAdder and Bullhorn
+ * Provides integration with Applicant Tracking Systems through registered providers
  */
-const atsPlugin: Plugin = (config) => {
-  // Set up CRON job for JobAdder synchronization
-  // Run every hour at minute 0
-  const cronInterval = process.env.NODE_ENV === 'development' ? '0 * * * *' : '0 * * * *'
+const atsPlugin =
+  (options: AtsPluginOptions = {}): Plugin =>
+  (config) => {
+    for (const provider of options.providers || []) {
+      registerAtsProvider(provider)
+    }
 
-  // Schedule the CRON job if not in test environment
-  if (process.env.NODE_ENV !== 'test') {
-    // Use node-cron in production, or a simple interval in development
-    if (process.env.NODE_ENV === 'production') {
-      try {
-        // Dynamic import to avoid requiring node-cron in development
-        import('node-cron')
-          .then((cron) => {
-            cron.schedule(cronInterval, async () => {
-              console.log('Running scheduled JobAdder sync...')
-              try {
-                await jobAdderIntegration.scheduledJobSync()
-                console.log('Scheduled JobAdder sync completed successfully')
-              } catch (error) {
-                console.error('Error in scheduled JobAdder sync:', error)
-              }
-            })
-            console.log(`JobAdder sync CRON job scheduled with interval: ${cronInterval}`)
-          })
-          .catch((err) => {
-            console.error('Failed to import node-cron:', err)
-          })
-      } catch (error) {
-        console.error('Error setting up CRON job:', error)
-      }
-    } else {
-      // In development, use a simple interval (every 30 minutes)
-      const intervalMs = 30 * 60 * 1000 // 30 minutes
-      console.log(`Setting up JobAdder sync interval in development mode: ${intervalMs}ms`)
-      setInterval(async () => {
-        console.log('Running scheduled JobAdder sync in development mode...')
+    // Set up CRON job for ATS synchronization
+    // Run every hour at minute 0
+    const cronInterval = process.env.NODE_ENV === 'development' ? '0 * * * *' : '0 * * * *'
+
+    // Process queued webhook deliveries, polled events, application and enrichment write-backs
+    // every minute
+    const webhookCronInterval = '* * * * *'
+
+    // Schedule the CRON job if not in test environment
+    if (process.env.NODE_ENV !== 'test') {
+      // Use node-cron in production, or a simple interval in development
+      if (process.env.NODE_ENV === 'production') {
         try {
-          await jobAdderIntegration.scheduledJobSync()
-          console.log('Scheduled JobAdder sync completed successfully')
+          // Dynamic import to avoid requiring node-cron in development
+          import('node-cron')
+            .then((cron) => {
+              cron.schedule(cronInterval, async () => {
+                console.log('Running scheduled ATS sync...')
+                await runScheduledSync()
+                console.log('Scheduled ATS sync completed')
+              })
+              console.log(`ATS sync CRON job scheduled with interval: ${cronInterval}`)
+
+              cron.schedule(webhookCronInterval, async () => {
+                await processProviderWebhooks()
+                await pushProviderApplications()
+                await pushProviderEnrichment()
+              })
+              console.log(`ATS worker CRON job scheduled with interval: ${webhookCronInterval}`)
+            })
+            .catch((err) => {
+              console.error('Failed to import node-cron:', err)
+            })
         } catch (error) {
-          console.error('Error in scheduled JobAdder sync:', error)
+          console.error('Error setting up CRON job:', error)
         }
-      }, intervalMs)
+      } else {
+        // In development, use a simple interval (every 30 minutes)
+        const intervalMs = 30 * 60 * 1000 // 30 minutes
+        console.log(`Setting up ATS sync interval in development mode: ${intervalMs}ms`)
+        setInterval(async () => {
+          console.log('Running scheduled ATS sync in development mode...')
+          await runScheduledSync()
+          console.log('Scheduled ATS sync completed')
+        }, intervalMs)
+
+        // Process queued webhook deliveries, polled events, application and enrichment
+        // write-backs every minute
+        setInterval(async () => {
+          await processProviderWebhooks()
+          await pushProviderApplications()
+          await pushProviderEnrichment()
+        }, 60 * 1000)
+      }
     }
-  }
 
-  return config
-}
+    return config
+  }
 
 export default atsPlugin
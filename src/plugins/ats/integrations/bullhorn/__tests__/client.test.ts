@@ -0,0 +1,112 @@
+import axios from 'axios'
+import MockAdapter from 'axios-mock-adapter'
+import { BullhornClient } from '../client'
+import type { BullhornJobOrder } from '../types'
+
+// Mock the logger
+jest.mock('@/lib/logger', () => ({
+  bullhornLogger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+const restUrl = 'https://rest99.bullhornstaffing.com/rest-services/abc123/'
+
+function jobOrder(id: number): BullhornJobOrder {
+  return {
+    id,
+    title: `Job ${id}`,
+    isOpen: true,
+    dateAdded: 1716000000000,
+    dateLastModified: 1716000000000,
+  }
+}
+
+describe('BullhornClient', () => {
+  let mock: MockAdapter
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mock = new MockAdapter(axios)
+  })
+
+  afterEach(() => {
+    mock.reset()
+  })
+
+  it('should send the session token with each request', async () => {
+    const client = new BullhornClient({ restUrl, restToken: 'session-token' })
+    mock.onGet('entity/JobOrder/7').reply((config) => {
+      expect(config.headers?.BhRestToken).toBe('session-token')
+      return [200, { data: jobOrder(7) }]
+    })
+
+    const result = await client.getJobOrder(7)
+
+    expect(result.id).toBe(7)
+  })
+
+  it('should page through every job order', async () => {
+    const client = new BullhornClient({ restUrl, restToken: 'session-token' })
+    mock.onGet('search/JobOrder').reply((config) => {
+      const start = config.params.start
+      const data = start === 0 ? [jobOrder(1), jobOrder(2)] : [jobOrder(3)]
+      return [200, { total: 3, start, count: data.length, data }]
+    })
+
+    const result = await client.getAllJobOrders()
+
+    expect(result.map((job) => job.id)).toEqual([1, 2, 3])
+    expect(mock.history.get).toHaveLength(2)
+    expect(mock.history.get[0].params.query).toBe('isDeleted:0')
+  })
+
+  it('should limit incremental searches to recently modified records', async () => {
+    const client = new BullhornClient({ restUrl, restToken: 'session-token' })
+    mock.onGet('search/Candidate').reply(200, { total: 0, start: 0, count: 0, data: [] })
+
+    await client.getAllCandidates({ modifiedSince: '2025-05-18T09:30:15.000Z' })
+
+    expect(mock.history.get[0].params.query).toBe(
+      'isDeleted:0 AND dateLastModified:[20250518093015 TO *]',
+    )
+  })
+
+  it('should renew an expired session and retry once', async () => {
+    const onSessionExpired = jest.fn().mockResolvedValue({ restUrl, restToken: 'new-token' })
+    const client = new BullhornClient({ restUrl, restToken: 'old-token' }, { onSessionExpired })
+    mock
+      .onGet('entity/Candidate/5')
+      .reply((config) =>
+        config.headers?.BhRestToken === 'new-token'
+          ? [200, { data: { id: 5, firstName: 'Jane', lastName: 'Doe' } }]
+          : [401, { errorMessage: "Bad 'BhRestToken' or timed-out." }],
+      )
+
+    const result = await client.getCandidate(5)
+
+    expect(onSessionExpired).toHaveBeenCalledTimes(1)
+    expect(result.firstName).toBe('Jane')
+  })
+
+  it('should return no events when the subscription is empty', async () => {
+    const client = new BullhornClient({ restUrl, restToken: 'session-token' })
+    mock.onGet('event/subscription/jobboard-1').reply(200, '')
+
+    const result = await client.getEvents('jobboard-1')
+
+    expect(result).toEqual({})
+  })
+
+  it('should return the new job order ID on create', async () => {
+    const client = new BullhornClient({ restUrl, restToken: 'session-token' })
+    mock.onPut('entity/JobOrder').reply(200, { changedEntityId: 42, changeType: 'INSERT' })
+
+    const id = await client.createJobOrder({ title: 'Developer' })
+
+    expect(id).toBe(42)
+  })
+})
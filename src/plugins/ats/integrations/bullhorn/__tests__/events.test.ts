@@ -0,0 +1,134 @@
+import payload from 'payload'
+import { pollEvents } from '../events'
+import { getClient } from '../oauth'
+import { upsertJobOrder, upsertCandidate, closeJobOrder, deactivateCandidate } from '../sync'
+import type { BullhornEvent } from '../types'
+
+jest.mock('payload', () => ({
+  findByID: jest.fn(),
+  update: jest.fn(),
+}))
+jest.mock('@/lib/logger', () => ({
+  bullhornLogger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+jest.mock('../oauth', () => ({
+  getClient: jest.fn(),
+}))
+jest.mock('../sync', () => ({
+  upsertJobOrder: jest.fn(),
+  upsertCandidate: jest.fn(),
+  closeJobOrder: jest.fn(),
+  deactivateCandidate: jest.fn(),
+}))
+
+function event(
+  entityName: BullhornEvent['entityName'],
+  entityId: number,
+  entityEventType: BullhornEvent['entityEventType'],
+): BullhornEvent {
+  return {
+    eventId: `${entityName}-${entityId}-${entityEventType}`,
+    eventType: 'ENTITY',
+    eventTimestamp: Date.now(),
+    entityName,
+    entityId,
+    entityEventType,
+  }
+}
+
+describe('pollEvents', () => {
+  let client: {
+    subscribeToEvents: jest.Mock
+    getEvents: jest.Mock
+    getJobOrder: jest.Mock
+    getCandidate: jest.Mock
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+
+    client = {
+      subscribeToEvents: jest.fn().mockResolvedValue(undefined),
+      getEvents: jest.fn().mockResolvedValue({}),
+      getJobOrder: jest.fn().mockImplementation((id) => Promise.resolve({ id, title: 'Job' })),
+      getCandidate: jest
+        .fn()
+        .mockImplementation((id) => Promise.resolve({ id, email: 'jane@example.com' })),
+    }
+    ;(getClient as jest.Mock).mockResolvedValue(client)
+    ;(payload.findByID as jest.Mock).mockResolvedValue({
+      id: 3,
+      atsConfig: { bullhorn: { subscriptionId: 'jobboard-3' } },
+    })
+  })
+
+  it('should apply inserted, updated and deleted events', async () => {
+    client.getEvents
+      .mockResolvedValueOnce({
+        requestId: 1,
+        events: [
+          event('JobOrder', 10, 'INSERTED'),
+          event('JobOrder', 11, 'DELETED'),
+          event('Candidate', 20, 'UPDATED'),
+          event('Candidate', 21, 'DELETED'),
+        ],
+      })
+      .mockResolvedValueOnce({})
+
+    const stats = await pollEvents('3')
+
+    expect(upsertJobOrder).toHaveBeenCalledWith({ id: 10, title: 'Job' }, 3)
+    expect(closeJobOrder).toHaveBeenCalledWith(11, 3)
+    expect(upsertCandidate).toHaveBeenCalledWith({ id: 20, email: 'jane@example.com' }, 3)
+    expect(deactivateCandidate).toHaveBeenCalledWith(21, 3)
+    expect(stats).toEqual({ received: 4, processed: 4, errors: 0 })
+  })
+
+  it('should subscribe when the tenant has no subscription yet', async () => {
+    ;(payload.findByID as jest.Mock).mockResolvedValue({ id: 3, atsConfig: { bullhorn: {} } })
+
+    await pollEvents('3')
+
+    expect(client.subscribeToEvents).toHaveBeenCalledWith('jobboard-3')
+    expect(payload.update).toHaveBeenCalledWith({
+      collection: 'tenants',
+      id: '3',
+      data: { atsConfig: { bullhorn: { subscriptionId: 'jobboard-3' } } },
+    })
+    expect(client.getEvents).toHaveBeenCalledWith('jobboard-3', 100)
+  })
+
+  it('should subscribe again when the subscription has expired', async () => {
+    client.getEvents.mockRejectedValueOnce({ response: { status: 404 } }).mockResolvedValue({})
+
+    await pollEvents('3')
+
+    expect(client.subscribeToEvents).toHaveBeenCalledWith('jobboard-3')
+    expect(client.getEvents).toHaveBeenCalledTimes(2)
+  })
+
+  it('should count events that fail and carry on', async () => {
+    client.getEvents
+      .mockResolvedValueOnce({
+        events: [event('JobOrder', 10, 'UPDATED'), event('JobOrder', 12, 'UPDATED')],
+      })
+      .mockResolvedValueOnce({})
+    ;(upsertJobOrder as jest.Mock).mockRejectedValueOnce(new Error('Validation failed'))
+
+    const stats = await pollEvents('3')
+
+    expect(upsertJobOrder).toHaveBeenCalledTimes(2)
+    expect(stats).toEqual({ received: 2, processed: 1, errors: 1 })
+  })
+
+  it('should throw when the tenant is not connected', async () => {
+    ;(getClient as jest.Mock).mockResolvedValue(null)
+
+    await expect(pollEvents('3')).rejects.toThrow('Unable to authenticate with Bullhorn')
+  })
+})
@@ -0,0 +1,111 @@
+import { transformJobOrder, transformCandidate } from '../transform'
+import type { BullhornJobOrder, BullhornCandidate } from '../types'
+
+jest.mock('@/lib/logger', () => ({
+  bullhornLogger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+describe('Bullhorn transforms', () => {
+  describe('transformJobOrder', () => {
+    const jobOrder: BullhornJobOrder = {
+      id: 101,
+      title: 'Senior Developer',
+      publicDescription: '<p>Build things.</p><p>Ship &amp; support them.</p>',
+      address: { city: 'Boston', state: 'MA', countryName: 'United States' },
+      employmentType: 'Contract To Hire',
+      payRate: 85,
+      salaryUnit: 'Per Hour',
+      status: 'Accepting Candidates',
+      isOpen: true,
+      isPublic: 1,
+      dateAdded: Date.UTC(2025, 4, 1),
+      dateEnd: Date.UTC(2025, 6, 1),
+      dateLastModified: Date.UTC(2025, 4, 10),
+    }
+
+    it('should map an open public job order to a published job', () => {
+      const job = transformJobOrder(jobOrder, 3)
+
+      expect(job).toEqual(
+        expect.objectContaining({
+          title: 'Senior Developer',
+          slug: 'senior-developer-101',
+          location: 'Boston, MA, United States',
+          type: 'contract',
+          status: 'published',
+          tenant: 3,
+          created_at: '2025-05-01T00:00:00.000Z',
+          expiry_date: '2025-07-01T00:00:00.000Z',
+        }),
+      )
+      expect(job.salary).toEqual(expect.objectContaining({ min: 85, period: 'hourly' }))
+      expect(job.atsData).toEqual(
+        expect.objectContaining({ source: 'bullhorn', sourceId: '101', bullhornId: '101' }),
+      )
+    })
+
+    it('should convert the HTML description into paragraphs', () => {
+      const job = transformJobOrder(jobOrder, 3)
+
+      expect(job.description.root.children.map((child) => child.children[0].text)).toEqual([
+        'Build things.',
+        'Ship & support them.',
+      ])
+    })
+
+    it('should close job orders that are closed or not public', () => {
+      expect(transformJobOrder({ ...jobOrder, isOpen: false }, 3).status).toBe('closed')
+      expect(transformJobOrder({ ...jobOrder, isPublic: 0 }, 3).status).toBe('closed')
+      expect(transformJobOrder({ ...jobOrder, isDeleted: true }, 3).status).toBe('closed')
+    })
+  })
+
+  describe('transformCandidate', () => {
+    const candidate: BullhornCandidate = {
+      id: 55,
+      firstName: 'Jane',
+      lastName: 'Doe',
+      email: 'jane@example.com',
+      phone: '555-0100',
+      mobile: '555-0199',
+      status: 'Placed',
+      occupation: 'Engineer',
+      companyName: 'Acme',
+      skillSet: 'TypeScript, React;TypeScript',
+      dateAdded: Date.UTC(2025, 0, 1),
+      dateLastModified: Date.UTC(2025, 4, 1),
+    }
+
+    it('should map a Bullhorn candidate onto our candidate fields', () => {
+      const result = transformCandidate(candidate, 3)
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          firstName: 'Jane',
+          lastName: 'Doe',
+          email: 'jane@example.com',
+          phone: '555-0199',
+          status: 'placed',
+          currentJobTitle: 'Engineer',
+          currentEmployer: 'Acme',
+          skills: [{ skill: 'TypeScript' }, { skill: 'React' }],
+          tenant: 3,
+        }),
+      )
+      expect(result.atsData).toEqual(
+        expect.objectContaining({ source: 'bullhorn', sourceId: '55' }),
+      )
+    })
+
+    it('should reject candidates without an email', () => {
+      expect(() => transformCandidate({ ...candidate, email: undefined }, 3)).toThrow(
+        'Bullhorn candidate 55 has no email',
+      )
+    })
+  })
+})
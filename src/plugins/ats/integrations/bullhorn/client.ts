@@ -0,0 +1,278 @@
+import axios from 'axios'
+import axiosRetry from 'axios-retry'
+import { bullhornLogger as logger } from '@/lib/logger'
+import {
+  BullhornSession,
+  BullhornJobOrder,
+  BullhornCandidate,
+  BullhornSearchResponse,
+  BullhornEventsResponse,
+} from './types'
+
+// Fields requested for each entity; Bullhorn only returns the fields asked for
+export const JOB_ORDER_FIELDS = [
+  'id',
+  'title',
+  'publicDescription',
+  'description',
+  'address',
+  'employmentType',
+  'salary',
+  'salaryUnit',
+  'payRate',
+  'status',
+  'isOpen',
+  'isPublic',
+  'isDeleted',
+  'dateAdded',
+  'dateEnd',
+  'dateLastModified',
+].join(',')
+
+export const CANDIDATE_FIELDS = [
+  'id',
+  'firstName',
+  'lastName',
+  'email',
+  'phone',
+  'mobile',
+  'status',
+  'occupation',
+  'companyName',
+  'address',
+  'skillSet',
+  'employmentPreference',
+  'salary',
+  'source',
+  'isDeleted',
+  'dateAdded',
+  'dateLastModified',
+].join(',')
+
+// Largest page size the search endpoints accept
+const PAGE_SIZE = 200
+
+export interface BullhornClientOptions {
+  // Called when Bullhorn rejects the session; the request is retried once with the new one
+  onSessionExpired?: () => Promise<BullhornSession | null>
+}
+
+/**
+ * Format a timestamp for a Lucene date range query
+ */
+function toLuceneDate(date: string): string {
+  return new Date(date).toISOString().replace(/[-:T]/g, '').substring(0, 14)
+}
+
+export class BullhornClient {
+  private client: ReturnType<typeof axios.create>
+  private session: BullhornSession
+  private options: BullhornClientOptions
+
+  constructor(session: BullhornSession, options: BullhornClientOptions = {}) {
+    this.session = session
+    this.options = options
+
+    this.client = axios.create({
+      baseURL: session.restUrl,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    })
+
+    // Send the current session token with every request
+    this.client.interceptors.request.use((config) => {
+      config.headers = config.headers || {}
+      config.headers['BhRestToken'] = this.session.restToken
+      return config
+    })
+
+    // Configure retry logic
+    axiosRetry(this.client, {
+      retries: 3,
+      retryDelay: axiosRetry.exponentialDelay,
+      retryCondition: (error: any) =>
+        axiosRetry.isNetworkOrIdempotentRequestError(error) || (error.response?.status ?? 0) >= 500,
+      onRetry: (retryCount: number, error: any) => {
+        logger.warn('Retrying failed request', {
+          retryCount,
+          error: error.message,
+          status: error.response?.status,
+          endpoint: error.config?.url,
+        })
+      },
+    })
+
+    // Renew the session once when Bullhorn rejects the token
+    this.client.interceptors.response.use(
+      (response) => response,
+      async (error) => {
+        const config = error.config
+        if (
+          error.response?.status === 401 &&
+          this.options.onSessionExpired &&
+          config &&
+          !config._sessionRenewed
+        ) {
+          const session = await this.options.onSessionExpired()
+          if (session) {
+            logger.debug('Renewed Bullhorn session after 401')
+            this.session = session
+            config._sessionRenewed = true
+            config.baseURL = session.restUrl
+            return this.client.request(config)
+          }
+        }
+
+        logger.error('API request failed', {
+          method: config?.method,
+          url: config?.url,
+          status: error.response?.status,
+          error: error.message,
+        })
+        throw error
+      },
+    )
+  }
+
+  // ============================================================================
+  // Job order methods
+  // ============================================================================
+
+  async searchJobOrders(
+    params: { query: string; start?: number; count?: number } = { query: 'isDeleted:0' },
+  ): Promise<BullhornSearchResponse<BullhornJobOrder>> {
+    const response = await this.client.get<BullhornSearchResponse<BullhornJobOrder>>(
+      'search/JobOrder',
+      {
+        params: {
+          query: params.query,
+          fields: JOB_ORDER_FIELDS,
+          sort: 'id',
+          start: params.start ?? 0,
+          count: params.count ?? PAGE_SIZE,
+        },
+      },
+    )
+    return response.data
+  }
+
+  /**
+   * Fetch every job order, paging through the search results
+   * @param params.modifiedSince Only return job orders modified since this time
+   */
+  async getAllJobOrders(params: { modifiedSince?: string } = {}): Promise<BullhornJobOrder[]> {
+    const query = params.modifiedSince
+      ? `isDeleted:0 AND dateLastModified:[${toLuceneDate(params.modifiedSince)} TO *]`
+      : 'isDeleted:0'
+
+    return this.searchAll((start) => this.searchJobOrders({ query, start }))
+  }
+
+  async getJobOrder(id: number): Promise<BullhornJobOrder> {
+    const response = await this.client.get<{ data: BullhornJobOrder }>(`entity/JobOrder/${id}`, {
+      params: { fields: JOB_ORDER_FIELDS },
+    })
+    return response.data.data
+  }
+
+  async createJobOrder(jobOrder: Partial<BullhornJobOrder>): Promise<number> {
+    const response = await this.client.put<{ changedEntityId: number }>('entity/JobOrder', jobOrder)
+    return response.data.changedEntityId
+  }
+
+  async updateJobOrder(id: number, jobOrder: Partial<BullhornJobOrder>): Promise<void> {
+    await this.client.post(`entity/JobOrder/${id}`, jobOrder)
+  }
+
+  // ============================================================================
+  // Candidate methods
+  // ============================================================================
+
+  async searchCandidates(
+    params: { query: string; start?: number; count?: number } = { query: 'isDeleted:0' },
+  ): Promise<BullhornSearchResponse<BullhornCandidate>> {
+    const response = await this.client.get<BullhornSearchResponse<BullhornCandidate>>(
+      'search/Candidate',
+      {
+        params: {
+          query: params.query,
+          fields: CANDIDATE_FIELDS,
+          sort: 'id',
+          start: params.start ?? 0,
+          count: params.count ?? PAGE_SIZE,
+        },
+      },
+    )
+    return response.data
+  }
+
+  /**
+   * Fetch every candidate, paging through the search results
+   * @param params.modifiedSince Only return candidates modified since this time
+   */
+  async getAllCandidates(params: { modifiedSince?: string } = {}): Promise<BullhornCandidate[]> {
+    const query = params.modifiedSince
+      ? `isDeleted:0 AND dateLastModified:[${toLuceneDate(params.modifiedSince)} TO *]`
+      : 'isDeleted:0'
+
+    return this.searchAll((start) => this.searchCandidates({ query, start }))
+  }
+
+  async getCandidate(id: number): Promise<BullhornCandidate> {
+    const response = await this.client.get<{ data: BullhornCandidate }>(`entity/Candidate/${id}`, {
+      params: { fields: CANDIDATE_FIELDS },
+    })
+    return response.data.data
+  }
+
+  // ============================================================================
+  // Event subscription methods
+  // ============================================================================
+
+  /**
+   * Subscribe to job order and candidate changes
+   * @param subscriptionId Our name for the subscription
+   */
+  async subscribeToEvents(subscriptionId: string): Promise<void> {
+    await this.client.put(`event/subscription/${subscriptionId}`, null, {
+      params: {
+        type: 'entity',
+        names: 'JobOrder,Candidate',
+        eventTypes: 'INSERTED,UPDATED,DELETED',
+      },
+    })
+  }
+
+  /**
+   * Fetch the next batch of events; Bullhorn removes events once they are returned
+   * @param subscriptionId Our name for the subscription
+   */
+  async getEvents(subscriptionId: string, maxEvents = 100): Promise<BullhornEventsResponse> {
+    const response = await this.client.get<BullhornEventsResponse | ''>(
+      `event/subscription/${subscriptionId}`,
+      { params: { maxEvents } },
+    )
+    // Bullhorn returns an empty body when there are no events
+    return response.data || {}
+  }
+
+  private async searchAll<T>(
+    search: (start: number) => Promise<BullhornSearchResponse<T>>,
+  ): Promise<T[]> {
+    const results: T[] = []
+    let start = 0
+
+    while (true) {
+      const page = await search(start)
+      results.push(...page.data)
+      start += page.count
+
+      if (page.count === 0 || start >= page.total) {
+        break
+      }
+    }
+
+    return results
+  }
+}
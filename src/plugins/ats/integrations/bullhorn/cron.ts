@@ -0,0 +1,155 @@
+import payload from 'payload'
+import { bullhornLogger as logger } from '@/lib/logger'
+import { getClient } from './oauth'
+import { syncJobOrders, syncCandidates } from './sync'
+import { pollEvents } from './events'
+import { BullhornSyncStats } from './types'
+import { SyncRunTrigger } from '../../syncRuns'
+
+type Watermark = 'lastJobSync' | 'lastCandidateSync'
+
+/**
+ * Run one incremental-aware sync against a tenant's watermark.
+ *
+ * Incremental runs only request records modified since the tenant's last successful
+ * sync. The watermark is only advanced when the run completes without item errors,
+ * so failed records are retried on the next run.
+ */
+async function syncWithWatermark(
+  tenantId: string,
+  watermark: Watermark,
+  options: { fullResync?: boolean; trigger?: SyncRunTrigger },
+  sync: typeof syncJobOrders,
+): Promise<BullhornSyncStats> {
+  const { fullResync = false, trigger = 'manual' } = options
+
+  const tenant = await payload.findByID({
+    collection: 'tenants',
+    id: tenantId,
+  })
+
+  const client = await getClient(tenantId)
+  if (!client) {
+    throw new Error('Unable to authenticate with Bullhorn')
+  }
+
+  // Capture the watermark before fetching so changes made during the run are
+  // picked up by the next one
+  const runStartedAt = new Date().toISOString()
+
+  const stats = await sync(client, Number(tenantId), {
+    modifiedSince: fullResync ? undefined : tenant?.atsConfig?.bullhorn?.[watermark] || undefined,
+    trigger,
+  })
+
+  if (stats.errors === 0) {
+    await payload.update({
+      collection: 'tenants',
+      id: tenantId,
+      data: {
+        atsConfig: {
+          bullhorn: { [watermark]: runStartedAt },
+        },
+      } as any,
+    })
+  } else {
+    logger.warn('Bullhorn sync had errors, watermark not advanced', {
+      tenantId,
+      watermark,
+      errors: stats.errors,
+    })
+  }
+
+  return stats
+}
+
+/**
+ * Sync a tenant's Bullhorn job orders
+ * @param tenantId Tenant ID
+ * @param options.fullResync Ignore the `lastJobSync` watermark and fetch every job order
+ * @param options.trigger What started the run, recorded in the sync run ledger
+ */
+export async function syncTenantJobOrders(
+  tenantId: string,
+  options: { fullResync?: boolean; trigger?: SyncRunTrigger } = {},
+): Promise<BullhornSyncStats> {
+  return syncWithWatermark(tenantId, 'lastJobSync', options, syncJobOrders)
+}
+
+/**
+ * Sync a tenant's Bullhorn candidates
+ * @param tenantId Tenant ID
+ * @param options.fullResync Ignore the `lastCandidateSync` watermark and fetch every candidate
+ * @param options.trigger What started the run, recorded in the sync run ledger
+ */
+export async function syncTenantCandidates(
+  tenantId: string,
+  options: { fullResync?: boolean; trigger?: SyncRunTrigger } = {},
+): Promise<BullhornSyncStats> {
+  return syncWithWatermark(tenantId, 'lastCandidateSync', options, syncCandidates)
+}
+
+/**
+ * Sync a tenant's Bullhorn job orders and candidates
+ * @param tenantId Tenant ID
+ * @param options.fullResync Ignore the watermarks and fetch every record
+ * @param options.trigger What started the run, recorded in the sync run ledger
+ */
+export async function syncTenant(
+  tenantId: string,
+  options: { fullResync?: boolean; trigger?: SyncRunTrigger } = {},
+): Promise<{ jobs: BullhornSyncStats; candidates: BullhornSyncStats }> {
+  const jobs = await syncTenantJobOrders(tenantId, options)
+  const candidates = await syncTenantCandidates(tenantId, options)
+
+  return { jobs, candidates }
+}
+
+/**
+ * Run initial sync after OAuth connection
+ * @param tenantId Tenant ID
+ */
+export async function initialBullhornSync(tenantId: string): Promise<void> {
+  logger.info('Starting initial Bullhorn sync', { tenantId })
+
+  const stats = await syncTenant(tenantId, { fullResync: true, trigger: 'initial' })
+
+  logger.info('Completed initial Bullhorn sync', { tenantId, stats })
+}
+
+async function getBullhornTenants() {
+  const tenants = await payload.find({
+    collection: 'tenants',
+    where: {
+      'features.bullhorn': { equals: true },
+    },
+    pagination: false,
+  })
+
+  // Only tenants that have completed the OAuth flow
+  return tenants.docs.filter((tenant) => tenant.atsConfig?.bullhorn?.refreshToken)
+}
+
+/**
+ * Poll event subscriptions for every connected tenant (runs every minute)
+ */
+export async function scheduledEventPoll(): Promise<void> {
+  try {
+    for (const tenant of await getBullhornTenants()) {
+      try {
+        await pollEvents(String(tenant.id))
+      } catch (tenantError) {
+        logger.error('Error polling Bullhorn events', {
+          tenantId: tenant.id,
+          error: tenantError instanceof Error ? tenantError.message : 'Unknown error',
+        })
+        // Continue with next tenant
+      }
+    }
+  } catch (error) {
+    logger.error('Bullhorn event poll error', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    // Don't throw error to prevent CRON job from failing
+  }
+}
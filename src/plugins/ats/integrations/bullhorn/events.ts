@@ -0,0 +1,149 @@
+import payload from 'payload'
+import { bullhornLogger as logger } from '@/lib/logger'
+import { BullhornClient } from './client'
+import { getClient } from './oauth'
+import { upsertJobOrder, upsertCandidate, closeJobOrder, deactivateCandidate } from './sync'
+import { BullhornEvent, BullhornEventStats } from './types'
+
+// Batches fetched per poll, so one busy tenant can't hold up the others
+const MAX_BATCHES_PER_POLL = 10
+const EVENTS_PER_BATCH = 100
+
+/**
+ * Make sure the tenant has an event subscription, creating one if needed
+ * Bullhorn drops subscriptions that aren't polled for a while, so `force` re-creates it.
+ * @returns Subscription ID
+ */
+async function ensureSubscription(
+  client: BullhornClient,
+  tenantId: string,
+  existingId: string | null | undefined,
+  force = false,
+): Promise<string> {
+  if (existingId && !force) {
+    return existingId
+  }
+
+  const subscriptionId = existingId || `jobboard-${tenantId}`
+  await client.subscribeToEvents(subscriptionId)
+
+  await payload.update({
+    collection: 'tenants',
+    id: tenantId,
+    data: {
+      atsConfig: {
+        bullhorn: { subscriptionId },
+      },
+    } as any,
+  })
+
+  logger.info('Subscribed to Bullhorn events', { tenantId, subscriptionId })
+  return subscriptionId
+}
+
+/**
+ * Apply a single entity event to our collections
+ */
+export async function applyEvent(
+  client: BullhornClient,
+  event: BullhornEvent,
+  tenantId: number,
+): Promise<void> {
+  if (event.entityName === 'JobOrder') {
+    if (event.entityEventType === 'DELETED') {
+      await closeJobOrder(event.entityId, tenantId)
+      return
+    }
+
+    // The transform closes job orders that are soft-deleted or no longer open
+    await upsertJobOrder(await client.getJobOrder(event.entityId), tenantId)
+    return
+  }
+
+  if (event.entityName === 'Candidate') {
+    if (event.entityEventType === 'DELETED') {
+      await deactivateCandidate(event.entityId, tenantId)
+      return
+    }
+
+    const candidate = await client.getCandidate(event.entityId)
+    if (candidate.isDeleted) {
+      await deactivateCandidate(candidate.id, tenantId)
+    } else if (candidate.email) {
+      await upsertCandidate(candidate, tenantId)
+    }
+  }
+}
+
+/**
+ * Poll a tenant's event subscription and apply the changes
+ * Events are removed from Bullhorn once fetched, so errors are logged and counted
+ * rather than retried; the next scheduled sync picks up anything that was missed.
+ * @param tenantId Tenant ID
+ */
+export async function pollEvents(tenantId: string): Promise<BullhornEventStats> {
+  const stats: BullhornEventStats = { received: 0, processed: 0, errors: 0 }
+
+  const tenant = await payload.findByID({
+    collection: 'tenants',
+    id: tenantId,
+  })
+
+  const client = await getClient(tenantId)
+  if (!client) {
+    throw new Error('Unable to authenticate with Bullhorn')
+  }
+
+  let subscriptionId = await ensureSubscription(
+    client,
+    tenantId,
+    tenant?.atsConfig?.bullhorn?.subscriptionId,
+  )
+
+  for (let batch = 0; batch < MAX_BATCHES_PER_POLL; batch++) {
+    let events: BullhornEvent[]
+
+    try {
+      events = (await client.getEvents(subscriptionId, EVENTS_PER_BATCH)).events || []
+    } catch (error: any) {
+      const status = error?.response?.status
+      if (batch === 0 && (status === 400 || status === 404)) {
+        logger.warn('Bullhorn event subscription expired, subscribing again', {
+          tenantId,
+          subscriptionId,
+        })
+        subscriptionId = await ensureSubscription(client, tenantId, subscriptionId, true)
+        continue
+      }
+      throw error
+    }
+
+    if (events.length === 0) {
+      break
+    }
+
+    stats.received += events.length
+
+    for (const event of events) {
+      try {
+        await applyEvent(client, event, Number(tenantId))
+        stats.processed++
+      } catch (error) {
+        stats.errors++
+        logger.error('Error applying Bullhorn event', {
+          tenantId,
+          eventId: event.eventId,
+          entityName: event.entityName,
+          entityId: event.entityId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      }
+    }
+  }
+
+  if (stats.received > 0) {
+    logger.info('Applied Bullhorn events', { tenantId, ...stats })
+  }
+
+  return stats
+}
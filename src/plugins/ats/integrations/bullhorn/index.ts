@@ -0,0 +1,122 @@
+import payload from 'payload'
+import { bullhornLogger as logger } from '@/lib/logger'
+import { BullhornJobOrder } from './types'
+import { syncJobOrders, syncCandidates } from './sync'
+import { pollEvents } from './events'
+import {
+  syncTenant,
+  syncTenantJobOrders,
+  syncTenantCandidates,
+  initialBullhornSync,
+  scheduledEventPoll,
+} from './cron'
+import { bullhornOAuth, getSession, getClient } from './oauth'
+import { SKIP_ATS_PUSH_CONTEXT } from '../../registry'
+
+interface Job {
+  id: string | number
+  title: string
+  description?: unknown
+  location?: string | null
+  type?: string | null
+  salary?: {
+    min?: number | null
+    max?: number | null
+  } | null
+  status?: string | null
+  atsData?: {
+    source?: string | null
+    bullhornId?: string | null
+  } | null
+}
+
+// Flatten a rich text field into paragraphs of plain text
+function richTextToHtml(value: unknown): string {
+  const root = (value as { root?: { children?: { children?: { text?: string }[] }[] } })?.root
+  if (!root?.children) {
+    return typeof value === 'string' ? value : ''
+  }
+
+  return root.children
+    .map((block) => (block.children || []).map((child) => child.text || '').join(''))
+    .filter(Boolean)
+    .map((paragraph) => `<p>${paragraph}</p>`)
+    .join('')
+}
+
+/**
+ * Push a job from the board to Bullhorn as a job order
+ * Creates the job order on first push and stores its ID on the job.
+ * @param job Job document
+ * @param tenantId Tenant ID
+ */
+async function syncJob(job: Job, tenantId: string): Promise<void> {
+  try {
+    const client = await getClient(tenantId)
+    if (!client) {
+      logger.warn('Skipping Bullhorn push, tenant is not connected', { tenantId, jobId: job.id })
+      return
+    }
+
+    const jobOrder: Partial<BullhornJobOrder> = {
+      title: job.title,
+      publicDescription: richTextToHtml(job.description),
+      address: { city: job.location || undefined },
+      employmentType: job.type === 'contract' ? 'Contract' : 'Permanent',
+      salary: job.salary?.min || undefined,
+      isOpen: job.status === 'published',
+    }
+
+    if (job.atsData?.bullhornId) {
+      await client.updateJobOrder(Number(job.atsData.bullhornId), jobOrder)
+      return
+    }
+
+    const bullhornId = await client.createJobOrder(jobOrder)
+
+    await payload.update({
+      collection: 'jobs',
+      id: job.id,
+      data: {
+        atsData: {
+          ...job.atsData,
+          bullhornId: String(bullhornId),
+        },
+      } as any,
+      context: SKIP_ATS_PUSH_CONTEXT,
+    })
+
+    logger.info('Created Bullhorn job order', { tenantId, jobId: job.id, bullhornId })
+  } catch (error) {
+    logger.error('Error syncing job to Bullhorn', {
+      tenantId,
+      jobId: job.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    throw error
+  }
+}
+
+export const bullhornIntegration = {
+  // Outbound push
+  syncJob,
+
+  // Sync functions
+  syncJobOrders,
+  syncCandidates,
+  syncTenant,
+  syncTenantJobOrders,
+  syncTenantCandidates,
+
+  // Event subscription
+  pollEvents,
+
+  // Scheduling
+  initialBullhornSync,
+  scheduledEventPoll,
+
+  // Authentication
+  oauth: bullhornOAuth,
+  getSession,
+  getClient,
+}
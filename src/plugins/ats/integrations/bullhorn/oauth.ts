@@ -0,0 +1,249 @@
+import axios from 'axios'
+import payload from 'payload'
+import { bullhornLogger as logger } from '@/lib/logger'
+import { decryptSecret } from '../../credentials'
+import { BullhornClient } from './client'
+import {
+  BullhornSession,
+  BullhornTokenResponse,
+  isBullhornTokenResponse,
+  isBullhornLoginResponse,
+} from './types'
+
+// Bullhorn routes tenants to a data centre after login; these are the global entry points
+const BULLHORN_AUTH_URL = process.env.BULLHORN_AUTH_URL || 'https://auth.bullhornstaffing.com'
+const BULLHORN_LOGIN_URL =
+  process.env.BULLHORN_LOGIN_URL || 'https://rest.bullhornstaffing.com/rest-services/login'
+
+function getRedirectUri(): string {
+  return `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000'}/api/oauth/bullhorn/callback`
+}
+
+/**
+ * Get the tenant's Bullhorn API credentials
+ * Bullhorn issues OAuth clients per customer, so these live on the tenant.
+ */
+async function getTenantCredentials(
+  tenantId: string,
+): Promise<{ clientId: string; clientSecret: string; refreshToken?: string | null }> {
+  const tenant = await payload.findByID({
+    collection: 'tenants',
+    id: tenantId,
+  })
+
+  const bullhorn = tenant?.atsConfig?.bullhorn
+  if (!bullhorn?.clientId || !bullhorn?.clientSecret) {
+    throw new Error('Bullhorn OAuth credentials not configured for tenant')
+  }
+
+  return {
+    clientId: bullhorn.clientId,
+    clientSecret: decryptSecret(bullhorn.clientSecret),
+    refreshToken: decryptSecret(bullhorn.refreshToken),
+  }
+}
+
+/**
+ * Exchange an access token for a REST session and store everything on the tenant
+ */
+async function startSession(
+  tenantId: string,
+  tokens: BullhornTokenResponse,
+): Promise<BullhornSession> {
+  const loginResponse = await axios.post(BULLHORN_LOGIN_URL, null, {
+    params: {
+      version: '2.0',
+      access_token: tokens.access_token,
+    },
+  })
+
+  if (!isBullhornLoginResponse(loginResponse.data)) {
+    throw new Error('Invalid Bullhorn login response')
+  }
+
+  const session: BullhornSession = {
+    restUrl: loginResponse.data.restUrl,
+    restToken: loginResponse.data.BhRestToken,
+  }
+
+  // Store tokens and session in tenant record
+  await payload.update({
+    collection: 'tenants',
+    id: tenantId,
+    data: {
+      atsConfig: {
+        bullhorn: {
+          accessToken: tokens.access_token,
+          refreshToken: tokens.refresh_token,
+          tokenExpiry: new Date(Date.now() + tokens.expires_in * 1000).toISOString(),
+          restUrl: session.restUrl,
+          restToken: session.restToken,
+        },
+      },
+    } as any,
+  })
+
+  return session
+}
+
+/**
+ * Handles OAuth functionality for Bullhorn integration
+ */
+export const bullhornOAuth = {
+  /**
+   * Generate authorization URL for Bullhorn OAuth
+   * @param tenantId Tenant ID
+   * @param state Signed state identifying the tenant, see plugins/ats/oauthState.ts
+   * @returns Authorization URL
+   */
+  async getAuthorizationUrl(tenantId: string, state: string): Promise<string> {
+    const { clientId } = await getTenantCredentials(tenantId)
+
+    const params = new URLSearchParams({
+      client_id: clientId,
+      response_type: 'code',
+      redirect_uri: getRedirectUri(),
+      state,
+    })
+
+    return `${BULLHORN_AUTH_URL}/oauth/authorize?${params.toString()}`
+  },
+
+  /**
+   * Handle OAuth callback: exchange the code for tokens and open a REST session
+   * @param code Authorization code
+   * @param tenantId Tenant ID
+   */
+  async handleCallback(code: string, tenantId: string): Promise<void> {
+    try {
+      const { clientId, clientSecret } = await getTenantCredentials(tenantId)
+
+      // Exchange code for tokens
+      const tokenResponse = await axios.post(`${BULLHORN_AUTH_URL}/oauth/token`, null, {
+        params: {
+          grant_type: 'authorization_code',
+          code,
+          client_id: clientId,
+          client_secret: clientSecret,
+          redirect_uri: getRedirectUri(),
+        },
+      })
+
+      if (!isBullhornTokenResponse(tokenResponse.data)) {
+        throw new Error('Invalid Bullhorn token response')
+      }
+
+      await startSession(tenantId, tokenResponse.data)
+
+      logger.info('Connected Bullhorn', { tenantId })
+
+      // Trigger initial sync; the connection stands even if it fails, and the
+      // scheduled sync will catch up
+      const { initialBullhornSync } = await import('./cron')
+      await initialBullhornSync(tenantId).catch((error) => {
+        logger.error('Initial Bullhorn sync failed', {
+          tenantId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      })
+    } catch (error) {
+      logger.error('Bullhorn OAuth error', {
+        tenantId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+      throw error
+    }
+  },
+
+  /**
+   * Refresh the access token and open a new REST session
+   * Bullhorn refresh tokens are single use, so the new one is stored straight away.
+   * @param tenantId Tenant ID
+   * @returns New REST session
+   */
+  async refreshSession(tenantId: string): Promise<BullhornSession> {
+    try {
+      const { clientId, clientSecret, refreshToken } = await getTenantCredentials(tenantId)
+
+      if (!refreshToken) {
+        throw new Error('No refresh token available')
+      }
+
+      const tokenResponse = await axios.post(`${BULLHORN_AUTH_URL}/oauth/token`, null, {
+        params: {
+          grant_type: 'refresh_token',
+          refresh_token: refreshToken,
+          client_id: clientId,
+          client_secret: clientSecret,
+        },
+      })
+
+      if (!isBullhornTokenResponse(tokenResponse.data)) {
+        throw new Error('Invalid Bullhorn token response')
+      }
+
+      const session = await startSession(tenantId, tokenResponse.data)
+
+      logger.debug('Refreshed Bullhorn session', { tenantId })
+      return session
+    } catch (error) {
+      logger.error('Error refreshing Bullhorn session', {
+        tenantId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+      throw error
+    }
+  },
+}
+
+/**
+ * Get a valid REST session for a tenant
+ * @param tenantId Tenant ID
+ * @returns REST session, or null if the tenant has not connected Bullhorn
+ */
+export async function getSession(tenantId: string): Promise<BullhornSession | null> {
+  try {
+    const tenant = await payload.findByID({
+      collection: 'tenants',
+      id: tenantId,
+    })
+
+    const bullhorn = tenant?.atsConfig?.bullhorn
+    if (!bullhorn?.refreshToken) {
+      return null
+    }
+
+    // Check if the session is expired
+    const tokenExpiry = new Date(bullhorn.tokenExpiry || 0)
+    if (!bullhorn.restUrl || !bullhorn.restToken || tokenExpiry <= new Date()) {
+      return await bullhornOAuth.refreshSession(tenantId)
+    }
+
+    return {
+      restUrl: bullhorn.restUrl,
+      restToken: decryptSecret(bullhorn.restToken),
+    }
+  } catch (error) {
+    logger.error('Error getting Bullhorn session', {
+      tenantId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    return null
+  }
+}
+
+/**
+ * Create a REST client for a tenant that renews its own session when it expires
+ * @param tenantId Tenant ID
+ * @returns Client, or null if the tenant has not connected Bullhorn
+ */
+export async function getClient(tenantId: string): Promise<BullhornClient | null> {
+  const session = await getSession(tenantId)
+  if (!session) {
+    return null
+  }
+
+  return new BullhornClient(session, {
+    onSessionExpired: () => bullhornOAuth.refreshSession(tenantId).catch(() => null),
+  })
+}
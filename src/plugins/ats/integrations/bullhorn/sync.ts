@@ -0,0 +1,248 @@
+import payload from 'payload'
+import { bullhornLogger as logger } from '@/lib/logger'
+import { BullhornClient } from './client'
+import { transformJobOrder, transformCandidate } from './transform'
+import { BullhornJobOrder, BullhornCandidate, BullhornSyncStats } from './types'
+import { SyncRunRecorder, SyncRunTrigger } from '../../syncRuns'
+import { findTenantCandidate, mergeAtsData } from '../../candidateIdentity'
+import { SKIP_ATS_PUSH_CONTEXT } from '../../registry'
+
+type UpsertOutcome = 'created' | 'updated'
+
+async function findBySourceId(
+  collection: 'jobs' | 'candidates',
+  tenantId: number,
+  bullhornId: number,
+): Promise<any | undefined> {
+  const existing = await payload.find({
+    collection: collection as any, // Type assertion to bypass TypeScript check
+    where: {
+      'atsData.source': { equals: 'bullhorn' },
+      'atsData.sourceId': { equals: String(bullhornId) },
+      tenant: { equals: tenantId },
+    },
+    limit: 1,
+    depth: 0,
+  })
+  return existing.docs[0]
+}
+
+/**
+ * Create or update the local job for a Bullhorn job order
+ * @returns Whether the job was created or updated, and its ID
+ */
+export async function upsertJobOrder(
+  jobOrder: BullhornJobOrder,
+  tenantId: number,
+): Promise<{ outcome: UpsertOutcome; id: string }> {
+  const data = transformJobOrder(jobOrder, tenantId)
+  const existing = await findBySourceId('jobs', tenantId, jobOrder.id)
+
+  if (existing) {
+    await payload.update({
+      collection: 'jobs',
+      id: existing.id,
+      data: data as any,
+      context: SKIP_ATS_PUSH_CONTEXT,
+    })
+    return { outcome: 'updated', id: String(existing.id) }
+  }
+
+  const created = await payload.create({
+    collection: 'jobs',
+    data: data as any,
+    context: SKIP_ATS_PUSH_CONTEXT,
+  })
+  return { outcome: 'created', id: String(created.id) }
+}
+
+/**
+ * Create or update the local candidate for a Bullhorn candidate
+ * Candidates who applied through the site before being synced are matched on email, and
+ * records an admin merged into another candidate update that candidate.
+ * @returns Whether the candidate was created or updated, and its ID
+ */
+export async function upsertCandidate(
+  candidate: BullhornCandidate,
+  tenantId: number,
+): Promise<{ outcome: UpsertOutcome; id: string }> {
+  const data = transformCandidate(candidate, tenantId)
+  const existing = await findTenantCandidate(tenantId, {
+    source: 'bullhorn',
+    sourceId: String(candidate.id),
+    email: data.email,
+  })
+
+  if (existing) {
+    await payload.update({
+      collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+      id: existing.candidate.id,
+      data: {
+        ...data,
+        atsData: mergeAtsData(existing.candidate.atsData, data.atsData, existing.matchedBy),
+      } as any,
+    })
+    return { outcome: 'updated', id: String(existing.candidate.id) }
+  }
+
+  const created = await payload.create({
+    collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+    data: data as any,
+  })
+  return { outcome: 'created', id: String(created.id) }
+}
+
+/**
+ * Close the local job for a job order deleted in Bullhorn
+ * @returns The local job ID, or undefined if we never synced the job order
+ */
+export async function closeJobOrder(
+  bullhornId: number,
+  tenantId: number,
+): Promise<string | undefined> {
+  const existing = await findBySourceId('jobs', tenantId, bullhornId)
+  if (!existing) return undefined
+
+  await payload.update({
+    collection: 'jobs',
+    id: existing.id,
+    data: { status: 'closed' },
+    context: SKIP_ATS_PUSH_CONTEXT,
+  })
+  return String(existing.id)
+}
+
+/**
+ * Mark the local candidate for a candidate deleted in Bullhorn as inactive
+ * @returns The local candidate ID, or undefined if we never synced the candidate
+ */
+export async function deactivateCandidate(
+  bullhornId: number,
+  tenantId: number,
+): Promise<string | undefined> {
+  const existing = await findBySourceId('candidates', tenantId, bullhornId)
+  if (!existing) return undefined
+
+  await payload.update({
+    collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+    id: existing.id,
+    data: { status: 'inactive' } as any,
+  })
+  return String(existing.id)
+}
+
+// ============================================================================
+// Job order synchronization
+// ============================================================================
+
+export async function syncJobOrders(
+  client: BullhornClient,
+  tenantId: number,
+  options: { modifiedSince?: string; trigger?: SyncRunTrigger } = {},
+): Promise<BullhornSyncStats> {
+  const stats: BullhornSyncStats = { total: 0, created: 0, updated: 0, deleted: 0, errors: 0 }
+  const { modifiedSince, trigger } = options
+
+  const run = await SyncRunRecorder.start({
+    tenantId,
+    provider: 'bullhorn',
+    type: 'jobs',
+    mode: modifiedSince ? 'incremental' : 'full',
+    trigger,
+    options: { modifiedSince },
+  })
+
+  try {
+    logger.info('Starting job order sync', { tenantId, modifiedSince })
+
+    const jobOrders = await client.getAllJobOrders({ modifiedSince })
+    stats.total = jobOrders.length
+
+    for (const jobOrder of jobOrders) {
+      try {
+        const { outcome, id } = await upsertJobOrder(jobOrder, tenantId)
+        stats[outcome]++
+        run.recordItem({ externalId: String(jobOrder.id), localId: id, outcome })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        logger.error(`Error processing job order ${jobOrder.id}`, { tenantId, error: message })
+        stats.errors++
+        run.recordItem({ externalId: String(jobOrder.id), outcome: 'errored', message })
+      }
+    }
+
+    logger.info('Job order sync completed', { tenantId, stats })
+    await run.complete(stats)
+    return stats
+  } catch (error) {
+    logger.error('Job order sync failed', {
+      tenantId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    await run.fail(error, stats)
+    throw error
+  }
+}
+
+// ============================================================================
+// Candidate synchronization
+// ============================================================================
+
+export async function syncCandidates(
+  client: BullhornClient,
+  tenantId: number,
+  options: { modifiedSince?: string; trigger?: SyncRunTrigger } = {},
+): Promise<BullhornSyncStats> {
+  const stats: BullhornSyncStats = { total: 0, created: 0, updated: 0, deleted: 0, errors: 0 }
+  const { modifiedSince, trigger } = options
+
+  const run = await SyncRunRecorder.start({
+    tenantId,
+    provider: 'bullhorn',
+    type: 'candidates',
+    mode: modifiedSince ? 'incremental' : 'full',
+    trigger,
+    options: { modifiedSince },
+  })
+
+  try {
+    logger.info('Starting candidate sync', { tenantId, modifiedSince })
+
+    const candidates = await client.getAllCandidates({ modifiedSince })
+    stats.total = candidates.length
+
+    for (const candidate of candidates) {
+      // Email is required on our side, so these can't be stored
+      if (!candidate.email) {
+        run.recordItem({
+          externalId: String(candidate.id),
+          outcome: 'skipped',
+          message: 'Candidate has no email',
+        })
+        continue
+      }
+
+      try {
+        const { outcome, id } = await upsertCandidate(candidate, tenantId)
+        stats[outcome]++
+        run.recordItem({ externalId: String(candidate.id), localId: id, outcome })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        logger.error(`Error processing candidate ${candidate.id}`, { tenantId, error: message })
+        stats.errors++
+        run.recordItem({ externalId: String(candidate.id), outcome: 'errored', message })
+      }
+    }
+
+    logger.info('Candidate sync completed', { tenantId, stats })
+    await run.complete(stats)
+    return stats
+  } catch (error) {
+    logger.error('Candidate sync failed', {
+      tenantId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    await run.fail(error, stats)
+    throw error
+  }
+}
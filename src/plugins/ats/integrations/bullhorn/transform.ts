@@ -0,0 +1,251 @@
+import slugify from 'slugify'
+import { bullhornLogger as logger } from '@/lib/logger'
+import { BullhornJobOrder, BullhornCandidate, BullhornAddress } from './types'
+
+// ============================================================================
+// Common interfaces
+// ============================================================================
+
+interface PayloadRichTextChild {
+  [key: string]: unknown
+  type: string
+  version: number
+  children: {
+    text: string
+  }[]
+}
+
+interface PayloadRichText {
+  root: {
+    type: 'root'
+    children: PayloadRichTextChild[]
+    direction: 'ltr'
+    format: 'left'
+    indent: 0
+    version: 1
+  }
+}
+
+type PayloadWorkType = 'full-time' | 'part-time' | 'contract' | 'temporary'
+
+// Bullhorn stores descriptions as HTML; keep the paragraphs and drop the markup
+function convertHtmlToRichText(html: string): PayloadRichText {
+  const paragraphs = html
+    .split(/<\/p>|<br\s*\/?>|\n\n/i)
+    .map((paragraph) =>
+      paragraph
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .trim(),
+    )
+    .filter(Boolean)
+
+  return {
+    root: {
+      type: 'root',
+      children: paragraphs.map((paragraph) => ({
+        type: 'paragraph',
+        version: 1,
+        children: [{ text: paragraph }],
+        format: 'left',
+      })),
+      direction: 'ltr',
+      format: 'left',
+      indent: 0,
+      version: 1,
+    },
+  }
+}
+
+function formatLocation(address?: BullhornAddress): string {
+  if (!address) return ''
+
+  return [address.city, address.state, address.countryName].filter(Boolean).join(', ')
+}
+
+function mapWorkType(employmentType?: string): PayloadWorkType {
+  const type = employmentType?.toLowerCase() || ''
+
+  if (type.includes('contract')) return 'contract'
+  if (type.includes('temp')) return 'temporary'
+  if (type.includes('part')) return 'part-time'
+  return 'full-time'
+}
+
+function toISODate(timestamp?: number): string | undefined {
+  return timestamp ? new Date(timestamp).toISOString() : undefined
+}
+
+// ============================================================================
+// Job orders
+// ============================================================================
+
+interface PayloadJob {
+  title: string
+  slug: string
+  description: PayloadRichText
+  location: string
+  type: PayloadWorkType
+  salary: {
+    min?: number
+    currency: string
+    period: 'annual' | 'hourly'
+  }
+  expiry_date?: string
+  created_at: string
+  status: 'published' | 'closed'
+  tenant: number
+  atsData: {
+    source: 'bullhorn'
+    sourceId: string
+    lastSynced: string
+    bullhornId: string
+    bullhorn: {
+      id: number
+      status?: string
+      dateLastModified: number
+    }
+  }
+}
+
+/**
+ * Map a Bullhorn job order onto our jobs collection
+ * Only open, public job orders are published; everything else is closed.
+ */
+export function transformJobOrder(jobOrder: BullhornJobOrder, tenantId: number): PayloadJob {
+  logger.debug(`Transforming job order ${jobOrder.id}`)
+
+  const hourly = jobOrder.salaryUnit?.toLowerCase().includes('hour') ?? false
+
+  return {
+    title: jobOrder.title,
+    slug: slugify(`${jobOrder.title}-${jobOrder.id}`, { lower: true, strict: true }),
+    description: convertHtmlToRichText(jobOrder.publicDescription || jobOrder.description || ''),
+    location: formatLocation(jobOrder.address),
+    type: mapWorkType(jobOrder.employmentType),
+    salary: {
+      min: (hourly ? jobOrder.payRate : jobOrder.salary) || undefined,
+      currency: process.env.BULLHORN_DEFAULT_CURRENCY || 'USD',
+      period: hourly ? 'hourly' : 'annual',
+    },
+    expiry_date: toISODate(jobOrder.dateEnd),
+    created_at: toISODate(jobOrder.dateAdded) as string,
+    status:
+      jobOrder.isOpen && jobOrder.isPublic !== 0 && !jobOrder.isDeleted ? 'published' : 'closed',
+    tenant: tenantId,
+    atsData: {
+      source: 'bullhorn',
+      sourceId: String(jobOrder.id),
+      lastSynced: new Date().toISOString(),
+      bullhornId: String(jobOrder.id),
+      bullhorn: {
+        id: jobOrder.id,
+        status: jobOrder.status,
+        dateLastModified: jobOrder.dateLastModified,
+      },
+    },
+  }
+}
+
+// ============================================================================
+// Candidates
+// ============================================================================
+
+interface PayloadCandidate {
+  firstName: string
+  lastName: string
+  email: string
+  phone?: string
+  status: 'active' | 'inactive' | 'placed'
+  skills: { skill: string }[]
+  currentJobTitle?: string
+  currentEmployer?: string
+  location?: string
+  salaryExpectation?: {
+    min?: number
+    currency: string
+    period: 'annual'
+  }
+  workTypes: PayloadWorkType[]
+  source?: string
+  createdAt?: string
+  updatedAt?: string
+  tenant: number
+  atsData: {
+    source: 'bullhorn'
+    sourceId: string
+    lastSynced: string
+    bullhorn: {
+      id: number
+      status?: string
+      dateLastModified: number
+    }
+  }
+}
+
+function mapCandidateStatus(status?: string): PayloadCandidate['status'] {
+  const value = status?.toLowerCase() || ''
+
+  if (value.includes('placed')) return 'placed'
+  if (value.includes('inactive') || value.includes('archive') || value.includes('dnu')) {
+    return 'inactive'
+  }
+  return 'active'
+}
+
+/**
+ * Map a Bullhorn candidate onto our candidates collection
+ * Candidates without an email can't be stored (email is required), so this throws.
+ */
+export function transformCandidate(
+  candidate: BullhornCandidate,
+  tenantId: number,
+): PayloadCandidate {
+  logger.debug(`Transforming candidate ${candidate.id}`)
+
+  if (!candidate.email) {
+    throw new Error(`Bullhorn candidate ${candidate.id} has no email`)
+  }
+
+  const skills = (candidate.skillSet || '')
+    .split(/[,;\n]/)
+    .map((skill) => skill.trim())
+    .filter(Boolean)
+
+  return {
+    firstName: candidate.firstName,
+    lastName: candidate.lastName,
+    email: candidate.email,
+    phone: candidate.mobile || candidate.phone || undefined,
+    status: mapCandidateStatus(candidate.status),
+    skills: [...new Set(skills)].map((skill) => ({ skill })),
+    currentJobTitle: candidate.occupation || undefined,
+    currentEmployer: candidate.companyName || undefined,
+    location: formatLocation(candidate.address) || undefined,
+    salaryExpectation: candidate.salary
+      ? {
+          min: candidate.salary,
+          currency: process.env.BULLHORN_DEFAULT_CURRENCY || 'USD',
+          period: 'annual',
+        }
+      : undefined,
+    workTypes: [mapWorkType(candidate.employmentPreference)],
+    source: candidate.source || undefined,
+    createdAt: toISODate(candidate.dateAdded),
+    updatedAt: toISODate(candidate.dateLastModified),
+    tenant: tenantId,
+    atsData: {
+      source: 'bullhorn',
+      sourceId: String(candidate.id),
+      lastSynced: new Date().toISOString(),
+      bullhorn: {
+        id: candidate.id,
+        status: candidate.status,
+        dateLastModified: candidate.dateLastModified,
+      },
+    },
+  }
+}
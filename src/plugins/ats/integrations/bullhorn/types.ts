@@ -0,0 +1,123 @@
+// Bullhorn REST session: every REST call goes to the session's restUrl with its BhRestToken
+export interface BullhornSession {
+  restUrl: string
+  restToken: string
+}
+
+export interface BullhornTokenResponse {
+  access_token: string
+  refresh_token: string
+  expires_in: number
+  token_type: string
+}
+
+export interface BullhornLoginResponse {
+  BhRestToken: string
+  restUrl: string
+}
+
+export interface BullhornAddress {
+  address1?: string
+  city?: string
+  state?: string
+  zip?: string
+  countryName?: string
+}
+
+export interface BullhornJobOrder {
+  id: number
+  title: string
+  publicDescription?: string
+  description?: string
+  address?: BullhornAddress
+  employmentType?: string
+  salary?: number
+  salaryUnit?: string
+  payRate?: number
+  status?: string
+  isOpen: boolean
+  isPublic?: number
+  isDeleted?: boolean
+  dateAdded: number
+  dateEnd?: number
+  dateLastModified: number
+}
+
+export interface BullhornCandidate {
+  id: number
+  firstName: string
+  lastName: string
+  email?: string
+  phone?: string
+  mobile?: string
+  status?: string
+  occupation?: string
+  companyName?: string
+  address?: BullhornAddress
+  skillSet?: string
+  employmentPreference?: string
+  salary?: number
+  source?: string
+  isDeleted?: boolean
+  dateAdded: number
+  dateLastModified: number
+}
+
+// Search responses are paged with start/count
+export interface BullhornSearchResponse<T> {
+  total: number
+  start: number
+  count: number
+  data: T[]
+}
+
+export type BullhornEntityEventType = 'INSERTED' | 'UPDATED' | 'DELETED'
+
+export interface BullhornEvent {
+  eventId: string
+  eventType: 'ENTITY'
+  eventTimestamp: number
+  entityName: 'JobOrder' | 'Candidate'
+  entityId: number
+  entityEventType: BullhornEntityEventType
+  updatedProperties?: string[]
+}
+
+// Empty when there are no new events
+export interface BullhornEventsResponse {
+  requestId?: number
+  events?: BullhornEvent[]
+}
+
+export interface BullhornSyncStats {
+  total: number
+  created: number
+  updated: number
+  deleted: number
+  errors: number
+}
+
+export interface BullhornEventStats {
+  received: number
+  processed: number
+  errors: number
+}
+
+export function isBullhornTokenResponse(data: unknown): data is BullhornTokenResponse {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    typeof (data as any).access_token === 'string' &&
+    typeof (data as any).refresh_token === 'string' &&
+    typeof (data as any).expires_in === 'number'
+  )
+}
+
+export function isBullhornLoginResponse(data: unknown): data is BullhornLoginResponse {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    typeof (data as any).BhRestToken === 'string' &&
+    typeof (data as any).restUrl === 'string'
+  )
+}
@@ -1,13 +1,60 @@
 import { jobAdderIntegration } from './jobAdder/index'
+import { AtsProvider } from '../types'
 
 // Re-export the integration for direct use in API routes
 export { jobAdderIntegration }
 
 // Export the integration definition for the ATS plugin
-export const jobAdder = {
+export const jobAdder: AtsProvider = {
   slug: 'jobadder',
   name: 'JobAdder',
   description: 'JobAdder ATS Integration',
   icon: '/assets/jobadder-icon.svg',
-  integration: jobAdderIntegration,
+  feature: 'jobAdder',
+
+  auth: {
+    getAuthorizationUrl: async (_tenantId, state) =>
+      jobAdderIntegration.oauth.getAuthorizationUrl(state),
+    handleCallback: (code, tenantId) => jobAdderIntegration.oauth.handleCallback(code, tenantId),
+    disconnect: (tenantId) => jobAdderIntegration.oauth.disconnect(tenantId),
+    isConnected: (tenant) => Boolean(tenant.atsConfig?.jobAdder?.refreshToken),
+  },
+
+  pullJobs: (tenantId, options) => jobAdderIntegration.syncTenantJobs(tenantId, options),
+  pullCandidates: (tenantId, options) =>
+    jobAdderIntegration.syncTenantCandidates(tenantId, options),
+  pushApplications: () => jobAdderIntegration.processApplicationWriteBacks(),
+  pushEnrichment: () => jobAdderIntegration.processEnrichmentWriteBacks(),
+  importScreeningQuestions: (job, tenantId) =>
+    jobAdderIntegration.importScreeningQuestions(job, tenantId),
+  previewSync: (tenantId, options) => jobAdderIntegration.previewTenantSync(tenantId, options),
+
+  webhooks: {
+    register: async (tenantId) => {
+      const accessToken = await jobAdderIntegration.getAccessToken(tenantId)
+      if (!accessToken) {
+        throw new Error('No access token available')
+      }
+      await jobAdderIntegration.registerWebhook(accessToken, tenantId)
+    },
+    rotateSecret: async (tenantId) => {
+      const accessToken = await jobAdderIntegration.getAccessToken(tenantId)
+      if (!accessToken) {
+        throw new Error('No access token available')
+      }
+      await jobAdderIntegration.rotateWebhookSecret(accessToken, tenantId)
+    },
+    process: () => jobAdderIntegration.processWebhookQueue(),
+    replay: (delivery) => jobAdderIntegration.replayDelivery(delivery),
+  },
+
+  getHealth: (tenant) => ({
+    enabled: Boolean(tenant.features?.jobAdder),
+    connected: Boolean(tenant.atsConfig?.jobAdder?.refreshToken),
+    tokenExpiresAt: tenant.atsConfig?.jobAdder?.tokenExpiry,
+    scopes: tenant.atsConfig?.jobAdder?.scopes?.split(' ').filter(Boolean),
+    lastRefreshError: tenant.atsConfig?.jobAdder?.lastRefreshError,
+    lastRefreshErrorAt: tenant.atsConfig?.jobAdder?.lastRefreshErrorAt,
+    lastJobSync: tenant.atsConfig?.jobAdder?.lastJobSync,
+  }),
 }
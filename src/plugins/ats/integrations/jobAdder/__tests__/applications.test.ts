@@ -0,0 +1,236 @@
+import payload from 'payload'
+import { readFile } from 'fs/promises'
+import { writeBackApplication, ApplicationEvent, MAX_WRITE_BACK_ATTEMPTS } from '../applications'
+import { JobAdderClient } from '../client'
+import { getAccessToken } from '../oauth'
+
+// Mock dependencies
+jest.mock('fs/promises', () => ({
+  readFile: jest.fn(),
+}))
+jest.mock('payload', () => ({
+  find: jest.fn(),
+  findByID: jest.fn(),
+  create: jest.fn(),
+  update: jest.fn(),
+}))
+jest.mock('@/lib/logger', () => ({
+  jobAdderLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  webhookLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+jest.mock('../oauth', () => ({
+  getAccessToken: jest.fn(),
+}))
+jest.mock('../client')
+
+describe('writeBackApplication', () => {
+  let event: ApplicationEvent
+  let application: Record<string, unknown>
+  let client: {
+    findCandidatesByEmail: jest.Mock
+    createCandidate: jest.Mock
+    uploadCandidateAttachment: jest.Mock
+    addJobApplication: jest.Mock
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+
+    event = {
+      id: 'event-1',
+      job: 'job-1',
+      tenant: 5,
+      application: 'application-1',
+      atsWriteBack: { status: 'pending', attempts: 0 },
+    }
+
+    client = {
+      findCandidatesByEmail: jest.fn().mockResolvedValue([]),
+      createCandidate: jest.fn().mockResolvedValue({ id: 'ja-candidate-1' }),
+      uploadCandidateAttachment: jest.fn().mockResolvedValue(undefined),
+      addJobApplication: jest.fn().mockResolvedValue({ applicationId: 'ja-application-1' }),
+    }
+    ;(JobAdderClient as unknown as jest.Mock).mockImplementation(() => client)
+
+    ;(getAccessToken as jest.Mock).mockResolvedValue('test-access-token')
+    application = {
+      id: 'application-1',
+      job: 'job-1',
+      tenant: 5,
+      email: 'jane@example.com',
+      firstName: 'Jane',
+      lastName: 'Doe',
+    }
+    ;(payload.findByID as jest.Mock).mockImplementation(({ collection }) =>
+      Promise.resolve(
+        collection === 'applications'
+          ? application
+          : collection === 'jobs'
+            ? { id: 'job-1', atsData: { jobAdder: { id: 'ja-job-1' } } }
+            : {
+                id: 'file-1',
+                filename: 'resume.pdf',
+                mimeType: 'application/pdf',
+              },
+      ),
+    )
+    ;(payload.find as jest.Mock).mockImplementation(async ({ collection, where }) => ({
+      docs:
+        collection === 'applications' && where.tenant.equals === 5 ? [{ id: 'application-1' }] : [],
+    }))
+    ;(payload.update as jest.Mock).mockResolvedValue({})
+  })
+
+  it('should create the candidate in JobAdder and add them to the job', async () => {
+    const status = await writeBackApplication(event)
+
+    expect(client.createCandidate).toHaveBeenCalledWith(
+      expect.objectContaining({ firstName: 'Jane', lastName: 'Doe', email: 'jane@example.com' }),
+    )
+    expect(client.addJobApplication).toHaveBeenCalledWith('ja-job-1', 'ja-candidate-1', 'Job Board')
+    expect(client.uploadCandidateAttachment).not.toHaveBeenCalled()
+    expect(event.atsWriteBack).toEqual(
+      expect.objectContaining({
+        status: 'synced',
+        attempts: 1,
+        jobAdderCandidateId: 'ja-candidate-1',
+        jobAdderApplicationId: 'ja-application-1',
+      }),
+    )
+    expect(status).toBe('synced')
+  })
+
+  it('should match an existing JobAdder candidate by email', async () => {
+    client.findCandidatesByEmail.mockResolvedValue([
+      { id: 'ja-existing', email: 'Jane@Example.com' },
+    ])
+
+    await writeBackApplication(event)
+
+    expect(client.createCandidate).not.toHaveBeenCalled()
+    expect(client.addJobApplication).toHaveBeenCalledWith('ja-job-1', 'ja-existing', 'Job Board')
+  })
+
+  it('should store the JobAdder ID on our candidate record', async () => {
+    ;(payload.find as jest.Mock).mockResolvedValue({
+      docs: [{ id: 'candidate-1', atsData: { source: 'website' } }],
+    })
+
+    await writeBackApplication(event)
+
+    expect(payload.update).toHaveBeenCalledWith({
+      collection: 'candidates',
+      id: 'candidate-1',
+      data: { atsData: { source: 'website', jobAdder: { id: 'ja-candidate-1' } } },
+    })
+  })
+
+  it('should upload the resume file', async () => {
+    application.resume = 'file-1'
+    ;(readFile as jest.Mock).mockResolvedValue(Buffer.from('resume'))
+
+    await writeBackApplication(event)
+
+    expect(payload.findByID).toHaveBeenCalledWith({ collection: 'applicant-files', id: 'file-1' })
+    expect(readFile).toHaveBeenCalledWith(expect.stringMatching(/applicant-files\/resume\.pdf$/))
+    expect(client.uploadCandidateAttachment).toHaveBeenCalledWith(
+      'ja-candidate-1',
+      { fileName: 'resume.pdf', contentType: 'application/pdf', data: Buffer.from('resume') },
+      'Resume',
+    )
+    expect(event.atsWriteBack?.resumeUploaded).toBe(true)
+  })
+
+  it("should not upload a resume that wasn't sent with an application to the tenant", async () => {
+    application.resume = 'file-1'
+    ;(payload.find as jest.Mock).mockResolvedValue({ docs: [] })
+
+    const status = await writeBackApplication(event)
+
+    expect(status).toBe('retrying')
+    expect(readFile).not.toHaveBeenCalled()
+    expect(client.uploadCandidateAttachment).not.toHaveBeenCalled()
+  })
+
+  it('should only write back applications made through the apply flow', async () => {
+    event.application = undefined
+    let status = await writeBackApplication(event)
+    expect(status).toBe('failed')
+
+    // An application of another tenant
+    event.application = 'application-1'
+    application.tenant = 6
+    status = await writeBackApplication(event)
+
+    expect(status).toBe('failed')
+    expect(event.atsWriteBack?.error).toBe('Application not found')
+    expect(JobAdderClient).not.toHaveBeenCalled()
+  })
+
+  it('should resume from the last completed step on retry', async () => {
+    application.resume = 'file-1'
+    event.atsWriteBack = {
+      status: 'retrying',
+      attempts: 2,
+      jobAdderCandidateId: 'ja-candidate-1',
+      resumeUploaded: true,
+    }
+
+    await writeBackApplication(event)
+
+    expect(client.findCandidatesByEmail).not.toHaveBeenCalled()
+    expect(client.createCandidate).not.toHaveBeenCalled()
+    expect(client.uploadCandidateAttachment).not.toHaveBeenCalled()
+    expect(client.addJobApplication).toHaveBeenCalledWith('ja-job-1', 'ja-candidate-1', 'Job Board')
+  })
+
+  it('should schedule a retry when JobAdder is unavailable', async () => {
+    client.addJobApplication.mockRejectedValue(new Error('Service Unavailable'))
+
+    const status = await writeBackApplication(event)
+
+    expect(status).toBe('retrying')
+    expect(event.atsWriteBack).toEqual(
+      expect.objectContaining({
+        status: 'retrying',
+        attempts: 1,
+        jobAdderCandidateId: 'ja-candidate-1',
+        error: 'Service Unavailable',
+      }),
+    )
+    expect(new Date(event.atsWriteBack?.nextAttemptAt as string).getTime()).toBeGreaterThan(
+      Date.now(),
+    )
+  })
+
+  it('should give up once attempts are used up', async () => {
+    event.atsWriteBack = { status: 'retrying', attempts: MAX_WRITE_BACK_ATTEMPTS - 1 }
+    ;(getAccessToken as jest.Mock).mockResolvedValue(null)
+
+    const status = await writeBackApplication(event)
+
+    expect(status).toBe('failed')
+    expect(event.atsWriteBack).toEqual(
+      expect.objectContaining({ status: 'failed', nextAttemptAt: null }),
+    )
+  })
+
+  it('should fail without retrying when the applicant has no email', async () => {
+    application.email = null
+
+    const status = await writeBackApplication(event)
+
+    expect(status).toBe('failed')
+    expect(JobAdderClient).not.toHaveBeenCalled()
+  })
+})
@@ -1,4 +1,4 @@
-import { transformCandidate } from '../transform'
+import { transformCandidate, transformPlacement } from '../transform'
 import {
   JobAdderCandidate,
   JobAdderCandidateResume,
@@ -7,6 +7,11 @@ import {
   JobAdderCandidatePlacement,
 } from '../types'
 
+// Field mapping looks up sectors through payload
+jest.mock('payload', () => ({
+  find: jest.fn(),
+}))
+
 describe('transformCandidate', () => {
   // Mock tenant ID
   const tenantId = 123
@@ -267,3 +272,64 @@ describe('transformCandidate', () => {
     expect(transformedCandidate.experiences[0].achievements).toContain('Increased revenue by 30%')
   })
 })
+
+describe('transformPlacement', () => {
+  it('should map a placement with its fee, source and consultant', () => {
+    const placement = transformPlacement(
+      {
+        id: 'placement-1',
+        candidateId: 'candidate-123',
+        jobId: 'job-456',
+        jobTitle: 'Frontend Developer',
+        employer: 'Web Co',
+        createdAt: '2025-05-20T03:00:00Z',
+        startDate: '2025-06-02',
+        status: 'active',
+        salary: { amount: 120000, currency: 'AUD', period: 'annual' },
+        fee: { amount: 18000, currency: 'AUD' },
+        source: 'Job Board',
+        owner: { userId: 77, firstName: 'Sam', lastName: 'Lee', email: 'sam@agency.test' },
+      },
+      123,
+    )
+
+    expect(placement).toMatchObject({
+      tenant: 123,
+      jobTitle: 'Frontend Developer',
+      employer: 'Web Co',
+      status: 'active',
+      placedAt: '2025-05-20T03:00:00Z',
+      startDate: '2025-06-02',
+      salary: { amount: 120000, currency: 'AUD', period: 'annual' },
+      fee: { amount: 18000, currency: 'AUD' },
+      sourceOfHire: 'Job Board',
+      consultant: { name: 'Sam Lee', email: 'sam@agency.test', atsId: '77' },
+      atsData: {
+        source: 'jobadder',
+        sourceId: 'placement-1',
+        jobId: 'job-456',
+        candidateId: 'candidate-123',
+      },
+    })
+  })
+
+  it('should leave out details JobAdder did not send', () => {
+    const placement = transformPlacement(
+      {
+        id: 'placement-2',
+        candidateId: 'candidate-123',
+        jobId: 'job-456',
+        jobTitle: 'Frontend Developer',
+        employer: 'Web Co',
+        startDate: '2025-06-02',
+        status: 'active',
+      },
+      123,
+    )
+
+    expect(placement.fee).toBeUndefined()
+    expect(placement.salary).toBeUndefined()
+    expect(placement.consultant).toBeUndefined()
+    expect(placement.placedAt).toBeUndefined()
+  })
+})
@@ -116,6 +116,110 @@ describe('JobAdderClient', () => {
     })
   })
 
+  describe('getAllJobs', () => {
+    const buildJobs = (count: number, startId: number): JobAdderJob[] =>
+      Array.from({ length: count }, (_, index) => ({
+        id: String(startId + index),
+        title: `Test Job ${startId + index}`,
+        status: 'active',
+        location: { city: 'Sydney', state: 'NSW', country: 'Australia' },
+        workType: 'permanent',
+        description: 'Test description',
+        applicationUrl: 'https://test.com/apply',
+        postedDate: '2025-05-18T00:00:00Z',
+        reference: `TEST-${startId + index}`,
+        salary: {
+          type: 'annual',
+          currency: 'AUD',
+        },
+      }))
+
+    it('should page through every result', async () => {
+      const pages: Record<number, JobAdderJob[]> = {
+        0: buildJobs(2, 1),
+        2: buildJobs(2, 3),
+        4: buildJobs(1, 5),
+      }
+      mock.onGet('/jobs').reply((config) => [200, pages[config.params.offset] ?? []])
+
+      const jobs = await client.getAllJobs({ pageSize: 2 })
+
+      expect(jobs.map((job) => job.id)).toEqual(['1', '2', '3', '4', '5'])
+      expect(mock.history.get).toHaveLength(3)
+    })
+
+    it('should pass the updatedSince watermark to every page', async () => {
+      const updatedSince = '2025-05-18T00:00:00.000Z'
+      mock.onGet('/jobs').reply(200, buildJobs(1, 1))
+
+      await client.getAllJobs({ updatedSince })
+
+      expect(mock.history.get[0].params).toEqual(
+        expect.objectContaining({ updatedSince, offset: 0, limit: 100 }),
+      )
+    })
+  })
+
+  describe('application write-back', () => {
+    it('should search candidates by email', async () => {
+      mock.onGet('/candidates').reply(200, [{ id: 'c-1', email: 'jane@example.com' }])
+
+      const candidates = await client.findCandidatesByEmail('jane@example.com')
+
+      expect(candidates).toHaveLength(1)
+      expect(mock.history.get[0].params).toEqual({ email: 'jane@example.com' })
+    })
+
+    it('should create a candidate', async () => {
+      mock.onPost('/candidates').reply(201, { id: 'c-2', email: 'jane@example.com' })
+
+      const candidate = await client.createCandidate({
+        firstName: 'Jane',
+        lastName: 'Doe',
+        email: 'jane@example.com',
+      })
+
+      expect(candidate.id).toBe('c-2')
+      expect(JSON.parse(mock.history.post[0].data)).toEqual({
+        firstName: 'Jane',
+        lastName: 'Doe',
+        email: 'jane@example.com',
+      })
+    })
+
+    it('should upload a resume as multipart form data', async () => {
+      mock.onPost('/candidates/c-1/attachments/Resume').reply(201)
+
+      await client.uploadCandidateAttachment('c-1', {
+        fileName: 'resume.pdf',
+        contentType: 'application/pdf',
+        data: Buffer.from('resume'),
+      })
+
+      expect(mock.history.post[0].data).toBeInstanceOf(FormData)
+    })
+
+    it('should add a candidate to a job', async () => {
+      mock
+        .onPost('/jobs/1/applications')
+        .reply(201, [{ applicationId: 'a-1', jobId: '1', candidateId: 'c-1' }])
+
+      const application = await client.addJobApplication('1', 'c-1', 'Job Board')
+
+      expect(application.applicationId).toBe('a-1')
+      expect(JSON.parse(mock.history.post[0].data)).toEqual({
+        candidateId: ['c-1'],
+        source: 'Job Board',
+      })
+    })
+
+    it('should fail when no application is returned', async () => {
+      mock.onPost('/jobs/1/applications').reply(201, [])
+
+      await expect(client.addJobApplication('1', 'c-1')).rejects.toThrow('No application returned')
+    })
+  })
+
   describe('refreshToken', () => {
     const mockTokenResponse = {
       access_token: 'new-access-token',
@@ -0,0 +1,238 @@
+import payload from 'payload'
+import {
+  EnrichedCandidate,
+  buildEnrichmentSummary,
+  formatEnrichmentNote,
+  hashEnrichmentSummary,
+  queueEnrichmentWriteBack,
+  writeBackEnrichment,
+} from '../enrichment'
+import { JobAdderClient } from '../client'
+import { getAccessToken } from '../oauth'
+import { Tenant } from '../../../../../payload-types'
+
+// Mock dependencies
+jest.mock('payload', () => ({
+  find: jest.fn(),
+  findByID: jest.fn(),
+  update: jest.fn(),
+}))
+jest.mock('@/lib/logger', () => ({
+  jobAdderLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  webhookLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+jest.mock('../oauth', () => ({
+  getAccessToken: jest.fn(),
+}))
+jest.mock('../client')
+
+const NOW = Date.parse('2025-06-01T12:00:00Z')
+
+describe('enrichment write-back', () => {
+  let candidate: EnrichedCandidate
+  let tenant: Tenant
+  let client: { addCandidateNote: jest.Mock; updateCandidateCustomFields: jest.Mock }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+
+    candidate = {
+      id: 12,
+      tenant: 5,
+      overallScore: 87.4,
+      tier: 'A',
+      strengths: [{ strength: 'Leadership' }, { strength: 'Communication' }],
+      aiEnrichment: {
+        extractedSkills: ['React', 'TypeScript', 'Node.js', 'AWS', 'Docker', 'Git'].map(
+          (skill) => ({ skill }),
+        ),
+      },
+      atsData: { jobAdder: { id: 'ja-candidate-1' } },
+      atsEnrichmentWriteBack: { status: 'pending', attempts: 0 },
+    }
+    tenant = {
+      id: 5,
+      atsConfig: {
+        jobAdder: {
+          enrichmentWriteBack: {
+            enabled: true,
+            addNote: true,
+            noteType: 'Talent Summary',
+            customFields: { score: 101, topSkills: 103 },
+          },
+        },
+      },
+    } as unknown as Tenant
+
+    client = {
+      addCandidateNote: jest.fn().mockResolvedValue({ noteId: 'note-1' }),
+      updateCandidateCustomFields: jest.fn().mockResolvedValue(undefined),
+    }
+    ;(JobAdderClient as unknown as jest.Mock).mockImplementation(() => client)
+    ;(getAccessToken as jest.Mock).mockResolvedValue('test-access-token')
+    ;(payload.findByID as jest.Mock).mockResolvedValue(tenant)
+    ;(payload.update as jest.Mock).mockResolvedValue({})
+  })
+
+  const savedWriteBack = () =>
+    (payload.update as jest.Mock).mock.calls.at(-1)[0].data.atsEnrichmentWriteBack
+
+  describe('buildEnrichmentSummary', () => {
+    it('should summarise the score, tier, top skills and profile link', () => {
+      const summary = buildEnrichmentSummary(candidate)
+
+      expect(summary).toEqual({
+        overallScore: 87,
+        tier: 'A',
+        topSkills: ['React', 'TypeScript', 'Node.js', 'AWS', 'Docker'],
+        strengths: ['Leadership', 'Communication'],
+        profileUrl: 'http://localhost:3000/admin/collections/candidates/12',
+      })
+      expect(formatEnrichmentNote(summary)).toBe(
+        [
+          'Talent summary',
+          'Overall score: 87/100',
+          'Tier: A',
+          'Top skills: React, TypeScript, Node.js, AWS, Docker',
+          'Strengths: Leadership, Communication',
+          'Full profile: http://localhost:3000/admin/collections/candidates/12',
+        ].join('\n'),
+      )
+    })
+  })
+
+  describe('queueEnrichmentWriteBack', () => {
+    it('should only queue candidates linked to JobAdder for tenants that opted in', async () => {
+      const disabled = { atsConfig: { jobAdder: {} } } as unknown as Tenant
+
+      await expect(queueEnrichmentWriteBack(candidate, disabled, NOW)).resolves.toBe(false)
+      await expect(
+        queueEnrichmentWriteBack({ ...candidate, atsData: {} }, tenant, NOW),
+      ).resolves.toBe(false)
+      expect(payload.update).not.toHaveBeenCalled()
+    })
+
+    it('should leave a queued write-back to pick up the latest results', async () => {
+      await expect(queueEnrichmentWriteBack(candidate, tenant, NOW)).resolves.toBe(true)
+      expect(payload.update).not.toHaveBeenCalled()
+    })
+
+    it('should wait out the interval since the last write-back', async () => {
+      candidate.atsEnrichmentWriteBack = {
+        status: 'synced',
+        syncedAt: new Date(NOW - 5 * 60 * 1000).toISOString(),
+        syncedHash: 'abc',
+      }
+
+      await queueEnrichmentWriteBack(candidate, tenant, NOW)
+
+      expect(savedWriteBack()).toEqual({
+        status: 'pending',
+        attempts: 0,
+        syncedAt: new Date(NOW - 5 * 60 * 1000).toISOString(),
+        syncedHash: 'abc',
+        nextAttemptAt: new Date(NOW + 10 * 60 * 1000).toISOString(),
+        error: null,
+      })
+    })
+  })
+
+  describe('writeBackEnrichment', () => {
+    it('should write the mapped custom fields and add the summary as a note', async () => {
+      const status = await writeBackEnrichment(candidate)
+
+      expect(status).toBe('synced')
+      expect(client.updateCandidateCustomFields).toHaveBeenCalledWith('ja-candidate-1', [
+        { fieldId: 101, value: 87 },
+        { fieldId: 103, value: 'React, TypeScript, Node.js, AWS, Docker' },
+      ])
+      expect(client.addCandidateNote).toHaveBeenCalledWith('ja-candidate-1', {
+        type: 'Talent Summary',
+        text: expect.stringContaining('Overall score: 87/100'),
+      })
+      expect(savedWriteBack()).toEqual(
+        expect.objectContaining({
+          status: 'synced',
+          attempts: 1,
+          noteId: 'note-1',
+          syncedHash: hashEnrichmentSummary(buildEnrichmentSummary(candidate)),
+        }),
+      )
+    })
+
+    it('should not write back a summary that was already written back', async () => {
+      candidate.atsEnrichmentWriteBack = {
+        status: 'pending',
+        syncedHash: hashEnrichmentSummary(buildEnrichmentSummary(candidate)),
+      }
+
+      const status = await writeBackEnrichment(candidate)
+
+      expect(status).toBe('synced')
+      expect(getAccessToken).not.toHaveBeenCalled()
+      expect(client.updateCandidateCustomFields).not.toHaveBeenCalled()
+      expect(client.addCandidateNote).not.toHaveBeenCalled()
+    })
+
+    it('should not add the note again when retrying after it was added', async () => {
+      client.updateCandidateCustomFields
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('Service unavailable'))
+
+      // The first attempt adds the note, then marks the write-back synced
+      await writeBackEnrichment(candidate)
+      candidate.atsEnrichmentWriteBack = {
+        ...candidate.atsEnrichmentWriteBack,
+        status: 'retrying',
+        syncedHash: null,
+      }
+
+      await expect(writeBackEnrichment(candidate)).resolves.toBe('retrying')
+      await expect(writeBackEnrichment(candidate)).resolves.toBe('synced')
+
+      expect(client.addCandidateNote).toHaveBeenCalledTimes(1)
+      expect(client.updateCandidateCustomFields).toHaveBeenCalledTimes(3)
+    })
+
+    it('should schedule a retry when JobAdder rejects the update', async () => {
+      client.addCandidateNote.mockRejectedValue(new Error('Too many requests'))
+
+      const status = await writeBackEnrichment(candidate)
+
+      expect(status).toBe('retrying')
+      expect(savedWriteBack()).toEqual(
+        expect.objectContaining({
+          status: 'retrying',
+          attempts: 1,
+          error: 'Too many requests',
+          nextAttemptAt: expect.any(String),
+        }),
+      )
+    })
+
+    it('should stop when the tenant has turned write-back off', async () => {
+      ;(payload.findByID as jest.Mock).mockResolvedValue({ id: 5, atsConfig: {} })
+
+      const status = await writeBackEnrichment(candidate)
+
+      expect(status).toBe('failed')
+      expect(client.addCandidateNote).not.toHaveBeenCalled()
+      expect(savedWriteBack()).toEqual(
+        expect.objectContaining({
+          status: 'failed',
+          error: 'Enrichment write-back is turned off for this tenant',
+        }),
+      )
+    })
+  })
+})
@@ -0,0 +1,201 @@
+import payload from 'payload'
+import {
+  getRetryDelay,
+  markDeliveryFailed,
+  recordDelivery,
+  MAX_DELIVERY_ATTEMPTS,
+  WebhookDelivery,
+} from '../inbox'
+
+// Mock dependencies
+jest.mock('payload', () => ({
+  find: jest.fn(),
+  create: jest.fn(),
+  update: jest.fn(),
+}))
+jest.mock('@/lib/logger', () => ({
+  webhookLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+describe('JobAdder webhook inbox', () => {
+  let delivery: WebhookDelivery
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+
+    delivery = {
+      id: 'inbox-1',
+      deliveryId: 'delivery-123',
+      provider: 'jobadder',
+      signatureValid: true,
+      status: 'processing',
+      attempts: 1,
+      duplicateCount: 0,
+      receivedAt: '2025-05-18T03:20:00.000Z',
+      payload: {},
+    }
+    ;(payload.update as jest.Mock).mockResolvedValue({})
+  })
+
+  describe('getRetryDelay', () => {
+    it('should back off exponentially up to an hour', () => {
+      expect(getRetryDelay(1)).toBe(30 * 1000)
+      expect(getRetryDelay(2)).toBe(60 * 1000)
+      expect(getRetryDelay(3)).toBe(120 * 1000)
+      expect(getRetryDelay(20)).toBe(60 * 60 * 1000)
+    })
+  })
+
+  describe('markDeliveryFailed', () => {
+    it('should schedule another attempt while attempts remain', async () => {
+      const before = Date.now()
+
+      const status = await markDeliveryFailed(delivery, new Error('API error'))
+
+      expect(status).toBe('retrying')
+      expect(payload.update).toHaveBeenCalledWith({
+        collection: 'webhook-deliveries',
+        id: 'inbox-1',
+        data: expect.objectContaining({ status: 'retrying', error: 'API error' }),
+      })
+      expect(new Date(delivery.nextAttemptAt as string).getTime()).toBeGreaterThanOrEqual(
+        before + 30 * 1000,
+      )
+    })
+
+    it('should dead-letter the delivery once attempts are used up', async () => {
+      delivery.attempts = MAX_DELIVERY_ATTEMPTS
+
+      const status = await markDeliveryFailed(delivery, new Error('API error'))
+
+      expect(status).toBe('dead_letter')
+      expect(payload.update).toHaveBeenCalledWith({
+        collection: 'webhook-deliveries',
+        id: 'inbox-1',
+        data: { status: 'dead_letter', nextAttemptAt: null, error: 'API error' },
+      })
+    })
+  })
+
+  describe('recordDelivery', () => {
+    const body = { event: 'job.created', metadata: { tenantId: 'tenant-123' } }
+
+    it('should queue new deliveries', async () => {
+      ;(payload.find as jest.Mock).mockResolvedValue({ docs: [] })
+      ;(payload.create as jest.Mock).mockResolvedValue(delivery)
+
+      const result = await recordDelivery({
+        deliveryId: 'delivery-123',
+        body,
+        signatureValid: true,
+      })
+
+      expect(payload.create).toHaveBeenCalledWith({
+        collection: 'webhook-deliveries',
+        data: expect.objectContaining({
+          deliveryId: 'delivery-123',
+          tenantId: 'tenant-123',
+          status: 'received',
+          nextAttemptAt: expect.any(String),
+        }),
+      })
+      expect(result.duplicate).toBe(false)
+    })
+
+    it('should flag deliveries that were already received', async () => {
+      ;(payload.find as jest.Mock).mockResolvedValue({
+        docs: [{ ...delivery, status: 'retrying' }],
+      })
+
+      const result = await recordDelivery({
+        deliveryId: 'delivery-123',
+        body,
+        signatureValid: true,
+      })
+
+      expect(payload.update).toHaveBeenCalledWith({
+        collection: 'webhook-deliveries',
+        id: 'inbox-1',
+        data: { duplicateCount: 1 },
+      })
+      expect(result.duplicate).toBe(true)
+    })
+
+    it('should queue dead-lettered deliveries again when they are redelivered', async () => {
+      ;(payload.find as jest.Mock).mockResolvedValue({
+        docs: [{ ...delivery, status: 'dead_letter', attempts: MAX_DELIVERY_ATTEMPTS }],
+      })
+
+      const result = await recordDelivery({
+        deliveryId: 'delivery-123',
+        body,
+        signatureValid: true,
+      })
+
+      expect(payload.update).toHaveBeenCalledWith({
+        collection: 'webhook-deliveries',
+        id: 'inbox-1',
+        data: expect.objectContaining({ status: 'received', attempts: 0 }),
+      })
+      expect(result.duplicate).toBe(false)
+    })
+
+    it('should replace a rejected delivery with the signed redelivery', async () => {
+      ;(payload.find as jest.Mock).mockResolvedValue({
+        docs: [
+          {
+            ...delivery,
+            status: 'rejected',
+            signatureValid: false,
+            event: 'candidate.deleted',
+            tenantId: 'tenant-999',
+            payload: { event: 'candidate.deleted', metadata: { tenantId: 'tenant-999' } },
+          },
+        ],
+      })
+
+      await recordDelivery({
+        deliveryId: 'delivery-123',
+        body,
+        signatureValid: true,
+      })
+
+      expect(payload.update).toHaveBeenCalledWith({
+        collection: 'webhook-deliveries',
+        id: 'inbox-1',
+        data: expect.objectContaining({
+          event: body.event,
+          tenantId: 'tenant-123',
+          payload: body,
+          signatureValid: true,
+          status: 'received',
+        }),
+      })
+    })
+
+    it('should leave dead-lettered deliveries alone when a redelivery is not signed', async () => {
+      ;(payload.find as jest.Mock).mockResolvedValue({
+        docs: [{ ...delivery, status: 'dead_letter', attempts: MAX_DELIVERY_ATTEMPTS }],
+      })
+
+      const result = await recordDelivery({
+        deliveryId: 'delivery-123',
+        body,
+        signatureValid: false,
+      })
+
+      expect(payload.update).toHaveBeenCalledTimes(1)
+      expect(payload.update).toHaveBeenCalledWith({
+        collection: 'webhook-deliveries',
+        id: 'inbox-1',
+        data: { duplicateCount: 1 },
+      })
+      expect(result.delivery.status).toBe('dead_letter')
+    })
+  })
+})
@@ -0,0 +1,121 @@
+import payload from 'payload'
+import axios from 'axios'
+import { jobAdderOAuth } from '../oauth'
+import { unregisterWebhook } from '../webhook'
+
+// Mock dependencies
+jest.mock('axios')
+jest.mock('payload', () => ({
+  findByID: jest.fn(),
+  update: jest.fn(),
+}))
+jest.mock('@/lib/logger', () => ({
+  jobAdderLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  oauthLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+jest.mock('../webhook', () => ({
+  unregisterWebhook: jest.fn(),
+}))
+
+describe('jobAdderOAuth', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    process.env = {
+      ...originalEnv,
+      JOBADDER_CLIENT_ID: 'client-id',
+      JOBADDER_CLIENT_SECRET: 'client-secret',
+    }
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  it('should pass the signed state through to JobAdder', () => {
+    const url = new URL(jobAdderOAuth.getAuthorizationUrl('signed.state'))
+
+    expect(url.searchParams.get('state')).toBe('signed.state')
+  })
+
+  describe('disconnect', () => {
+    beforeEach(() => {
+      ;(payload.findByID as jest.Mock).mockResolvedValue({
+        id: 42,
+        atsConfig: { jobAdder: { accessToken: 'access-token', refreshToken: 'refresh-token' } },
+      })
+      ;(payload.update as jest.Mock).mockResolvedValue({})
+    })
+
+    it('should unregister webhooks, revoke tokens and clear the connection', async () => {
+      ;(axios.post as jest.Mock).mockResolvedValue({})
+
+      await jobAdderOAuth.disconnect('42')
+
+      expect(unregisterWebhook).toHaveBeenCalledWith('access-token', '42')
+      expect(axios.post).toHaveBeenCalledTimes(2)
+      expect((axios.post as jest.Mock).mock.calls[0][0]).toBe(
+        'https://id.jobadder.com/connect/revocation',
+      )
+      expect((axios.post as jest.Mock).mock.calls[0][1]).toContain('token=refresh-token')
+      expect(payload.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: '42',
+          data: {
+            atsConfig: {
+              jobAdder: expect.objectContaining({
+                accessToken: null,
+                refreshToken: null,
+                tokenExpiry: null,
+              }),
+            },
+          },
+        }),
+      )
+    })
+
+    it('should still clear the connection when JobAdder calls fail', async () => {
+      ;(unregisterWebhook as jest.Mock).mockRejectedValue(new Error('Unauthorized'))
+      ;(axios.post as jest.Mock).mockRejectedValue(new Error('Network Error'))
+
+      await jobAdderOAuth.disconnect('42')
+
+      expect(payload.update).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  it('should record why a token refresh failed', async () => {
+    ;(payload.findByID as jest.Mock).mockResolvedValue({
+      id: 42,
+      atsConfig: { jobAdder: { refreshToken: 'refresh-token' } },
+    })
+    ;(axios.post as jest.Mock).mockRejectedValue(new Error('invalid_grant'))
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    await expect(jobAdderOAuth.refreshAccessToken('42')).rejects.toThrow('invalid_grant')
+
+    expect(payload.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: {
+          atsConfig: {
+            jobAdder: {
+              lastRefreshError: 'invalid_grant',
+              lastRefreshErrorAt: expect.any(String),
+            },
+          },
+        },
+      }),
+    )
+  })
+})
@@ -0,0 +1,114 @@
+import MockAdapter from 'axios-mock-adapter'
+import { RateLimiter } from '../rateLimiter'
+import { JobAdderClient } from '../client'
+
+jest.mock('@/lib/logger', () => ({
+  jobAdderLogger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should let a burst through and then wait for the bucket to refill', async () => {
+    const limiter = new RateLimiter({ burst: 2, perSecond: 1, maxConcurrent: 10 })
+    const acquired: number[] = []
+
+    for (let i = 0; i < 3; i++) {
+      limiter.acquire().then(() => acquired.push(i))
+    }
+    await Promise.resolve()
+
+    expect(acquired).toEqual([0, 1])
+    expect(limiter.getState()).toMatchObject({ queued: 1, inFlight: 2, availableTokens: 0 })
+
+    await jest.advanceTimersByTimeAsync(1000)
+
+    expect(acquired).toEqual([0, 1, 2])
+  })
+
+  it('should cap concurrent requests until a slot is released', async () => {
+    const limiter = new RateLimiter({ burst: 10, perSecond: 10, maxConcurrent: 1 })
+    let secondAcquired = false
+
+    await limiter.acquire()
+    limiter.acquire().then(() => (secondAcquired = true))
+    await jest.advanceTimersByTimeAsync(5000)
+
+    expect(secondAcquired).toBe(false)
+
+    limiter.release()
+    await Promise.resolve()
+
+    expect(secondAcquired).toBe(true)
+  })
+
+  it('should hold every request while paused', async () => {
+    const limiter = new RateLimiter({ burst: 10, perSecond: 10, maxConcurrent: 10 })
+    let acquired = false
+
+    limiter.pause(2000)
+    limiter.acquire().then(() => (acquired = true))
+
+    expect(limiter.getState().pausedUntil).not.toBeNull()
+
+    await jest.advanceTimersByTimeAsync(1500)
+    expect(acquired).toBe(false)
+
+    await jest.advanceTimersByTimeAsync(1000)
+    expect(acquired).toBe(true)
+  })
+})
+
+describe('JobAdderClient rate limiting', () => {
+  const createClient = (tenantId: string) => {
+    const client = new JobAdderClient({
+      clientId: '',
+      clientSecret: '',
+      accessToken: 'test-access-token',
+      refreshToken: '',
+      tenantId,
+    })
+    const mock = new MockAdapter((client as any).client)
+    return { client, mock }
+  }
+
+  it('should retry a 429 after Retry-After and record it', async () => {
+    const { client, mock } = createClient('tenant-429')
+    mock
+      .onGet('/jobs')
+      .replyOnce(429, {}, { 'retry-after': '1' })
+      .onGet('/jobs')
+      .replyOnce(200, [{ id: '1' }])
+
+    const startedAt = Date.now()
+    const jobs = await client.getJobs()
+
+    expect(jobs).toEqual([{ id: '1' }])
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(1000)
+    expect(client.getRateLimitMetrics()).toMatchObject({
+      requests: 2,
+      retries: 1,
+      throttled: 1,
+      inFlight: 0,
+    })
+  }, 10000)
+
+  it('should not retry client errors', async () => {
+    const { client, mock } = createClient('tenant-404')
+    mock.onGet('/jobs/missing').reply(404)
+
+    await expect(client.getJob('missing')).rejects.toThrow()
+    expect(client.getRateLimitMetrics()).toMatchObject({ requests: 1, retries: 0, inFlight: 0 })
+  })
+})
@@ -0,0 +1,152 @@
+import payload from 'payload'
+import { importScreeningQuestions, transformScreeningQuestion } from '../screening'
+import { JobAdderClient } from '../client'
+import { getAccessToken } from '../oauth'
+import { JobAdderScreeningQuestion } from '../types'
+import { Job } from '../../../../../payload-types'
+
+// Mock dependencies
+jest.mock('payload', () => ({
+  find: jest.fn(),
+  create: jest.fn(),
+  update: jest.fn(),
+}))
+jest.mock('@/lib/logger', () => ({
+  jobAdderLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+jest.mock('../oauth', () => ({
+  getAccessToken: jest.fn(),
+}))
+jest.mock('../client')
+
+describe('screening question import', () => {
+  const workRights: JobAdderScreeningQuestion = {
+    questionId: 11,
+    text: 'Do you have the right to work in Australia?',
+    type: 'YesNo',
+    mandatory: true,
+    answers: [
+      { answerId: 1, text: 'Yes' },
+      { answerId: 2, text: 'No', disqualify: true },
+    ],
+  }
+  const licences: JobAdderScreeningQuestion = {
+    questionId: 12,
+    text: 'Which licences do you hold?',
+    type: 'MultipleChoice',
+    mandatory: false,
+    answers: [
+      { answerId: 3, text: 'Forklift' },
+      { answerId: 4, text: 'None', disqualify: true },
+    ],
+  }
+
+  let client: { getJobScreeningQuestions: jest.Mock }
+  let job: Job
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+
+    job = {
+      id: 3,
+      tenant: 5,
+      atsData: { jobAdder: { id: 'ja-job-1' } },
+      screeningQuestions: [{ question: 40, required: true }],
+    } as unknown as Job
+
+    client = {
+      getJobScreeningQuestions: jest.fn().mockResolvedValue([workRights, licences]),
+    }
+    ;(JobAdderClient as unknown as jest.Mock).mockImplementation(() => client)
+    ;(getAccessToken as jest.Mock).mockResolvedValue('test-access-token')
+    ;(payload.create as jest.Mock).mockImplementation(async ({ data }) => ({
+      id: `q-${data.atsData.sourceId}`,
+    }))
+    ;(payload.update as jest.Mock).mockImplementation(async ({ id }) => ({ id }))
+  })
+
+  describe('transformScreeningQuestion', () => {
+    it('should flag applicants who give a disqualifying answer', () => {
+      expect(transformScreeningQuestion(workRights)).toEqual({
+        question: 'Do you have the right to work in Australia?',
+        type: 'yes_no',
+        options: [],
+        knockout: { enabled: true, action: 'flag', yesNoAnswer: 'no' },
+      })
+      expect(transformScreeningQuestion(licences)).toEqual(
+        expect.objectContaining({
+          type: 'multi_choice',
+          options: [
+            { label: 'Forklift', knockout: false },
+            { label: 'None', knockout: true },
+          ],
+        }),
+      )
+    })
+  })
+
+  describe('importScreeningQuestions', () => {
+    it("should add new questions to the bank and after the job's own questions", async () => {
+      ;(payload.find as jest.Mock).mockResolvedValue({ docs: [] })
+
+      await expect(importScreeningQuestions(job, '5')).resolves.toBe(2)
+
+      expect(client.getJobScreeningQuestions).toHaveBeenCalledWith('ja-job-1')
+      expect((payload.create as jest.Mock).mock.calls[0][0].data).toEqual(
+        expect.objectContaining({
+          tenant: '5',
+          atsData: { source: 'jobadder', sourceId: '11' },
+        }),
+      )
+      expect(payload.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          collection: 'jobs',
+          id: 3,
+          data: {
+            screeningQuestions: [
+              { question: 40, required: true },
+              { question: 'q-11', required: true },
+              { question: 'q-12', required: false },
+            ],
+          },
+          context: { skipAtsPush: true },
+        }),
+      )
+    })
+
+    it('should update questions imported before, keeping their knockout settings', async () => {
+      ;(payload.find as jest.Mock).mockResolvedValue({ docs: [{ id: 40 }] })
+      client.getJobScreeningQuestions.mockResolvedValue([workRights])
+
+      await importScreeningQuestions(job, '5')
+
+      expect(payload.create).not.toHaveBeenCalled()
+      expect((payload.update as jest.Mock).mock.calls[0][0]).toEqual(
+        expect.objectContaining({
+          collection: 'screening-questions',
+          id: 40,
+          data: {
+            question: workRights.text,
+            type: 'yes_no',
+            options: [],
+          },
+        }),
+      )
+      expect((payload.update as jest.Mock).mock.calls[1][0].data.screeningQuestions).toEqual([
+        { question: 40, required: true },
+      ])
+    })
+
+    it('should refuse jobs that did not come from JobAdder', async () => {
+      await expect(
+        importScreeningQuestions({ ...job, atsData: {} } as unknown as Job, '5'),
+      ).rejects.toThrow('Job is not linked to a JobAdder job')
+      expect(getAccessToken).not.toHaveBeenCalled()
+    })
+  })
+})
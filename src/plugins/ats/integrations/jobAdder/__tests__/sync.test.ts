@@ -0,0 +1,409 @@
+import { syncCandidates, syncJobs } from '../sync'
+import payload from 'payload'
+import { Pool } from 'pg'
+import { transformCandidate, transformJob } from '../transform'
+import { JobAdderClient } from '../client'
+import { JobAdderCandidate, JobAdderJob } from '../types'
+import { SyncRunRecorder } from '../../../syncRuns'
+
+// Mock dependencies
+jest.mock('payload', () => ({
+  find: jest.fn(),
+  create: jest.fn(),
+  update: jest.fn(),
+}))
+jest.mock('pg', () => ({
+  Pool: jest.fn().mockImplementation(() => ({
+    query: jest.fn(),
+  })),
+}))
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+jest.mock('../transform', () => ({
+  transformJob: jest.fn(),
+  transformCandidate: jest.fn(),
+}))
+jest.mock('../../../syncRuns', () => ({
+  SyncRunRecorder: {
+    start: jest.fn(),
+    untracked: jest.fn(),
+  },
+}))
+
+describe('syncJobs', () => {
+  const tenantId = 123
+
+  const activeJob: JobAdderJob = {
+    id: 'ja-1',
+    reference: 'TEST-001',
+    title: 'Test Job',
+    status: 'active',
+    location: { city: 'Sydney', state: 'NSW', country: 'Australia' },
+    salary: { type: 'annual', currency: 'AUD' },
+    workType: 'permanent',
+    description: 'Test description',
+    applicationUrl: 'https://test.com/apply',
+    postedDate: '2025-05-18T00:00:00Z',
+  }
+
+  const localJobs = [
+    { id: 1, status: 'published', atsData: { jobAdder: { id: 'ja-1' } } },
+    { id: 2, status: 'published', atsData: { jobAdder: { id: 'ja-2' } } },
+    { id: 3, status: 'published', atsData: { jobAdder: { id: 'ja-3' } } },
+  ]
+
+  let client: jest.Mocked<Pick<JobAdderClient, 'getAllJobs'>>
+  let run: { recordItem: jest.Mock; complete: jest.Mock; fail: jest.Mock }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+
+    run = { recordItem: jest.fn(), complete: jest.fn(), fail: jest.fn() }
+    ;(SyncRunRecorder.start as jest.Mock).mockResolvedValue(run)
+    ;(SyncRunRecorder.untracked as jest.Mock).mockReturnValue(run)
+
+    client = { getAllJobs: jest.fn().mockResolvedValue([activeJob]) }
+    ;(transformJob as jest.Mock).mockResolvedValue({ title: 'Test Job', status: 'published' })
+    ;(payload.find as jest.Mock).mockImplementation(({ where }) =>
+      Promise.resolve({
+        // Upsert lookups filter on the JobAdder ID, reconciliation lists the tenant's jobs
+        docs: where['atsData.jobAdder.id'] ? [localJobs[0]] : localJobs,
+      }),
+    )
+    ;(payload.update as jest.Mock).mockResolvedValue({})
+  })
+
+  it('should close published jobs missing from a full sync by default', async () => {
+    const stats = await syncJobs(client as unknown as JobAdderClient, tenantId)
+
+    expect(payload.update).toHaveBeenCalledWith({
+      collection: 'jobs',
+      id: 2,
+      data: { status: 'closed' },
+    })
+    expect(payload.update).toHaveBeenCalledWith({
+      collection: 'jobs',
+      id: 3,
+      data: { status: 'closed' },
+    })
+    expect(stats).toEqual(
+      expect.objectContaining({ updated: 1, closed: 2, archived: 0, deleted: 2, errors: 0 }),
+    )
+  })
+
+  it('should archive missing jobs when the tenant policy is archive', async () => {
+    const stats = await syncJobs(client as unknown as JobAdderClient, tenantId, {
+      removedJobPolicy: 'archive',
+    })
+
+    expect(payload.update).toHaveBeenCalledWith({
+      collection: 'jobs',
+      id: 2,
+      data: { status: 'archived' },
+    })
+    expect(stats).toEqual(expect.objectContaining({ closed: 0, archived: 2, deleted: 2 }))
+  })
+
+  it('should leave missing jobs alone when the tenant policy is ignore', async () => {
+    const stats = await syncJobs(client as unknown as JobAdderClient, tenantId, {
+      removedJobPolicy: 'ignore',
+    })
+
+    expect(payload.update).toHaveBeenCalledTimes(1)
+    expect(stats.deleted).toBe(0)
+  })
+
+  it('should not reconcile during an incremental sync', async () => {
+    const stats = await syncJobs(client as unknown as JobAdderClient, tenantId, {
+      updatedSince: '2025-05-18T00:00:00.000Z',
+    })
+
+    expect(client.getAllJobs).toHaveBeenCalledWith({
+      updatedSince: '2025-05-18T00:00:00.000Z',
+    })
+    expect(payload.update).toHaveBeenCalledTimes(1)
+    expect(stats.deleted).toBe(0)
+  })
+
+  it('should tag and reconcile only the jobs of the provider being synced', async () => {
+    await syncJobs(client as unknown as JobAdderClient, tenantId, { provider: 'sandbox' })
+
+    expect(transformJob).toHaveBeenCalledWith(activeJob, tenantId, undefined, 'sandbox')
+    expect(payload.find).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ 'atsData.source': { equals: 'sandbox' } }),
+      }),
+    )
+    expect(payload.find).not.toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ 'atsData.source': { equals: 'jobadder' } }),
+      }),
+    )
+  })
+
+  it('should count reconciliation failures as errors', async () => {
+    ;(payload.update as jest.Mock)
+      .mockResolvedValueOnce({})
+      .mockRejectedValueOnce(new Error('DB error'))
+      .mockResolvedValueOnce({})
+
+    const stats = await syncJobs(client as unknown as JobAdderClient, tenantId)
+
+    expect(stats).toEqual(expect.objectContaining({ closed: 1, deleted: 1, errors: 1 }))
+  })
+
+  it('should record the run and each item outcome in the sync run ledger', async () => {
+    const stats = await syncJobs(client as unknown as JobAdderClient, tenantId, {
+      trigger: 'scheduled',
+    })
+
+    expect(SyncRunRecorder.start).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tenantId,
+        provider: 'jobadder',
+        type: 'jobs',
+        mode: 'full',
+        trigger: 'scheduled',
+      }),
+    )
+    expect(run.recordItem).toHaveBeenCalledWith({
+      externalId: 'ja-1',
+      localId: '1',
+      outcome: 'updated',
+    })
+    expect(run.recordItem).toHaveBeenCalledWith(
+      expect.objectContaining({ externalId: 'ja-2', localId: '2', outcome: 'closed' }),
+    )
+    expect(run.complete).toHaveBeenCalledWith(stats)
+  })
+
+  it('should mark the run failed when JobAdder cannot be reached', async () => {
+    const error = new Error('Network error')
+    client.getAllJobs.mockRejectedValue(error)
+
+    await expect(syncJobs(client as unknown as JobAdderClient, tenantId)).rejects.toThrow(
+      'Network error',
+    )
+
+    expect(run.fail).toHaveBeenCalledWith(error, expect.any(Object))
+    expect(run.complete).not.toHaveBeenCalled()
+  })
+
+  it('should report what a dry run would change without writing anything', async () => {
+    client.getAllJobs.mockResolvedValue([
+      activeJob,
+      { ...activeJob, id: 'ja-4', title: 'Broken Job' },
+    ])
+    ;(transformJob as jest.Mock)
+      .mockResolvedValueOnce({ title: 'Renamed Job', status: 'published' })
+      .mockRejectedValueOnce(new Error('Invalid salary'))
+
+    const stats = await syncJobs(client as unknown as JobAdderClient, tenantId, {
+      dryRun: true,
+    })
+
+    expect(payload.update).not.toHaveBeenCalled()
+    expect(payload.create).not.toHaveBeenCalled()
+    expect(SyncRunRecorder.start).not.toHaveBeenCalled()
+    expect(stats.diff).toEqual({
+      created: [],
+      updated: [
+        {
+          externalId: 'ja-1',
+          localId: '1',
+          label: 'Renamed Job',
+          changes: [{ field: 'title', before: null, after: 'Renamed Job' }],
+        },
+      ],
+      unchanged: 0,
+      closed: [
+        expect.objectContaining({ externalId: 'ja-2', localId: '2' }),
+        expect.objectContaining({ externalId: 'ja-3', localId: '3' }),
+      ],
+      archived: [],
+      failed: [{ externalId: 'ja-4', label: 'Broken Job', message: 'Invalid salary' }],
+    })
+    expect(stats).toEqual(expect.objectContaining({ updated: 1, closed: 2, errors: 1 }))
+  })
+
+  it('should list jobs a dry run would create', async () => {
+    ;(payload.find as jest.Mock).mockResolvedValue({ docs: [] })
+
+    const stats = await syncJobs(client as unknown as JobAdderClient, tenantId, {
+      dryRun: true,
+    })
+
+    expect(payload.create).not.toHaveBeenCalled()
+    expect(stats.created).toBe(1)
+    expect(stats.diff?.created).toEqual([{ externalId: 'ja-1', label: 'Test Job' }])
+  })
+})
+
+describe('syncCandidates', () => {
+  const tenantId = 123
+  // The analytics pool is created when the module loads
+  const analyticsQuery = (Pool as unknown as jest.Mock).mock.results[0].value.query as jest.Mock
+
+  const jobAdderCandidate = (id: string, consent?: string): JobAdderCandidate => ({
+    id,
+    reference: `REF-${id}`,
+    firstName: 'Jane',
+    lastName: id,
+    email: `${id}@example.com`,
+    status: 'active',
+    createdAt: '2025-05-01T00:00:00Z',
+    updatedAt: '2025-05-18T00:00:00Z',
+    customFields: consent ? { 'GDPR Consent': consent } : {},
+  })
+
+  let client: Record<string, jest.Mock>
+  let run: { recordItem: jest.Mock; complete: jest.Mock; fail: jest.Mock }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+
+    run = { recordItem: jest.fn(), complete: jest.fn(), fail: jest.fn() }
+    ;(SyncRunRecorder.start as jest.Mock).mockResolvedValue(run)
+
+    client = {
+      getCandidates: jest
+        .fn()
+        .mockResolvedValue([
+          jobAdderCandidate('c-1', 'Yes'),
+          jobAdderCandidate('c-2', 'No'),
+          jobAdderCandidate('c-3'),
+        ]),
+      getCandidateResume: jest.fn().mockResolvedValue(undefined),
+      getCandidateExperiences: jest.fn().mockResolvedValue([]),
+      getCandidateEducation: jest.fn().mockResolvedValue([]),
+      getCandidatePlacements: jest.fn().mockResolvedValue([]),
+      getRateLimitMetrics: jest.fn().mockReturnValue({}),
+    }
+    ;(transformCandidate as jest.Mock).mockImplementation(async (candidate) => ({
+      firstName: candidate.firstName,
+      lastName: candidate.lastName,
+      dataUsageConsent: true,
+    }))
+    // New candidates, with no consent given on our apply forms
+    ;(payload.find as jest.Mock).mockResolvedValue({ docs: [] })
+    ;(payload.create as jest.Mock).mockImplementation(async ({ data }) => ({
+      id: `local-${data.lastName}`,
+    }))
+  })
+
+  it('should skip refusals and only enrich candidates who consented', async () => {
+    const stats = await syncCandidates(client as unknown as JobAdderClient, tenantId, {
+      consent: { customField: 'GDPR Consent' },
+    })
+
+    expect(stats).toEqual(
+      expect.objectContaining({ created: 2, privacyFiltered: 1, enriched: 1, skipped: 1 }),
+    )
+    expect(payload.create).toHaveBeenCalledTimes(2)
+    expect(payload.create).toHaveBeenCalledWith({
+      collection: 'candidates',
+      data: expect.objectContaining({ lastName: 'c-1', dataUsageConsent: true }),
+    })
+    expect(payload.create).toHaveBeenCalledWith({
+      collection: 'candidates',
+      data: expect.objectContaining({ lastName: 'c-3', dataUsageConsent: false }),
+    })
+    expect(run.recordItem).toHaveBeenCalledWith({
+      externalId: 'c-2',
+      outcome: 'skipped',
+      message: 'No privacy consent: ATS field "GDPR Consent" is "No"',
+    })
+
+    // Only c-1 was queued for enrichment
+    const enrichmentQueued = analyticsQuery.mock.calls.filter(([sql]) =>
+      sql.includes('candidate_enrichment_queue'),
+    )
+    expect(enrichmentQueued).toEqual([[expect.any(String), ['local-c-1', 'c-1', tenantId]]])
+  })
+
+  it('should log each consent decision with its reason', async () => {
+    await syncCandidates(client as unknown as JobAdderClient, tenantId, {
+      consent: { customField: 'GDPR Consent' },
+    })
+
+    const consentChecks = analyticsQuery.mock.calls
+      .filter(([, params]) => params[1] === 'consent_check')
+      .map(([, params]) => params)
+    expect(consentChecks).toEqual([
+      [
+        'c-1',
+        'consent_check',
+        'granted (ats_field): ATS field "GDPR Consent" is "Yes"',
+        'system',
+        tenantId,
+        expect.any(String),
+      ],
+      [
+        'c-2',
+        'consent_check',
+        'refused (ats_field): ATS field "GDPR Consent" is "No"',
+        'system',
+        tenantId,
+        expect.any(String),
+      ],
+      [
+        'c-3',
+        'consent_check',
+        'unknown (none): No consent recorded; ATS field "GDPR Consent" is empty or unrecognised',
+        'system',
+        tenantId,
+        expect.any(String),
+      ],
+    ])
+  })
+
+  it('should keep consent and sharing preferences held on an existing candidate', async () => {
+    client.getCandidates.mockResolvedValue([jobAdderCandidate('c-3')])
+    const preferences = { allowInternalUse: true, allowThirdPartySharing: true }
+    ;(payload.find as jest.Mock).mockImplementation(async ({ collection }) => ({
+      docs:
+        collection === 'candidates'
+          ? [{ id: 9, dataUsageConsent: true, dataSharingPreferences: preferences, atsData: {} }]
+          : [],
+    }))
+    ;(payload.update as jest.Mock).mockResolvedValue({ id: 9 })
+
+    const stats = await syncCandidates(client as unknown as JobAdderClient, tenantId)
+
+    expect(payload.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: 9,
+        data: expect.objectContaining({
+          dataUsageConsent: true,
+          dataSharingPreferences: preferences,
+        }),
+      }),
+    )
+    expect(stats).toEqual(expect.objectContaining({ updated: 1, enriched: 1 }))
+  })
+
+  it('should record a refusal on an existing candidate before skipping them', async () => {
+    client.getCandidates.mockResolvedValue([jobAdderCandidate('c-2', 'No')])
+    ;(payload.find as jest.Mock).mockImplementation(async ({ collection }) => ({
+      docs: collection === 'candidates' ? [{ id: 9, dataUsageConsent: true, atsData: {} }] : [],
+    }))
+
+    const stats = await syncCandidates(client as unknown as JobAdderClient, tenantId, {
+      consent: { customField: 'GDPR Consent' },
+    })
+
+    expect(payload.update).toHaveBeenCalledTimes(1)
+    expect(payload.update).toHaveBeenCalledWith({
+      collection: 'candidates',
+      id: 9,
+      data: { dataUsageConsent: false },
+    })
+    expect(stats).toEqual(expect.objectContaining({ privacyFiltered: 1, updated: 0 }))
+  })
+})
@@ -1,11 +1,27 @@
-import { handleWebhook, registerWebhook } from '../webhook'
+import {
+  handleWebhook,
+  processDelivery,
+  processWebhookQueue,
+  registerWebhook,
+  replayDelivery,
+} from '../webhook'
 import axios from 'axios'
 import payload from 'payload'
 import { webhookLogger } from '@/lib/logger'
 import { getAccessToken } from '../oauth'
+import { JobAdderClient } from '../client'
 import { transformJob } from '../transform'
 import { JobAdderWebhookPayload } from '../types'
 import crypto from 'crypto'
+import {
+  getDueDeliveries,
+  recordDelivery,
+  markDeliveryProcessing,
+  markDeliveryProcessed,
+  markDeliveryFailed,
+  markDeliveryDeadLettered,
+  resetDeliveryAttempts,
+} from '../inbox'
 
 // Mock dependencies
 jest.mock('axios')
@@ -26,9 +42,20 @@ jest.mock('@/lib/logger', () => ({
 jest.mock('../oauth', () => ({
   getAccessToken: jest.fn(),
 }))
+jest.mock('../client')
 jest.mock('../transform', () => ({
   transformJob: jest.fn(),
 }))
+jest.mock('../inbox', () => ({
+  getDeliveryId: jest.fn().mockReturnValue('delivery-123'),
+  getDueDeliveries: jest.fn(),
+  recordDelivery: jest.fn(),
+  markDeliveryProcessing: jest.fn(),
+  markDeliveryProcessed: jest.fn(),
+  markDeliveryFailed: jest.fn(),
+  markDeliveryDeadLettered: jest.fn(),
+  resetDeliveryAttempts: jest.fn(),
+}))
 jest.mock('crypto', () => ({
   ...jest.requireActual('crypto'),
   randomUUID: jest.fn().mockReturnValue('test-uuid'),
@@ -42,6 +69,8 @@ jest.mock('crypto', () => ({
 describe('JobAdder Webhook Handler', () => {
   let mockReq: any
   let mockRes: any
+  let delivery: any
+  let client: { getJob: jest.Mock }
 
   beforeEach(() => {
     jest.clearAllMocks()
@@ -56,7 +85,8 @@ describe('JobAdder Webhook Handler', () => {
         webhookId: 'webhook-123',
       },
       headers: {
-        'x-jobadder-signature': 'test-signature',
+        'x-jobadder-signature': 'test-digest',
+        'x-jobadder-timestamp': String(Math.floor(Date.now() / 1000)),
       },
       ip: '127.0.0.1',
     }
@@ -67,24 +97,26 @@ describe('JobAdder Webhook Handler', () => {
     }
 
     // Setup mock responses
-    ;(payload.findByID as jest.Mock).mockResolvedValue({ id: 'tenant-123' })
-    ;(getAccessToken as jest.Mock).mockResolvedValue('test-access-token')
-    ;(axios.get as jest.Mock).mockResolvedValue({
-      data: {
-        data: {
-          id: 'job-123',
-          title: 'Test Job',
-          status: 'active',
-          location: { city: 'Sydney', state: 'NSW', country: 'Australia' },
-          workType: 'permanent',
-          description: 'Test description',
-          applicationUrl: 'https://test.com/apply',
-          postedDate: '2025-05-18T00:00:00Z',
-          reference: 'TEST-001',
-          salary: { type: 'annual', currency: 'AUD' },
-        },
-      },
+    ;(payload.findByID as jest.Mock).mockResolvedValue({
+      id: 'tenant-123',
+      atsConfig: { jobAdder: { webhookSecret: 'tenant-secret' } },
     })
+    ;(getAccessToken as jest.Mock).mockResolvedValue('test-access-token')
+    client = {
+      getJob: jest.fn().mockResolvedValue({
+        id: 'job-123',
+        title: 'Test Job',
+        status: 'active',
+        location: { city: 'Sydney', state: 'NSW', country: 'Australia' },
+        workType: 'permanent',
+        description: 'Test description',
+        applicationUrl: 'https://test.com/apply',
+        postedDate: '2025-05-18T00:00:00Z',
+        reference: 'TEST-001',
+        salary: { type: 'annual', currency: 'AUD' },
+      }),
+    }
+    ;(JobAdderClient as unknown as jest.Mock).mockImplementation(() => client)
     ;(transformJob as jest.Mock).mockResolvedValue({
       title: 'Test Job',
       status: 'published',
@@ -93,120 +125,237 @@ describe('JobAdder Webhook Handler', () => {
     ;(payload.create as jest.Mock).mockResolvedValue({ id: 'new-job-123' })
     ;(crypto.timingSafeEqual as jest.Mock).mockReturnValue(true)
 
-    // Set environment variables
-    process.env.JOBADDER_WEBHOOK_SECRET = 'test-secret'
-  })
-
-  afterEach(() => {
-    delete process.env.JOBADDER_WEBHOOK_SECRET
+    delivery = {
+      id: 'inbox-1',
+      deliveryId: 'delivery-123',
+      status: 'received',
+      attempts: 0,
+      payload: mockReq.body,
+    }
+    ;(recordDelivery as jest.Mock).mockResolvedValue({ delivery, duplicate: false })
+    ;(markDeliveryFailed as jest.Mock).mockResolvedValue('retrying')
   })
 
   describe('handleWebhook', () => {
-    it('should process job.created event and create a new job', async () => {
+    it('should queue valid deliveries and return 202 without processing them', async () => {
       await handleWebhook(mockReq, mockRes)
 
       expect(webhookLogger.info).toHaveBeenCalledWith(
         'Received JobAdder webhook',
         expect.any(Object),
       )
+      expect(recordDelivery).toHaveBeenCalledWith({
+        deliveryId: 'delivery-123',
+        body: mockReq.body,
+        signatureValid: true,
+      })
+      expect(client.getJob).not.toHaveBeenCalled()
+      expect(getAccessToken).not.toHaveBeenCalled()
+      expect(markDeliveryProcessing).not.toHaveBeenCalled()
+      expect(mockRes.status).toHaveBeenCalledWith(202)
+      expect(mockRes.send).toHaveBeenCalledWith('Webhook accepted')
+    })
+
+    it('should return 400 for invalid webhook payload', async () => {
+      mockReq.body = { invalid: 'payload' }
+
+      await handleWebhook(mockReq, mockRes)
+
+      expect(recordDelivery).not.toHaveBeenCalled()
+      expect(mockRes.status).toHaveBeenCalledWith(400)
+      expect(mockRes.send).toHaveBeenCalledWith('Invalid webhook payload')
+    })
+
+    it('should return 401 for invalid webhook signature without storing the delivery', async () => {
+      ;(crypto.timingSafeEqual as jest.Mock).mockReturnValue(false)
+
+      await handleWebhook(mockReq, mockRes)
+
+      expect(recordDelivery).not.toHaveBeenCalled()
+      expect(mockRes.status).toHaveBeenCalledWith(401)
+      expect(mockRes.send).toHaveBeenCalledWith('Invalid webhook signature')
+    })
+
+    it('should verify the signature with the tenant secret and timestamp', async () => {
+      await handleWebhook(mockReq, mockRes)
+
+      expect(payload.findByID).toHaveBeenCalledWith({ collection: 'tenants', id: 'tenant-123' })
+      expect(crypto.createHmac).toHaveBeenCalledWith('sha256', 'tenant-secret')
+    })
+
+    it('should return 401 for deliveries signed outside the tolerance window', async () => {
+      mockReq.headers['x-jobadder-timestamp'] = String(Math.floor(Date.now() / 1000) - 3600)
+
+      await handleWebhook(mockReq, mockRes)
+
+      expect(recordDelivery).not.toHaveBeenCalled()
+      expect(mockRes.status).toHaveBeenCalledWith(401)
+    })
+
+    it('should acknowledge duplicate deliveries without queueing them', async () => {
+      ;(recordDelivery as jest.Mock).mockResolvedValue({
+        delivery: { ...delivery, status: 'processed' },
+        duplicate: true,
+      })
+
+      await handleWebhook(mockReq, mockRes)
+
+      expect(mockRes.status).toHaveBeenCalledWith(200)
+      expect(mockRes.send).toHaveBeenCalledWith('Duplicate delivery ignored')
+    })
+
+    it('should dead-letter deliveries without a tenant ID', async () => {
+      mockReq.body.metadata = { tenantId: '' }
+
+      await handleWebhook(mockReq, mockRes)
+
+      expect(markDeliveryDeadLettered).toHaveBeenCalledWith(delivery, 'Missing tenant ID')
+      expect(mockRes.status).toHaveBeenCalledWith(400)
+    })
+
+    it('should return 500 if the delivery cannot be stored', async () => {
+      ;(recordDelivery as jest.Mock).mockRejectedValue(new Error('DB error'))
+
+      await handleWebhook(mockReq, mockRes)
+
+      expect(webhookLogger.error).toHaveBeenCalledWith('Error queueing webhook', expect.any(Object))
+      expect(mockRes.status).toHaveBeenCalledWith(500)
+    })
+  })
+
+  describe('processDelivery', () => {
+    it('should process job.created event and create a new job', async () => {
+      const status = await processDelivery(delivery)
+
+      expect(markDeliveryProcessing).toHaveBeenCalledWith(delivery)
       expect(payload.findByID).toHaveBeenCalledWith({
         collection: 'tenants',
         id: 'tenant-123',
       })
       expect(getAccessToken).toHaveBeenCalledWith('tenant-123')
-      expect(axios.get).toHaveBeenCalledWith(
-        'https://api.jobadder.com/v2/jobs/job-123',
-        expect.any(Object),
+      expect(JobAdderClient).toHaveBeenCalledWith(
+        expect.objectContaining({ accessToken: 'test-access-token', tenantId: 'tenant-123' }),
       )
+      expect(client.getJob).toHaveBeenCalledWith('job-123')
       expect(transformJob).toHaveBeenCalled()
       expect(payload.find).toHaveBeenCalled()
       expect(payload.create).toHaveBeenCalled()
-      expect(mockRes.status).toHaveBeenCalledWith(200)
-      expect(mockRes.send).toHaveBeenCalledWith('Webhook processed successfully')
+      expect(markDeliveryProcessed).toHaveBeenCalledWith(delivery)
+      expect(status).toBe('processed')
     })
 
     it('should process job.updated event and update an existing job', async () => {
-      mockReq.body.event = 'job.updated'
+      delivery.payload.event = 'job.updated'
       ;(payload.find as jest.Mock).mockResolvedValue({
         docs: [{ id: 'existing-job-123' }],
       })
 
-      await handleWebhook(mockReq, mockRes)
+      await processDelivery(delivery)
 
       expect(payload.update).toHaveBeenCalledWith({
         collection: 'jobs',
         id: 'existing-job-123',
         data: expect.any(Object),
       })
-      expect(mockRes.status).toHaveBeenCalledWith(200)
     })
 
     it('should process job.deleted event and close the job', async () => {
-      mockReq.body.event = 'job.deleted'
+      delivery.payload.event = 'job.deleted'
       ;(payload.find as jest.Mock).mockResolvedValue({
         docs: [{ id: 'existing-job-123' }],
       })
 
-      await handleWebhook(mockReq, mockRes)
+      await processDelivery(delivery)
 
       expect(payload.update).toHaveBeenCalledWith({
         collection: 'jobs',
         id: 'existing-job-123',
         data: { status: 'closed' },
       })
-      expect(mockRes.status).toHaveBeenCalledWith(200)
     })
 
-    it('should return 400 for invalid webhook payload', async () => {
-      mockReq.body = { invalid: 'payload' }
+    it('should schedule a retry if tenant not found', async () => {
+      ;(payload.findByID as jest.Mock).mockResolvedValue(null)
 
-      await handleWebhook(mockReq, mockRes)
+      const status = await processDelivery(delivery)
 
-      expect(mockRes.status).toHaveBeenCalledWith(400)
-      expect(mockRes.send).toHaveBeenCalledWith('Invalid webhook payload')
+      expect(markDeliveryFailed).toHaveBeenCalledWith(delivery, new Error('Tenant not found'))
+      expect(status).toBe('retrying')
     })
 
-    it('should return 401 for invalid webhook signature', async () => {
-      ;(crypto.timingSafeEqual as jest.Mock).mockReturnValue(false)
+    it('should schedule a retry if unable to get access token', async () => {
+      ;(getAccessToken as jest.Mock).mockResolvedValue(null)
 
-      await handleWebhook(mockReq, mockRes)
+      const status = await processDelivery(delivery)
 
-      expect(mockRes.status).toHaveBeenCalledWith(401)
-      expect(mockRes.send).toHaveBeenCalledWith('Invalid webhook signature')
+      expect(markDeliveryFailed).toHaveBeenCalledWith(
+        delivery,
+        new Error('Unable to authenticate with JobAdder'),
+      )
+      expect(status).toBe('retrying')
     })
 
-    it('should return 404 if tenant not found', async () => {
-      ;(payload.findByID as jest.Mock).mockResolvedValue(null)
+    it('should handle errors and report the delivery status', async () => {
+      client.getJob.mockRejectedValue(new Error('API error'))
+      ;(markDeliveryFailed as jest.Mock).mockResolvedValue('dead_letter')
 
-      await handleWebhook(mockReq, mockRes)
+      const status = await processDelivery(delivery)
 
-      expect(mockRes.status).toHaveBeenCalledWith(404)
-      expect(mockRes.send).toHaveBeenCalledWith('Tenant not found')
+      expect(webhookLogger.error).toHaveBeenCalledWith(
+        'Error processing webhook',
+        expect.any(Object),
+      )
+      expect(markDeliveryFailed).toHaveBeenCalledWith(delivery, expect.any(Error))
+      expect(markDeliveryProcessed).not.toHaveBeenCalled()
+      expect(status).toBe('dead_letter')
     })
 
-    it('should return 401 if unable to get access token', async () => {
-      ;(getAccessToken as jest.Mock).mockResolvedValue(null)
-
-      await handleWebhook(mockReq, mockRes)
+    it('should dead-letter deliveries whose stored payload is invalid', async () => {
+      const status = await processDelivery({ ...delivery, payload: { invalid: 'payload' } })
 
-      expect(mockRes.status).toHaveBeenCalledWith(401)
-      expect(mockRes.send).toHaveBeenCalledWith('Unable to authenticate with JobAdder')
+      expect(markDeliveryDeadLettered).toHaveBeenCalled()
+      expect(markDeliveryProcessing).not.toHaveBeenCalled()
+      expect(client.getJob).not.toHaveBeenCalled()
+      expect(status).toBe('dead_letter')
     })
+  })
 
-    it('should handle errors and return 500', async () => {
-      ;(axios.get as jest.Mock).mockRejectedValue(new Error('API error'))
+  describe('processWebhookQueue', () => {
+    it('should process due deliveries and count their outcomes', async () => {
+      ;(getDueDeliveries as jest.Mock).mockResolvedValue([delivery, { ...delivery, id: 'inbox-2' }])
+      ;(payload.findByID as jest.Mock)
+        .mockResolvedValueOnce({ id: 'tenant-123' })
+        .mockResolvedValueOnce(null)
 
-      await handleWebhook(mockReq, mockRes)
+      const stats = await processWebhookQueue({ limit: 10 })
 
-      expect(webhookLogger.error).toHaveBeenCalledWith(
-        'Error processing webhook',
-        expect.any(Object),
-      )
-      expect(mockRes.status).toHaveBeenCalledWith(500)
+      expect(getDueDeliveries).toHaveBeenCalledWith(10)
+      expect(stats).toEqual({ processed: 1, retrying: 1, deadLettered: 0 })
+    })
+  })
+
+  describe('replayDelivery', () => {
+    it('should reset attempts and reprocess a stored delivery', async () => {
+      const result = await replayDelivery({ ...delivery, status: 'dead_letter', attempts: 8 })
+
+      expect(resetDeliveryAttempts).toHaveBeenCalled()
+      expect(payload.create).toHaveBeenCalled()
+      expect(result).toBe('processed')
     })
   })
 
   describe('registerWebhook', () => {
+    const WEBHOOK_EVENTS = [
+      'job.created',
+      'job.updated',
+      'job.deleted',
+      'candidate.created',
+      'candidate.updated',
+      'candidate.deleted',
+      'placement.created',
+      'placement.updated',
+    ]
+
     beforeEach(() => {
       process.env.NEXT_PUBLIC_API_URL = 'https://example.com'
       ;(axios.get as jest.Mock).mockResolvedValue({ data: { data: [] } })
@@ -230,9 +379,9 @@ describe('JobAdder Webhook Handler', () => {
         'https://api.jobadder.com/v2/webhooks',
         {
           url: 'https://example.com/api/webhooks/jobadder',
-          events: ['job.created', 'job.updated', 'job.deleted'],
+          events: WEBHOOK_EVENTS,
           metadata: { tenantId: 'tenant-123' },
-          secret: 'test-secret',
+          secret: 'tenant-secret',
         },
         expect.any(Object),
       )
@@ -249,7 +398,7 @@ describe('JobAdder Webhook Handler', () => {
             {
               id: 'existing-webhook-123',
               url: 'https://example.com/api/webhooks/jobadder',
-              events: ['job.created', 'job.updated', 'job.deleted'],
+              events: WEBHOOK_EVENTS,
             },
           ],
         },
@@ -258,8 +407,37 @@ describe('JobAdder Webhook Handler', () => {
       await registerWebhook('test-access-token', 'tenant-123')
 
       expect(axios.post).not.toHaveBeenCalled()
+      expect(axios.put).not.toHaveBeenCalled()
       expect(webhookLogger.info).toHaveBeenCalledWith(
-        'JobAdder webhook already exists',
+        'JobAdder webhook already exists with all required events',
+        expect.any(Object),
+      )
+    })
+
+    it("should give an existing webhook the tenant's ID and current secret", async () => {
+      ;(axios.get as jest.Mock).mockResolvedValue({
+        data: {
+          data: [
+            {
+              id: 'existing-webhook-123',
+              url: 'https://example.com/api/webhooks/jobadder',
+              events: ['job.created'],
+              metadata: { tenantId: 'tenant-old', source: 'jobs-board' },
+            },
+          ],
+        },
+      })
+
+      await registerWebhook('test-access-token', 'tenant-123', { updateSecret: true })
+
+      expect(axios.put).toHaveBeenCalledWith(
+        'https://api.jobadder.com/v2/webhooks/existing-webhook-123',
+        {
+          url: 'https://example.com/api/webhooks/jobadder',
+          events: WEBHOOK_EVENTS,
+          metadata: { tenantId: 'tenant-123', source: 'jobs-board' },
+          secret: 'tenant-secret',
+        },
         expect.any(Object),
       )
     })
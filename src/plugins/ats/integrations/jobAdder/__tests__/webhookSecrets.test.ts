@@ -0,0 +1,169 @@
+import crypto from 'crypto'
+import payload from 'payload'
+import {
+  ensureWebhookSecret,
+  getAcceptedSecrets,
+  getLegacyWebhookSecret,
+  replaceWebhookSecret,
+  signWebhookPayload,
+  verifyLegacySignature,
+  verifySignature,
+} from '../webhookSecrets'
+import { Tenant } from '../../../../../payload-types'
+
+// Mock dependencies
+jest.mock('payload', () => ({
+  findByID: jest.fn(),
+  update: jest.fn(),
+}))
+jest.mock('@/lib/logger', () => ({
+  webhookLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+const NOW = Date.parse('2025-06-01T12:00:00Z')
+const HOUR = 60 * 60 * 1000
+
+describe('webhook secrets', () => {
+  const originalEnv = process.env
+  const body = JSON.stringify({ event: 'job.created', data: { id: 'job-123' } })
+  const timestamp = String(NOW / 1000)
+
+  const tenantWith = (jobAdder: Record<string, unknown>) =>
+    ({ id: 7, atsConfig: { jobAdder } }) as unknown as Tenant
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    process.env = { ...originalEnv }
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  describe('getAcceptedSecrets', () => {
+    it('should accept the previous secret until its grace period ends', () => {
+      const tenant = tenantWith({
+        webhookSecret: 'new-secret',
+        previousWebhookSecret: 'old-secret',
+        previousWebhookSecretExpiresAt: new Date(NOW + HOUR).toISOString(),
+      })
+
+      expect(getAcceptedSecrets(tenant, NOW)).toEqual(['new-secret', 'old-secret'])
+      expect(getAcceptedSecrets(tenant, NOW + 2 * HOUR)).toEqual(['new-secret'])
+    })
+
+    it('should accept nothing for tenants without a secret', () => {
+      expect(getAcceptedSecrets(tenantWith({}), NOW)).toEqual([])
+      expect(getAcceptedSecrets(null, NOW)).toEqual([])
+    })
+  })
+
+  describe('verifySignature', () => {
+    it('should accept a delivery signed with any accepted secret', () => {
+      const signature = signWebhookPayload('old-secret', timestamp, body)
+
+      expect(
+        verifySignature({ signature, timestamp, body }, ['new-secret', 'old-secret'], NOW),
+      ).toBe(true)
+      expect(verifySignature({ signature, timestamp, body }, ['new-secret'], NOW)).toBe(false)
+    })
+
+    it('should reject a delivery whose body or timestamp was changed', () => {
+      const signature = signWebhookPayload('secret', timestamp, body)
+
+      expect(
+        verifySignature(
+          { signature, timestamp, body: body.replace('123', '456') },
+          ['secret'],
+          NOW,
+        ),
+      ).toBe(false)
+      expect(
+        verifySignature({ signature, timestamp: String(NOW / 1000 + 1), body }, ['secret'], NOW),
+      ).toBe(false)
+    })
+
+    it('should reject deliveries signed outside the tolerance window', () => {
+      const signature = signWebhookPayload('secret', timestamp, body)
+
+      expect(verifySignature({ signature, timestamp, body }, ['secret'], NOW + 4 * 60 * 1000)).toBe(
+        true,
+      )
+      expect(verifySignature({ signature, timestamp, body }, ['secret'], NOW + 6 * 60 * 1000)).toBe(
+        false,
+      )
+    })
+
+    it('should reject deliveries without a signature or timestamp', () => {
+      const signature = signWebhookPayload('secret', timestamp, body)
+
+      expect(verifySignature({ timestamp, body }, ['secret'], NOW)).toBe(false)
+      expect(verifySignature({ signature, body }, ['secret'], NOW)).toBe(false)
+    })
+  })
+
+  describe('legacy global secret', () => {
+    it('should be accepted while it is set, until the cutoff', () => {
+      expect(getLegacyWebhookSecret(NOW)).toBeNull()
+
+      process.env.JOBADDER_WEBHOOK_SECRET = 'global-secret'
+      expect(getLegacyWebhookSecret(NOW)).toBe('global-secret')
+
+      process.env.JOBADDER_LEGACY_WEBHOOK_SECRET_UNTIL = new Date(NOW + HOUR).toISOString()
+      expect(getLegacyWebhookSecret(NOW)).toBe('global-secret')
+      expect(getLegacyWebhookSecret(NOW + 2 * HOUR)).toBeNull()
+    })
+
+    it('should verify deliveries signed over the body only', () => {
+      const signature = crypto.createHmac('sha256', 'global-secret').update(body).digest('hex')
+
+      expect(verifyLegacySignature({ signature, body }, 'global-secret')).toBe(true)
+      expect(verifyLegacySignature({ signature, body }, 'other-secret')).toBe(false)
+      expect(verifyLegacySignature({ body }, 'global-secret')).toBe(false)
+    })
+  })
+
+  describe('ensureWebhookSecret', () => {
+    it('should keep the tenant secret', async () => {
+      ;(payload.findByID as jest.Mock).mockResolvedValue(tenantWith({ webhookSecret: 'secret' }))
+
+      await expect(ensureWebhookSecret('7')).resolves.toEqual({ secret: 'secret', created: false })
+      expect(payload.update).not.toHaveBeenCalled()
+    })
+
+    it('should create a secret for tenants without one', async () => {
+      ;(payload.findByID as jest.Mock).mockResolvedValue(tenantWith({}))
+
+      const { secret, created } = await ensureWebhookSecret('7')
+
+      expect(created).toBe(true)
+      expect(secret).toMatch(/^[0-9a-f]{64}$/)
+      expect((payload.update as jest.Mock).mock.calls[0][0].data.atsConfig.jobAdder).toEqual({
+        webhookSecret: secret,
+        webhookSecretRotatedAt: expect.any(String),
+      })
+    })
+  })
+
+  describe('replaceWebhookSecret', () => {
+    it('should keep the current secret as the previous one for the grace period', async () => {
+      ;(payload.findByID as jest.Mock).mockResolvedValue(tenantWith({ webhookSecret: 'current' }))
+
+      const { secret, previousExpiresAt } = await replaceWebhookSecret('7', NOW)
+
+      expect(secret).not.toBe('current')
+      expect(previousExpiresAt).toBe(new Date(NOW + 24 * HOUR).toISOString())
+      expect((payload.update as jest.Mock).mock.calls[0][0].data.atsConfig.jobAdder).toEqual({
+        webhookSecret: secret,
+        previousWebhookSecret: 'current',
+        previousWebhookSecretExpiresAt: previousExpiresAt,
+        webhookSecretRotatedAt: new Date(NOW).toISOString(),
+      })
+    })
+  })
+})
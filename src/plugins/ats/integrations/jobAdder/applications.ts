@@ -0,0 +1,364 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import payload from 'payload'
+import { jobAdderLogger as logger } from '@/lib/logger'
+import { JobAdderClient } from './client'
+import { getAccessToken } from './oauth'
+import { getRetryDelay } from './inbox'
+import { APPLICANT_FILES_DIR } from '../../../../collections/ApplicantFiles'
+
+export type ApplicationWriteBackStatus = 'pending' | 'retrying' | 'synced' | 'failed'
+
+export interface ApplicationWriteBack {
+  status?: ApplicationWriteBackStatus | null
+  // Empty on write-backs queued before other providers were supported, which are JobAdder's
+  provider?: 'jobadder' | 'vincere' | null
+  attempts?: number | null
+  nextAttemptAt?: string | null
+  jobAdderCandidateId?: string | null
+  resumeUploaded?: boolean | null
+  jobAdderApplicationId?: string | null
+  vincereCandidateId?: string | null
+  vincereApplicationId?: string | null
+  syncedAt?: string | null
+  error?: string | null
+}
+
+// The parts of an apply_completed event the write-back needs
+export interface ApplicationEvent {
+  id: string | number
+  job: string | number
+  tenant: string | number
+  // Application made through our apply flow, which the applicant is read from
+  application?: string | number | null
+  atsWriteBack?: ApplicationWriteBack | null
+}
+
+// The applicant of an application being written back
+export interface Applicant {
+  email?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  phone?: string | null
+  resumeId?: string | number | null
+}
+
+// Attempts before a write-back is marked failed
+export const MAX_WRITE_BACK_ATTEMPTS = 8
+
+// Source recorded against applications we create in JobAdder
+const APPLICATION_SOURCE = 'Job Board'
+
+/**
+ * Writes an application back to JobAdder
+ * Matches or creates the candidate, uploads their resume and adds them to the job.
+ * Progress is saved after each step so a retry picks up where the last attempt stopped.
+ * @param event apply_completed event queued for write-back
+ * @returns The write-back status after this attempt
+ */
+export async function writeBackApplication(
+  event: ApplicationEvent,
+): Promise<'synced' | 'retrying' | 'failed'> {
+  const applicant = await getApplicant(event)
+
+  // Without the application or an email we can't match or create the candidate, so don't retry
+  if (!applicant?.email) {
+    await updateWriteBack(event, {
+      status: 'failed',
+      nextAttemptAt: null,
+      error: applicant ? 'Applicant email is required' : 'Application not found',
+    })
+    return 'failed'
+  }
+
+  const attempts = (event.atsWriteBack?.attempts || 0) + 1
+  await updateWriteBack(event, { attempts })
+
+  try {
+    const job = await payload.findByID({
+      collection: 'jobs',
+      id: event.job,
+      depth: 0,
+    })
+
+    const jobAdderJobId = (job?.atsData?.jobAdder as { id?: string } | null)?.id
+    if (!jobAdderJobId) {
+      throw new Error('Job is not linked to a JobAdder job')
+    }
+
+    const tenantId = String(event.tenant)
+    const accessToken = await getAccessToken(tenantId)
+
+    if (!accessToken) {
+      throw new Error('Unable to authenticate with JobAdder')
+    }
+
+    const client = new JobAdderClient({
+      clientId: '', // Not needed for token-based operations
+      clientSecret: '', // Not needed for token-based operations
+      accessToken,
+      refreshToken: '', // Not needed for this operation
+      tenantId,
+    })
+
+    // Match or create the candidate
+    let candidateId = event.atsWriteBack?.jobAdderCandidateId
+    if (!candidateId) {
+      candidateId = await matchOrCreateCandidate(client, event, applicant, applicant.email)
+      await updateWriteBack(event, { jobAdderCandidateId: candidateId })
+    }
+
+    // Attach the resume, if the applicant uploaded one
+    if (applicant.resumeId && !event.atsWriteBack?.resumeUploaded) {
+      await client.uploadCandidateAttachment(
+        candidateId,
+        await getResumeFile(applicant.resumeId, event.tenant),
+        'Resume',
+      )
+      await updateWriteBack(event, { resumeUploaded: true })
+    }
+
+    // Add the candidate to the job
+    const application = await client.addJobApplication(
+      jobAdderJobId,
+      candidateId,
+      APPLICATION_SOURCE,
+    )
+
+    await updateWriteBack(event, {
+      status: 'synced',
+      jobAdderApplicationId: String(application.applicationId),
+      syncedAt: new Date().toISOString(),
+      nextAttemptAt: null,
+      error: null,
+    })
+
+    logger.info('Wrote application back to JobAdder', {
+      eventId: event.id,
+      jobAdderJobId,
+      candidateId,
+      applicationId: application.applicationId,
+    })
+    return 'synced'
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    const status = attempts >= MAX_WRITE_BACK_ATTEMPTS ? 'failed' : 'retrying'
+
+    await updateWriteBack(event, {
+      status,
+      nextAttemptAt:
+        status === 'retrying' ? new Date(Date.now() + getRetryDelay(attempts)).toISOString() : null,
+      error: message,
+    })
+
+    logger.error('Error writing application back to JobAdder', {
+      eventId: event.id,
+      attempts,
+      status,
+      error: message,
+    })
+    return status
+  }
+}
+
+/**
+ * Writes back queued applications that are due, one at a time
+ * Called by the ATS worker on a schedule.
+ * @param options.limit Maximum number of applications to write back in this run
+ * @returns Counts of applications by their status after this run
+ */
+export async function processApplicationWriteBacks(
+  options: { limit?: number } = {},
+): Promise<{ synced: number; retrying: number; failed: number }> {
+  const { limit = 25 } = options
+  const stats = { synced: 0, retrying: 0, failed: 0 }
+
+  const events = await payload.find({
+    collection: 'events' as any, // Type assertion to bypass TypeScript check
+    where: {
+      type: { equals: 'apply_completed' },
+      'atsWriteBack.status': { in: ['pending', 'retrying'] },
+      'atsWriteBack.nextAttemptAt': { less_than_equal: new Date().toISOString() },
+      or: [
+        { 'atsWriteBack.provider': { equals: 'jobadder' } },
+        { 'atsWriteBack.provider': { exists: false } },
+      ],
+    },
+    sort: 'atsWriteBack.nextAttemptAt',
+    limit,
+    depth: 0,
+  })
+
+  for (const event of events.docs as unknown as ApplicationEvent[]) {
+    const status = await writeBackApplication(event)
+    stats[status]++
+  }
+
+  if (events.docs.length > 0) {
+    logger.info('Processed application write-backs', { ...stats })
+  }
+
+  return stats
+}
+
+/**
+ * Find the applicant in JobAdder, or create them
+ * The JobAdder ID is stored back on our candidate record when we have one.
+ * @returns JobAdder candidate ID
+ */
+async function matchOrCreateCandidate(
+  client: JobAdderClient,
+  event: ApplicationEvent,
+  applicant: Applicant,
+  email: string,
+): Promise<string> {
+  const localCandidates = await payload.find({
+    collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+    where: {
+      email: { equals: email },
+      tenant: { equals: event.tenant },
+    },
+    limit: 1,
+    depth: 0,
+  })
+  const localCandidate = localCandidates.docs[0] as any
+
+  // Already linked by a candidate sync or an earlier application
+  const linkedId = localCandidate?.atsData?.jobAdder?.id
+  if (linkedId) {
+    return String(linkedId)
+  }
+
+  const matches = await client.findCandidatesByEmail(email)
+  const match = matches.find((candidate) => candidate.email?.toLowerCase() === email.toLowerCase())
+
+  let candidateId: string
+  if (match) {
+    candidateId = String(match.id)
+  } else {
+    const created = await client.createCandidate({
+      firstName: applicant.firstName || '',
+      lastName: applicant.lastName || '',
+      email,
+      phone: applicant.phone || undefined,
+      source: APPLICATION_SOURCE,
+    })
+    candidateId = String(created.id)
+  }
+
+  if (localCandidate) {
+    await payload.update({
+      collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+      id: localCandidate.id,
+      data: {
+        atsData: {
+          ...localCandidate.atsData,
+          jobAdder: { ...localCandidate.atsData?.jobAdder, id: candidateId },
+        },
+      } as any,
+    })
+  }
+
+  return candidateId
+}
+
+/**
+ * Load the applicant of a queued write-back from the application made through our apply flow
+ * @returns The applicant, or null when the event has no application of its job and tenant
+ */
+export async function getApplicant(event: ApplicationEvent): Promise<Applicant | null> {
+  if (!event.application) {
+    return null
+  }
+
+  const application = (await payload
+    .findByID({
+      collection: 'applications' as any, // Type assertion to bypass TypeScript check
+      id: event.application,
+      depth: 0,
+    })
+    .catch(() => null)) as any
+
+  if (
+    !application ||
+    String(application.tenant) !== String(event.tenant) ||
+    String(application.job) !== String(event.job)
+  ) {
+    return null
+  }
+
+  return {
+    email: application.email,
+    firstName: application.firstName,
+    lastName: application.lastName,
+    phone: application.phone,
+    resumeId: application.resume,
+  }
+}
+
+/**
+ * Load a resume from the tenant's applicant files
+ * Only resumes sent with an application to the tenant are loaded.
+ */
+export async function getResumeFile(
+  fileId: string | number,
+  tenantId: string | number,
+): Promise<{ fileName: string; contentType: string; data: Buffer }> {
+  const applications = await payload.find({
+    collection: 'applications' as any, // Type assertion to bypass TypeScript check
+    where: {
+      resume: { equals: fileId },
+      tenant: { equals: tenantId },
+    },
+    limit: 1,
+    depth: 0,
+  })
+
+  if (applications.docs.length === 0) {
+    throw new Error(`Resume ${fileId} was not sent with an application to tenant ${tenantId}`)
+  }
+
+  const file = (await payload.findByID({
+    collection: 'applicant-files' as any, // Type assertion to bypass TypeScript check
+    id: fileId,
+  })) as { filename?: string | null; mimeType?: string | null }
+
+  if (!file?.filename) {
+    throw new Error(`Resume ${fileId} has no file`)
+  }
+
+  // Applicant files aren't served publicly, so they are read from storage
+  const data = await readFile(path.join(APPLICANT_FILES_DIR, path.basename(file.filename)))
+
+  return {
+    fileName: file.filename,
+    contentType: file.mimeType || 'application/octet-stream',
+    data,
+  }
+}
+
+/**
+ * Save write-back progress on the event
+ * Progress updates never throw: a lost update only means a step is repeated.
+ */
+export async function updateWriteBack(
+  event: ApplicationEvent,
+  data: Partial<ApplicationWriteBack>,
+): Promise<void> {
+  const atsWriteBack = { ...event.atsWriteBack, ...data }
+
+  try {
+    await payload.update({
+      collection: 'events' as any, // Type assertion to bypass TypeScript check
+      id: event.id,
+      data: { atsWriteBack } as any,
+    })
+    event.atsWriteBack = atsWriteBack
+  } catch (error) {
+    logger.error('Failed to save application write-back progress', {
+      eventId: event.id,
+      data,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+}
@@ -10,19 +10,72 @@ import {
   JobAdderCandidateExperience,
   JobAdderCandidateEducation,
   JobAdderCandidatePlacement,
+  JobAdderCandidateInput,
+  JobAdderApplication,
+  JobAdderCustomField,
+  JobAdderNote,
+  JobAdderNoteInput,
+  JobAdderScreeningQuestion,
 } from './types'
-import axiosRetry from 'axios-retry'
+import axiosRetry, { retryAfter as getRetryAfter } from 'axios-retry'
+import { RateLimiter, RateLimiterState, getRateLimiter } from './rateLimiter'
+
+// Cap for the backoff between retries when JobAdder doesn't send Retry-After
+const MAX_RETRY_DELAY_MS = 30 * 1000
+
+export interface JobAdderRateLimitMetrics extends RateLimiterState {
+  // Requests made by this client, including retries
+  requests: number
+  retries: number
+  // 429 responses received
+  throttled: number
+  // Time requests spent waiting for the limiter
+  waitedMs: number
+}
+
+// Read-only calls the sync and webhook pipelines make, which the sandbox provider also serves
+export type JobAdderReadClient = Pick<
+  JobAdderClient,
+  | 'getAllJobs'
+  | 'getJob'
+  | 'getCandidates'
+  | 'getCandidate'
+  | 'getCandidateResume'
+  | 'getCandidateExperiences'
+  | 'getCandidateEducation'
+  | 'getCandidatePlacements'
+  | 'getPlacement'
+  | 'getRateLimitMetrics'
+  | 'waitForRateLimit'
+>
+
+function isRateLimited(error: any): boolean {
+  return error?.response?.status === 429
+}
+
+/**
+ * Exponential backoff with jitter, or JobAdder's Retry-After when it sends one
+ */
+function retryDelay(retryCount: number, error: any): number {
+  const retryAfter = getRetryAfter(error)
+  const delay = retryAfter || Math.min(MAX_RETRY_DELAY_MS, Math.pow(2, retryCount) * 100)
+  // Spread retries out so clients throttled together don't retry together
+  return delay + Math.random() * delay * 0.5
+}
 
 export class JobAdderClient {
   private client: ReturnType<typeof axios.create>
   private config: JobAdderConfig
   private requestId: string
   private requestTimes: Map<string, number>
+  private limiter: RateLimiter
+  private metrics = { requests: 0, retries: 0, throttled: 0, waitedMs: 0 }
 
   constructor(config: JobAdderConfig) {
     this.config = config
     this.requestId = Math.random().toString(36).substring(7)
     this.requestTimes = new Map()
+    this.limiter = getRateLimiter(config.tenantId || 'default')
 
     logger.debug('Initializing JobAdder client', {
       requestId: this.requestId,
@@ -38,13 +91,45 @@ export class JobAdderClient {
       },
     })
 
+    // Wait for the tenant's rate limit budget before each request, retries included
+    this.client.interceptors.request.use(async (config) => {
+      this.metrics.waitedMs += await this.limiter.acquire()
+      this.metrics.requests++
+      return config
+    })
+
+    // Free the slot as soon as the response arrives, before any retry is scheduled, so a
+    // retry waiting out its delay doesn't hold a slot
+    this.client.interceptors.response.use(
+      (response) => {
+        this.limiter.release()
+        return response
+      },
+      (error) => {
+        this.limiter.release()
+        if (isRateLimited(error)) {
+          this.metrics.throttled++
+          // Hold back every request for this tenant, not just the one that was throttled
+          this.limiter.pause(retryDelay(0, error))
+          logger.warn('JobAdder rate limit hit, pausing requests', {
+            requestId: this.requestId,
+            tenantId: this.config.tenantId,
+            endpoint: error.config?.url,
+            retryAfter: error.response?.headers?.['retry-after'],
+          })
+        }
+        throw error
+      },
+    )
+
     // Configure retry logic
     axiosRetry(this.client, {
-      retries: 3,
-      retryDelay: axiosRetry.exponentialDelay,
+      retries: 4,
+      retryDelay,
       retryCondition: (error: any) => {
         const shouldRetry =
           axiosRetry.isNetworkOrIdempotentRequestError(error) ||
+          isRateLimited(error) ||
           (error.response?.status ?? 0) >= 500
 
         if (shouldRetry) {
@@ -59,6 +144,7 @@ export class JobAdderClient {
         return shouldRetry
       },
       onRetry: (retryCount: number, error: any) => {
+        this.metrics.retries++
         logger.warn('Retrying failed request', {
           requestId: this.requestId,
           retryCount,
@@ -110,17 +196,49 @@ export class JobAdderClient {
     )
   }
 
+  // ============================================================================
+  // Rate limiting
+  // ============================================================================
+
+  /**
+   * Request counts for this client, plus the state of its tenant's limiter
+   */
+  getRateLimitMetrics(): JobAdderRateLimitMetrics {
+    return { ...this.metrics, ...this.limiter.getState() }
+  }
+
+  /**
+   * Resolve once JobAdder's most recent Retry-After window has passed
+   */
+  async waitForRateLimit(): Promise<void> {
+    await this.limiter.waitUntilResumed()
+  }
+
   // ============================================================================
   // Job-related methods
   // ============================================================================
 
-  async getJobs(): Promise<JobAdderJob[]> {
+  async getJobs(
+    params: {
+      status?: 'active' | 'filled' | 'cancelled'
+      updatedSince?: string
+      limit?: number
+      offset?: number
+    } = {},
+  ): Promise<JobAdderJob[]> {
     try {
-      logger.debug('Fetching jobs', { requestId: this.requestId })
+      const { status = 'active', updatedSince, limit = 100, offset = 0 } = params
+
+      logger.debug('Fetching jobs', {
+        requestId: this.requestId,
+        params: { status, updatedSince, limit, offset },
+      })
       const response = await this.client.get<JobAdderJob[]>('/jobs', {
         params: {
-          status: 'active',
-          limit: 100,
+          status,
+          updatedSince,
+          limit,
+          offset,
         },
       })
 
@@ -142,6 +260,39 @@ export class JobAdderClient {
     }
   }
 
+  /**
+   * Fetches every page of jobs matching the given filters.
+   * Pages are requested until JobAdder returns fewer than `pageSize` results.
+   */
+  async getAllJobs(
+    params: {
+      status?: 'active' | 'filled' | 'cancelled'
+      updatedSince?: string
+      pageSize?: number
+    } = {},
+  ): Promise<JobAdderJob[]> {
+    const { status, updatedSince, pageSize = 100 } = params
+    const jobs: JobAdderJob[] = []
+    let offset = 0
+
+    while (true) {
+      const page = await this.getJobs({ status, updatedSince, limit: pageSize, offset })
+      jobs.push(...page)
+
+      if (page.length < pageSize) {
+        break
+      }
+      offset += pageSize
+    }
+
+    logger.info('Successfully fetched all job pages', {
+      requestId: this.requestId,
+      count: jobs.length,
+      pages: Math.floor(offset / pageSize) + 1,
+    })
+    return jobs
+  }
+
   async getJob(jobId: string): Promise<JobAdderJob> {
     try {
       logger.debug('Fetching job details', {
@@ -166,6 +317,36 @@ export class JobAdderClient {
     }
   }
 
+  /**
+   * Screening questions on the job's ads
+   * Jobs without screening questions, or whose account doesn't have screening, have none.
+   */
+  async getJobScreeningQuestions(jobId: string): Promise<JobAdderScreeningQuestion[]> {
+    try {
+      logger.debug('Fetching job screening questions', {
+        requestId: this.requestId,
+        jobId,
+      })
+
+      const response = await this.client.get<{ items: JobAdderScreeningQuestion[] }>(
+        `/jobs/${jobId}/screening/questions`,
+      )
+
+      return response.data.items || []
+    } catch (error) {
+      if ((error as { response?: { status?: number } })?.response?.status === 404) {
+        return []
+      }
+
+      logger.error('Failed to fetch job screening questions', {
+        requestId: this.requestId,
+        jobId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+      throw error
+    }
+  }
+
   // ============================================================================
   // Candidate-related methods
   // ============================================================================
@@ -367,6 +548,228 @@ export class JobAdderClient {
     }
   }
 
+  async getPlacement(placementId: string): Promise<JobAdderCandidatePlacement> {
+    try {
+      logger.debug('Fetching placement', {
+        requestId: this.requestId,
+        placementId,
+      })
+
+      const response = await this.client.get<JobAdderCandidatePlacement>(
+        `/placements/${placementId}`,
+      )
+
+      logger.debug('Successfully fetched placement', {
+        requestId: this.requestId,
+        placementId,
+      })
+
+      return response.data
+    } catch (error) {
+      logger.error('Failed to fetch placement', {
+        requestId: this.requestId,
+        placementId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+      throw error
+    }
+  }
+
+  async findCandidatesByEmail(email: string): Promise<JobAdderCandidate[]> {
+    try {
+      logger.debug('Searching candidates by email', {
+        requestId: this.requestId,
+      })
+
+      const response = await this.client.get<JobAdderCandidate[]>('/candidates', {
+        params: {
+          email,
+        },
+      })
+
+      logger.debug('Successfully searched candidates by email', {
+        requestId: this.requestId,
+        count: response.data.length,
+      })
+
+      return response.data
+    } catch (error) {
+      logger.error('Failed to search candidates by email', {
+        requestId: this.requestId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+      throw error
+    }
+  }
+
+  async createCandidate(candidate: JobAdderCandidateInput): Promise<JobAdderCandidate> {
+    try {
+      logger.debug('Creating candidate', {
+        requestId: this.requestId,
+      })
+
+      const response = await this.client.post<JobAdderCandidate>('/candidates', candidate)
+
+      logger.info('Successfully created candidate', {
+        requestId: this.requestId,
+        candidateId: response.data.id,
+      })
+
+      return response.data
+    } catch (error) {
+      logger.error('Failed to create candidate', {
+        requestId: this.requestId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+      throw error
+    }
+  }
+
+  async uploadCandidateAttachment(
+    candidateId: string,
+    file: { fileName: string; contentType: string; data: Buffer },
+    attachmentType: 'Resume' | 'CoverLetter' | 'Other' = 'Resume',
+  ): Promise<void> {
+    try {
+      logger.debug('Uploading candidate attachment', {
+        requestId: this.requestId,
+        candidateId,
+        attachmentType,
+        fileName: file.fileName,
+      })
+
+      const formData = new FormData()
+      formData.append(
+        'fileData',
+        new Blob([new Uint8Array(file.data)], { type: file.contentType }),
+        file.fileName,
+      )
+
+      await this.client.post(`/candidates/${candidateId}/attachments/${attachmentType}`, formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+      })
+
+      logger.info('Successfully uploaded candidate attachment', {
+        requestId: this.requestId,
+        candidateId,
+        attachmentType,
+      })
+    } catch (error) {
+      logger.error('Failed to upload candidate attachment', {
+        requestId: this.requestId,
+        candidateId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+      throw error
+    }
+  }
+
+  async addCandidateNote(candidateId: string, note: JobAdderNoteInput): Promise<JobAdderNote> {
+    try {
+      logger.debug('Adding candidate note', {
+        requestId: this.requestId,
+        candidateId,
+        type: note.type,
+      })
+
+      const response = await this.client.post<JobAdderNote>(
+        `/candidates/${candidateId}/notes`,
+        note,
+      )
+
+      logger.info('Successfully added candidate note', {
+        requestId: this.requestId,
+        candidateId,
+        noteId: response.data.noteId,
+      })
+
+      return response.data
+    } catch (error) {
+      logger.error('Failed to add candidate note', {
+        requestId: this.requestId,
+        candidateId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+      throw error
+    }
+  }
+
+  async updateCandidateCustomFields(
+    candidateId: string,
+    fields: Pick<JobAdderCustomField, 'fieldId' | 'value'>[],
+  ): Promise<void> {
+    try {
+      logger.debug('Updating candidate custom fields', {
+        requestId: this.requestId,
+        candidateId,
+        fieldIds: fields.map((field) => field.fieldId),
+      })
+
+      await this.client.put(`/candidates/${candidateId}/customfields`, fields)
+
+      logger.info('Successfully updated candidate custom fields', {
+        requestId: this.requestId,
+        candidateId,
+      })
+    } catch (error) {
+      logger.error('Failed to update candidate custom fields', {
+        requestId: this.requestId,
+        candidateId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+      throw error
+    }
+  }
+
+  // ============================================================================
+  // Application-related methods
+  // ============================================================================
+
+  async addJobApplication(
+    jobId: string,
+    candidateId: string,
+    source?: string,
+  ): Promise<JobAdderApplication> {
+    try {
+      logger.debug('Adding job application', {
+        requestId: this.requestId,
+        jobId,
+        candidateId,
+      })
+
+      const response = await this.client.post<JobAdderApplication[]>(
+        `/jobs/${jobId}/applications`,
+        {
+          candidateId: [candidateId],
+          source,
+        },
+      )
+
+      if (!response.data.length) {
+        throw new Error(`No application returned for candidate ${candidateId} on job ${jobId}`)
+      }
+
+      logger.info('Successfully added job application', {
+        requestId: this.requestId,
+        jobId,
+        candidateId,
+        applicationId: response.data[0].applicationId,
+      })
+
+      return response.data[0]
+    } catch (error) {
+      logger.error('Failed to add job application', {
+        requestId: this.requestId,
+        jobId,
+        candidateId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+      throw error
+    }
+  }
+
   // ============================================================================
   // Authentication methods
   // ============================================================================
@@ -0,0 +1,173 @@
+import payload from 'payload'
+import { logger } from '@/lib/logger'
+import { Pool } from 'pg'
+import { Tenant } from '../../../../payload-types'
+import { ConsentDecision, findApplyFormConsent, resolveConsent } from '../../consent'
+import { JobAdderCandidate } from './types'
+
+// Create a PostgreSQL connection pool for analytics database
+const analyticsPool = new Pool({
+  connectionString: process.env.ANALYTICS_DATABASE_URI || process.env.DATABASE_URI || '',
+})
+
+// Where a tenant's JobAdder records candidate consent
+export type JobAdderConsentConfig = NonNullable<
+  NonNullable<NonNullable<Tenant['atsConfig']>['jobAdder']>['consent']
+>
+
+/**
+ * Resolve whether a JobAdder candidate has consented to us processing their data
+ * The decision and its reason are written to the data access log.
+ * @param existing Our candidate for the record, if the person already exists in the tenant
+ * @param config Tenant's JobAdder consent settings
+ */
+export async function resolveCandidateConsent(
+  candidate: JobAdderCandidate,
+  tenantId: number,
+  existing: Record<string, any> | null | undefined,
+  config?: JobAdderConsentConfig | null,
+): Promise<ConsentDecision> {
+  let decision: ConsentDecision
+
+  try {
+    const fieldName = config?.customField?.trim()
+    decision = resolveConsent({
+      candidate: existing,
+      applyForm: await findApplyFormConsent(tenantId, candidate.email),
+      atsField: fieldName ? { name: fieldName, value: candidate.customFields?.[fieldName] } : null,
+      atsStatus: config?.withdrawnStatuses?.length
+        ? {
+            status: candidate.status,
+            withdrawn: config.withdrawnStatuses.includes(candidate.status),
+          }
+        : null,
+      atsUpdatedAt: candidate.updatedAt,
+    })
+  } catch (error) {
+    logger.error(`[JobAdder] Error checking candidate consent`, {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      candidateId: candidate.id,
+    })
+    // Treat the candidate as refused if their consent can't be checked
+    decision = {
+      status: 'refused',
+      source: 'none',
+      reason: `Consent could not be checked: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    }
+  }
+
+  await logCandidateDataAccess(candidate.id, 'consent_check', {
+    tenantId,
+    reason: `${decision.status} (${decision.source}): ${decision.reason}`,
+  })
+  return decision
+}
+
+/**
+ * Record a refusal on our candidate, when the person already exists in the tenant
+ * Candidates who refused are skipped by syncs, so without this they'd keep the consent they had.
+ * @param existing Our candidate for the record, if the person already exists in the tenant
+ */
+export async function withdrawCandidateConsent(
+  existing: Record<string, any> | null | undefined,
+  tenantId: number,
+  decision: ConsentDecision,
+): Promise<void> {
+  if (!existing || existing.dataUsageConsent === false) {
+    return
+  }
+
+  await payload.update({
+    collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+    id: existing.id,
+    data: {
+      dataUsageConsent: false,
+    },
+  })
+
+  logger.info(`[JobAdder] Withdrew consent on candidate ${existing.id}`, {
+    tenantId,
+    source: decision.source,
+    reason: decision.reason,
+  })
+}
+
+/**
+ * Queue a candidate for AI enrichment
+ */
+export async function queueCandidateForEnrichment(
+  payloadCandidateId: string,
+  jobAdderCandidateId: string,
+  tenantId: number,
+): Promise<void> {
+  try {
+    // In a real implementation, this would add the candidate to a queue for processing
+    // For now, we'll just log that it would be queued
+    logger.info(`[JobAdder] Would queue candidate for AI enrichment`, {
+      payloadCandidateId,
+      jobAdderCandidateId,
+      tenantId,
+    })
+
+    // Insert a record in the analytics database to track the enrichment request
+    await analyticsPool.query(
+      `
+      INSERT INTO candidate_enrichment_queue
+      (candidate_id, source_id, tenant_id, status, created_at)
+      VALUES ($1, $2, $3, 'pending', NOW())
+      ON CONFLICT (candidate_id)
+      DO UPDATE SET
+        status = 'pending',
+        updated_at = NOW()
+      `,
+      [payloadCandidateId, jobAdderCandidateId, tenantId],
+    )
+  } catch (error) {
+    logger.error(`[JobAdder] Error queueing candidate for AI enrichment`, {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      payloadCandidateId,
+      jobAdderCandidateId,
+    })
+    // Don't throw the error, just log it
+  }
+}
+
+/**
+ * Log candidate data access for compliance
+ * @param access.userId Who accessed the data, `system` for syncs
+ * @param access.reason Why the data was accessed, or how a consent check was decided
+ */
+export async function logCandidateDataAccess(
+  candidateId: string,
+  accessType: string,
+  access: { tenantId: number; userId?: string; reason?: string },
+): Promise<void> {
+  const { tenantId, userId = 'system', reason } = access
+
+  try {
+    logger.debug(`[JobAdder] Logging candidate data access`, {
+      candidateId,
+      accessType,
+      userId,
+      reason,
+    })
+
+    // Insert a record in the analytics database to track the data access
+    await analyticsPool.query(
+      `
+      INSERT INTO candidate_data_access_log
+      (candidate_id, access_type, access_reason, user_id, tenant_id, access_time, ip_address)
+      VALUES ($1, $2, $3, $4, $5, NOW(), $6)
+      `,
+      [candidateId, accessType, reason || null, userId, tenantId, '127.0.0.1'], // IP would be captured in a real implementation
+    )
+  } catch (error) {
+    logger.error(`[JobAdder] Error logging candidate data access`, {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      candidateId,
+      accessType,
+      userId,
+    })
+    // Don't throw the error, just log it
+  }
+}
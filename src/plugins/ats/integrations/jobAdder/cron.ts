@@ -1,92 +1,93 @@
 import payload from 'payload'
-import axios from 'axios'
 import { getAccessToken } from './oauth'
 import { JobAdderClient } from './client'
 import { syncJobs, syncCandidates } from './sync'
-
-// Define Job interface for TypeScript
-interface Job {
-  title: string
-  description: any[]
-  location: string
-  type: string
-  salary: {
-    min?: number
-    max?: number
-    currency: string
-  }
-  status: string
-  tenant: string | number
-  atsData: {
-    jobAdderId?: string
-    [key: string]: any
-  }
-  [key: string]: any
-}
-
-interface JobAdderResponse {
-  data: any[]
-  pagination: {
-    total: number
-    count: number
-    limit: number
-    offset: number
-  }
-}
+import { JobSyncStats, CandidateSyncStats } from './types'
+import { SyncRunTrigger } from '../../syncRuns'
+import { SyncPreview } from '../../syncDiff'
 
 /**
- * Maps a JobAdder job to our platform's job format
- * @param jobAdderJob The job from JobAdder
- * @param tenantId The tenant ID
- * @returns Mapped job data
+ * Sync a tenant's JobAdder jobs, paging through every result.
+ *
+ * Incremental runs only request jobs changed since the tenant's last successful
+ * sync (`atsConfig.jobAdder.lastJobSync`). The watermark is only advanced when a
+ * run completes without item errors, so failed jobs are retried on the next run.
+ * Full runs also close or archive jobs that are no longer active in JobAdder,
+ * according to the tenant's `removedJobPolicy`.
+ * @param tenantId Tenant ID
+ * @param options.fullResync Ignore the watermark and fetch every job
+ * @param options.trigger What started the run, recorded in the sync run ledger
+ * @param options.dryRun Report what would change in `stats.diff` without writing anything
  */
-function mapJobAdderToJob(jobAdderJob: any, tenantId: string): Partial<Job> {
-  // Extract salary information
-  const salaryMin = jobAdderJob.salary?.minimum
-  const salaryMax = jobAdderJob.salary?.maximum
-  const salaryCurrency = jobAdderJob.salary?.currency || 'AUD'
-
-  // Map employment type
-  const employmentTypeMap: Record<string, string> = {
-    FullTime: 'full-time',
-    PartTime: 'part-time',
-    Contract: 'contract',
-    Temporary: 'temporary',
-    Casual: 'temporary',
-  }
+export async function syncTenantJobs(
+  tenantId: string,
+  options: { fullResync?: boolean; trigger?: SyncRunTrigger; dryRun?: boolean } = {},
+): Promise<JobSyncStats> {
+  const { fullResync = false, trigger = 'manual', dryRun = false } = options
+
+  const tenant = await payload.findByID({
+    collection: 'tenants',
+    id: tenantId,
+  })
+
+  const accessToken = await getAccessToken(tenantId)
 
-  // Map job status
-  const statusMap: Record<string, string> = {
-    Open: 'published',
-    Filled: 'closed',
-    Cancelled: 'closed',
-    OnHold: 'draft',
+  if (!accessToken) {
+    throw new Error('No access token available')
   }
 
-  // Create rich text description from JobAdder HTML
-  const description = jobAdderJob.description || ''
+  // Create JobAdder client
+  const client = new JobAdderClient({
+    clientId: '', // Not needed for token-based operations
+    clientSecret: '', // Not needed for token-based operations
+    accessToken,
+    refreshToken: '', // Not needed for this operation
+    tenantId,
+  })
+
+  // Capture the watermark before fetching so changes made during the run are
+  // picked up by the next one
+  const runStartedAt = new Date().toISOString()
+  const updatedSince = fullResync
+    ? undefined
+    : tenant?.atsConfig?.jobAdder?.lastJobSync || undefined
+
+  console.log(
+    `Starting ${updatedSince ? 'incremental' : 'full'} JobAdder job sync${dryRun ? ' dry run' : ''} for tenant ${tenantId}`,
+    { updatedSince },
+  )
+
+  const stats = await syncJobs(client, Number(tenantId), {
+    updatedSince,
+    removedJobPolicy: tenant?.atsConfig?.jobAdder?.removedJobPolicy || 'close',
+    trigger,
+    fieldMapping: tenant?.atsConfig?.jobAdder?.fieldMapping?.jobs,
+    dryRun,
+  })
+
+  if (dryRun) {
+    return stats
+  }
 
-  return {
-    title: jobAdderJob.title,
-    description: [
-      {
-        type: 'paragraph',
-        children: [{ text: description }],
+  if (stats.errors === 0) {
+    await payload.update({
+      collection: 'tenants',
+      id: tenantId,
+      data: {
+        atsConfig: {
+          jobAdder: {
+            lastJobSync: runStartedAt,
+          },
+        },
       },
-    ],
-    location: jobAdderJob.location?.name || '',
-    type: employmentTypeMap[jobAdderJob.employmentType] || 'full-time',
-    salary: {
-      min: salaryMin,
-      max: salaryMax,
-      currency: salaryCurrency,
-    },
-    status: statusMap[jobAdderJob.status] || 'draft',
-    tenant: tenantId,
-    atsData: {
-      jobAdderId: jobAdderJob.id,
-    },
+    })
+  } else {
+    console.warn(
+      `JobAdder job sync for tenant ${tenantId} had ${stats.errors} errors, watermark not advanced`,
+    )
   }
+
+  return stats
 }
 
 /**
@@ -95,55 +96,11 @@ function mapJobAdderToJob(jobAdderJob: any, tenantId: string): Partial<Job> {
  */
 export async function initialJobSync(tenantId: string): Promise<void> {
   try {
-    // Get access token
-    const accessToken = await getAccessToken(tenantId)
-
-    if (!accessToken) {
-      throw new Error('No access token available')
-    }
-
     console.log(`Starting initial JobAdder sync for tenant ${tenantId}`)
 
-    // Get all active jobs from JobAdder
-    const jobsResponse = await axios.get<JobAdderResponse>('https://api.jobadder.com/v2/jobs', {
-      headers: { Authorization: `Bearer ${accessToken}` },
-      params: { status: 'Open', limit: 100 },
-    })
-
-    const jobAdderJobs = jobsResponse.data.data || []
+    const stats = await syncTenantJobs(tenantId, { fullResync: true, trigger: 'initial' })
 
-    // Process each job
-    for (const jobAdderJob of jobAdderJobs) {
-      const mappedJob = mapJobAdderToJob(jobAdderJob, tenantId)
-
-      // Check if job already exists
-      const existingJobs = await payload.find({
-        collection: 'jobs',
-        where: {
-          'atsData.jobAdderId': { equals: jobAdderJob.id },
-          tenant: { equals: tenantId },
-        },
-      })
-
-      if (existingJobs.docs.length > 0) {
-        // Update existing job
-        await payload.update({
-          collection: 'jobs',
-          id: existingJobs.docs[0].id,
-          data: mappedJob as any,
-        })
-        console.log(`Updated job ${existingJobs.docs[0].id} during initial sync`)
-      } else {
-        // Create new job
-        const newJob = await payload.create({
-          collection: 'jobs',
-          data: mappedJob as any,
-        })
-        console.log(`Created new job ${newJob.id} during initial sync`)
-      }
-    }
-
-    console.log(`Completed initial JobAdder sync for tenant ${tenantId}`)
+    console.log(`Completed initial JobAdder sync for tenant ${tenantId}`, { stats })
   } catch (error) {
     console.error('JobAdder initial sync error:', error)
     throw error
@@ -152,10 +109,11 @@ export async function initialJobSync(tenantId: string): Promise<void> {
 
 /**
  * Scheduled job sync (runs periodically)
+ * @param options.fullResync Ignore tenant watermarks and fetch every job
  */
-export async function scheduledJobSync(): Promise<void> {
+export async function scheduledJobSync(options: { fullResync?: boolean } = {}): Promise<void> {
   try {
-    console.log('Starting scheduled JobAdder sync')
+    console.log('Starting scheduled JobAdder sync', options)
 
     // Get all tenants with JobAdder integration enabled
     const tenants = await payload.find({
@@ -168,59 +126,8 @@ export async function scheduledJobSync(): Promise<void> {
     // Process each tenant
     for (const tenant of tenants.docs) {
       try {
-        // Get access token
-        const accessToken = await getAccessToken(String(tenant.id))
-
-        if (!accessToken) {
-          console.error(`No access token for tenant ${tenant.id}`)
-          continue
-        }
-
-        // Get jobs updated in the last day
-        const yesterday = new Date()
-        yesterday.setDate(yesterday.getDate() - 1)
-
-        const jobsResponse = await axios.get<JobAdderResponse>('https://api.jobadder.com/v2/jobs', {
-          headers: { Authorization: `Bearer ${accessToken}` },
-          params: {
-            updatedAfter: yesterday.toISOString(),
-            limit: 100,
-          },
-        })
-
-        const jobAdderJobs = jobsResponse.data.data || []
-        console.log(`Found ${jobAdderJobs.length} updated jobs for tenant ${tenant.id}`)
-
-        // Process each job
-        for (const jobAdderJob of jobAdderJobs) {
-          const mappedJob = mapJobAdderToJob(jobAdderJob, String(tenant.id))
-
-          // Check if job already exists
-          const existingJobs = await payload.find({
-            collection: 'jobs',
-            where: {
-              'atsData.jobAdderId': { equals: jobAdderJob.id },
-              tenant: { equals: tenant.id },
-            },
-          })
-
-          if (existingJobs.docs.length > 0) {
-            // Update existing job
-            await payload.update({
-              collection: 'jobs',
-              id: existingJobs.docs[0].id,
-              data: mappedJob as any,
-            })
-            console.log(`Updated job ${existingJobs.docs[0].id} during scheduled sync`)
-          } else {
-            // Create new job
-            const newJob = await payload.create({
-              collection: 'jobs',
-              data: mappedJob as any,
-            })
-            console.log(`Created new job ${newJob.id} during scheduled sync`)
-          }
-        }
+        const stats = await syncTenantJobs(String(tenant.id), { ...options, trigger: 'scheduled' })
+        console.log(`Completed job sync for tenant ${tenant.id}`, { stats })
       } catch (tenantError) {
         console.error(`Error syncing jobs for tenant ${tenant.id}:`, tenantError)
         // Continue with next tenant
@@ -234,6 +141,18 @@ export async function scheduledJobSync(): Promise<void> {
   }
 }
 
+// Tenant's candidate mapping rules and consent settings
+async function getCandidateSyncSettings(tenantId: string) {
+  const tenant = await payload.findByID({
+    collection: 'tenants',
+    id: tenantId,
+  })
+  return {
+    fieldMapping: tenant?.atsConfig?.jobAdder?.fieldMapping?.candidates,
+    consent: tenant?.atsConfig?.jobAdder?.consent,
+  }
+}
+
 /**
  * Run initial candidate sync after OAuth connection
  * @param tenantId Tenant ID
@@ -255,12 +174,15 @@ export async function initialCandidateSync(tenantId: string): Promise<void> {
       clientSecret: '', // Not needed for token-based operations
       accessToken,
       refreshToken: '', // Not needed for this operation
+      tenantId,
     })
 
     // Sync candidates
     const stats = await syncCandidates(client, Number(tenantId), {
       limit: 100, // Limit initial sync to 100 candidates
       enrichmentEnabled: true,
+      trigger: 'initial',
+      ...(await getCandidateSyncSettings(tenantId)),
     })
 
     console.log(`Completed initial JobAdder candidate sync for tenant ${tenantId}`, { stats })
@@ -270,6 +192,72 @@ export async function initialCandidateSync(tenantId: string): Promise<void> {
   }
 }
 
+/**
+ * Sync a tenant's JobAdder candidates
+ * Incremental runs fetch candidates updated in the last day.
+ * @param tenantId Tenant ID
+ * @param options.fullResync Fetch every candidate
+ * @param options.trigger What started the run, recorded in the sync run ledger
+ * @param options.dryRun Report what would change in `stats.diff` without writing anything
+ */
+export async function syncTenantCandidates(
+  tenantId: string,
+  options: { fullResync?: boolean; trigger?: SyncRunTrigger; dryRun?: boolean } = {},
+): Promise<CandidateSyncStats> {
+  const { fullResync = false, trigger = 'manual', dryRun = false } = options
+
+  // Get access token
+  const accessToken = await getAccessToken(tenantId)
+
+  if (!accessToken) {
+    throw new Error('No access token available')
+  }
+
+  // Create JobAdder client
+  const client = new JobAdderClient({
+    clientId: '', // Not needed for token-based operations
+    clientSecret: '', // Not needed for token-based operations
+    accessToken,
+    refreshToken: '', // Not needed for this operation
+    tenantId,
+  })
+
+  // Get candidates updated in the last day
+  const yesterday = new Date()
+  yesterday.setDate(yesterday.getDate() - 1)
+
+  return syncCandidates(client, Number(tenantId), {
+    updatedSince: fullResync ? undefined : yesterday.toISOString(),
+    enrichmentEnabled: true,
+    trigger,
+    ...(await getCandidateSyncSettings(tenantId)),
+    dryRun,
+  })
+}
+
+/**
+ * Dry run a tenant's sync, for admins to check before connecting a tenant or after
+ * changing its field mapping
+ * @param options.fullResync Preview a full sync rather than changes since the last one
+ * @param options.candidates Also preview the candidate sync
+ */
+export async function previewTenantSync(
+  tenantId: string,
+  options: { fullResync?: boolean; candidates?: boolean } = {},
+): Promise<SyncPreview> {
+  const { fullResync = false, candidates = false } = options
+
+  const jobStats = await syncTenantJobs(tenantId, { fullResync, dryRun: true })
+  const candidateStats = candidates
+    ? await syncTenantCandidates(tenantId, { fullResync, dryRun: true })
+    : undefined
+
+  return {
+    jobs: jobStats.diff!,
+    candidates: candidateStats?.diff,
+  }
+}
+
 /**
  * Scheduled candidate sync (runs periodically)
  */
@@ -288,31 +276,7 @@ export async function scheduledCandidateSync(): Promise<void> {
     // Process each tenant
     for (const tenant of tenants.docs) {
       try {
-        // Get access token
-        const accessToken = await getAccessToken(String(tenant.id))
-
-        if (!accessToken) {
-          console.error(`No access token for tenant ${tenant.id}`)
-          continue
-        }
-
-        // Create JobAdder client
-        const client = new JobAdderClient({
-          clientId: '', // Not needed for token-based operations
-          clientSecret: '', // Not needed for token-based operations
-          accessToken,
-          refreshToken: '', // Not needed for this operation
-        })
-
-        // Get candidates updated in the last day
-        const yesterday = new Date()
-        yesterday.setDate(yesterday.getDate() - 1)
-
-        // Sync candidates with updatedSince filter
-        const stats = await syncCandidates(client, Number(tenant.id), {
-          updatedSince: yesterday.toISOString(),
-          enrichmentEnabled: true,
-        })
+        const stats = await syncTenantCandidates(String(tenant.id), { trigger: 'scheduled' })
 
         console.log(`Completed candidate sync for tenant ${tenant.id}`, { stats })
       } catch (tenantError) {
@@ -0,0 +1,331 @@
+import crypto from 'crypto'
+import payload from 'payload'
+import { jobAdderLogger as logger } from '@/lib/logger'
+import { Tenant } from '../../../../payload-types'
+import { JobAdderClient } from './client'
+import { getAccessToken } from './oauth'
+import { getRetryDelay } from './inbox'
+import { MAX_WRITE_BACK_ATTEMPTS } from './applications'
+
+export type EnrichmentWriteBackStatus = 'pending' | 'retrying' | 'synced' | 'failed'
+
+export interface EnrichmentWriteBack {
+  status?: EnrichmentWriteBackStatus | null
+  attempts?: number | null
+  nextAttemptAt?: string | null
+  // Fingerprints of the summary last written back and last added as a note
+  syncedHash?: string | null
+  noteHash?: string | null
+  noteId?: string | null
+  syncedAt?: string | null
+  error?: string | null
+}
+
+// The parts of a candidate the write-back needs
+export interface EnrichedCandidate {
+  id: string | number
+  tenant: string | number | { id: string | number }
+  overallScore?: number | null
+  tier?: string | null
+  strengths?: { strength?: string | null }[] | null
+  aiEnrichment?: { extractedSkills?: { skill?: string | null }[] | null } | null
+  atsData?: { jobAdder?: { id?: string } | null } | null
+  atsEnrichmentWriteBack?: EnrichmentWriteBack | null
+}
+
+// What is written back to the JobAdder candidate
+export interface EnrichmentSummary {
+  overallScore: number
+  tier: string | null
+  topSkills: string[]
+  strengths: string[]
+  profileUrl: string
+}
+
+type EnrichmentWriteBackSettings = NonNullable<
+  NonNullable<NonNullable<Tenant['atsConfig']>['jobAdder']>['enrichmentWriteBack']
+>
+
+// Skills and strengths included in the summary
+const TOP_SKILLS = 5
+const TOP_STRENGTHS = 3
+
+/**
+ * Minimum time between writing a candidate's summary back, so a talent score and the
+ * benchmark evaluations that follow it reach JobAdder as one update
+ * @returns Interval in milliseconds
+ */
+export function getWriteBackInterval(): number {
+  const minutes = Number(process.env.JOBADDER_ENRICHMENT_WRITE_BACK_INTERVAL_MINUTES)
+  return (Number.isFinite(minutes) && minutes >= 0 ? minutes : 15) * 60 * 1000
+}
+
+/**
+ * Summarise a candidate's enrichment results for recruiters
+ */
+export function buildEnrichmentSummary(candidate: EnrichedCandidate): EnrichmentSummary {
+  const serverUrl = process.env.NEXT_PUBLIC_SERVER_URL || 'http://localhost:3000'
+
+  return {
+    overallScore: Math.round(candidate.overallScore || 0),
+    tier: candidate.tier || null,
+    topSkills: (candidate.aiEnrichment?.extractedSkills || [])
+      .map((row) => row.skill)
+      .filter((skill): skill is string => Boolean(skill))
+      .slice(0, TOP_SKILLS),
+    strengths: (candidate.strengths || [])
+      .map((row) => row.strength)
+      .filter((strength): strength is string => Boolean(strength))
+      .slice(0, TOP_STRENGTHS),
+    profileUrl: `${serverUrl}/admin/collections/candidates/${candidate.id}`,
+  }
+}
+
+/**
+ * Text of the note added to the JobAdder candidate
+ */
+export function formatEnrichmentNote(summary: EnrichmentSummary): string {
+  return [
+    'Talent summary',
+    `Overall score: ${summary.overallScore}/100`,
+    summary.tier && `Tier: ${summary.tier}`,
+    summary.topSkills.length > 0 && `Top skills: ${summary.topSkills.join(', ')}`,
+    summary.strengths.length > 0 && `Strengths: ${summary.strengths.join(', ')}`,
+    `Full profile: ${summary.profileUrl}`,
+  ]
+    .filter(Boolean)
+    .join('\n')
+}
+
+/**
+ * Fingerprint of a summary, so one that was already written back isn't sent again
+ */
+export function hashEnrichmentSummary(summary: EnrichmentSummary): string {
+  return crypto.createHash('sha256').update(JSON.stringify(summary)).digest('hex')
+}
+
+/**
+ * Queue a candidate's enrichment summary to be written back to JobAdder
+ * A write-back already queued is left as it is; it sends the latest summary when it runs.
+ * @param tenant Tenant the candidate belongs to
+ * @returns Whether a write-back is queued
+ */
+export async function queueEnrichmentWriteBack(
+  candidate: EnrichedCandidate,
+  tenant: Tenant,
+  now: number = Date.now(),
+): Promise<boolean> {
+  if (!tenant.atsConfig?.jobAdder?.enrichmentWriteBack?.enabled) {
+    return false
+  }
+
+  // Only candidates linked to a JobAdder record can be written back
+  if (!candidate.atsData?.jobAdder?.id || candidate.overallScore == null) {
+    return false
+  }
+
+  const current = candidate.atsEnrichmentWriteBack
+  if (current?.status === 'pending' || current?.status === 'retrying') {
+    return true
+  }
+
+  const lastSyncedAt = current?.syncedAt ? Date.parse(current.syncedAt) : 0
+  await updateEnrichmentWriteBack(candidate, {
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: new Date(Math.max(now, lastSyncedAt + getWriteBackInterval())).toISOString(),
+    error: null,
+  })
+  return true
+}
+
+/**
+ * Writes a candidate's enrichment summary back to JobAdder
+ * Updates the tenant's mapped custom fields and adds the summary as a note. Summaries that
+ * were already written back are skipped, and the note is only added once per summary.
+ * @param candidate Candidate queued for write-back
+ * @returns The write-back status after this attempt
+ */
+export async function writeBackEnrichment(
+  candidate: EnrichedCandidate,
+): Promise<'synced' | 'retrying' | 'failed'> {
+  const jobAdderCandidateId = candidate.atsData?.jobAdder?.id
+  const tenantId = String(
+    typeof candidate.tenant === 'object' ? candidate.tenant.id : candidate.tenant,
+  )
+
+  // Nothing to write back to, so don't retry
+  if (!jobAdderCandidateId) {
+    await updateEnrichmentWriteBack(candidate, {
+      status: 'failed',
+      nextAttemptAt: null,
+      error: 'Candidate is not linked to a JobAdder candidate',
+    })
+    return 'failed'
+  }
+
+  const attempts = (candidate.atsEnrichmentWriteBack?.attempts || 0) + 1
+  await updateEnrichmentWriteBack(candidate, { attempts })
+
+  try {
+    const tenant = (await payload.findByID({
+      collection: 'tenants',
+      id: tenantId,
+    })) as unknown as Tenant
+    const settings = tenant?.atsConfig?.jobAdder?.enrichmentWriteBack
+
+    if (!settings?.enabled) {
+      await updateEnrichmentWriteBack(candidate, {
+        status: 'failed',
+        nextAttemptAt: null,
+        error: 'Enrichment write-back is turned off for this tenant',
+      })
+      return 'failed'
+    }
+
+    const summary = buildEnrichmentSummary(candidate)
+    const hash = hashEnrichmentSummary(summary)
+
+    if (hash !== candidate.atsEnrichmentWriteBack?.syncedHash) {
+      const accessToken = await getAccessToken(tenantId)
+
+      if (!accessToken) {
+        throw new Error('Unable to authenticate with JobAdder')
+      }
+
+      const client = new JobAdderClient({
+        clientId: '', // Not needed for token-based operations
+        clientSecret: '', // Not needed for token-based operations
+        accessToken,
+        refreshToken: '', // Not needed for this operation
+        tenantId,
+      })
+
+      // Custom fields are overwritten, so repeating them on a retry is harmless
+      const fields = getCustomFieldValues(settings, summary)
+      if (fields.length > 0) {
+        await client.updateCandidateCustomFields(jobAdderCandidateId, fields)
+      }
+
+      if (settings.addNote !== false && candidate.atsEnrichmentWriteBack?.noteHash !== hash) {
+        const note = await client.addCandidateNote(jobAdderCandidateId, {
+          type: settings.noteType || 'General',
+          text: formatEnrichmentNote(summary),
+        })
+        await updateEnrichmentWriteBack(candidate, { noteHash: hash, noteId: note.noteId })
+      }
+
+      logger.info('Wrote enrichment summary back to JobAdder', {
+        candidateId: candidate.id,
+        jobAdderCandidateId,
+        fields: fields.length,
+      })
+    }
+
+    await updateEnrichmentWriteBack(candidate, {
+      status: 'synced',
+      syncedHash: hash,
+      syncedAt: new Date().toISOString(),
+      nextAttemptAt: null,
+      error: null,
+    })
+    return 'synced'
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    const status = attempts >= MAX_WRITE_BACK_ATTEMPTS ? 'failed' : 'retrying'
+
+    await updateEnrichmentWriteBack(candidate, {
+      status,
+      nextAttemptAt:
+        status === 'retrying' ? new Date(Date.now() + getRetryDelay(attempts)).toISOString() : null,
+      error: message,
+    })
+
+    logger.error('Error writing enrichment summary back to JobAdder', {
+      candidateId: candidate.id,
+      attempts,
+      status,
+      error: message,
+    })
+    return status
+  }
+}
+
+/**
+ * Writes back queued enrichment summaries that are due, one at a time
+ * Called by the ATS worker on a schedule.
+ * @param options.limit Maximum number of summaries to write back in this run
+ * @returns Counts of candidates by their write-back status after this run
+ */
+export async function processEnrichmentWriteBacks(
+  options: { limit?: number } = {},
+): Promise<{ synced: number; retrying: number; failed: number }> {
+  const { limit = 25 } = options
+  const stats = { synced: 0, retrying: 0, failed: 0 }
+
+  const candidates = await payload.find({
+    collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+    where: {
+      'atsEnrichmentWriteBack.status': { in: ['pending', 'retrying'] },
+      'atsEnrichmentWriteBack.nextAttemptAt': { less_than_equal: new Date().toISOString() },
+    },
+    sort: 'atsEnrichmentWriteBack.nextAttemptAt',
+    limit,
+    depth: 0,
+  })
+
+  for (const candidate of candidates.docs as unknown as EnrichedCandidate[]) {
+    const status = await writeBackEnrichment(candidate)
+    stats[status]++
+  }
+
+  if (candidates.docs.length > 0) {
+    logger.info('Processed enrichment write-backs', { ...stats })
+  }
+
+  return stats
+}
+
+// Values for the custom fields the tenant mapped
+function getCustomFieldValues(
+  settings: EnrichmentWriteBackSettings,
+  summary: EnrichmentSummary,
+): { fieldId: number; value: unknown }[] {
+  const fieldIds = settings.customFields || {}
+  const values: [number | null | undefined, unknown][] = [
+    [fieldIds.score, summary.overallScore],
+    [fieldIds.tier, summary.tier],
+    [fieldIds.topSkills, summary.topSkills.join(', ')],
+    [fieldIds.profileUrl, summary.profileUrl],
+  ]
+
+  return values
+    .filter((entry): entry is [number, unknown] => typeof entry[0] === 'number')
+    .map(([fieldId, value]) => ({ fieldId, value }))
+}
+
+/**
+ * Save write-back progress on the candidate
+ * Progress updates never throw: a lost update only means a step is repeated.
+ */
+async function updateEnrichmentWriteBack(
+  candidate: EnrichedCandidate,
+  data: Partial<EnrichmentWriteBack>,
+): Promise<void> {
+  const atsEnrichmentWriteBack = { ...candidate.atsEnrichmentWriteBack, ...data }
+
+  try {
+    await payload.update({
+      collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+      id: candidate.id,
+      data: { atsEnrichmentWriteBack } as any,
+    })
+    candidate.atsEnrichmentWriteBack = atsEnrichmentWriteBack
+  } catch (error) {
+    logger.error('Failed to save enrichment write-back progress', {
+      candidateId: candidate.id,
+      data,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+}
@@ -0,0 +1,297 @@
+import payload from 'payload'
+import crypto from 'crypto'
+import { webhookLogger as logger } from '@/lib/logger'
+import { AtsProviderSlug } from '../../types'
+
+export type WebhookDeliveryStatus =
+  'received' | 'processing' | 'processed' | 'retrying' | 'dead_letter' | 'rejected'
+
+export interface WebhookDelivery {
+  id: string | number
+  deliveryId: string
+  provider: AtsProviderSlug
+  event?: string
+  tenantId?: string
+  signatureValid: boolean
+  status: WebhookDeliveryStatus
+  attempts: number
+  duplicateCount: number
+  receivedAt: string
+  nextAttemptAt?: string | null
+  processedAt?: string
+  error?: string
+  payload: unknown
+}
+
+// Deliveries in these states are queued again when the sender redelivers them
+const RETRYABLE_STATUSES: WebhookDeliveryStatus[] = ['dead_letter', 'rejected']
+
+// Attempts before a delivery is moved to the dead-letter state
+export const MAX_DELIVERY_ATTEMPTS = 8
+
+// Backoff between attempts: 30s, 1m, 2m, 4m... capped at 1 hour
+const RETRY_BASE_DELAY_MS = 30 * 1000
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000
+
+// How long a worker may hold a delivery before another worker picks it up again
+const PROCESSING_LEASE_MS = 5 * 60 * 1000
+
+/**
+ * Get the delay before the next attempt at a delivery
+ * @param attempts Number of attempts made so far
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS)
+}
+
+/**
+ * Get the delivery ID for a webhook request
+ * JobAdder sends one per delivery attempt series; when it is missing we fall back
+ * to a hash of the payload so identical redeliveries are still detected.
+ * @param headers Request headers
+ * @param body Parsed request body
+ * @returns Delivery ID
+ */
+export function getDeliveryId(
+  headers: Record<string, string | string[] | undefined>,
+  body: unknown,
+): string {
+  const header = headers['x-jobadder-delivery-id']
+  const deliveryId = Array.isArray(header) ? header[0] : header
+
+  if (deliveryId) {
+    return deliveryId
+  }
+
+  return `sha256:${crypto.createHash('sha256').update(JSON.stringify(body)).digest('hex')}`
+}
+
+/**
+ * Store a webhook delivery in the inbox
+ * Throws if the delivery cannot be stored so the sender retries it.
+ * @param provider ATS that sent the delivery, defaults to JobAdder
+ * @param event Event name, read from a JobAdder payload when not given
+ * @param tenantId Tenant the delivery is for, read from a JobAdder payload when not given
+ * @returns The stored delivery, and whether it had already been received
+ */
+export async function recordDelivery({
+  deliveryId,
+  body,
+  signatureValid,
+  provider = 'jobadder',
+  event,
+  tenantId,
+}: {
+  deliveryId: string
+  body: unknown
+  signatureValid: boolean
+  provider?: AtsProviderSlug
+  event?: string
+  tenantId?: string
+}): Promise<{ delivery: WebhookDelivery; duplicate: boolean }> {
+  const jobAdderBody = body as { event?: string; metadata?: { tenantId?: string } } | null
+  const deliveryEvent = event ?? jobAdderBody?.event
+  const deliveryTenantId =
+    tenantId ??
+    (jobAdderBody?.metadata?.tenantId ? String(jobAdderBody.metadata.tenantId) : undefined)
+
+  const existing = await payload.find({
+    collection: 'webhook-deliveries' as any, // Type assertion to bypass TypeScript check
+    where: {
+      provider: {
+        equals: provider,
+      },
+      deliveryId: {
+        equals: deliveryId,
+      },
+    },
+    limit: 1,
+  })
+
+  if (existing.docs.length > 0) {
+    const delivery = existing.docs[0] as unknown as WebhookDelivery
+
+    // Only a signed redelivery may queue a dead-lettered or rejected delivery again
+    if (!RETRYABLE_STATUSES.includes(delivery.status) || !signatureValid) {
+      await payload.update({
+        collection: 'webhook-deliveries' as any, // Type assertion to bypass TypeScript check
+        id: delivery.id,
+        data: { duplicateCount: (delivery.duplicateCount || 0) + 1 } as any,
+      })
+      return { delivery, duplicate: true }
+    }
+
+    // A dead-lettered or rejected delivery sent again is queued again with fresh attempts. The
+    // stored delivery may not have been signed, so it is replaced with the signed one.
+    const updated = await payload.update({
+      collection: 'webhook-deliveries' as any, // Type assertion to bypass TypeScript check
+      id: delivery.id,
+      data: {
+        event: deliveryEvent,
+        tenantId: deliveryTenantId,
+        payload: body,
+        signatureValid,
+        status: 'received',
+        attempts: 0,
+        nextAttemptAt: new Date().toISOString(),
+      } as any,
+    })
+    return { delivery: updated as unknown as WebhookDelivery, duplicate: false }
+  }
+
+  const receivedAt = new Date().toISOString()
+  const created = await payload.create({
+    collection: 'webhook-deliveries' as any, // Type assertion to bypass TypeScript check
+    data: {
+      deliveryId,
+      provider,
+      event: deliveryEvent,
+      tenantId: deliveryTenantId,
+      signatureValid,
+      status: signatureValid ? 'received' : 'rejected',
+      attempts: 0,
+      duplicateCount: 0,
+      receivedAt,
+      nextAttemptAt: signatureValid ? receivedAt : null,
+      payload: body,
+    } as any,
+  })
+
+  return { delivery: created as unknown as WebhookDelivery, duplicate: false }
+}
+
+/**
+ * Get a stored delivery by its document ID
+ */
+export async function getDelivery(id: string | number): Promise<WebhookDelivery | null> {
+  try {
+    const delivery = await payload.findByID({
+      collection: 'webhook-deliveries' as any, // Type assertion to bypass TypeScript check
+      id,
+    })
+    return (delivery as unknown as WebhookDelivery) || null
+  } catch (error) {
+    logger.warn('Webhook delivery not found', {
+      id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    return null
+  }
+}
+
+/**
+ * Get deliveries that are due to be processed, oldest first
+ * Includes deliveries whose processing lease expired, e.g. after a worker crashed.
+ * @param limit Maximum number of deliveries to return
+ * @param provider Only return deliveries from this ATS, defaults to JobAdder
+ */
+export async function getDueDeliveries(
+  limit: number,
+  provider: AtsProviderSlug = 'jobadder',
+): Promise<WebhookDelivery[]> {
+  const result = await payload.find({
+    collection: 'webhook-deliveries' as any, // Type assertion to bypass TypeScript check
+    where: {
+      provider: {
+        equals: provider,
+      },
+      status: {
+        in: ['received', 'retrying', 'processing'],
+      },
+      nextAttemptAt: {
+        less_than_equal: new Date().toISOString(),
+      },
+    },
+    sort: 'nextAttemptAt',
+    limit,
+  })
+
+  return result.docs as unknown as WebhookDelivery[]
+}
+
+export async function markDeliveryProcessing(delivery: WebhookDelivery): Promise<void> {
+  await updateDelivery(delivery, {
+    status: 'processing',
+    attempts: (delivery.attempts || 0) + 1,
+    nextAttemptAt: new Date(Date.now() + PROCESSING_LEASE_MS).toISOString(),
+  })
+}
+
+export async function markDeliveryProcessed(delivery: WebhookDelivery): Promise<void> {
+  await updateDelivery(delivery, {
+    status: 'processed',
+    processedAt: new Date().toISOString(),
+    nextAttemptAt: null,
+    error: null,
+  })
+}
+
+/**
+ * Schedule a failed delivery for another attempt, or dead-letter it once its
+ * attempts are used up
+ * @returns The delivery's new status
+ */
+export async function markDeliveryFailed(
+  delivery: WebhookDelivery,
+  error: unknown,
+): Promise<'retrying' | 'dead_letter'> {
+  const attempts = delivery.attempts || 0
+
+  if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+    await markDeliveryDeadLettered(delivery, error)
+    return 'dead_letter'
+  }
+
+  await updateDelivery(delivery, {
+    status: 'retrying',
+    nextAttemptAt: new Date(Date.now() + getRetryDelay(attempts)).toISOString(),
+    error: error instanceof Error ? error.message : String(error),
+  })
+  return 'retrying'
+}
+
+/**
+ * Move a delivery to the dead-letter state so it is no longer retried
+ */
+export async function markDeliveryDeadLettered(
+  delivery: WebhookDelivery,
+  error: unknown,
+): Promise<void> {
+  await updateDelivery(delivery, {
+    status: 'dead_letter',
+    nextAttemptAt: null,
+    error: error instanceof Error ? error.message : String(error),
+  })
+}
+
+/**
+ * Reset a delivery's attempts so it is retried with a fresh backoff schedule
+ */
+export async function resetDeliveryAttempts(delivery: WebhookDelivery): Promise<void> {
+  await updateDelivery(delivery, { attempts: 0 })
+}
+
+/**
+ * Update a delivery's processing state
+ * Status updates never throw: the outcome is already logged by the caller.
+ */
+async function updateDelivery(
+  delivery: WebhookDelivery,
+  data: Record<string, unknown>,
+): Promise<void> {
+  try {
+    await payload.update({
+      collection: 'webhook-deliveries' as any, // Type assertion to bypass TypeScript check
+      id: delivery.id,
+      data: data as any,
+    })
+    Object.assign(delivery, data)
+  } catch (error) {
+    logger.error('Failed to update webhook delivery', {
+      deliveryId: delivery.deliveryId,
+      data,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+}
@@ -1,10 +1,29 @@
 import { syncJobs, syncCandidates } from './sync'
-import { handleWebhook, registerWebhook } from './webhook'
 import {
+  handleWebhook,
+  registerWebhook,
+  rotateWebhookSecret,
+  unregisterWebhook,
+  processDelivery,
+  processWebhookQueue,
+  replayDelivery,
+} from './webhook'
+import { getDelivery } from './inbox'
+import { writeBackApplication, processApplicationWriteBacks } from './applications'
+import {
+  queueEnrichmentWriteBack,
+  writeBackEnrichment,
+  processEnrichmentWriteBacks,
+} from './enrichment'
+import { importScreeningQuestions } from './screening'
+import {
+  syncTenantJobs,
   scheduledJobSync,
   initialJobSync,
+  syncTenantCandidates,
   scheduledCandidateSync,
   initialCandidateSync,
+  previewTenantSync,
 } from './cron'
 import { jobAdderOAuth, getAccessToken } from './oauth'
 
@@ -16,15 +35,38 @@ export const jobAdderIntegration = {
   // Webhook handlers
   handleWebhook,
   registerWebhook,
+  rotateWebhookSecret,
+  unregisterWebhook,
+  processDelivery,
+  processWebhookQueue,
+  replayDelivery,
+  getDelivery,
+
+  // Application write-back
+  writeBackApplication,
+  processApplicationWriteBacks,
+
+  // Enrichment write-back
+  queueEnrichmentWriteBack,
+  writeBackEnrichment,
+  processEnrichmentWriteBacks,
+
+  // Screening questions
+  importScreeningQuestions,
 
   // Job sync scheduling
+  syncTenantJobs,
   scheduledJobSync,
   initialJobSync,
 
   // Candidate sync scheduling
+  syncTenantCandidates,
   scheduledCandidateSync,
   initialCandidateSync,
 
+  // Dry runs
+  previewTenantSync,
+
   // Authentication
   oauth: jobAdderOAuth,
   getAccessToken,
@@ -1,10 +1,42 @@
 import axios from 'axios'
 import payload from 'payload'
+import { jobAdderLogger as logger } from '@/lib/logger'
+import { decryptSecret } from '../../credentials'
+import { recordWebhookRegistration } from '../../webhookRegistrations'
 
 interface TokenResponse {
   access_token: string
   refresh_token: string
   expires_in: number
+  // Space separated scopes granted by the user
+  scope?: string
+}
+
+const JOBADDER_ID_URL = 'https://id.jobadder.com'
+
+/**
+ * Record why the last token refresh failed, shown on the connection status panel
+ */
+async function recordRefreshError(tenantId: string, error: unknown): Promise<void> {
+  try {
+    await payload.update({
+      collection: 'tenants',
+      id: tenantId,
+      data: {
+        atsConfig: {
+          jobAdder: {
+            lastRefreshError: error instanceof Error ? error.message : 'Unknown error',
+            lastRefreshErrorAt: new Date().toISOString(),
+          },
+        },
+      } as any,
+    })
+  } catch (updateError) {
+    logger.error('Error recording JobAdder token refresh failure', {
+      tenantId,
+      error: updateError instanceof Error ? updateError.message : 'Unknown error',
+    })
+  }
 }
 
 /**
@@ -13,10 +45,10 @@ interface TokenResponse {
 export const jobAdderOAuth = {
   /**
    * Generate authorization URL for JobAdder OAuth
-   * @param tenantId Tenant ID
+   * @param state Signed state identifying the tenant, see plugins/ats/oauthState.ts
    * @returns Authorization URL
    */
-  getAuthorizationUrl(tenantId: string): string {
+  getAuthorizationUrl(state: string): string {
     const redirectUri = `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000'}/api/oauth/jobadder/callback`
     const clientId = process.env.JOBADDER_CLIENT_ID
 
@@ -24,7 +56,7 @@ export const jobAdderOAuth = {
       throw new Error('JOBADDER_CLIENT_ID environment variable is not set')
     }
 
-    return `https://id.jobadder.com/connect/authorize?client_id=${clientId}&redirect_uri=${encodeURIComponent(redirectUri)}&response_type=code&scope=openid profile email jobs:read jobs:write&state=${tenantId}`
+    return `${JOBADDER_ID_URL}/connect/authorize?client_id=${clientId}&redirect_uri=${encodeURIComponent(redirectUri)}&response_type=code&scope=openid profile email jobs:read jobs:write&state=${encodeURIComponent(state)}`
   },
 
   /**
@@ -44,7 +76,7 @@ export const jobAdderOAuth = {
 
       // Exchange code for tokens
       const tokenResponse = await axios.post<TokenResponse>(
-        'https://id.jobadder.com/connect/token',
+        `${JOBADDER_ID_URL}/connect/token`,
         new URLSearchParams({
           grant_type: 'authorization_code',
           code,
@@ -59,7 +91,7 @@ export const jobAdderOAuth = {
         },
       )
 
-      const { access_token, refresh_token, expires_in } = tokenResponse.data
+      const { access_token, refresh_token, expires_in, scope } = tokenResponse.data
 
       // Store tokens securely in tenant record
       await payload.update({
@@ -71,14 +103,23 @@ export const jobAdderOAuth = {
               accessToken: access_token,
               refreshToken: refresh_token,
               tokenExpiry: new Date(Date.now() + expires_in * 1000).toISOString(),
+              scopes: scope || null,
+              lastRefreshError: null,
+              lastRefreshErrorAt: null,
             },
           },
-        },
+        } as any,
       })
 
       // Register webhook for this tenant
       const { registerWebhook } = await import('./webhook')
-      await registerWebhook(access_token, tenantId)
+      try {
+        await registerWebhook(access_token, tenantId)
+      } catch (error) {
+        await recordWebhookRegistration(tenantId, 'jobadder', error)
+        throw error
+      }
+      await recordWebhookRegistration(tenantId, 'jobadder')
 
       // Trigger initial job sync
       const { initialJobSync } = await import('./cron')
@@ -113,10 +154,10 @@ export const jobAdderOAuth = {
       }
 
       const tokenResponse = await axios.post<TokenResponse>(
-        'https://id.jobadder.com/connect/token',
+        `${JOBADDER_ID_URL}/connect/token`,
         new URLSearchParams({
           grant_type: 'refresh_token',
-          refresh_token: tenant.atsConfig.jobAdder.refreshToken,
+          refresh_token: decryptSecret(tenant.atsConfig.jobAdder.refreshToken),
           client_id: clientId,
           client_secret: clientSecret,
         }).toString(),
@@ -127,7 +168,7 @@ export const jobAdderOAuth = {
         },
       )
 
-      const { access_token, refresh_token, expires_in } = tokenResponse.data
+      const { access_token, refresh_token, expires_in, scope } = tokenResponse.data
 
       // Update stored tokens
       await payload.update({
@@ -139,17 +180,106 @@ export const jobAdderOAuth = {
               accessToken: access_token,
               refreshToken: refresh_token,
               tokenExpiry: new Date(Date.now() + expires_in * 1000).toISOString(),
+              ...(scope ? { scopes: scope } : {}),
+              lastRefreshError: null,
+              lastRefreshErrorAt: null,
             },
           },
-        },
+        } as any,
       })
 
       return access_token
     } catch (error) {
       console.error('Error refreshing JobAdder access token:', error)
+      await recordRefreshError(tenantId, error)
       throw error
     }
   },
+
+  /**
+   * Disconnect a tenant from JobAdder
+   * Unregisters the tenant's webhook, revokes its tokens and clears the connection from
+   * `atsConfig`. Settings such as field mapping are kept so the tenant can reconnect. Failures
+   * talking to JobAdder are logged rather than thrown so the local connection is always cleared.
+   * @param tenantId Tenant ID
+   */
+  async disconnect(tenantId: string): Promise<void> {
+    const tenant = await payload.findByID({
+      collection: 'tenants',
+      id: tenantId,
+    })
+
+    const accessToken = decryptSecret(tenant?.atsConfig?.jobAdder?.accessToken)
+    const refreshToken = decryptSecret(tenant?.atsConfig?.jobAdder?.refreshToken)
+
+    if (accessToken) {
+      try {
+        const { unregisterWebhook } = await import('./webhook')
+        await unregisterWebhook(accessToken, tenantId)
+      } catch (error) {
+        logger.warn('Could not unregister JobAdder webhook while disconnecting', {
+          tenantId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      }
+    }
+
+    const clientId = process.env.JOBADDER_CLIENT_ID
+    const clientSecret = process.env.JOBADDER_CLIENT_SECRET
+
+    for (const [token, hint] of [
+      [refreshToken, 'refresh_token'],
+      [accessToken, 'access_token'],
+    ] as const) {
+      if (!token || !clientId || !clientSecret) continue
+
+      try {
+        await axios.post(
+          `${JOBADDER_ID_URL}/connect/revocation`,
+          new URLSearchParams({
+            token,
+            token_type_hint: hint,
+            client_id: clientId,
+            client_secret: clientSecret,
+          }).toString(),
+          {
+            headers: {
+              'Content-Type': 'application/x-www-form-urlencoded',
+            },
+          },
+        )
+      } catch (error) {
+        logger.warn('Could not revoke JobAdder token while disconnecting', {
+          tenantId,
+          tokenType: hint,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      }
+    }
+
+    await payload.update({
+      collection: 'tenants',
+      id: tenantId,
+      data: {
+        atsConfig: {
+          jobAdder: {
+            accessToken: null,
+            refreshToken: null,
+            tokenExpiry: null,
+            scopes: null,
+            lastRefreshError: null,
+            lastRefreshErrorAt: null,
+            lastJobSync: null,
+            webhookSecret: null,
+            previousWebhookSecret: null,
+            previousWebhookSecretExpiresAt: null,
+          },
+        },
+      } as any,
+    })
+
+    logger.info('Disconnected JobAdder', { tenantId })
+  },
 }
 
 /**
@@ -175,7 +305,7 @@ export async function getAccessToken(tenantId: string): Promise<string | null> {
       return await jobAdderOAuth.refreshAccessToken(tenantId)
     }
 
-    return tenant.atsConfig.jobAdder.accessToken
+    return decryptSecret(tenant.atsConfig.jobAdder.accessToken)
   } catch (error) {
     console.error('Error getting JobAdder access token:', error)
     return null
@@ -0,0 +1,40 @@
+import { jobAdderLogger as logger } from '@/lib/logger'
+import { upsertPlacement } from '../../placements'
+import { AtsProviderSlug } from '../../types'
+import { transformPlacement } from './transform'
+import { JobAdderCandidatePlacement } from './types'
+
+/**
+ * Save a candidate's JobAdder placements to the placements collection
+ * A placement that fails to save is logged and skipped so the candidate itself is still
+ * synced.
+ * @param placements Placements fetched from JobAdder
+ * @param tenantId Tenant the placements belong to
+ * @param candidateId Our candidate the placements are for
+ * @param source Provider the placements came from, for providers serving JobAdder-shaped data
+ * @returns Number of placements saved
+ */
+export async function savePlacements(
+  placements: JobAdderCandidatePlacement[],
+  tenantId: number,
+  candidateId?: string | number,
+  source: AtsProviderSlug = 'jobadder',
+): Promise<number> {
+  let saved = 0
+
+  for (const placement of placements) {
+    try {
+      await upsertPlacement(transformPlacement(placement, tenantId, source), { candidateId })
+      saved++
+    } catch (error) {
+      logger.error(`[JobAdder] Error saving placement ${placement.id}`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        placementId: placement.id,
+        candidateId: placement.candidateId,
+        tenantId,
+      })
+    }
+  }
+
+  return saved
+}
@@ -0,0 +1,158 @@
+export interface RateLimiterOptions {
+  // Requests that can be made back to back before the bucket runs dry
+  burst: number
+  // Tokens added back to the bucket every second
+  perSecond: number
+  // Requests allowed in flight at once
+  maxConcurrent: number
+}
+
+export interface RateLimiterState {
+  queued: number
+  inFlight: number
+  availableTokens: number
+  // Set while the limiter is holding requests back after a 429
+  pausedUntil: string | null
+}
+
+interface Waiter {
+  resolve: (waitedMs: number) => void
+  queuedAt: number
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+export function getDefaultRateLimiterOptions(): RateLimiterOptions {
+  return {
+    burst: envNumber('JOBADDER_RATE_LIMIT_BURST', 10),
+    perSecond: envNumber('JOBADDER_RATE_LIMIT_PER_SECOND', 5),
+    maxConcurrent: envNumber('JOBADDER_MAX_CONCURRENT_REQUESTS', 4),
+  }
+}
+
+/**
+ * Token bucket with a concurrency cap
+ * Requests wait in order for both a token and a free slot, and every request waits while the
+ * limiter is paused after JobAdder answers with a 429.
+ */
+export class RateLimiter {
+  private options: RateLimiterOptions
+  private tokens: number
+  private lastRefill: number
+  private inFlight = 0
+  private pausedUntil = 0
+  private queue: Waiter[] = []
+  private timer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(options: RateLimiterOptions) {
+    this.options = options
+    this.tokens = options.burst
+    this.lastRefill = Date.now()
+  }
+
+  /**
+   * Wait for a token and a free slot
+   * Every acquire must be followed by a release once the request settles.
+   * @returns Milliseconds spent waiting
+   */
+  acquire(): Promise<number> {
+    return new Promise((resolve) => {
+      this.queue.push({ resolve, queuedAt: Date.now() })
+      this.drain()
+    })
+  }
+
+  release(): void {
+    this.inFlight = Math.max(0, this.inFlight - 1)
+    this.drain()
+  }
+
+  /**
+   * Hold back every request for a while, e.g. for a 429's Retry-After
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms)
+    // The bucket was evidently too full; start again from empty once the pause ends
+    this.tokens = 0
+    this.lastRefill = this.pausedUntil
+  }
+
+  /**
+   * Resolve once the limiter is no longer paused
+   */
+  async waitUntilResumed(): Promise<void> {
+    const remaining = this.pausedUntil - Date.now()
+    if (remaining > 0) {
+      await new Promise((resolve) => setTimeout(resolve, remaining))
+    }
+  }
+
+  getState(): RateLimiterState {
+    this.refill()
+    return {
+      queued: this.queue.length,
+      inFlight: this.inFlight,
+      availableTokens: Math.floor(this.tokens),
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : null,
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now()
+    if (now <= this.lastRefill) return
+
+    const refilled = ((now - this.lastRefill) / 1000) * this.options.perSecond
+    this.tokens = Math.min(this.options.burst, this.tokens + refilled)
+    this.lastRefill = now
+  }
+
+  private drain(): void {
+    if (this.timer) return
+
+    this.refill()
+    const now = Date.now()
+
+    while (
+      this.queue.length > 0 &&
+      this.inFlight < this.options.maxConcurrent &&
+      this.tokens >= 1 &&
+      now >= this.pausedUntil
+    ) {
+      const waiter = this.queue.shift() as Waiter
+      this.tokens -= 1
+      this.inFlight++
+      waiter.resolve(now - waiter.queuedAt)
+    }
+
+    // A full set of slots is freed by release; anything else needs time to pass
+    if (this.queue.length > 0 && this.inFlight < this.options.maxConcurrent) {
+      const delay = Math.max(
+        this.pausedUntil - now,
+        Math.ceil(((1 - this.tokens) / this.options.perSecond) * 1000),
+        1,
+      )
+      this.timer = setTimeout(() => {
+        this.timer = null
+        this.drain()
+      }, delay)
+    }
+  }
+}
+
+const limiters = new Map<string, RateLimiter>()
+
+/**
+ * Limiter shared by every client for a tenant, so concurrent syncs and webhook processing
+ * draw from the same budget
+ */
+export function getRateLimiter(key: string): RateLimiter {
+  let limiter = limiters.get(key)
+  if (!limiter) {
+    limiter = new RateLimiter(getDefaultRateLimiterOptions())
+    limiters.set(key, limiter)
+  }
+  return limiter
+}
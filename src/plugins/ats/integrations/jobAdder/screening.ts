@@ -0,0 +1,146 @@
+import payload from 'payload'
+import { jobAdderLogger as logger } from '@/lib/logger'
+import { Job } from '../../../../payload-types'
+import { ScreeningQuestionType } from '../../../../lib/screening'
+import { JobAdderClient } from './client'
+import { getAccessToken } from './oauth'
+import { JobAdderScreeningQuestion } from './types'
+import { SKIP_ATS_PUSH_CONTEXT } from '../../registry'
+
+/**
+ * Imports a JobAdder job's screening questions into the tenant's question bank
+ *
+ * Questions are matched on their JobAdder ID, so importing again updates the bank rather than
+ * adding the questions twice. Answers JobAdder disqualifies on become knockout options that
+ * flag the applicant; recruiters can make them reject instead. Knockout settings are only set
+ * when a question is first imported, so changes made in the admin are kept.
+ */
+
+const QUESTION_TYPES: Record<JobAdderScreeningQuestion['type'], ScreeningQuestionType> = {
+  YesNo: 'yes_no',
+  SingleChoice: 'single_choice',
+  MultipleChoice: 'multi_choice',
+  Number: 'number',
+  Text: 'text',
+  Attachment: 'file',
+}
+
+/**
+ * Question bank data for a JobAdder screening question
+ */
+export function transformScreeningQuestion(question: JobAdderScreeningQuestion) {
+  const type = QUESTION_TYPES[question.type] || 'text'
+  const answers = question.answers || []
+  const disqualifying = answers.filter((answer) => answer.disqualify)
+
+  return {
+    question: question.text,
+    type,
+    options:
+      type === 'single_choice' || type === 'multi_choice'
+        ? answers.map((answer) => ({ label: answer.text, knockout: Boolean(answer.disqualify) }))
+        : [],
+    knockout: {
+      enabled: disqualifying.length > 0,
+      action: 'flag',
+      yesNoAnswer:
+        type === 'yes_no' && disqualifying.length === 1
+          ? disqualifying[0].text.trim().toLowerCase() === 'yes'
+            ? 'yes'
+            : 'no'
+          : undefined,
+    },
+  }
+}
+
+/**
+ * Import a job's JobAdder screening questions and add them to the job
+ * The job's own questions are kept, followed by the imported ones in JobAdder's order.
+ * @param job A job synced from JobAdder
+ * @returns Number of questions imported
+ */
+export async function importScreeningQuestions(job: Job, tenantId: string): Promise<number> {
+  const jobAdderJobId = (job.atsData?.jobAdder as { id?: string } | null)?.id
+  if (!jobAdderJobId) {
+    throw new Error('Job is not linked to a JobAdder job')
+  }
+
+  const accessToken = await getAccessToken(tenantId)
+  if (!accessToken) {
+    throw new Error('Unable to authenticate with JobAdder')
+  }
+
+  const client = new JobAdderClient({
+    clientId: '', // Not needed for token-based operations
+    clientSecret: '', // Not needed for token-based operations
+    accessToken,
+    refreshToken: '', // Not needed for this operation
+    tenantId,
+  })
+
+  const questions = await client.getJobScreeningQuestions(jobAdderJobId)
+  const imported: { question: string | number; required: boolean }[] = []
+
+  for (const question of questions) {
+    const data = transformScreeningQuestion(question)
+    const existing = await payload.find({
+      collection: 'screening-questions' as any, // Type assertion to bypass TypeScript check
+      where: {
+        'atsData.source': { equals: 'jobadder' },
+        'atsData.sourceId': { equals: String(question.questionId) },
+        tenant: { equals: tenantId },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    const bankQuestion = existing.docs[0]
+      ? await payload.update({
+          collection: 'screening-questions' as any, // Type assertion to bypass TypeScript check
+          id: existing.docs[0].id,
+          data: {
+            question: data.question,
+            type: data.type,
+            options: data.options,
+          } as any,
+        })
+      : await payload.create({
+          collection: 'screening-questions' as any, // Type assertion to bypass TypeScript check
+          data: {
+            ...data,
+            tenant: tenantId,
+            atsData: { source: 'jobadder', sourceId: String(question.questionId) },
+          } as any,
+        })
+
+    imported.push({ question: bankQuestion.id, required: question.mandatory !== false })
+  }
+
+  const importedIds = new Set(imported.map(({ question }) => String(question)))
+  const ownRows = ((job as any).screeningQuestions || [])
+    .map((row: { question: unknown; required?: boolean | null }) => ({
+      question:
+        typeof row.question === 'object' && row.question
+          ? (row.question as { id: string | number }).id
+          : row.question,
+      required: row.required,
+    }))
+    .filter((row: { question: unknown }) => !importedIds.has(String(row.question)))
+
+  await payload.update({
+    collection: 'jobs',
+    id: job.id,
+    data: {
+      screeningQuestions: [...ownRows, ...imported],
+    } as any,
+    context: SKIP_ATS_PUSH_CONTEXT,
+  })
+
+  logger.info('Imported JobAdder screening questions', {
+    tenantId,
+    jobId: job.id,
+    jobAdderJobId,
+    count: imported.length,
+  })
+  return imported.length
+}
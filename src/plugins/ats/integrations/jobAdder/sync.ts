@@ -1,35 +1,88 @@
 import { logger } from '@/lib/logger'
-import { JobAdderClient } from './client'
+import { JobAdderReadClient } from './client'
 import { transformJob, transformCandidate } from './transform'
-import { SyncStats, CandidateSyncStats } from './types'
+import { savePlacements } from './placements'
+import {
+  JobSyncStats,
+  CandidateSyncStats,
+  RemovedJobPolicy,
+  JobAdderCandidatePlacement,
+} from './types'
 import payload from 'payload'
-import { Pool } from 'pg'
-
-// Create a PostgreSQL connection pool for analytics database
-const analyticsPool = new Pool({
-  connectionString: process.env.ANALYTICS_DATABASE_URI || process.env.DATABASE_URI || '',
-})
+import { SyncRunProvider, SyncRunRecorder, SyncRunTrigger } from '../../syncRuns'
+import { FieldMappingRule } from '../../fieldMapping'
+import { findTenantCandidate, mergeAtsData } from '../../candidateIdentity'
+import { SyncDiff, VOLATILE_SYNC_FIELDS, createSyncDiff, recordUpdate } from '../../syncDiff'
+import {
+  JobAdderConsentConfig,
+  logCandidateDataAccess,
+  queueCandidateForEnrichment,
+  resolveCandidateConsent,
+  withdrawCandidateConsent,
+} from './compliance'
 
 // ============================================================================
 // Job Synchronization
 // ============================================================================
 
-export async function syncJobs(client: JobAdderClient, tenantId: number): Promise<SyncStats> {
-  const stats: SyncStats = {
+/**
+ * Pull JobAdder jobs into the jobs collection
+ * @param options.dryRun Work out what the sync would change without writing anything;
+ * the changes are returned in `stats.diff`
+ */
+export async function syncJobs(
+  client: JobAdderReadClient,
+  tenantId: number,
+  options: {
+    updatedSince?: string
+    removedJobPolicy?: RemovedJobPolicy
+    trigger?: SyncRunTrigger
+    // Tenant's job mapping rules
+    fieldMapping?: FieldMappingRule[] | null
+    dryRun?: boolean
+    // Provider recorded in the sync run ledger, for providers serving JobAdder-shaped data
+    provider?: SyncRunProvider
+  } = {},
+): Promise<JobSyncStats> {
+  const stats: JobSyncStats = {
     total: 0,
     created: 0,
     updated: 0,
     deleted: 0,
     errors: 0,
+    closed: 0,
+    archived: 0,
   }
 
+  const {
+    updatedSince,
+    removedJobPolicy = 'close',
+    trigger,
+    fieldMapping,
+    dryRun,
+    provider = 'jobadder',
+  } = options
+
+  const runParams = {
+    tenantId,
+    provider,
+    type: 'jobs' as const,
+    mode: updatedSince ? ('incremental' as const) : ('full' as const),
+    trigger,
+    options: { updatedSince, removedJobPolicy },
+  }
+  // Dry runs are not recorded in the sync run ledger
+  const run = dryRun ? SyncRunRecorder.untracked(runParams) : await SyncRunRecorder.start(runParams)
+  const diff = dryRun ? createSyncDiff() : undefined
+
   try {
-    logger.info('[JobAdder] Starting job sync')
+    logger.info('[JobAdder] Starting job sync', { options })
     const startTime = Date.now()
 
-    // Fetch jobs from JobAdder
-    logger.debug('[JobAdder] Fetching jobs from API')
-    const jobs = await client.getJobs()
+    // Fetch every page of jobs from JobAdder, limited to changes since the
+    // watermark when running incrementally
+    logger.debug('[JobAdder] Fetching jobs from API', { updatedSince })
+    const jobs = await client.getAllJobs({ updatedSince })
     logger.info(`[JobAdder] Found ${jobs.length} jobs to sync`)
     stats.total = jobs.length
 
@@ -39,7 +92,7 @@ export async function syncJobs(client: JobAdderClient, tenantId: number): Promis
         logger.debug(`[JobAdder] Processing job ${job.id}`)
 
         // Transform job data
-        const transformedJob = await transformJob(job, tenantId)
+        const transformedJob = await transformJob(job, tenantId, fieldMapping, provider)
         logger.debug(`[JobAdder] Transformed job ${job.id}`, {
           original: job,
           transformed: transformedJob,
@@ -52,26 +105,51 @@ export async function syncJobs(client: JobAdderClient, tenantId: number): Promis
             'atsData.jobAdder.id': {
               equals: job.id,
             },
+            tenant: {
+              equals: tenantId,
+            },
           },
         })
 
         if (existingJobs.docs.length > 0) {
-          // Update existing job
-          logger.debug(`[JobAdder] Updating job ${job.id}`)
-          await payload.update({
-            collection: 'jobs',
-            id: existingJobs.docs[0].id,
-            data: transformedJob as any, // TODO: Fix type casting
-          })
+          if (diff) {
+            recordUpdate(
+              diff,
+              {
+                externalId: job.id,
+                localId: String(existingJobs.docs[0].id),
+                label: transformedJob.title,
+              },
+              existingJobs.docs[0] as unknown as Record<string, unknown>,
+              transformedJob as unknown as Record<string, unknown>,
+            )
+          } else {
+            // Update existing job
+            logger.debug(`[JobAdder] Updating job ${job.id}`)
+            await payload.update({
+              collection: 'jobs',
+              id: existingJobs.docs[0].id,
+              data: transformedJob as any, // TODO: Fix type casting
+            })
+          }
           stats.updated++
+          run.recordItem({
+            externalId: job.id,
+            localId: String(existingJobs.docs[0].id),
+            outcome: 'updated',
+          })
+        } else if (diff) {
+          diff.created.push({ externalId: job.id, label: transformedJob.title })
+          stats.created++
         } else {
           // Create new job
           logger.debug(`[JobAdder] Creating new job ${job.id}`)
-          await payload.create({
+          const newJob = await payload.create({
             collection: 'jobs',
             data: transformedJob as any, // TODO: Fix type casting
           })
           stats.created++
+          run.recordItem({ externalId: job.id, localId: String(newJob.id), outcome: 'created' })
         }
       } catch (error) {
         logger.error(`[JobAdder] Error processing job ${job.id}`, {
@@ -79,36 +157,172 @@ export async function syncJobs(client: JobAdderClient, tenantId: number): Promis
           job,
         })
         stats.errors++
+        run.recordItem({
+          externalId: job.id,
+          outcome: 'errored',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        })
+        diff?.failed.push({
+          externalId: job.id,
+          label: job.title,
+          message: error instanceof Error ? error.message : 'Unknown error',
+        })
       }
     }
 
+    // Only a full sync sees the complete active result set, so only then can
+    // missing jobs be treated as removed
+    if (!updatedSince && removedJobPolicy !== 'ignore') {
+      await reconcileRemovedJobs(
+        tenantId,
+        provider,
+        new Set(jobs.map((job) => job.id)),
+        removedJobPolicy,
+        stats,
+        run,
+        diff,
+      )
+    }
+
     const duration = Date.now() - startTime
-    logger.info('[JobAdder] Job sync completed', {
+    logger.info(`[JobAdder] Job sync ${dryRun ? 'dry run ' : ''}completed`, {
       duration,
       stats,
     })
 
+    if (diff) {
+      stats.diff = diff
+    }
+
+    await run.complete(stats)
     return stats
   } catch (error) {
     logger.error('[JobAdder] Job sync failed', {
       error: error instanceof Error ? error.message : 'Unknown error',
+      options,
     })
+    await run.fail(error, stats)
     throw error
   }
 }
 
+/**
+ * Close or archive published jobs that JobAdder no longer returns as active
+ * Only jobs synced from the same provider are considered, so a tenant connected to both
+ * JobAdder and the sandbox keeps the other provider's jobs open.
+ * With a dry run diff, the jobs are added to it instead of being changed.
+ */
+async function reconcileRemovedJobs(
+  tenantId: number,
+  provider: SyncRunProvider,
+  activeJobAdderIds: Set<string>,
+  policy: Exclude<RemovedJobPolicy, 'ignore'>,
+  stats: JobSyncStats,
+  run: SyncRunRecorder,
+  diff?: SyncDiff,
+): Promise<void> {
+  const localJobs = await payload.find({
+    collection: 'jobs',
+    where: {
+      tenant: {
+        equals: tenantId,
+      },
+      'atsData.source': {
+        equals: provider,
+      },
+      status: {
+        equals: 'published',
+      },
+    },
+    pagination: false,
+  })
+
+  const removedJobs = localJobs.docs.filter((doc) => {
+    const jobAdderId = (doc.atsData?.jobAdder as { id?: string } | undefined)?.id
+    return jobAdderId && !activeJobAdderIds.has(jobAdderId)
+  })
+
+  logger.info(`[JobAdder] Found ${removedJobs.length} jobs no longer active in JobAdder`, {
+    tenantId,
+    policy,
+  })
+
+  for (const doc of removedJobs) {
+    const externalId = String((doc.atsData?.jobAdder as { id?: string } | undefined)?.id)
+
+    try {
+      if (diff) {
+        const item = {
+          externalId,
+          localId: String(doc.id),
+          label: doc.title as string,
+          message: 'No longer active in JobAdder',
+        }
+        diff[policy === 'archive' ? 'archived' : 'closed'].push(item)
+      } else {
+        await payload.update({
+          collection: 'jobs',
+          id: doc.id,
+          data: { status: policy === 'archive' ? 'archived' : 'closed' },
+        })
+      }
+
+      if (policy === 'archive') {
+        stats.archived++
+      } else {
+        stats.closed++
+      }
+      stats.deleted++
+      run.recordItem({
+        externalId,
+        localId: String(doc.id),
+        outcome: policy === 'archive' ? 'archived' : 'closed',
+        message: 'No longer active in JobAdder',
+      })
+    } catch (error) {
+      logger.error(`[JobAdder] Error reconciling removed job ${doc.id}`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId,
+        policy,
+      })
+      stats.errors++
+      run.recordItem({
+        externalId,
+        localId: String(doc.id),
+        outcome: 'errored',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+}
+
 // ============================================================================
 // Candidate Synchronization
 // ============================================================================
 
+/**
+ * Pull JobAdder candidates into the candidates collection
+ * Candidates who refused consent are skipped, and only those who consented are queued for
+ * enrichment; see plugins/ats/consent.ts for how consent is resolved.
+ * @param options.dryRun Work out what the sync would change without saving candidates,
+ * placements or queueing enrichment; the changes are returned in `stats.diff`
+ */
 export async function syncCandidates(
-  client: JobAdderClient,
+  client: JobAdderReadClient,
   tenantId: number,
   options: {
     updatedSince?: string
     priorityOnly?: boolean
     limit?: number
     enrichmentEnabled?: boolean
+    trigger?: SyncRunTrigger
+    // Tenant's candidate mapping rules
+    fieldMapping?: FieldMappingRule[] | null
+    // Where the tenant's JobAdder records consent
+    consent?: JobAdderConsentConfig | null
+    dryRun?: boolean
+    // Provider recorded in the sync run ledger, for providers serving JobAdder-shaped data
+    provider?: SyncRunProvider
   } = {},
 ): Promise<CandidateSyncStats> {
   const stats: CandidateSyncStats = {
@@ -120,8 +334,29 @@ export async function syncCandidates(
     enriched: 0,
     skipped: 0,
     privacyFiltered: 0,
+    placements: 0,
   }
 
+  const provider = options.provider || 'jobadder'
+  const runParams = {
+    tenantId,
+    provider,
+    type: 'candidates' as const,
+    mode: options.updatedSince ? ('incremental' as const) : ('full' as const),
+    trigger: options.trigger,
+    options: {
+      updatedSince: options.updatedSince,
+      priorityOnly: options.priorityOnly,
+      limit: options.limit,
+      enrichmentEnabled: options.enrichmentEnabled,
+    },
+  }
+  // Dry runs are not recorded in the sync run ledger
+  const run = options.dryRun
+    ? SyncRunRecorder.untracked(runParams)
+    : await SyncRunRecorder.start(runParams)
+  const diff = options.dryRun ? createSyncDiff() : undefined
+
   try {
     logger.info('[JobAdder] Starting candidate sync', { options })
     const startTime = Date.now()
@@ -151,87 +386,176 @@ export async function syncCandidates(
       try {
         logger.debug(`[JobAdder] Processing candidate ${candidate.id}`)
 
+        // Check if the candidate exists in this tenant, by JobAdder ID, an earlier merge or email
+        const existing = await findTenantCandidate(tenantId, {
+          source: provider,
+          sourceId: candidate.id,
+          email: candidate.email,
+          idPath: 'atsData.jobAdder.id',
+        })
+
         // Check privacy consent before proceeding
-        const hasConsent = await checkCandidateConsent(candidate.id)
-        if (!hasConsent) {
-          logger.info(`[JobAdder] Skipping candidate ${candidate.id} due to privacy consent`)
+        const consent = await resolveCandidateConsent(
+          candidate,
+          tenantId,
+          existing?.candidate,
+          options.consent,
+        )
+        if (consent.status === 'refused') {
+          await withdrawCandidateConsent(existing?.candidate, tenantId, consent)
+          logger.info(`[JobAdder] Skipping candidate ${candidate.id} due to privacy consent`, {
+            source: consent.source,
+            reason: consent.reason,
+          })
           stats.privacyFiltered++
+          run.recordItem({
+            externalId: candidate.id,
+            outcome: 'skipped',
+            message: `No privacy consent: ${consent.reason}`,
+          })
           continue
         }
 
         // Fetch additional candidate data
-        let resume, experiences, education, placements
+        let resume, experiences, education
+        let placements: JobAdderCandidatePlacement[] | undefined
 
-        try {
-          // Fetch resume if available
+        for (let attempt = 1; ; attempt++) {
           try {
-            resume = await client.getCandidateResume(candidate.id)
-            logger.debug(`[JobAdder] Fetched resume for candidate ${candidate.id}`)
+            // Fetch resume if available
+            if (!resume) {
+              try {
+                resume = await client.getCandidateResume(candidate.id)
+                logger.debug(`[JobAdder] Fetched resume for candidate ${candidate.id}`)
+              } catch (error) {
+                if (isRateLimitError(error)) throw error
+                logger.warn(`[JobAdder] Could not fetch resume for candidate ${candidate.id}`, {
+                  error: error instanceof Error ? error.message : 'Unknown error',
+                })
+                // Continue without resume
+              }
+            }
+
+            // Fetch experiences
+            experiences ??= await client.getCandidateExperiences(candidate.id)
+            logger.debug(
+              `[JobAdder] Fetched ${experiences.length} experiences for candidate ${candidate.id}`,
+            )
+
+            // Fetch education
+            education ??= await client.getCandidateEducation(candidate.id)
+            logger.debug(
+              `[JobAdder] Fetched ${education.length} education records for candidate ${candidate.id}`,
+            )
+
+            // Fetch placements
+            placements ??= await client.getCandidatePlacements(candidate.id)
+            logger.debug(
+              `[JobAdder] Fetched ${placements.length} placements for candidate ${candidate.id}`,
+            )
+            break
           } catch (error) {
-            logger.warn(`[JobAdder] Could not fetch resume for candidate ${candidate.id}`, {
-              error: error instanceof Error ? error.message : 'Unknown error',
-            })
-            // Continue without resume
+            // Still throttled after the client's own retries; slow down and pick up where
+            // this candidate left off rather than saving it with partial data
+            if (isRateLimitError(error) && attempt < MAX_THROTTLED_ATTEMPTS) {
+              logger.warn(
+                `[JobAdder] Rate limited fetching candidate ${candidate.id}, backing off`,
+                {
+                  attempt,
+                  metrics: client.getRateLimitMetrics(),
+                },
+              )
+              await client.waitForRateLimit()
+              continue
+            }
+
+            logger.error(
+              `[JobAdder] Error fetching additional data for candidate ${candidate.id}`,
+              {
+                error: error instanceof Error ? error.message : 'Unknown error',
+              },
+            )
+            // Continue with partial data
+            break
           }
-
-          // Fetch experiences
-          experiences = await client.getCandidateExperiences(candidate.id)
-          logger.debug(
-            `[JobAdder] Fetched ${experiences.length} experiences for candidate ${candidate.id}`,
-          )
-
-          // Fetch education
-          education = await client.getCandidateEducation(candidate.id)
-          logger.debug(
-            `[JobAdder] Fetched ${education.length} education records for candidate ${candidate.id}`,
-          )
-
-          // Fetch placements
-          placements = await client.getCandidatePlacements(candidate.id)
-          logger.debug(
-            `[JobAdder] Fetched ${placements.length} placements for candidate ${candidate.id}`,
-          )
-        } catch (error) {
-          logger.error(`[JobAdder] Error fetching additional data for candidate ${candidate.id}`, {
-            error: error instanceof Error ? error.message : 'Unknown error',
-          })
-          // Continue with partial data
         }
 
-        // Transform candidate data
-        const transformedCandidate = await transformCandidate(
-          candidate,
-          tenantId,
-          resume,
-          experiences || [],
-          education || [],
-          placements || [],
-        )
+        // Transform candidate data, recording the consent we resolved and keeping the
+        // candidate's own sharing preferences
+        const transformedCandidate = {
+          ...(await transformCandidate(
+            candidate,
+            tenantId,
+            resume,
+            experiences || [],
+            education || [],
+            placements || [],
+            options.fieldMapping,
+            provider,
+          )),
+          dataUsageConsent: consent.status === 'granted',
+          ...(existing?.candidate.dataSharingPreferences && {
+            dataSharingPreferences: existing.candidate.dataSharingPreferences,
+          }),
+        }
 
         logger.debug(`[JobAdder] Transformed candidate ${candidate.id}`)
 
-        // Check if candidate exists in Payload CMS
-        const existingCandidates = await payload.find({
-          collection: 'candidates' as any, // Type assertion to bypass TypeScript check
-          where: {
-            'atsData.jobAdder.id': {
-              equals: candidate.id,
-            },
-          },
-        })
+        if (diff) {
+          const label = `${candidate.firstName} ${candidate.lastName}`
+          if (existing) {
+            recordUpdate(
+              diff,
+              { externalId: candidate.id, localId: String(existing.candidate.id), label },
+              existing.candidate,
+              {
+                ...transformedCandidate,
+                atsData: mergeAtsData(
+                  existing.candidate.atsData,
+                  transformedCandidate.atsData,
+                  existing.matchedBy,
+                ),
+              },
+              // The retention date is pushed out on every sync
+              [...VOLATILE_SYNC_FIELDS, 'dataRetentionDate'],
+            )
+            stats.updated++
+          } else {
+            diff.created.push({ externalId: candidate.id, label })
+            stats.created++
+          }
+
+          // Reading the candidate is still logged for compliance
+          await logCandidateDataAccess(candidate.id, 'sync_preview', { tenantId })
+          continue
+        }
 
         let candidateId: string
 
-        if (existingCandidates.docs.length > 0) {
+        if (existing) {
           // Update existing candidate
-          logger.debug(`[JobAdder] Updating candidate ${candidate.id}`)
+          logger.debug(`[JobAdder] Updating candidate ${candidate.id}`, {
+            matchedBy: existing.matchedBy,
+          })
           const updatedCandidate = await payload.update({
             collection: 'candidates' as any, // Type assertion to bypass TypeScript check
-            id: existingCandidates.docs[0].id,
-            data: transformedCandidate as any, // TODO: Fix type casting
+            id: existing.candidate.id,
+            data: {
+              ...transformedCandidate,
+              atsData: mergeAtsData(
+                existing.candidate.atsData,
+                transformedCandidate.atsData,
+                existing.matchedBy,
+              ),
+            } as any, // TODO: Fix type casting
           })
           candidateId = updatedCandidate.id as string // Type assertion
           stats.updated++
+          run.recordItem({
+            externalId: candidate.id,
+            localId: String(candidateId),
+            outcome: 'updated',
+          })
         } else {
           // Create new candidate
           logger.debug(`[JobAdder] Creating new candidate ${candidate.id}`)
@@ -241,10 +565,20 @@ export async function syncCandidates(
           })
           candidateId = newCandidate.id as string // Type assertion
           stats.created++
+          run.recordItem({
+            externalId: candidate.id,
+            localId: String(candidateId),
+            outcome: 'created',
+          })
+        }
+
+        // Keep the placements collection in step with the candidate's placements
+        if (placements?.length) {
+          stats.placements += await savePlacements(placements, tenantId, candidateId, provider)
         }
 
-        // Queue candidate for AI enrichment if enabled
-        if (enrichmentEnabled) {
+        // Queue candidate for AI enrichment if enabled and they consented to it
+        if (enrichmentEnabled && consent.status === 'granted') {
           await queueCandidateForEnrichment(candidateId, candidate.id, tenantId)
           stats.enriched++
           logger.debug(`[JobAdder] Queued candidate ${candidate.id} for AI enrichment`)
@@ -253,28 +587,45 @@ export async function syncCandidates(
         }
 
         // Log candidate data access for compliance
-        await logCandidateDataAccess(candidate.id, 'sync', 'system')
+        await logCandidateDataAccess(candidate.id, 'sync', { tenantId })
       } catch (error) {
         logger.error(`[JobAdder] Error processing candidate ${candidate.id}`, {
           error: error instanceof Error ? error.message : 'Unknown error',
           candidateId: candidate.id,
         })
         stats.errors++
+        run.recordItem({
+          externalId: candidate.id,
+          outcome: 'errored',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        })
+        diff?.failed.push({
+          externalId: candidate.id,
+          label: `${candidate.firstName} ${candidate.lastName}`,
+          message: error instanceof Error ? error.message : 'Unknown error',
+        })
       }
     }
 
     const duration = Date.now() - startTime
-    logger.info('[JobAdder] Candidate sync completed', {
+    stats.rateLimit = client.getRateLimitMetrics()
+    logger.info(`[JobAdder] Candidate sync ${options.dryRun ? 'dry run ' : ''}completed`, {
       duration,
       stats,
     })
 
+    if (diff) {
+      stats.diff = diff
+    }
+
+    await run.complete(stats)
     return stats
   } catch (error) {
     logger.error('[JobAdder] Candidate sync failed', {
       error: error instanceof Error ? error.message : 'Unknown error',
       options,
     })
+    await run.fail(error, stats)
     throw error
   }
 }
@@ -283,97 +634,9 @@ export async function syncCandidates(
 // Helper Functions
 // ============================================================================
 
-/**
- * Check if a candidate has given consent for data processing
- */
-async function checkCandidateConsent(candidateId: string): Promise<boolean> {
-  try {
-    // In a real implementation, this would check the candidate's consent status
-    // For now, we'll assume consent is given
-    return true
-  } catch (error) {
-    logger.error(`[JobAdder] Error checking candidate consent`, {
-      error: error instanceof Error ? error.message : 'Unknown error',
-      candidateId,
-    })
-    // Default to false if there's an error
-    return false
-  }
-}
-
-/**
- * Queue a candidate for AI enrichment
- */
-async function queueCandidateForEnrichment(
-  payloadCandidateId: string,
-  jobAdderCandidateId: string,
-  tenantId: number,
-): Promise<void> {
-  try {
-    // In a real implementation, this would add the candidate to a queue for processing
-    // For now, we'll just log that it would be queued
-    logger.info(`[JobAdder] Would queue candidate for AI enrichment`, {
-      payloadCandidateId,
-      jobAdderCandidateId,
-      tenantId,
-    })
-
-    // Insert a record in the analytics database to track the enrichment request
-    await analyticsPool.query(
-      `
-      INSERT INTO candidate_enrichment_queue
-      (candidate_id, source_id, tenant_id, status, created_at)
-      VALUES ($1, $2, $3, 'pending', NOW())
-      ON CONFLICT (candidate_id)
-      DO UPDATE SET
-        status = 'pending',
-        updated_at = NOW()
-      `,
-      [payloadCandidateId, jobAdderCandidateId, tenantId],
-    )
-  } catch (error) {
-    logger.error(`[JobAdder] Error queueing candidate for AI enrichment`, {
-      error: error instanceof Error ? error.message : 'Unknown error',
-      payloadCandidateId,
-      jobAdderCandidateId,
-    })
-    // Don't throw the error, just log it
-  }
-}
+// Times a candidate's details are fetched while JobAdder keeps throttling
+const MAX_THROTTLED_ATTEMPTS = 3
 
-/**
- * Log candidate data access for compliance
- */
-async function logCandidateDataAccess(
-  candidateId: string,
-  accessType: string,
-  userId: string,
-): Promise<void> {
-  try {
-    // In a real implementation, this would log the access to the candidate data
-    // For now, we'll just log that it would be logged
-    logger.debug(`[JobAdder] Logging candidate data access`, {
-      candidateId,
-      accessType,
-      userId,
-    })
-
-    // Insert a record in the analytics database to track the data access
-    await analyticsPool.query(
-      `
-      INSERT INTO candidate_data_access_log
-      (candidate_id, access_type, user_id, access_time, ip_address)
-      VALUES ($1, $2, $3, NOW(), $4)
-      `,
-      [candidateId, accessType, userId, '127.0.0.1'], // IP would be captured in a real implementation
-    )
-  } catch (error) {
-    logger.error(`[JobAdder] Error logging candidate data access`, {
-      error: error instanceof Error ? error.message : 'Unknown error',
-      candidateId,
-      accessType,
-      userId,
-    })
-    // Don't throw the error, just log it
-  }
+function isRateLimitError(error: unknown): boolean {
+  return (error as { response?: { status?: number } })?.response?.status === 429
 }
@@ -8,6 +8,9 @@ import {
 } from './types'
 import { logger } from '@/lib/logger'
 import slugify from 'slugify'
+import { applyFieldMapping, FieldMappingRule } from '../../fieldMapping'
+import { PlacementRecord } from '../../placements'
+import { AtsProviderSlug } from '../../types'
 
 // ============================================================================
 // Common interfaces
@@ -42,6 +45,7 @@ interface PayloadJob {
   slug: string
   description: PayloadRichText
   location: string
+  sector?: number
   type: 'full-time' | 'part-time' | 'contract' | 'temporary'
   salary: {
     min?: number
@@ -107,7 +111,17 @@ function convertToRichText(text: string): PayloadRichText {
   return richText
 }
 
-export async function transformJob(job: JobAdderJob, tenantId: number): Promise<PayloadJob> {
+/**
+ * Map a JobAdder job onto our jobs collection
+ * @param fieldMapping Tenant's job mapping rules, applied on top of the default mapping
+ * @param source Provider recorded as the job's source, for providers serving JobAdder-shaped data
+ */
+export async function transformJob(
+  job: JobAdderJob,
+  tenantId: number,
+  fieldMapping?: FieldMappingRule[] | null,
+  source: AtsProviderSlug = 'jobadder',
+): Promise<PayloadJob> {
   try {
     logger.debug(`[JobAdder] Transforming job ${job.id}`)
 
@@ -129,7 +143,7 @@ export async function transformJob(job: JobAdderJob, tenantId: number): Promise<
       status: job.status === 'active' ? 'published' : 'closed',
       tenant: tenantId,
       atsData: {
-        source: 'jobadder',
+        source,
         sourceId: job.id,
         sourceReference: job.reference,
         lastSynced: new Date().toISOString(),
@@ -140,12 +154,14 @@ export async function transformJob(job: JobAdderJob, tenantId: number): Promise<
       },
     }
 
+    const mappedJob = await applyFieldMapping(job, transformedJob, fieldMapping, 'jobs')
+
     logger.debug(`[JobAdder] Successfully transformed job ${job.id}`, {
       original: job,
-      transformed: transformedJob,
+      transformed: mappedJob,
     })
 
-    return transformedJob
+    return mappedJob
   } catch (error) {
     logger.error(`[JobAdder] Error transforming job ${job.id}`, {
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -394,6 +410,12 @@ function extractAchievementsFromDescription(description: string): string[] {
   return achievements
 }
 
+/**
+ * Map a JobAdder candidate and their history onto our candidates collection
+ * @param fieldMapping Tenant's candidate mapping rules, applied on top of the default mapping
+ * @param source Provider recorded as the candidate's source, for providers serving
+ * JobAdder-shaped data
+ */
 export async function transformCandidate(
   candidate: JobAdderCandidate,
   tenantId: number,
@@ -401,6 +423,8 @@ export async function transformCandidate(
   experiences: JobAdderCandidateExperience[] = [],
   education: JobAdderCandidateEducation[] = [],
   placements: JobAdderCandidatePlacement[] = [],
+  fieldMapping?: FieldMappingRule[] | null,
+  source: AtsProviderSlug = 'jobadder',
 ): Promise<PayloadCandidate> {
   try {
     logger.debug(`[JobAdder] Transforming candidate ${candidate.id}`)
@@ -477,7 +501,7 @@ export async function transformCandidate(
       updatedAt: candidate.updatedAt,
       tenant: tenantId,
       atsData: {
-        source: 'jobadder',
+        source,
         sourceId: candidate.id,
         sourceReference: candidate.reference,
         lastSynced: new Date().toISOString(),
@@ -486,8 +510,9 @@ export async function transformCandidate(
           reference: candidate.reference,
         },
       },
-      // Default privacy settings - these would be updated based on actual candidate preferences
-      dataUsageConsent: true, // Default to true, but should be based on actual consent
+      // Default privacy settings - syncs replace consent with what they resolve for the
+      // candidate (see plugins/ats/consent.ts) and keep preferences we already hold
+      dataUsageConsent: true,
       dataRetentionDate: new Date(Date.now() + 2 * 365 * 24 * 60 * 60 * 1000).toISOString(), // 2 years from now
       dataSharingPreferences: {
         allowInternalUse: true,
@@ -501,11 +526,18 @@ export async function transformCandidate(
       },
     }
 
+    const mappedCandidate = await applyFieldMapping(
+      candidate,
+      transformedCandidate,
+      fieldMapping,
+      'candidates',
+    )
+
     logger.debug(`[JobAdder] Successfully transformed candidate ${candidate.id}`, {
       candidateId: candidate.id,
     })
 
-    return transformedCandidate
+    return mappedCandidate
   } catch (error) {
     logger.error(`[JobAdder] Error transforming candidate ${candidate.id}`, {
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -526,3 +558,56 @@ function formatCandidateLocation(address: JobAdderCandidate['address']): string
 
   return parts.join(', ')
 }
+
+/**
+ * Map a JobAdder placement onto our placements collection
+ * @param source Provider recorded as the placement's source, for providers serving
+ * JobAdder-shaped data
+ */
+export function transformPlacement(
+  placement: JobAdderCandidatePlacement,
+  tenantId: number,
+  source: AtsProviderSlug = 'jobadder',
+): PlacementRecord {
+  const consultantName = [placement.owner?.firstName, placement.owner?.lastName]
+    .filter(Boolean)
+    .join(' ')
+
+  return {
+    tenant: tenantId,
+    jobTitle: placement.jobTitle,
+    employer: placement.employer,
+    status: placement.status,
+    placedAt: placement.createdAt,
+    startDate: placement.startDate,
+    endDate: placement.endDate,
+    salary: placement.salary
+      ? {
+          amount: placement.salary.amount,
+          currency: placement.salary.currency,
+          period: placement.salary.period,
+        }
+      : undefined,
+    fee: placement.fee
+      ? {
+          amount: placement.fee.amount,
+          currency: placement.fee.currency,
+        }
+      : undefined,
+    sourceOfHire: placement.source,
+    consultant: placement.owner
+      ? {
+          name: consultantName || undefined,
+          email: placement.owner.email,
+          atsId: String(placement.owner.userId),
+        }
+      : undefined,
+    atsData: {
+      source,
+      sourceId: placement.id,
+      jobId: placement.jobId,
+      candidateId: placement.candidateId,
+      lastSynced: new Date().toISOString(),
+    },
+  }
+}
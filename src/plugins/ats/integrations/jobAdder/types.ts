@@ -1,8 +1,12 @@
+import { SyncDiff } from '../../syncDiff'
+
 export interface JobAdderConfig {
   clientId: string
   clientSecret: string
   accessToken: string
   refreshToken: string
+  // Tenant the token belongs to; clients for the same tenant share a rate limit budget
+  tenantId?: string
 }
 
 export interface JobAdderJob {
@@ -30,6 +34,21 @@ export interface JobAdderJob {
     id: string
     name: string
   }
+  category?: {
+    categoryId: number
+    name: string
+    subCategory?: {
+      subCategoryId: number
+      name: string
+    }
+  }
+  customFields?: JobAdderCustomField[]
+}
+
+export interface JobAdderCustomField {
+  fieldId: number
+  fieldName: string
+  value: unknown
 }
 
 export interface JobAdderCandidate {
@@ -119,12 +138,76 @@ export interface JobAdderCandidatePlacement {
   }
   feedback?: string
   rating?: number
+  // When the placement was made
+  createdAt?: string
+  fee?: {
+    amount: number
+    currency: string
+  }
+  // Where the candidate was sourced from, e.g. "Job Board" or "Referral"
+  source?: string
+  // Consultant credited with the placement
+  owner?: {
+    userId: string | number
+    firstName?: string
+    lastName?: string
+    email?: string
+  }
+}
+
+// Fields we send when creating a candidate from one of our applicants
+export interface JobAdderCandidateInput {
+  firstName: string
+  lastName: string
+  email: string
+  phone?: string
+  source?: string
+}
+
+export interface JobAdderNoteInput {
+  type: string
+  text: string
+}
+
+export interface JobAdderNote {
+  noteId: string
+  type: string
+  text: string
+}
+
+export interface JobAdderApplication {
+  applicationId: string
+  jobId: string
+  candidateId: string
+  source?: string
+}
+
+export interface JobAdderScreeningQuestion {
+  questionId: number
+  text: string
+  type: 'YesNo' | 'SingleChoice' | 'MultipleChoice' | 'Number' | 'Text' | 'Attachment'
+  mandatory?: boolean
+  answers?: {
+    answerId: number
+    text: string
+    // Applicants choosing this answer are screened out
+    disqualify?: boolean
+  }[]
 }
 
 export interface CandidateSyncStats extends SyncStats {
   enriched: number
   skipped: number
   privacyFiltered: number
+  // Placements saved to the placements collection
+  placements: number
+  // How hard the run leaned on JobAdder's rate limits
+  rateLimit?: {
+    requests: number
+    retries: number
+    throttled: number
+    waitedMs: number
+  }
 }
 
 export interface SyncStats {
@@ -133,8 +216,18 @@ export interface SyncStats {
   updated: number
   deleted: number
   errors: number
+  // What a dry run would have written; counts above are what it would have done
+  diff?: SyncDiff
+}
+
+export interface JobSyncStats extends SyncStats {
+  closed: number
+  archived: number
 }
 
+// What a full sync does with local jobs that are no longer in JobAdder's active result set
+export type RemovedJobPolicy = 'close' | 'archive' | 'ignore'
+
 export interface JobAdderErrorResponse {
   error: string
   error_description: string
@@ -155,6 +248,8 @@ export interface JobAdderWebhookPayload {
     | 'candidate.created'
     | 'candidate.updated'
     | 'candidate.deleted'
+    | 'placement.created'
+    | 'placement.updated'
   data: {
     id: string
     [key: string]: any
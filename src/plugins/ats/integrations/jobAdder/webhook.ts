@@ -3,57 +3,119 @@ import axios from 'axios'
 import payload from 'payload'
 import crypto from 'crypto'
 import { webhookLogger as logger } from '@/lib/logger'
-import { transformJob, transformCandidate } from './transform'
+import { transformJob, transformCandidate, transformPlacement } from './transform'
+import { savePlacements } from './placements'
 import { getAccessToken } from './oauth'
-import { JobAdderClient } from './client'
+import { JobAdderClient, JobAdderReadClient } from './client'
+import { Tenant } from '../../../../payload-types'
+import { FieldMapping } from '../../fieldMapping'
+import { upsertPlacement } from '../../placements'
+import { AtsProviderSlug } from '../../types'
+import { findTenantCandidate, mergeAtsData } from '../../candidateIdentity'
+import {
+  JobAdderConsentConfig,
+  resolveCandidateConsent,
+  withdrawCandidateConsent,
+} from './compliance'
+import {
+  ensureWebhookSecret,
+  getAcceptedSecrets,
+  getLegacyWebhookSecret,
+  replaceWebhookSecret,
+  verifyLegacySignature,
+  verifySignature,
+} from './webhookSecrets'
+import {
+  getDeliveryId,
+  getDueDeliveries,
+  recordDelivery,
+  markDeliveryProcessing,
+  markDeliveryProcessed,
+  markDeliveryFailed,
+  markDeliveryDeadLettered,
+  resetDeliveryAttempts,
+  WebhookDelivery,
+} from './inbox'
 import {
-  JobAdderJob,
   JobAdderCandidate,
+  JobAdderCandidatePlacement,
   JobAdderWebhookPayload,
   isJobAdderWebhookPayload,
 } from './types'
 
 /**
- * Verifies the webhook signature from JobAdder
+ * Verifies the webhook signature from JobAdder against the tenant's webhook secrets
  * @param req Express request
- * @param secret Webhook secret
+ * @param tenant Tenant the delivery is for, if it was found
  * @returns Boolean indicating if signature is valid
  */
-function verifyWebhookSignature(req: Request, secret: string): boolean {
+function verifyWebhookSignature(req: Request, tenant: Tenant | null): boolean {
   try {
-    // If no secret is configured, skip verification in development
-    if (!secret && process.env.NODE_ENV !== 'production') {
+    const secrets = getAcceptedSecrets(tenant)
+    const legacySecret = getLegacyWebhookSecret()
+
+    // If the tenant has no secret yet, skip verification in development
+    if (secrets.length === 0 && !legacySecret && process.env.NODE_ENV !== 'production') {
       logger.warn('Webhook signature verification skipped - no secret configured')
       return true
     }
 
-    const signature = req.headers['x-jobadder-signature'] as string
-    if (!signature) {
-      logger.warn('Missing webhook signature header')
-      return false
+    const delivery = {
+      signature: req.headers['x-jobadder-signature'] as string,
+      timestamp: req.headers['x-jobadder-timestamp'] as string,
+      body: JSON.stringify(req.body),
     }
 
-    const payload = JSON.stringify(req.body)
-    const hmac = crypto.createHmac('sha256', secret)
-    const digest = hmac.update(payload).digest('hex')
+    // Webhooks registered before per-tenant secrets don't send a timestamp
+    if (legacySecret && !delivery.timestamp) {
+      return verifyLegacySignature(delivery, legacySecret)
+    }
 
-    return crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(digest))
+    return verifySignature(delivery, secrets)
   } catch (error) {
     logger.error('Error verifying webhook signature', { error })
     return false
   }
 }
 
+/**
+ * Find the tenant a delivery is for, or null if there isn't one
+ * @param tenantId Tenant ID from the delivery
+ */
+async function findWebhookTenant(tenantId: string | undefined): Promise<Tenant | null> {
+  if (!tenantId) {
+    return null
+  }
+
+  try {
+    return (await payload.findByID({
+      collection: 'tenants',
+      id: tenantId,
+    })) as unknown as Tenant
+  } catch {
+    return null
+  }
+}
+
 /**
  * Registers a webhook with JobAdder
+ * The webhook is signed with the tenant's own secret. A tenant without one gets a new secret,
+ * and an existing webhook is given it, replacing any secret it was registered with before.
  * @param accessToken JobAdder access token
  * @param tenantId Tenant ID
+ * @param options.updateSecret Give an existing webhook the tenant's current secret
  */
-export async function registerWebhook(accessToken: string, tenantId: string): Promise<void> {
+export async function registerWebhook(
+  accessToken: string,
+  tenantId: string,
+  options: { updateSecret?: boolean } = {},
+): Promise<void> {
   const webhookUrl = `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000'}/api/webhooks/jobadder`
-  const webhookSecret = process.env.JOBADDER_WEBHOOK_SECRET || ''
 
   try {
+    const { secret: webhookSecret, created } = await ensureWebhookSecret(tenantId)
+    const updateSecret = Boolean(options.updateSecret || created)
+
     logger.info('Registering JobAdder webhook', { tenantId, webhookUrl })
 
     // Check if webhook already exists
@@ -69,6 +131,8 @@ export async function registerWebhook(accessToken: string, tenantId: string): Pr
       'candidate.created',
       'candidate.updated',
       'candidate.deleted',
+      'placement.created',
+      'placement.updated',
     ]
 
     const existingWebhook = (webhooks.data.data || []).find(
@@ -99,14 +163,14 @@ export async function registerWebhook(accessToken: string, tenantId: string): Pr
       // Check if we need to update the webhook with new events
       const missingEvents = events.filter((event) => !existingWebhook.events.includes(event))
 
-      if (missingEvents.length > 0) {
-        // Update existing webhook with new events
+      if (missingEvents.length > 0 || updateSecret) {
+        // Update existing webhook with new events and the current secret
         await axios.put(
           `https://api.jobadder.com/v2/webhooks/${existingWebhook.id}`,
           {
             url: webhookUrl,
             events: [...new Set([...existingWebhook.events, ...events])],
-            metadata: { tenantId, ...existingWebhook.metadata },
+            metadata: { ...existingWebhook.metadata, tenantId },
             secret: webhookSecret,
           },
           {
@@ -114,10 +178,11 @@ export async function registerWebhook(accessToken: string, tenantId: string): Pr
           },
         )
 
-        logger.info('Updated JobAdder webhook with new events', {
+        logger.info('Updated JobAdder webhook', {
           tenantId,
           webhookId: existingWebhook.id,
           addedEvents: missingEvents,
+          secretUpdated: updateSecret,
         })
       } else {
         logger.info('JobAdder webhook already exists with all required events', {
@@ -136,8 +201,62 @@ export async function registerWebhook(accessToken: string, tenantId: string): Pr
   }
 }
 
+/**
+ * Rotates the tenant's webhook secret and gives JobAdder the new one
+ * The previous secret is still accepted until the grace period ends, so deliveries JobAdder
+ * signed before it switched, or while updating it failed, aren't rejected.
+ * @param accessToken JobAdder access token
+ * @param tenantId Tenant ID
+ * @returns When the previous secret stops being accepted
+ */
+export async function rotateWebhookSecret(
+  accessToken: string,
+  tenantId: string,
+): Promise<{ previousExpiresAt: string | null }> {
+  const { previousExpiresAt } = await replaceWebhookSecret(tenantId)
+  await registerWebhook(accessToken, tenantId, { updateSecret: true })
+  return { previousExpiresAt }
+}
+
+/**
+ * Removes the webhooks pointing at us from a JobAdder account
+ * @param accessToken JobAdder access token
+ * @param tenantId Tenant ID
+ * @returns Number of webhooks removed
+ */
+export async function unregisterWebhook(accessToken: string, tenantId: string): Promise<number> {
+  const webhookUrl = `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000'}/api/webhooks/jobadder`
+
+  try {
+    const webhooks = await axios.get<{ data: any[] }>('https://api.jobadder.com/v2/webhooks', {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    })
+
+    const ours = (webhooks.data.data || []).filter((webhook: any) => webhook.url === webhookUrl)
+
+    for (const webhook of ours) {
+      await axios.delete(`https://api.jobadder.com/v2/webhooks/${webhook.id}`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      })
+    }
+
+    logger.info('Unregistered JobAdder webhooks', { tenantId, count: ours.length })
+    return ours.length
+  } catch (error) {
+    logger.error('Error unregistering JobAdder webhook', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      tenantId,
+      webhookUrl,
+    })
+    throw error
+  }
+}
+
 /**
  * Handles incoming webhooks from JobAdder
+ * Deliveries are verified and queued in the webhook inbox, then acknowledged with
+ * a 202 straight away; the webhook worker processes them in the background.
+ * Deliveries that were already received are acknowledged without being queued again.
  * @param req Express request
  * @param res Express response
  */
@@ -162,21 +281,95 @@ export async function handleWebhook(req: Request, res: Response) {
     }
 
     const webhookEvent = req.body as JobAdderWebhookPayload
-    const { event, data, metadata } = webhookEvent
+    const { event, metadata } = webhookEvent
     const { tenantId } = metadata
 
-    // Verify webhook signature
-    const webhookSecret = process.env.JOBADDER_WEBHOOK_SECRET || ''
-    if (!verifyWebhookSignature(req, webhookSecret)) {
+    // Verify webhook signature with the tenant's secrets
+    const tenant = await findWebhookTenant(tenantId)
+    const signatureValid = verifyWebhookSignature(req, tenant)
+
+    // Deliveries that aren't signed are never stored, so they can't fill the inbox
+    if (!signatureValid) {
       logger.warn('Invalid webhook signature', { requestId, tenantId })
       return res.status(401).send('Invalid webhook signature')
     }
 
+    // Store the raw delivery and queue it for the worker
+    const { delivery, duplicate } = await recordDelivery({
+      deliveryId: getDeliveryId(req.headers, req.body),
+      body: webhookEvent,
+      signatureValid,
+    })
+
+    if (duplicate) {
+      logger.info('Ignoring duplicate webhook delivery', {
+        requestId,
+        deliveryId: delivery.deliveryId,
+        status: delivery.status,
+        tenantId,
+      })
+      return res.status(200).send('Duplicate delivery ignored')
+    }
+
     if (!tenantId) {
       logger.warn('Missing tenant ID in webhook', { requestId })
+      await markDeliveryDeadLettered(delivery, 'Missing tenant ID')
       return res.status(400).send('Missing tenant ID')
     }
 
+    const duration = Date.now() - startTime
+    logger.info('Queued webhook delivery', {
+      requestId,
+      deliveryId: delivery.deliveryId,
+      duration,
+      event,
+      tenantId,
+    })
+
+    res.status(202).send('Webhook accepted')
+  } catch (error) {
+    const duration = Date.now() - startTime
+    logger.error('Error queueing webhook', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+      duration,
+    })
+
+    // Not stored, so let JobAdder send it again. Don't expose internal errors to the client
+    res.status(500).send('Error processing webhook')
+  }
+}
+
+/**
+ * Processes a queued webhook delivery
+ * Failures are retried with exponential backoff until the delivery's attempts are
+ * used up, after which it is dead-lettered for an operator to inspect.
+ * @param delivery Delivery from the webhook inbox
+ * @returns The delivery status after this attempt
+ */
+export async function processDelivery(
+  delivery: WebhookDelivery,
+): Promise<'processed' | 'retrying' | 'dead_letter'> {
+  const requestId = crypto.randomUUID()
+  const startTime = Date.now()
+
+  // A malformed payload will never succeed, so don't retry it
+  if (!isJobAdderWebhookPayload(delivery.payload)) {
+    logger.warn('Dead-lettering invalid webhook delivery', {
+      requestId,
+      deliveryId: delivery.deliveryId,
+    })
+    await markDeliveryDeadLettered(delivery, 'Stored payload is not a valid JobAdder webhook')
+    return 'dead_letter'
+  }
+
+  await markDeliveryProcessing(delivery)
+
+  try {
+    const { event } = delivery.payload
+    const { tenantId } = delivery.payload.metadata
+
     // Verify tenant exists
     const tenant = await payload.findByID({
       collection: 'tenants',
@@ -184,305 +377,493 @@ export async function handleWebhook(req: Request, res: Response) {
     })
 
     if (!tenant) {
-      logger.warn('Tenant not found', { requestId, tenantId })
-      return res.status(404).send('Tenant not found')
+      throw new Error('Tenant not found')
     }
 
     // Get access token
     const accessToken = await getAccessToken(tenantId)
 
     if (!accessToken) {
-      logger.error('Unable to authenticate with JobAdder', { requestId, tenantId })
-      return res.status(401).send('Unable to authenticate with JobAdder')
+      throw new Error('Unable to authenticate with JobAdder')
     }
 
-    switch (event) {
-      case 'job.created':
-      case 'job.updated': {
-        // Get full job details from JobAdder
-        logger.debug('Fetching job details from JobAdder', {
-          requestId,
-          jobId: data.id,
+    await processWebhookEvent(
+      delivery.payload,
+      accessToken,
+      requestId,
+      tenant.atsConfig?.jobAdder?.fieldMapping,
+      undefined,
+      tenant.atsConfig?.jobAdder?.consent,
+    )
+    await markDeliveryProcessed(delivery)
+
+    const duration = Date.now() - startTime
+    logger.info('Webhook processed successfully', {
+      requestId,
+      deliveryId: delivery.deliveryId,
+      attempts: delivery.attempts,
+      duration,
+      event,
+      tenantId,
+    })
+    return 'processed'
+  } catch (error) {
+    const status = await markDeliveryFailed(delivery, error)
+
+    logger.error('Error processing webhook', {
+      requestId,
+      deliveryId: delivery.deliveryId,
+      attempts: delivery.attempts,
+      status,
+      nextAttemptAt: delivery.nextAttemptAt,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+      duration: Date.now() - startTime,
+    })
+    return status
+  }
+}
+
+/**
+ * Processes webhook deliveries that are due, one at a time
+ * Called by the webhook worker on a schedule.
+ * @param options.limit Maximum number of deliveries to process in this run
+ * @returns Counts of deliveries by their status after processing
+ */
+export async function processWebhookQueue(
+  options: { limit?: number } = {},
+): Promise<{ processed: number; retrying: number; deadLettered: number }> {
+  const { limit = 25 } = options
+  const stats = { processed: 0, retrying: 0, deadLettered: 0 }
+
+  const deliveries = await getDueDeliveries(limit)
+
+  for (const delivery of deliveries) {
+    const status = await processDelivery(delivery)
+
+    if (status === 'processed') stats.processed++
+    else if (status === 'retrying') stats.retrying++
+    else stats.deadLettered++
+  }
+
+  if (deliveries.length > 0) {
+    logger.info('Processed webhook queue', { ...stats })
+  }
+
+  return stats
+}
+
+/**
+ * Re-processes a stored webhook delivery straight away, e.g. one that was dead-lettered
+ * The delivery's attempts are reset so a failure is retried on a fresh schedule.
+ * @param delivery Delivery from the webhook inbox
+ * @returns The delivery status after replaying
+ */
+export async function replayDelivery(
+  delivery: WebhookDelivery,
+): Promise<'processed' | 'retrying' | 'dead_letter'> {
+  logger.info('Replaying JobAdder webhook delivery', {
+    deliveryId: delivery.deliveryId,
+    previousStatus: delivery.status,
+  })
+
+  await resetDeliveryAttempts(delivery)
+  return processDelivery(delivery)
+}
+
+/**
+ * Applies a webhook event using records served by `client` rather than JobAdder's API
+ * The sandbox provider runs its simulated webhooks through the same pipeline this way.
+ * Throws if the event could not be processed.
+ * @param source Provider recorded as the source of the records the event saves
+ */
+export async function applyWebhookEvent(
+  webhookEvent: JobAdderWebhookPayload,
+  client: JobAdderReadClient,
+  requestId: string,
+  fieldMapping?: FieldMapping | null,
+  source: AtsProviderSlug = 'jobadder',
+): Promise<void> {
+  await processWebhookEvent(webhookEvent, '', requestId, fieldMapping, client, undefined, source)
+}
+
+/**
+ * Applies a verified webhook event to our jobs, candidates and placements
+ * Throws if the event could not be processed.
+ * @param webhookEvent Webhook payload
+ * @param accessToken JobAdder access token for the tenant
+ * @param requestId Request ID for log correlation
+ * @param fieldMapping Tenant's field mapping rules
+ * @param reader Client to fetch records with instead of JobAdder's API
+ * @param consent Where the tenant's JobAdder records candidate consent
+ * @param source Provider recorded as the source of the records the event saves
+ */
+async function processWebhookEvent(
+  webhookEvent: JobAdderWebhookPayload,
+  accessToken: string,
+  requestId: string,
+  fieldMapping?: FieldMapping | null,
+  reader?: JobAdderReadClient,
+  consent?: JobAdderConsentConfig | null,
+  source: AtsProviderSlug = 'jobadder',
+): Promise<void> {
+  const { event, data, metadata } = webhookEvent
+  const { tenantId } = metadata
+
+  switch (event) {
+    case 'job.created':
+    case 'job.updated': {
+      // Get full job details from JobAdder
+      logger.debug('Fetching job details from JobAdder', {
+        requestId,
+        jobId: data.id,
+        tenantId,
+      })
+
+      // Create JobAdder client, which keeps to JobAdder's rate limits
+      const client =
+        reader ||
+        new JobAdderClient({
+          clientId: '', // Not needed for token-based operations
+          clientSecret: '', // Not needed for token-based operations
+          accessToken,
+          refreshToken: '', // Not needed for this operation
           tenantId,
         })
 
-        const jobResponse = await axios.get<{ data: JobAdderJob }>(
-          `https://api.jobadder.com/v2/jobs/${data.id}`,
-          {
-            headers: { Authorization: `Bearer ${accessToken}` },
-          },
-        )
+      const jobAdderJob = await client.getJob(data.id)
 
-        const jobAdderJob = jobResponse.data.data
+      // Map JobAdder job to platform job
+      const mappedJob = await transformJob(
+        jobAdderJob,
+        parseInt(tenantId),
+        fieldMapping?.jobs,
+        source,
+      )
 
-        // Map JobAdder job to platform job
-        const mappedJob = await transformJob(jobAdderJob, parseInt(tenantId))
+      // Check if job already exists
+      const existingJobs = await payload.find({
+        collection: 'jobs',
+        where: {
+          'atsData.jobAdder.id': { equals: data.id },
+          tenant: { equals: parseInt(tenantId) },
+        },
+      })
 
-        // Check if job already exists
-        const existingJobs = await payload.find({
+      if (existingJobs.docs.length > 0) {
+        // Update existing job
+        await payload.update({
           collection: 'jobs',
-          where: {
-            'atsData.jobAdder.id': { equals: data.id },
-            tenant: { equals: parseInt(tenantId) },
-          },
+          id: existingJobs.docs[0].id,
+          data: mappedJob as any,
         })
 
-        if (existingJobs.docs.length > 0) {
-          // Update existing job
-          await payload.update({
-            collection: 'jobs',
-            id: existingJobs.docs[0].id,
-            data: mappedJob as any,
-          })
-
-          logger.info('Updated job from webhook', {
-            requestId,
-            jobId: existingJobs.docs[0].id,
-            jobAdderJobId: data.id,
-            tenantId,
-            event,
-          })
-        } else {
-          // Create new job
-          const newJob = await payload.create({
-            collection: 'jobs',
-            data: mappedJob as any,
-          })
-
-          logger.info('Created new job from webhook', {
-            requestId,
-            jobId: newJob.id,
-            jobAdderJobId: data.id,
-            tenantId,
-            event,
-          })
-        }
-        break
-      }
+        logger.info('Updated job from webhook', {
+          requestId,
+          jobId: existingJobs.docs[0].id,
+          jobAdderJobId: data.id,
+          tenantId,
+          event,
+        })
+      } else {
+        // Create new job
+        const newJob = await payload.create({
+          collection: 'jobs',
+          data: mappedJob as any,
+        })
 
-      case 'job.deleted': {
-        // Find and update job status to closed
-        logger.debug('Processing job deletion', {
+        logger.info('Created new job from webhook', {
           requestId,
-          jobId: data.id,
+          jobId: newJob.id,
+          jobAdderJobId: data.id,
           tenantId,
+          event,
         })
+      }
+      break
+    }
+
+    case 'job.deleted': {
+      // Find and update job status to closed
+      logger.debug('Processing job deletion', {
+        requestId,
+        jobId: data.id,
+        tenantId,
+      })
+
+      const existingJobs = await payload.find({
+        collection: 'jobs',
+        where: {
+          'atsData.jobAdder.id': { equals: data.id },
+          tenant: { equals: parseInt(tenantId) },
+        },
+      })
 
-        const existingJobs = await payload.find({
+      if (existingJobs.docs.length > 0) {
+        await payload.update({
           collection: 'jobs',
-          where: {
-            'atsData.jobAdder.id': { equals: data.id },
-            tenant: { equals: parseInt(tenantId) },
-          },
+          id: existingJobs.docs[0].id,
+          data: { status: 'closed' },
         })
 
-        if (existingJobs.docs.length > 0) {
-          await payload.update({
-            collection: 'jobs',
-            id: existingJobs.docs[0].id,
-            data: { status: 'closed' },
-          })
-
-          logger.info('Closed job from webhook', {
-            requestId,
-            jobId: existingJobs.docs[0].id,
-            jobAdderJobId: data.id,
-            tenantId,
-            event,
-          })
-        } else {
-          logger.warn('Job not found for deletion', {
-            requestId,
-            jobAdderJobId: data.id,
-            tenantId,
-          })
-        }
-        break
+        logger.info('Closed job from webhook', {
+          requestId,
+          jobId: existingJobs.docs[0].id,
+          jobAdderJobId: data.id,
+          tenantId,
+          event,
+        })
+      } else {
+        logger.warn('Job not found for deletion', {
+          requestId,
+          jobAdderJobId: data.id,
+          tenantId,
+        })
       }
+      break
+    }
 
-      case 'candidate.created':
-      case 'candidate.updated': {
-        // Create JobAdder client
-        const client = new JobAdderClient({
+    case 'candidate.created':
+    case 'candidate.updated': {
+      // Create JobAdder client
+      const client =
+        reader ||
+        new JobAdderClient({
           clientId: '', // Not needed for token-based operations
           clientSecret: '', // Not needed for token-based operations
           accessToken,
           refreshToken: '', // Not needed for this operation
+          tenantId,
         })
 
-        // Get full candidate details from JobAdder
-        logger.debug('Fetching candidate details from JobAdder', {
-          requestId,
-          candidateId: data.id,
-          tenantId,
+      // Get full candidate details from JobAdder
+      logger.debug('Fetching candidate details from JobAdder', {
+        requestId,
+        candidateId: data.id,
+        tenantId,
+      })
+
+      try {
+        // Get candidate details
+        const candidate = await client.getCandidate(data.id)
+
+        // Check if the candidate exists in this tenant, by JobAdder ID, an earlier merge or email
+        const existing = await findTenantCandidate(tenantId, {
+          source,
+          sourceId: data.id,
+          email: candidate.email,
+          idPath: 'atsData.jobAdder.id',
         })
 
-        try {
-          // Get candidate details
-          const candidate = await client.getCandidate(data.id)
+        // Candidates who refused consent are not saved, though a candidate we already have keeps
+        // the refusal
+        const candidateConsent = await resolveCandidateConsent(
+          candidate,
+          parseInt(tenantId),
+          existing?.candidate,
+          consent,
+        )
+        if (candidateConsent.status === 'refused') {
+          await withdrawCandidateConsent(existing?.candidate, parseInt(tenantId), candidateConsent)
+          logger.info(`Skipping candidate ${data.id} due to privacy consent`, {
+            requestId,
+            tenantId,
+            source: candidateConsent.source,
+            reason: candidateConsent.reason,
+          })
+          break
+        }
 
-          // Get additional candidate data
-          let resume, experiences, education, placements
+        // Get additional candidate data
+        let resume, experiences, education
+        let placements: JobAdderCandidatePlacement[] | undefined
 
+        try {
+          // Fetch resume if available
           try {
-            // Fetch resume if available
-            try {
-              resume = await client.getCandidateResume(data.id)
-              logger.debug(`Fetched resume for candidate ${data.id}`)
-            } catch (error) {
-              logger.warn(`Could not fetch resume for candidate ${data.id}`, {
-                error: error instanceof Error ? error.message : 'Unknown error',
-              })
-              // Continue without resume
-            }
-
-            // Fetch experiences
-            experiences = await client.getCandidateExperiences(data.id)
-            logger.debug(`Fetched ${experiences.length} experiences for candidate ${data.id}`)
-
-            // Fetch education
-            education = await client.getCandidateEducation(data.id)
-            logger.debug(`Fetched ${education.length} education records for candidate ${data.id}`)
-
-            // Fetch placements
-            placements = await client.getCandidatePlacements(data.id)
-            logger.debug(`Fetched ${placements.length} placements for candidate ${data.id}`)
+            resume = await client.getCandidateResume(data.id)
+            logger.debug(`Fetched resume for candidate ${data.id}`)
           } catch (error) {
-            logger.error(`Error fetching additional data for candidate ${data.id}`, {
+            logger.warn(`Could not fetch resume for candidate ${data.id}`, {
               error: error instanceof Error ? error.message : 'Unknown error',
             })
-            // Continue with partial data
+            // Continue without resume
           }
 
-          // Transform candidate data
-          const transformedCandidate = await transformCandidate(
-            candidate,
-            parseInt(tenantId),
-            resume,
-            experiences || [],
-            education || [],
-            placements || [],
-          )
-
-          // Check if candidate already exists
-          const existingCandidates = await payload.find({
-            collection: 'candidates' as any, // Type assertion to bypass TypeScript check
-            where: {
-              'atsData.jobAdder.id': {
-                equals: data.id,
-              },
-            },
-          })
+          // Fetch experiences
+          experiences = await client.getCandidateExperiences(data.id)
+          logger.debug(`Fetched ${experiences.length} experiences for candidate ${data.id}`)
 
-          if (existingCandidates.docs.length > 0) {
-            // Update existing candidate
-            const updatedCandidate = await payload.update({
-              collection: 'candidates' as any, // Type assertion to bypass TypeScript check
-              id: existingCandidates.docs[0].id,
-              data: transformedCandidate as any,
-            })
+          // Fetch education
+          education = await client.getCandidateEducation(data.id)
+          logger.debug(`Fetched ${education.length} education records for candidate ${data.id}`)
 
-            logger.info('Updated candidate from webhook', {
-              requestId,
-              candidateId: updatedCandidate.id,
-              jobAdderCandidateId: data.id,
-              tenantId,
-              event,
-            })
-          } else {
-            // Create new candidate
-            const newCandidate = await payload.create({
-              collection: 'candidates' as any, // Type assertion to bypass TypeScript check
-              data: transformedCandidate as any,
-            })
-
-            logger.info('Created new candidate from webhook', {
-              requestId,
-              candidateId: newCandidate.id,
-              jobAdderCandidateId: data.id,
-              tenantId,
-              event,
-            })
-          }
+          // Fetch placements
+          placements = await client.getCandidatePlacements(data.id)
+          logger.debug(`Fetched ${placements.length} placements for candidate ${data.id}`)
         } catch (error) {
-          logger.error(`Error processing candidate webhook for ${data.id}`, {
+          logger.error(`Error fetching additional data for candidate ${data.id}`, {
             error: error instanceof Error ? error.message : 'Unknown error',
-            requestId,
-            candidateId: data.id,
-            tenantId,
-            event,
           })
+          // Continue with partial data
         }
-        break
-      }
 
-      case 'candidate.deleted': {
-        // Find and update candidate status to inactive
-        logger.debug('Processing candidate deletion', {
-          requestId,
-          candidateId: data.id,
-          tenantId,
-        })
+        // Transform candidate data, recording the consent we resolved and keeping the
+        // candidate's own sharing preferences
+        const transformedCandidate = {
+          ...(await transformCandidate(
+            candidate,
+            parseInt(tenantId),
+            resume,
+            experiences || [],
+            education || [],
+            placements || [],
+            fieldMapping?.candidates,
+            source,
+          )),
+          dataUsageConsent: candidateConsent.status === 'granted',
+          ...(existing?.candidate.dataSharingPreferences && {
+            dataSharingPreferences: existing.candidate.dataSharingPreferences,
+          }),
+        }
 
-        const existingCandidates = await payload.find({
-          collection: 'candidates' as any, // Type assertion to bypass TypeScript check
-          where: {
-            'atsData.jobAdder.id': { equals: data.id },
-            tenant: { equals: parseInt(tenantId) },
-          },
-        })
+        let candidateId: string | number
 
-        if (existingCandidates.docs.length > 0) {
-          await payload.update({
+        if (existing) {
+          // Update existing candidate
+          const updatedCandidate = await payload.update({
             collection: 'candidates' as any, // Type assertion to bypass TypeScript check
-            id: existingCandidates.docs[0].id,
-            data: { status: 'inactive' },
+            id: existing.candidate.id,
+            data: {
+              ...transformedCandidate,
+              atsData: mergeAtsData(
+                existing.candidate.atsData,
+                transformedCandidate.atsData,
+                existing.matchedBy,
+              ),
+            } as any,
           })
+          candidateId = updatedCandidate.id
 
-          logger.info('Marked candidate as inactive from webhook', {
+          logger.info('Updated candidate from webhook', {
             requestId,
-            candidateId: existingCandidates.docs[0].id,
+            candidateId: updatedCandidate.id,
             jobAdderCandidateId: data.id,
             tenantId,
             event,
           })
         } else {
-          logger.warn('Candidate not found for deletion', {
+          // Create new candidate
+          const newCandidate = await payload.create({
+            collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+            data: transformedCandidate as any,
+          })
+          candidateId = newCandidate.id
+
+          logger.info('Created new candidate from webhook', {
             requestId,
+            candidateId: newCandidate.id,
             jobAdderCandidateId: data.id,
             tenantId,
+            event,
           })
         }
-        break
-      }
 
-      default:
-        logger.warn('Unhandled webhook event', {
+        if (placements?.length) {
+          await savePlacements(placements, parseInt(tenantId), candidateId, source)
+        }
+      } catch (error) {
+        logger.error(`Error processing candidate webhook for ${data.id}`, {
+          error: error instanceof Error ? error.message : 'Unknown error',
           requestId,
+          candidateId: data.id,
+          tenantId,
           event,
+        })
+        // Rethrow so the delivery is marked failed and can be replayed
+        throw error
+      }
+      break
+    }
+
+    case 'placement.created':
+    case 'placement.updated': {
+      const client =
+        reader ||
+        new JobAdderClient({
+          clientId: '', // Not needed for token-based operations
+          clientSecret: '', // Not needed for token-based operations
+          accessToken,
+          refreshToken: '', // Not needed for this operation
           tenantId,
         })
+
+      logger.debug('Fetching placement details from JobAdder', {
+        requestId,
+        placementId: data.id,
+        tenantId,
+      })
+
+      const placement = await client.getPlacement(data.id)
+      const { id, created } = await upsertPlacement(
+        transformPlacement(placement, parseInt(tenantId), source),
+      )
+
+      logger.info(`${created ? 'Created' : 'Updated'} placement from webhook`, {
+        requestId,
+        placementId: id,
+        jobAdderPlacementId: data.id,
+        tenantId,
+        event,
+      })
+      break
     }
 
-    const duration = Date.now() - startTime
-    logger.info('Webhook processed successfully', {
-      requestId,
-      duration,
-      event,
-      tenantId,
-    })
+    case 'candidate.deleted': {
+      // Find and update candidate status to inactive
+      logger.debug('Processing candidate deletion', {
+        requestId,
+        candidateId: data.id,
+        tenantId,
+      })
 
-    res.status(200).send('Webhook processed successfully')
-  } catch (error) {
-    const duration = Date.now() - startTime
-    logger.error('Error processing webhook', {
-      requestId,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      stack: error instanceof Error ? error.stack : undefined,
-      duration,
-    })
+      const existingCandidates = await payload.find({
+        collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+        where: {
+          'atsData.jobAdder.id': { equals: data.id },
+          tenant: { equals: parseInt(tenantId) },
+        },
+      })
 
-    // Don't expose internal errors to the client
-    res.status(500).send('Error processing webhook')
+      if (existingCandidates.docs.length > 0) {
+        await payload.update({
+          collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+          id: existingCandidates.docs[0].id,
+          data: { status: 'inactive' },
+        })
+
+        logger.info('Marked candidate as inactive from webhook', {
+          requestId,
+          candidateId: existingCandidates.docs[0].id,
+          jobAdderCandidateId: data.id,
+          tenantId,
+          event,
+        })
+      } else {
+        logger.warn('Candidate not found for deletion', {
+          requestId,
+          jobAdderCandidateId: data.id,
+          tenantId,
+        })
+      }
+      break
+    }
+
+    default:
+      logger.warn('Unhandled webhook event', {
+        requestId,
+        event,
+        tenantId,
+      })
   }
 }
@@ -0,0 +1,231 @@
+import crypto from 'crypto'
+import payload from 'payload'
+import { webhookLogger as logger } from '@/lib/logger'
+import { Tenant } from '../../../../payload-types'
+import { decryptSecret } from '../../credentials'
+
+/**
+ * Per-tenant secrets JobAdder signs webhook deliveries with
+ *
+ * Each delivery carries `X-JobAdder-Timestamp` (Unix seconds) and `X-JobAdder-Signature`, a
+ * hex HMAC-SHA256 of `<timestamp>.<body>` under the tenant's secret. Deliveries signed outside
+ * the tolerance window are rejected, so a captured delivery can't be replayed later.
+ *
+ * Rotating a tenant's secret keeps the previous one accepted for a grace period, while
+ * JobAdder switches to the new one.
+ *
+ * Webhooks registered before per-tenant secrets were signed with the global
+ * `JOBADDER_WEBHOOK_SECRET`, as a hex HMAC-SHA256 of the body without a timestamp. Those
+ * deliveries are still accepted while the global secret is set, until the cutoff, so tenants
+ * keep receiving them until their webhook is registered again with their own secret.
+ *
+ * Settings:
+ * - JOBADDER_WEBHOOK_TOLERANCE_SECONDS: how far a delivery's timestamp may be from now
+ * - JOBADDER_WEBHOOK_SECRET_GRACE_HOURS: how long the previous secret is accepted after rotating
+ * - JOBADDER_WEBHOOK_SECRET: global secret of webhooks registered before per-tenant secrets
+ * - JOBADDER_LEGACY_WEBHOOK_SECRET_UNTIL: date after which the global secret is no longer accepted
+ */
+
+const DEFAULT_TOLERANCE_SECONDS = 300
+const DEFAULT_GRACE_PERIOD_HOURS = 24
+
+export interface SignedDelivery {
+  signature?: string | null
+  timestamp?: string | null
+  body: string
+}
+
+/**
+ * How far a delivery's timestamp may be from now
+ * @returns Tolerance in milliseconds
+ */
+export function getSignatureTolerance(): number {
+  const seconds = Number(process.env.JOBADDER_WEBHOOK_TOLERANCE_SECONDS)
+  return (seconds > 0 ? seconds : DEFAULT_TOLERANCE_SECONDS) * 1000
+}
+
+/**
+ * How long the previous secret is accepted after rotating
+ * @returns Grace period in milliseconds
+ */
+export function getRotationGracePeriod(): number {
+  const hours = Number(process.env.JOBADDER_WEBHOOK_SECRET_GRACE_HOURS)
+  return (hours > 0 ? hours : DEFAULT_GRACE_PERIOD_HOURS) * 60 * 60 * 1000
+}
+
+export function generateWebhookSecret(): string {
+  return crypto.randomBytes(32).toString('hex')
+}
+
+/**
+ * Signature JobAdder sends with a delivery
+ * @param timestamp Unix seconds, as sent in `X-JobAdder-Timestamp`
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/**
+ * Secrets a tenant's deliveries may be signed with: the current one, and the previous one
+ * until its grace period ends
+ */
+export function getAcceptedSecrets(
+  tenant: Tenant | null | undefined,
+  now: number = Date.now(),
+): string[] {
+  const config = tenant?.atsConfig?.jobAdder
+  const secrets: string[] = []
+
+  const current = decryptSecret(config?.webhookSecret)
+  if (current) {
+    secrets.push(current)
+  }
+
+  const previous = decryptSecret(config?.previousWebhookSecret)
+  const expiresAt = config?.previousWebhookSecretExpiresAt
+  if (previous && expiresAt && Date.parse(expiresAt) > now) {
+    secrets.push(previous)
+  }
+
+  return secrets
+}
+
+/**
+ * Global secret webhooks registered before per-tenant secrets are signed with
+ * @returns The secret, or null once it is unset or its cutoff has passed
+ */
+export function getLegacyWebhookSecret(now: number = Date.now()): string | null {
+  const secret = process.env.JOBADDER_WEBHOOK_SECRET
+  const until = process.env.JOBADDER_LEGACY_WEBHOOK_SECRET_UNTIL
+
+  if (!secret || (until && !(Date.parse(until) > now))) {
+    return null
+  }
+  return secret
+}
+
+/**
+ * Verifies a delivery signed the way webhooks registered before per-tenant secrets are:
+ * an HMAC of the body only, under the global secret
+ * @returns Boolean indicating if the signature is valid
+ */
+export function verifyLegacySignature(delivery: SignedDelivery, secret: string): boolean {
+  const { signature, body } = delivery
+
+  if (!signature) {
+    logger.warn('Missing webhook signature header')
+    return false
+  }
+
+  const expected = crypto.createHmac('sha256', secret).update(body).digest('hex')
+  return (
+    signature.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  )
+}
+
+/**
+ * Verifies a delivery's timestamped signature against any of the accepted secrets
+ * @returns Boolean indicating if the signature is valid and recent
+ */
+export function verifySignature(
+  delivery: SignedDelivery,
+  secrets: string[],
+  now: number = Date.now(),
+): boolean {
+  const { signature, timestamp, body } = delivery
+
+  if (!signature || !timestamp) {
+    logger.warn('Missing webhook signature or timestamp header')
+    return false
+  }
+
+  const signedAt = Number(timestamp) * 1000
+  if (!Number.isFinite(signedAt) || Math.abs(now - signedAt) > getSignatureTolerance()) {
+    logger.warn('Webhook timestamp is outside the tolerance window', { timestamp })
+    return false
+  }
+
+  return secrets.some((secret) => {
+    const expected = signWebhookPayload(secret, timestamp, body)
+    return (
+      signature.length === expected.length &&
+      crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    )
+  })
+}
+
+/**
+ * Get the tenant's webhook secret, creating one if the tenant doesn't have one yet
+ * @param tenantId Tenant ID
+ * @returns The secret, and whether it was just created
+ */
+export async function ensureWebhookSecret(
+  tenantId: string,
+): Promise<{ secret: string; created: boolean }> {
+  const tenant = (await payload.findByID({
+    collection: 'tenants',
+    id: tenantId,
+  })) as unknown as Tenant
+
+  const current = decryptSecret(tenant?.atsConfig?.jobAdder?.webhookSecret)
+  if (current) {
+    return { secret: current, created: false }
+  }
+
+  const secret = generateWebhookSecret()
+  await payload.update({
+    collection: 'tenants',
+    id: tenantId,
+    data: {
+      atsConfig: {
+        jobAdder: {
+          webhookSecret: secret,
+          webhookSecretRotatedAt: new Date().toISOString(),
+        },
+      },
+    } as any,
+  })
+
+  logger.info('Created JobAdder webhook secret', { tenantId })
+  return { secret, created: true }
+}
+
+/**
+ * Replace the tenant's webhook secret with a new one
+ * The current secret becomes the previous one and is accepted until the grace period ends.
+ * JobAdder still has to be given the new secret, see `rotateWebhookSecret` in webhook.ts.
+ * @param tenantId Tenant ID
+ * @returns The new secret and when the previous one stops being accepted
+ */
+export async function replaceWebhookSecret(
+  tenantId: string,
+  now: number = Date.now(),
+): Promise<{ secret: string; previousExpiresAt: string | null }> {
+  const tenant = (await payload.findByID({
+    collection: 'tenants',
+    id: tenantId,
+  })) as unknown as Tenant
+
+  const current = decryptSecret(tenant?.atsConfig?.jobAdder?.webhookSecret)
+  const secret = generateWebhookSecret()
+  const previousExpiresAt = current ? new Date(now + getRotationGracePeriod()).toISOString() : null
+
+  await payload.update({
+    collection: 'tenants',
+    id: tenantId,
+    data: {
+      atsConfig: {
+        jobAdder: {
+          webhookSecret: secret,
+          previousWebhookSecret: current || null,
+          previousWebhookSecretExpiresAt: previousExpiresAt,
+          webhookSecretRotatedAt: new Date(now).toISOString(),
+        },
+      },
+    } as any,
+  })
+
+  logger.info('Rotated JobAdder webhook secret', { tenantId, previousExpiresAt })
+  return { secret, previousExpiresAt }
+}
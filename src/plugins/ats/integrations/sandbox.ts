@@ -0,0 +1,40 @@
+import { sandboxIntegration } from './sandbox/index'
+import { AtsProvider } from '../types'
+
+// Re-export the integration for direct use in API routes
+export { sandboxIntegration }
+
+// Export the integration definition for the ATS plugin
+export const sandbox: AtsProvider = {
+  slug: 'sandbox',
+  name: 'Sandbox',
+  description: 'Built-in ATS with synthetic data, for demos and local development',
+  feature: 'atsSandbox',
+
+  auth: {
+    // There is no account to authorise, so go straight to our callback with the signed state
+    getAuthorizationUrl: async (_tenantId, state) => {
+      const baseUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000'
+      return `${baseUrl}/api/oauth/sandbox/callback?code=sandbox&state=${encodeURIComponent(state)}`
+    },
+    handleCallback: (_code, tenantId) => sandboxIntegration.connect(tenantId),
+    disconnect: (tenantId) => sandboxIntegration.disconnect(tenantId),
+    isConnected: (tenant) => Boolean(tenant.atsConfig?.sandbox?.connectedAt),
+  },
+
+  pullJobs: (tenantId, options) => sandboxIntegration.syncTenantJobs(tenantId, options),
+  pullCandidates: (tenantId, options) => sandboxIntegration.syncTenantCandidates(tenantId, options),
+  previewSync: (tenantId, options) => sandboxIntegration.previewTenantSync(tenantId, options),
+
+  webhooks: {
+    process: () => sandboxIntegration.processWebhookQueue(),
+    replay: (delivery) => sandboxIntegration.replayDelivery(delivery),
+  },
+
+  getHealth: (tenant) => ({
+    enabled: Boolean(tenant.features?.atsSandbox),
+    connected: Boolean(tenant.atsConfig?.sandbox?.connectedAt),
+    lastJobSync: tenant.atsConfig?.sandbox?.lastJobSync,
+    lastCandidateSync: tenant.atsConfig?.sandbox?.lastCandidateSync,
+  }),
+}
@@ -0,0 +1,94 @@
+import {
+  SANDBOX_INITIAL_CANDIDATES,
+  SANDBOX_INITIAL_JOBS,
+  SANDBOX_INITIAL_PLACEMENTS,
+  generateSandboxState,
+  isSandboxId,
+  simulateSandboxEvent,
+} from '../data'
+import { SandboxClient } from '../client'
+import { isJobAdderWebhookPayload } from '../../jobAdder/types'
+
+const NOW = Date.parse('2025-06-01T00:00:00Z')
+
+describe('sandbox data', () => {
+  it('should generate the same data for the same tenant', () => {
+    const first = generateSandboxState('7', NOW)
+    const second = generateSandboxState('7', NOW)
+    const other = generateSandboxState('8', NOW)
+
+    expect(second.jobs).toEqual(first.jobs)
+    expect(second.candidates).toEqual(first.candidates)
+    expect(other.jobs.map((job) => job.title)).not.toEqual(first.jobs.map((job) => job.title))
+  })
+
+  it('should generate placed candidates into filled jobs', () => {
+    const state = generateSandboxState('7', NOW)
+    const placements = state.candidates.flatMap((record) => record.placements)
+
+    expect(state.jobs).toHaveLength(SANDBOX_INITIAL_JOBS)
+    expect(state.candidates).toHaveLength(SANDBOX_INITIAL_CANDIDATES)
+    expect(placements).toHaveLength(SANDBOX_INITIAL_PLACEMENTS)
+
+    for (const placement of placements) {
+      const job = state.jobs.find((item) => item.id === placement.jobId)
+      expect(job?.status).toBe('filled')
+      expect(Date.parse(placement.createdAt!)).toBeGreaterThan(Date.parse(job!.postedDate))
+    }
+    expect(placements.every((placement) => isSandboxId(placement.id))).toBe(true)
+  })
+
+  it('should describe simulated changes as JobAdder webhooks', () => {
+    const state = generateSandboxState('7', NOW)
+
+    for (let i = 0; i < 50; i++) {
+      const event = simulateSandboxEvent(state, NOW + i * 60000)
+
+      expect(isJobAdderWebhookPayload(event)).toBe(true)
+      expect(event.metadata.tenantId).toBe('7')
+      expect(isSandboxId(event.data.id)).toBe(true)
+    }
+
+    // Removing or filling a job can leave one fewer than the minimum until the next event
+    expect(state.jobs.filter((job) => job.status === 'active').length).toBeGreaterThanOrEqual(4)
+    expect(state.lastEventAt).toBe(NOW + 49 * 60000)
+  })
+})
+
+describe('SandboxClient', () => {
+  it('should list every record unless a status is given', async () => {
+    const state = generateSandboxState('7', NOW)
+    const client = new SandboxClient(state)
+
+    expect(await client.getAllJobs()).toHaveLength(SANDBOX_INITIAL_JOBS)
+    expect(await client.getAllJobs({ status: 'active' })).toHaveLength(
+      SANDBOX_INITIAL_JOBS - SANDBOX_INITIAL_PLACEMENTS,
+    )
+    expect(await client.getCandidates({ limit: 10, offset: 35 })).toHaveLength(5)
+    expect(await client.getCandidates({ status: 'placed' })).toHaveLength(
+      SANDBOX_INITIAL_PLACEMENTS,
+    )
+  })
+
+  it('should serve copies of the sandbox records', async () => {
+    const state = generateSandboxState('7', NOW)
+    const client = new SandboxClient(state)
+    const [record] = state.candidates
+
+    const candidate = await client.getCandidate(record.candidate.id)
+    candidate.firstName = 'Changed'
+
+    expect(record.candidate.firstName).not.toBe('Changed')
+    expect(await client.getCandidatePlacements(record.candidate.id)).toEqual(record.placements)
+    expect(await client.getPlacement(record.placements[0].id)).toEqual(record.placements[0])
+  })
+
+  it('should reject records that are not in the sandbox', async () => {
+    const client = new SandboxClient(generateSandboxState('7', NOW))
+
+    await expect(client.getJob('12345')).rejects.toThrow('Sandbox job 12345 not found')
+    await expect(client.getCandidateResume('12345')).rejects.toThrow(
+      'Sandbox candidate 12345 not found',
+    )
+  })
+})
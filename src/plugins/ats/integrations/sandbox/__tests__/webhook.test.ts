@@ -0,0 +1,126 @@
+import payload from 'payload'
+import { processSandboxWebhooks } from '../webhook'
+import { resetSandboxState } from '../data'
+import { SandboxClient } from '../client'
+import { applyWebhookEvent } from '../../jobAdder/webhook'
+import {
+  getDueDeliveries,
+  recordDelivery,
+  markDeliveryProcessed,
+  markDeliveryFailed,
+  WebhookDelivery,
+} from '../../jobAdder/inbox'
+
+// Mock dependencies
+jest.mock('payload', () => ({
+  find: jest.fn(),
+  findByID: jest.fn(),
+}))
+jest.mock('@/lib/logger', () => ({
+  sandboxLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+jest.mock('../../jobAdder/webhook', () => ({
+  applyWebhookEvent: jest.fn(),
+}))
+jest.mock('../../jobAdder/inbox', () => ({
+  getDueDeliveries: jest.fn(),
+  recordDelivery: jest.fn(),
+  markDeliveryProcessing: jest.fn(),
+  markDeliveryProcessed: jest.fn(),
+  markDeliveryFailed: jest.fn(),
+  markDeliveryDeadLettered: jest.fn(),
+  resetDeliveryAttempts: jest.fn(),
+}))
+
+const connectedTenant = {
+  id: 7,
+  features: { atsSandbox: true },
+  atsConfig: { sandbox: { connectedAt: '2025-06-01T00:00:00.000Z' } },
+}
+
+const delivery = (payload: unknown): WebhookDelivery => ({
+  id: 1,
+  deliveryId: 'sandbox-1',
+  provider: 'sandbox',
+  signatureValid: true,
+  status: 'received',
+  attempts: 0,
+  duplicateCount: 0,
+  receivedAt: '2025-06-01T00:00:00.000Z',
+  payload,
+})
+
+describe('processSandboxWebhooks', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    resetSandboxState()
+    ;(payload.find as jest.Mock).mockResolvedValue({
+      docs: [connectedTenant, { id: 8, features: { atsSandbox: true }, atsConfig: {} }],
+    })
+    ;(payload.findByID as jest.Mock).mockResolvedValue(connectedTenant)
+    ;(getDueDeliveries as jest.Mock).mockResolvedValue([])
+  })
+
+  it('should fire a simulated webhook for connected tenants once per interval', async () => {
+    await processSandboxWebhooks()
+    await processSandboxWebhooks()
+
+    expect(recordDelivery).toHaveBeenCalledTimes(1)
+    expect(recordDelivery).toHaveBeenCalledWith(
+      expect.objectContaining({
+        provider: 'sandbox',
+        signatureValid: true,
+        body: expect.objectContaining({ metadata: { tenantId: '7' }, webhookId: 'sandbox' }),
+      }),
+    )
+  })
+
+  it('should apply queued deliveries with records from the sandbox', async () => {
+    const event = {
+      event: 'job.updated',
+      data: { id: 'sandbox-job-1' },
+      metadata: { tenantId: '7' },
+      timestamp: '2025-06-01T00:00:00.000Z',
+      webhookId: 'sandbox',
+    }
+    ;(getDueDeliveries as jest.Mock).mockResolvedValue([delivery(event)])
+
+    const stats = await processSandboxWebhooks()
+
+    expect(getDueDeliveries).toHaveBeenCalledWith(25, 'sandbox')
+    expect(applyWebhookEvent).toHaveBeenCalledWith(
+      event,
+      expect.any(SandboxClient),
+      expect.any(String),
+      undefined,
+      'sandbox',
+    )
+    expect(markDeliveryProcessed).toHaveBeenCalled()
+    expect(stats).toEqual({ emitted: 1, processed: 1, retrying: 0, deadLettered: 0 })
+  })
+
+  it('should retry deliveries that fail to apply', async () => {
+    const error = new Error('Sandbox job sandbox-job-99 not found')
+    ;(getDueDeliveries as jest.Mock).mockResolvedValue([
+      delivery({
+        event: 'job.created',
+        data: { id: 'sandbox-job-99' },
+        metadata: { tenantId: '7' },
+        timestamp: '2025-06-01T00:00:00.000Z',
+        webhookId: 'sandbox',
+      }),
+    ])
+    ;(applyWebhookEvent as jest.Mock).mockRejectedValue(error)
+    ;(markDeliveryFailed as jest.Mock).mockResolvedValue('retrying')
+
+    const stats = await processSandboxWebhooks()
+
+    expect(markDeliveryFailed).toHaveBeenCalledWith(expect.anything(), error)
+    expect(stats.retrying).toBe(1)
+  })
+})
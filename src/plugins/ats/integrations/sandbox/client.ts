@@ -0,0 +1,120 @@
+import { JobAdderRateLimitMetrics, JobAdderReadClient } from '../jobAdder/client'
+import {
+  JobAdderCandidate,
+  JobAdderCandidateEducation,
+  JobAdderCandidateExperience,
+  JobAdderCandidatePlacement,
+  JobAdderCandidateResume,
+  JobAdderJob,
+} from '../jobAdder/types'
+import { SandboxCandidateRecord, SandboxState, getSandboxState } from './data'
+
+// Copies so callers can't change the sandbox's records by changing what they were given
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value))
+
+/**
+ * Serves a tenant's sandbox ATS through the same calls the JobAdder sync and webhook
+ * pipelines make on `JobAdderClient`, without any network access
+ *
+ * Unlike JobAdder, listing calls without a status return every record, so filled jobs
+ * and placed candidates (and their placements) come through a sync too.
+ */
+export class SandboxClient implements JobAdderReadClient {
+  constructor(private readonly state: SandboxState) {}
+
+  getRateLimitMetrics(): JobAdderRateLimitMetrics {
+    return {
+      requests: 0,
+      retries: 0,
+      throttled: 0,
+      waitedMs: 0,
+      queued: 0,
+      inFlight: 0,
+      availableTokens: 0,
+      pausedUntil: null,
+    }
+  }
+
+  // The sandbox is never rate limited
+  async waitForRateLimit(): Promise<void> {}
+
+  // `updatedSince` is ignored: sandbox jobs don't track changes, so every sync is a full one
+  async getAllJobs(
+    params: { status?: JobAdderJob['status']; updatedSince?: string; pageSize?: number } = {},
+  ): Promise<JobAdderJob[]> {
+    const { status } = params
+    return clone(this.state.jobs.filter((job) => !status || job.status === status))
+  }
+
+  async getJob(jobId: string): Promise<JobAdderJob> {
+    const job = this.state.jobs.find((item) => item.id === jobId)
+    if (!job) {
+      throw new Error(`Sandbox job ${jobId} not found`)
+    }
+    return clone(job)
+  }
+
+  async getCandidates(
+    params: {
+      status?: JobAdderCandidate['status']
+      updatedSince?: string
+      limit?: number
+      offset?: number
+    } = {},
+  ): Promise<JobAdderCandidate[]> {
+    const { status, updatedSince, limit = 100, offset = 0 } = params
+
+    return clone(
+      this.state.candidates
+        .map((record) => record.candidate)
+        .filter((candidate) => !status || candidate.status === status)
+        .filter((candidate) => !updatedSince || candidate.updatedAt >= updatedSince)
+        .slice(offset, offset + limit),
+    )
+  }
+
+  async getCandidate(candidateId: string): Promise<JobAdderCandidate> {
+    return clone(this.getRecord(candidateId).candidate)
+  }
+
+  async getCandidateResume(candidateId: string): Promise<JobAdderCandidateResume> {
+    return clone(this.getRecord(candidateId).resume)
+  }
+
+  async getCandidateExperiences(candidateId: string): Promise<JobAdderCandidateExperience[]> {
+    return clone(this.getRecord(candidateId).experiences)
+  }
+
+  async getCandidateEducation(candidateId: string): Promise<JobAdderCandidateEducation[]> {
+    return clone(this.getRecord(candidateId).education)
+  }
+
+  async getCandidatePlacements(candidateId: string): Promise<JobAdderCandidatePlacement[]> {
+    return clone(this.getRecord(candidateId).placements)
+  }
+
+  async getPlacement(placementId: string): Promise<JobAdderCandidatePlacement> {
+    for (const record of this.state.candidates) {
+      const placement = record.placements.find((item) => item.id === placementId)
+      if (placement) {
+        return clone(placement)
+      }
+    }
+    throw new Error(`Sandbox placement ${placementId} not found`)
+  }
+
+  private getRecord(candidateId: string): SandboxCandidateRecord {
+    const record = this.state.candidates.find((item) => item.candidate.id === candidateId)
+    if (!record) {
+      throw new Error(`Sandbox candidate ${candidateId} not found`)
+    }
+    return record
+  }
+}
+
+/**
+ * Client for a tenant's sandbox ATS
+ */
+export function getSandboxClient(tenantId: string): SandboxClient {
+  return new SandboxClient(getSandboxState(tenantId))
+}
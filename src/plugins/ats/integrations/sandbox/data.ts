@@ -0,0 +1,563 @@
+import {
+  JobAdderCandidate,
+  JobAdderCandidateEducation,
+  JobAdderCandidateExperience,
+  JobAdderCandidatePlacement,
+  JobAdderCandidateResume,
+  JobAdderJob,
+  JobAdderWebhookPayload,
+} from '../jobAdder/types'
+
+/**
+ * Synthetic ATS data for sandbox tenants
+ *
+ * Each tenant gets its own in-memory ATS, generated from a seed derived from the tenant ID,
+ * so the same tenant always starts with the same jobs and candidates and repeated syncs
+ * update rather than duplicate them. Simulated events then change it over time. Records
+ * use the JobAdder shapes so they go through the JobAdder transforms and sync pipeline.
+ * The state lives in this process: a restart goes back to the seeded data.
+ */
+
+export interface SandboxCandidateRecord {
+  candidate: JobAdderCandidate
+  resume: JobAdderCandidateResume
+  experiences: JobAdderCandidateExperience[]
+  education: JobAdderCandidateEducation[]
+  placements: JobAdderCandidatePlacement[]
+}
+
+export interface SandboxState {
+  tenantId: string
+  jobs: JobAdderJob[]
+  candidates: SandboxCandidateRecord[]
+  random: () => number
+  nextId: number
+  // When the last simulated event was fired
+  lastEventAt?: number
+}
+
+export type SandboxEventType = JobAdderWebhookPayload['event']
+
+// Size of a tenant's ATS when it is first generated
+export const SANDBOX_INITIAL_JOBS = 15
+export const SANDBOX_INITIAL_CANDIDATES = 40
+export const SANDBOX_INITIAL_PLACEMENTS = 6
+
+// Sandbox record IDs start with this, so they can't collide with real JobAdder IDs
+export const SANDBOX_ID_PREFIX = 'sandbox-'
+
+// Jobs kept open so the board never runs dry, however many are filled or removed
+const MIN_ACTIVE_JOBS = 5
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const ROLES = [
+  {
+    title: 'Frontend Developer',
+    category: 'Information & Communication Technology',
+    skills: ['React', 'TypeScript', 'CSS', 'Accessibility'],
+  },
+  {
+    title: 'Backend Engineer',
+    category: 'Information & Communication Technology',
+    skills: ['Node.js', 'PostgreSQL', 'AWS', 'TypeScript'],
+  },
+  {
+    title: 'Data Analyst',
+    category: 'Information & Communication Technology',
+    skills: ['SQL', 'Python', 'Power BI', 'Excel'],
+  },
+  {
+    title: 'Project Manager',
+    category: 'Construction',
+    skills: ['Stakeholder Management', 'Scheduling', 'Budgeting'],
+  },
+  {
+    title: 'Site Supervisor',
+    category: 'Construction',
+    skills: ['WHS', 'Scheduling', 'Subcontractor Management'],
+  },
+  {
+    title: 'Registered Nurse',
+    category: 'Healthcare & Medical',
+    skills: ['Patient Care', 'Medication Administration', 'Triage'],
+  },
+  {
+    title: 'Accountant',
+    category: 'Accounting',
+    skills: ['Xero', 'Financial Reporting', 'Tax', 'Excel'],
+  },
+  {
+    title: 'Payroll Officer',
+    category: 'Accounting',
+    skills: ['Payroll', 'Award Interpretation', 'Xero'],
+  },
+  {
+    title: 'Sales Executive',
+    category: 'Sales',
+    skills: ['Business Development', 'CRM', 'Negotiation'],
+  },
+  {
+    title: 'Marketing Coordinator',
+    category: 'Marketing & Communications',
+    skills: ['Content', 'SEO', 'Campaigns', 'Canva'],
+  },
+  {
+    title: 'Customer Service Officer',
+    category: 'Call Centre & Customer Service',
+    skills: ['Customer Service', 'Complaints Handling', 'CRM'],
+  },
+  {
+    title: 'Warehouse Team Leader',
+    category: 'Manufacturing, Transport & Logistics',
+    skills: ['Forklift Licence', 'Inventory', 'Team Leadership'],
+  },
+]
+
+const EMPLOYERS = [
+  'Harbour Health',
+  'Southern Cross Constructions',
+  'Banksia Software',
+  'Coastal Logistics',
+  'Wattle Financial',
+  'Redgum Retail',
+  'Blue Mountains Energy',
+  'Kookaburra Media',
+]
+
+const LOCATIONS = [
+  { city: 'Sydney', state: 'NSW' },
+  { city: 'Melbourne', state: 'VIC' },
+  { city: 'Brisbane', state: 'QLD' },
+  { city: 'Perth', state: 'WA' },
+  { city: 'Adelaide', state: 'SA' },
+  { city: 'Canberra', state: 'ACT' },
+]
+
+const FIRST_NAMES = [
+  'Olivia',
+  'Liam',
+  'Charlotte',
+  'Noah',
+  'Amelia',
+  'Jack',
+  'Isla',
+  'William',
+  'Mia',
+  'Oliver',
+  'Ava',
+  'Thomas',
+  'Grace',
+  'James',
+  'Chloe',
+  'Lucas',
+  'Priya',
+  'Wei',
+  'Fatima',
+  'Mateo',
+]
+
+const LAST_NAMES = [
+  'Smith',
+  'Nguyen',
+  'Williams',
+  'Brown',
+  'Wilson',
+  'Taylor',
+  'Singh',
+  'Chen',
+  'Martin',
+  'Kelly',
+  'Anderson',
+  'Patel',
+  'Thompson',
+  'Walker',
+  'Rossi',
+  'Murphy',
+  'Lee',
+  'Campbell',
+]
+
+const INSTITUTIONS = [
+  'University of Sydney',
+  'University of Melbourne',
+  'University of Queensland',
+  'Monash University',
+  'RMIT University',
+  'TAFE NSW',
+]
+
+const QUALIFICATIONS = [
+  { qualification: 'Bachelor of Science', field: 'Computer Science' },
+  { qualification: 'Bachelor of Commerce', field: 'Accounting' },
+  { qualification: 'Bachelor of Nursing', field: 'Nursing' },
+  { qualification: 'Bachelor of Business', field: 'Marketing' },
+  { qualification: 'Diploma of Project Management', field: 'Project Management' },
+  { qualification: 'Certificate IV', field: 'Building and Construction' },
+]
+
+const SOURCES = ['Job Board', 'Referral', 'LinkedIn', 'Company Website', 'Talent Pool']
+
+const WORK_TYPES: JobAdderJob['workType'][] = ['permanent', 'permanent', 'contract', 'temporary']
+
+/**
+ * Seeded pseudo-random numbers (mulberry32), so a tenant's data is the same on every start
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function seedFor(tenantId: string): number {
+  let hash = 2166136261
+  for (const char of `sandbox:${tenantId}`) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 16777619)
+  }
+  return hash >>> 0
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)]
+}
+
+function between(random: () => number, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1))
+}
+
+function isoDaysAgo(now: number, days: number): string {
+  return new Date(now - days * DAY_MS).toISOString()
+}
+
+/**
+ * Whether a JobAdder-shaped record ID was served by the sandbox rather than JobAdder
+ */
+export function isSandboxId(id: string | null | undefined): boolean {
+  return Boolean(id?.startsWith(SANDBOX_ID_PREFIX))
+}
+
+function nextId(state: SandboxState, kind: 'job' | 'candidate' | 'placement'): string {
+  return `${SANDBOX_ID_PREFIX}${kind}-${state.nextId++}`
+}
+
+function createJob(state: SandboxState, postedAt: string): JobAdderJob {
+  const { random } = state
+  const role = pick(random, ROLES)
+  const location = pick(random, LOCATIONS)
+  const workType = pick(random, WORK_TYPES)
+  const hourly = workType !== 'permanent' && random() < 0.5
+  const minimum = hourly ? between(random, 40, 80) : between(random, 7, 14) * 10000
+  const id = nextId(state, 'job')
+
+  return {
+    id,
+    reference: id.replace('sandbox-job-', 'SBX-'),
+    title: role.title,
+    status: 'active',
+    location: { ...location, country: 'Australia' },
+    salary: {
+      minimum,
+      maximum: hourly ? minimum + 15 : minimum + 20000,
+      type: hourly ? 'hourly' : 'annual',
+      currency: 'AUD',
+    },
+    workType,
+    description: [
+      `${pick(random, EMPLOYERS)} is looking for a ${role.title} to join its ${location.city} team.`,
+      `You'll bring experience with ${role.skills.slice(0, 3).join(', ')}.`,
+      'This is a sandbox job generated for demonstration purposes.',
+    ].join('\n\n'),
+    applicationUrl: `https://sandbox.example.com/jobs/${id}/apply`,
+    postedDate: postedAt,
+    company: {
+      id: `sandbox-company-${EMPLOYERS.indexOf(pick(random, EMPLOYERS)) + 1}`,
+      name: pick(random, EMPLOYERS),
+    },
+    category: { categoryId: ROLES.indexOf(role) + 1, name: role.category },
+  }
+}
+
+function createCandidate(state: SandboxState, createdAt: string): SandboxCandidateRecord {
+  const { random } = state
+  const role = pick(random, ROLES)
+  const firstName = pick(random, FIRST_NAMES)
+  const lastName = pick(random, LAST_NAMES)
+  const id = nextId(state, 'candidate')
+  const currentEmployer = pick(random, EMPLOYERS)
+  const education = pick(random, QUALIFICATIONS)
+  const yearsExperience = between(random, 1, 12)
+  const currentStart = new Date(Date.parse(createdAt) - between(random, 1, 4) * 365 * DAY_MS)
+  const previousStart = new Date(currentStart.getTime() - between(random, 2, 5) * 365 * DAY_MS)
+
+  const candidate: JobAdderCandidate = {
+    id,
+    reference: id.replace('sandbox-candidate-', 'SBC-'),
+    firstName,
+    lastName,
+    email: `${firstName}.${lastName}.${id.split('-').pop()}@sandbox.example.com`.toLowerCase(),
+    phone: `04${between(random, 10, 99)} ${between(random, 100, 999)} ${between(random, 100, 999)}`,
+    status: 'active',
+    createdAt,
+    updatedAt: createdAt,
+    skills: role.skills.filter(() => random() < 0.75),
+    tags: random() < 0.3 ? ['Sandbox', 'Hot Candidate'] : ['Sandbox'],
+    source: pick(random, SOURCES),
+    address: { ...pick(random, LOCATIONS), country: 'Australia' },
+    workRights: random() < 0.85 ? 'Australian Citizen' : 'Temporary Visa',
+    availability: pick(random, ['Immediately', '2 weeks notice', '4 weeks notice']),
+    currentJobTitle: role.title,
+    currentEmployer,
+    salaryExpectation: {
+      minimum: between(random, 7, 14) * 10000,
+      currency: 'AUD',
+      period: 'annual',
+    },
+    workTypes: [pick(random, ['permanent', 'contract', 'temporary'] as const)],
+    locations: [pick(random, LOCATIONS).city],
+  }
+
+  return {
+    candidate,
+    resume: {
+      id: `${id}-resume`,
+      candidateId: id,
+      fileName: `${firstName}-${lastName}-CV.pdf`,
+      fileType: 'application/pdf',
+      fileSize: between(random, 80, 400) * 1024,
+      uploadedAt: createdAt,
+      url: `https://sandbox.example.com/candidates/${id}/resume.pdf`,
+      content: [
+        `${firstName} ${lastName}`,
+        `${role.title} with ${yearsExperience} years of experience.`,
+        `Skills: ${role.skills.join(', ')}`,
+      ].join('\n'),
+    },
+    experiences: [
+      {
+        id: `${id}-experience-1`,
+        candidateId: id,
+        jobTitle: role.title,
+        employer: currentEmployer,
+        startDate: currentStart.toISOString(),
+        isCurrent: true,
+        responsibilities: [`Day-to-day ${role.title.toLowerCase()} work`],
+        achievements: [],
+      },
+      {
+        id: `${id}-experience-2`,
+        candidateId: id,
+        jobTitle: `Junior ${role.title}`,
+        employer: pick(random, EMPLOYERS),
+        startDate: previousStart.toISOString(),
+        endDate: currentStart.toISOString(),
+        isCurrent: false,
+        responsibilities: [],
+        achievements: [],
+      },
+    ],
+    education: [
+      {
+        id: `${id}-education-1`,
+        candidateId: id,
+        institution: pick(random, INSTITUTIONS),
+        ...education,
+        isCompleted: true,
+      },
+    ],
+    placements: [],
+  }
+}
+
+/**
+ * Place a candidate into a job: the job is filled and the candidate marked placed
+ */
+function createPlacement(
+  state: SandboxState,
+  record: SandboxCandidateRecord,
+  job: JobAdderJob,
+  placedAt: string,
+): JobAdderCandidatePlacement {
+  const { random } = state
+  const salary = job.salary.maximum || job.salary.minimum || 90000
+  const placement: JobAdderCandidatePlacement = {
+    id: nextId(state, 'placement'),
+    candidateId: record.candidate.id,
+    jobId: job.id,
+    jobTitle: job.title,
+    employer: job.company?.name || pick(random, EMPLOYERS),
+    startDate: new Date(Date.parse(placedAt) + 14 * DAY_MS).toISOString(),
+    status: 'active',
+    salary: { amount: salary, currency: 'AUD', period: job.salary.type },
+    createdAt: placedAt,
+    fee: { amount: Math.round(salary * 0.15), currency: 'AUD' },
+    source: record.candidate.source,
+    owner: { userId: 'sandbox-consultant-1', firstName: 'Sam', lastName: 'Sandbox' },
+  }
+
+  job.status = 'filled'
+  record.candidate.status = 'placed'
+  record.candidate.updatedAt = placedAt
+  record.placements.push(placement)
+  return placement
+}
+
+/**
+ * Generate a tenant's sandbox ATS as it looks when first connected
+ * Jobs are spread over the last two months and the oldest are already filled, so time to
+ * fill and placement analytics have data straight away.
+ * @param now Time the data is generated at, in milliseconds
+ */
+export function generateSandboxState(tenantId: string, now: number = Date.now()): SandboxState {
+  const state: SandboxState = {
+    tenantId,
+    jobs: [],
+    candidates: [],
+    random: createRandom(seedFor(tenantId)),
+    nextId: 1,
+  }
+
+  for (let i = 0; i < SANDBOX_INITIAL_JOBS; i++) {
+    // Oldest first, 4 days apart
+    state.jobs.push(createJob(state, isoDaysAgo(now, (SANDBOX_INITIAL_JOBS - i) * 4)))
+  }
+
+  for (let i = 0; i < SANDBOX_INITIAL_CANDIDATES; i++) {
+    state.candidates.push(createCandidate(state, isoDaysAgo(now, between(state.random, 1, 90))))
+  }
+
+  for (let i = 0; i < SANDBOX_INITIAL_PLACEMENTS; i++) {
+    const job = state.jobs[i]
+    const placedAt = new Date(Date.parse(job.postedDate) + between(state.random, 10, 35) * DAY_MS)
+    createPlacement(state, state.candidates[i], job, placedAt.toISOString())
+  }
+
+  return state
+}
+
+const states = new Map<string, SandboxState>()
+
+/**
+ * The tenant's sandbox ATS, generated the first time it is used
+ */
+export function getSandboxState(tenantId: string): SandboxState {
+  let state = states.get(tenantId)
+  if (!state) {
+    state = generateSandboxState(tenantId)
+    states.set(tenantId, state)
+  }
+  return state
+}
+
+/**
+ * Forget a tenant's sandbox ATS, or every tenant's, so the next use starts from the seeded
+ * data again
+ */
+export function resetSandboxState(tenantId?: string): void {
+  if (tenantId) {
+    states.delete(tenantId)
+  } else {
+    states.clear()
+  }
+}
+
+function chooseEvent(state: SandboxState): SandboxEventType {
+  const activeJobs = state.jobs.filter((job) => job.status === 'active')
+  if (activeJobs.length < MIN_ACTIVE_JOBS) return 'job.created'
+
+  const roll = state.random()
+  if (roll < 0.25) return 'candidate.created'
+  if (roll < 0.45) return 'candidate.updated'
+  if (roll < 0.6) return 'job.created'
+  if (roll < 0.75) return 'job.updated'
+  if (roll < 0.8) return 'job.deleted'
+  if (roll < 0.95) return 'placement.created'
+  return 'placement.updated'
+}
+
+/**
+ * Change the tenant's sandbox ATS the way a recruiter working in it would, and describe
+ * the change as a JobAdder webhook
+ * @param now Time of the change, in milliseconds
+ */
+export function simulateSandboxEvent(
+  state: SandboxState,
+  now: number = Date.now(),
+): JobAdderWebhookPayload {
+  const { random } = state
+  const timestamp = new Date(now).toISOString()
+  const activeJobs = state.jobs.filter((job) => job.status === 'active')
+  const availableCandidates = state.candidates.filter(
+    (record) => record.candidate.status === 'active',
+  )
+  const placements = state.candidates.flatMap((record) => record.placements)
+
+  let event = chooseEvent(state)
+  // Fall back to adding records when there is nothing to change
+  if (event === 'placement.created' && availableCandidates.length === 0) event = 'candidate.created'
+  if (event === 'placement.updated' && placements.length === 0) event = 'job.updated'
+  if (event === 'candidate.updated' && availableCandidates.length === 0) event = 'candidate.created'
+
+  let id: string
+  switch (event) {
+    case 'job.created': {
+      const job = createJob(state, timestamp)
+      state.jobs.push(job)
+      id = job.id
+      break
+    }
+    case 'job.updated': {
+      const job = pick(random, activeJobs)
+      job.salary = {
+        ...job.salary,
+        maximum: (job.salary.maximum || 0) + (job.salary.type === 'hourly' ? 5 : 5000),
+      }
+      id = job.id
+      break
+    }
+    case 'job.deleted': {
+      const job = pick(random, activeJobs)
+      job.status = 'cancelled'
+      id = job.id
+      break
+    }
+    case 'candidate.created': {
+      const record = createCandidate(state, timestamp)
+      state.candidates.push(record)
+      id = record.candidate.id
+      break
+    }
+    case 'candidate.updated': {
+      const record = pick(random, availableCandidates)
+      record.candidate.availability = pick(random, ['Immediately', '2 weeks notice'])
+      record.candidate.updatedAt = timestamp
+      id = record.candidate.id
+      break
+    }
+    case 'placement.created': {
+      const record = pick(random, availableCandidates)
+      id = createPlacement(state, record, pick(random, activeJobs), timestamp).id
+      break
+    }
+    default: {
+      const placement = pick(random, placements)
+      placement.status = 'completed'
+      placement.endDate = timestamp
+      id = placement.id
+    }
+  }
+
+  state.lastEventAt = now
+
+  return {
+    event,
+    data: { id },
+    metadata: { tenantId: state.tenantId },
+    timestamp,
+    webhookId: 'sandbox',
+  }
+}
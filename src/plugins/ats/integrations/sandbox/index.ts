@@ -0,0 +1,40 @@
+import { SandboxClient, getSandboxClient } from './client'
+import { getSandboxState, resetSandboxState, simulateSandboxEvent } from './data'
+import {
+  syncSandboxJobs,
+  syncSandboxCandidates,
+  previewSandboxSync,
+  connectSandbox,
+  disconnectSandbox,
+} from './sync'
+import {
+  emitSandboxEvents,
+  processSandboxDelivery,
+  processSandboxWebhooks,
+  replaySandboxDelivery,
+} from './webhook'
+
+export { SandboxClient }
+
+export const sandboxIntegration = {
+  // Synthetic data
+  getClient: getSandboxClient,
+  getState: getSandboxState,
+  resetState: resetSandboxState,
+  simulateEvent: simulateSandboxEvent,
+
+  // Sync functions
+  syncTenantJobs: syncSandboxJobs,
+  syncTenantCandidates: syncSandboxCandidates,
+  previewTenantSync: previewSandboxSync,
+
+  // Simulated webhooks
+  emitEvents: emitSandboxEvents,
+  processDelivery: processSandboxDelivery,
+  processWebhookQueue: processSandboxWebhooks,
+  replayDelivery: replaySandboxDelivery,
+
+  // Connection
+  connect: connectSandbox,
+  disconnect: disconnectSandbox,
+}
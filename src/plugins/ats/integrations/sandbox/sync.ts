@@ -0,0 +1,151 @@
+import payload from 'payload'
+import { sandboxLogger as logger } from '@/lib/logger'
+import { syncJobs, syncCandidates } from '../jobAdder/sync'
+import { JobSyncStats, CandidateSyncStats } from '../jobAdder/types'
+import { SyncRunTrigger } from '../../syncRuns'
+import { SyncPreview } from '../../syncDiff'
+import { getSandboxClient } from './client'
+import { resetSandboxState } from './data'
+
+type Watermark = 'lastJobSync' | 'lastCandidateSync'
+
+async function getTenant(tenantId: string) {
+  return payload.findByID({
+    collection: 'tenants',
+    id: tenantId,
+  })
+}
+
+async function recordSync(tenantId: string, watermark: Watermark, startedAt: string) {
+  await payload.update({
+    collection: 'tenants',
+    id: tenantId,
+    data: {
+      atsConfig: {
+        sandbox: { [watermark]: startedAt },
+      },
+    } as any,
+  })
+}
+
+/**
+ * Sync a tenant's sandbox jobs through the JobAdder job sync
+ * Jobs are saved with `sandbox` as their source. Every run is a full one, so sandbox jobs
+ * removed from the sandbox are closed or archived according to the tenant's JobAdder
+ * `removedJobPolicy`; jobs synced from JobAdder itself are left alone. The tenant's JobAdder
+ * field mapping applies, as the records are JobAdder-shaped.
+ * @param options.trigger What started the run, recorded in the sync run ledger
+ * @param options.dryRun Report what would change in `stats.diff` without writing anything
+ */
+export async function syncSandboxJobs(
+  tenantId: string,
+  options: { trigger?: SyncRunTrigger; dryRun?: boolean } = {},
+): Promise<JobSyncStats> {
+  const { trigger = 'manual', dryRun = false } = options
+  const tenant = await getTenant(tenantId)
+  const runStartedAt = new Date().toISOString()
+
+  const stats = await syncJobs(getSandboxClient(tenantId), Number(tenantId), {
+    removedJobPolicy: tenant?.atsConfig?.jobAdder?.removedJobPolicy || 'close',
+    trigger,
+    fieldMapping: tenant?.atsConfig?.jobAdder?.fieldMapping?.jobs,
+    dryRun,
+    provider: 'sandbox',
+  })
+
+  if (!dryRun && stats.errors === 0) {
+    await recordSync(tenantId, 'lastJobSync', runStartedAt)
+  }
+
+  return stats
+}
+
+/**
+ * Sync a tenant's sandbox candidates, with their placements, through the JobAdder
+ * candidate sync
+ * @param options.trigger What started the run, recorded in the sync run ledger
+ * @param options.dryRun Report what would change in `stats.diff` without writing anything
+ */
+export async function syncSandboxCandidates(
+  tenantId: string,
+  options: { trigger?: SyncRunTrigger; dryRun?: boolean } = {},
+): Promise<CandidateSyncStats> {
+  const { trigger = 'manual', dryRun = false } = options
+  const tenant = await getTenant(tenantId)
+  const runStartedAt = new Date().toISOString()
+
+  const stats = await syncCandidates(getSandboxClient(tenantId), Number(tenantId), {
+    limit: 100,
+    enrichmentEnabled: true,
+    trigger,
+    fieldMapping: tenant?.atsConfig?.jobAdder?.fieldMapping?.candidates,
+    consent: tenant?.atsConfig?.jobAdder?.consent,
+    dryRun,
+    provider: 'sandbox',
+  })
+
+  if (!dryRun && stats.errors === 0) {
+    await recordSync(tenantId, 'lastCandidateSync', runStartedAt)
+  }
+
+  return stats
+}
+
+/**
+ * Dry run a tenant's sandbox sync
+ * @param options.candidates Also preview the candidate sync
+ */
+export async function previewSandboxSync(
+  tenantId: string,
+  options: { candidates?: boolean } = {},
+): Promise<SyncPreview> {
+  const jobStats = await syncSandboxJobs(tenantId, { dryRun: true })
+  const candidateStats = options.candidates
+    ? await syncSandboxCandidates(tenantId, { dryRun: true })
+    : undefined
+
+  return {
+    jobs: jobStats.diff!,
+    candidates: candidateStats?.diff,
+  }
+}
+
+/**
+ * Connect a tenant to its sandbox ATS and pull its jobs and candidates straight away
+ */
+export async function connectSandbox(tenantId: string): Promise<void> {
+  await payload.update({
+    collection: 'tenants',
+    id: tenantId,
+    data: {
+      atsConfig: {
+        sandbox: { connectedAt: new Date().toISOString() },
+      },
+    } as any,
+  })
+
+  const jobs = await syncSandboxJobs(tenantId, { trigger: 'initial' })
+  const candidates = await syncSandboxCandidates(tenantId, { trigger: 'initial' })
+
+  logger.info('Connected sandbox ATS', { tenantId, stats: { jobs, candidates } })
+}
+
+/**
+ * Disconnect a tenant from its sandbox ATS
+ * Synced jobs and candidates are kept; reconnecting starts the sandbox from its seeded
+ * data again.
+ */
+export async function disconnectSandbox(tenantId: string): Promise<void> {
+  await payload.update({
+    collection: 'tenants',
+    id: tenantId,
+    data: {
+      atsConfig: {
+        sandbox: { connectedAt: null, lastJobSync: null, lastCandidateSync: null },
+      },
+    } as any,
+  })
+
+  resetSandboxState(tenantId)
+  logger.info('Disconnected sandbox ATS', { tenantId })
+}
@@ -0,0 +1,166 @@
+import payload from 'payload'
+import crypto from 'crypto'
+import { sandboxLogger as logger } from '@/lib/logger'
+import { Tenant } from '../../../../payload-types'
+import { applyWebhookEvent } from '../jobAdder/webhook'
+import {
+  getDueDeliveries,
+  recordDelivery,
+  markDeliveryProcessing,
+  markDeliveryProcessed,
+  markDeliveryFailed,
+  markDeliveryDeadLettered,
+  resetDeliveryAttempts,
+  WebhookDelivery,
+} from '../jobAdder/inbox'
+import { isJobAdderWebhookPayload } from '../jobAdder/types'
+import { getSandboxClient } from './client'
+import { getSandboxState, simulateSandboxEvent } from './data'
+
+// Minutes between simulated webhooks for each connected tenant
+const DEFAULT_EVENT_INTERVAL_MINUTES = 5
+
+function getEventIntervalMs(): number {
+  const minutes = Number(process.env.SANDBOX_WEBHOOK_INTERVAL_MINUTES)
+  return (minutes > 0 ? minutes : DEFAULT_EVENT_INTERVAL_MINUTES) * 60 * 1000
+}
+
+/**
+ * Fire a simulated webhook for every connected sandbox tenant whose interval has passed
+ * Events go into the webhook inbox like real deliveries, so they show up in the webhook
+ * admin and can be replayed.
+ * @returns Number of events fired
+ */
+export async function emitSandboxEvents(now: number = Date.now()): Promise<number> {
+  const tenants = await payload.find({
+    collection: 'tenants',
+    where: {
+      'features.atsSandbox': { equals: true },
+    },
+    pagination: false,
+  })
+
+  let emitted = 0
+
+  for (const tenant of tenants.docs as unknown as Tenant[]) {
+    if (!tenant.atsConfig?.sandbox?.connectedAt) continue
+
+    const state = getSandboxState(String(tenant.id))
+    if (state.lastEventAt !== undefined && now - state.lastEventAt < getEventIntervalMs()) {
+      continue
+    }
+
+    const event = simulateSandboxEvent(state, now)
+
+    try {
+      await recordDelivery({
+        deliveryId: `sandbox-${crypto.randomUUID()}`,
+        body: event,
+        signatureValid: true,
+        provider: 'sandbox',
+      })
+      emitted++
+    } catch (error) {
+      logger.error('Failed to record simulated webhook', {
+        tenantId: tenant.id,
+        event: event.event,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  return emitted
+}
+
+/**
+ * Applies a queued simulated webhook through the JobAdder webhook pipeline, reading records
+ * from the tenant's sandbox
+ * Failures are retried and dead-lettered like JobAdder deliveries.
+ * @returns The delivery status after this attempt
+ */
+export async function processSandboxDelivery(
+  delivery: WebhookDelivery,
+): Promise<'processed' | 'retrying' | 'dead_letter'> {
+  const requestId = crypto.randomUUID()
+
+  if (!isJobAdderWebhookPayload(delivery.payload)) {
+    await markDeliveryDeadLettered(delivery, 'Stored payload is not a valid sandbox webhook')
+    return 'dead_letter'
+  }
+
+  await markDeliveryProcessing(delivery)
+
+  try {
+    const { tenantId } = delivery.payload.metadata
+
+    const tenant = await payload.findByID({
+      collection: 'tenants',
+      id: tenantId,
+    })
+
+    if (!tenant) {
+      throw new Error('Tenant not found')
+    }
+
+    await applyWebhookEvent(
+      delivery.payload,
+      getSandboxClient(tenantId),
+      requestId,
+      tenant.atsConfig?.jobAdder?.fieldMapping,
+      'sandbox',
+    )
+    await markDeliveryProcessed(delivery)
+
+    logger.info('Sandbox webhook processed', {
+      requestId,
+      deliveryId: delivery.deliveryId,
+      event: delivery.payload.event,
+      tenantId,
+    })
+    return 'processed'
+  } catch (error) {
+    const status = await markDeliveryFailed(delivery, error)
+
+    logger.error('Error processing sandbox webhook', {
+      requestId,
+      deliveryId: delivery.deliveryId,
+      status,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    return status
+  }
+}
+
+/**
+ * Fire simulated webhooks that are due, then process queued sandbox deliveries
+ * Called by the webhook worker on a schedule.
+ * @param options.limit Maximum number of deliveries to process in this run
+ */
+export async function processSandboxWebhooks(
+  options: { limit?: number } = {},
+): Promise<{ emitted: number; processed: number; retrying: number; deadLettered: number }> {
+  const { limit = 25 } = options
+  const stats = { emitted: 0, processed: 0, retrying: 0, deadLettered: 0 }
+
+  stats.emitted = await emitSandboxEvents()
+
+  for (const delivery of await getDueDeliveries(limit, 'sandbox')) {
+    const status = await processSandboxDelivery(delivery)
+
+    if (status === 'processed') stats.processed++
+    else if (status === 'retrying') stats.retrying++
+    else stats.deadLettered++
+  }
+
+  return stats
+}
+
+/**
+ * Re-processes a stored sandbox delivery straight away, with fresh attempts
+ */
+export async function replaySandboxDelivery(
+  delivery: WebhookDelivery,
+): Promise<'processed' | 'retrying' | 'dead_letter'> {
+  await resetDeliveryAttempts(delivery)
+  return processSandboxDelivery(delivery)
+}
@@ -0,0 +1,39 @@
+import { vincereIntegration } from './vincere/index'
+import { AtsProvider } from '../types'
+
+// Re-export the integration for direct use in API routes
+export { vincereIntegration }
+
+// Export the integration definition for the ATS plugin
+export const vincere: AtsProvider = {
+  slug: 'vincere',
+  name: 'Vincere',
+  description: 'Vincere ATS Integration',
+  icon: '/assets/vincere-icon.svg',
+  feature: 'vincere',
+
+  auth: {
+    getAuthorizationUrl: (tenantId, state) =>
+      vincereIntegration.oauth.getAuthorizationUrl(tenantId, state),
+    handleCallback: (code, tenantId) => vincereIntegration.oauth.handleCallback(code, tenantId),
+    isConnected: (tenant) => Boolean(tenant.atsConfig?.vincere?.refreshToken),
+  },
+
+  pullJobs: (tenantId, options) => vincereIntegration.syncTenantPositions(tenantId, options),
+  pullCandidates: (tenantId, options) => vincereIntegration.syncTenantCandidates(tenantId, options),
+  pushApplications: () => vincereIntegration.processApplicationWriteBacks(),
+
+  webhooks: {
+    register: (tenantId) => vincereIntegration.registerWebhooks(tenantId),
+    process: () => vincereIntegration.processWebhookQueue(),
+    replay: (delivery) => vincereIntegration.replayDelivery(delivery),
+  },
+
+  getHealth: (tenant) => ({
+    enabled: Boolean(tenant.features?.vincere),
+    connected: Boolean(tenant.atsConfig?.vincere?.refreshToken),
+    tokenExpiresAt: tenant.atsConfig?.vincere?.tokenExpiry,
+    lastJobSync: tenant.atsConfig?.vincere?.lastJobSync,
+    lastCandidateSync: tenant.atsConfig?.vincere?.lastCandidateSync,
+  }),
+}
@@ -0,0 +1,137 @@
+import payload from 'payload'
+import { writeBackApplication } from '../applications'
+import { getClient } from '../oauth'
+import type { ApplicationEvent } from '../../jobAdder/applications'
+import candidate from './fixtures/candidate.json'
+
+// Mock dependencies
+jest.mock('payload', () => ({
+  find: jest.fn(),
+  findByID: jest.fn(),
+  create: jest.fn(),
+  update: jest.fn(),
+}))
+jest.mock('@/lib/logger', () => ({
+  vincereLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  jobAdderLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  webhookLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+jest.mock('../oauth', () => ({
+  getClient: jest.fn(),
+}))
+
+describe('writeBackApplication', () => {
+  let event: ApplicationEvent
+  let application: Record<string, unknown>
+  let job: Record<string, unknown>
+  let client: {
+    findCandidatesByEmail: jest.Mock
+    createCandidate: jest.Mock
+    uploadCandidateResume: jest.Mock
+    addCandidateToPosition: jest.Mock
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+
+    event = {
+      id: 'event-1',
+      job: 'job-1',
+      tenant: 3,
+      application: 'application-1',
+      atsWriteBack: { status: 'pending', provider: 'vincere', attempts: 0 },
+    }
+
+    client = {
+      findCandidatesByEmail: jest.fn().mockResolvedValue([]),
+      createCandidate: jest.fn().mockResolvedValue(90400),
+      uploadCandidateResume: jest.fn().mockResolvedValue(undefined),
+      addCandidateToPosition: jest.fn().mockResolvedValue(7712),
+    }
+    ;(getClient as jest.Mock).mockResolvedValue(client)
+
+    application = {
+      id: 'application-1',
+      job: 'job-1',
+      tenant: 3,
+      email: 'priya.raman@example.com',
+      firstName: 'Priya',
+      lastName: 'Raman',
+    }
+    job = { id: 'job-1', atsData: { source: 'vincere', sourceId: '48213' } }
+    ;(payload.findByID as jest.Mock).mockImplementation(async ({ collection }) =>
+      collection === 'applications' ? application : job,
+    )
+    ;(payload.find as jest.Mock).mockResolvedValue({ docs: [] })
+    ;(payload.update as jest.Mock).mockResolvedValue({})
+  })
+
+  it('should create the candidate in Vincere and shortlist them for the position', async () => {
+    const status = await writeBackApplication(event)
+
+    expect(client.createCandidate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        first_name: 'Priya',
+        last_name: 'Raman',
+        email: 'priya.raman@example.com',
+        candidate_source: 'Job Board',
+      }),
+    )
+    expect(client.addCandidateToPosition).toHaveBeenCalledWith(48213, 90400)
+    expect(event.atsWriteBack).toEqual(
+      expect.objectContaining({
+        status: 'synced',
+        attempts: 1,
+        vincereCandidateId: '90400',
+        vincereApplicationId: '7712',
+      }),
+    )
+    expect(status).toBe('synced')
+  })
+
+  it('should match an existing Vincere candidate by email', async () => {
+    client.findCandidatesByEmail.mockResolvedValue([
+      { ...candidate, primary_email: 'Priya.Raman@Example.com' },
+    ])
+
+    await writeBackApplication(event)
+
+    expect(client.createCandidate).not.toHaveBeenCalled()
+    expect(client.addCandidateToPosition).toHaveBeenCalledWith(48213, 90317)
+  })
+
+  it('should retry when the job is not linked to a Vincere position', async () => {
+    job = { id: 'job-1', atsData: {} }
+
+    const status = await writeBackApplication(event)
+
+    expect(status).toBe('retrying')
+    expect(event.atsWriteBack).toEqual(
+      expect.objectContaining({ error: 'Job is not linked to a Vincere position' }),
+    )
+  })
+
+  it('should fail without retrying when the applicant has no email', async () => {
+    application.email = null
+
+    const status = await writeBackApplication(event)
+
+    expect(status).toBe('failed')
+    expect(getClient).not.toHaveBeenCalled()
+  })
+})
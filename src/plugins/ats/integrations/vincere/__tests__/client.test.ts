@@ -0,0 +1,97 @@
+import axios from 'axios'
+import MockAdapter from 'axios-mock-adapter'
+import { VincereClient } from '../client'
+import position from './fixtures/position.json'
+import positionSearch from './fixtures/position-search.json'
+
+// Mock the logger
+jest.mock('@/lib/logger', () => ({
+  vincereLogger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+const session = { domain: 'acme.vincere.io', idToken: 'id-token', apiKey: 'api-key' }
+
+describe('VincereClient', () => {
+  let mock: MockAdapter
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mock = new MockAdapter(axios)
+  })
+
+  afterEach(() => {
+    mock.reset()
+  })
+
+  it('should send the ID token and API key with each request', async () => {
+    const client = new VincereClient(session)
+    mock.onGet('position/48213').reply((config) => {
+      expect(config.baseURL).toBe('https://acme.vincere.io/api/v2')
+      expect(config.headers?.['id-token']).toBe('id-token')
+      expect(config.headers?.['x-api-key']).toBe('api-key')
+      return [200, position]
+    })
+
+    const result = await client.getPosition(48213)
+
+    expect(result.job_title).toBe('Senior Payroll Officer')
+  })
+
+  it('should page through every position', async () => {
+    const client = new VincereClient(session)
+    mock
+      .onGet(/^position\/search\//)
+      .reply((config) =>
+        config.params.start === 0
+          ? [200, positionSearch]
+          : [200, { result: { start: 2, total: 3, items: [{ ...position, id: 48214 }] } }],
+      )
+
+    const result = await client.getAllPositions()
+
+    expect(result.map((item) => item.id)).toEqual([48211, 48213, 48214])
+    expect(mock.history.get).toHaveLength(2)
+    expect(mock.history.get[0].params.q).toBeUndefined()
+  })
+
+  it('should limit incremental searches to recently modified records', async () => {
+    const client = new VincereClient(session)
+    mock.onGet(/^candidate\/search\//).reply(200, { result: { start: 0, total: 0, items: [] } })
+
+    await client.getAllCandidates({ modifiedSince: '2025-05-18T09:30:15.000Z' })
+
+    expect(mock.history.get[0].params.q).toBe('last_update:[2025-05-18T09:30:15.000Z TO *]')
+  })
+
+  it('should refresh an expired token and retry once', async () => {
+    const onTokenExpired = jest.fn().mockResolvedValue('new-token')
+    const client = new VincereClient(session, { onTokenExpired })
+    mock
+      .onGet('position/48213')
+      .reply((config) =>
+        config.headers?.['id-token'] === 'new-token'
+          ? [200, position]
+          : [401, { message: 'Token expired' }],
+      )
+
+    const result = await client.getPosition(48213)
+
+    expect(onTokenExpired).toHaveBeenCalledTimes(1)
+    expect(result.id).toBe(48213)
+  })
+
+  it('should shortlist a candidate for a position', async () => {
+    const client = new VincereClient(session)
+    mock.onPost('position/48213/shortlist').reply(201, { id: 7712 })
+
+    const id = await client.addCandidateToPosition(48213, 90317)
+
+    expect(id).toBe(7712)
+    expect(JSON.parse(mock.history.post[0].data)).toEqual({ candidate_id: 90317 })
+  })
+})
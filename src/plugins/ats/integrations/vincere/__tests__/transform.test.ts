@@ -0,0 +1,95 @@
+import { transformPosition, transformCandidate } from '../transform'
+import type { VincerePosition, VincereCandidate } from '../types'
+import position from './fixtures/position.json'
+import candidate from './fixtures/candidate.json'
+
+jest.mock('@/lib/logger', () => ({
+  vincereLogger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+describe('Vincere transforms', () => {
+  describe('transformPosition', () => {
+    it('should map an open position to a published job', () => {
+      const job = transformPosition(position as VincerePosition, 3)
+
+      expect(job).toEqual(
+        expect.objectContaining({
+          title: 'Senior Payroll Officer',
+          slug: 'senior-payroll-officer-48213',
+          location: 'Sydney, NSW, Australia',
+          type: 'full-time',
+          status: 'published',
+          tenant: 3,
+          created_at: '2025-05-12T00:00:00.000Z',
+          expiry_date: '2025-06-30T00:00:00.000Z',
+        }),
+      )
+      expect(job.salary).toEqual({ min: 95000, max: 110000, currency: 'AUD', period: 'annual' })
+      expect(job.atsData).toEqual(expect.objectContaining({ source: 'vincere', sourceId: '48213' }))
+    })
+
+    it('should use the public description', () => {
+      const job = transformPosition(position as VincerePosition, 3)
+
+      expect(job.description.root.children.map((child) => child.children[0].text)).toEqual([
+        "Join our client's finance team in the CBD.",
+        'Hybrid working & great culture.',
+      ])
+    })
+
+    it('should close positions that are private or no longer open', () => {
+      expect(transformPosition({ ...position, private_job: true }, 3).status).toBe('closed')
+      expect(transformPosition({ ...position, status: 'FILLED' }, 3).status).toBe('closed')
+    })
+
+    it('should treat daily and hourly rates as hourly pay', () => {
+      const job = transformPosition(
+        { ...position, employment_type: 'CONTRACT', salary_type: 'DAILY' },
+        3,
+      )
+
+      expect(job.type).toBe('contract')
+      expect(job.salary.period).toBe('hourly')
+    })
+  })
+
+  describe('transformCandidate', () => {
+    it('should map a Vincere candidate', () => {
+      const result = transformCandidate(candidate as VincereCandidate, 3)
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          firstName: 'Priya',
+          lastName: 'Raman',
+          email: 'priya.raman@example.com',
+          phone: '+61 400 111 222',
+          status: 'active',
+          currentJobTitle: 'Payroll Officer',
+          currentEmployer: 'Acme Logistics',
+          location: 'Parramatta, NSW, Australia',
+          source: 'LinkedIn',
+          tenant: 3,
+        }),
+      )
+      expect(result.skills).toEqual([
+        { skill: 'Payroll' },
+        { skill: 'Chris21' },
+        { skill: 'Excel' },
+      ])
+      expect(result.atsData).toEqual(
+        expect.objectContaining({ source: 'vincere', sourceId: '90317' }),
+      )
+    })
+
+    it('should throw for candidates without an email', () => {
+      expect(() => transformCandidate({ ...candidate, primary_email: undefined }, 3)).toThrow(
+        'Vincere candidate 90317 has no email',
+      )
+    })
+  })
+})
@@ -0,0 +1,149 @@
+import { handleWebhook, getWebhookToken, processDelivery } from '../webhook'
+import { getClient } from '../oauth'
+import { upsertPosition, closePosition } from '../sync'
+import {
+  recordDelivery,
+  markDeliveryProcessed,
+  markDeliveryFailed,
+  WebhookDelivery,
+} from '../../jobAdder/inbox'
+import webhook from './fixtures/webhook.json'
+import position from './fixtures/position.json'
+
+// Mock dependencies
+jest.mock('payload', () => ({
+  find: jest.fn(),
+  create: jest.fn(),
+  update: jest.fn(),
+}))
+jest.mock('@/lib/logger', () => ({
+  webhookLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+jest.mock('../oauth', () => ({
+  getClient: jest.fn(),
+}))
+jest.mock('../sync', () => ({
+  upsertPosition: jest.fn(),
+  upsertCandidate: jest.fn(),
+  closePosition: jest.fn(),
+  deactivateCandidate: jest.fn(),
+}))
+jest.mock('../../jobAdder/inbox', () => ({
+  ...jest.requireActual('../../jobAdder/inbox'),
+  recordDelivery: jest.fn(),
+  getDueDeliveries: jest.fn(),
+  markDeliveryProcessing: jest.fn(),
+  markDeliveryProcessed: jest.fn(),
+  markDeliveryFailed: jest.fn(),
+  markDeliveryDeadLettered: jest.fn(),
+  resetDeliveryAttempts: jest.fn(),
+}))
+
+describe('Vincere webhooks', () => {
+  const originalSecret = process.env.VINCERE_WEBHOOK_SECRET
+  let delivery: WebhookDelivery
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    process.env.VINCERE_WEBHOOK_SECRET = 'test-secret'
+
+    delivery = {
+      id: 'inbox-1',
+      deliveryId: 'sha256:abc',
+      provider: 'vincere',
+      event: 'position.update',
+      tenantId: '3',
+      signatureValid: true,
+      status: 'received',
+      attempts: 0,
+      duplicateCount: 0,
+      receivedAt: '2025-05-18T03:20:00.000Z',
+      payload: webhook,
+    }
+    ;(recordDelivery as jest.Mock).mockResolvedValue({ delivery, duplicate: false })
+  })
+
+  afterAll(() => {
+    process.env.VINCERE_WEBHOOK_SECRET = originalSecret
+  })
+
+  describe('handleWebhook', () => {
+    it('should queue deliveries with a valid token', async () => {
+      const result = await handleWebhook({
+        tenantId: '3',
+        token: getWebhookToken('3'),
+        body: webhook,
+      })
+
+      expect(result.status).toBe(202)
+      expect(recordDelivery).toHaveBeenCalledWith(
+        expect.objectContaining({
+          provider: 'vincere',
+          event: 'position.update',
+          tenantId: '3',
+          signatureValid: true,
+        }),
+      )
+    })
+
+    it("should reject deliveries carrying another tenant's token", async () => {
+      const result = await handleWebhook({
+        tenantId: '3',
+        token: getWebhookToken('4'),
+        body: webhook,
+      })
+
+      expect(result.status).toBe(401)
+      expect(recordDelivery).not.toHaveBeenCalled()
+    })
+
+    it('should reject malformed payloads without storing them', async () => {
+      const result = await handleWebhook({
+        tenantId: '3',
+        token: getWebhookToken('3'),
+        body: { entityType: 'COMPANY' },
+      })
+
+      expect(result.status).toBe(400)
+      expect(recordDelivery).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('processDelivery', () => {
+    it('should fetch and upsert updated positions', async () => {
+      const client = { getPosition: jest.fn().mockResolvedValue(position) }
+      ;(getClient as jest.Mock).mockResolvedValue(client)
+
+      const status = await processDelivery(delivery)
+
+      expect(status).toBe('processed')
+      expect(client.getPosition).toHaveBeenCalledWith(48213)
+      expect(upsertPosition).toHaveBeenCalledWith(position, 3)
+      expect(markDeliveryProcessed).toHaveBeenCalledWith(delivery)
+    })
+
+    it('should close deleted positions', async () => {
+      ;(getClient as jest.Mock).mockResolvedValue({})
+      delivery.payload = { ...webhook, actionType: 'DELETE' }
+
+      await processDelivery(delivery)
+
+      expect(closePosition).toHaveBeenCalledWith(48213, 3)
+    })
+
+    it('should schedule a retry when the tenant is not connected', async () => {
+      ;(getClient as jest.Mock).mockResolvedValue(null)
+      ;(markDeliveryFailed as jest.Mock).mockResolvedValue('retrying')
+
+      const status = await processDelivery(delivery)
+
+      expect(status).toBe('retrying')
+      expect(markDeliveryFailed).toHaveBeenCalledWith(delivery, expect.any(Error))
+    })
+  })
+})
@@ -0,0 +1,214 @@
+import payload from 'payload'
+import { vincereLogger as logger } from '@/lib/logger'
+import { VincereClient } from './client'
+import { getClient } from './oauth'
+import { getRetryDelay } from '../jobAdder/inbox'
+import {
+  Applicant,
+  ApplicationEvent,
+  MAX_WRITE_BACK_ATTEMPTS,
+  getApplicant,
+  getResumeFile,
+  updateWriteBack,
+} from '../jobAdder/applications'
+
+// Source recorded against candidates we create in Vincere
+const APPLICATION_SOURCE = 'Job Board'
+
+/**
+ * Writes an application back to Vincere
+ * Matches or creates the candidate, uploads their resume and shortlists them for the position.
+ * Progress is saved after each step so a retry picks up where the last attempt stopped.
+ * @param event apply_completed event queued for write-back
+ * @returns The write-back status after this attempt
+ */
+export async function writeBackApplication(
+  event: ApplicationEvent,
+): Promise<'synced' | 'retrying' | 'failed'> {
+  const applicant = await getApplicant(event)
+
+  // Without the application or an email we can't match or create the candidate, so don't retry
+  if (!applicant?.email) {
+    await updateWriteBack(event, {
+      status: 'failed',
+      nextAttemptAt: null,
+      error: applicant ? 'Applicant email is required' : 'Application not found',
+    })
+    return 'failed'
+  }
+
+  const attempts = (event.atsWriteBack?.attempts || 0) + 1
+  await updateWriteBack(event, { attempts })
+
+  try {
+    const job = await payload.findByID({
+      collection: 'jobs',
+      id: event.job,
+      depth: 0,
+    })
+
+    if (job?.atsData?.source !== 'vincere' || !job.atsData.sourceId) {
+      throw new Error('Job is not linked to a Vincere position')
+    }
+    const positionId = Number(job.atsData.sourceId)
+
+    const client = await getClient(String(event.tenant))
+    if (!client) {
+      throw new Error('Unable to authenticate with Vincere')
+    }
+
+    // Match or create the candidate
+    let candidateId = event.atsWriteBack?.vincereCandidateId
+    if (!candidateId) {
+      candidateId = await matchOrCreateCandidate(client, event, applicant, applicant.email)
+      await updateWriteBack(event, { vincereCandidateId: candidateId })
+    }
+
+    // Attach the resume, if the applicant uploaded one
+    if (applicant.resumeId && !event.atsWriteBack?.resumeUploaded) {
+      await client.uploadCandidateResume(
+        Number(candidateId),
+        await getResumeFile(applicant.resumeId, event.tenant),
+      )
+      await updateWriteBack(event, { resumeUploaded: true })
+    }
+
+    // Shortlist the candidate for the position
+    const applicationId = await client.addCandidateToPosition(positionId, Number(candidateId))
+
+    await updateWriteBack(event, {
+      status: 'synced',
+      vincereApplicationId: String(applicationId),
+      syncedAt: new Date().toISOString(),
+      nextAttemptAt: null,
+      error: null,
+    })
+
+    logger.info('Wrote application back to Vincere', {
+      eventId: event.id,
+      positionId,
+      candidateId,
+      applicationId,
+    })
+    return 'synced'
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    const status = attempts >= MAX_WRITE_BACK_ATTEMPTS ? 'failed' : 'retrying'
+
+    await updateWriteBack(event, {
+      status,
+      nextAttemptAt:
+        status === 'retrying' ? new Date(Date.now() + getRetryDelay(attempts)).toISOString() : null,
+      error: message,
+    })
+
+    logger.error('Error writing application back to Vincere', {
+      eventId: event.id,
+      attempts,
+      status,
+      error: message,
+    })
+    return status
+  }
+}
+
+/**
+ * Writes back queued Vincere applications that are due, one at a time
+ * Called by the ATS worker on a schedule.
+ * @param options.limit Maximum number of applications to write back in this run
+ * @returns Counts of applications by their status after this run
+ */
+export async function processApplicationWriteBacks(
+  options: { limit?: number } = {},
+): Promise<{ synced: number; retrying: number; failed: number }> {
+  const { limit = 25 } = options
+  const stats = { synced: 0, retrying: 0, failed: 0 }
+
+  const events = await payload.find({
+    collection: 'events' as any, // Type assertion to bypass TypeScript check
+    where: {
+      type: { equals: 'apply_completed' },
+      'atsWriteBack.provider': { equals: 'vincere' },
+      'atsWriteBack.status': { in: ['pending', 'retrying'] },
+      'atsWriteBack.nextAttemptAt': { less_than_equal: new Date().toISOString() },
+    },
+    sort: 'atsWriteBack.nextAttemptAt',
+    limit,
+    depth: 0,
+  })
+
+  for (const event of events.docs as unknown as ApplicationEvent[]) {
+    const status = await writeBackApplication(event)
+    stats[status]++
+  }
+
+  if (events.docs.length > 0) {
+    logger.info('Processed Vincere application write-backs', { ...stats })
+  }
+
+  return stats
+}
+
+/**
+ * Find the applicant in Vincere, or create them
+ * The Vincere ID is stored back on our candidate record when we have one.
+ * @returns Vincere candidate ID
+ */
+async function matchOrCreateCandidate(
+  client: VincereClient,
+  event: ApplicationEvent,
+  applicant: Applicant,
+  email: string,
+): Promise<string> {
+  const localCandidates = await payload.find({
+    collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+    where: {
+      email: { equals: email },
+      tenant: { equals: event.tenant },
+    },
+    limit: 1,
+    depth: 0,
+  })
+  const localCandidate = localCandidates.docs[0] as any
+
+  // Already linked by a candidate sync or an earlier application
+  const linkedId = localCandidate?.atsData?.vincere?.id
+  if (linkedId) {
+    return String(linkedId)
+  }
+
+  const matches = await client.findCandidatesByEmail(email)
+  const match = matches.find(
+    (candidate) => candidate.primary_email?.toLowerCase() === email.toLowerCase(),
+  )
+
+  let candidateId: string
+  if (match) {
+    candidateId = String(match.id)
+  } else {
+    const created = await client.createCandidate({
+      first_name: applicant.firstName || '',
+      last_name: applicant.lastName || '',
+      email,
+      mobile: applicant.phone || undefined,
+      candidate_source: APPLICATION_SOURCE,
+      registration_date: new Date().toISOString(),
+    })
+    candidateId = String(created)
+  }
+
+  if (localCandidate) {
+    await payload.update({
+      collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+      id: localCandidate.id,
+      data: {
+        atsData: {
+          ...localCandidate.atsData,
+          vincere: { ...localCandidate.atsData?.vincere, id: Number(candidateId) },
+        },
+      } as any,
+    })
+  }
+
+  return candidateId
+}
@@ -0,0 +1,290 @@
+import axios from 'axios'
+import axiosRetry from 'axios-retry'
+import { vincereLogger as logger } from '@/lib/logger'
+import {
+  VincereSession,
+  VincerePosition,
+  VincereCandidate,
+  VincereCandidateInput,
+  VincereSearchResponse,
+  VincereEntityType,
+} from './types'
+
+// Fields requested from the search endpoints; Vincere only returns the fields asked for
+export const POSITION_FIELDS = [
+  'id',
+  'job_title',
+  'public_description',
+  'internal_description',
+  'location',
+  'employment_type',
+  'salary_from',
+  'salary_to',
+  'currency',
+  'salary_type',
+  'open_date',
+  'close_date',
+  'status',
+  'private_job',
+  'last_update',
+  'created_date',
+].join(',')
+
+export const CANDIDATE_FIELDS = [
+  'id',
+  'first_name',
+  'last_name',
+  'primary_email',
+  'phone',
+  'mobile',
+  'current_job_title',
+  'current_employer',
+  'current_location',
+  'skills',
+  'desired_salary',
+  'currency',
+  'candidate_source',
+  'status',
+  'last_update',
+  'created_date',
+].join(',')
+
+// Largest page size the search endpoints accept
+const PAGE_SIZE = 100
+
+export interface VincereClientOptions {
+  // Called when Vincere rejects the ID token; the request is retried once with the new one
+  onTokenExpired?: () => Promise<string | null>
+}
+
+export class VincereClient {
+  private client: ReturnType<typeof axios.create>
+  private session: VincereSession
+  private options: VincereClientOptions
+
+  constructor(session: VincereSession, options: VincereClientOptions = {}) {
+    this.session = session
+    this.options = options
+
+    this.client = axios.create({
+      baseURL: `https://${session.domain}/api/v2`,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    })
+
+    // Send the current credentials with every request
+    this.client.interceptors.request.use((config) => {
+      config.headers = config.headers || {}
+      config.headers['id-token'] = this.session.idToken
+      config.headers['x-api-key'] = this.session.apiKey
+      return config
+    })
+
+    // Configure retry logic
+    axiosRetry(this.client, {
+      retries: 3,
+      retryDelay: axiosRetry.exponentialDelay,
+      retryCondition: (error: any) =>
+        axiosRetry.isNetworkOrIdempotentRequestError(error) || (error.response?.status ?? 0) >= 500,
+      onRetry: (retryCount: number, error: any) => {
+        logger.warn('Retrying failed request', {
+          retryCount,
+          error: error.message,
+          status: error.response?.status,
+          endpoint: error.config?.url,
+        })
+      },
+    })
+
+    // Refresh the ID token once when Vincere rejects it
+    this.client.interceptors.response.use(
+      (response) => response,
+      async (error) => {
+        const config = error.config
+        if (
+          error.response?.status === 401 &&
+          this.options.onTokenExpired &&
+          config &&
+          !config._tokenRefreshed
+        ) {
+          const idToken = await this.options.onTokenExpired()
+          if (idToken) {
+            logger.debug('Refreshed Vincere token after 401')
+            this.session = { ...this.session, idToken }
+            config._tokenRefreshed = true
+            return this.client.request(config)
+          }
+        }
+
+        logger.error('API request failed', {
+          method: config?.method,
+          url: config?.url,
+          status: error.response?.status,
+          error: error.message,
+        })
+        throw error
+      },
+    )
+  }
+
+  // ============================================================================
+  // Position methods
+  // ============================================================================
+
+  async searchPositions(
+    params: { query?: string; start?: number; limit?: number } = {},
+  ): Promise<VincereSearchResponse<VincerePosition>> {
+    const response = await this.client.get<VincereSearchResponse<VincerePosition>>(
+      `position/search/fl=${POSITION_FIELDS};sort=id asc`,
+      {
+        params: {
+          q: params.query,
+          start: params.start ?? 0,
+          limit: params.limit ?? PAGE_SIZE,
+        },
+      },
+    )
+    return response.data
+  }
+
+  /**
+   * Fetch every position, paging through the search results
+   * @param params.modifiedSince Only return positions modified since this time
+   */
+  async getAllPositions(params: { modifiedSince?: string } = {}): Promise<VincerePosition[]> {
+    const query = params.modifiedSince ? modifiedSinceQuery(params.modifiedSince) : undefined
+    return this.searchAll((start) => this.searchPositions({ query, start }))
+  }
+
+  async getPosition(id: number): Promise<VincerePosition> {
+    const response = await this.client.get<VincerePosition>(`position/${id}`)
+    return response.data
+  }
+
+  /**
+   * Add a candidate to a position's shortlist, which is how Vincere records an application
+   * @returns ID of the shortlist entry
+   */
+  async addCandidateToPosition(positionId: number, candidateId: number): Promise<number> {
+    const response = await this.client.post<{ id: number }>(`position/${positionId}/shortlist`, {
+      candidate_id: candidateId,
+    })
+    return response.data.id
+  }
+
+  // ============================================================================
+  // Candidate methods
+  // ============================================================================
+
+  async searchCandidates(
+    params: { query?: string; start?: number; limit?: number } = {},
+  ): Promise<VincereSearchResponse<VincereCandidate>> {
+    const response = await this.client.get<VincereSearchResponse<VincereCandidate>>(
+      `candidate/search/fl=${CANDIDATE_FIELDS};sort=id asc`,
+      {
+        params: {
+          q: params.query,
+          start: params.start ?? 0,
+          limit: params.limit ?? PAGE_SIZE,
+        },
+      },
+    )
+    return response.data
+  }
+
+  /**
+   * Fetch every candidate, paging through the search results
+   * @param params.modifiedSince Only return candidates modified since this time
+   */
+  async getAllCandidates(params: { modifiedSince?: string } = {}): Promise<VincereCandidate[]> {
+    const query = params.modifiedSince ? modifiedSinceQuery(params.modifiedSince) : undefined
+    return this.searchAll((start) => this.searchCandidates({ query, start }))
+  }
+
+  async getCandidate(id: number): Promise<VincereCandidate> {
+    const response = await this.client.get<VincereCandidate>(`candidate/${id}`)
+    return response.data
+  }
+
+  async findCandidatesByEmail(email: string): Promise<VincereCandidate[]> {
+    const response = await this.searchCandidates({
+      query: `primary_email:"${email.replace(/"/g, '')}"`,
+      limit: 10,
+    })
+    return response.result.items
+  }
+
+  /**
+   * Create a candidate
+   * @returns ID of the new candidate
+   */
+  async createCandidate(candidate: VincereCandidateInput): Promise<number> {
+    const response = await this.client.post<{ id: number }>('candidate', candidate)
+    return response.data.id
+  }
+
+  /**
+   * Attach a resume to a candidate as their original CV
+   */
+  async uploadCandidateResume(
+    candidateId: number,
+    file: { fileName: string; data: Buffer },
+  ): Promise<void> {
+    await this.client.post(`candidate/${candidateId}/file`, {
+      file_name: file.fileName,
+      base_64_content: file.data.toString('base64'),
+      original_cv: true,
+    })
+  }
+
+  // ============================================================================
+  // Webhook methods
+  // ============================================================================
+
+  /**
+   * Register a webhook for create, update and delete events on the given entities
+   * @returns ID of the webhook
+   */
+  async createWebhook(webhookUrl: string, entityTypes: VincereEntityType[]): Promise<string> {
+    const response = await this.client.post<{ id: string }>('webhooks', {
+      webhook_url: webhookUrl,
+      events: entityTypes.map((entityType) => ({
+        entity_type: entityType,
+        action_types: ['CREATE', 'UPDATE', 'DELETE'],
+      })),
+    })
+    return response.data.id
+  }
+
+  async getWebhooks(): Promise<{ id: string; webhook_url: string }[]> {
+    const response = await this.client.get<{ id: string; webhook_url: string }[]>('webhooks')
+    return response.data || []
+  }
+
+  private async searchAll<T>(
+    search: (start: number) => Promise<VincereSearchResponse<T>>,
+  ): Promise<T[]> {
+    const results: T[] = []
+    let start = 0
+
+    while (true) {
+      const page = await search(start)
+      results.push(...page.result.items)
+      start += page.result.items.length
+
+      if (page.result.items.length === 0 || start >= page.result.total) {
+        break
+      }
+    }
+
+    return results
+  }
+}
+
+/**
+ * Build a search query for records modified since a time
+ */
+function modifiedSinceQuery(modifiedSince: string): string {
+  return `last_update:[${new Date(modifiedSince).toISOString()} TO *]`
+}
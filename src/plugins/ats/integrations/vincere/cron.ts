@@ -0,0 +1,116 @@
+import payload from 'payload'
+import { vincereLogger as logger } from '@/lib/logger'
+import { getClient } from './oauth'
+import { syncPositions, syncCandidates } from './sync'
+import { registerWebhooks } from './webhook'
+import { VincereSyncStats } from './types'
+import { SyncRunTrigger } from '../../syncRuns'
+import { recordWebhookRegistration } from '../../webhookRegistrations'
+
+type Watermark = 'lastJobSync' | 'lastCandidateSync'
+
+/**
+ * Run one incremental-aware sync against a tenant's watermark.
+ *
+ * Incremental runs only request records modified since the tenant's last successful
+ * sync. The watermark is only advanced when the run completes without item errors,
+ * so failed records are retried on the next run.
+ */
+async function syncWithWatermark(
+  tenantId: string,
+  watermark: Watermark,
+  options: { fullResync?: boolean; trigger?: SyncRunTrigger },
+  sync: typeof syncPositions,
+): Promise<VincereSyncStats> {
+  const { fullResync = false, trigger = 'manual' } = options
+
+  const tenant = await payload.findByID({
+    collection: 'tenants',
+    id: tenantId,
+  })
+
+  const client = await getClient(tenantId)
+  if (!client) {
+    throw new Error('Unable to authenticate with Vincere')
+  }
+
+  // Capture the watermark before fetching so changes made during the run are
+  // picked up by the next one
+  const runStartedAt = new Date().toISOString()
+
+  const stats = await sync(client, Number(tenantId), {
+    modifiedSince: fullResync ? undefined : tenant?.atsConfig?.vincere?.[watermark] || undefined,
+    trigger,
+  })
+
+  if (stats.errors === 0) {
+    await payload.update({
+      collection: 'tenants',
+      id: tenantId,
+      data: {
+        atsConfig: {
+          vincere: { [watermark]: runStartedAt },
+        },
+      } as any,
+    })
+  } else {
+    logger.warn('Vincere sync had errors, watermark not advanced', {
+      tenantId,
+      watermark,
+      errors: stats.errors,
+    })
+  }
+
+  return stats
+}
+
+/**
+ * Sync a tenant's Vincere positions
+ * @param tenantId Tenant ID
+ * @param options.fullResync Ignore the `lastJobSync` watermark and fetch every position
+ * @param options.trigger What started the run, recorded in the sync run ledger
+ */
+export async function syncTenantPositions(
+  tenantId: string,
+  options: { fullResync?: boolean; trigger?: SyncRunTrigger } = {},
+): Promise<VincereSyncStats> {
+  return syncWithWatermark(tenantId, 'lastJobSync', options, syncPositions)
+}
+
+/**
+ * Sync a tenant's Vincere candidates
+ * @param tenantId Tenant ID
+ * @param options.fullResync Ignore the `lastCandidateSync` watermark and fetch every candidate
+ * @param options.trigger What started the run, recorded in the sync run ledger
+ */
+export async function syncTenantCandidates(
+  tenantId: string,
+  options: { fullResync?: boolean; trigger?: SyncRunTrigger } = {},
+): Promise<VincereSyncStats> {
+  return syncWithWatermark(tenantId, 'lastCandidateSync', options, syncCandidates)
+}
+
+/**
+ * Register webhooks and run the initial sync after OAuth connection
+ * A failed webhook registration doesn't stop the sync; it can be retried from the sync route.
+ * @param tenantId Tenant ID
+ */
+export async function initialVincereSync(tenantId: string): Promise<void> {
+  logger.info('Starting initial Vincere sync', { tenantId })
+
+  await registerWebhooks(tenantId).then(
+    () => recordWebhookRegistration(tenantId, 'vincere'),
+    (error) => {
+      logger.error('Vincere webhook registration failed', {
+        tenantId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+      return recordWebhookRegistration(tenantId, 'vincere', error)
+    },
+  )
+
+  const jobs = await syncTenantPositions(tenantId, { fullResync: true, trigger: 'initial' })
+  const candidates = await syncTenantCandidates(tenantId, { fullResync: true, trigger: 'initial' })
+
+  logger.info('Completed initial Vincere sync', { tenantId, stats: { jobs, candidates } })
+}
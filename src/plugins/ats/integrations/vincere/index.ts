@@ -0,0 +1,38 @@
+import { syncPositions, syncCandidates } from './sync'
+import {
+  handleWebhook,
+  registerWebhooks,
+  processDelivery,
+  processWebhookQueue,
+  replayDelivery,
+} from './webhook'
+import { writeBackApplication, processApplicationWriteBacks } from './applications'
+import { syncTenantPositions, syncTenantCandidates, initialVincereSync } from './cron'
+import { vincereOAuth, getSession, getClient } from './oauth'
+
+export const vincereIntegration = {
+  // Sync functions
+  syncPositions,
+  syncCandidates,
+  syncTenantPositions,
+  syncTenantCandidates,
+
+  // Webhook handling
+  handleWebhook,
+  registerWebhooks,
+  processDelivery,
+  processWebhookQueue,
+  replayDelivery,
+
+  // Application write-back
+  writeBackApplication,
+  processApplicationWriteBacks,
+
+  // Scheduling
+  initialVincereSync,
+
+  // Authentication
+  oauth: vincereOAuth,
+  getSession,
+  getClient,
+}
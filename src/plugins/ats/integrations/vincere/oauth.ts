@@ -0,0 +1,225 @@
+import axios from 'axios'
+import payload from 'payload'
+import { vincereLogger as logger } from '@/lib/logger'
+import { decryptSecret } from '../../credentials'
+import { VincereClient } from './client'
+import { VincereSession, VincereTokenResponse, isVincereTokenResponse } from './types'
+
+// Vincere's identity server is shared by every customer domain
+const VINCERE_ID_URL = process.env.VINCERE_ID_URL || 'https://id.vincere.io'
+
+function getRedirectUri(): string {
+  return `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000'}/api/oauth/vincere/callback`
+}
+
+function getClientId(): string {
+  const clientId = process.env.VINCERE_CLIENT_ID
+
+  if (!clientId) {
+    throw new Error('VINCERE_CLIENT_ID environment variable is not set')
+  }
+
+  return clientId
+}
+
+// Accept domains pasted with a scheme or trailing slash
+function normalizeDomain(domain: string): string {
+  return domain.replace(/^https?:\/\//, '').replace(/\/+$/, '')
+}
+
+async function requestTokens(params: Record<string, string>): Promise<VincereTokenResponse> {
+  const tokenResponse = await axios.post(
+    `${VINCERE_ID_URL}/oauth2/token`,
+    new URLSearchParams({ client_id: getClientId(), ...params }).toString(),
+    {
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+    },
+  )
+
+  if (!isVincereTokenResponse(tokenResponse.data)) {
+    throw new Error('Invalid Vincere token response')
+  }
+
+  return tokenResponse.data
+}
+
+async function storeTokens(tenantId: string, tokens: VincereTokenResponse): Promise<void> {
+  await payload.update({
+    collection: 'tenants',
+    id: tenantId,
+    data: {
+      atsConfig: {
+        vincere: {
+          idToken: tokens.id_token,
+          // Vincere only rotates the refresh token occasionally; keep the old one otherwise
+          ...(tokens.refresh_token ? { refreshToken: tokens.refresh_token } : {}),
+          tokenExpiry: new Date(Date.now() + tokens.expires_in * 1000).toISOString(),
+        },
+      },
+    } as any,
+  })
+}
+
+/**
+ * Handles OAuth functionality for Vincere integration
+ */
+export const vincereOAuth = {
+  /**
+   * Generate authorization URL for Vincere OAuth
+   * @param tenantId Tenant ID
+   * @param state Signed state identifying the tenant, see plugins/ats/oauthState.ts
+   * @returns Authorization URL
+   */
+  async getAuthorizationUrl(tenantId: string, state: string): Promise<string> {
+    // Each Vincere customer has their own domain; fail early rather than after the
+    // user has logged in to Vincere
+    const tenant = await payload.findByID({
+      collection: 'tenants',
+      id: tenantId,
+    })
+
+    if (!tenant?.atsConfig?.vincere?.domain) {
+      throw new Error('Vincere domain not configured for tenant')
+    }
+
+    const params = new URLSearchParams({
+      client_id: getClientId(),
+      response_type: 'code',
+      redirect_uri: getRedirectUri(),
+      state,
+    })
+
+    return `${VINCERE_ID_URL}/oauth2/authorize?${params.toString()}`
+  },
+
+  /**
+   * Handle OAuth callback and exchange code for tokens
+   * @param code Authorization code
+   * @param tenantId Tenant ID
+   */
+  async handleCallback(code: string, tenantId: string): Promise<void> {
+    try {
+      const tokens = await requestTokens({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: getRedirectUri(),
+      })
+
+      await storeTokens(tenantId, tokens)
+
+      logger.info('Connected Vincere', { tenantId })
+
+      // Register webhooks and trigger initial sync; the connection stands even if
+      // these fail, and the scheduled sync will catch up
+      const { initialVincereSync } = await import('./cron')
+      await initialVincereSync(tenantId).catch((error) => {
+        logger.error('Initial Vincere sync failed', {
+          tenantId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      })
+    } catch (error) {
+      logger.error('Vincere OAuth error', {
+        tenantId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+      throw error
+    }
+  },
+
+  /**
+   * Refresh the tenant's ID token
+   * @param tenantId Tenant ID
+   * @returns New ID token
+   */
+  async refreshToken(tenantId: string): Promise<string> {
+    try {
+      const tenant = await payload.findByID({
+        collection: 'tenants',
+        id: tenantId,
+      })
+
+      const refreshToken = decryptSecret(tenant?.atsConfig?.vincere?.refreshToken)
+      if (!refreshToken) {
+        throw new Error('No refresh token available')
+      }
+
+      const tokens = await requestTokens({
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+      })
+
+      await storeTokens(tenantId, tokens)
+
+      logger.debug('Refreshed Vincere token', { tenantId })
+      return tokens.id_token
+    } catch (error) {
+      logger.error('Error refreshing Vincere token', {
+        tenantId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+      throw error
+    }
+  },
+}
+
+/**
+ * Get a valid API session for a tenant
+ * @param tenantId Tenant ID
+ * @returns Session, or null if the tenant has not connected Vincere
+ */
+export async function getSession(tenantId: string): Promise<VincereSession | null> {
+  try {
+    const tenant = await payload.findByID({
+      collection: 'tenants',
+      id: tenantId,
+    })
+
+    const vincere = tenant?.atsConfig?.vincere
+    if (!vincere?.refreshToken || !vincere.domain) {
+      return null
+    }
+
+    const apiKey = process.env.VINCERE_API_KEY
+    if (!apiKey) {
+      throw new Error('VINCERE_API_KEY environment variable is not set')
+    }
+
+    // Check if the token is expired
+    const tokenExpiry = new Date(vincere.tokenExpiry || 0)
+    const idToken =
+      !vincere.idToken || tokenExpiry <= new Date()
+        ? await vincereOAuth.refreshToken(tenantId)
+        : decryptSecret(vincere.idToken)
+
+    return {
+      domain: normalizeDomain(vincere.domain),
+      idToken,
+      apiKey,
+    }
+  } catch (error) {
+    logger.error('Error getting Vincere session', {
+      tenantId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    return null
+  }
+}
+
+/**
+ * Create an API client for a tenant that refreshes its own token when it expires
+ * @param tenantId Tenant ID
+ * @returns Client, or null if the tenant has not connected Vincere
+ */
+export async function getClient(tenantId: string): Promise<VincereClient | null> {
+  const session = await getSession(tenantId)
+  if (!session) {
+    return null
+  }
+
+  return new VincereClient(session, {
+    onTokenExpired: () => vincereOAuth.refreshToken(tenantId).catch(() => null),
+  })
+}
@@ -0,0 +1,248 @@
+import payload from 'payload'
+import { vincereLogger as logger } from '@/lib/logger'
+import { VincereClient } from './client'
+import { transformPosition, transformCandidate } from './transform'
+import { VincerePosition, VincereCandidate, VincereSyncStats } from './types'
+import { SyncRunRecorder, SyncRunTrigger } from '../../syncRuns'
+import { findTenantCandidate, mergeAtsData } from '../../candidateIdentity'
+import { SKIP_ATS_PUSH_CONTEXT } from '../../registry'
+
+type UpsertOutcome = 'created' | 'updated'
+
+async function findBySourceId(
+  collection: 'jobs' | 'candidates',
+  tenantId: number,
+  vincereId: number,
+): Promise<any | undefined> {
+  const existing = await payload.find({
+    collection: collection as any, // Type assertion to bypass TypeScript check
+    where: {
+      'atsData.source': { equals: 'vincere' },
+      'atsData.sourceId': { equals: String(vincereId) },
+      tenant: { equals: tenantId },
+    },
+    limit: 1,
+    depth: 0,
+  })
+  return existing.docs[0]
+}
+
+/**
+ * Create or update the local job for a Vincere position
+ * @returns Whether the job was created or updated, and its ID
+ */
+export async function upsertPosition(
+  position: VincerePosition,
+  tenantId: number,
+): Promise<{ outcome: UpsertOutcome; id: string }> {
+  const data = transformPosition(position, tenantId)
+  const existing = await findBySourceId('jobs', tenantId, position.id)
+
+  if (existing) {
+    await payload.update({
+      collection: 'jobs',
+      id: existing.id,
+      data: data as any,
+      context: SKIP_ATS_PUSH_CONTEXT,
+    })
+    return { outcome: 'updated', id: String(existing.id) }
+  }
+
+  const created = await payload.create({
+    collection: 'jobs',
+    data: data as any,
+    context: SKIP_ATS_PUSH_CONTEXT,
+  })
+  return { outcome: 'created', id: String(created.id) }
+}
+
+/**
+ * Create or update the local candidate for a Vincere candidate
+ * Candidates who applied through the site before being synced are matched on email, and
+ * records an admin merged into another candidate update that candidate.
+ * @returns Whether the candidate was created or updated, and its ID
+ */
+export async function upsertCandidate(
+  candidate: VincereCandidate,
+  tenantId: number,
+): Promise<{ outcome: UpsertOutcome; id: string }> {
+  const data = transformCandidate(candidate, tenantId)
+  const existing = await findTenantCandidate(tenantId, {
+    source: 'vincere',
+    sourceId: String(candidate.id),
+    email: data.email,
+  })
+
+  if (existing) {
+    await payload.update({
+      collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+      id: existing.candidate.id,
+      data: {
+        ...data,
+        atsData: mergeAtsData(existing.candidate.atsData, data.atsData, existing.matchedBy),
+      } as any,
+    })
+    return { outcome: 'updated', id: String(existing.candidate.id) }
+  }
+
+  const created = await payload.create({
+    collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+    data: data as any,
+  })
+  return { outcome: 'created', id: String(created.id) }
+}
+
+/**
+ * Close the local job for a position deleted in Vincere
+ * @returns The local job ID, or undefined if we never synced the position
+ */
+export async function closePosition(
+  vincereId: number,
+  tenantId: number,
+): Promise<string | undefined> {
+  const existing = await findBySourceId('jobs', tenantId, vincereId)
+  if (!existing) return undefined
+
+  await payload.update({
+    collection: 'jobs',
+    id: existing.id,
+    data: { status: 'closed' },
+    context: SKIP_ATS_PUSH_CONTEXT,
+  })
+  return String(existing.id)
+}
+
+/**
+ * Mark the local candidate for a candidate deleted in Vincere as inactive
+ * @returns The local candidate ID, or undefined if we never synced the candidate
+ */
+export async function deactivateCandidate(
+  vincereId: number,
+  tenantId: number,
+): Promise<string | undefined> {
+  const existing = await findBySourceId('candidates', tenantId, vincereId)
+  if (!existing) return undefined
+
+  await payload.update({
+    collection: 'candidates' as any, // Type assertion to bypass TypeScript check
+    id: existing.id,
+    data: { status: 'inactive' } as any,
+  })
+  return String(existing.id)
+}
+
+// ============================================================================
+// Position synchronization
+// ============================================================================
+
+export async function syncPositions(
+  client: VincereClient,
+  tenantId: number,
+  options: { modifiedSince?: string; trigger?: SyncRunTrigger } = {},
+): Promise<VincereSyncStats> {
+  const stats: VincereSyncStats = { total: 0, created: 0, updated: 0, deleted: 0, errors: 0 }
+  const { modifiedSince, trigger } = options
+
+  const run = await SyncRunRecorder.start({
+    tenantId,
+    provider: 'vincere',
+    type: 'jobs',
+    mode: modifiedSince ? 'incremental' : 'full',
+    trigger,
+    options: { modifiedSince },
+  })
+
+  try {
+    logger.info('Starting position sync', { tenantId, modifiedSince })
+
+    const positions = await client.getAllPositions({ modifiedSince })
+    stats.total = positions.length
+
+    for (const position of positions) {
+      try {
+        const { outcome, id } = await upsertPosition(position, tenantId)
+        stats[outcome]++
+        run.recordItem({ externalId: String(position.id), localId: id, outcome })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        logger.error(`Error processing position ${position.id}`, { tenantId, error: message })
+        stats.errors++
+        run.recordItem({ externalId: String(position.id), outcome: 'errored', message })
+      }
+    }
+
+    logger.info('Position sync completed', { tenantId, stats })
+    await run.complete(stats)
+    return stats
+  } catch (error) {
+    logger.error('Position sync failed', {
+      tenantId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    await run.fail(error, stats)
+    throw error
+  }
+}
+
+// ============================================================================
+// Candidate synchronization
+// ============================================================================
+
+export async function syncCandidates(
+  client: VincereClient,
+  tenantId: number,
+  options: { modifiedSince?: string; trigger?: SyncRunTrigger } = {},
+): Promise<VincereSyncStats> {
+  const stats: VincereSyncStats = { total: 0, created: 0, updated: 0, deleted: 0, errors: 0 }
+  const { modifiedSince, trigger } = options
+
+  const run = await SyncRunRecorder.start({
+    tenantId,
+    provider: 'vincere',
+    type: 'candidates',
+    mode: modifiedSince ? 'incremental' : 'full',
+    trigger,
+    options: { modifiedSince },
+  })
+
+  try {
+    logger.info('Starting candidate sync', { tenantId, modifiedSince })
+
+    const candidates = await client.getAllCandidates({ modifiedSince })
+    stats.total = candidates.length
+
+    for (const candidate of candidates) {
+      // Email is required on our side, so these can't be stored
+      if (!candidate.primary_email) {
+        run.recordItem({
+          externalId: String(candidate.id),
+          outcome: 'skipped',
+          message: 'Candidate has no email',
+        })
+        continue
+      }
+
+      try {
+        const { outcome, id } = await upsertCandidate(candidate, tenantId)
+        stats[outcome]++
+        run.recordItem({ externalId: String(candidate.id), localId: id, outcome })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        logger.error(`Error processing candidate ${candidate.id}`, { tenantId, error: message })
+        stats.errors++
+        run.recordItem({ externalId: String(candidate.id), outcome: 'errored', message })
+      }
+    }
+
+    logger.info('Candidate sync completed', { tenantId, stats })
+    await run.complete(stats)
+    return stats
+  } catch (error) {
+    logger.error('Candidate sync failed', {
+      tenantId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    await run.fail(error, stats)
+    throw error
+  }
+}
@@ -0,0 +1,248 @@
+import slugify from 'slugify'
+import { vincereLogger as logger } from '@/lib/logger'
+import { VincerePosition, VincereCandidate } from './types'
+
+// ============================================================================
+// Common interfaces
+// ============================================================================
+
+interface PayloadRichTextChild {
+  [key: string]: unknown
+  type: string
+  version: number
+  children: {
+    text: string
+  }[]
+}
+
+interface PayloadRichText {
+  root: {
+    type: 'root'
+    children: PayloadRichTextChild[]
+    direction: 'ltr'
+    format: 'left'
+    indent: 0
+    version: 1
+  }
+}
+
+type PayloadWorkType = 'full-time' | 'part-time' | 'contract' | 'temporary'
+
+// Vincere stores descriptions as HTML; keep the paragraphs and drop the markup
+function convertHtmlToRichText(html: string): PayloadRichText {
+  const paragraphs = html
+    .split(/<\/p>|<br\s*\/?>|\n\n/i)
+    .map((paragraph) =>
+      paragraph
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .trim(),
+    )
+    .filter(Boolean)
+
+  return {
+    root: {
+      type: 'root',
+      children: paragraphs.map((paragraph) => ({
+        type: 'paragraph',
+        version: 1,
+        children: [{ text: paragraph }],
+        format: 'left',
+      })),
+      direction: 'ltr',
+      format: 'left',
+      indent: 0,
+      version: 1,
+    },
+  }
+}
+
+function formatLocation(location?: { city?: string; state?: string; country?: string }): string {
+  if (!location) return ''
+
+  return [location.city, location.state, location.country].filter(Boolean).join(', ')
+}
+
+function mapWorkType(employmentType?: string): PayloadWorkType {
+  const type = employmentType?.toLowerCase() || ''
+
+  if (type.includes('contract')) return 'contract'
+  if (type.includes('temp')) return 'temporary'
+  if (type.includes('part')) return 'part-time'
+  return 'full-time'
+}
+
+function getCurrency(currency?: string): string {
+  return (currency || process.env.VINCERE_DEFAULT_CURRENCY || 'AUD').toUpperCase()
+}
+
+// ============================================================================
+// Positions
+// ============================================================================
+
+interface PayloadJob {
+  title: string
+  slug: string
+  description: PayloadRichText
+  location: string
+  type: PayloadWorkType
+  salary: {
+    min?: number
+    max?: number
+    currency: string
+    period: 'annual' | 'hourly'
+  }
+  expiry_date?: string
+  created_at: string
+  status: 'published' | 'closed'
+  tenant: number
+  atsData: {
+    source: 'vincere'
+    sourceId: string
+    lastSynced: string
+    vincere: {
+      id: number
+      status?: string
+      lastUpdate: string
+    }
+  }
+}
+
+/**
+ * Map a Vincere position onto our jobs collection
+ * Only open, public positions are published; everything else is closed.
+ */
+export function transformPosition(position: VincerePosition, tenantId: number): PayloadJob {
+  logger.debug(`Transforming position ${position.id}`)
+
+  // Daily rates are closer to hourly than annual pay, so they share a period
+  const salaryType = position.salary_type?.toUpperCase() || 'ANNUAL'
+  const hourly = salaryType === 'HOURLY' || salaryType === 'DAILY'
+
+  return {
+    title: position.job_title,
+    slug: slugify(`${position.job_title}-${position.id}`, { lower: true, strict: true }),
+    description: convertHtmlToRichText(
+      position.public_description || position.internal_description || '',
+    ),
+    location: formatLocation(position.location),
+    type: mapWorkType(position.employment_type),
+    salary: {
+      min: position.salary_from || undefined,
+      max: position.salary_to || undefined,
+      currency: getCurrency(position.currency),
+      period: hourly ? 'hourly' : 'annual',
+    },
+    expiry_date: position.close_date || undefined,
+    created_at: position.open_date || position.created_date,
+    status:
+      position.status?.toUpperCase() === 'OPEN' && !position.private_job ? 'published' : 'closed',
+    tenant: tenantId,
+    atsData: {
+      source: 'vincere',
+      sourceId: String(position.id),
+      lastSynced: new Date().toISOString(),
+      vincere: {
+        id: position.id,
+        status: position.status,
+        lastUpdate: position.last_update,
+      },
+    },
+  }
+}
+
+// ============================================================================
+// Candidates
+// ============================================================================
+
+interface PayloadCandidate {
+  firstName: string
+  lastName: string
+  email: string
+  phone?: string
+  status: 'active' | 'inactive' | 'placed'
+  skills: { skill: string }[]
+  currentJobTitle?: string
+  currentEmployer?: string
+  location?: string
+  salaryExpectation?: {
+    min?: number
+    currency: string
+    period: 'annual'
+  }
+  source?: string
+  createdAt?: string
+  updatedAt?: string
+  tenant: number
+  atsData: {
+    source: 'vincere'
+    sourceId: string
+    lastSynced: string
+    vincere: {
+      id: number
+      status?: string
+      lastUpdate: string
+    }
+  }
+}
+
+function mapCandidateStatus(status?: string): PayloadCandidate['status'] {
+  const value = status?.toLowerCase() || ''
+
+  if (value.includes('placed')) return 'placed'
+  if (value.includes('inactive') || value.includes('archive')) return 'inactive'
+  return 'active'
+}
+
+/**
+ * Map a Vincere candidate onto our candidates collection
+ * Candidates without an email can't be stored (email is required), so this throws.
+ */
+export function transformCandidate(
+  candidate: VincereCandidate,
+  tenantId: number,
+): PayloadCandidate {
+  logger.debug(`Transforming candidate ${candidate.id}`)
+
+  if (!candidate.primary_email) {
+    throw new Error(`Vincere candidate ${candidate.id} has no email`)
+  }
+
+  const skills = (candidate.skills || []).map((skill) => skill.trim()).filter(Boolean)
+
+  return {
+    firstName: candidate.first_name,
+    lastName: candidate.last_name,
+    email: candidate.primary_email,
+    phone: candidate.mobile || candidate.phone || undefined,
+    status: mapCandidateStatus(candidate.status),
+    skills: [...new Set(skills)].map((skill) => ({ skill })),
+    currentJobTitle: candidate.current_job_title || undefined,
+    currentEmployer: candidate.current_employer || undefined,
+    location: formatLocation(candidate.current_location) || undefined,
+    salaryExpectation: candidate.desired_salary
+      ? {
+          min: candidate.desired_salary,
+          currency: getCurrency(candidate.currency),
+          period: 'annual',
+        }
+      : undefined,
+    source: candidate.candidate_source || undefined,
+    createdAt: candidate.created_date,
+    updatedAt: candidate.last_update,
+    tenant: tenantId,
+    atsData: {
+      source: 'vincere',
+      sourceId: String(candidate.id),
+      lastSynced: new Date().toISOString(),
+      vincere: {
+        id: candidate.id,
+        status: candidate.status,
+        lastUpdate: candidate.last_update,
+      },
+    },
+  }
+}
@@ -0,0 +1,124 @@
+// Everything needed to call a tenant's Vincere API
+export interface VincereSession {
+  // Tenant's Vincere domain, e.g. acme.vincere.io
+  domain: string
+  idToken: string
+  apiKey: string
+}
+
+export interface VincereTokenResponse {
+  id_token: string
+  access_token: string
+  refresh_token?: string
+  expires_in: number
+  token_type: string
+}
+
+export interface VincerePosition {
+  id: number
+  job_title: string
+  public_description?: string
+  internal_description?: string
+  location?: {
+    city?: string
+    state?: string
+    country?: string
+  }
+  // FULL_TIME, PART_TIME, CONTRACT, TEMPORARY...
+  employment_type?: string
+  salary_from?: number
+  salary_to?: number
+  currency?: string
+  // ANNUAL, MONTHLY, DAILY, HOURLY
+  salary_type?: string
+  open_date?: string
+  close_date?: string
+  // OPEN, CLOSED, FILLED, ON_HOLD...
+  status?: string
+  private_job?: boolean
+  last_update: string
+  created_date: string
+}
+
+export interface VincereCandidate {
+  id: number
+  first_name: string
+  last_name: string
+  primary_email?: string
+  phone?: string
+  mobile?: string
+  current_job_title?: string
+  current_employer?: string
+  current_location?: {
+    city?: string
+    state?: string
+    country?: string
+  }
+  skills?: string[]
+  desired_salary?: number
+  currency?: string
+  candidate_source?: string
+  // ACTIVE, INACTIVE, PLACED...
+  status?: string
+  last_update: string
+  created_date: string
+}
+
+// Search endpoints return a page of results wrapped in `result`
+export interface VincereSearchResponse<T> {
+  result: {
+    start: number
+    total: number
+    items: T[]
+  }
+}
+
+// Fields we send when creating a candidate from one of our applicants
+export interface VincereCandidateInput {
+  first_name: string
+  last_name: string
+  email: string
+  mobile?: string
+  candidate_source?: string
+  registration_date: string
+}
+
+export type VincereEntityType = 'POSITION' | 'CANDIDATE'
+export type VincereActionType = 'CREATE' | 'UPDATE' | 'DELETE'
+
+export interface VincereWebhookPayload {
+  entityType: VincereEntityType
+  actionType: VincereActionType
+  entityId: number
+  // Vincere domain the change happened in
+  tenant: string
+  userId?: number
+  timestamp: number
+}
+
+export interface VincereSyncStats {
+  total: number
+  created: number
+  updated: number
+  deleted: number
+  errors: number
+}
+
+export function isVincereTokenResponse(data: unknown): data is VincereTokenResponse {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    typeof (data as any).id_token === 'string' &&
+    typeof (data as any).expires_in === 'number'
+  )
+}
+
+export function isVincereWebhookPayload(data: unknown): data is VincereWebhookPayload {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    ['POSITION', 'CANDIDATE'].includes((data as any).entityType) &&
+    ['CREATE', 'UPDATE', 'DELETE'].includes((data as any).actionType) &&
+    typeof (data as any).entityId === 'number'
+  )
+}
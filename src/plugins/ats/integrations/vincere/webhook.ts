@@ -0,0 +1,282 @@
+import crypto from 'crypto'
+import { webhookLogger as logger } from '@/lib/logger'
+import { VincereClient } from './client'
+import { getClient } from './oauth'
+import { upsertPosition, upsertCandidate, closePosition, deactivateCandidate } from './sync'
+import {
+  getDeliveryId,
+  getDueDeliveries,
+  recordDelivery,
+  markDeliveryProcessing,
+  markDeliveryProcessed,
+  markDeliveryFailed,
+  markDeliveryDeadLettered,
+  resetDeliveryAttempts,
+  WebhookDelivery,
+} from '../jobAdder/inbox'
+import { VincereWebhookPayload, isVincereWebhookPayload } from './types'
+
+function getWebhookSecret(): string {
+  return process.env.VINCERE_WEBHOOK_SECRET || ''
+}
+
+/**
+ * Get the token that authenticates webhook deliveries for a tenant
+ * Vincere doesn't sign deliveries, so each tenant's webhook URL carries an HMAC of
+ * the tenant ID that only we can produce.
+ * @param tenantId Tenant ID
+ */
+export function getWebhookToken(tenantId: string): string {
+  return crypto.createHmac('sha256', getWebhookSecret()).update(String(tenantId)).digest('hex')
+}
+
+/**
+ * Get the URL Vincere delivers a tenant's webhooks to
+ * @param tenantId Tenant ID
+ */
+export function getWebhookUrl(tenantId: string): string {
+  const params = new URLSearchParams({ tenantId, token: getWebhookToken(tenantId) })
+  return `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000'}/api/webhooks/vincere?${params.toString()}`
+}
+
+/**
+ * Verifies the token on a webhook URL
+ * @param tenantId Tenant ID from the URL
+ * @param token Token from the URL
+ * @returns Boolean indicating if the token is valid
+ */
+export function verifyWebhookToken(tenantId: string, token: string | null | undefined): boolean {
+  // If no secret is configured, skip verification in development
+  if (!getWebhookSecret() && process.env.NODE_ENV !== 'production') {
+    logger.warn('Vincere webhook verification skipped - no secret configured')
+    return true
+  }
+
+  if (!token) {
+    return false
+  }
+
+  const expected = getWebhookToken(tenantId)
+  return (
+    token.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(token), Buffer.from(expected))
+  )
+}
+
+/**
+ * Registers position and candidate webhooks with Vincere
+ * Does nothing if a webhook already points at the tenant's URL.
+ * @param tenantId Tenant ID
+ */
+export async function registerWebhooks(tenantId: string): Promise<void> {
+  const client = await getClient(tenantId)
+  if (!client) {
+    throw new Error('Unable to authenticate with Vincere')
+  }
+
+  const webhookUrl = getWebhookUrl(tenantId)
+  const existing = await client.getWebhooks()
+
+  if (existing.some((webhook) => webhook.webhook_url === webhookUrl)) {
+    logger.info('Vincere webhook already registered', { tenantId })
+    return
+  }
+
+  const webhookId = await client.createWebhook(webhookUrl, ['POSITION', 'CANDIDATE'])
+  logger.info('Registered Vincere webhook', { tenantId, webhookId })
+}
+
+/**
+ * Handles an incoming webhook from Vincere
+ * Deliveries are verified and queued in the webhook inbox, then acknowledged with a 202
+ * straight away; the webhook worker processes them in the background.
+ * Throws if the delivery cannot be stored, so Vincere sends it again.
+ * @param params.tenantId Tenant ID from the webhook URL
+ * @param params.token Token from the webhook URL
+ * @param params.body Parsed request body
+ * @returns Response status and message
+ */
+export async function handleWebhook({
+  tenantId,
+  token,
+  body,
+}: {
+  tenantId: string | null
+  token: string | null
+  body: unknown
+}): Promise<{ status: number; message: string }> {
+  if (!isVincereWebhookPayload(body)) {
+    logger.warn('Invalid Vincere webhook payload', { tenantId, body })
+    return { status: 400, message: 'Invalid webhook payload' }
+  }
+
+  if (!tenantId) {
+    logger.warn('Missing tenant ID in Vincere webhook URL')
+    return { status: 400, message: 'Missing tenant ID' }
+  }
+
+  const signatureValid = verifyWebhookToken(tenantId, token)
+
+  // Deliveries without a valid token are never stored, so they can't fill the inbox
+  if (!signatureValid) {
+    logger.warn('Invalid Vincere webhook token', { tenantId })
+    return { status: 401, message: 'Invalid webhook token' }
+  }
+
+  // Store the raw delivery and queue it for the worker
+  const { delivery, duplicate } = await recordDelivery({
+    deliveryId: getDeliveryId({}, { tenantId, ...body }),
+    body,
+    signatureValid,
+    provider: 'vincere',
+    event: `${body.entityType}.${body.actionType}`.toLowerCase(),
+    tenantId,
+  })
+
+  if (duplicate) {
+    logger.info('Ignoring duplicate Vincere webhook delivery', {
+      deliveryId: delivery.deliveryId,
+      status: delivery.status,
+      tenantId,
+    })
+    return { status: 200, message: 'Duplicate delivery ignored' }
+  }
+
+  logger.info('Queued Vincere webhook delivery', {
+    deliveryId: delivery.deliveryId,
+    entityType: body.entityType,
+    actionType: body.actionType,
+    tenantId,
+  })
+  return { status: 202, message: 'Webhook accepted' }
+}
+
+/**
+ * Apply a webhook event to our jobs and candidates
+ * Throws if the event could not be applied.
+ */
+export async function applyWebhookEvent(
+  client: VincereClient,
+  event: VincereWebhookPayload,
+  tenantId: number,
+): Promise<void> {
+  if (event.entityType === 'POSITION') {
+    if (event.actionType === 'DELETE') {
+      await closePosition(event.entityId, tenantId)
+      return
+    }
+
+    // The transform closes positions that are no longer open
+    await upsertPosition(await client.getPosition(event.entityId), tenantId)
+    return
+  }
+
+  if (event.actionType === 'DELETE') {
+    await deactivateCandidate(event.entityId, tenantId)
+    return
+  }
+
+  // Email is required on our side, so candidates without one can't be stored
+  const candidate = await client.getCandidate(event.entityId)
+  if (candidate.primary_email) {
+    await upsertCandidate(candidate, tenantId)
+  }
+}
+
+/**
+ * Processes a queued Vincere webhook delivery
+ * Failures are retried with exponential backoff until the delivery's attempts are
+ * used up, after which it is dead-lettered for an operator to inspect.
+ * @param delivery Delivery from the webhook inbox
+ * @returns The delivery status after this attempt
+ */
+export async function processDelivery(
+  delivery: WebhookDelivery,
+): Promise<'processed' | 'retrying' | 'dead_letter'> {
+  // A malformed payload will never succeed, so don't retry it
+  if (!isVincereWebhookPayload(delivery.payload) || !delivery.tenantId) {
+    logger.warn('Dead-lettering invalid Vincere webhook delivery', {
+      deliveryId: delivery.deliveryId,
+    })
+    await markDeliveryDeadLettered(delivery, 'Stored payload is not a valid Vincere webhook')
+    return 'dead_letter'
+  }
+
+  await markDeliveryProcessing(delivery)
+
+  try {
+    const client = await getClient(delivery.tenantId)
+    if (!client) {
+      throw new Error('Unable to authenticate with Vincere')
+    }
+
+    await applyWebhookEvent(client, delivery.payload, Number(delivery.tenantId))
+    await markDeliveryProcessed(delivery)
+
+    logger.info('Vincere webhook processed successfully', {
+      deliveryId: delivery.deliveryId,
+      attempts: delivery.attempts,
+      event: delivery.event,
+      tenantId: delivery.tenantId,
+    })
+    return 'processed'
+  } catch (error) {
+    const status = await markDeliveryFailed(delivery, error)
+
+    logger.error('Error processing Vincere webhook', {
+      deliveryId: delivery.deliveryId,
+      attempts: delivery.attempts,
+      status,
+      nextAttemptAt: delivery.nextAttemptAt,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    return status
+  }
+}
+
+/**
+ * Processes Vincere webhook deliveries that are due, one at a time
+ * Called by the webhook worker on a schedule.
+ * @param options.limit Maximum number of deliveries to process in this run
+ * @returns Counts of deliveries by their status after processing
+ */
+export async function processWebhookQueue(
+  options: { limit?: number } = {},
+): Promise<{ processed: number; retrying: number; deadLettered: number }> {
+  const { limit = 25 } = options
+  const stats = { processed: 0, retrying: 0, deadLettered: 0 }
+
+  const deliveries = await getDueDeliveries(limit, 'vincere')
+
+  for (const delivery of deliveries) {
+    const status = await processDelivery(delivery)
+
+    if (status === 'processed') stats.processed++
+    else if (status === 'retrying') stats.retrying++
+    else stats.deadLettered++
+  }
+
+  if (deliveries.length > 0) {
+    logger.info('Processed Vincere webhook queue', { ...stats })
+  }
+
+  return stats
+}
+
+/**
+ * Re-processes a stored Vincere webhook delivery straight away
+ * The delivery's attempts are reset so a failure is retried on a fresh schedule.
+ * @param delivery Delivery from the webhook inbox
+ * @returns The delivery status after replaying
+ */
+export async function replayDelivery(
+  delivery: WebhookDelivery,
+): Promise<'processed' | 'retrying' | 'dead_letter'> {
+  logger.info('Replaying Vincere webhook delivery', {
+    deliveryId: delivery.deliveryId,
+    previousStatus: delivery.status,
+  })
+
+  await resetDeliveryAttempts(delivery)
+  return processDelivery(delivery)
+}
@@ -0,0 +1,146 @@
+import crypto from 'crypto'
+import payload from 'payload'
+import { oauthLogger as logger } from '@/lib/logger'
+import { AtsProviderSlug } from './types'
+
+// How long an admin has to complete the provider's consent screen
+const STATE_TTL_MS = 10 * 60 * 1000
+
+interface OAuthStatePayload {
+  tenantId: string
+  userId: string
+  provider: AtsProviderSlug
+  nonce: string
+  expiresAt: number
+}
+
+export class OAuthStateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'OAuthStateError'
+  }
+}
+
+function getSecret(): string {
+  const secret = process.env.OAUTH_STATE_SECRET || process.env.PAYLOAD_SECRET
+  if (!secret) {
+    throw new Error('OAUTH_STATE_SECRET or PAYLOAD_SECRET must be set to sign OAuth state')
+  }
+  return secret
+}
+
+function sign(value: string): string {
+  return crypto.createHmac('sha256', getSecret()).update(value).digest('base64url')
+}
+
+function hashNonce(nonce: string): string {
+  return crypto.createHash('sha256').update(nonce).digest('hex')
+}
+
+/**
+ * Create the `state` for an ATS authorization request
+ * The state is signed, expires after ten minutes and is bound to the admin who started the
+ * flow. Its nonce is stored on the tenant so it can only be used once, and starting a new
+ * flow invalidates any earlier one.
+ */
+export async function createOAuthState(params: {
+  tenantId: string
+  userId: string | number
+  provider: AtsProviderSlug
+}): Promise<string> {
+  const nonce = crypto.randomBytes(16).toString('base64url')
+  const expiresAt = Date.now() + STATE_TTL_MS
+
+  await payload.update({
+    collection: 'tenants',
+    id: params.tenantId,
+    data: {
+      atsConfig: {
+        oauthState: {
+          provider: params.provider,
+          nonceHash: hashNonce(nonce),
+          expiresAt: new Date(expiresAt).toISOString(),
+        },
+      },
+    } as any,
+  })
+
+  const body: OAuthStatePayload = {
+    tenantId: params.tenantId,
+    userId: String(params.userId),
+    provider: params.provider,
+    nonce,
+    expiresAt,
+  }
+  const encoded = Buffer.from(JSON.stringify(body)).toString('base64url')
+
+  return `${encoded}.${sign(encoded)}`
+}
+
+/**
+ * Check and consume the `state` returned to an OAuth callback
+ * @param state State from the callback query string
+ * @param expected.provider Provider whose callback received the state
+ * @param expected.userId Admin signed in on the callback request
+ * @returns Tenant the flow was started for
+ * @throws OAuthStateError when the state is forged, expired, already used or was started by
+ * someone else
+ */
+export async function consumeOAuthState(
+  state: string,
+  expected: { provider: AtsProviderSlug; userId: string | number },
+): Promise<string> {
+  const [encoded, signature] = state.split('.')
+  if (!encoded || !signature) {
+    throw new OAuthStateError('Malformed OAuth state')
+  }
+
+  const expectedSignature = Buffer.from(sign(encoded))
+  const actualSignature = Buffer.from(signature)
+  if (
+    expectedSignature.length !== actualSignature.length ||
+    !crypto.timingSafeEqual(expectedSignature, actualSignature)
+  ) {
+    throw new OAuthStateError('Invalid OAuth state signature')
+  }
+
+  const body = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as OAuthStatePayload
+
+  if (body.provider !== expected.provider) {
+    throw new OAuthStateError('OAuth state was issued for another provider')
+  }
+  if (body.expiresAt < Date.now()) {
+    throw new OAuthStateError('OAuth state has expired')
+  }
+  if (body.userId !== String(expected.userId)) {
+    throw new OAuthStateError('OAuth state was issued to another user')
+  }
+
+  const tenant = await payload.findByID({
+    collection: 'tenants',
+    id: body.tenantId,
+  })
+  const stored = (tenant?.atsConfig as { oauthState?: { provider?: string; nonceHash?: string } })
+    ?.oauthState
+
+  if (stored?.provider !== body.provider || stored?.nonceHash !== hashNonce(body.nonce)) {
+    logger.warn('Rejected reused or superseded OAuth state', {
+      tenantId: body.tenantId,
+      provider: body.provider,
+    })
+    throw new OAuthStateError('OAuth state has already been used')
+  }
+
+  // Consume the state before exchanging the code so a replayed callback can't race it
+  await payload.update({
+    collection: 'tenants',
+    id: body.tenantId,
+    data: {
+      atsConfig: {
+        oauthState: { provider: null, nonceHash: null, expiresAt: null },
+      },
+    } as any,
+  })
+
+  return body.tenantId
+}
@@ -0,0 +1,207 @@
+import payload from 'payload'
+import { syncLogger as logger } from '@/lib/logger'
+import { AtsProviderSlug } from './types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type PlacementStatus = 'active' | 'completed' | 'cancelled'
+
+// A placement from an ATS, in the shape of the `placements` collection
+export interface PlacementRecord {
+  tenant: number
+  jobTitle: string
+  employer?: string
+  status: PlacementStatus
+  placedAt?: string
+  startDate: string
+  endDate?: string
+  salary?: {
+    amount?: number
+    currency?: string
+    period?: 'annual' | 'hourly'
+  }
+  fee?: {
+    amount?: number
+    currency?: string
+  }
+  sourceOfHire?: string
+  consultant?: {
+    name?: string
+    email?: string
+    atsId?: string
+  }
+  atsData: {
+    source: AtsProviderSlug
+    sourceId: string
+    jobId?: string
+    candidateId?: string
+    lastSynced: string
+  }
+}
+
+export interface TimeToFillSummary {
+  placements: number
+  averageDays: number | null
+  medianDays: number | null
+  bySourceOfHire: Record<string, number>
+}
+
+/**
+ * Whole days between a job opening and its placement
+ * @returns Null when either date is missing or the placement predates the job
+ */
+export function getTimeToFillDays(
+  openedAt: string | Date | null | undefined,
+  filledAt: string | Date | null | undefined,
+): number | null {
+  if (!openedAt || !filledAt) return null
+
+  const days = Math.round((new Date(filledAt).getTime() - new Date(openedAt).getTime()) / DAY_MS)
+  return Number.isFinite(days) && days >= 0 ? days : null
+}
+
+/**
+ * Summarise time-to-fill and source of hire over a set of placements
+ * Cancelled placements are left out; placements without a time-to-fill still count towards
+ * the source of hire breakdown.
+ */
+export function summarizeTimeToFill(
+  placements: Array<{
+    status?: string | null
+    timeToFillDays?: number | null
+    sourceOfHire?: string | null
+  }>,
+): TimeToFillSummary {
+  const filled = placements.filter((placement) => placement.status !== 'cancelled')
+  const days = filled
+    .map((placement) => placement.timeToFillDays)
+    .filter((value): value is number => typeof value === 'number')
+    .sort((a, b) => a - b)
+
+  const bySourceOfHire = filled.reduce<Record<string, number>>((acc, placement) => {
+    const source = placement.sourceOfHire || 'Unknown'
+    acc[source] = (acc[source] || 0) + 1
+    return acc
+  }, {})
+
+  let medianDays: number | null = null
+  if (days.length > 0) {
+    const middle = Math.floor(days.length / 2)
+    medianDays = days.length % 2 ? days[middle] : (days[middle - 1] + days[middle]) / 2
+  }
+
+  return {
+    placements: filled.length,
+    averageDays:
+      days.length > 0
+        ? Math.round((days.reduce((sum, value) => sum + value, 0) / days.length) * 10) / 10
+        : null,
+    medianDays,
+    bySourceOfHire,
+  }
+}
+
+async function findLinked(
+  collection: 'jobs' | 'candidates',
+  record: PlacementRecord,
+  externalId: string | undefined,
+): Promise<any | null> {
+  if (!externalId) return null
+
+  const result = await payload.find({
+    collection: collection as any, // Type assertion to bypass TypeScript check
+    where: {
+      'atsData.source': { equals: record.atsData.source },
+      'atsData.sourceId': { equals: externalId },
+      tenant: { equals: record.tenant },
+    },
+    limit: 1,
+    depth: 0,
+  })
+
+  return result.docs[0] || null
+}
+
+/**
+ * Create or update a placement from the ATS
+ * The placement is linked to our job and candidate when they have been synced, and its
+ * time-to-fill is worked out from when the job opened.
+ * @param record Placement from the ATS
+ * @param options.candidateId Our candidate, when the caller has just saved it
+ * @returns ID of the placement and whether it was created
+ */
+export async function upsertPlacement(
+  record: PlacementRecord,
+  options: { candidateId?: string | number } = {},
+): Promise<{ id: string | number; created: boolean }> {
+  const job = await findLinked('jobs', record, record.atsData.jobId)
+  const candidateId =
+    options.candidateId ??
+    (await findLinked('candidates', record, record.atsData.candidateId))?.id ??
+    null
+
+  const data = {
+    ...record,
+    job: job?.id ?? null,
+    candidate: candidateId,
+    timeToFillDays: getTimeToFillDays(job?.created_at, record.placedAt || record.startDate),
+  }
+
+  const existing = await payload.find({
+    collection: 'placements' as any, // Type assertion to bypass TypeScript check
+    where: {
+      'atsData.source': { equals: record.atsData.source },
+      'atsData.sourceId': { equals: record.atsData.sourceId },
+      tenant: { equals: record.tenant },
+    },
+    limit: 1,
+    depth: 0,
+  })
+
+  if (existing.docs.length > 0) {
+    const updated = await payload.update({
+      collection: 'placements' as any, // Type assertion to bypass TypeScript check
+      id: existing.docs[0].id,
+      data: data as any,
+    })
+    logger.debug('Updated placement', {
+      placementId: updated.id,
+      provider: record.atsData.source,
+      externalId: record.atsData.sourceId,
+    })
+    return { id: updated.id, created: false }
+  }
+
+  const created = await payload.create({
+    collection: 'placements' as any, // Type assertion to bypass TypeScript check
+    data: data as any,
+  })
+  logger.debug('Created placement', {
+    placementId: created.id,
+    provider: record.atsData.source,
+    externalId: record.atsData.sourceId,
+  })
+  return { id: created.id, created: true }
+}
+
+/**
+ * Time-to-fill for a tenant's placements
+ * @param tenantId Tenant to report on
+ * @param since Only include placements starting on or after this date
+ */
+export async function getTenantTimeToFill(
+  tenantId: string | number,
+  since?: Date,
+): Promise<TimeToFillSummary> {
+  const placements = await payload.find({
+    collection: 'placements' as any, // Type assertion to bypass TypeScript check
+    where: {
+      tenant: { equals: tenantId },
+      ...(since ? { startDate: { greater_than_equal: since.toISOString() } } : {}),
+    },
+    pagination: false,
+    depth: 0,
+  })
+
+  return summarizeTimeToFill(placements.docs as any[])
+}
@@ -0,0 +1,189 @@
+import payload from 'payload'
+import { syncLogger as logger } from '@/lib/logger'
+import { Job, Tenant } from '../../payload-types'
+import { AtsProvider, AtsProviderSlug, AtsSyncOptions, AtsSyncStats } from './types'
+
+const providers = new Map<AtsProviderSlug, AtsProvider>()
+
+/**
+ * Register an ATS provider, replacing any provider already registered under its slug
+ */
+export function registerAtsProvider(provider: AtsProvider): void {
+  providers.set(provider.slug, provider)
+}
+
+export function getAtsProvider(slug: string): AtsProvider | undefined {
+  return providers.get(slug as AtsProviderSlug)
+}
+
+export function getAtsProviders(): AtsProvider[] {
+  return [...providers.values()]
+}
+
+/**
+ * Providers the tenant has switched on and completed the OAuth flow for
+ */
+export function getConnectedProviders(tenant: Tenant): AtsProvider[] {
+  return getAtsProviders().filter(
+    (provider) => tenant.features?.[provider.feature] && provider.auth.isConnected(tenant),
+  )
+}
+
+async function getConnectedTenants(provider: AtsProvider): Promise<Tenant[]> {
+  const tenants = await payload.find({
+    collection: 'tenants',
+    where: {
+      [`features.${provider.feature}`]: { equals: true },
+    },
+    pagination: false,
+  })
+
+  return (tenants.docs as unknown as Tenant[]).filter((tenant) => provider.auth.isConnected(tenant))
+}
+
+// Request context of writes that came from an ATS, which are never pushed back to one
+export const SKIP_ATS_PUSH_CONTEXT = { skipAtsPush: true }
+
+/**
+ * Whether a write came from an ATS, see `SKIP_ATS_PUSH_CONTEXT`
+ */
+export function isAtsPushSkipped(context?: Record<string, unknown>): boolean {
+  return Boolean(context?.skipAtsPush)
+}
+
+/**
+ * Push a job to every connected ATS that accepts jobs
+ * A failing provider is logged and skipped so it can't block the others, or the save.
+ */
+export async function pushJobToProviders(job: Job, tenant: Tenant): Promise<void> {
+  for (const provider of getConnectedProviders(tenant)) {
+    if (!provider.pushJob) continue
+
+    try {
+      await provider.pushJob(job, String(tenant.id))
+    } catch (error) {
+      logger.error('Error pushing job to ATS', {
+        provider: provider.slug,
+        tenantId: tenant.id,
+        jobId: job.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+}
+
+/**
+ * Pull jobs and candidates for every connected tenant of every provider
+ * @param options.provider Only sync this provider
+ */
+export async function runScheduledSync(
+  options: Omit<AtsSyncOptions, 'trigger'> & { provider?: AtsProviderSlug } = {},
+): Promise<void> {
+  const { provider: only, ...syncOptions } = options
+
+  for (const provider of getAtsProviders()) {
+    if (only && provider.slug !== only) continue
+
+    try {
+      for (const tenant of await getConnectedTenants(provider)) {
+        const tenantId = String(tenant.id)
+        const stats: Record<string, AtsSyncStats> = {}
+
+        try {
+          stats.jobs = await provider.pullJobs(tenantId, { ...syncOptions, trigger: 'scheduled' })
+          if (provider.pullCandidates) {
+            stats.candidates = await provider.pullCandidates(tenantId, {
+              ...syncOptions,
+              trigger: 'scheduled',
+            })
+          }
+          logger.info('Completed scheduled ATS sync', { provider: provider.slug, tenantId, stats })
+        } catch (tenantError) {
+          logger.error('Error in scheduled ATS sync', {
+            provider: provider.slug,
+            tenantId,
+            error: tenantError instanceof Error ? tenantError.message : 'Unknown error',
+          })
+          // Continue with next tenant
+        }
+      }
+    } catch (error) {
+      logger.error('Error loading tenants for scheduled ATS sync', {
+        provider: provider.slug,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+}
+
+/**
+ * Process webhook deliveries or polled events for every provider
+ * @returns Results keyed by provider slug
+ */
+export async function processProviderWebhooks(): Promise<Record<string, unknown>> {
+  const results: Record<string, unknown> = {}
+
+  for (const provider of getAtsProviders()) {
+    if (!provider.webhooks) continue
+
+    try {
+      results[provider.slug] = (await provider.webhooks.process()) || {}
+    } catch (error) {
+      logger.error('Error processing ATS webhooks', {
+        provider: provider.slug,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+      results[provider.slug] = { error: 'Processing failed' }
+    }
+  }
+
+  return results
+}
+
+/**
+ * Write queued applications back to every provider that accepts them
+ * @returns Results keyed by provider slug
+ */
+export async function pushProviderApplications(): Promise<Record<string, unknown>> {
+  const results: Record<string, unknown> = {}
+
+  for (const provider of getAtsProviders()) {
+    if (!provider.pushApplications) continue
+
+    try {
+      results[provider.slug] = await provider.pushApplications()
+    } catch (error) {
+      logger.error('Error pushing applications to ATS', {
+        provider: provider.slug,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+      results[provider.slug] = { error: 'Processing failed' }
+    }
+  }
+
+  return results
+}
+
+/**
+ * Write queued candidate enrichment summaries back to every provider that accepts them
+ * @returns Results keyed by provider slug
+ */
+export async function pushProviderEnrichment(): Promise<Record<string, unknown>> {
+  const results: Record<string, unknown> = {}
+
+  for (const provider of getAtsProviders()) {
+    if (!provider.pushEnrichment) continue
+
+    try {
+      results[provider.slug] = await provider.pushEnrichment()
+    } catch (error) {
+      logger.error('Error pushing enrichment to ATS', {
+        provider: provider.slug,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+      results[provider.slug] = { error: 'Processing failed' }
+    }
+  }
+
+  return results
+}
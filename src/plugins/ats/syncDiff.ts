@@ -0,0 +1,160 @@
+/**
+ * What a sync would change, worked out by a dry run without writing anything
+ *
+ * Dry runs go through the same fetch, transform and lookup steps as a real sync and record
+ * the writes they would have made here instead.
+ */
+
+export interface FieldChange {
+  // Dotted path on our record, e.g. `salary.max`
+  field: string
+  before: unknown
+  after: unknown
+}
+
+export interface SyncDiffItem {
+  externalId: string
+  localId?: string
+  // Job title or candidate name, for people reading the preview
+  label?: string
+  // Field-level changes for updates
+  changes?: FieldChange[]
+  // Why an item would fail or be closed
+  message?: string
+}
+
+export interface SyncDiff {
+  created: SyncDiffItem[]
+  updated: SyncDiffItem[]
+  // Existing records the sync would save without changing
+  unchanged: number
+  closed: SyncDiffItem[]
+  archived: SyncDiffItem[]
+  failed: SyncDiffItem[]
+}
+
+// What a provider reports from a dry run of a tenant's sync
+export interface SyncPreview {
+  jobs: SyncDiff
+  candidates?: SyncDiff
+}
+
+// Fields a sync rewrites every time, which would otherwise show on every update
+export const VOLATILE_SYNC_FIELDS = ['atsData.lastSynced', 'createdAt', 'updatedAt']
+
+export function createSyncDiff(): SyncDiff {
+  return { created: [], updated: [], unchanged: 0, closed: [], archived: [], failed: [] }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/
+
+// Put stored and incoming values in the same shape before comparing them
+function comparable(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString()
+  }
+  if (typeof value === 'string' && ISO_DATE.test(value) && !isNaN(Date.parse(value))) {
+    return new Date(value).toISOString()
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => {
+      if (!isPlainObject(item)) return comparable(item)
+      // Saved array rows get IDs, and single-field rows (`skills: [{ skill }]`) compare as
+      // their value, as the transforms write them
+      const entries = Object.entries(item).filter(([key]) => key !== 'id')
+      if (entries.length === 1 && !isPlainObject(entries[0][1])) {
+        return comparable(entries[0][1])
+      }
+      return comparable(Object.fromEntries(entries))
+    })
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, comparable(item)]))
+  }
+  return value ?? null
+}
+
+/**
+ * Field-level changes saving `incoming` over `existing` would make
+ * Only fields present on `incoming` are compared, as an update leaves the others alone.
+ * Groups are compared field by field; arrays and rich text are compared whole.
+ * @param ignore Dotted paths to leave out, e.g. sync timestamps
+ */
+export function diffRecord(
+  existing: Record<string, unknown> | null | undefined,
+  incoming: Record<string, unknown>,
+  ignore: string[] = VOLATILE_SYNC_FIELDS,
+  prefix = '',
+): FieldChange[] {
+  const changes: FieldChange[] = []
+
+  for (const [key, after] of Object.entries(incoming)) {
+    const field = prefix ? `${prefix}.${key}` : key
+    if (after === undefined || ignore.includes(field)) continue
+
+    let before = existing?.[key]
+
+    // Relationships are saved as IDs but read back populated
+    if (!isPlainObject(after) && isPlainObject(before) && 'id' in before) {
+      before = before.id
+    }
+
+    // Rich text is a group-shaped value, but only makes sense compared whole
+    if (isPlainObject(after) && !('root' in after)) {
+      changes.push(...diffRecord(isPlainObject(before) ? before : undefined, after, ignore, field))
+      continue
+    }
+
+    if (JSON.stringify(comparable(before)) !== JSON.stringify(comparable(after))) {
+      changes.push({ field, before: before ?? null, after })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Record an update in a diff, or count it as unchanged when it would change nothing
+ */
+export function recordUpdate(
+  diff: SyncDiff,
+  item: SyncDiffItem,
+  existing: Record<string, unknown>,
+  incoming: Record<string, unknown>,
+  ignore?: string[],
+): void {
+  const changes = diffRecord(existing, incoming, ignore)
+  if (changes.length === 0) {
+    diff.unchanged++
+    return
+  }
+  diff.updated.push({ ...item, changes })
+}
+
+/**
+ * One-line summary of a diff, e.g. "Would create 2 jobs, update 1 job (3 field changes)
+ * and close 1 job; 1 job would fail"
+ * @param noun Singular name of the records, e.g. `job`
+ */
+export function describeSyncDiff(diff: SyncDiff, noun: string): string {
+  const count = (n: number) => `${n} ${noun}${n === 1 ? '' : 's'}`
+  const fieldChanges = diff.updated.reduce((total, item) => total + (item.changes?.length || 0), 0)
+
+  const actions = [
+    diff.created.length && `create ${count(diff.created.length)}`,
+    diff.updated.length &&
+      `update ${count(diff.updated.length)} (${fieldChanges} field change${fieldChanges === 1 ? '' : 's'})`,
+    diff.closed.length && `close ${count(diff.closed.length)}`,
+    diff.archived.length && `archive ${count(diff.archived.length)}`,
+  ].filter(Boolean) as string[]
+
+  const summary = actions.length
+    ? `Would ${actions.slice(0, -1).join(', ')}${actions.length > 1 ? ' and ' : ''}${actions[actions.length - 1]}`
+    : `No ${noun} changes`
+
+  return diff.failed.length ? `${summary}; ${count(diff.failed.length)} would fail` : summary
+}
@@ -0,0 +1,134 @@
+import payload from 'payload'
+import { syncLogger as logger } from '@/lib/logger'
+import { AtsProviderSlug } from './types'
+
+export type SyncRunProvider = AtsProviderSlug
+export type SyncRunType = 'jobs' | 'candidates'
+export type SyncRunMode = 'full' | 'incremental'
+export type SyncRunTrigger = 'initial' | 'scheduled' | 'manual'
+export type SyncRunStatus = 'running' | 'succeeded' | 'partial' | 'failed'
+export type SyncItemOutcome = 'created' | 'updated' | 'skipped' | 'closed' | 'archived' | 'errored'
+
+export interface SyncRunItem {
+  externalId: string
+  localId?: string
+  outcome: SyncItemOutcome
+  message?: string
+}
+
+export interface SyncRunParams {
+  tenantId: number
+  provider: SyncRunProvider
+  type: SyncRunType
+  mode: SyncRunMode
+  trigger?: SyncRunTrigger
+  options?: Record<string, unknown>
+}
+
+/**
+ * Records a single sync run in the `sync-runs` collection.
+ *
+ * Items are collected in memory and written once when the run finishes. Ledger
+ * writes never throw: a sync must not fail because its history could not be saved.
+ */
+export class SyncRunRecorder {
+  private runId: string | number | null = null
+  private items: SyncRunItem[] = []
+  private params: SyncRunParams
+
+  private constructor(params: SyncRunParams) {
+    this.params = params
+  }
+
+  /**
+   * Create the run document with status `running`
+   */
+  static async start(params: SyncRunParams): Promise<SyncRunRecorder> {
+    const recorder = new SyncRunRecorder(params)
+
+    try {
+      const run = await payload.create({
+        collection: 'sync-runs' as any, // Type assertion to bypass TypeScript check
+        data: {
+          tenant: params.tenantId,
+          provider: params.provider,
+          type: params.type,
+          mode: params.mode,
+          trigger: params.trigger || 'manual',
+          status: 'running',
+          startedAt: new Date().toISOString(),
+          options: params.options,
+        } as any,
+      })
+      recorder.runId = run.id
+    } catch (error) {
+      logger.error('Failed to create sync run record', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ...params,
+      })
+    }
+
+    return recorder
+  }
+
+  /**
+   * A recorder that writes nothing, for dry runs
+   */
+  static untracked(params: SyncRunParams): SyncRunRecorder {
+    return new SyncRunRecorder(params)
+  }
+
+  get id(): string | number | null {
+    return this.runId
+  }
+
+  recordItem(item: SyncRunItem): void {
+    this.items.push(item)
+  }
+
+  /**
+   * Mark the run finished; runs with item errors are recorded as `partial`
+   */
+  async complete(stats: { errors: number }): Promise<void> {
+    await this.finish(stats.errors > 0 ? 'partial' : 'succeeded', { stats })
+  }
+
+  /**
+   * Mark the run failed, e.g. when the ATS could not be reached at all
+   */
+  async fail(error: unknown, stats?: object): Promise<void> {
+    await this.finish('failed', {
+      stats,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+
+  private async finish(
+    status: SyncRunStatus,
+    result: { stats?: object; error?: string },
+  ): Promise<void> {
+    if (this.runId === null) {
+      return
+    }
+
+    try {
+      await payload.update({
+        collection: 'sync-runs' as any, // Type assertion to bypass TypeScript check
+        id: this.runId,
+        data: {
+          status,
+          finishedAt: new Date().toISOString(),
+          stats: result.stats,
+          error: result.error,
+          items: this.items,
+        } as any,
+      })
+    } catch (error) {
+      logger.error('Failed to update sync run record', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        runId: this.runId,
+        status,
+      })
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { Job, Tenant } from '../../payload-types'
+import { SyncRunTrigger } from './syncRuns'
+import { WebhookDelivery } from './integrations/jobAdder/inbox'
+import { SyncPreview } from './syncDiff'
+
+export type AtsProviderSlug = 'jobadder' | 'bullhorn' | 'vincere' | 'sandbox'
+
+// Tenant feature flag that switches a provider on
+export type AtsFeatureFlag = keyof NonNullable<Tenant['features']>
+
+export interface AtsSyncOptions {
+  // Ignore the tenant's watermark and fetch every record
+  fullResync?: boolean
+  // What started the sync, recorded in the sync run ledger
+  trigger?: SyncRunTrigger
+}
+
+// Every sync reports at least its error count; providers add their own counters
+export interface AtsSyncStats {
+  errors: number
+}
+
+export interface AtsHealth {
+  enabled: boolean
+  connected: boolean
+  tokenExpiresAt?: string | null
+  // OAuth scopes the tenant granted
+  scopes?: string[]
+  // Why the last token refresh failed, cleared by the next successful one
+  lastRefreshError?: string | null
+  lastRefreshErrorAt?: string | null
+  lastJobSync?: string | null
+  lastCandidateSync?: string | null
+}
+
+/**
+ * Contract every ATS integration implements to plug into the ATS plugin.
+ *
+ * Only `auth`, `pullJobs` and `getHealth` are required; the job hook, schedulers and
+ * routes skip providers that don't implement an optional capability.
+ */
+export interface AtsProvider {
+  slug: AtsProviderSlug
+  name: string
+  description: string
+  icon?: string
+  feature: AtsFeatureFlag
+
+  auth: {
+    // `state` is the signed value from plugins/ats/oauthState.ts and must be passed through as is
+    getAuthorizationUrl(tenantId: string, state: string): Promise<string>
+    handleCallback(code: string, tenantId: string): Promise<void>
+    isConnected(tenant: Tenant): boolean
+    // Revoke the tenant's tokens, remove webhooks and clear the stored connection
+    disconnect?(tenantId: string): Promise<void>
+  }
+
+  // Pull the tenant's jobs into the jobs collection
+  pullJobs(tenantId: string, options?: AtsSyncOptions): Promise<AtsSyncStats>
+
+  // Push a published job out to the ATS
+  pushJob?(job: Job, tenantId: string): Promise<void>
+
+  // Pull the tenant's candidates into the candidates collection
+  pullCandidates?(tenantId: string, options?: AtsSyncOptions): Promise<AtsSyncStats>
+
+  // Write queued applications back to the ATS, across all tenants
+  pushApplications?(): Promise<Record<string, number>>
+
+  // Write queued candidate enrichment summaries back to the ATS, across all tenants
+  pushEnrichment?(): Promise<Record<string, number>>
+
+  // Import a synced job's screening questions into the tenant's question bank and onto the job,
+  // returning how many were imported
+  importScreeningQuestions?(job: Job, tenantId: string): Promise<number>
+
+  // Work out what pulling the tenant's jobs (and optionally candidates) would change,
+  // without writing anything
+  previewSync?(
+    tenantId: string,
+    options?: AtsSyncOptions & { candidates?: boolean },
+  ): Promise<SyncPreview>
+
+  webhooks?: {
+    // (Re)register the tenant's webhooks or event subscription with the ATS
+    register?(tenantId: string): Promise<void>
+    // Replace the secret the ATS signs the tenant's deliveries with, accepting the old one for
+    // a grace period
+    rotateSecret?(tenantId: string): Promise<void>
+    // Apply queued webhook deliveries or polled events, across all tenants
+    process(): Promise<Record<string, number> | void>
+    // Re-process one of the provider's stored deliveries from the webhook inbox
+    replay?(delivery: WebhookDelivery): Promise<'processed' | 'retrying' | 'dead_letter'>
+  }
+
+  getHealth(tenant: Tenant): AtsHealth
+}
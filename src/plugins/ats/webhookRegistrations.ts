@@ -0,0 +1,115 @@
+import payload from 'payload'
+import { webhookLogger as logger } from '@/lib/logger'
+import { Tenant } from '../../payload-types'
+import { AtsProvider, AtsProviderSlug } from './types'
+
+export type WebhookRegistration = NonNullable<
+  NonNullable<Tenant['atsConfig']>['webhookRegistrations']
+>[number]
+
+/**
+ * The tenant's last webhook registration with a provider, if one was attempted
+ */
+export function getWebhookRegistration(
+  tenant: Tenant,
+  provider: AtsProviderSlug,
+): WebhookRegistration | undefined {
+  return tenant.atsConfig?.webhookRegistrations?.find((row) => row.provider === provider)
+}
+
+/**
+ * Record the outcome of registering a tenant's webhooks with a provider in
+ * `atsConfig.webhookRegistrations`, for the ATS health dashboard
+ * Never throws: the registration itself has already succeeded or failed.
+ * @param error Why the registration failed; omit when it succeeded
+ */
+export async function recordWebhookRegistration(
+  tenantId: string,
+  provider: AtsProviderSlug,
+  error?: unknown,
+): Promise<void> {
+  try {
+    const tenant = (await payload.findByID({
+      collection: 'tenants',
+      id: tenantId,
+    })) as unknown as Tenant
+
+    const now = new Date().toISOString()
+    const previous = getWebhookRegistration(tenant, provider)
+    const registration: WebhookRegistration =
+      error === undefined
+        ? { provider, status: 'registered', attemptedAt: now, registeredAt: now }
+        : {
+            provider,
+            status: 'failed',
+            attemptedAt: now,
+            registeredAt: previous?.registeredAt,
+            failingSince: previous?.status === 'failed' ? previous.failingSince || now : now,
+            error: error instanceof Error ? error.message : String(error),
+          }
+
+    const others = (tenant.atsConfig?.webhookRegistrations || [])
+      .filter((row) => row.provider !== provider)
+      .map(({ id: _id, ...row }) => row)
+
+    await payload.update({
+      collection: 'tenants',
+      id: tenantId,
+      data: {
+        atsConfig: {
+          webhookRegistrations: [...others, registration],
+        },
+      } as any,
+    })
+  } catch (recordError) {
+    logger.error('Failed to record webhook registration', {
+      tenantId,
+      provider,
+      error: recordError instanceof Error ? recordError.message : 'Unknown error',
+    })
+  }
+}
+
+/**
+ * (Re)register a tenant's webhooks with a provider and record the outcome
+ * Throws if the provider can't register webhooks or the registration fails.
+ */
+export async function registerTenantWebhooks(
+  provider: AtsProvider,
+  tenantId: string,
+): Promise<void> {
+  if (!provider.webhooks?.register) {
+    throw new Error(`${provider.name} does not support webhook registration`)
+  }
+
+  try {
+    await provider.webhooks.register(tenantId)
+  } catch (error) {
+    await recordWebhookRegistration(tenantId, provider.slug, error)
+    throw error
+  }
+  await recordWebhookRegistration(tenantId, provider.slug)
+}
+
+/**
+ * Rotate the secret a provider signs a tenant's webhooks with and record the outcome
+ * Giving the provider the new secret re-registers the webhook, so the result is recorded
+ * like a registration.
+ * Throws if the provider can't rotate secrets or the rotation fails.
+ */
+export async function rotateTenantWebhookSecret(
+  provider: AtsProvider,
+  tenantId: string,
+): Promise<void> {
+  if (!provider.webhooks?.rotateSecret) {
+    throw new Error(`${provider.name} does not support webhook secret rotation`)
+  }
+
+  try {
+    await provider.webhooks.rotateSecret(tenantId)
+  } catch (error) {
+    await recordWebhookRegistration(tenantId, provider.slug, error)
+    throw error
+  }
+  await recordWebhookRegistration(tenantId, provider.slug)
+}
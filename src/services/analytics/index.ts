@@ -1,6 +1,7 @@
 import payload from 'payload'
 import { aiService } from '../ai'
 import { OpenAI } from 'openai'
+import { getTenantTimeToFill } from '../../plugins/ats/placements'
 
 /**
  * Analytics service for processing job metrics and generating insights
@@ -32,6 +33,9 @@ export class AnalyticsService {
       // Calculate basic metrics
       const metrics = this.calculateBasicMetrics(jobs.docs)
 
+      // Time to fill comes from the placements synced from the ATS
+      metrics.timeToFill = await getTenantTimeToFill(tenantId)
+
       // Generate insights using AI
       const insights = await this.generateInsights(jobs.docs, metrics)
 
@@ -225,6 +229,10 @@ export class AnalyticsService {
       jobsBySector: metrics.jobsBySector,
     }
 
+    const performanceMetrics = {
+      timeToFill: metrics.timeToFill?.averageDays ?? null,
+    }
+
     if (existingAnalytics.docs && existingAnalytics.docs.length > 0) {
       // Update existing record
       await payload.update({
@@ -234,6 +242,7 @@ export class AnalyticsService {
           metrics: metrics as any,
           insights: insights as any,
           jobMetrics: jobMetrics as any,
+          performanceMetrics,
         },
       })
     } else {
@@ -251,6 +260,7 @@ export class AnalyticsService {
           metrics: metrics as any,
           insights: insights as any,
           jobMetrics: jobMetrics as any,
+          performanceMetrics,
         },
       })
     }